@@ -11,6 +11,7 @@ export default {
   // Module name mapper for path aliases (matching tsconfig.json paths)
   moduleNameMapper: {
     '^@controllers/(.*)$': '<rootDir>/src/controllers/$1',
+    '^@db/(.*)$': '<rootDir>/src/db/$1',
     '^@middleware/(.*)$': '<rootDir>/src/middleware/$1',
     '^@routes/(.*)$': '<rootDir>/src/routes/$1',
     '^@services/(.*)$': '<rootDir>/src/services/$1',
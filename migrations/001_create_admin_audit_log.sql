@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  admin_uid VARCHAR(128) NOT NULL,
+  admin_email VARCHAR(255) NULL,
+  admin_role VARCHAR(32) NULL,
+  method VARCHAR(10) NOT NULL,
+  route VARCHAR(255) NOT NULL,
+  action ENUM('create', 'update', 'delete', 'execute') NOT NULL,
+  entity_type VARCHAR(64) NULL,
+  entity_id VARCHAR(128) NULL,
+  params JSON NOT NULL,
+  body_summary JSON NULL,
+  details JSON NULL,
+  status_code SMALLINT NOT NULL,
+  duration_ms INT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_admin_audit_admin (admin_uid, created_at),
+  INDEX idx_admin_audit_entity (entity_type, entity_id, created_at),
+  INDEX idx_admin_audit_action (action, created_at),
+  INDEX idx_admin_audit_created (created_at)
+);
@@ -0,0 +1,24 @@
+-- Soft delete support for accounts and profiles.
+-- Rows with a non-null deleted_at are in the admin trash. The admin server hides them from its account and profile
+-- endpoints; readers in keepwatching-common-server (the user-facing API and its email jobs) don't check the column.
+ALTER TABLE accounts ADD COLUMN deleted_at TIMESTAMP NULL DEFAULT NULL;
+ALTER TABLE profiles ADD COLUMN deleted_at TIMESTAMP NULL DEFAULT NULL;
+
+CREATE TABLE IF NOT EXISTS admin_trash (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  entity_type ENUM('account', 'profile') NOT NULL,
+  entity_id INT NOT NULL,
+  account_id INT NOT NULL,
+  label VARCHAR(255) NOT NULL,
+  status ENUM('trashed', 'restored', 'purged') NOT NULL DEFAULT 'trashed',
+  deleted_by_uid VARCHAR(128) NOT NULL,
+  deleted_by_email VARCHAR(255) NULL,
+  deleted_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  purge_after TIMESTAMP NOT NULL,
+  restored_by_uid VARCHAR(128) NULL,
+  restored_at TIMESTAMP NULL,
+  purged_at TIMESTAMP NULL,
+  INDEX idx_admin_trash_status (status, purge_after),
+  INDEX idx_admin_trash_entity (entity_type, entity_id),
+  INDEX idx_admin_trash_account (account_id)
+);
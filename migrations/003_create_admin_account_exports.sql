@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS admin_account_exports (
+  id CHAR(36) PRIMARY KEY,
+  account_id INT NOT NULL,
+  status ENUM('pending', 'running', 'completed', 'failed', 'expired') NOT NULL DEFAULT 'pending',
+  requested_by_uid VARCHAR(128) NOT NULL,
+  requested_by_email VARCHAR(255) NULL,
+  file_path VARCHAR(512) NULL,
+  size_bytes BIGINT NULL,
+  error TEXT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP NULL,
+  expires_at TIMESTAMP NULL,
+  INDEX idx_admin_account_exports_account (account_id, created_at),
+  INDEX idx_admin_account_exports_expiry (status, expires_at)
+);
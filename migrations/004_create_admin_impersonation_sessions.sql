@@ -0,0 +1,16 @@
+-- Admin "view as user" sessions. Each session backs a read-only Firebase custom token whose
+-- impersonationSessionId claim is checked against this table, so a session can be revoked before it expires.
+CREATE TABLE IF NOT EXISTS admin_impersonation_sessions (
+  id CHAR(36) PRIMARY KEY,
+  account_id INT NOT NULL,
+  account_uid VARCHAR(128) NOT NULL,
+  impersonated_by_uid VARCHAR(128) NOT NULL,
+  impersonated_by_email VARCHAR(255) NULL,
+  reason VARCHAR(500) NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP NULL,
+  revoked_by_uid VARCHAR(128) NULL,
+  INDEX idx_admin_impersonation_account (account_id, created_at),
+  INDEX idx_admin_impersonation_admin (impersonated_by_uid)
+);
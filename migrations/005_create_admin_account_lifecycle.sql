@@ -0,0 +1,16 @@
+-- Lifecycle stage of each account, maintained by the accountLifecycle job. Tracks when the account entered its
+-- current stage, which re-engagement email it last received, and whether it is flagged for deletion review.
+CREATE TABLE IF NOT EXISTS admin_account_lifecycle (
+  account_id INT PRIMARY KEY,
+  stage ENUM('active', 'dormant', 'at_risk', 'abandoned') NOT NULL,
+  last_activity_at TIMESTAMP NULL,
+  inactive_days INT NULL,
+  abandonment_rate DECIMAL(5, 2) NULL,
+  stage_changed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  reengagement_stage ENUM('dormant', 'at_risk', 'abandoned') NULL,
+  reengagement_sent_at TIMESTAMP NULL,
+  deletion_review_flagged_at TIMESTAMP NULL,
+  evaluated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_admin_account_lifecycle_stage (stage),
+  INDEX idx_admin_account_lifecycle_review (deletion_review_flagged_at)
+);
@@ -0,0 +1,18 @@
+-- Findings of the content data-quality scanner. One row per rule and content item; an issue is reopened if a later
+-- scan detects it again after it was resolved or fixed.
+CREATE TABLE IF NOT EXISTS admin_content_issues (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  rule VARCHAR(64) NOT NULL,
+  content_type ENUM('show', 'movie', 'episode') NOT NULL,
+  content_id INT NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  details JSON NULL,
+  status ENUM('open', 'resolved') NOT NULL DEFAULT 'open',
+  first_detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  resolved_at TIMESTAMP NULL,
+  fixed_by_uid VARCHAR(128) NULL,
+  fixed_by_email VARCHAR(255) NULL,
+  UNIQUE KEY uq_admin_content_issue (rule, content_type, content_id),
+  INDEX idx_admin_content_issues_status (status, rule)
+);
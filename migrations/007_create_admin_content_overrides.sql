@@ -0,0 +1,16 @@
+-- Field-level values set by admins on shows, movies and episodes. Overridden fields are written back to the content
+-- row after every TMDB refresh; source_value holds the value TMDB last supplied and is restored when the override is
+-- removed.
+CREATE TABLE IF NOT EXISTS admin_content_overrides (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  content_type ENUM('show', 'movie', 'episode') NOT NULL,
+  content_id INT NOT NULL,
+  field VARCHAR(64) NOT NULL,
+  value TEXT NOT NULL,
+  source_value TEXT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  updated_by_uid VARCHAR(128) NOT NULL,
+  updated_by_email VARCHAR(255) NULL,
+  UNIQUE KEY uq_admin_content_override (content_type, content_id, field)
+);
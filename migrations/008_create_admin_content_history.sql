@@ -0,0 +1,21 @@
+-- Field-level changes found on shows and movies after TMDB refreshes, one row per refresh that changed something.
+CREATE TABLE IF NOT EXISTS admin_content_changes (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  content_type ENUM('show', 'movie') NOT NULL,
+  content_id INT NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  source ENUM('refresh', 'scheduled') NOT NULL,
+  changes JSON NOT NULL,
+  detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_admin_content_changes_content (content_type, content_id, detected_at),
+  INDEX idx_admin_content_changes_detected (detected_at)
+);
+
+-- The tracked state of each show and movie at its last change check, diffed against the next one.
+CREATE TABLE IF NOT EXISTS admin_content_snapshots (
+  content_type ENUM('show', 'movie') NOT NULL,
+  content_id INT NOT NULL,
+  snapshot JSON NOT NULL,
+  captured_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (content_type, content_id)
+);
@@ -0,0 +1,32 @@
+-- Orphaned content cleanup. Archived shows and movies are left out of the admin server's full update runs until a
+-- profile watches them again. The shared scheduled update jobs don't check archived_at.
+ALTER TABLE shows ADD COLUMN archived_at TIMESTAMP NULL DEFAULT NULL;
+ALTER TABLE movies ADD COLUMN archived_at TIMESTAMP NULL DEFAULT NULL;
+
+-- When each orphan was first detected, for the cleanup grace period. Rows are dropped once the content is no longer
+-- orphaned.
+CREATE TABLE IF NOT EXISTS admin_content_orphans (
+  content_type ENUM('show', 'movie', 'season', 'episode', 'person') NOT NULL,
+  content_id INT NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  first_detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (content_type, content_id),
+  INDEX idx_admin_content_orphans_detected (first_detected_at)
+);
+
+-- One row per orphan cleanup run, including dry runs, with every item it archived or removed (or would have)
+CREATE TABLE IF NOT EXISTS admin_orphan_cleanup_runs (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  mode ENUM('archive', 'remove') NOT NULL,
+  dry_run BOOLEAN NOT NULL,
+  grace_days INT NOT NULL,
+  detected JSON NOT NULL,
+  actioned JSON NOT NULL,
+  items JSON NOT NULL,
+  unarchived INT NOT NULL DEFAULT 0,
+  triggered_by_uid VARCHAR(128) NULL,
+  triggered_by_email VARCHAR(255) NULL,
+  started_at TIMESTAMP NOT NULL,
+  finished_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_admin_orphan_cleanup_runs_started (started_at)
+);
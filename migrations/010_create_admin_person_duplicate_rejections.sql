@@ -0,0 +1,12 @@
+-- Pairs of people an admin has confirmed are not the same person, so duplicate detection stops suggesting them.
+-- person_id is always the lower of the two ids.
+CREATE TABLE IF NOT EXISTS admin_person_duplicate_rejections (
+  person_id INT NOT NULL,
+  other_person_id INT NOT NULL,
+  notes TEXT NULL,
+  rejected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  rejected_by_uid VARCHAR(128) NOT NULL,
+  rejected_by_email VARCHAR(255) NULL,
+  PRIMARY KEY (person_id, other_person_id),
+  INDEX idx_admin_person_duplicate_rejections_other (other_person_id)
+);
@@ -0,0 +1,2 @@
+-- Full-text index for the people search's name matching
+ALTER TABLE people ADD FULLTEXT INDEX ft_people_name (name);
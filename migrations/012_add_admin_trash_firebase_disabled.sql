@@ -0,0 +1,2 @@
+-- Whether trashing an account disabled its Firebase user, so restoring it only re-enables users the trash disabled
+ALTER TABLE admin_trash ADD COLUMN firebase_disabled BOOLEAN NOT NULL DEFAULT FALSE;
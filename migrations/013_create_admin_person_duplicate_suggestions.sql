@@ -0,0 +1,15 @@
+-- Duplicate person suggestions found by the personDuplicateScan job; each scan replaces every row. person_id is
+-- always the lower of the two ids. Accepting a suggestion merges source_person_id into target_person_id.
+CREATE TABLE IF NOT EXISTS admin_person_duplicate_suggestions (
+  person_id INT NOT NULL,
+  other_person_id INT NOT NULL,
+  source_person_id INT NOT NULL,
+  target_person_id INT NOT NULL,
+  confidence DECIMAL(3, 2) NOT NULL,
+  reasons JSON NOT NULL,
+  shared_credits INT NOT NULL DEFAULT 0,
+  detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (person_id, other_person_id),
+  INDEX idx_admin_person_duplicate_suggestions_confidence (confidence),
+  INDEX idx_admin_person_duplicate_suggestions_other (other_person_id)
+);
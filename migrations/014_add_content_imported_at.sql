@@ -0,0 +1,4 @@
+-- When a show or movie was imported from TMDB by an admin. The orphan cleanup leaves imported content alone for a while
+-- after its import, as no profile watches content seeded ahead of its users.
+ALTER TABLE shows ADD COLUMN imported_at TIMESTAMP NULL DEFAULT NULL;
+ALTER TABLE movies ADD COLUMN imported_at TIMESTAMP NULL DEFAULT NULL;
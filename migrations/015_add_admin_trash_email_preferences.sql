@@ -0,0 +1,2 @@
+-- The email preferences an account had before trashing turned its emails off, written back when it is restored
+ALTER TABLE admin_trash ADD COLUMN email_preferences JSON NULL;
@@ -1,3 +1,22 @@
+import * as accountsDb from '../db/accountsDb';
+import { accountExportService } from '../services/AccountExportService';
+import { accountListService } from '../services/AccountListService';
+import { accountOverviewService } from '../services/AccountOverviewService';
+import { accountPreferencesService } from '../services/AccountPreferencesService';
+import { bulkAccountService } from '../services/BulkAccountService';
+import { firebaseUserService } from '../services/FirebaseUserService';
+import { impersonationService } from '../services/ImpersonationService';
+import { profileTransferService } from '../services/ProfileTransferService';
+import { trashService } from '../services/TrashService';
+import { ACCOUNT_SORT_FIELDS } from '../types/accountListTypes';
+import { BULK_ACCOUNT_ACTIONS } from '../types/bulkAccountTypes';
+import { AccountExport } from '../types/exportTypes';
+import { PREFERENCE_TYPES, PreferenceType } from '../types/preferenceTypes';
+import { MERGE_CONFLICT_STRATEGIES } from '../types/profileTransferTypes';
+import { hasPermission } from '../utils/permissions';
+import { getAdminActor } from '../utils/requestHelpers';
+import { BadRequestError } from '@ajgifford/keepwatching-common-server';
+import { isEmailEnabled } from '@ajgifford/keepwatching-common-server/config';
 import {
   AccountAndProfileIdsParams,
   AccountIdParam,
@@ -14,15 +33,383 @@ import {
 } from '@ajgifford/keepwatching-common-server/services';
 import { NextFunction, Request, Response } from 'express';
 import asyncHandler from 'express-async-handler';
+import { z } from 'zod';
+
+const MAX_BULK_ACCOUNTS = 100;
+
+const booleanQueryParam = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+const accountListQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  sortBy: z.enum(ACCOUNT_SORT_FIELDS).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  emailVerified: booleanQueryParam.optional(),
+  hasProfiles: booleanQueryParam.optional(),
+  inactiveDays: z.string().regex(/^\d+$/, 'inactiveDays must be a whole number of days').transform(Number).optional(),
+});
+
+const bulkAccountActionSchema = z.object({
+  action: z.enum(BULK_ACCOUNT_ACTIONS),
+  accountIds: z
+    .array(z.number().int('Account ID must be an integer').positive('Account ID must be positive'))
+    .min(1, 'At least one account ID is required')
+    .max(MAX_BULK_ACCOUNTS, `No more than ${MAX_BULK_ACCOUNTS} accounts can be processed at once`),
+});
+
+const moveProfileSchema = z.object({
+  targetAccountId: z
+    .number()
+    .int('Target account ID must be an integer')
+    .positive('Target account ID must be positive'),
+});
+
+const mergeProfilesSchema = z.object({
+  targetProfileId: z
+    .number()
+    .int('Target profile ID must be an integer')
+    .positive('Target profile ID must be positive'),
+  strategy: z.enum(MERGE_CONFLICT_STRATEGIES, `Strategy must be one of: ${MERGE_CONFLICT_STRATEGIES.join(', ')}`),
+  dryRun: z.boolean().default(true),
+  trashSourceProfile: z.boolean().default(false),
+});
+
+const impersonateAccountSchema = z.object({
+  reason: z.string().trim().min(1).max(500, 'Reason must be 500 characters or fewer').optional(),
+});
+
+const impersonationSessionParamsSchema = z.object({
+  accountId: z.coerce.number().int().positive('Account ID must be a positive integer'),
+  sessionId: z.uuid('Session ID must be a UUID'),
+});
+
+const accountExportParamsSchema = z.object({
+  accountId: z.coerce.number().int().positive('Account ID must be a positive integer'),
+  exportId: z.uuid('Export ID must be a UUID'),
+});
+
+const accountPreferenceParamsSchema = z.object({
+  accountId: z.coerce.number().int().positive('Account ID must be a positive integer'),
+  preferenceType: z.enum(PREFERENCE_TYPES, `Preference type must be one of: ${PREFERENCE_TYPES.join(', ')}`),
+});
+
+// Only the fields listed for a type can be changed; unknown fields are rejected rather than silently dropped
+const preferenceUpdateSchemas: Record<PreferenceType, z.ZodObject> = {
+  email: z
+    .object({
+      weeklyDigest: z.boolean(),
+      marketingEmails: z.boolean(),
+    })
+    .partial()
+    .strict(),
+  notification: z
+    .object({
+      newSeasonAlerts: z.boolean(),
+      newEpisodeAlerts: z.boolean(),
+    })
+    .partial()
+    .strict(),
+  display: z
+    .object({
+      theme: z.enum(['light', 'dark', 'auto']),
+      dateFormat: z.enum(['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD']),
+    })
+    .partial()
+    .strict(),
+  privacy: z
+    .object({
+      allowRecommendations: z.boolean(),
+      dataCollection: z.boolean(),
+    })
+    .partial()
+    .strict(),
+};
+
+// Replace the server-side bundle path with the API links for an export
+function withExportLinks({ filePath: _filePath, ...accountExport }: AccountExport) {
+  const basePath = `/api/v1/accounts/${accountExport.accountId}/export/${accountExport.id}`;
+  return {
+    ...accountExport,
+    statusUrl: basePath,
+    downloadUrl: accountExport.status === 'completed' ? `${basePath}/download` : null,
+  };
+}
 
 /**
- * Gets all accounts.
+ * Gets a page of accounts, each with its active profile count.
+ * Query parameters:
+ * - search: Case-insensitive match against name, email or uid
+ * - sortBy: 'createdAt' (default), 'lastLogin', 'profileCount', 'name' or 'email'
+ * - sortOrder: 'asc' or 'desc' (default)
+ * - emailVerified: 'true' or 'false'
+ * - hasProfiles: 'true' or 'false'
+ * - inactiveDays: Only accounts that haven't logged in for at least this many days
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
  *
  * @route GET /api/v1/accounts
  */
-export const getAccounts = asyncHandler(async (req: Request, res: Response) => {
-  const combinedUsers = await accountService.getAccounts();
-  res.json({ message: `Retrieved ${combinedUsers.length} accounts`, results: combinedUsers });
+export const getAccounts = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const queryResult = accountListQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      throw new BadRequestError(`Invalid query parameters: ${queryResult.error.issues[0].message}`);
+    }
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(100, parseInt(req.query.limit as string) || 50);
+    const offset = (page - 1) * limit;
+
+    const accountList = await accountListService.getAccountList(queryResult.data, page, offset, limit);
+
+    res.status(200).json({
+      message: `Retrieved page ${page} of accounts`,
+      pagination: accountList.pagination,
+      filters: queryResult.data,
+      results: accountList.accounts,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Runs an action against a batch of accounts and reports the outcome for each one.
+ * Deleting requires the accounts:delete permission and sending the weekly email requires email to be enabled.
+ *
+ * @route POST /api/v1/accounts/bulk
+ * @body { action: 'verify-email' | 'send-weekly-email' | 'reset-default-profile' | 'delete', accountIds: number[] }
+ */
+export const bulkAccountAction = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { action, accountIds } = bulkAccountActionSchema.parse(req.body);
+
+    if (action === 'delete' && (!req.adminRole || !hasPermission(req.adminRole, 'accounts:delete'))) {
+      res.status(403).json({ error: 'Forbidden', role: req.adminRole, missingPermission: 'accounts:delete' });
+      return;
+    }
+    if (action === 'send-weekly-email' && !isEmailEnabled()) {
+      res.status(400).json({ error: 'Email service is disabled' });
+      return;
+    }
+
+    const report = await bulkAccountService.runAction(action, accountIds, getAdminActor(req));
+    res.locals.auditDetails = {
+      succeeded: report.succeeded,
+      failed: report.failed,
+      failedAccountIds: report.results.filter((result) => !result.success).map((result) => result.accountId),
+    };
+    res.status(200).json({
+      message: `Bulk ${action} completed: ${report.succeeded} succeeded, ${report.failed} failed`,
+      ...report,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new BadRequestError(error.issues[0].message);
+    }
+    next(error);
+  }
+});
+
+/**
+ * Gets an account's details with its Firebase Auth record (providers, disabled flag, sign-in and token times).
+ * `firebase` is null when the account has no Firebase user.
+ *
+ * @route GET /api/v1/accounts/:accountId
+ */
+export const getAccountDetails = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+
+    const [account] = await accountsDb.getAccountsByIds([Number(accountId)]);
+    if (!account) {
+      res.status(404).json({ error: `Account ${accountId} not found` });
+      return;
+    }
+
+    const [combinedAccount, firebase] = await Promise.all([
+      accountService.getCombinedAccountByEmail(account.email),
+      firebaseUserService.getUser(account.uid),
+    ]);
+    res.status(200).json({ message: `Retrieved account ${accountId}`, result: { ...combinedAccount, firebase } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Disables an account's Firebase user so they can no longer sign in.
+ *
+ * @route POST /api/v1/accounts/:accountId/firebase/disable
+ */
+export const disableFirebaseUser = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+
+    const [account] = await accountsDb.getAccountsByIds([Number(accountId)]);
+    const firebaseUser = account ? await firebaseUserService.setDisabled(account.uid, true) : null;
+    if (!firebaseUser) {
+      res.status(404).json({ error: `Firebase user for account ${accountId} not found` });
+      return;
+    }
+
+    res.status(200).json({ message: `Firebase user disabled for account ${accountId}`, result: firebaseUser });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Re-enables a disabled Firebase user.
+ *
+ * @route POST /api/v1/accounts/:accountId/firebase/enable
+ */
+export const enableFirebaseUser = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+
+    const [account] = await accountsDb.getAccountsByIds([Number(accountId)]);
+    const firebaseUser = account ? await firebaseUserService.setDisabled(account.uid, false) : null;
+    if (!firebaseUser) {
+      res.status(404).json({ error: `Firebase user for account ${accountId} not found` });
+      return;
+    }
+
+    res.status(200).json({ message: `Firebase user enabled for account ${accountId}`, result: firebaseUser });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Revokes a Firebase user's refresh tokens, signing them out on every device once their ID token expires.
+ *
+ * @route POST /api/v1/accounts/:accountId/firebase/revoke-tokens
+ */
+export const revokeFirebaseTokens = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+
+    const [account] = await accountsDb.getAccountsByIds([Number(accountId)]);
+    const firebaseUser = account ? await firebaseUserService.revokeRefreshTokens(account.uid) : null;
+    if (!firebaseUser) {
+      res.status(404).json({ error: `Firebase user for account ${accountId} not found` });
+      return;
+    }
+
+    res.locals.auditDetails = { tokensValidAfterTime: firebaseUser.tokensValidAfterTime };
+    res.status(200).json({ message: `Refresh tokens revoked for account ${accountId}`, result: firebaseUser });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Generates a password reset link for an account's user, for support to pass on.
+ *
+ * @route POST /api/v1/accounts/:accountId/firebase/password-reset-link
+ */
+export const generatePasswordResetLink = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+
+    const [account] = await accountsDb.getAccountsByIds([Number(accountId)]);
+    const link = account ? await firebaseUserService.generatePasswordResetLink(account.email) : null;
+    if (!account || !link) {
+      res.status(404).json({ error: `Firebase user for account ${accountId} not found` });
+      return;
+    }
+
+    res.status(200).json({
+      message: `Password reset link generated for account ${accountId}`,
+      result: { email: account.email, link },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Starts a "view as user" session for an account and returns a Firebase custom token for its user.
+ * The token carries `impersonatedBy`, `impersonationSessionId`, `impersonationExpiresAt` and `readOnly` claims,
+ * which only the app API can enforce, so this responds 403 unless IMPERSONATION_ENABLED is 'true'.
+ *
+ * @route POST /api/v1/accounts/:accountId/impersonate
+ * @body { reason?: string }
+ */
+export const impersonateAccount = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+    const { reason } = impersonateAccountSchema.parse(req.body ?? {});
+
+    const started = await impersonationService.startSession(Number(accountId), getAdminActor(req), reason ?? null);
+    if (started.outcome === 'disabled') {
+      res.status(403).json({ error: 'Impersonation is disabled' });
+      return;
+    }
+    if (started.outcome === 'not_found') {
+      res.status(404).json({ error: `Account ${accountId} not found` });
+      return;
+    }
+
+    res.locals.auditDetails = {
+      sessionId: started.session.id,
+      expiresAt: started.session.expiresAt,
+      reason: started.session.reason,
+    };
+    res.status(201).json({
+      message: `Impersonation session started for account ${accountId}`,
+      result: { session: started.session, customToken: started.token },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new BadRequestError(error.issues[0].message);
+    }
+    next(error);
+  }
+});
+
+/**
+ * Lists an account's impersonation sessions, newest first.
+ *
+ * @route GET /api/v1/accounts/:accountId/impersonations
+ */
+export const getImpersonationSessions = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+
+    const sessions = await impersonationService.getSessions(Number(accountId));
+    res.status(200).json({ message: `Retrieved impersonation sessions for account ${accountId}`, results: sessions });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Revokes an impersonation session before it expires, after which its token is rejected.
+ *
+ * @route POST /api/v1/accounts/:accountId/impersonations/:sessionId/revoke
+ */
+export const revokeImpersonationSession = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const paramsResult = impersonationSessionParamsSchema.safeParse(req.params);
+    if (!paramsResult.success) {
+      throw new BadRequestError(`Invalid path parameters: ${paramsResult.error.issues[0].message}`);
+    }
+    const { accountId, sessionId } = paramsResult.data;
+
+    const result = await impersonationService.revokeSession(accountId, sessionId, getAdminActor(req));
+    if (result.outcome === 'not_found') {
+      res.status(404).json({ error: `Impersonation session ${sessionId} not found for account ${accountId}` });
+      return;
+    }
+    if (result.outcome === 'not_active') {
+      res.status(409).json({ error: `Impersonation session ${sessionId} is already ${result.session.status}` });
+      return;
+    }
+
+    res.status(200).json({ message: `Impersonation session ${sessionId} revoked`, result: result.session });
+  } catch (error) {
+    next(error);
+  }
 });
 
 /**
@@ -53,14 +440,151 @@ export const editAccount = asyncHandler(async (req: Request, res: Response, next
 /**
  * Deletes an account.
  *
+ * The account and its profiles are moved to the trash and can be restored until the
+ * retention window passes, after which the trashPurge job deletes them permanently.
+ * Its Firebase user is disabled and its emails turned off first; if that fails, the account is left as it was.
+ *
  * @route DELETE /api/v1/accounts/:accountId
  */
 export const deleteAccount = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { accountId } = req.params as unknown as AccountIdParam;
 
-    await accountService.deleteAccount(accountId);
-    res.status(200).json({ message: 'Account deleted successfully' });
+    const trashEntry = await trashService.trashAccount(accountId, getAdminActor(req));
+    if (!trashEntry) {
+      res.status(404).json({ error: `Account ${accountId} not found` });
+      return;
+    }
+
+    res.status(200).json({ message: 'Account moved to trash', result: trashEntry });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Retrieves everything about an account in one document: the combined account record, profiles,
+ * preferences, statistics, health, ratings, recommendations and notifications.
+ *
+ * Sections are loaded in parallel. A section that fails to load is returned as
+ * `{ status: 'error', error }` and `complete` is false, while the other sections are still returned.
+ *
+ * @route GET /api/v1/accounts/:accountId/overview
+ */
+export const getAccountOverview = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+
+    const overview = await accountOverviewService.getAccountOverview(accountId);
+    if (!overview) {
+      res.status(404).json({ error: `Account ${accountId} not found` });
+      return;
+    }
+
+    res.status(200).json({ message: `Retrieved overview for account ${accountId}`, result: overview });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Starts building a full data export (GDPR-style) for an account in the background.
+ * Poll the returned status URL; once completed the export has a download URL.
+ *
+ * @route POST /api/v1/accounts/:accountId/export
+ */
+export const requestAccountExport = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+
+    const accountExport = await accountExportService.startExport(accountId, getAdminActor(req));
+    if (!accountExport) {
+      res.status(404).json({ error: `Account ${accountId} not found` });
+      return;
+    }
+
+    res.locals.auditDetails = { exportId: accountExport.id };
+    res
+      .status(202)
+      .json({ message: `Export started for account ${accountId}`, result: withExportLinks(accountExport) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Lists the data exports generated for an account, newest first, with download URLs for completed exports.
+ *
+ * @route GET /api/v1/accounts/:accountId/export
+ */
+export const getAccountExports = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId } = req.params as unknown as AccountIdParam;
+
+    const exports = await accountExportService.getExports(accountId);
+    res.status(200).json({
+      message: `Retrieved exports for account ${accountId}`,
+      results: exports.map(withExportLinks),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Gets the status of one account data export.
+ *
+ * @route GET /api/v1/accounts/:accountId/export/:exportId
+ */
+export const getAccountExport = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const paramsResult = accountExportParamsSchema.safeParse(req.params);
+    if (!paramsResult.success) {
+      throw new BadRequestError(`Invalid path parameters: ${paramsResult.error.issues[0].message}`);
+    }
+    const { accountId, exportId } = paramsResult.data;
+
+    const accountExport = await accountExportService.getExport(accountId, exportId);
+    if (!accountExport) {
+      res.status(404).json({ error: `Export ${exportId} not found for account ${accountId}` });
+      return;
+    }
+
+    res.status(200).json({ message: `Retrieved export ${exportId}`, result: withExportLinks(accountExport) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Streams a completed account data export as an NDJSON file, one `{ type, data }` record per line.
+ *
+ * @route GET /api/v1/accounts/:accountId/export/:exportId/download
+ */
+export const downloadAccountExport = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const paramsResult = accountExportParamsSchema.safeParse(req.params);
+    if (!paramsResult.success) {
+      throw new BadRequestError(`Invalid path parameters: ${paramsResult.error.issues[0].message}`);
+    }
+    const { accountId, exportId } = paramsResult.data;
+
+    const accountExport = await accountExportService.getExport(accountId, exportId);
+    if (!accountExport) {
+      res.status(404).json({ error: `Export ${exportId} not found for account ${accountId}` });
+      return;
+    }
+    if (accountExport.status !== 'completed' || !accountExport.filePath) {
+      res.status(409).json({ error: `Export ${exportId} is ${accountExport.status}`, status: accountExport.status });
+      return;
+    }
+
+    const stream = accountExportService.openExportFile(accountExport.filePath);
+    stream.on('error', next);
+    res.status(200);
+    res.type('application/x-ndjson');
+    res.attachment(`account-${accountId}-export-${exportId}.ndjson`);
+    stream.pipe(res);
   } catch (error) {
     next(error);
   }
@@ -75,7 +599,10 @@ export const getProfiles = asyncHandler(async (req: Request, res: Response, next
   try {
     const { accountId } = req.params as unknown as AccountIdParam;
 
-    const profiles = await profileService.getAdminProfilesByAccount(accountId);
+    const profiles = await trashService.excludeTrashedProfiles(
+      Number(accountId),
+      await profileService.getAdminProfilesByAccount(accountId),
+    );
     res.status(200).json({ message: 'Retrieved profiles', results: profiles });
   } catch (error) {
     next(error);
@@ -106,7 +633,9 @@ export const editProfile = asyncHandler(async (req: Request, res: Response, next
 /**
  * Deletes a profile from an account.
  *
- * This action will cascade delete all watch status data for the profile.
+ * The profile is moved to the trash and can be restored until the retention window passes.
+ * Its watch status data is only cascade deleted when the trashPurge job purges it. The trash only
+ * hides the profile from the admin endpoints; it stays usable in the app until it is purged.
  *
  * @route DELETE /api/v1/accounts/:accountId/profiles/:profileId
  */
@@ -114,10 +643,109 @@ export const deleteProfile = asyncHandler(async (req: Request, res: Response, ne
   try {
     const { profileId } = req.params as unknown as AccountAndProfileIdsParams;
 
-    await profileService.deleteProfile(profileId);
+    const trashEntry = await trashService.trashProfile(profileId, getAdminActor(req));
+    if (!trashEntry) {
+      res.status(404).json({ error: `Profile ${profileId} not found` });
+      return;
+    }
+
+    res.status(200).json({ message: 'Profile moved to trash', result: trashEntry });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Moves a profile, with everything it has watched, to another account.
+ * If it was the old account's default profile, the old account's oldest remaining profile becomes the default.
+ *
+ * @route POST /api/v1/accounts/:accountId/profiles/:profileId/move
+ * @body { targetAccountId: number }
+ */
+export const moveProfile = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId, profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const { targetAccountId } = moveProfileSchema.parse(req.body);
+
+    const result = await profileTransferService.moveProfile(Number(accountId), Number(profileId), targetAccountId);
+    switch (result.outcome) {
+      case 'profile_not_found':
+        res.status(404).json({ error: `Profile ${profileId} not found in account ${accountId}` });
+        return;
+      case 'account_not_found':
+        res.status(404).json({ error: `Account ${targetAccountId} not found` });
+        return;
+      case 'same_account':
+        res.status(400).json({ error: `Profile ${profileId} already belongs to account ${accountId}` });
+        return;
+    }
+
+    res.locals.auditDetails = { fromAccountId: result.fromAccountId, toAccountId: targetAccountId };
+    res.status(200).json({ message: `Profile ${profileId} moved to account ${targetAccountId}`, result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new BadRequestError(error.issues[0].message);
+    }
+    next(error);
+  }
+});
+
+/**
+ * Merges a profile's show and movie watch statuses into another profile. Content both profiles have is resolved
+ * with the conflict strategy: `latest` keeps the most recently updated status, `most-progress` the furthest along.
+ * Runs as a dry run returning the diff unless `dryRun` is false. Moving the source profile to the trash
+ * afterwards requires the accounts:delete permission.
+ *
+ * @route POST /api/v1/accounts/:accountId/profiles/:profileId/merge
+ * @body { targetProfileId: number, strategy: 'latest' | 'most-progress', dryRun?: boolean, trashSourceProfile?: boolean }
+ */
+export const mergeProfiles = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { accountId, profileId } = req.params as unknown as AccountAndProfileIdsParams;
+    const options = mergeProfilesSchema.parse(req.body);
 
-    res.status(200).json({ message: 'Profile deleted successfully' });
+    if (
+      options.trashSourceProfile &&
+      !options.dryRun &&
+      (!req.adminRole || !hasPermission(req.adminRole, 'accounts:delete'))
+    ) {
+      res.status(403).json({ error: 'Forbidden', role: req.adminRole, missingPermission: 'accounts:delete' });
+      return;
+    }
+
+    const result = await profileTransferService.mergeProfiles(
+      Number(accountId),
+      Number(profileId),
+      options.targetProfileId,
+      options,
+      getAdminActor(req),
+    );
+    if (result.outcome === 'profile_not_found') {
+      res.status(404).json({ error: `Profile ${result.profileId} not found` });
+      return;
+    }
+    if (result.outcome === 'same_profile') {
+      res.status(400).json({ error: 'A profile cannot be merged into itself' });
+      return;
+    }
+
+    res.locals.auditDetails = {
+      targetProfileId: options.targetProfileId,
+      strategy: options.strategy,
+      dryRun: options.dryRun,
+      summary: result.diff.summary,
+      sourceTrashed: result.sourceTrashed,
+    };
+    res.status(200).json({
+      message: options.dryRun
+        ? `Dry run: merge of profile ${profileId} into profile ${options.targetProfileId} not applied`
+        : `Merged profile ${profileId} into profile ${options.targetProfileId}`,
+      result,
+    });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new BadRequestError(error.issues[0].message);
+    }
     next(error);
   }
 });
@@ -189,3 +817,44 @@ export const getAccountPreferences = asyncHandler(async (req: Request, res: Resp
     next(error);
   }
 });
+
+/**
+ * Updates one type of preference for an account, e.g. to unsubscribe a user from emails on their behalf.
+ * The values before and after the change are recorded in the audit trail.
+ *
+ * @route PUT /api/v1/accounts/:accountId/preferences/:preferenceType
+ * @body Fields of the preference type to change (email, notification, display or privacy)
+ */
+export const updateAccountPreferences = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const paramsResult = accountPreferenceParamsSchema.safeParse(req.params);
+    if (!paramsResult.success) {
+      throw new BadRequestError(`Invalid path parameters: ${paramsResult.error.issues[0].message}`);
+    }
+    const { accountId, preferenceType } = paramsResult.data;
+
+    const bodyResult = preferenceUpdateSchemas[preferenceType].safeParse(req.body);
+    if (!bodyResult.success) {
+      throw new BadRequestError(`Invalid ${preferenceType} preferences: ${bodyResult.error.issues[0].message}`);
+    }
+    if (Object.keys(bodyResult.data).length === 0) {
+      throw new BadRequestError(`At least one ${preferenceType} preference must be provided`);
+    }
+
+    const result = await accountPreferencesService.updatePreferences(accountId, preferenceType, bodyResult.data);
+    if (!result) {
+      res.status(404).json({ error: `Account ${accountId} not found` });
+      return;
+    }
+
+    res.locals.auditDetails = {
+      preferenceType,
+      before: result.before,
+      after: result.after,
+      changedFields: result.changedFields,
+    };
+    res.status(200).json({ message: `Updated ${preferenceType} preferences for account ${accountId}`, result });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,68 @@
+import { auditService } from '../services/AuditService';
+import { AuditAction, AuditFilters } from '../types/auditTypes';
+import { NextFunction, Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+
+const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'execute'];
+
+/**
+ * Get the admin audit trail
+ * Query parameters:
+ * - admin: Filter by admin uid or email
+ * - entityType: Filter by entity type (e.g., 'account', 'profile', 'show')
+ * - entityId: Filter by entity id
+ * - action: Filter by action ('create', 'update', 'delete', 'execute')
+ * - startDate: Only include entries on or after this date (ISO 8601)
+ * - endDate: Only include entries on or before this date (ISO 8601)
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/admin/audit
+ */
+export const getAuditLog = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.max(1, Math.min(100, parseInt(req.query.limit as string) || 50));
+    const offset = (page - 1) * limit;
+
+    const filters: AuditFilters = {};
+    if (req.query.admin) filters.admin = req.query.admin as string;
+    if (req.query.entityType) filters.entityType = req.query.entityType as string;
+    if (req.query.entityId) filters.entityId = req.query.entityId as string;
+
+    if (req.query.action) {
+      const action = req.query.action as AuditAction;
+      if (!AUDIT_ACTIONS.includes(action)) {
+        res.status(400).json({ error: `Invalid action. Must be one of: ${AUDIT_ACTIONS.join(', ')}` });
+        return;
+      }
+      filters.action = action;
+    }
+
+    if (req.query.startDate) {
+      const startDate = new Date(req.query.startDate as string);
+      if (isNaN(startDate.getTime())) {
+        res.status(400).json({ error: 'Invalid startDate format' });
+        return;
+      }
+      filters.startDate = startDate;
+    }
+
+    if (req.query.endDate) {
+      const endDate = new Date(req.query.endDate as string);
+      if (isNaN(endDate.getTime())) {
+        res.status(400).json({ error: 'Invalid endDate format' });
+        return;
+      }
+      filters.endDate = endDate;
+    }
+
+    const auditLog = await auditService.getAuditLog(filters, page, offset, limit);
+
+    res.status(200).json({
+      message: `Retrieved page ${page} of audit entries`,
+      pagination: auditLog.pagination,
+      results: auditLog.entries,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -1,64 +1,287 @@
+import { contentImportService } from '../services/ContentImportService';
+import { contentOverrideService } from '../services/ContentOverrideService';
+import { contentSearchService } from '../services/ContentSearchService';
+import { contentUpdateRunService } from '../services/ContentUpdateRunService';
+import { duplicateEpisodeService } from '../services/DuplicateEpisodeService';
+import { personDuplicateService } from '../services/PersonDuplicateService';
+import { personFailureService } from '../services/PersonFailureService';
+import { personSearchService } from '../services/PersonSearchService';
+import { personTmdbIdService } from '../services/PersonTmdbIdService';
+import { ContentOverrideValue, ContentOverrideValues } from '../types/contentOverrideTypes';
+import {
+  CONTENT_MISSING_FIELDS,
+  CONTENT_SEARCH_MODES,
+  CONTENT_SORT_FIELDS,
+  ContentSearchQuery,
+} from '../types/contentSearchTypes';
+import { PERSON_SORT_FIELDS } from '../types/personSearchTypes';
+import { getAdminActor } from '../utils/requestHelpers';
+import { BadRequestError } from '@ajgifford/keepwatching-common-server';
 import { adminMovieService, adminShowService, personService } from '@ajgifford/keepwatching-common-server/services';
 import { NextFunction, Request, Response } from 'express';
 import asyncHandler from 'express-async-handler';
+import { z } from 'zod';
 
-// GET /api/v1/movies
+const booleanQueryParam = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+const contentSearchQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  searchMode: z.enum(CONTENT_SEARCH_MODES).default('fuzzy'),
+  ids: z
+    .string()
+    .regex(/^\d+(,\d+)*$/, 'ids must be a comma separated list of ids')
+    .transform((value) => value.split(',').map(Number))
+    .optional(),
+  tmdbId: z.string().regex(/^\d+$/, 'tmdbId must be numeric').transform(Number).optional(),
+  genre: z.string().trim().min(1).optional(),
+  releasedFrom: z.iso.date('releasedFrom must be a date (YYYY-MM-DD)').optional(),
+  releasedTo: z.iso.date('releasedTo must be a date (YYYY-MM-DD)').optional(),
+  unwatched: booleanQueryParam.optional(),
+  updatedBefore: z.iso.date('updatedBefore must be a date (YYYY-MM-DD)').optional(),
+  missing: z
+    .string()
+    .transform((value) => value.split(',').map((field) => field.trim()))
+    .pipe(z.array(z.enum(CONTENT_MISSING_FIELDS, `missing must be one of: ${CONTENT_MISSING_FIELDS.join(', ')}`)))
+    .optional(),
+  streamingService: z.string().min(1).optional(),
+  sortBy: z.enum(CONTENT_SORT_FIELDS).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+});
+
+const showSearchQuerySchema = contentSearchQuerySchema.extend({
+  type: z.string().min(1).optional(),
+  status: z.string().min(1).optional(),
+  network: z.string().min(1).optional(),
+});
+
+const movieSearchQuerySchema = contentSearchQuerySchema.extend({
+  year: z
+    .string()
+    .regex(/^\d{4}$/, 'year must be a four digit year')
+    .transform(Number)
+    .optional(),
+});
+
+const personSearchQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  firstLetter: z.string().length(1, 'firstLetter must be a single character').optional(),
+  department: z.string().trim().min(1).optional(),
+  showId: z.string().regex(/^\d+$/, 'showId must be numeric').transform(Number).optional(),
+  movieId: z.string().regex(/^\d+$/, 'movieId must be numeric').transform(Number).optional(),
+  missingProfileImage: booleanQueryParam.optional(),
+  sortBy: z.enum(PERSON_SORT_FIELDS).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+});
+
+const resolveDuplicatesSchema = z.object({
+  dryRun: z.boolean('dryRun must be a boolean').default(true),
+});
+
+const importContentSchema = z.strictObject({
+  tmdbId: z.number('tmdbId must be a number').int('tmdbId must be an integer').positive('tmdbId must be positive'),
+});
+
+const personDuplicatesQuerySchema = z.object({
+  minConfidence: z.coerce
+    .number('minConfidence must be a number')
+    .min(0, 'minConfidence must be between 0 and 1')
+    .max(1, 'minConfidence must be between 0 and 1')
+    .default(0.5),
+});
+
+const rejectPersonDuplicateSchema = z.strictObject({
+  notes: z.string('notes must be a string').trim().min(1, 'notes cannot be empty').optional(),
+});
+
+const personTmdbIdPreviewQuerySchema = z.object({
+  tmdbId: z.coerce
+    .number('tmdbId must be a number')
+    .int('tmdbId must be an integer')
+    .positive('tmdbId must be positive'),
+});
+
+const updatePersonTmdbIdSchema = z.strictObject({
+  newTmdbId: z.coerce
+    .number('newTmdbId must be a number')
+    .int('newTmdbId must be an integer')
+    .positive('newTmdbId must be positive'),
+  force: z.boolean('force must be a boolean').optional(),
+});
+
+const MAX_PERSON_FAILURES = 100;
+
+const personFailureIds = z
+  .array(
+    z.number('failureIds must be numbers').int('Failure ID must be an integer').positive('Failure ID must be positive'),
+    'failureIds must be an array',
+  )
+  .min(1, 'At least one failure ID is required')
+  .max(MAX_PERSON_FAILURES, `No more than ${MAX_PERSON_FAILURES} failures can be processed at once`);
+
+const retryPersonFailuresSchema = z
+  .strictObject({
+    failureIds: personFailureIds.optional(),
+    all: z.literal(true, 'all must be true').optional(),
+  })
+  .refine((body) => (body.failureIds === undefined) !== (body.all === undefined), 'Provide either failureIds or all');
+
+const bulkResolvePersonFailuresSchema = z.strictObject({
+  failureIds: personFailureIds,
+  notes: z.string('notes must be a string').trim().min(1, 'notes are required'),
+});
+
+const overrideText = (field: string) => z.string(`${field} must be a string`).trim().min(1, `${field} cannot be empty`);
+const overrideDate = (field: string) => z.iso.date(`${field} must be a date (YYYY-MM-DD)`);
+const overrideRuntime = z.number('runtime must be a number').int().positive('runtime must be a positive number');
+
+const showOverridesSchema = z.strictObject({
+  title: overrideText('title').optional(),
+  description: overrideText('description').optional(),
+  posterImage: overrideText('posterImage').optional(),
+  backdropImage: overrideText('backdropImage').optional(),
+  releaseDate: overrideDate('releaseDate').optional(),
+  network: overrideText('network').optional(),
+  status: overrideText('status').optional(),
+  type: overrideText('type').optional(),
+});
+
+const movieOverridesSchema = z.strictObject({
+  title: overrideText('title').optional(),
+  description: overrideText('description').optional(),
+  posterImage: overrideText('posterImage').optional(),
+  backdropImage: overrideText('backdropImage').optional(),
+  releaseDate: overrideDate('releaseDate').optional(),
+  runtime: overrideRuntime.optional(),
+  mpaRating: overrideText('mpaRating').optional(),
+});
+
+const episodeOverridesSchema = z.strictObject({
+  title: overrideText('title').optional(),
+  overview: overrideText('overview').optional(),
+  airDate: overrideDate('airDate').optional(),
+  stillImage: overrideText('stillImage').optional(),
+  runtime: overrideRuntime.optional(),
+});
+
+/**
+ * Search and filter movies
+ * Query parameters:
+ * - search, searchMode: Title search, 'prefix' or 'fuzzy' (default)
+ * - ids: Comma separated movie ids
+ * - tmdbId, genre, streamingService, year: Exact matches
+ * - releasedFrom, releasedTo, updatedBefore: Dates (YYYY-MM-DD)
+ * - unwatched: 'true' for movies no profile is watching, 'false' for movies at least one profile is watching
+ * - missing: Comma separated 'poster', 'overview'
+ * - sortBy: 'relevance' (default when searching), 'popularity', 'lastUpdated', 'title' (default otherwise)
+ * - sortOrder: 'asc', 'desc'
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/movies
+ */
 export const getMovies = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const queryResult = movieSearchQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      throw new BadRequestError(`Invalid query parameters: ${queryResult.error.issues[0].message}`);
+    }
+
     const page = Math.max(1, parseInt(req.query.page as string) || 1);
     const limit = Math.min(100, parseInt(req.query.limit as string) || 50);
     const offset = (page - 1) * limit;
 
-    const filters: { streamingService?: string; year?: string } = {};
-    if (req.query.streamingService) filters.streamingService = req.query.streamingService as string;
-    if (req.query.year) filters.year = req.query.year as string;
-
-    const allMoviesResult = await adminMovieService.getAllMoviesFiltered(filters, page, offset, limit);
+    const moviesResult = await contentSearchService.searchMovies(queryResult.data, page, offset, limit);
 
     res.status(200).json({
       message: `Retrieved page ${page} of movies`,
-      pagination: allMoviesResult.pagination,
-      filters: allMoviesResult.filters,
-      results: allMoviesResult.movies,
+      pagination: moviesResult.pagination,
+      filters: queryResult.data,
+      results: moviesResult.movies,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/v1/shows
+/**
+ * Search and filter shows
+ * Query parameters:
+ * - search, searchMode: Title search, 'prefix' or 'fuzzy' (default)
+ * - ids: Comma separated show ids
+ * - tmdbId, genre, streamingService, type, status, network: Exact matches
+ * - releasedFrom, releasedTo: First air date range (YYYY-MM-DD)
+ * - updatedBefore: Date (YYYY-MM-DD)
+ * - unwatched: 'true' for shows no profile is watching, 'false' for shows at least one profile is watching
+ * - missing: Comma separated 'poster', 'overview'
+ * - sortBy: 'relevance' (default when searching), 'popularity', 'lastUpdated', 'title' (default otherwise)
+ * - sortOrder: 'asc', 'desc'
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/shows
+ */
 export const getShows = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const queryResult = showSearchQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      throw new BadRequestError(`Invalid query parameters: ${queryResult.error.issues[0].message}`);
+    }
+
     const page = Math.max(1, parseInt(req.query.page as string) || 1);
     const limit = Math.min(100, parseInt(req.query.limit as string) || 50);
     const offset = (page - 1) * limit;
 
-    const filters: { type?: string; status?: string; network?: string; streamingService?: string } = {};
-    if (req.query.type) filters.type = req.query.type as string;
-    if (req.query.status) filters.status = req.query.status as string;
-    if (req.query.network) filters.network = req.query.network as string;
-    if (req.query.streamingService) filters.streamingService = req.query.streamingService as string;
-
-    const allShowsResult = await adminShowService.getAllShowsFiltered(filters, page, offset, limit);
+    const showsResult = await contentSearchService.searchShows(queryResult.data, page, offset, limit);
 
     res.status(200).json({
       message: `Retrieved page ${page} of shows`,
-      pagination: allShowsResult.pagination,
-      filters: allShowsResult.filters,
-      results: allShowsResult.shows,
+      pagination: showsResult.pagination,
+      filters: queryResult.data,
+      results: showsResult.shows,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/v1/shows/:showId
+/**
+ * Imports a show from TMDB with its seasons, episodes and cast, without a user having to add it first. Rejects a
+ * TMDB id that has already been imported.
+ *
+ * @route POST /api/v1/shows
+ * @body { tmdbId }
+ */
+export const importShow = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tmdbId } = parseImportBody(req.body);
+
+    const result = await contentImportService.importShow(tmdbId);
+    if (result.outcome === 'duplicate') {
+      res.status(409).json({ error: `Show with TMDB Id ${tmdbId} already exists`, showId: result.id });
+      return;
+    }
+    if (result.outcome === 'not_found') {
+      res.status(404).json({ error: `No show with TMDB Id ${tmdbId} found on TMDB` });
+      return;
+    }
+
+    res.locals.auditDetails = { tmdbId, showId: result.id };
+    res.status(201).json({ message: `Imported show ${result.title}`, results: result.details });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a show with its seasons, episodes and profiles. `overrides` lists the admin overrides of the show and its
+ * episodes with both the overridden and the TMDB source value.
+ * @route GET /api/v1/shows/:showId
+ */
 export const getFullShowDetails = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { showId } = req.params;
-    const showDetails = await adminShowService.getCompleteShowInfo(Number(showId));
+    const [showDetails, overrides] = await Promise.all([
+      adminShowService.getCompleteShowInfo(Number(showId)),
+      contentOverrideService.getShowOverrides(Number(showId)),
+    ]);
 
-    res.status(200).json({ message: 'Retrieved details for show', results: showDetails });
+    res.status(200).json({ message: 'Retrieved details for show', results: { ...showDetails, overrides } });
   } catch (error) {
     next(error);
   }
@@ -145,6 +368,116 @@ export const getDuplicateEpisodes = asyncHandler(async (req: Request, res: Respo
   }
 });
 
+/**
+ * Resolves a show's duplicate episodes. Each set of episodes sharing a season and episode number keeps one
+ * canonical episode (one with a TMDB id, then the most recently updated); profiles watching a duplicate keep their
+ * furthest status on it and the duplicates are deleted. Runs as a dry run returning the plan unless `dryRun` is false.
+ *
+ * @route POST /api/v1/shows/:showId/duplicateEpisodes/resolve
+ * @body { dryRun?: boolean }
+ */
+export const resolveDuplicateEpisodes = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { showId } = req.params;
+    const { dryRun } = parseResolveDuplicatesBody(req.body);
+
+    const result = await duplicateEpisodeService.resolveShowDuplicates(Number(showId), dryRun);
+    if (result.outcome === 'show_not_found') {
+      res.status(404).json({ error: `Show ${showId} not found` });
+      return;
+    }
+
+    res.locals.auditDetails = { dryRun, summary: result.plan.summary };
+    res.status(200).json({
+      message: dryRun
+        ? `Dry run: duplicate episodes for show ${showId} not resolved`
+        : `Resolved duplicate episodes for show ${showId}`,
+      result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Resolves the duplicate episodes of every show that has them, the same way as a single show.
+ * Runs as a dry run returning the plans unless `dryRun` is false.
+ *
+ * @route POST /api/v1/shows/duplicates/resolve
+ * @body { dryRun?: boolean }
+ */
+export const resolveAllDuplicateEpisodes = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { dryRun } = parseResolveDuplicatesBody(req.body);
+
+    const result = await duplicateEpisodeService.resolveAllDuplicates(dryRun);
+
+    res.locals.auditDetails = { dryRun, summary: result.summary, failedShowIds: result.failedShowIds };
+    res.status(200).json({
+      message: dryRun
+        ? `Dry run: duplicate episodes for ${result.summary.shows} shows not resolved`
+        : `Resolved duplicate episodes for ${result.summary.shows} shows`,
+      result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Replaces a show's field overrides. Overridden fields keep the admin's value through TMDB refreshes; fields left out
+ * of the body lose their override and get their TMDB value back.
+ *
+ * @route PUT /api/v1/shows/:showId/overrides
+ * @body { title?, description?, posterImage?, backdropImage?, releaseDate?, network?, status?, type? }
+ */
+export const setShowOverrides = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { showId } = req.params;
+    const values = parseOverridesBody(showOverridesSchema, req.body);
+
+    const result = await contentOverrideService.setShowOverrides(Number(showId), values, getAdminActor(req));
+    if (result.outcome === 'not_found') {
+      res.status(404).json({ error: `Show ${showId} not found` });
+      return;
+    }
+
+    res.locals.auditDetails = { fields: Object.keys(values) };
+    res.status(200).json({ message: `Updated overrides for show ${showId}`, results: result.overrides });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Replaces an episode's field overrides, the same way as a show's.
+ *
+ * @route PUT /api/v1/shows/:showId/episodes/:episodeId/overrides
+ * @body { title?, overview?, airDate?, stillImage?, runtime? }
+ */
+export const setEpisodeOverrides = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { showId, episodeId } = req.params;
+    const values = parseOverridesBody(episodeOverridesSchema, req.body);
+
+    const result = await contentOverrideService.setEpisodeOverrides(
+      Number(showId),
+      Number(episodeId),
+      values,
+      getAdminActor(req),
+    );
+    if (result.outcome === 'not_found') {
+      res.status(404).json({ error: `Episode ${episodeId} not found in show ${showId}` });
+      return;
+    }
+
+    res.locals.auditDetails = { fields: Object.keys(values) };
+    res.status(200).json({ message: `Updated overrides for episode ${episodeId}`, results: result.overrides });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // DELETE /api/v1/shows/:showId/episodes/:episodeId
 export const deleteEpisode = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -160,18 +493,60 @@ export const deleteEpisode = asyncHandler(async (req: Request, res: Response, ne
 export const updateShow = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { showId, tmdbId } = req.body;
-    await adminShowService.updateShowById(Number(showId), Number(tmdbId), 'all');
+    await contentOverrideService.refreshShow(Number(showId), Number(tmdbId), 'all');
     res.status(200).json({ message: `Show with TMDB Id ${tmdbId} was updated` });
   } catch (error) {
     next(error);
   }
 });
 
-// POST /api/v1/shows/updateAll
+/**
+ * Starts a tracked run updating every show that is still airing. Progress is available from
+ * /api/v1/content/update-runs/:runId.
+ * @route POST /api/v1/shows/updateAll
+ */
 export const updateAllShows = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
-    adminShowService.updateAllShows();
-    res.status(200).json({ message: `Show update process started successfully` });
+    const result = await contentUpdateRunService.startShowUpdate(getAdminActor(req));
+    if (result.outcome === 'already_running') {
+      res.status(409).json({ error: 'A show update is already running', runId: result.run.id });
+      return;
+    }
+    if (result.outcome === 'no_matches') {
+      res.status(200).json({ message: 'No shows need updating', run: null });
+      return;
+    }
+
+    res.locals.auditDetails = { runId: result.run.id, total: result.run.total };
+    res.status(200).json({ message: 'Show update process started successfully', run: result.run });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Starts a tracked run updating the shows matching the filters, e.g. only currently airing shows after a TMDB outage.
+ * Accepts the same query parameters as GET /api/v1/shows (without sorting or pagination); at least one filter is
+ * required, use /api/v1/shows/updateAll to update everything. Progress is available from
+ * /api/v1/content/update-runs/:runId.
+ * @route POST /api/v1/shows/refresh
+ */
+export const refreshShows = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const filters = parseRefreshFilters(showSearchQuerySchema, req.query);
+
+    const result = await contentUpdateRunService.startShowRefresh(filters, getAdminActor(req));
+    if (result.outcome === 'already_running') {
+      res.status(409).json({ error: 'A show update is already running', runId: result.run.id });
+      return;
+    }
+    if (result.outcome === 'no_matches') {
+      res.status(200).json({ message: 'No shows match the refresh filters', filters, run: null });
+      return;
+    }
+
+    res.locals.auditDetails = { runId: result.run.id, total: result.run.total, filters };
+    res.status(200).json({ message: `Refreshing ${result.run.total} shows`, filters, run: result.run });
   } catch (error) {
     next(error);
   }
@@ -181,30 +556,129 @@ export const updateAllShows = asyncHandler(async (req: Request, res: Response, n
 export const updateMovie = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { movieId, tmdbId } = req.body;
-    await adminMovieService.updateMovieById(Number(movieId), Number(tmdbId));
+    await contentOverrideService.refreshMovie(Number(movieId), Number(tmdbId));
     res.status(200).json({ message: `Movie with TMDB Id ${tmdbId} was updated` });
   } catch (error) {
     next(error);
   }
 });
 
-// POST /api/v1/movies/updateAll
+/**
+ * Starts a tracked run updating every movie released in the last six months or not yet released. Progress is
+ * available from /api/v1/content/update-runs/:runId.
+ * @route POST /api/v1/movies/updateAll
+ */
 export const updateAllMovies = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
-    adminMovieService.updateAllMovies();
-    res.status(200).json({ message: 'Movie update process started successfully' });
+    const result = await contentUpdateRunService.startMovieUpdate(getAdminActor(req));
+    if (result.outcome === 'already_running') {
+      res.status(409).json({ error: 'A movie update is already running', runId: result.run.id });
+      return;
+    }
+    if (result.outcome === 'no_matches') {
+      res.status(200).json({ message: 'No movies need updating', run: null });
+      return;
+    }
+
+    res.locals.auditDetails = { runId: result.run.id, total: result.run.total };
+    res.status(200).json({ message: 'Movie update process started successfully', run: result.run });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/v1/movies/:movieId
+/**
+ * Starts a tracked run updating the movies matching the filters. Accepts the same query parameters as
+ * GET /api/v1/movies (without sorting or pagination); at least one filter is required, use /api/v1/movies/updateAll
+ * to update everything. Progress is available from /api/v1/content/update-runs/:runId.
+ * @route POST /api/v1/movies/refresh
+ */
+export const refreshMovies = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const filters = parseRefreshFilters(movieSearchQuerySchema, req.query);
+
+    const result = await contentUpdateRunService.startMovieRefresh(filters, getAdminActor(req));
+    if (result.outcome === 'already_running') {
+      res.status(409).json({ error: 'A movie update is already running', runId: result.run.id });
+      return;
+    }
+    if (result.outcome === 'no_matches') {
+      res.status(200).json({ message: 'No movies match the refresh filters', filters, run: null });
+      return;
+    }
+
+    res.locals.auditDetails = { runId: result.run.id, total: result.run.total, filters };
+    res.status(200).json({ message: `Refreshing ${result.run.total} movies`, filters, run: result.run });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Imports a movie from TMDB with its cast, the same way as a show.
+ *
+ * @route POST /api/v1/movies
+ * @body { tmdbId }
+ */
+export const importMovie = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { tmdbId } = parseImportBody(req.body);
+
+    const result = await contentImportService.importMovie(tmdbId);
+    if (result.outcome === 'duplicate') {
+      res.status(409).json({ error: `Movie with TMDB Id ${tmdbId} already exists`, movieId: result.id });
+      return;
+    }
+    if (result.outcome === 'not_found') {
+      res.status(404).json({ error: `No movie with TMDB Id ${tmdbId} found on TMDB` });
+      return;
+    }
+
+    res.locals.auditDetails = { tmdbId, movieId: result.id };
+    res.status(201).json({ message: `Imported movie ${result.title}`, results: result.details });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a movie with its profiles. `overrides` lists the movie's admin overrides with both the overridden and the TMDB
+ * source value.
+ * @route GET /api/v1/movies/:movieId
+ */
 export const getFullMovieDetails = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { movieId } = req.params;
-    const movieDetails = await adminMovieService.getCompleteMovieInfo(Number(movieId));
+    const [movieDetails, overrides] = await Promise.all([
+      adminMovieService.getCompleteMovieInfo(Number(movieId)),
+      contentOverrideService.getMovieOverrides(Number(movieId)),
+    ]);
 
-    res.status(200).json({ message: 'Retrieved details for movie', results: movieDetails });
+    res.status(200).json({ message: 'Retrieved details for movie', results: { ...movieDetails, overrides } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Replaces a movie's field overrides, the same way as a show's.
+ *
+ * @route PUT /api/v1/movies/:movieId/overrides
+ * @body { title?, description?, posterImage?, backdropImage?, releaseDate?, runtime?, mpaRating? }
+ */
+export const setMovieOverrides = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { movieId } = req.params;
+    const values = parseOverridesBody(movieOverridesSchema, req.body);
+
+    const result = await contentOverrideService.setMovieOverrides(Number(movieId), values, getAdminActor(req));
+    if (result.outcome === 'not_found') {
+      res.status(404).json({ error: `Movie ${movieId} not found` });
+      return;
+    }
+
+    res.locals.auditDetails = { fields: Object.keys(values) };
+    res.status(200).json({ message: `Updated overrides for movie ${movieId}`, results: result.overrides });
   } catch (error) {
     next(error);
   }
@@ -254,6 +728,43 @@ export const getPeople = asyncHandler(async (req: Request, res: Response, next:
   }
 });
 
+/**
+ * Search and filter people
+ * Query parameters:
+ * - search: Full-text name search; every word must match the start of a word in the name
+ * - firstLetter: Names starting with this letter
+ * - department: Known-for department (e.g. 'Acting', 'Directing')
+ * - showId, movieId: People credited in this show or movie
+ * - missingProfileImage: 'true' for people without a profile image, 'false' for people with one
+ * - sortBy: 'relevance' (default when searching), 'credits', 'name' (default otherwise)
+ * - sortOrder: 'asc', 'desc'
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/people/search
+ */
+export const searchPeople = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const queryResult = personSearchQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      throw new BadRequestError(`Invalid query parameters: ${queryResult.error.issues[0].message}`);
+    }
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(100, parseInt(req.query.limit as string) || 50);
+    const offset = (page - 1) * limit;
+
+    const peopleResult = await personSearchService.searchPeople(queryResult.data, page, offset, limit);
+
+    res.status(200).json({
+      message: `Retrieved page ${page} of people`,
+      pagination: peopleResult.pagination,
+      filters: queryResult.data,
+      results: peopleResult.people,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/v1/people/by-tmdb/:tmdbId
 export const getPersonByTmdbId = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -319,6 +830,81 @@ export const getPersonFailures = asyncHandler(async (req: Request, res: Response
   }
 });
 
+/**
+ * Gets the pending person update failures grouped by error type, largest group first, with the suggested action for
+ * each type and up to 100 of its failure ids
+ * @route GET /api/v1/people/failures/summary
+ */
+export const getPersonFailureSummary = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const summary = await personFailureService.getSummary();
+    res.status(200).json({ message: 'Retrieved person update failure summary', results: summary });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Re-runs the person update for the selected failures, or every pending failure, and reports the outcome of each.
+ * Failures that now succeed are resolved; the rest are classified as not found on TMDB (fix the TMDB id or delete the
+ * person), retry later (TMDB unavailable or rate limited) or failed.
+ *
+ * @route POST /api/v1/people/failures/retry
+ * @body { failureIds: number[] } | { all: true }
+ */
+export const retryPersonFailures = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = retryPersonFailuresSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      throw new BadRequestError(`Invalid request body: ${body.error.issues[0].message}`);
+    }
+
+    const report = await personFailureService.retryFailures(body.data.failureIds ?? 'all');
+
+    res.locals.auditDetails = {
+      all: body.data.all ?? false,
+      counts: report.counts,
+      unresolvedFailureIds: report.results
+        .filter((result) => result.outcome !== 'resolved' && result.outcome !== 'skipped')
+        .map((result) => result.failureId),
+    };
+    res.status(200).json({
+      message: `Retried ${report.total} person update failures: ${report.counts.resolved} resolved`,
+      ...report,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Resolves many pending person update failures with the same notes and reports the result for each
+ * @route PUT /api/v1/people/failures/bulk-resolve
+ * @body { failureIds: number[], notes: string }
+ */
+export const bulkResolvePersonFailures = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = bulkResolvePersonFailuresSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      throw new BadRequestError(`Invalid request body: ${body.error.issues[0].message}`);
+    }
+
+    const report = await personFailureService.resolveFailures(body.data.failureIds, body.data.notes);
+
+    res.locals.auditDetails = {
+      resolved: report.resolved,
+      failed: report.failed,
+      failedFailureIds: report.results.filter((result) => !result.success).map((result) => result.failureId),
+    };
+    res.status(200).json({
+      message: `Resolved ${report.resolved} person update failures, ${report.failed} failed`,
+      ...report,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/v1/people/failures/:failureId
 export const getPersonFailure = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -360,6 +946,92 @@ export const mergeAndDeletePerson = asyncHandler(async (req: Request, res: Respo
   }
 });
 
+/**
+ * Get people who are probably the same person, scored from 0 to 1 on their names, birthdays and shared credits.
+ * Rejected pairs are left out.
+ * Query parameters:
+ * - minConfidence: Lowest confidence returned (default 0.5)
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/people/duplicates
+ */
+export const getPersonDuplicates = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = personDuplicatesQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      throw new BadRequestError(`Invalid query parameters: ${query.error.issues[0].message}`);
+    }
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(100, parseInt(req.query.limit as string) || 50);
+    const offset = (page - 1) * limit;
+
+    const result = await personDuplicateService.getSuggestions(query.data, page, offset, limit);
+
+    res.status(200).json({
+      message: `Retrieved page ${page} of duplicate people`,
+      pagination: result.pagination,
+      results: result.suggestions,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Accepts a duplicate suggestion: merges the person into the target person and deletes them. Returns 404 unless the
+ * pair is a current, non-rejected suggestion.
+ * @route POST /api/v1/people/duplicates/:personId/merge/:targetPersonId
+ */
+export const acceptPersonDuplicate = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const [personId, targetPersonId] = parsePersonPair(req.params.personId, req.params.targetPersonId);
+    const result = await personDuplicateService.acceptSuggestion(personId, targetPersonId);
+    if (result.outcome === 'not_suggested') {
+      res
+        .status(404)
+        .json({ error: `People ${personId} and ${targetPersonId} are not a current duplicate suggestion` });
+      return;
+    }
+
+    const { merge } = result;
+    res.locals.auditDetails = { targetPersonId, showsMerged: merge.showsMerged, moviesMerged: merge.moviesMerged };
+    res.status(200).json({
+      message: `Person ${personId} merged into ${targetPersonId} and deleted (shows: ${merge.showsMerged}, movies: ${merge.moviesMerged})`,
+      results: merge,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Rejects a duplicate suggestion so the pair is never suggested again
+ * @route POST /api/v1/people/duplicates/:personId/reject/:otherPersonId
+ * @body { notes?: string }
+ */
+export const rejectPersonDuplicate = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const [personId, otherPersonId] = parsePersonPair(req.params.personId, req.params.otherPersonId);
+    const body = rejectPersonDuplicateSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      throw new BadRequestError(`Invalid request body: ${body.error.issues[0].message}`);
+    }
+
+    const notes = body.data.notes ?? null;
+    const result = await personDuplicateService.rejectSuggestion(personId, otherPersonId, notes, getAdminActor(req));
+    if (result.outcome === 'not_found') {
+      res.status(404).json({ error: `Person ${result.personId} not found` });
+      return;
+    }
+
+    res.locals.auditDetails = { otherPersonId, notes };
+    res
+      .status(200)
+      .json({ message: `People ${personId} and ${otherPersonId} will not be suggested as duplicates again` });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // DELETE /api/v1/people/:personId
 export const deletePerson = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -371,14 +1043,152 @@ export const deletePerson = asyncHandler(async (req: Request, res: Response, nex
   }
 });
 
-// PUT /api/v1/people/:personId/tmdb-id
+/**
+ * Previews changing a person's TMDB id: compares the person with the TMDB person the new id points at (name, birthday
+ * and credits) and warns when another person already has the id
+ * @route GET /api/v1/people/:personId/tmdb-id/preview
+ * @query tmdbId - New TMDB person id
+ */
+export const previewPersonTmdbId = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const personId = parsePersonId(req.params.personId);
+    const query = personTmdbIdPreviewQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      throw new BadRequestError(`Invalid query parameters: ${query.error.issues[0].message}`);
+    }
+
+    const { tmdbId } = query.data;
+    const result = await personTmdbIdService.previewTmdbIdChange(personId, tmdbId);
+    if (result.outcome === 'person_not_found') {
+      res.status(404).json({ error: `Person ${personId} not found` });
+      return;
+    }
+    if (result.outcome === 'tmdb_not_found') {
+      res.status(404).json({ error: `No person with TMDB Id ${tmdbId} found on TMDB` });
+      return;
+    }
+
+    res.status(200).json({ message: `Previewed TMDB Id ${tmdbId} for person ${personId}`, results: result.preview });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Changes a person's TMDB id after checking it like the preview. An id that already belongs to another person is
+ * rejected with the merge to make instead. A TMDB person whose name, birthday or credits don't match needs `force`.
+ * @route PUT /api/v1/people/:personId/tmdb-id
+ * @body { newTmdbId, force?: boolean }
+ */
 export const updatePersonTmdbId = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { personId } = req.params;
-    const { newTmdbId } = req.body;
-    const result = await personService.updatePersonTmdbId(Number(personId), Number(newTmdbId));
-    res.status(200).json({ message: `Person ${personId} TMDB ID updated to ${newTmdbId}`, results: result });
+    const personId = parsePersonId(req.params.personId);
+    const body = updatePersonTmdbIdSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      throw new BadRequestError(`Invalid request body: ${body.error.issues[0].message}`);
+    }
+
+    const { newTmdbId, force = false } = body.data;
+    const result = await personTmdbIdService.updateTmdbId(personId, newTmdbId, force);
+    if (result.outcome === 'person_not_found') {
+      res.status(404).json({ error: `Person ${personId} not found` });
+      return;
+    }
+    if (result.outcome === 'tmdb_not_found') {
+      res.status(404).json({ error: `No person with TMDB Id ${newTmdbId} found on TMDB` });
+      return;
+    }
+    if (result.outcome === 'conflict') {
+      res.status(409).json({
+        error: `TMDB Id ${newTmdbId} already belongs to person ${result.existingPersonId}; merge them instead`,
+        merge: `/api/v1/people/${personId}/merge/${result.existingPersonId}`,
+        preview: result.preview,
+      });
+      return;
+    }
+    if (result.outcome === 'needs_confirmation') {
+      res.status(409).json({
+        error: `TMDB person ${newTmdbId} does not match person ${personId} (${result.preview.warnings.join(', ')}); send force to update anyway`,
+        preview: result.preview,
+      });
+      return;
+    }
+
+    res.locals.auditDetails = {
+      previousTmdbId: result.preview.person.tmdbId,
+      newTmdbId,
+      force,
+      warnings: result.preview.warnings,
+    };
+    res.status(200).json({
+      message: `Person ${personId} TMDB ID updated to ${newTmdbId}`,
+      warnings: result.preview.warnings,
+      results: result.result,
+    });
   } catch (error) {
     next(error);
   }
 });
+
+function parseImportBody(body: unknown): z.infer<typeof importContentSchema> {
+  const result = importContentSchema.safeParse(body ?? {});
+  if (!result.success) {
+    throw new BadRequestError(`Invalid request body: ${result.error.issues[0].message}`);
+  }
+  return result.data;
+}
+
+function parseResolveDuplicatesBody(body: unknown): z.infer<typeof resolveDuplicatesSchema> {
+  const result = resolveDuplicatesSchema.safeParse(body ?? {});
+  if (!result.success) {
+    throw new BadRequestError(`Invalid request body: ${result.error.issues[0].message}`);
+  }
+  return result.data;
+}
+
+function parsePersonId(personId: string): number {
+  const id = Number(personId);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new BadRequestError('Person id must be a positive integer');
+  }
+  return id;
+}
+
+function parsePersonPair(personId: string, otherPersonId: string): [number, number] {
+  const ids = [Number(personId), Number(otherPersonId)];
+  if (!ids.every((id) => Number.isInteger(id) && id > 0)) {
+    throw new BadRequestError('Person ids must be positive integers');
+  }
+  if (ids[0] === ids[1]) {
+    throw new BadRequestError('A person cannot be a duplicate of themselves');
+  }
+  return [ids[0], ids[1]];
+}
+
+// Drops fields left undefined so only the fields sent become overrides
+function parseOverridesBody(
+  schema: z.ZodType<Record<string, string | number | undefined>>,
+  body: unknown,
+): ContentOverrideValues {
+  const result = schema.safeParse(body ?? {});
+  if (!result.success) {
+    throw new BadRequestError(`Invalid request body: ${result.error.issues[0].message}`);
+  }
+  return Object.fromEntries(
+    Object.entries(result.data).filter((entry): entry is [string, ContentOverrideValue] => entry[1] !== undefined),
+  );
+}
+
+// Sorting and search mode don't select anything, so they don't count as filters
+function parseRefreshFilters<T extends z.ZodType<ContentSearchQuery>>(schema: T, query: unknown): z.infer<T> {
+  const result = schema.safeParse(query);
+  if (!result.success) {
+    throw new BadRequestError(`Invalid query parameters: ${result.error.issues[0].message}`);
+  }
+
+  const { searchMode: _searchMode, sortBy: _sortBy, sortOrder: _sortOrder, ...filters } = result.data;
+  if (Object.values(filters).every((value) => value === undefined)) {
+    throw new BadRequestError('At least one filter is required to refresh content');
+  }
+  return result.data;
+}
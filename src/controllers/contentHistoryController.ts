@@ -0,0 +1,102 @@
+import { contentHistoryService } from '../services/ContentHistoryService';
+import { ContentChangeFilters, ContentHistoryType } from '../types/contentHistoryTypes';
+import { NextFunction, Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+
+const CONTENT_HISTORY_TYPES: ContentHistoryType[] = ['show', 'movie'];
+
+/**
+ * Get a page of a show's change history, newest first: status and other field changes, new seasons, new episodes and
+ * episode air date shifts
+ * Query parameters:
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/shows/:showId/history
+ */
+export const getShowHistory = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { showId } = req.params;
+    const { page, offset, limit } = getPagination(req);
+
+    const history = await contentHistoryService.getHistory('show', Number(showId), page, offset, limit);
+
+    res.status(200).json({
+      message: `Retrieved history for show ${showId}`,
+      pagination: history.pagination,
+      results: history.changes,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a page of a movie's change history, newest first
+ * Query parameters:
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/movies/:movieId/history
+ */
+export const getMovieHistory = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { movieId } = req.params;
+    const { page, offset, limit } = getPagination(req);
+
+    const history = await contentHistoryService.getHistory('movie', Number(movieId), page, offset, limit);
+
+    res.status(200).json({
+      message: `Retrieved history for movie ${movieId}`,
+      pagination: history.pagination,
+      results: history.changes,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a page of recent changes across all shows and movies, newest first
+ * Query parameters:
+ * - contentType: Filter by content type ('show', 'movie')
+ * - since: Only changes detected on or after this date (YYYY-MM-DD)
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/content/changes
+ */
+export const getRecentContentChanges = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page, offset, limit } = getPagination(req);
+    const filters: ContentChangeFilters = {};
+
+    if (req.query.contentType) {
+      const contentType = req.query.contentType as ContentHistoryType;
+      if (!CONTENT_HISTORY_TYPES.includes(contentType)) {
+        res.status(400).json({ error: `Invalid contentType. Must be one of: ${CONTENT_HISTORY_TYPES.join(', ')}` });
+        return;
+      }
+      filters.contentType = contentType;
+    }
+
+    if (req.query.since) {
+      const since = req.query.since as string;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(since) || isNaN(Date.parse(since))) {
+        res.status(400).json({ error: 'Invalid since. Must be a date (YYYY-MM-DD)' });
+        return;
+      }
+      filters.since = since;
+    }
+
+    const changes = await contentHistoryService.getChanges(filters, page, offset, limit);
+
+    res.status(200).json({
+      message: `Retrieved page ${page} of content changes`,
+      pagination: changes.pagination,
+      results: changes.changes,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+function getPagination(req: Request): { page: number; offset: number; limit: number } {
+  const page = Math.max(1, parseInt(req.query.page as string) || 1);
+  const limit = Math.min(100, parseInt(req.query.limit as string) || 50);
+  return { page, offset: (page - 1) * limit, limit };
+}
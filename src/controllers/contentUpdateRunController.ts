@@ -0,0 +1,77 @@
+import { contentUpdateRunService } from '../services/ContentUpdateRunService';
+import { NextFunction, Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+
+/**
+ * List the show and movie update runs kept in memory, newest first
+ * @route GET /api/v1/content/update-runs
+ */
+export const getContentUpdateRuns = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const runs = contentUpdateRunService.listRuns();
+    res.status(200).json({ message: 'Retrieved content update runs', results: runs });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get the progress of an update run: processed, updated and failed counts, per-item errors and ETA
+ * @route GET /api/v1/content/update-runs/:runId
+ */
+export const getContentUpdateRun = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { runId } = req.params;
+    const run = contentUpdateRunService.getRun(runId);
+    if (!run) {
+      res.status(404).json({ error: `Content update run ${runId} not found` });
+      return;
+    }
+
+    res.status(200).json({ message: 'Retrieved content update run', results: run });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Stream an update run's progress via Server-Sent Events until it finishes
+ * @route GET /api/v1/content/update-runs/:runId/stream
+ */
+export const streamContentUpdateRun = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { runId } = req.params;
+    if (!contentUpdateRunService.getRun(runId)) {
+      res.status(404).json({ error: `Content update run ${runId} not found` });
+      return;
+    }
+
+    contentUpdateRunService.streamRun(runId, req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Cancel an update run. Items already being updated finish; the rest are skipped.
+ * @route POST /api/v1/content/update-runs/:runId/cancel
+ */
+export const cancelContentUpdateRun = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { runId } = req.params;
+    const result = contentUpdateRunService.cancelRun(runId);
+    if (result.outcome === 'not_found') {
+      res.status(404).json({ error: `Content update run ${runId} not found` });
+      return;
+    }
+    if (result.outcome === 'not_running') {
+      res.status(409).json({ error: `Content update run ${runId} is already ${result.run.status}` });
+      return;
+    }
+
+    res.locals.auditDetails = { contentType: result.run.contentType, processed: result.run.processed };
+    res.status(200).json({ message: `Cancelling content update run ${runId}`, results: result.run });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,107 @@
+import { dataQualityService } from '../services/DataQualityService';
+import { ContentIssueFilters, ContentIssueStatus, ContentIssueType } from '../types/dataQualityTypes';
+import { getAdminActor } from '../utils/requestHelpers';
+import { NextFunction, Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+
+const CONTENT_ISSUE_TYPES: ContentIssueType[] = ['show', 'movie', 'episode'];
+const CONTENT_ISSUE_STATUSES: ContentIssueStatus[] = ['open', 'resolved'];
+
+/**
+ * Get issue counts for every data-quality rule and a page of issues
+ * Query parameters:
+ * - rule: Drill down into one rule's issues
+ * - contentType: Filter by content type ('show', 'movie', 'episode')
+ * - status: Filter by status ('open', 'resolved'), defaults to 'open'
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/admin/content/issues
+ */
+export const getContentIssues = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(100, parseInt(req.query.limit as string) || 50);
+    const offset = (page - 1) * limit;
+
+    const filters: ContentIssueFilters = { status: 'open' };
+
+    if (req.query.rule) {
+      const rule = req.query.rule as string;
+      if (!dataQualityService.hasRule(rule)) {
+        res.status(400).json({ error: `Unknown data-quality rule '${rule}'` });
+        return;
+      }
+      filters.rule = rule;
+    }
+
+    if (req.query.contentType) {
+      const contentType = req.query.contentType as ContentIssueType;
+      if (!CONTENT_ISSUE_TYPES.includes(contentType)) {
+        res.status(400).json({ error: `Invalid contentType. Must be one of: ${CONTENT_ISSUE_TYPES.join(', ')}` });
+        return;
+      }
+      filters.contentType = contentType;
+    }
+
+    if (req.query.status) {
+      const status = req.query.status as ContentIssueStatus;
+      if (!CONTENT_ISSUE_STATUSES.includes(status)) {
+        res.status(400).json({ error: `Invalid status. Must be one of: ${CONTENT_ISSUE_STATUSES.join(', ')}` });
+        return;
+      }
+      filters.status = status;
+    }
+
+    const [rules, issues] = await Promise.all([
+      dataQualityService.getIssueCounts(),
+      dataQualityService.getIssues(filters, page, offset, limit),
+    ]);
+
+    res.status(200).json({
+      message: `Retrieved page ${page} of content issues`,
+      rules,
+      pagination: issues.pagination,
+      results: issues.issues,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Run the automatic fix for an open content issue
+ * @route POST /api/v1/admin/content/issues/:issueId/fix
+ */
+export const fixContentIssue = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const issueId = parseInt(req.params.issueId, 10);
+    if (isNaN(issueId)) {
+      res.status(400).json({ error: 'Invalid issue id' });
+      return;
+    }
+
+    const result = await dataQualityService.fixIssue(issueId, getAdminActor(req));
+    switch (result.outcome) {
+      case 'not_found':
+        res.status(404).json({ error: `Content issue ${issueId} not found` });
+        return;
+      case 'not_open':
+        res.status(409).json({ error: `Content issue ${issueId} is already resolved` });
+        return;
+      case 'not_fixable':
+        res.status(409).json({ error: `Rule '${result.issue.rule}' has no automatic fix` });
+        return;
+    }
+
+    res.locals.auditDetails = {
+      rule: result.issue.rule,
+      contentType: result.issue.contentType,
+      contentId: result.issue.contentId,
+    };
+    res.status(200).json({
+      message: `Fixed content issue ${issueId}`,
+      result: result.issue,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -1,3 +1,4 @@
+import { adminJobsService } from '../services/AdminJobsService';
 import {
   getJobSchedule,
   getJobsStatus,
@@ -13,12 +14,12 @@ import asyncHandler from 'express-async-handler';
 const allowedJobs: JobName[] = ['showsUpdate', 'moviesUpdate', 'peopleUpdate', 'emailDigest', 'performanceArchive'];
 
 /**
- * Get job statuses
+ * Get job statuses, including the jobs owned by the admin server
  * @route GET /api/v1/admin/jobs/status
  */
 export const getStatus = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const statuses = getJobsStatus();
+    const statuses = [...getJobsStatus(), ...adminJobsService.getStatus()];
     res.status(200).json(statuses);
   } catch (error) {
     next(error);
@@ -32,6 +33,7 @@ export const getStatus = asyncHandler(async (req: Request, res: Response, next:
 export const pauseAll = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     pauseJobs();
+    adminJobsService.pause();
     res.status(200);
   } catch (error) {
     next(error);
@@ -45,6 +47,7 @@ export const pauseAll = asyncHandler(async (req: Request, res: Response, next: N
 export const resumeAll = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     resumeJobs();
+    adminJobsService.resume();
     res.status(200);
   } catch (error) {
     next(error);
@@ -59,6 +62,11 @@ export const resumeAll = asyncHandler(async (req: Request, res: Response, next:
 export const executeJob = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     const jobParam = req.query.jobName as string;
+    if (adminJobsService.hasJob(jobParam)) {
+      adminJobsService.execute(jobParam);
+      res.status(202).json({ message: `Job ${jobParam} started` });
+      return;
+    }
     if (typeof jobParam !== 'string' || !allowedJobs.includes(jobParam as JobName)) {
       res.status(400).json({ error: 'Invalid job name' });
       return;
@@ -98,7 +106,8 @@ export const executeJob = asyncHandler(async (req: Request, res: Response, next:
 export const updateSchedule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     const jobParam = req.query.jobName as string;
-    if (typeof jobParam !== 'string' || !allowedJobs.includes(jobParam as JobName)) {
+    const isAdminJob = adminJobsService.hasJob(jobParam);
+    if (typeof jobParam !== 'string' || (!isAdminJob && !allowedJobs.includes(jobParam as JobName))) {
       res.status(400).json({ error: 'Invalid job name' });
       return;
     }
@@ -107,6 +116,14 @@ export const updateSchedule = asyncHandler(async (req: Request, res: Response, n
       res.status(400).json({ error: 'Invalid cron expression' });
       return;
     }
+    if (isAdminJob) {
+      if (!adminJobsService.updateSchedule(jobParam, cronExpression)) {
+        res.status(400).json({ error: 'Invalid cron expression' });
+        return;
+      }
+      res.status(200).json({ message: `Updated schedule for ${jobParam}`, cronExpression });
+      return;
+    }
     const jobName: JobName = jobParam as JobName;
     updateJobSchedule(jobName, cronExpression);
     res.status(200);
@@ -122,6 +139,10 @@ export const updateSchedule = asyncHandler(async (req: Request, res: Response, n
 export const getSchedule = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
     const jobParam = req.query.jobName as string;
+    if (adminJobsService.hasJob(jobParam)) {
+      res.status(200).json({ jobName: jobParam, cronExpression: adminJobsService.getSchedule(jobParam) });
+      return;
+    }
     if (typeof jobParam !== 'string' || !allowedJobs.includes(jobParam as JobName)) {
       res.status(400).json({ error: 'Invalid job name' });
       return;
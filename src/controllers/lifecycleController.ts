@@ -0,0 +1,54 @@
+import { accountLifecycleService } from '../services/AccountLifecycleService';
+import { LIFECYCLE_STAGES, LifecycleFilters, LifecycleStage } from '../types/lifecycleTypes';
+import { NextFunction, Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+
+/**
+ * Get the state of the account lifecycle pipeline: accounts per stage, accounts flagged for
+ * deletion review, the configured thresholds, the last lifecycle job run and a page of accounts
+ * Query parameters:
+ * - stage: Filter by lifecycle stage ('active', 'dormant', 'at_risk', 'abandoned')
+ * - flagged: Filter by deletion review flag ('true', 'false')
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/admin/accounts/lifecycle
+ */
+export const getAccountLifecycle = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(100, parseInt(req.query.limit as string) || 50);
+    const offset = (page - 1) * limit;
+
+    const filters: LifecycleFilters = {};
+
+    if (req.query.stage) {
+      const stage = req.query.stage as LifecycleStage;
+      if (!LIFECYCLE_STAGES.includes(stage)) {
+        res.status(400).json({ error: `Invalid stage. Must be one of: ${LIFECYCLE_STAGES.join(', ')}` });
+        return;
+      }
+      filters.stage = stage;
+    }
+
+    if (req.query.flagged) {
+      if (req.query.flagged !== 'true' && req.query.flagged !== 'false') {
+        res.status(400).json({ error: 'Invalid flagged. Must be one of: true, false' });
+        return;
+      }
+      filters.flaggedForDeletionReview = req.query.flagged === 'true';
+    }
+
+    const lifecycle = await accountLifecycleService.getLifecycleState(filters, page, offset, limit);
+
+    res.status(200).json({
+      message: `Retrieved page ${page} of account lifecycle state`,
+      summary: lifecycle.summary,
+      thresholds: lifecycle.thresholds,
+      reengagementStages: lifecycle.reengagementStages,
+      lastRun: lifecycle.lastRun,
+      pagination: lifecycle.pagination,
+      results: lifecycle.accounts,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
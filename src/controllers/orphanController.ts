@@ -0,0 +1,123 @@
+import { orphanCleanupService } from '../services/OrphanCleanupService';
+import { ORPHAN_CLEANUP_MODES, ORPHAN_TYPES, OrphanFilters, OrphanType } from '../types/orphanTypes';
+import { getAdminActor } from '../utils/requestHelpers';
+import { NextFunction, Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+import { z } from 'zod';
+
+const orphanCleanupSchema = z.strictObject({
+  dryRun: z.boolean('dryRun must be a boolean').default(true),
+  mode: z.enum(ORPHAN_CLEANUP_MODES, `mode must be one of: ${ORPHAN_CLEANUP_MODES.join(', ')}`).optional(),
+});
+
+/**
+ * Get orphan counts for every type and a page of orphans: shows and movies no profile watches, seasons and episodes
+ * whose show or season is gone, and people without credits
+ * Query parameters:
+ * - contentType: Filter by type ('show', 'movie', 'season', 'episode', 'person')
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/admin/content/orphans
+ */
+export const getOrphans = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page, offset, limit } = getPagination(req);
+    const filters: OrphanFilters = {};
+
+    if (req.query.contentType) {
+      const contentType = req.query.contentType as OrphanType;
+      if (!ORPHAN_TYPES.includes(contentType)) {
+        res.status(400).json({ error: `Invalid contentType. Must be one of: ${ORPHAN_TYPES.join(', ')}` });
+        return;
+      }
+      filters.contentType = contentType;
+    }
+
+    const result = await orphanCleanupService.getOrphans(filters, page, offset, limit);
+
+    res.status(200).json({
+      message: `Retrieved page ${page} of orphaned content`,
+      counts: result.counts,
+      pagination: result.pagination,
+      results: result.orphans,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Run the orphan cleanup now. Defaults to a dry run, which lists what would be archived or removed without changing
+ * anything; the run is recorded either way.
+ * @route POST /api/v1/admin/content/orphans/cleanup
+ * @body { dryRun?: boolean (default true), mode?: 'archive' | 'remove' (default ORPHAN_CLEANUP_MODE) }
+ */
+export const runOrphanCleanup = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = orphanCleanupSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      res.status(400).json({ error: body.error.issues[0].message });
+      return;
+    }
+
+    const run = await orphanCleanupService.runCleanup({ ...body.data, admin: getAdminActor(req) });
+
+    res.locals.auditDetails = { runId: run.id, mode: run.mode, dryRun: run.dryRun, actioned: run.actioned };
+    res.status(200).json({
+      message: run.dryRun ? 'Orphan cleanup dry run completed' : 'Orphan cleanup completed',
+      run,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a page of orphan cleanup runs, newest first
+ * Query parameters:
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/admin/content/orphans/runs
+ */
+export const getOrphanCleanupRuns = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page, offset, limit } = getPagination(req);
+    const result = await orphanCleanupService.getRuns(page, offset, limit);
+
+    res.status(200).json({
+      message: `Retrieved page ${page} of orphan cleanup runs`,
+      pagination: result.pagination,
+      results: result.runs,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get an orphan cleanup run with every item it archived or removed
+ * @route GET /api/v1/admin/content/orphans/runs/:runId
+ */
+export const getOrphanCleanupRun = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const runId = parseInt(req.params.runId, 10);
+    if (isNaN(runId)) {
+      res.status(400).json({ error: 'Invalid run id' });
+      return;
+    }
+
+    const run = await orphanCleanupService.getRun(runId);
+    if (!run) {
+      res.status(404).json({ error: `Orphan cleanup run ${runId} not found` });
+      return;
+    }
+
+    res.status(200).json({ message: `Retrieved orphan cleanup run ${runId}`, run });
+  } catch (error) {
+    next(error);
+  }
+});
+
+function getPagination(req: Request): { page: number; offset: number; limit: number } {
+  const page = Math.max(1, parseInt(req.query.page as string) || 1);
+  const limit = Math.min(100, parseInt(req.query.limit as string) || 50);
+  return { page, offset: (page - 1) * limit, limit };
+}
@@ -0,0 +1,101 @@
+import { trashService } from '../services/TrashService';
+import { TrashEntityType, TrashFilters, TrashStatus } from '../types/trashTypes';
+import { getAdminActor } from '../utils/requestHelpers';
+import { NextFunction, Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+
+const TRASH_ENTITY_TYPES: TrashEntityType[] = ['account', 'profile'];
+const TRASH_STATUSES: TrashStatus[] = ['trashed', 'restored', 'purged'];
+
+/**
+ * Get deleted accounts and profiles
+ * Query parameters:
+ * - entityType: Filter by entity type ('account', 'profile')
+ * - status: Filter by status ('trashed', 'restored', 'purged'), defaults to 'trashed'
+ * - accountId: Filter by owning account
+ * - page, limit: Pagination (default page 1, limit 50, max 100)
+ * @route GET /api/v1/admin/trash
+ */
+export const getTrash = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(100, parseInt(req.query.limit as string) || 50);
+    const offset = (page - 1) * limit;
+
+    const filters: TrashFilters = { status: 'trashed' };
+
+    if (req.query.entityType) {
+      const entityType = req.query.entityType as TrashEntityType;
+      if (!TRASH_ENTITY_TYPES.includes(entityType)) {
+        res.status(400).json({ error: `Invalid entityType. Must be one of: ${TRASH_ENTITY_TYPES.join(', ')}` });
+        return;
+      }
+      filters.entityType = entityType;
+    }
+
+    if (req.query.status) {
+      const status = req.query.status as TrashStatus;
+      if (!TRASH_STATUSES.includes(status)) {
+        res.status(400).json({ error: `Invalid status. Must be one of: ${TRASH_STATUSES.join(', ')}` });
+        return;
+      }
+      filters.status = status;
+    }
+
+    if (req.query.accountId) {
+      const accountId = parseInt(req.query.accountId as string, 10);
+      if (isNaN(accountId)) {
+        res.status(400).json({ error: 'Invalid accountId' });
+        return;
+      }
+      filters.accountId = accountId;
+    }
+
+    const trash = await trashService.getTrash(filters, page, offset, limit);
+
+    res.status(200).json({
+      message: `Retrieved page ${page} of trash entries`,
+      pagination: trash.pagination,
+      results: trash.entries,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Restore a deleted account or profile from the trash
+ * @route POST /api/v1/admin/trash/:trashId/restore
+ */
+export const restoreTrashEntry = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const trashId = parseInt(req.params.trashId, 10);
+    if (isNaN(trashId)) {
+      res.status(400).json({ error: 'Invalid trash id' });
+      return;
+    }
+
+    const result = await trashService.restore(trashId, getAdminActor(req));
+    switch (result.outcome) {
+      case 'not_found':
+        res.status(404).json({ error: `Trash entry ${trashId} not found` });
+        return;
+      case 'not_trashed':
+        res.status(409).json({ error: `Trash entry ${trashId} has already been ${result.entry.status}` });
+        return;
+      case 'account_trashed':
+        res.status(409).json({
+          error: `Account ${result.entry.accountId} is in the trash, restore the account before its profiles`,
+        });
+        return;
+    }
+
+    res.locals.auditDetails = { restoredEntityType: result.entry.entityType, restoredEntityId: result.entry.entityId };
+    res.status(200).json({
+      message: `Restored ${result.entry.entityType} ${result.entry.entityId}`,
+      result: result.entry,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
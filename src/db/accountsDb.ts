@@ -0,0 +1,208 @@
+import { AccountListQuery, AccountSqlSortField } from '../types/accountListTypes';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { RowDataPacket } from 'mysql2/promise';
+
+export interface AccountSummary {
+  accountId: number;
+  name: string;
+  email: string;
+  uid: string;
+  defaultProfileId: number | null;
+}
+
+interface AccountSummaryRow extends RowDataPacket {
+  account_id: number;
+  account_name: string;
+  email: string;
+  uid: string;
+  default_profile_id: number | null;
+}
+
+interface ProfileIdRow extends RowDataPacket {
+  profile_id: number;
+}
+
+interface AccountListStatsRow extends RowDataPacket {
+  account_id: number;
+  is_deleted: number;
+  profile_count: number;
+}
+
+interface AccountListEntryRow extends RowDataPacket {
+  account_id: number;
+  account_name: string;
+  email: string;
+  uid: string;
+  created_at: Date | null;
+  profile_count: number | string;
+}
+
+interface CountRow extends RowDataPacket {
+  total: number;
+}
+
+/**
+ * An account in the admin account list, before it is combined with its Firebase user
+ */
+export interface AccountListEntry {
+  accountId: number;
+  name: string;
+  email: string;
+  uid: string;
+  createdAt: string | null;
+  profileCount: number;
+}
+
+const ACCOUNT_LIST_SORT_COLUMNS: Record<AccountSqlSortField, string> = {
+  createdAt: 'a.created_at',
+  profileCount: 'profile_count',
+  name: 'a.account_name',
+  email: 'a.email',
+};
+
+export interface AccountListStats {
+  profileCount: number;
+  isDeleted: boolean;
+}
+
+/**
+ * Get the accounts with the given ids, skipping accounts that don't exist or are in the trash
+ * @param accountIds - Account ids
+ * @returns Matching accounts
+ */
+export async function getAccountsByIds(accountIds: number[]): Promise<AccountSummary[]> {
+  if (accountIds.length === 0) {
+    return [];
+  }
+
+  const query = `
+    SELECT account_id, account_name, email, uid, default_profile_id
+    FROM accounts
+    WHERE account_id IN (?) AND deleted_at IS NULL`;
+  const [rows] = await getDbPool().query<AccountSummaryRow[]>(query, [accountIds]);
+  return rows.map(transformAccountSummaryRow);
+}
+
+/**
+ * Get the id of an account's oldest profile that isn't in the trash
+ * @param accountId - Account id
+ * @returns The profile id, or null if the account has no active profiles
+ */
+export async function getFirstProfileId(accountId: number): Promise<number | null> {
+  const [rows] = await getDbPool().execute<ProfileIdRow[]>(
+    'SELECT profile_id FROM profiles WHERE account_id = ? AND deleted_at IS NULL ORDER BY profile_id LIMIT 1',
+    [accountId],
+  );
+  return rows.length > 0 ? rows[0].profile_id : null;
+}
+
+/**
+ * Get the active profile count and trash state of every account, keyed by account id
+ */
+export async function getAccountListStats(): Promise<Map<number, AccountListStats>> {
+  const query = `
+    SELECT a.account_id, a.deleted_at IS NOT NULL AS is_deleted, COUNT(p.profile_id) AS profile_count
+    FROM accounts a
+    LEFT JOIN profiles p ON p.account_id = a.account_id AND p.deleted_at IS NULL
+    GROUP BY a.account_id, a.deleted_at`;
+  const [rows] = await getDbPool().execute<AccountListStatsRow[]>(query);
+  return new Map(rows.map(transformAccountListStatsRow));
+}
+
+/**
+ * Get a page of the accounts outside the trash matching the query's search and profile filters. Accounts without a
+ * value for the sort field sort last; ties are broken by account id.
+ * @param query - Search and filter options
+ * @param sortBy - Field to sort by
+ * @param limit - Page size
+ * @param offset - Number of accounts to skip
+ */
+export async function getAccountListPage(
+  query: AccountListQuery,
+  sortBy: AccountSqlSortField,
+  limit: number,
+  offset: number,
+): Promise<AccountListEntry[]> {
+  const { sql, values } = buildAccountListQuery(query);
+  const column = ACCOUNT_LIST_SORT_COLUMNS[sortBy];
+  const [rows] = await getDbPool().query<AccountListEntryRow[]>(
+    `${sql}
+     ORDER BY ${column} IS NULL, ${column} ${query.sortOrder === 'asc' ? 'ASC' : 'DESC'}, a.account_id
+     LIMIT ? OFFSET ?`,
+    [...values, limit, offset],
+  );
+  return rows.map(transformAccountListEntryRow);
+}
+
+/**
+ * Get every account outside the trash matching the query's search and profile filters, unordered
+ * @param query - Search and filter options
+ */
+export async function getAccountListEntries(query: AccountListQuery): Promise<AccountListEntry[]> {
+  const { sql, values } = buildAccountListQuery(query);
+  const [rows] = await getDbPool().query<AccountListEntryRow[]>(sql, values);
+  return rows.map(transformAccountListEntryRow);
+}
+
+/**
+ * Count the accounts outside the trash matching the query's search and profile filters
+ * @param query - Search and filter options
+ */
+export async function countAccountList(query: AccountListQuery): Promise<number> {
+  const { sql, values } = buildAccountListQuery(query);
+  const [rows] = await getDbPool().query<CountRow[]>(`SELECT COUNT(*) AS total FROM (${sql}) matching`, values);
+  return Number(rows[0]?.total ?? 0);
+}
+
+function buildAccountListQuery(query: AccountListQuery): { sql: string; values: string[] } {
+  const conditions = ['a.deleted_at IS NULL'];
+  const values: string[] = [];
+
+  const search = query.search?.trim();
+  if (search) {
+    conditions.push('(a.account_name LIKE ? OR a.email LIKE ? OR a.uid LIKE ?)');
+    const pattern = `%${escapeLike(search)}%`;
+    values.push(pattern, pattern, pattern);
+  }
+
+  const having = query.hasProfiles === undefined ? '' : `HAVING profile_count ${query.hasProfiles ? '> 0' : '= 0'}`;
+
+  return {
+    sql: `SELECT a.account_id, a.account_name, a.email, a.uid, a.created_at, COUNT(p.profile_id) AS profile_count
+     FROM accounts a
+     LEFT JOIN profiles p ON p.account_id = a.account_id AND p.deleted_at IS NULL
+     WHERE ${conditions.join(' AND ')}
+     GROUP BY a.account_id
+     ${having}`,
+    values,
+  };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+function transformAccountListEntryRow(row: AccountListEntryRow): AccountListEntry {
+  return {
+    accountId: row.account_id,
+    name: row.account_name,
+    email: row.email,
+    uid: row.uid,
+    createdAt: row.created_at ? new Date(row.created_at).toISOString() : null,
+    profileCount: Number(row.profile_count),
+  };
+}
+
+function transformAccountListStatsRow(row: AccountListStatsRow): [number, AccountListStats] {
+  return [row.account_id, { profileCount: Number(row.profile_count), isDeleted: Boolean(row.is_deleted) }];
+}
+
+function transformAccountSummaryRow(row: AccountSummaryRow): AccountSummary {
+  return {
+    accountId: row.account_id,
+    name: row.account_name,
+    email: row.email,
+    uid: row.uid,
+    defaultProfileId: row.default_profile_id,
+  };
+}
@@ -0,0 +1,135 @@
+import { AuditAction, AuditEntry, AuditFilters, CreateAuditEntry } from '../types/auditTypes';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+interface AuditLogRow extends RowDataPacket {
+  id: number;
+  admin_uid: string;
+  admin_email: string | null;
+  admin_role: string | null;
+  method: string;
+  route: string;
+  action: AuditAction;
+  entity_type: string | null;
+  entity_id: string | null;
+  params: string | Record<string, string>;
+  body_summary: string | Record<string, unknown> | null;
+  details: string | Record<string, unknown> | null;
+  status_code: number;
+  duration_ms: number;
+  created_at: Date;
+}
+
+interface CountRow extends RowDataPacket {
+  total: number;
+}
+
+/**
+ * Insert a new audit log entry
+ * @param entry - Audit entry to store
+ * @returns The id of the inserted row
+ */
+export async function createAuditEntry(entry: CreateAuditEntry): Promise<number> {
+  const query = `
+    INSERT INTO admin_audit_log
+      (admin_uid, admin_email, admin_role, method, route, action, entity_type, entity_id, params, body_summary, details, status_code, duration_ms)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+  const [result] = await getDbPool().execute<ResultSetHeader>(query, [
+    entry.adminUid,
+    entry.adminEmail,
+    entry.adminRole,
+    entry.method,
+    entry.route,
+    entry.action,
+    entry.entityType,
+    entry.entityId,
+    JSON.stringify(entry.params),
+    entry.bodySummary ? JSON.stringify(entry.bodySummary) : null,
+    entry.details ? JSON.stringify(entry.details) : null,
+    entry.statusCode,
+    entry.durationMs,
+  ]);
+  return result.insertId;
+}
+
+/**
+ * Get audit log entries matching the filters, newest first
+ * @param filters - Audit filters
+ * @param limit - Maximum number of entries to return
+ * @param offset - Number of entries to skip
+ * @returns Array of audit entries
+ */
+export async function getAuditEntries(filters: AuditFilters, limit: number, offset: number): Promise<AuditEntry[]> {
+  const { where, values } = buildWhereClause(filters);
+  const query = `SELECT * FROM admin_audit_log ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`;
+  const [rows] = await getDbPool().query<AuditLogRow[]>(query, [...values, limit, offset]);
+  return rows.map(transformAuditRow);
+}
+
+/**
+ * Count the audit log entries matching the filters
+ * @param filters - Audit filters
+ * @returns Total number of matching entries
+ */
+export async function getAuditEntryCount(filters: AuditFilters): Promise<number> {
+  const { where, values } = buildWhereClause(filters);
+  const [rows] = await getDbPool().query<CountRow[]>(`SELECT COUNT(*) AS total FROM admin_audit_log ${where}`, values);
+  return Number(rows[0]?.total ?? 0);
+}
+
+function buildWhereClause(filters: AuditFilters): { where: string; values: (string | Date)[] } {
+  const conditions: string[] = [];
+  const values: (string | Date)[] = [];
+
+  if (filters.admin) {
+    conditions.push('(admin_uid = ? OR admin_email = ?)');
+    values.push(filters.admin, filters.admin);
+  }
+  if (filters.entityType) {
+    conditions.push('entity_type = ?');
+    values.push(filters.entityType);
+  }
+  if (filters.entityId) {
+    conditions.push('entity_id = ?');
+    values.push(filters.entityId);
+  }
+  if (filters.action) {
+    conditions.push('action = ?');
+    values.push(filters.action);
+  }
+  if (filters.startDate) {
+    conditions.push('created_at >= ?');
+    values.push(filters.startDate);
+  }
+  if (filters.endDate) {
+    conditions.push('created_at <= ?');
+    values.push(filters.endDate);
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', values };
+}
+
+function parseJsonColumn<T>(value: string | T | null): T | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? (JSON.parse(value) as T) : value;
+}
+
+function transformAuditRow(row: AuditLogRow): AuditEntry {
+  return {
+    id: row.id,
+    adminUid: row.admin_uid,
+    adminEmail: row.admin_email,
+    adminRole: row.admin_role,
+    method: row.method,
+    route: row.route,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    params: parseJsonColumn<Record<string, string>>(row.params) ?? {},
+    bodySummary: parseJsonColumn<Record<string, unknown>>(row.body_summary),
+    details: parseJsonColumn<Record<string, unknown>>(row.details),
+    statusCode: row.status_code,
+    durationMs: row.duration_ms,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
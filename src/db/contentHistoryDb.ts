@@ -0,0 +1,265 @@
+import {
+  ContentChange,
+  ContentChangeEntry,
+  ContentChangeFilters,
+  ContentChangeSource,
+  ContentHistoryType,
+  ContentSnapshot,
+  MovieSnapshot,
+  ShowSnapshot,
+} from '../types/contentHistoryTypes';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { RowDataPacket } from 'mysql2/promise';
+
+const CONTENT_TABLES: Record<ContentHistoryType, string> = { show: 'shows', movie: 'movies' };
+
+interface ShowFieldsRow extends RowDataPacket {
+  title: string;
+  status: string | null;
+  network: string | null;
+  type: string | null;
+}
+
+interface MovieFieldsRow extends RowDataPacket {
+  title: string;
+  release_date: string | null;
+  runtime: number | null;
+  mpa_rating: string | null;
+}
+
+interface SeasonNumberRow extends RowDataPacket {
+  season_number: number;
+}
+
+interface EpisodeSnapshotRow extends RowDataPacket {
+  id: number;
+  season_number: number;
+  episode_number: number;
+  title: string | null;
+  air_date: string | null;
+}
+
+interface SnapshotRow extends RowDataPacket {
+  snapshot: string | ContentSnapshot;
+}
+
+interface ContentIdRow extends RowDataPacket {
+  id: number;
+}
+
+interface ContentChangeRow extends RowDataPacket {
+  id: number;
+  content_type: ContentHistoryType;
+  content_id: number;
+  title: string;
+  source: ContentChangeSource;
+  changes: string | ContentChange[];
+  detected_at: Date;
+}
+
+interface CountRow extends RowDataPacket {
+  total: number;
+}
+
+/**
+ * Read the tracked state of a show: its status and other tracked fields, season numbers and episodes
+ * @param showId - Show id
+ * @returns The snapshot, or null if the show does not exist
+ */
+export async function getShowSnapshot(showId: number): Promise<ShowSnapshot | null> {
+  const pool = getDbPool();
+  const [showRows] = await pool.execute<ShowFieldsRow[]>(
+    'SELECT title, status, network, type FROM shows WHERE id = ?',
+    [showId],
+  );
+  if (showRows.length === 0) {
+    return null;
+  }
+
+  const [seasonRows] = await pool.execute<SeasonNumberRow[]>(
+    'SELECT season_number FROM seasons WHERE show_id = ? ORDER BY season_number',
+    [showId],
+  );
+  const [episodeRows] = await pool.execute<EpisodeSnapshotRow[]>(
+    `SELECT id, season_number, episode_number, title, CAST(air_date AS CHAR) AS air_date FROM episodes
+     WHERE show_id = ?
+     ORDER BY season_number, episode_number, id`,
+    [showId],
+  );
+
+  const show = showRows[0];
+  return {
+    fields: { title: show.title, status: show.status, network: show.network, type: show.type },
+    seasons: seasonRows.map((row: SeasonNumberRow) => row.season_number),
+    episodes: episodeRows.map((row: EpisodeSnapshotRow) => ({
+      id: row.id,
+      seasonNumber: row.season_number,
+      episodeNumber: row.episode_number,
+      title: row.title,
+      airDate: row.air_date,
+    })),
+  };
+}
+
+/**
+ * Read the tracked fields of a movie
+ * @param movieId - Movie id
+ * @returns The snapshot, or null if the movie does not exist
+ */
+export async function getMovieSnapshot(movieId: number): Promise<MovieSnapshot | null> {
+  const [rows] = await getDbPool().execute<MovieFieldsRow[]>(
+    'SELECT title, CAST(release_date AS CHAR) AS release_date, runtime, mpa_rating FROM movies WHERE id = ?',
+    [movieId],
+  );
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const movie = rows[0];
+  return {
+    fields: {
+      title: movie.title,
+      releaseDate: movie.release_date,
+      runtime: movie.runtime,
+      mpaRating: movie.mpa_rating,
+    },
+  };
+}
+
+/**
+ * Get the snapshot stored after a show or movie's last change check
+ * @param contentType - Content type
+ * @param contentId - Content id
+ */
+export async function getStoredSnapshot(
+  contentType: ContentHistoryType,
+  contentId: number,
+): Promise<ContentSnapshot | null> {
+  const [rows] = await getDbPool().execute<SnapshotRow[]>(
+    'SELECT snapshot FROM admin_content_snapshots WHERE content_type = ? AND content_id = ?',
+    [contentType, contentId],
+  );
+  if (rows.length === 0) {
+    return null;
+  }
+  return typeof rows[0].snapshot === 'string' ? JSON.parse(rows[0].snapshot) : rows[0].snapshot;
+}
+
+/**
+ * Store a show or movie's snapshot for the next change check
+ * @param contentType - Content type
+ * @param contentId - Content id
+ * @param snapshot - Current tracked state
+ */
+export async function saveSnapshot(
+  contentType: ContentHistoryType,
+  contentId: number,
+  snapshot: ContentSnapshot,
+): Promise<void> {
+  await getDbPool().execute(
+    `INSERT INTO admin_content_snapshots (content_type, content_id, snapshot) VALUES (?, ?, ?)
+     ON DUPLICATE KEY UPDATE snapshot = VALUES(snapshot), captured_at = NOW()`,
+    [contentType, contentId, JSON.stringify(snapshot)],
+  );
+}
+
+/**
+ * Get the shows or movies updated since their snapshot was stored, or that have no snapshot yet
+ * @param contentType - Content type
+ */
+export async function getContentIdsToCapture(contentType: ContentHistoryType): Promise<number[]> {
+  const [rows] = await getDbPool().execute<ContentIdRow[]>(
+    `SELECT c.id FROM ${CONTENT_TABLES[contentType]} c
+     LEFT JOIN admin_content_snapshots s ON s.content_type = ? AND s.content_id = c.id
+     WHERE s.captured_at IS NULL OR c.updated_at > s.captured_at
+     ORDER BY c.id`,
+    [contentType],
+  );
+  return rows.map((row: ContentIdRow) => row.id);
+}
+
+/**
+ * Record the changes found on a show or movie
+ * @param contentType - Content type
+ * @param contentId - Content id
+ * @param title - Title of the content when the changes were found
+ * @param source - How the changes were found
+ * @param changes - Field-level changes
+ */
+export async function addContentChanges(
+  contentType: ContentHistoryType,
+  contentId: number,
+  title: string,
+  source: ContentChangeSource,
+  changes: ContentChange[],
+): Promise<void> {
+  await getDbPool().execute(
+    `INSERT INTO admin_content_changes (content_type, content_id, title, source, changes)
+     VALUES (?, ?, ?, ?, ?)`,
+    [contentType, contentId, title, source, JSON.stringify(changes)],
+  );
+}
+
+/**
+ * Get a page of content changes, newest first
+ * @param filters - Change filters
+ * @param limit - Page size
+ * @param offset - Number of entries to skip
+ */
+export async function getContentChanges(
+  filters: ContentChangeFilters,
+  limit: number,
+  offset: number,
+): Promise<ContentChangeEntry[]> {
+  const { where, values } = buildWhereClause(filters);
+  const [rows] = await getDbPool().query<ContentChangeRow[]>(
+    `SELECT * FROM admin_content_changes ${where} ORDER BY detected_at DESC, id DESC LIMIT ? OFFSET ?`,
+    [...values, limit, offset],
+  );
+  return rows.map(transformContentChangeRow);
+}
+
+/**
+ * Count the content changes matching the filters
+ * @param filters - Change filters
+ */
+export async function getContentChangeCount(filters: ContentChangeFilters): Promise<number> {
+  const { where, values } = buildWhereClause(filters);
+  const [rows] = await getDbPool().query<CountRow[]>(
+    `SELECT COUNT(*) AS total FROM admin_content_changes ${where}`,
+    values,
+  );
+  return Number(rows[0]?.total ?? 0);
+}
+
+function buildWhereClause(filters: ContentChangeFilters): { where: string; values: (string | number)[] } {
+  const conditions: string[] = [];
+  const values: (string | number)[] = [];
+
+  if (filters.contentType) {
+    conditions.push('content_type = ?');
+    values.push(filters.contentType);
+  }
+  if (filters.contentId !== undefined) {
+    conditions.push('content_id = ?');
+    values.push(filters.contentId);
+  }
+  if (filters.since) {
+    conditions.push('detected_at >= ?');
+    values.push(filters.since);
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', values };
+}
+
+function transformContentChangeRow(row: ContentChangeRow): ContentChangeEntry {
+  return {
+    id: row.id,
+    contentType: row.content_type,
+    contentId: row.content_id,
+    title: row.title,
+    source: row.source,
+    changes: typeof row.changes === 'string' ? JSON.parse(row.changes) : row.changes,
+    detectedAt: new Date(row.detected_at).toISOString(),
+  };
+}
@@ -0,0 +1,230 @@
+import { ContentImportType, SavedContentImport } from '../types/contentImportTypes';
+import { TMDBCastMember, TMDBMovie, TMDBSeason, TMDBShow, TMDBWatchProviders } from '../types/tmdbTypes';
+import { withTransaction } from './transaction';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+const CONTENT_TABLES: Record<ContentImportType, string> = { show: 'shows', movie: 'movies' };
+// Genre and streaming service links, which the list endpoints filter on
+const LINK_TABLES: Record<ContentImportType, { idColumn: string; genreTable: string; serviceTable: string }> = {
+  show: { idColumn: 'show_id', genreTable: 'show_genres', serviceTable: 'show_services' },
+  movie: { idColumn: 'movie_id', genreTable: 'movie_genres', serviceTable: 'movie_services' },
+};
+// Errors from losing a race with a concurrent import of the same TMDB id
+const CONFLICT_ERROR_CODES = ['ER_LOCK_DEADLOCK', 'ER_DUP_ENTRY'];
+
+interface ContentIdRow extends RowDataPacket {
+  id: number;
+}
+
+/**
+ * Find the show or movie already imported from a TMDB id
+ * @param contentType - Content type
+ * @param tmdbId - TMDB id
+ * @returns The content id, or null if it hasn't been imported
+ */
+export async function findContentIdByTmdbId(contentType: ContentImportType, tmdbId: number): Promise<number | null> {
+  const [rows] = await getDbPool().execute<ContentIdRow[]>(
+    `SELECT id FROM ${CONTENT_TABLES[contentType]} WHERE tmdb_id = ? LIMIT 1`,
+    [tmdbId],
+  );
+  return rows.length > 0 ? rows[0].id : null;
+}
+
+/**
+ * Save a show from TMDB with its genres, streaming services, seasons, episodes and cast, unless a show with its TMDB id already exists
+ * @param show - TMDB show, with its credits
+ * @param seasons - TMDB seasons with their episodes
+ * @returns The new show id, or the existing show id flagged as a duplicate
+ */
+export async function saveImportedShow(show: TMDBShow, seasons: TMDBSeason[]): Promise<SavedContentImport> {
+  return saveUnlessImported('show', show.id, async (connection) => {
+    const [showResult] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO shows (tmdb_id, title, description, release_date, poster_image, backdrop_image, user_rating,
+         network, season_count, episode_count, status, type, in_production, last_air_date, imported_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+      [
+        show.id,
+        show.name,
+        show.overview ?? '',
+        emptyToNull(show.first_air_date),
+        show.poster_path,
+        show.backdrop_path,
+        show.vote_average ?? 0,
+        show.networks[0]?.name ?? null,
+        show.number_of_seasons,
+        show.number_of_episodes,
+        show.status,
+        show.type,
+        show.in_production ? 1 : 0,
+        emptyToNull(show.last_air_date),
+      ],
+    );
+    const showId = showResult.insertId;
+    await saveGenresAndServices(connection, 'show', showId, show.genres, show['watch/providers']);
+
+    for (const season of show.seasons) {
+      const [seasonResult] = await connection.execute<ResultSetHeader>(
+        `INSERT INTO seasons (show_id, tmdb_id, name, overview, season_number, release_date, poster_image,
+           number_of_episodes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          showId,
+          season.id,
+          season.name,
+          season.overview ?? '',
+          season.season_number,
+          emptyToNull(season.air_date),
+          season.poster_path,
+          season.episode_count,
+        ],
+      );
+
+      const episodes = seasons.find((details) => details.season_number === season.season_number)?.episodes ?? [];
+      for (const episode of episodes) {
+        await connection.execute(
+          `INSERT INTO episodes (tmdb_id, show_id, season_id, season_number, episode_number, episode_type, title,
+             overview, air_date, runtime, still_image)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            episode.id,
+            showId,
+            seasonResult.insertId,
+            episode.season_number,
+            episode.episode_number,
+            episode.episode_type,
+            episode.name,
+            episode.overview ?? '',
+            emptyToNull(episode.air_date),
+            episode.runtime,
+            episode.still_path,
+          ],
+        );
+      }
+    }
+
+    for (const member of show.credits?.cast ?? []) {
+      const personId = await savePerson(connection, member);
+      await connection.execute(
+        `INSERT INTO show_cast (show_id, person_id, credit_id, character_name, cast_order, active)
+         VALUES (?, ?, ?, ?, ?, 1)`,
+        [showId, personId, member.credit_id, member.character ?? '', member.order],
+      );
+    }
+
+    return showId;
+  });
+}
+
+/**
+ * Save a movie from TMDB with its genres, streaming services and cast, unless a movie with its TMDB id already exists
+ * @param movie - TMDB movie, with its credits and release dates
+ * @returns The new movie id, or the existing movie id flagged as a duplicate
+ */
+export async function saveImportedMovie(movie: TMDBMovie): Promise<SavedContentImport> {
+  return saveUnlessImported('movie', movie.id, async (connection) => {
+    const [movieResult] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO movies (tmdb_id, title, description, release_date, runtime, poster_image, backdrop_image,
+         user_rating, mpa_rating, imported_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+      [
+        movie.id,
+        movie.title,
+        movie.overview ?? '',
+        emptyToNull(movie.release_date),
+        movie.runtime,
+        movie.poster_path,
+        movie.backdrop_path,
+        movie.vote_average ?? 0,
+        getUSCertification(movie),
+      ],
+    );
+    const movieId = movieResult.insertId;
+    await saveGenresAndServices(connection, 'movie', movieId, movie.genres, movie['watch/providers']);
+
+    for (const member of movie.credits?.cast ?? []) {
+      const personId = await savePerson(connection, member);
+      await connection.execute(
+        `INSERT INTO movie_cast (movie_id, person_id, credit_id, character_name, cast_order)
+         VALUES (?, ?, ?, ?, ?)`,
+        [movieId, personId, member.credit_id, member.character ?? '', member.order],
+      );
+    }
+
+    return movieId;
+  });
+}
+
+// The TMDB id is checked with a locking read in the same transaction as the save, so of two concurrent imports of the
+// same id only one saves; the other waits and sees the first, or loses a deadlock or unique key and is re-checked
+async function saveUnlessImported(
+  contentType: ContentImportType,
+  tmdbId: number,
+  save: (connection: PoolConnection) => Promise<number>,
+): Promise<SavedContentImport> {
+  try {
+    return await withTransaction(async (connection) => {
+      const [rows] = await connection.execute<ContentIdRow[]>(
+        `SELECT id FROM ${CONTENT_TABLES[contentType]} WHERE tmdb_id = ? LIMIT 1 FOR UPDATE`,
+        [tmdbId],
+      );
+      if (rows.length > 0) {
+        return { id: rows[0].id, duplicate: true };
+      }
+      return { id: await save(connection), duplicate: false };
+    });
+  } catch (error) {
+    if (CONFLICT_ERROR_CODES.includes((error as { code?: string }).code ?? '')) {
+      const existingId = await findContentIdByTmdbId(contentType, tmdbId);
+      if (existingId !== null) {
+        return { id: existingId, duplicate: true };
+      }
+    }
+    throw error;
+  }
+}
+
+// Genres and streaming services are keyed by their TMDB ids; ones missing from the genres and streaming_services
+// tables are skipped rather than failing the import
+async function saveGenresAndServices(
+  connection: PoolConnection,
+  contentType: ContentImportType,
+  contentId: number,
+  genres: { id: number }[],
+  watchProviders: TMDBWatchProviders | undefined,
+): Promise<void> {
+  const { idColumn, genreTable, serviceTable } = LINK_TABLES[contentType];
+  for (const genre of genres) {
+    await connection.execute(
+      `INSERT IGNORE INTO ${genreTable} (${idColumn}, genre_id) SELECT ?, id FROM genres WHERE id = ?`,
+      [contentId, genre.id],
+    );
+  }
+  for (const provider of watchProviders?.results.US?.flatrate ?? []) {
+    await connection.execute(
+      `INSERT IGNORE INTO ${serviceTable} (${idColumn}, streaming_service_id)
+       SELECT ?, id FROM streaming_services WHERE id = ?`,
+      [contentId, provider.provider_id],
+    );
+  }
+}
+
+// People are shared across content; an existing person keeps their details, which the person update job maintains
+async function savePerson(connection: PoolConnection, member: TMDBCastMember): Promise<number> {
+  const [result] = await connection.execute<ResultSetHeader>(
+    `INSERT INTO people (tmdb_id, name, gender, profile_image) VALUES (?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE id = LAST_INSERT_ID(id)`,
+    [member.id, member.name, member.gender ?? 0, member.profile_path],
+  );
+  return result.insertId;
+}
+
+function getUSCertification(movie: TMDBMovie): string | null {
+  const release = movie.release_dates?.results.find((result) => result.iso_3166_1 === 'US');
+  return release?.release_dates.find((date) => date.certification)?.certification ?? null;
+}
+
+// TMDB sends unknown dates as empty strings
+function emptyToNull(value: string | null): string | null {
+  return value ? value : null;
+}
@@ -0,0 +1,295 @@
+import { AdminActor } from '../types/adminTypes';
+import {
+  ContentOverride,
+  ContentOverrideTarget,
+  ContentOverrideType,
+  ContentOverrideValue,
+  ContentOverrideValues,
+} from '../types/contentOverrideTypes';
+import { withTransaction } from './transaction';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+
+// Content table and column behind each overridable field
+const OVERRIDE_COLUMNS: Record<ContentOverrideType, { table: string; columns: Record<string, string> }> = {
+  show: {
+    table: 'shows',
+    columns: {
+      title: 'title',
+      description: 'description',
+      posterImage: 'poster_image',
+      backdropImage: 'backdrop_image',
+      releaseDate: 'release_date',
+      network: 'network',
+      status: 'status',
+      type: 'type',
+    },
+  },
+  movie: {
+    table: 'movies',
+    columns: {
+      title: 'title',
+      description: 'description',
+      posterImage: 'poster_image',
+      backdropImage: 'backdrop_image',
+      releaseDate: 'release_date',
+      runtime: 'runtime',
+      mpaRating: 'mpa_rating',
+    },
+  },
+  episode: {
+    table: 'episodes',
+    columns: {
+      title: 'title',
+      overview: 'overview',
+      airDate: 'air_date',
+      stillImage: 'still_image',
+      runtime: 'runtime',
+    },
+  },
+};
+
+const NUMERIC_FIELDS = new Set(['runtime']);
+
+interface ContentOverrideRow extends RowDataPacket {
+  id: number;
+  content_type: ContentOverrideType;
+  content_id: number;
+  field: string;
+  value: string;
+  source_value: string | null;
+  updated_at: Date;
+  updated_by_uid: string;
+  updated_by_email: string | null;
+}
+
+interface OverrideTargetRow extends RowDataPacket {
+  content_type: ContentOverrideType;
+  content_id: number;
+}
+
+type CurrentValues = Record<string, string | null>;
+
+const SELECT_OVERRIDES = `SELECT id, content_type, content_id, field, value, source_value, updated_at, updated_by_uid,
+  updated_by_email FROM admin_content_overrides`;
+
+/**
+ * Check whether a show, movie or episode exists
+ * @param contentType - Content type
+ * @param contentId - Content id
+ */
+export async function contentExists(contentType: ContentOverrideType, contentId: number): Promise<boolean> {
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(
+    `SELECT 1 FROM ${OVERRIDE_COLUMNS[contentType].table} WHERE id = ?`,
+    [contentId],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Check whether an episode belongs to a show
+ * @param showId - Show id
+ * @param episodeId - Episode id
+ */
+export async function episodeExists(showId: number, episodeId: number): Promise<boolean> {
+  const [rows] = await getDbPool().execute<RowDataPacket[]>('SELECT 1 FROM episodes WHERE id = ? AND show_id = ?', [
+    episodeId,
+    showId,
+  ]);
+  return rows.length > 0;
+}
+
+/**
+ * Get the overrides of one show, movie or episode, ordered by field
+ * @param contentType - Content type
+ * @param contentId - Content id
+ */
+export async function getOverrides(contentType: ContentOverrideType, contentId: number): Promise<ContentOverride[]> {
+  const [rows] = await getDbPool().execute<ContentOverrideRow[]>(
+    `${SELECT_OVERRIDES} WHERE content_type = ? AND content_id = ? ORDER BY field`,
+    [contentType, contentId],
+  );
+  return rows.map(transformContentOverrideRow);
+}
+
+/**
+ * Get the overrides of a show and of its episodes
+ * @param showId - Show id
+ */
+export async function getShowOverrides(showId: number): Promise<ContentOverride[]> {
+  const [rows] = await getDbPool().execute<ContentOverrideRow[]>(
+    `${SELECT_OVERRIDES}
+     WHERE (content_type = 'show' AND content_id = ?)
+        OR (content_type = 'episode' AND content_id IN (SELECT id FROM episodes WHERE show_id = ?))
+     ORDER BY content_type DESC, content_id, field`,
+    [showId, showId],
+  );
+  return rows.map(transformContentOverrideRow);
+}
+
+/**
+ * Get the show and the episodes of the show that have overrides
+ * @param showId - Show id
+ */
+export async function getShowOverrideTargets(showId: number): Promise<ContentOverrideTarget[]> {
+  const [rows] = await getDbPool().execute<OverrideTargetRow[]>(
+    `SELECT DISTINCT content_type, content_id FROM admin_content_overrides
+     WHERE (content_type = 'show' AND content_id = ?)
+        OR (content_type = 'episode' AND content_id IN (SELECT id FROM episodes WHERE show_id = ?))`,
+    [showId, showId],
+  );
+  return rows.map(transformOverrideTargetRow);
+}
+
+/**
+ * Get every show, movie and episode that has overrides
+ */
+export async function getAllOverrideTargets(): Promise<ContentOverrideTarget[]> {
+  const [rows] = await getDbPool().execute<OverrideTargetRow[]>(
+    'SELECT DISTINCT content_type, content_id FROM admin_content_overrides ORDER BY content_type, content_id',
+  );
+  return rows.map(transformOverrideTargetRow);
+}
+
+/**
+ * Replace the overrides of a show, movie or episode and write them to the content row in one transaction. New
+ * overrides remember the field's current value as the source value; removed overrides restore their source value.
+ * @param contentType - Content type
+ * @param contentId - Content id
+ * @param values - The complete set of override values, keyed by field
+ * @param admin - Admin setting the overrides
+ */
+export async function replaceOverrides(
+  contentType: ContentOverrideType,
+  contentId: number,
+  values: ContentOverrideValues,
+  admin: AdminActor,
+): Promise<void> {
+  await withTransaction(async (connection) => {
+    const existing = await lockOverrides(connection, contentType, contentId);
+    const current = await getCurrentValues(connection, contentType, contentId);
+    if (!current) {
+      return;
+    }
+
+    const removed = existing.filter((override) => !(override.field in values));
+    if (removed.length > 0) {
+      await connection.query('DELETE FROM admin_content_overrides WHERE id IN (?)', [
+        removed.map((override) => override.id),
+      ]);
+    }
+    for (const [field, value] of Object.entries(values)) {
+      await connection.execute(
+        `INSERT INTO admin_content_overrides
+           (content_type, content_id, field, value, source_value, updated_by_uid, updated_by_email)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE
+           value = VALUES(value),
+           updated_by_uid = VALUES(updated_by_uid),
+           updated_by_email = VALUES(updated_by_email)`,
+        [contentType, contentId, field, String(value), current[field], admin.uid, admin.email],
+      );
+    }
+
+    const writes: Record<string, string | null> = {};
+    removed.forEach((override) => (writes[override.field] = override.source_value));
+    Object.entries(values).forEach(([field, value]) => (writes[field] = String(value)));
+    await writeContentValues(connection, contentType, contentId, writes);
+  });
+}
+
+/**
+ * Write overridden values back to a show, movie or episode after a TMDB refresh replaced them. The value the refresh
+ * wrote becomes the override's new source value.
+ * @param target - Content to re-apply overrides to
+ * @returns The number of fields re-applied
+ */
+export async function applyOverrides(target: ContentOverrideTarget): Promise<number> {
+  return withTransaction(async (connection) => {
+    const overrides = await lockOverrides(connection, target.contentType, target.contentId);
+    if (overrides.length === 0) {
+      return 0;
+    }
+    const current = await getCurrentValues(connection, target.contentType, target.contentId);
+    if (!current) {
+      return 0;
+    }
+
+    const stale = overrides.filter((override) => current[override.field] !== override.value);
+    const writes: Record<string, string | null> = {};
+    for (const override of stale) {
+      await connection.execute('UPDATE admin_content_overrides SET source_value = ? WHERE id = ?', [
+        current[override.field],
+        override.id,
+      ]);
+      writes[override.field] = override.value;
+    }
+    await writeContentValues(connection, target.contentType, target.contentId, writes);
+    return stale.length;
+  });
+}
+
+async function lockOverrides(
+  connection: PoolConnection,
+  contentType: ContentOverrideType,
+  contentId: number,
+): Promise<ContentOverrideRow[]> {
+  const [rows] = await connection.execute<ContentOverrideRow[]>(
+    `${SELECT_OVERRIDES} WHERE content_type = ? AND content_id = ? FOR UPDATE`,
+    [contentType, contentId],
+  );
+  return rows;
+}
+
+// Reads every overridable field as text so it compares directly with stored override values
+async function getCurrentValues(
+  connection: PoolConnection,
+  contentType: ContentOverrideType,
+  contentId: number,
+): Promise<CurrentValues | null> {
+  const { table, columns } = OVERRIDE_COLUMNS[contentType];
+  const selects = Object.entries(columns).map(([field, column]) => `CAST(${column} AS CHAR) AS ${field}`);
+  const [rows] = await connection.execute<RowDataPacket[]>(
+    `SELECT ${selects.join(', ')} FROM ${table} WHERE id = ? FOR UPDATE`,
+    [contentId],
+  );
+  return rows.length > 0 ? (rows[0] as CurrentValues) : null;
+}
+
+async function writeContentValues(
+  connection: PoolConnection,
+  contentType: ContentOverrideType,
+  contentId: number,
+  writes: Record<string, string | null>,
+): Promise<void> {
+  const fields = Object.keys(writes);
+  if (fields.length === 0) {
+    return;
+  }
+
+  const { table, columns } = OVERRIDE_COLUMNS[contentType];
+  await connection.execute(
+    `UPDATE ${table} SET ${fields.map((field) => `${columns[field]} = ?`).join(', ')} WHERE id = ?`,
+    [...fields.map((field) => writes[field]), contentId],
+  );
+}
+
+function toOverrideValue(field: string, value: string): ContentOverrideValue {
+  return NUMERIC_FIELDS.has(field) ? Number(value) : value;
+}
+
+function transformOverrideTargetRow(row: OverrideTargetRow): ContentOverrideTarget {
+  return { contentType: row.content_type, contentId: row.content_id };
+}
+
+function transformContentOverrideRow(row: ContentOverrideRow): ContentOverride {
+  return {
+    contentType: row.content_type,
+    contentId: row.content_id,
+    field: row.field,
+    value: toOverrideValue(row.field, row.value),
+    sourceValue: row.source_value === null ? null : toOverrideValue(row.field, row.source_value),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    updatedBy: { uid: row.updated_by_uid, email: row.updated_by_email },
+  };
+}
@@ -0,0 +1,341 @@
+import {
+  ContentSearchQuery,
+  ContentSearchResult,
+  ContentType,
+  MovieSearchQuery,
+  MovieSearchResult,
+  ShowSearchQuery,
+  ShowSearchResult,
+} from '../types/contentSearchTypes';
+import { ContentUpdateItem } from '../types/contentUpdateRunTypes';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { RowDataPacket } from 'mysql2/promise';
+
+interface ContentTableConfig {
+  table: string;
+  idColumn: string;
+  genreTable: string;
+  serviceTable: string;
+  watchStatusTable: string;
+  extraColumns: string[];
+}
+
+const CONTENT_TABLES: Record<ContentType, ContentTableConfig> = {
+  show: {
+    table: 'shows',
+    idColumn: 'show_id',
+    genreTable: 'show_genres',
+    serviceTable: 'show_services',
+    watchStatusTable: 'show_watch_status',
+    extraColumns: ['network', 'status', 'type', 'season_count', 'episode_count'],
+  },
+  movie: {
+    table: 'movies',
+    idColumn: 'movie_id',
+    genreTable: 'movie_genres',
+    serviceTable: 'movie_services',
+    watchStatusTable: 'movie_watch_status',
+    extraColumns: ['runtime', 'mpa_rating'],
+  },
+};
+
+interface ContentSearchRow extends RowDataPacket {
+  id: number;
+  tmdb_id: number;
+  title: string;
+  description: string | null;
+  release_date: string | Date | null;
+  poster_image: string | null;
+  backdrop_image: string | null;
+  genres: string | null;
+  streaming_services: string | null;
+  profile_count: number | string;
+  updated_at: Date | null;
+}
+
+interface ShowSearchRow extends ContentSearchRow {
+  network: string | null;
+  status: string | null;
+  type: string | null;
+  season_count: number | null;
+  episode_count: number | null;
+}
+
+interface MovieSearchRow extends ContentSearchRow {
+  runtime: number | null;
+  mpa_rating: string | null;
+}
+
+interface CountRow extends RowDataPacket {
+  total: number;
+}
+
+interface ContentUpdateRow extends RowDataPacket {
+  id: number;
+  tmdb_id: number;
+  title: string;
+}
+
+type SqlValue = string | number | number[];
+
+/**
+ * Get a page of shows matching the query
+ * @param query - Search, filter and sort options
+ * @param limit - Page size
+ * @param offset - Number of shows to skip
+ */
+export async function searchShows(query: ShowSearchQuery, limit: number, offset: number): Promise<ShowSearchResult[]> {
+  const rows = await searchContent<ShowSearchRow>('show', query, limit, offset);
+  return rows.map(transformShowRow);
+}
+
+/**
+ * Count the shows matching the query
+ * @param query - Search and filter options
+ */
+export async function countShows(query: ShowSearchQuery): Promise<number> {
+  return countContent('show', query);
+}
+
+/**
+ * Get a page of movies matching the query
+ * @param query - Search, filter and sort options
+ * @param limit - Page size
+ * @param offset - Number of movies to skip
+ */
+export async function searchMovies(
+  query: MovieSearchQuery,
+  limit: number,
+  offset: number,
+): Promise<MovieSearchResult[]> {
+  const rows = await searchContent<MovieSearchRow>('movie', query, limit, offset);
+  return rows.map(transformMovieRow);
+}
+
+/**
+ * Count the movies matching the query
+ * @param query - Search and filter options
+ */
+export async function countMovies(query: MovieSearchQuery): Promise<number> {
+  return countContent('movie', query);
+}
+
+/**
+ * Get every show matching the query's filters, to refresh from TMDB
+ * @param query - Search and filter options
+ */
+export async function findShowsToRefresh(query: ShowSearchQuery): Promise<ContentUpdateItem[]> {
+  return findContentToRefresh('show', query);
+}
+
+/**
+ * Get every movie matching the query's filters, to refresh from TMDB
+ * @param query - Search and filter options
+ */
+export async function findMoviesToRefresh(query: MovieSearchQuery): Promise<ContentUpdateItem[]> {
+  return findContentToRefresh('movie', query);
+}
+
+async function searchContent<T extends ContentSearchRow>(
+  type: ContentType,
+  query: ShowSearchQuery | MovieSearchQuery,
+  limit: number,
+  offset: number,
+): Promise<T[]> {
+  const config = CONTENT_TABLES[type];
+  const { where, values } = buildWhereClause(type, query);
+  const { orderBy, values: orderValues } = buildOrderBy(query);
+
+  const sql = `
+    SELECT c.id, c.tmdb_id, c.title, c.description, c.release_date, c.poster_image, c.backdrop_image, c.updated_at,
+      ${config.extraColumns.map((column) => `c.${column}`).join(', ')},
+      (SELECT GROUP_CONCAT(g.genre ORDER BY g.genre SEPARATOR '|')
+        FROM ${config.genreTable} cg JOIN genres g ON g.id = cg.genre_id WHERE cg.${config.idColumn} = c.id) AS genres,
+      (SELECT GROUP_CONCAT(ss.name ORDER BY ss.name SEPARATOR '|')
+        FROM ${config.serviceTable} cs JOIN streaming_services ss ON ss.id = cs.streaming_service_id
+        WHERE cs.${config.idColumn} = c.id) AS streaming_services,
+      (SELECT COUNT(DISTINCT ws.profile_id) FROM ${config.watchStatusTable} ws WHERE ws.${config.idColumn} = c.id) AS profile_count
+    FROM ${config.table} c
+    ${where}
+    ORDER BY ${orderBy}
+    LIMIT ? OFFSET ?`;
+  const [rows] = await getDbPool().query<T[]>(sql, [...values, ...orderValues, limit, offset]);
+  return rows;
+}
+
+async function countContent(type: ContentType, query: ShowSearchQuery | MovieSearchQuery): Promise<number> {
+  const { where, values } = buildWhereClause(type, query);
+  const [rows] = await getDbPool().query<CountRow[]>(
+    `SELECT COUNT(*) AS total FROM ${CONTENT_TABLES[type].table} c ${where}`,
+    values,
+  );
+  return Number(rows[0]?.total ?? 0);
+}
+
+async function findContentToRefresh(
+  type: ContentType,
+  query: ShowSearchQuery | MovieSearchQuery,
+): Promise<ContentUpdateItem[]> {
+  const { where, values } = buildWhereClause(type, query);
+  const [rows] = await getDbPool().query<ContentUpdateRow[]>(
+    `SELECT c.id, c.tmdb_id, c.title FROM ${CONTENT_TABLES[type].table} c ${where} ORDER BY c.id`,
+    values,
+  );
+  return rows.map((row: ContentUpdateRow) => ({ id: row.id, tmdbId: row.tmdb_id, title: row.title }));
+}
+
+function buildWhereClause(
+  type: ContentType,
+  query: ShowSearchQuery | MovieSearchQuery,
+): { where: string; values: SqlValue[] } {
+  const config = CONTENT_TABLES[type];
+  const conditions: string[] = [];
+  const values: SqlValue[] = [];
+
+  if (query.search) {
+    const search = escapeLike(query.search);
+    if (query.searchMode === 'prefix') {
+      conditions.push('c.title LIKE ?');
+      values.push(`${search}%`);
+    } else {
+      // Fuzzy matches any title containing the search, or one that starts with a similar-sounding phrase
+      conditions.push(`(c.title LIKE ? OR SOUNDEX(c.title) LIKE CONCAT(SOUNDEX(?), '%'))`);
+      values.push(`%${search}%`, query.search);
+    }
+  }
+  if (query.ids?.length) {
+    conditions.push('c.id IN (?)');
+    values.push(query.ids);
+  }
+  if (query.tmdbId !== undefined) {
+    conditions.push('c.tmdb_id = ?');
+    values.push(query.tmdbId);
+  }
+  if (query.genre) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM ${config.genreTable} cg JOIN genres g ON g.id = cg.genre_id
+        WHERE cg.${config.idColumn} = c.id AND g.genre = ?)`,
+    );
+    values.push(query.genre);
+  }
+  if (query.streamingService) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM ${config.serviceTable} cs JOIN streaming_services ss ON ss.id = cs.streaming_service_id
+        WHERE cs.${config.idColumn} = c.id AND ss.name = ?)`,
+    );
+    values.push(query.streamingService);
+  }
+  if (query.releasedFrom) {
+    conditions.push('c.release_date >= ?');
+    values.push(query.releasedFrom);
+  }
+  if (query.releasedTo) {
+    conditions.push('c.release_date <= ?');
+    values.push(query.releasedTo);
+  }
+  if (query.unwatched !== undefined) {
+    const watched = `EXISTS (SELECT 1 FROM ${config.watchStatusTable} ws WHERE ws.${config.idColumn} = c.id)`;
+    conditions.push(query.unwatched ? `NOT ${watched}` : watched);
+  }
+  if (query.updatedBefore) {
+    conditions.push('c.updated_at < ?');
+    values.push(query.updatedBefore);
+  }
+  if (query.missing?.includes('poster')) {
+    conditions.push(`(c.poster_image IS NULL OR c.poster_image = '')`);
+  }
+  if (query.missing?.includes('overview')) {
+    conditions.push(`(c.description IS NULL OR c.description = '')`);
+  }
+
+  if (type === 'show') {
+    const showQuery = query as ShowSearchQuery;
+    for (const column of ['type', 'status', 'network'] as const) {
+      if (showQuery[column]) {
+        conditions.push(`c.${column} = ?`);
+        values.push(showQuery[column]);
+      }
+    }
+  } else {
+    const movieQuery = query as MovieSearchQuery;
+    if (movieQuery.year !== undefined) {
+      conditions.push('YEAR(c.release_date) = ?');
+      values.push(movieQuery.year);
+    }
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', values };
+}
+
+function buildOrderBy(query: ContentSearchQuery): { orderBy: string; values: SqlValue[] } {
+  const sortBy = query.sortBy ?? (query.search ? 'relevance' : 'title');
+
+  switch (sortBy) {
+    case 'relevance': {
+      if (!query.search) {
+        return buildOrderBy({ ...query, sortBy: 'title' });
+      }
+      // Exact titles first, then titles starting with the search, then titles containing it, then sound-alikes
+      const search = escapeLike(query.search);
+      return {
+        orderBy:
+          'CASE WHEN c.title = ? THEN 0 WHEN c.title LIKE ? THEN 1 WHEN c.title LIKE ? THEN 2 ELSE 3 END, c.title, c.id',
+        values: [query.search, `${search}%`, `%${search}%`],
+      };
+    }
+    case 'popularity':
+      return { orderBy: `profile_count ${query.sortOrder === 'asc' ? 'ASC' : 'DESC'}, c.title, c.id`, values: [] };
+    case 'lastUpdated':
+      return { orderBy: `c.updated_at ${query.sortOrder === 'asc' ? 'ASC' : 'DESC'}, c.id`, values: [] };
+    case 'title':
+      return { orderBy: `c.title ${query.sortOrder === 'desc' ? 'DESC' : 'ASC'}, c.id`, values: [] };
+  }
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+function splitList(value: string | null): string[] {
+  return value ? value.split('|') : [];
+}
+
+function toDateString(value: string | Date | null): string | null {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString().slice(0, 10) : value;
+}
+
+function transformContentRow(row: ContentSearchRow): ContentSearchResult {
+  return {
+    id: row.id,
+    tmdbId: row.tmdb_id,
+    title: row.title,
+    description: row.description,
+    releaseDate: toDateString(row.release_date),
+    posterImage: row.poster_image,
+    backdropImage: row.backdrop_image,
+    genres: splitList(row.genres),
+    streamingServices: splitList(row.streaming_services),
+    profileCount: Number(row.profile_count),
+    lastUpdated: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+  };
+}
+
+function transformShowRow(row: ShowSearchRow): ShowSearchResult {
+  return {
+    ...transformContentRow(row),
+    network: row.network,
+    status: row.status,
+    type: row.type,
+    seasonCount: row.season_count,
+    episodeCount: row.episode_count,
+  };
+}
+
+function transformMovieRow(row: MovieSearchRow): MovieSearchResult {
+  return {
+    ...transformContentRow(row),
+    runtime: row.runtime,
+    mpaRating: row.mpa_rating,
+  };
+}
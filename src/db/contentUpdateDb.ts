@@ -0,0 +1,41 @@
+import { ContentUpdateItem } from '../types/contentUpdateRunTypes';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { RowDataPacket } from 'mysql2/promise';
+
+interface ContentUpdateRow extends RowDataPacket {
+  id: number;
+  tmdb_id: number;
+  title: string;
+}
+
+// These follow the selection of the shared showsUpdate and moviesUpdate jobs, which don't report the items they pick,
+// so a tracked run updates the same content as a scheduled one; unlike the shared jobs they also skip archived
+// content. The tests pin both rules, so a change to the shared selection has to be made here and there together.
+
+/**
+ * Get the shows a full update refreshes: every show that hasn't ended, been cancelled or been archived
+ */
+export async function getShowsForUpdate(): Promise<ContentUpdateItem[]> {
+  const [rows] = await getDbPool().execute<ContentUpdateRow[]>(
+    `SELECT id, tmdb_id, title FROM shows
+     WHERE (status IS NULL OR status NOT IN ('Ended', 'Canceled')) AND archived_at IS NULL
+     ORDER BY id`,
+  );
+  return rows.map(transformContentUpdateRow);
+}
+
+/**
+ * Get the movies a full update refreshes: every unarchived movie released in the last six months or not yet released
+ */
+export async function getMoviesForUpdate(): Promise<ContentUpdateItem[]> {
+  const [rows] = await getDbPool().execute<ContentUpdateRow[]>(
+    `SELECT id, tmdb_id, title FROM movies
+     WHERE (release_date IS NULL OR release_date > DATE_SUB(CURDATE(), INTERVAL 6 MONTH)) AND archived_at IS NULL
+     ORDER BY id`,
+  );
+  return rows.map(transformContentUpdateRow);
+}
+
+function transformContentUpdateRow(row: ContentUpdateRow): ContentUpdateItem {
+  return { id: row.id, tmdbId: row.tmdb_id, title: row.title };
+}
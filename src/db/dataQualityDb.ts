@@ -0,0 +1,305 @@
+import { AdminActor } from '../types/adminTypes';
+import {
+  ContentIssue,
+  ContentIssueFilters,
+  ContentIssueStatus,
+  ContentIssueType,
+  DetectedIssue,
+} from '../types/dataQualityTypes';
+import { withTransaction } from './transaction';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { RowDataPacket } from 'mysql2/promise';
+
+const INSERT_BATCH_SIZE = 500;
+
+interface ContentRow extends RowDataPacket {
+  id: number;
+  tmdb_id: number;
+  title: string;
+}
+
+interface EpisodeIssueRow extends RowDataPacket {
+  id: number;
+  title: string | null;
+  season_number: number;
+  episode_number: number;
+  show_id: number;
+  show_tmdb_id: number;
+  show_title: string;
+}
+
+interface DuplicateEpisodesRow extends ContentRow {
+  duplicate_groups: number | string;
+}
+
+interface ContentIssueRow extends RowDataPacket {
+  id: number;
+  rule: string;
+  content_type: ContentIssueType;
+  content_id: number;
+  title: string;
+  details: string | Record<string, unknown> | null;
+  status: ContentIssueStatus;
+  first_detected_at: Date;
+  last_detected_at: Date;
+  resolved_at: Date | null;
+  fixed_by_uid: string | null;
+  fixed_by_email: string | null;
+}
+
+interface IssueKeyRow extends RowDataPacket {
+  id: number;
+  content_type: ContentIssueType;
+  content_id: number;
+  status: ContentIssueStatus;
+}
+
+interface RuleStatusCountRow extends RowDataPacket {
+  rule: string;
+  status: ContentIssueStatus;
+  total: number | string;
+}
+
+interface CountRow extends RowDataPacket {
+  total: number;
+}
+
+/**
+ * Find shows that have no seasons
+ */
+export async function findShowsWithoutSeasons(): Promise<DetectedIssue[]> {
+  const [rows] = await getDbPool().execute<ContentRow[]>(
+    `SELECT s.id, s.tmdb_id, s.title FROM shows s
+     WHERE NOT EXISTS (SELECT 1 FROM seasons se WHERE se.show_id = s.id)`,
+  );
+  return rows.map((row: ContentRow) => toContentIssue('show', row));
+}
+
+/**
+ * Find episodes without an air date
+ */
+export async function findEpisodesWithoutAirDate(): Promise<DetectedIssue[]> {
+  const [rows] = await getDbPool().execute<EpisodeIssueRow[]>(
+    `SELECT e.id, e.title, e.season_number, e.episode_number, s.id AS show_id, s.tmdb_id AS show_tmdb_id, s.title AS show_title
+     FROM episodes e
+     JOIN shows s ON s.id = e.show_id
+     WHERE e.air_date IS NULL`,
+  );
+  return rows.map((row: EpisodeIssueRow) => ({
+    contentType: 'episode' as const,
+    contentId: row.id,
+    title: `${row.show_title} S${row.season_number}E${row.episode_number}`,
+    details: {
+      episodeTitle: row.title,
+      showId: row.show_id,
+      showTmdbId: row.show_tmdb_id,
+    },
+  }));
+}
+
+/**
+ * Find movies without a runtime
+ */
+export async function findMoviesWithoutRuntime(): Promise<DetectedIssue[]> {
+  const [rows] = await getDbPool().execute<ContentRow[]>(
+    'SELECT id, tmdb_id, title FROM movies WHERE runtime IS NULL OR runtime = 0',
+  );
+  return rows.map((row: ContentRow) => toContentIssue('movie', row));
+}
+
+/**
+ * Find shows or movies without a poster image
+ * @param contentType - 'show' or 'movie'
+ */
+export async function findContentWithoutPoster(contentType: 'show' | 'movie'): Promise<DetectedIssue[]> {
+  const table = contentType === 'show' ? 'shows' : 'movies';
+  const [rows] = await getDbPool().execute<ContentRow[]>(
+    `SELECT id, tmdb_id, title FROM ${table} WHERE poster_image IS NULL OR poster_image = ''`,
+  );
+  return rows.map((row: ContentRow) => toContentIssue(contentType, row));
+}
+
+/**
+ * Find shows with more than one episode in the same season and episode slot
+ */
+export async function findShowsWithDuplicateEpisodes(): Promise<DetectedIssue[]> {
+  const [rows] = await getDbPool().execute<DuplicateEpisodesRow[]>(
+    `SELECT s.id, s.tmdb_id, s.title, COUNT(*) AS duplicate_groups
+     FROM (
+       SELECT show_id FROM episodes GROUP BY show_id, season_number, episode_number HAVING COUNT(*) > 1
+     ) duplicates
+     JOIN shows s ON s.id = duplicates.show_id
+     GROUP BY s.id, s.tmdb_id, s.title`,
+  );
+  return rows.map((row: DuplicateEpisodesRow) => ({
+    ...toContentIssue('show', row),
+    details: { tmdbId: row.tmdb_id, duplicateGroups: Number(row.duplicate_groups) },
+  }));
+}
+
+/**
+ * Store the findings of one rule's scan. Detected issues are opened (or reopened), and open issues
+ * the scan no longer detects are resolved.
+ * @param rule - Rule id
+ * @param issues - Issues detected by the scan
+ * @returns Number of issues newly opened and resolved
+ */
+export async function saveRuleFindings(
+  rule: string,
+  issues: DetectedIssue[],
+): Promise<{ opened: number; resolved: number }> {
+  return withTransaction(async (connection) => {
+    const [existingRows] = await connection.execute<IssueKeyRow[]>(
+      'SELECT id, content_type, content_id, status FROM admin_content_issues WHERE rule = ? FOR UPDATE',
+      [rule],
+    );
+    const openKeys = new Map(
+      existingRows
+        .filter((row) => row.status === 'open')
+        .map((row) => [issueKey(row.content_type, row.content_id), row.id]),
+    );
+
+    let opened = 0;
+    for (const issue of issues) {
+      if (!openKeys.delete(issueKey(issue.contentType, issue.contentId))) {
+        opened++;
+      }
+    }
+
+    for (let start = 0; start < issues.length; start += INSERT_BATCH_SIZE) {
+      const batch = issues.slice(start, start + INSERT_BATCH_SIZE);
+      await connection.query(
+        `INSERT INTO admin_content_issues (rule, content_type, content_id, title, details) VALUES ?
+         ON DUPLICATE KEY UPDATE
+           title = VALUES(title),
+           details = VALUES(details),
+           last_detected_at = NOW(),
+           status = 'open',
+           resolved_at = NULL,
+           fixed_by_uid = NULL,
+           fixed_by_email = NULL`,
+        [batch.map((issue) => [rule, issue.contentType, issue.contentId, issue.title, JSON.stringify(issue.details)])],
+      );
+    }
+
+    // Whatever is left in openKeys was open before this scan and wasn't detected again
+    const resolvedIds = [...openKeys.values()];
+    if (resolvedIds.length > 0) {
+      await connection.query(
+        `UPDATE admin_content_issues SET status = 'resolved', resolved_at = NOW() WHERE id IN (?)`,
+        [resolvedIds],
+      );
+    }
+
+    return { opened, resolved: resolvedIds.length };
+  });
+}
+
+/**
+ * Get a page of content issues, most recently detected first
+ * @param filters - Issue filters
+ * @param limit - Page size
+ * @param offset - Number of issues to skip
+ */
+export async function getIssues(filters: ContentIssueFilters, limit: number, offset: number): Promise<ContentIssue[]> {
+  const { where, values } = buildWhereClause(filters);
+  const [rows] = await getDbPool().query<ContentIssueRow[]>(
+    `SELECT * FROM admin_content_issues ${where} ORDER BY last_detected_at DESC, id DESC LIMIT ? OFFSET ?`,
+    [...values, limit, offset],
+  );
+  return rows.map(transformIssueRow);
+}
+
+/**
+ * Count the content issues matching the filters
+ * @param filters - Issue filters
+ */
+export async function getIssueCount(filters: ContentIssueFilters): Promise<number> {
+  const { where, values } = buildWhereClause(filters);
+  const [rows] = await getDbPool().query<CountRow[]>(
+    `SELECT COUNT(*) AS total FROM admin_content_issues ${where}`,
+    values,
+  );
+  return Number(rows[0]?.total ?? 0);
+}
+
+/**
+ * Count the content issues of each rule by status
+ */
+export async function getIssueCountsByRule(): Promise<{ rule: string; status: ContentIssueStatus; count: number }[]> {
+  const [rows] = await getDbPool().execute<RuleStatusCountRow[]>(
+    'SELECT rule, status, COUNT(*) AS total FROM admin_content_issues GROUP BY rule, status',
+  );
+  return rows.map((row: RuleStatusCountRow) => ({ rule: row.rule, status: row.status, count: Number(row.total) }));
+}
+
+/**
+ * Get a single content issue
+ * @param id - Issue id
+ */
+export async function getIssueById(id: number): Promise<ContentIssue | null> {
+  const [rows] = await getDbPool().execute<ContentIssueRow[]>('SELECT * FROM admin_content_issues WHERE id = ?', [id]);
+  return rows.length > 0 ? transformIssueRow(rows[0]) : null;
+}
+
+/**
+ * Resolve an issue after its automatic fix has run
+ * @param id - Issue id
+ * @param admin - Admin who ran the fix
+ */
+export async function markIssueFixed(id: number, admin: AdminActor): Promise<void> {
+  await getDbPool().execute(
+    `UPDATE admin_content_issues SET status = 'resolved', resolved_at = NOW(), fixed_by_uid = ?, fixed_by_email = ?
+     WHERE id = ?`,
+    [admin.uid, admin.email, id],
+  );
+}
+
+function buildWhereClause(filters: ContentIssueFilters): { where: string; values: (string | number)[] } {
+  const conditions: string[] = [];
+  const values: (string | number)[] = [];
+
+  if (filters.rule) {
+    conditions.push('rule = ?');
+    values.push(filters.rule);
+  }
+  if (filters.contentType) {
+    conditions.push('content_type = ?');
+    values.push(filters.contentType);
+  }
+  if (filters.status) {
+    conditions.push('status = ?');
+    values.push(filters.status);
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', values };
+}
+
+function issueKey(contentType: ContentIssueType, contentId: number): string {
+  return `${contentType}:${contentId}`;
+}
+
+function toContentIssue(contentType: ContentIssueType, row: ContentRow): DetectedIssue {
+  return { contentType, contentId: row.id, title: row.title, details: { tmdbId: row.tmdb_id } };
+}
+
+function toIsoString(value: Date | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function transformIssueRow(row: ContentIssueRow): ContentIssue {
+  return {
+    id: row.id,
+    rule: row.rule,
+    contentType: row.content_type,
+    contentId: row.content_id,
+    title: row.title,
+    details: typeof row.details === 'string' ? JSON.parse(row.details) : (row.details ?? {}),
+    status: row.status,
+    firstDetectedAt: new Date(row.first_detected_at).toISOString(),
+    lastDetectedAt: new Date(row.last_detected_at).toISOString(),
+    resolvedAt: toIsoString(row.resolved_at),
+    fixedByUid: row.fixed_by_uid,
+    fixedByEmail: row.fixed_by_email,
+  };
+}
@@ -0,0 +1,146 @@
+import { DuplicateEpisode, EpisodeWatchStatus } from '../types/duplicateEpisodeTypes';
+import { recomputeShowStatuses } from './profileTransferDb';
+import { withTransaction } from './transaction';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { RowDataPacket } from 'mysql2/promise';
+
+interface DuplicateEpisodeRow extends RowDataPacket {
+  id: number;
+  tmdb_id: number | null;
+  season_id: number;
+  season_number: number;
+  episode_number: number;
+  title: string | null;
+  updated_at: Date | null;
+}
+
+interface ShowIdRow extends RowDataPacket {
+  show_id: number;
+}
+
+interface ProfileIdRow extends RowDataPacket {
+  profile_id: number;
+}
+
+interface EpisodeWatchStatusRow extends RowDataPacket {
+  profile_id: number;
+  episode_id: number;
+  status: string;
+}
+
+/**
+ * Check whether a show exists
+ * @param showId - Show id
+ */
+export async function showExists(showId: number): Promise<boolean> {
+  const [rows] = await getDbPool().execute<RowDataPacket[]>('SELECT 1 FROM shows WHERE id = ?', [showId]);
+  return rows.length > 0;
+}
+
+/**
+ * Get every episode of a show that shares its season and episode number with another episode,
+ * ordered by slot
+ * @param showId - Show id
+ */
+export async function getDuplicateEpisodes(showId: number): Promise<DuplicateEpisode[]> {
+  const [rows] = await getDbPool().execute<DuplicateEpisodeRow[]>(
+    `SELECT e.id, e.tmdb_id, e.season_id, e.season_number, e.episode_number, e.title, e.updated_at
+     FROM episodes e
+     JOIN (
+       SELECT season_number, episode_number FROM episodes
+       WHERE show_id = ?
+       GROUP BY season_number, episode_number HAVING COUNT(*) > 1
+     ) duplicates ON duplicates.season_number = e.season_number AND duplicates.episode_number = e.episode_number
+     WHERE e.show_id = ?
+     ORDER BY e.season_number, e.episode_number, e.id`,
+    [showId, showId],
+  );
+  return rows.map(transformDuplicateEpisodeRow);
+}
+
+/**
+ * Get the ids of every show with duplicate episodes
+ */
+export async function getShowIdsWithDuplicateEpisodes(): Promise<number[]> {
+  const [rows] = await getDbPool().execute<ShowIdRow[]>(
+    `SELECT DISTINCT show_id FROM episodes
+     GROUP BY show_id, season_number, episode_number HAVING COUNT(*) > 1
+     ORDER BY show_id`,
+  );
+  return rows.map((row: ShowIdRow) => row.show_id);
+}
+
+/**
+ * Get every profile's watch status for a set of episodes
+ * @param episodeIds - Episode ids
+ */
+export async function getEpisodeWatchStatuses(episodeIds: number[]): Promise<EpisodeWatchStatus[]> {
+  if (episodeIds.length === 0) {
+    return [];
+  }
+  const [rows] = await getDbPool().query<EpisodeWatchStatusRow[]>(
+    'SELECT profile_id, episode_id, status FROM episode_watch_status WHERE episode_id IN (?)',
+    [episodeIds],
+  );
+  return rows.map((row: EpisodeWatchStatusRow) => ({
+    profileId: row.profile_id,
+    episodeId: row.episode_id,
+    status: row.status,
+  }));
+}
+
+/**
+ * Remove duplicate episodes in one transaction: write the migrated watch statuses to the canonical episodes,
+ * delete the duplicates along with their remaining watch statuses and overrides, then recompute the season and
+ * show statuses of every profile watching the show
+ * @param showId - Show the duplicates belong to
+ * @param migrations - Statuses to write, replacing any status the profile has for the episode
+ * @param removedEpisodeIds - Duplicate episodes to delete
+ */
+export async function removeDuplicateEpisodes(
+  showId: number,
+  migrations: EpisodeWatchStatus[],
+  removedEpisodeIds: number[],
+): Promise<void> {
+  if (removedEpisodeIds.length === 0) {
+    return;
+  }
+
+  await withTransaction(async (connection) => {
+    if (migrations.length > 0) {
+      await connection.query(
+        `INSERT INTO episode_watch_status (profile_id, episode_id, status) VALUES ?
+         ON DUPLICATE KEY UPDATE status = VALUES(status)`,
+        [migrations.map((migration) => [migration.profileId, migration.episodeId, migration.status])],
+      );
+    }
+    const [profiles] = await connection.query<ProfileIdRow[]>(
+      `SELECT profile_id FROM show_watch_status WHERE show_id = ?
+       UNION
+       SELECT ews.profile_id FROM episode_watch_status ews JOIN episodes e ON e.id = ews.episode_id WHERE e.show_id = ?`,
+      [showId, showId],
+    );
+
+    await connection.query('DELETE FROM episode_watch_status WHERE episode_id IN (?)', [removedEpisodeIds]);
+    await connection.query(`DELETE FROM admin_content_overrides WHERE content_type = 'episode' AND content_id IN (?)`, [
+      removedEpisodeIds,
+    ]);
+    await connection.query('DELETE FROM episodes WHERE id IN (?)', [removedEpisodeIds]);
+
+    for (const profile of profiles) {
+      await recomputeShowStatuses(connection, profile.profile_id, [showId]);
+    }
+  });
+}
+
+function transformDuplicateEpisodeRow(row: DuplicateEpisodeRow): DuplicateEpisode {
+  return {
+    id: row.id,
+    tmdbId: row.tmdb_id,
+    seasonId: row.season_id,
+    seasonNumber: row.season_number,
+    episodeNumber: row.episode_number,
+    title: row.title,
+    updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+  };
+}
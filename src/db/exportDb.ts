@@ -0,0 +1,179 @@
+import { AdminActor } from '../types/adminTypes';
+import { AccountExport, AccountExportStatus, SentEmail } from '../types/exportTypes';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+interface AccountExportRow extends RowDataPacket {
+  id: string;
+  account_id: number;
+  status: AccountExportStatus;
+  requested_by_uid: string;
+  requested_by_email: string | null;
+  file_path: string | null;
+  size_bytes: number | string | null;
+  error: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+  expires_at: Date | null;
+}
+
+interface SentEmailRow extends RowDataPacket {
+  email_id: number;
+  subject: string;
+  message: string;
+  send_to_all: number;
+  status: string;
+  sent_at: Date | null;
+}
+
+/**
+ * Record a new pending export
+ * @param id - Export id
+ * @param accountId - Account being exported
+ * @param admin - Admin requesting the export
+ */
+export async function createExport(id: string, accountId: number, admin: AdminActor): Promise<void> {
+  await getDbPool().execute(
+    'INSERT INTO admin_account_exports (id, account_id, requested_by_uid, requested_by_email) VALUES (?, ?, ?, ?)',
+    [id, accountId, admin.uid, admin.email],
+  );
+}
+
+/**
+ * Get an export by id
+ * @param id - Export id
+ */
+export async function getExportById(id: string): Promise<AccountExport | null> {
+  const [rows] = await getDbPool().execute<AccountExportRow[]>('SELECT * FROM admin_account_exports WHERE id = ?', [
+    id,
+  ]);
+  return rows.length > 0 ? transformExportRow(rows[0]) : null;
+}
+
+/**
+ * Get every export for an account, newest first
+ * @param accountId - Account id
+ */
+export async function getExportsByAccount(accountId: number): Promise<AccountExport[]> {
+  const [rows] = await getDbPool().execute<AccountExportRow[]>(
+    'SELECT * FROM admin_account_exports WHERE account_id = ? ORDER BY created_at DESC',
+    [accountId],
+  );
+  return rows.map(transformExportRow);
+}
+
+/**
+ * Mark an export as running
+ * @param id - Export id
+ */
+export async function markExportRunning(id: string): Promise<void> {
+  await getDbPool().execute(`UPDATE admin_account_exports SET status = 'running' WHERE id = ?`, [id]);
+}
+
+/**
+ * Mark an export as completed
+ * @param id - Export id
+ * @param filePath - Path of the generated bundle
+ * @param sizeBytes - Size of the generated bundle
+ * @param retentionHours - Hours the bundle stays available for download
+ */
+export async function markExportCompleted(
+  id: string,
+  filePath: string,
+  sizeBytes: number,
+  retentionHours: number,
+): Promise<void> {
+  await getDbPool().execute(
+    `UPDATE admin_account_exports
+     SET status = 'completed', file_path = ?, size_bytes = ?, completed_at = NOW(), expires_at = DATE_ADD(NOW(), INTERVAL ? HOUR)
+     WHERE id = ?`,
+    [filePath, sizeBytes, retentionHours, id],
+  );
+}
+
+/**
+ * Mark an export as failed
+ * @param id - Export id
+ * @param error - Failure reason
+ */
+export async function markExportFailed(id: string, error: string): Promise<void> {
+  await getDbPool().execute(
+    `UPDATE admin_account_exports SET status = 'failed', error = ?, completed_at = NOW() WHERE id = ?`,
+    [error, id],
+  );
+}
+
+/**
+ * Fail exports left pending or running by a previous server process
+ */
+export async function failInterruptedExports(): Promise<number> {
+  const [result] = await getDbPool().execute<ResultSetHeader>(
+    `UPDATE admin_account_exports SET status = 'failed', error = 'Interrupted by server restart', completed_at = NOW()
+     WHERE status IN ('pending', 'running')`,
+  );
+  return result.affectedRows;
+}
+
+/**
+ * Get completed exports whose download window has passed
+ */
+export async function getExpiredExports(): Promise<AccountExport[]> {
+  const [rows] = await getDbPool().execute<AccountExportRow[]>(
+    `SELECT * FROM admin_account_exports WHERE status = 'completed' AND expires_at <= NOW()`,
+  );
+  return rows.map(transformExportRow);
+}
+
+/**
+ * Mark an export as expired once its bundle has been removed
+ * @param id - Export id
+ */
+export async function markExportExpired(id: string): Promise<void> {
+  await getDbPool().execute(`UPDATE admin_account_exports SET status = 'expired', file_path = NULL WHERE id = ?`, [id]);
+}
+
+/**
+ * Get every email sent to an account, including emails sent to all accounts
+ * @param accountId - Account id
+ */
+export async function getEmailsSentToAccount(accountId: number): Promise<SentEmail[]> {
+  const query = `
+    SELECT e.id AS email_id, e.subject, e.message, e.send_to_all, er.status, er.sent_at
+    FROM email_recipients er
+    JOIN emails e ON e.id = er.email_id
+    WHERE er.account_id = ?
+    ORDER BY er.sent_at DESC`;
+  const [rows] = await getDbPool().execute<SentEmailRow[]>(query, [accountId]);
+  return rows.map(transformSentEmailRow);
+}
+
+function toIsoString(value: Date | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function transformExportRow(row: AccountExportRow): AccountExport {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    status: row.status,
+    requestedByUid: row.requested_by_uid,
+    requestedByEmail: row.requested_by_email,
+    filePath: row.file_path,
+    sizeBytes: row.size_bytes === null ? null : Number(row.size_bytes),
+    error: row.error,
+    createdAt: new Date(row.created_at).toISOString(),
+    completedAt: toIsoString(row.completed_at),
+    expiresAt: toIsoString(row.expires_at),
+  };
+}
+
+function transformSentEmailRow(row: SentEmailRow): SentEmail {
+  return {
+    emailId: row.email_id,
+    subject: row.subject,
+    message: row.message,
+    sendToAll: Boolean(row.send_to_all),
+    status: row.status,
+    sentAt: toIsoString(row.sent_at),
+  };
+}
@@ -0,0 +1,105 @@
+import { AdminActor } from '../types/adminTypes';
+import { ImpersonationSession } from '../types/impersonationTypes';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+interface ImpersonationSessionRow extends RowDataPacket {
+  id: string;
+  account_id: number;
+  account_uid: string;
+  impersonated_by_uid: string;
+  impersonated_by_email: string | null;
+  reason: string | null;
+  created_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+  revoked_by_uid: string | null;
+  is_expired: number;
+}
+
+// Status is derived in SQL so expiry uses the database clock, the same one that set expires_at
+const SESSION_COLUMNS = '*, expires_at <= NOW() AS is_expired';
+
+/**
+ * Record a new impersonation session
+ * @param id - Session id
+ * @param accountId - Account being impersonated
+ * @param accountUid - Firebase uid of the account's user
+ * @param admin - Admin impersonating the user
+ * @param reason - Why the admin is impersonating the user
+ * @param ttlMinutes - Minutes until the session expires
+ */
+export async function createSession(
+  id: string,
+  accountId: number,
+  accountUid: string,
+  admin: AdminActor,
+  reason: string | null,
+  ttlMinutes: number,
+): Promise<void> {
+  await getDbPool().execute(
+    `INSERT INTO admin_impersonation_sessions
+       (id, account_id, account_uid, impersonated_by_uid, impersonated_by_email, reason, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE))`,
+    [id, accountId, accountUid, admin.uid, admin.email, reason, ttlMinutes],
+  );
+}
+
+/**
+ * Get an impersonation session by id
+ * @param id - Session id
+ */
+export async function getSessionById(id: string): Promise<ImpersonationSession | null> {
+  const [rows] = await getDbPool().execute<ImpersonationSessionRow[]>(
+    `SELECT ${SESSION_COLUMNS} FROM admin_impersonation_sessions WHERE id = ?`,
+    [id],
+  );
+  return rows.length > 0 ? transformSessionRow(rows[0]) : null;
+}
+
+/**
+ * Get an account's impersonation sessions, newest first
+ * @param accountId - Account id
+ */
+export async function getSessionsByAccount(accountId: number): Promise<ImpersonationSession[]> {
+  const [rows] = await getDbPool().execute<ImpersonationSessionRow[]>(
+    `SELECT ${SESSION_COLUMNS} FROM admin_impersonation_sessions WHERE account_id = ? ORDER BY created_at DESC`,
+    [accountId],
+  );
+  return rows.map(transformSessionRow);
+}
+
+/**
+ * Revoke a session if it is still active
+ * @param id - Session id
+ * @param admin - Admin revoking the session
+ * @returns true if the session was revoked, false if it had already expired or been revoked
+ */
+export async function revokeSession(id: string, admin: AdminActor): Promise<boolean> {
+  const [result] = await getDbPool().execute<ResultSetHeader>(
+    `UPDATE admin_impersonation_sessions SET revoked_at = NOW(), revoked_by_uid = ?
+     WHERE id = ? AND revoked_at IS NULL AND expires_at > NOW()`,
+    [admin.uid, id],
+  );
+  return result.affectedRows > 0;
+}
+
+function toIsoString(value: Date | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function transformSessionRow(row: ImpersonationSessionRow): ImpersonationSession {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    accountUid: row.account_uid,
+    impersonatedByUid: row.impersonated_by_uid,
+    impersonatedByEmail: row.impersonated_by_email,
+    reason: row.reason,
+    status: row.revoked_at ? 'revoked' : row.is_expired ? 'expired' : 'active',
+    createdAt: new Date(row.created_at).toISOString(),
+    expiresAt: new Date(row.expires_at).toISOString(),
+    revokedAt: toIsoString(row.revoked_at),
+    revokedByUid: row.revoked_by_uid,
+  };
+}
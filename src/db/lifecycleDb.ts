@@ -0,0 +1,217 @@
+import {
+  AccountLifecycle,
+  AccountLifecycleEvaluation,
+  LifecycleFilters,
+  LifecycleStage,
+  ReengagementStage,
+} from '../types/lifecycleTypes';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+interface AccountLifecycleRow extends RowDataPacket {
+  account_id: number;
+  stage: LifecycleStage;
+  last_activity_at: Date | null;
+  inactive_days: number | null;
+  abandonment_rate: number | string | null;
+  stage_changed_at: Date;
+  reengagement_stage: ReengagementStage | null;
+  reengagement_sent_at: Date | null;
+  deletion_review_flagged_at: Date | null;
+  evaluated_at: Date;
+}
+
+interface LastActivityRow extends RowDataPacket {
+  account_id: number;
+  last_activity_at: Date | null;
+}
+
+interface StageCountRow extends RowDataPacket {
+  stage: LifecycleStage;
+  total: number | string;
+  flagged: number | string | null;
+}
+
+interface CountRow extends RowDataPacket {
+  total: number;
+}
+
+/**
+ * Get the most recent watch status change of every account with watch activity, keyed by account id
+ */
+export async function getLastWatchActivity(): Promise<Map<number, Date>> {
+  const query = `
+    SELECT p.account_id, MAX(activity.updated_at) AS last_activity_at
+    FROM profiles p
+    JOIN (
+      SELECT profile_id, MAX(updated_at) AS updated_at FROM episode_watch_status GROUP BY profile_id
+      UNION ALL
+      SELECT profile_id, MAX(updated_at) AS updated_at FROM movie_watch_status GROUP BY profile_id
+    ) activity ON activity.profile_id = p.profile_id
+    GROUP BY p.account_id`;
+  const [rows] = await getDbPool().execute<LastActivityRow[]>(query);
+  return new Map(
+    rows
+      .filter((row: LastActivityRow) => row.last_activity_at !== null)
+      .map((row: LastActivityRow) => [row.account_id, new Date(row.last_activity_at as Date)]),
+  );
+}
+
+/**
+ * Get the stored lifecycle state of every account, keyed by account id
+ */
+export async function getLifecycleRecords(): Promise<Map<number, AccountLifecycle>> {
+  const [rows] = await getDbPool().execute<AccountLifecycleRow[]>('SELECT * FROM admin_account_lifecycle');
+  return new Map(rows.map((row: AccountLifecycleRow) => [row.account_id, transformLifecycleRow(row)]));
+}
+
+/**
+ * Store the result of evaluating an account. The stage change time only moves when the stage changes,
+ * the re-engagement history is cleared when the account becomes active again, and the deletion review
+ * flag keeps the time it was first raised.
+ * @param evaluation - Lifecycle evaluation of the account
+ */
+export async function saveEvaluation(evaluation: AccountLifecycleEvaluation): Promise<void> {
+  // Assignments run left to right, so stage_changed_at is compared against the previous stage
+  const query = `
+    INSERT INTO admin_account_lifecycle
+      (account_id, stage, last_activity_at, inactive_days, abandonment_rate, deletion_review_flagged_at, evaluated_at)
+    VALUES (?, ?, ?, ?, ?, IF(?, NOW(), NULL), NOW())
+    ON DUPLICATE KEY UPDATE
+      stage_changed_at = IF(stage = VALUES(stage), stage_changed_at, NOW()),
+      reengagement_stage = IF(VALUES(stage) = 'active', NULL, reengagement_stage),
+      reengagement_sent_at = IF(VALUES(stage) = 'active', NULL, reengagement_sent_at),
+      stage = VALUES(stage),
+      last_activity_at = VALUES(last_activity_at),
+      inactive_days = VALUES(inactive_days),
+      abandonment_rate = VALUES(abandonment_rate),
+      deletion_review_flagged_at = IF(VALUES(deletion_review_flagged_at) IS NULL, NULL, COALESCE(deletion_review_flagged_at, NOW())),
+      evaluated_at = NOW()`;
+  await getDbPool().execute(query, [
+    evaluation.accountId,
+    evaluation.stage,
+    evaluation.lastActivityAt ? new Date(evaluation.lastActivityAt) : null,
+    evaluation.inactiveDays,
+    evaluation.abandonmentRate,
+    evaluation.flagForDeletionReview,
+  ]);
+}
+
+/**
+ * Record that accounts were sent the re-engagement email for a stage
+ * @param accountIds - Accounts emailed
+ * @param stage - Stage the email was sent for
+ */
+export async function markReengagementSent(accountIds: number[], stage: ReengagementStage): Promise<void> {
+  if (accountIds.length === 0) {
+    return;
+  }
+
+  await getDbPool().query(
+    'UPDATE admin_account_lifecycle SET reengagement_stage = ?, reengagement_sent_at = NOW() WHERE account_id IN (?)',
+    [stage, accountIds],
+  );
+}
+
+/**
+ * Remove the lifecycle state of accounts that no longer exist or are in the trash
+ * @param accountIds - Accounts that were evaluated and should be kept
+ * @returns Number of records removed
+ */
+export async function removeStaleRecords(accountIds: number[]): Promise<number> {
+  const [result] =
+    accountIds.length > 0
+      ? await getDbPool().query<ResultSetHeader>('DELETE FROM admin_account_lifecycle WHERE account_id NOT IN (?)', [
+          accountIds,
+        ])
+      : await getDbPool().query<ResultSetHeader>('DELETE FROM admin_account_lifecycle');
+  return result.affectedRows;
+}
+
+/**
+ * Get a page of account lifecycle records, longest inactive first
+ * @param filters - Lifecycle filters
+ * @param limit - Page size
+ * @param offset - Number of records to skip
+ */
+export async function getLifecycleEntries(
+  filters: LifecycleFilters,
+  limit: number,
+  offset: number,
+): Promise<AccountLifecycle[]> {
+  const { where, values } = buildWhereClause(filters);
+  const [rows] = await getDbPool().query<AccountLifecycleRow[]>(
+    `SELECT * FROM admin_account_lifecycle ${where}
+     ORDER BY inactive_days IS NULL, inactive_days DESC, account_id LIMIT ? OFFSET ?`,
+    [...values, limit, offset],
+  );
+  return rows.map(transformLifecycleRow);
+}
+
+/**
+ * Count the account lifecycle records matching the filters
+ * @param filters - Lifecycle filters
+ */
+export async function getLifecycleEntryCount(filters: LifecycleFilters): Promise<number> {
+  const { where, values } = buildWhereClause(filters);
+  const [rows] = await getDbPool().query<CountRow[]>(
+    `SELECT COUNT(*) AS total FROM admin_account_lifecycle ${where}`,
+    values,
+  );
+  return Number(rows[0]?.total ?? 0);
+}
+
+/**
+ * Count the accounts in each lifecycle stage, and how many of them are flagged for deletion review
+ */
+export async function getStageCounts(): Promise<
+  { stage: LifecycleStage; count: number; flaggedForDeletionReview: number }[]
+> {
+  const [rows] = await getDbPool().execute<StageCountRow[]>(
+    `SELECT stage, COUNT(*) AS total, SUM(deletion_review_flagged_at IS NOT NULL) AS flagged
+     FROM admin_account_lifecycle GROUP BY stage`,
+  );
+  return rows.map((row: StageCountRow) => ({
+    stage: row.stage,
+    count: Number(row.total),
+    flaggedForDeletionReview: Number(row.flagged ?? 0),
+  }));
+}
+
+function buildWhereClause(filters: LifecycleFilters): { where: string; values: (string | number)[] } {
+  const conditions: string[] = [];
+  const values: (string | number)[] = [];
+
+  if (filters.stage) {
+    conditions.push('stage = ?');
+    values.push(filters.stage);
+  }
+  if (filters.flaggedForDeletionReview !== undefined) {
+    conditions.push(
+      filters.flaggedForDeletionReview
+        ? 'deletion_review_flagged_at IS NOT NULL'
+        : 'deletion_review_flagged_at IS NULL',
+    );
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', values };
+}
+
+function toIsoString(value: Date | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function transformLifecycleRow(row: AccountLifecycleRow): AccountLifecycle {
+  return {
+    accountId: row.account_id,
+    stage: row.stage,
+    lastActivityAt: toIsoString(row.last_activity_at),
+    inactiveDays: row.inactive_days,
+    abandonmentRate: row.abandonment_rate === null ? null : Number(row.abandonment_rate),
+    stageChangedAt: new Date(row.stage_changed_at).toISOString(),
+    reengagementStage: row.reengagement_stage,
+    reengagementSentAt: toIsoString(row.reengagement_sent_at),
+    deletionReviewFlaggedAt: toIsoString(row.deletion_review_flagged_at),
+    evaluatedAt: new Date(row.evaluated_at).toISOString(),
+  };
+}
@@ -0,0 +1,415 @@
+import {
+  CreateOrphanCleanupRun,
+  ORPHAN_TYPES,
+  OrphanCleanupMode,
+  OrphanCleanupRun,
+  OrphanCounts,
+  OrphanFilters,
+  OrphanType,
+  OrphanedContent,
+} from '../types/orphanTypes';
+import { withTransaction } from './transaction';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+const BATCH_SIZE = 500;
+// Days after an admin import during which a show or movie is never an orphan
+const IMPORT_GRACE_DAYS = 90;
+
+// Shows and movies that are unreleased, or were imported recently, are kept for the profiles they were added for
+const RELEASED_AND_SETTLED = `c.release_date <= CURDATE()
+  AND (c.imported_at IS NULL OR c.imported_at < NOW() - INTERVAL ${IMPORT_GRACE_DAYS} DAY)`;
+
+// How each kind of orphan is found; `c` is the content table's alias
+const ORPHAN_SOURCES: Record<OrphanType, { table: string; title: string; archivedAt: string; condition: string }> = {
+  show: {
+    table: 'shows',
+    title: 'c.title',
+    archivedAt: 'c.archived_at',
+    condition: `NOT EXISTS (SELECT 1 FROM show_watch_status ws WHERE ws.show_id = c.id) AND ${RELEASED_AND_SETTLED}`,
+  },
+  movie: {
+    table: 'movies',
+    title: 'c.title',
+    archivedAt: 'c.archived_at',
+    condition: `NOT EXISTS (SELECT 1 FROM movie_watch_status ws WHERE ws.movie_id = c.id) AND ${RELEASED_AND_SETTLED}`,
+  },
+  season: {
+    table: 'seasons',
+    title: "COALESCE(c.name, CONCAT('Season ', c.season_number))",
+    archivedAt: 'NULL',
+    condition: 'NOT EXISTS (SELECT 1 FROM shows s WHERE s.id = c.show_id)',
+  },
+  episode: {
+    table: 'episodes',
+    title: "COALESCE(c.title, CONCAT('S', c.season_number, 'E', c.episode_number))",
+    archivedAt: 'NULL',
+    condition:
+      '(NOT EXISTS (SELECT 1 FROM shows s WHERE s.id = c.show_id) OR NOT EXISTS (SELECT 1 FROM seasons se WHERE se.id = c.season_id))',
+  },
+  person: {
+    table: 'people',
+    title: 'c.name',
+    archivedAt: 'NULL',
+    condition:
+      'NOT EXISTS (SELECT 1 FROM show_cast sc WHERE sc.person_id = c.id) AND NOT EXISTS (SELECT 1 FROM movie_cast mc WHERE mc.person_id = c.id)',
+  },
+};
+
+// Rows removed with each kind of orphan, children first. The content's own overrides are removed afterwards.
+const REMOVAL_STATEMENTS: Record<OrphanType, string[]> = {
+  show: [
+    `DELETE FROM admin_content_overrides
+     WHERE content_type = 'episode' AND content_id IN (SELECT id FROM episodes WHERE show_id IN (?))`,
+    'DELETE FROM episode_watch_status WHERE episode_id IN (SELECT id FROM episodes WHERE show_id IN (?))',
+    'DELETE FROM season_watch_status WHERE season_id IN (SELECT id FROM seasons WHERE show_id IN (?))',
+    'DELETE FROM episodes WHERE show_id IN (?)',
+    'DELETE FROM seasons WHERE show_id IN (?)',
+    'DELETE FROM show_cast WHERE show_id IN (?)',
+    'DELETE FROM show_genres WHERE show_id IN (?)',
+    'DELETE FROM show_services WHERE show_id IN (?)',
+    'DELETE FROM shows WHERE id IN (?)',
+  ],
+  movie: [
+    'DELETE FROM movie_cast WHERE movie_id IN (?)',
+    'DELETE FROM movie_genres WHERE movie_id IN (?)',
+    'DELETE FROM movie_services WHERE movie_id IN (?)',
+    'DELETE FROM movies WHERE id IN (?)',
+  ],
+  season: [
+    `DELETE FROM admin_content_overrides
+     WHERE content_type = 'episode' AND content_id IN (SELECT id FROM episodes WHERE season_id IN (?))`,
+    'DELETE FROM episode_watch_status WHERE episode_id IN (SELECT id FROM episodes WHERE season_id IN (?))',
+    'DELETE FROM episodes WHERE season_id IN (?)',
+    'DELETE FROM season_watch_status WHERE season_id IN (?)',
+    'DELETE FROM seasons WHERE id IN (?)',
+  ],
+  episode: ['DELETE FROM episode_watch_status WHERE episode_id IN (?)', 'DELETE FROM episodes WHERE id IN (?)'],
+  person: ['DELETE FROM people WHERE id IN (?)'],
+};
+
+interface OrphanRow extends RowDataPacket {
+  content_type: OrphanType;
+  content_id: number;
+  title: string;
+  archived_at: Date | null;
+  first_detected_at: Date | null;
+}
+
+interface OrphanCountRow extends RowDataPacket {
+  content_type: OrphanType;
+  total: number | string;
+}
+
+interface TrackedOrphanRow extends RowDataPacket {
+  content_type: OrphanType;
+  content_id: number;
+  first_detected_at: Date;
+}
+
+interface ContentIdRow extends RowDataPacket {
+  id: number;
+}
+
+interface CleanupRunRow extends RowDataPacket {
+  id: number;
+  mode: OrphanCleanupMode;
+  dry_run: number | boolean;
+  grace_days: number;
+  detected: string | OrphanCounts;
+  actioned: string | OrphanCounts;
+  items: string | OrphanCleanupRun['items'];
+  unarchived: number;
+  triggered_by_uid: string | null;
+  triggered_by_email: string | null;
+  started_at: Date;
+  finished_at: Date;
+}
+
+interface CountRow extends RowDataPacket {
+  total: number;
+}
+
+/**
+ * Find every orphan, with when a cleanup run first saw it
+ */
+export async function findOrphans(): Promise<OrphanedContent[]> {
+  const [rows] = await getDbPool().query<OrphanRow[]>(
+    `${selectOrphans(ORPHAN_TYPES)} ORDER BY o.content_type, o.content_id`,
+  );
+  return rows.map(transformOrphanRow);
+}
+
+/**
+ * Get a page of orphans
+ * @param filters - Orphan filters
+ * @param limit - Page size
+ * @param offset - Number of orphans to skip
+ */
+export async function getOrphans(filters: OrphanFilters, limit: number, offset: number): Promise<OrphanedContent[]> {
+  const [rows] = await getDbPool().query<OrphanRow[]>(
+    `${selectOrphans(filters.contentType ? [filters.contentType] : ORPHAN_TYPES)}
+     ORDER BY o.content_type, o.content_id LIMIT ? OFFSET ?`,
+    [limit, offset],
+  );
+  return rows.map(transformOrphanRow);
+}
+
+/**
+ * Count the orphans of each type
+ */
+export async function getOrphanCounts(): Promise<OrphanCounts> {
+  const [rows] = await getDbPool().query<OrphanCountRow[]>(
+    `SELECT content_type, COUNT(*) AS total FROM (${orphanUnion(ORPHAN_TYPES)}) o GROUP BY content_type`,
+  );
+  const counts = Object.fromEntries(ORPHAN_TYPES.map((contentType) => [contentType, 0])) as OrphanCounts;
+  rows.forEach((row: OrphanCountRow) => {
+    counts[row.content_type] = Number(row.total);
+  });
+  return counts;
+}
+
+/**
+ * Record when each orphan was first seen and forget content that is no longer orphaned
+ * @param orphans - Every orphan found by the current run
+ * @returns The orphans with `orphanedSince` set, new orphans as of now
+ */
+export async function trackOrphans(orphans: OrphanedContent[]): Promise<OrphanedContent[]> {
+  return withTransaction(async (connection) => {
+    const [trackedRows] = await connection.execute<TrackedOrphanRow[]>(
+      'SELECT content_type, content_id, first_detected_at FROM admin_content_orphans FOR UPDATE',
+    );
+    const tracked = new Map(
+      trackedRows.map((row: TrackedOrphanRow) => [orphanKey(row.content_type, row.content_id), row.first_detected_at]),
+    );
+
+    const now = new Date();
+    const untracked = orphans.filter((orphan) => !tracked.has(orphanKey(orphan.contentType, orphan.contentId)));
+    for (let start = 0; start < untracked.length; start += BATCH_SIZE) {
+      const batch = untracked.slice(start, start + BATCH_SIZE);
+      await connection.query(
+        'INSERT INTO admin_content_orphans (content_type, content_id, title, first_detected_at) VALUES ?',
+        [batch.map((orphan) => [orphan.contentType, orphan.contentId, orphan.title.slice(0, 255), now])],
+      );
+    }
+
+    const result = orphans.map((orphan) => {
+      const key = orphanKey(orphan.contentType, orphan.contentId);
+      const firstDetectedAt = tracked.get(key) ?? now;
+      tracked.delete(key);
+      return { ...orphan, orphanedSince: new Date(firstDetectedAt).toISOString() };
+    });
+
+    // Whatever is left in tracked wasn't detected again
+    for (const contentType of ORPHAN_TYPES) {
+      const staleIds = [...tracked.keys()]
+        .filter((key) => key.startsWith(`${contentType}:`))
+        .map((key) => Number(key.slice(contentType.length + 1)));
+      for (let start = 0; start < staleIds.length; start += BATCH_SIZE) {
+        await connection.query('DELETE FROM admin_content_orphans WHERE content_type = ? AND content_id IN (?)', [
+          contentType,
+          staleIds.slice(start, start + BATCH_SIZE),
+        ]);
+      }
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Archive shows or movies that are still orphaned
+ * @param contentType - 'show' or 'movie'
+ * @param ids - Content ids
+ * @returns The ids archived
+ */
+export async function archiveContent(contentType: 'show' | 'movie', ids: number[]): Promise<number[]> {
+  const source = ORPHAN_SOURCES[contentType];
+  const archived: number[] = [];
+
+  for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+    const batch = ids.slice(start, start + BATCH_SIZE);
+    await withTransaction(async (connection) => {
+      const [rows] = await connection.query<ContentIdRow[]>(
+        `SELECT c.id FROM ${source.table} c WHERE c.id IN (?) AND c.archived_at IS NULL AND ${source.condition}
+         FOR UPDATE`,
+        [batch],
+      );
+      const archivable = rows.map((row: ContentIdRow) => row.id);
+      if (archivable.length > 0) {
+        await connection.query(`UPDATE ${source.table} SET archived_at = NOW() WHERE id IN (?)`, [archivable]);
+      }
+      archived.push(...archivable);
+    });
+  }
+
+  return archived;
+}
+
+/**
+ * Permanently delete orphans of one type that are still orphaned, along with their dependent rows and overrides
+ * @param contentType - Orphan type
+ * @param ids - Content ids
+ * @returns The ids removed
+ */
+export async function removeContent(contentType: OrphanType, ids: number[]): Promise<number[]> {
+  const source = ORPHAN_SOURCES[contentType];
+  const removed: number[] = [];
+
+  for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+    const batch = ids.slice(start, start + BATCH_SIZE);
+    await withTransaction(async (connection) => {
+      const [rows] = await connection.query<ContentIdRow[]>(
+        `SELECT c.id FROM ${source.table} c WHERE c.id IN (?) AND ${source.condition} FOR UPDATE`,
+        [batch],
+      );
+      const removable = rows.map((row: ContentIdRow) => row.id);
+      if (removable.length === 0) {
+        return;
+      }
+
+      for (const statement of REMOVAL_STATEMENTS[contentType]) {
+        await connection.query(statement, [removable]);
+      }
+      await connection.query('DELETE FROM admin_content_overrides WHERE content_type = ? AND content_id IN (?)', [
+        contentType,
+        removable,
+      ]);
+      await connection.query('DELETE FROM admin_content_orphans WHERE content_type = ? AND content_id IN (?)', [
+        contentType,
+        removable,
+      ]);
+      removed.push(...removable);
+    });
+  }
+
+  return removed;
+}
+
+/**
+ * Clear the archive flag of archived shows and movies a profile watches again
+ * @returns The number of shows and movies unarchived
+ */
+export async function unarchiveWatchedContent(): Promise<number> {
+  let unarchived = 0;
+  for (const contentType of ['show', 'movie'] as const) {
+    const source = ORPHAN_SOURCES[contentType];
+    const [result] = await getDbPool().execute<ResultSetHeader>(
+      `UPDATE ${source.table} c SET c.archived_at = NULL WHERE c.archived_at IS NOT NULL AND NOT (${source.condition})`,
+    );
+    unarchived += result.affectedRows;
+  }
+  return unarchived;
+}
+
+/**
+ * Record a cleanup run
+ * @param run - The finished run
+ * @returns The run id
+ */
+export async function saveCleanupRun(run: CreateOrphanCleanupRun): Promise<number> {
+  const [result] = await getDbPool().execute<ResultSetHeader>(
+    `INSERT INTO admin_orphan_cleanup_runs
+       (mode, dry_run, grace_days, detected, actioned, items, unarchived, triggered_by_uid, triggered_by_email, started_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      run.mode,
+      run.dryRun,
+      run.graceDays,
+      JSON.stringify(run.detected),
+      JSON.stringify(run.actioned),
+      JSON.stringify(run.items),
+      run.unarchived,
+      run.triggeredBy?.uid ?? null,
+      run.triggeredBy?.email ?? null,
+      new Date(run.startedAt),
+    ],
+  );
+  return result.insertId;
+}
+
+/**
+ * Get a page of cleanup runs, newest first
+ * @param limit - Page size
+ * @param offset - Number of runs to skip
+ */
+export async function getCleanupRuns(limit: number, offset: number): Promise<OrphanCleanupRun[]> {
+  const [rows] = await getDbPool().query<CleanupRunRow[]>(
+    'SELECT * FROM admin_orphan_cleanup_runs ORDER BY started_at DESC, id DESC LIMIT ? OFFSET ?',
+    [limit, offset],
+  );
+  return rows.map(transformCleanupRunRow);
+}
+
+/**
+ * Count the cleanup runs
+ */
+export async function getCleanupRunCount(): Promise<number> {
+  const [rows] = await getDbPool().query<CountRow[]>('SELECT COUNT(*) AS total FROM admin_orphan_cleanup_runs');
+  return Number(rows[0]?.total ?? 0);
+}
+
+/**
+ * Get a single cleanup run
+ * @param id - Run id
+ */
+export async function getCleanupRunById(id: number): Promise<OrphanCleanupRun | null> {
+  const [rows] = await getDbPool().execute<CleanupRunRow[]>('SELECT * FROM admin_orphan_cleanup_runs WHERE id = ?', [
+    id,
+  ]);
+  return rows.length > 0 ? transformCleanupRunRow(rows[0]) : null;
+}
+
+function orphanUnion(types: readonly OrphanType[]): string {
+  return types
+    .map((contentType) => {
+      const source = ORPHAN_SOURCES[contentType];
+      return `SELECT '${contentType}' AS content_type, c.id AS content_id, ${source.title} AS title,
+        ${source.archivedAt} AS archived_at FROM ${source.table} c WHERE ${source.condition}`;
+    })
+    .join(' UNION ALL ');
+}
+
+function selectOrphans(types: readonly OrphanType[]): string {
+  return `SELECT o.content_type, o.content_id, o.title, o.archived_at, t.first_detected_at
+    FROM (${orphanUnion(types)}) o
+    LEFT JOIN admin_content_orphans t ON t.content_type = o.content_type AND t.content_id = o.content_id`;
+}
+
+function orphanKey(contentType: OrphanType, contentId: number): string {
+  return `${contentType}:${contentId}`;
+}
+
+function toIsoString(value: Date | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function parseJson<T>(value: string | T): T {
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+function transformOrphanRow(row: OrphanRow): OrphanedContent {
+  return {
+    contentType: row.content_type,
+    contentId: row.content_id,
+    title: row.title,
+    orphanedSince: toIsoString(row.first_detected_at),
+    archivedAt: toIsoString(row.archived_at),
+  };
+}
+
+function transformCleanupRunRow(row: CleanupRunRow): OrphanCleanupRun {
+  return {
+    id: row.id,
+    mode: row.mode,
+    dryRun: Boolean(row.dry_run),
+    graceDays: row.grace_days,
+    detected: parseJson(row.detected),
+    actioned: parseJson(row.actioned),
+    items: parseJson(row.items),
+    unarchived: row.unarchived,
+    triggeredBy: row.triggered_by_uid ? { uid: row.triggered_by_uid, email: row.triggered_by_email } : null,
+    startedAt: new Date(row.started_at).toISOString(),
+    finishedAt: new Date(row.finished_at).toISOString(),
+  };
+}
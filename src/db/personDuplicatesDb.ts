@@ -0,0 +1,300 @@
+import { AdminActor } from '../types/adminTypes';
+import {
+  DuplicatePersonCandidate,
+  PersonDuplicateReason,
+  PersonDuplicateSuggestion,
+} from '../types/personDuplicateTypes';
+import { withTransaction } from './transaction';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { RowDataPacket } from 'mysql2/promise';
+
+const BATCH_SIZE = 500;
+
+interface PersonNameRow extends RowDataPacket {
+  id: number;
+  name: string;
+}
+
+interface PersonPairRow extends RowDataPacket {
+  person_id: number;
+  other_person_id: number;
+}
+
+interface CandidateRow extends RowDataPacket {
+  id: number;
+  tmdb_id: number;
+  name: string;
+  birthday: string | null;
+  profile_image: string | null;
+  show_credits: number | string;
+  movie_credits: number | string;
+}
+
+interface CreditRow extends RowDataPacket {
+  person_id: number;
+  credit: string;
+}
+
+interface PersonIdRow extends RowDataPacket {
+  id: number;
+}
+
+interface SuggestionRow extends RowDataPacket {
+  source_person_id: number;
+  target_person_id: number;
+  confidence: number | string;
+  reasons: string | PersonDuplicateReason[];
+  shared_credits: number;
+}
+
+interface CountRow extends RowDataPacket {
+  total: number | string;
+}
+
+/**
+ * A stored duplicate suggestion, without the details of the two people
+ */
+export interface StoredPersonDuplicateSuggestion {
+  sourcePersonId: number;
+  targetPersonId: number;
+  confidence: number;
+  reasons: PersonDuplicateReason[];
+  sharedCredits: number;
+}
+
+// Suggestions whose people both still exist and that haven't been rejected since the last scan
+const CURRENT_SUGGESTIONS = `admin_person_duplicate_suggestions s
+  JOIN people p ON p.id = s.person_id
+  JOIN people o ON o.id = s.other_person_id
+  WHERE NOT EXISTS (SELECT 1 FROM admin_person_duplicate_rejections r
+                    WHERE r.person_id = s.person_id AND r.other_person_id = s.other_person_id)`;
+
+/**
+ * Get the id and name of every person
+ */
+export async function getPersonNames(): Promise<{ id: number; name: string }[]> {
+  const [rows] = await getDbPool().query<PersonNameRow[]>('SELECT id, name FROM people');
+  return rows.map((row: PersonNameRow) => ({ id: row.id, name: row.name }));
+}
+
+/**
+ * Find pairs of people born on the same day who share a show or movie credit
+ * @returns Pairs of person ids, lower id first
+ */
+export async function getSameBirthdayPairsWithSharedCredits(): Promise<[number, number][]> {
+  const [rows] = await getDbPool().query<PersonPairRow[]>(
+    `SELECT a.id AS person_id, b.id AS other_person_id
+     FROM people a
+     JOIN people b ON b.birthdate = a.birthdate AND b.id > a.id
+     WHERE a.birthdate IS NOT NULL
+       AND (EXISTS (SELECT 1 FROM show_cast sa JOIN show_cast sb ON sb.show_id = sa.show_id
+                    WHERE sa.person_id = a.id AND sb.person_id = b.id)
+         OR EXISTS (SELECT 1 FROM movie_cast ma JOIN movie_cast mb ON mb.movie_id = ma.movie_id
+                    WHERE ma.person_id = a.id AND mb.person_id = b.id))`,
+  );
+  return rows.map((row: PersonPairRow) => [row.person_id, row.other_person_id]);
+}
+
+/**
+ * Get people with their birthday and number of credits
+ * @param ids - Person ids
+ */
+export async function getCandidates(ids: number[]): Promise<DuplicatePersonCandidate[]> {
+  const candidates: DuplicatePersonCandidate[] = [];
+  for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+    const [rows] = await getDbPool().query<CandidateRow[]>(
+      `SELECT p.id, p.tmdb_id, p.name, CAST(p.birthdate AS CHAR) AS birthday, p.profile_image,
+         (SELECT COUNT(DISTINCT sc.show_id) FROM show_cast sc WHERE sc.person_id = p.id) AS show_credits,
+         (SELECT COUNT(DISTINCT mc.movie_id) FROM movie_cast mc WHERE mc.person_id = p.id) AS movie_credits
+       FROM people p WHERE p.id IN (?)`,
+      [ids.slice(start, start + BATCH_SIZE)],
+    );
+    candidates.push(...rows.map(transformCandidateRow));
+  }
+  return candidates;
+}
+
+/**
+ * Get the shows and movies each person is credited in
+ * @param ids - Person ids
+ * @returns Credits keyed by person id, as 'show:<id>' or 'movie:<id>'
+ */
+export async function getCredits(ids: number[]): Promise<Map<number, Set<string>>> {
+  const credits = new Map<number, Set<string>>();
+  for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+    const batch = ids.slice(start, start + BATCH_SIZE);
+    const [rows] = await getDbPool().query<CreditRow[]>(
+      `SELECT person_id, CONCAT('show:', show_id) AS credit FROM show_cast WHERE person_id IN (?)
+       UNION
+       SELECT person_id, CONCAT('movie:', movie_id) AS credit FROM movie_cast WHERE person_id IN (?)`,
+      [batch, batch],
+    );
+    rows.forEach((row: CreditRow) => {
+      const personCredits = credits.get(row.person_id) ?? new Set<string>();
+      personCredits.add(row.credit);
+      credits.set(row.person_id, personCredits);
+    });
+  }
+  return credits;
+}
+
+/**
+ * Get every rejected pair
+ * @returns Pairs of person ids, lower id first
+ */
+export async function getRejectedPairs(): Promise<[number, number][]> {
+  const [rows] = await getDbPool().query<PersonPairRow[]>(
+    'SELECT person_id, other_person_id FROM admin_person_duplicate_rejections',
+  );
+  return rows.map((row: PersonPairRow) => [row.person_id, row.other_person_id]);
+}
+
+/**
+ * Remember that two people are not duplicates. Rejecting a pair again replaces the notes.
+ * @param personId - One person of the pair
+ * @param otherPersonId - The other person
+ * @param notes - Why the pair was rejected
+ * @param admin - Admin rejecting the pair
+ */
+export async function saveRejection(
+  personId: number,
+  otherPersonId: number,
+  notes: string | null,
+  admin: AdminActor,
+): Promise<void> {
+  await getDbPool().execute(
+    `INSERT INTO admin_person_duplicate_rejections (person_id, other_person_id, notes, rejected_by_uid, rejected_by_email)
+     VALUES (?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE notes = VALUES(notes), rejected_at = CURRENT_TIMESTAMP,
+       rejected_by_uid = VALUES(rejected_by_uid), rejected_by_email = VALUES(rejected_by_email)`,
+    [Math.min(personId, otherPersonId), Math.max(personId, otherPersonId), notes, admin.uid, admin.email],
+  );
+}
+
+/**
+ * Forget every rejection involving a person, e.g. once they have been merged away
+ * @param personId - Person id
+ */
+export async function deleteRejections(personId: number): Promise<void> {
+  await getDbPool().execute(
+    'DELETE FROM admin_person_duplicate_rejections WHERE person_id = ? OR other_person_id = ?',
+    [personId, personId],
+  );
+}
+
+/**
+ * Get which of the given people exist
+ * @param ids - Person ids
+ */
+export async function getExistingPersonIds(ids: number[]): Promise<number[]> {
+  const [rows] = await getDbPool().query<PersonIdRow[]>('SELECT id FROM people WHERE id IN (?)', [ids]);
+  return rows.map((row: PersonIdRow) => row.id);
+}
+
+/**
+ * Replace the stored suggestions with the findings of a scan
+ * @param suggestions - Every suggestion found by the scan
+ */
+export async function replaceSuggestions(suggestions: PersonDuplicateSuggestion[]): Promise<void> {
+  await withTransaction(async (connection) => {
+    await connection.query('DELETE FROM admin_person_duplicate_suggestions');
+    for (let start = 0; start < suggestions.length; start += BATCH_SIZE) {
+      const batch = suggestions.slice(start, start + BATCH_SIZE);
+      await connection.query(
+        `INSERT INTO admin_person_duplicate_suggestions
+           (person_id, other_person_id, source_person_id, target_person_id, confidence, reasons, shared_credits)
+         VALUES ?`,
+        [
+          batch.map((suggestion) => [
+            Math.min(suggestion.source.id, suggestion.target.id),
+            Math.max(suggestion.source.id, suggestion.target.id),
+            suggestion.source.id,
+            suggestion.target.id,
+            suggestion.confidence,
+            JSON.stringify(suggestion.reasons),
+            suggestion.sharedCredits,
+          ]),
+        ],
+      );
+    }
+  });
+}
+
+/**
+ * Get a page of current suggestions, most confident first
+ * @param minConfidence - Lowest confidence returned
+ * @param limit - Page size
+ * @param offset - Number of suggestions to skip
+ */
+export async function getSuggestionPage(
+  minConfidence: number,
+  limit: number,
+  offset: number,
+): Promise<StoredPersonDuplicateSuggestion[]> {
+  const [rows] = await getDbPool().query<SuggestionRow[]>(
+    `SELECT s.source_person_id, s.target_person_id, s.confidence, s.reasons, s.shared_credits
+     FROM ${CURRENT_SUGGESTIONS} AND s.confidence >= ?
+     ORDER BY s.confidence DESC, s.target_person_id, s.source_person_id
+     LIMIT ? OFFSET ?`,
+    [minConfidence, limit, offset],
+  );
+  return rows.map(transformSuggestionRow);
+}
+
+/**
+ * Count the current suggestions
+ * @param minConfidence - Lowest confidence counted
+ */
+export async function countSuggestions(minConfidence: number): Promise<number> {
+  const [rows] = await getDbPool().query<CountRow[]>(
+    `SELECT COUNT(*) AS total FROM ${CURRENT_SUGGESTIONS} AND s.confidence >= ?`,
+    [minConfidence],
+  );
+  return Number(rows[0].total);
+}
+
+/**
+ * Check whether two people are a current suggestion, in either direction
+ * @param personId - One person of the pair
+ * @param otherPersonId - The other person
+ */
+export async function isCurrentSuggestion(personId: number, otherPersonId: number): Promise<boolean> {
+  const [rows] = await getDbPool().query<CountRow[]>(
+    `SELECT COUNT(*) AS total FROM ${CURRENT_SUGGESTIONS} AND s.person_id = ? AND s.other_person_id = ?`,
+    [Math.min(personId, otherPersonId), Math.max(personId, otherPersonId)],
+  );
+  return Number(rows[0].total) > 0;
+}
+
+/**
+ * Forget every suggestion involving a person, e.g. once they have been merged away
+ * @param personId - Person id
+ */
+export async function deleteSuggestions(personId: number): Promise<void> {
+  await getDbPool().execute(
+    'DELETE FROM admin_person_duplicate_suggestions WHERE person_id = ? OR other_person_id = ?',
+    [personId, personId],
+  );
+}
+
+function transformSuggestionRow(row: SuggestionRow): StoredPersonDuplicateSuggestion {
+  return {
+    sourcePersonId: row.source_person_id,
+    targetPersonId: row.target_person_id,
+    confidence: Number(row.confidence),
+    reasons: typeof row.reasons === 'string' ? JSON.parse(row.reasons) : row.reasons,
+    sharedCredits: row.shared_credits,
+  };
+}
+
+function transformCandidateRow(row: CandidateRow): DuplicatePersonCandidate {
+  return {
+    id: row.id,
+    tmdbId: row.tmdb_id,
+    name: row.name,
+    birthday: row.birthday,
+    profileImage: row.profile_image,
+    showCredits: Number(row.show_credits),
+    movieCredits: Number(row.movie_credits),
+  };
+}
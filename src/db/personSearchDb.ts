@@ -0,0 +1,148 @@
+import { PersonSearchQuery, PersonSearchResult } from '../types/personSearchTypes';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { RowDataPacket } from 'mysql2/promise';
+
+interface PersonSearchRow extends RowDataPacket {
+  id: number;
+  tmdb_id: number;
+  name: string;
+  known_for_department: string | null;
+  profile_image: string | null;
+  show_credits: number | string;
+  movie_credits: number | string;
+}
+
+interface CountRow extends RowDataPacket {
+  total: number;
+}
+
+type SqlValue = string | number;
+
+/**
+ * Get a page of people matching the query
+ * @param query - Search, filter and sort options
+ * @param limit - Page size
+ * @param offset - Number of people to skip
+ */
+export async function searchPeople(
+  query: PersonSearchQuery,
+  limit: number,
+  offset: number,
+): Promise<PersonSearchResult[]> {
+  const { where, values } = buildWhereClause(query);
+  const { orderBy, values: orderValues } = buildOrderBy(query);
+
+  const [rows] = await getDbPool().query<PersonSearchRow[]>(
+    `SELECT p.id, p.tmdb_id, p.name, p.known_for_department, p.profile_image,
+       (SELECT COUNT(DISTINCT sc.show_id) FROM show_cast sc WHERE sc.person_id = p.id) AS show_credits,
+       (SELECT COUNT(DISTINCT mc.movie_id) FROM movie_cast mc WHERE mc.person_id = p.id) AS movie_credits
+     FROM people p
+     ${where}
+     ORDER BY ${orderBy}
+     LIMIT ? OFFSET ?`,
+    [...values, ...orderValues, limit, offset],
+  );
+  return rows.map(transformPersonRow);
+}
+
+/**
+ * Count the people matching the query
+ * @param query - Search and filter options
+ */
+export async function countPeople(query: PersonSearchQuery): Promise<number> {
+  const { where, values } = buildWhereClause(query);
+  const [rows] = await getDbPool().query<CountRow[]>(`SELECT COUNT(*) AS total FROM people p ${where}`, values);
+  return Number(rows[0]?.total ?? 0);
+}
+
+function buildWhereClause(query: PersonSearchQuery): { where: string; values: SqlValue[] } {
+  const conditions: string[] = [];
+  const values: SqlValue[] = [];
+
+  if (query.search) {
+    const search = toFullTextSearch(query.search);
+    if (search) {
+      conditions.push('MATCH(p.name) AGAINST (? IN BOOLEAN MODE)');
+      values.push(search);
+    } else {
+      conditions.push('p.name LIKE ?');
+      values.push(`%${escapeLike(query.search)}%`);
+    }
+  }
+  if (query.firstLetter) {
+    conditions.push('p.name LIKE ?');
+    values.push(`${escapeLike(query.firstLetter)}%`);
+  }
+  if (query.department) {
+    conditions.push('p.known_for_department = ?');
+    values.push(query.department);
+  }
+  if (query.showId !== undefined) {
+    conditions.push('EXISTS (SELECT 1 FROM show_cast sc WHERE sc.person_id = p.id AND sc.show_id = ?)');
+    values.push(query.showId);
+  }
+  if (query.movieId !== undefined) {
+    conditions.push('EXISTS (SELECT 1 FROM movie_cast mc WHERE mc.person_id = p.id AND mc.movie_id = ?)');
+    values.push(query.movieId);
+  }
+  if (query.missingProfileImage !== undefined) {
+    const missing = `(p.profile_image IS NULL OR p.profile_image = '')`;
+    conditions.push(query.missingProfileImage ? missing : `NOT ${missing}`);
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', values };
+}
+
+function buildOrderBy(query: PersonSearchQuery): { orderBy: string; values: SqlValue[] } {
+  const sortBy = query.sortBy ?? (query.search ? 'relevance' : 'name');
+
+  switch (sortBy) {
+    case 'relevance': {
+      const search = query.search ? toFullTextSearch(query.search) : '';
+      if (!query.search || !search) {
+        return buildOrderBy({ ...query, sortBy: 'name' });
+      }
+      // Exact names first, then by full-text score
+      return {
+        orderBy: 'p.name = ? DESC, MATCH(p.name) AGAINST (? IN BOOLEAN MODE) DESC, p.name, p.id',
+        values: [query.search, search],
+      };
+    }
+    case 'credits':
+      return {
+        orderBy: `show_credits + movie_credits ${query.sortOrder === 'asc' ? 'ASC' : 'DESC'}, p.name, p.id`,
+        values: [],
+      };
+    case 'name':
+      return { orderBy: `p.name ${query.sortOrder === 'desc' ? 'DESC' : 'ASC'}, p.id`, values: [] };
+  }
+}
+
+// Every word must match the start of a word in the name; boolean operators typed by the user separate words instead
+function toFullTextSearch(search: string): string {
+  return search
+    .replace(/[+\-<>()~*"@]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => `+${word}*`)
+    .join(' ');
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+function transformPersonRow(row: PersonSearchRow): PersonSearchResult {
+  const showCredits = Number(row.show_credits);
+  const movieCredits = Number(row.movie_credits);
+  return {
+    id: row.id,
+    tmdbId: row.tmdb_id,
+    name: row.name,
+    knownForDepartment: row.known_for_department,
+    profileImage: row.profile_image,
+    showCredits,
+    movieCredits,
+    creditCount: showCredits + movieCredits,
+  };
+}
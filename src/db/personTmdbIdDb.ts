@@ -0,0 +1,77 @@
+import { PersonCredit, PersonTmdbRecord } from '../types/personTmdbIdTypes';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { RowDataPacket } from 'mysql2/promise';
+
+interface PersonRow extends RowDataPacket {
+  id: number;
+  tmdb_id: number;
+  name: string;
+  birthday: string | null;
+}
+
+interface CreditRow extends RowDataPacket {
+  content_type: 'show' | 'movie';
+  id: number;
+  tmdb_id: number;
+  title: string;
+}
+
+interface PersonNameRow extends RowDataPacket {
+  id: number;
+  name: string;
+}
+
+/**
+ * Get a person with their TMDB id and birthday
+ * @param personId - Person id
+ * @returns The person, or null if they don't exist
+ */
+export async function getPerson(personId: number): Promise<PersonTmdbRecord | null> {
+  const [rows] = await getDbPool().execute<PersonRow[]>(
+    'SELECT id, tmdb_id, name, CAST(birthdate AS CHAR) AS birthday FROM people WHERE id = ?',
+    [personId],
+  );
+  if (rows.length === 0) {
+    return null;
+  }
+  return { id: rows[0].id, tmdbId: rows[0].tmdb_id, name: rows[0].name, birthday: rows[0].birthday };
+}
+
+/**
+ * Get the shows and movies a person is credited in
+ * @param personId - Person id
+ */
+export async function getCredits(personId: number): Promise<PersonCredit[]> {
+  const [rows] = await getDbPool().execute<CreditRow[]>(
+    `SELECT 'show' AS content_type, s.id, s.tmdb_id, s.title
+     FROM show_cast sc JOIN shows s ON s.id = sc.show_id WHERE sc.person_id = ?
+     UNION
+     SELECT 'movie' AS content_type, m.id, m.tmdb_id, m.title
+     FROM movie_cast mc JOIN movies m ON m.id = mc.movie_id WHERE mc.person_id = ?
+     ORDER BY content_type DESC, title`,
+    [personId, personId],
+  );
+  return rows.map((row: CreditRow) => ({
+    contentType: row.content_type,
+    id: row.id,
+    tmdbId: row.tmdb_id,
+    title: row.title,
+  }));
+}
+
+/**
+ * Find another person who already has a TMDB id
+ * @param tmdbId - TMDB person id
+ * @param excludePersonId - Person to ignore, usually the one whose TMDB id is changing
+ * @returns The person's id and name, or null if nobody else has the TMDB id
+ */
+export async function findOtherPersonByTmdbId(
+  tmdbId: number,
+  excludePersonId: number,
+): Promise<{ id: number; name: string } | null> {
+  const [rows] = await getDbPool().execute<PersonNameRow[]>(
+    'SELECT id, name FROM people WHERE tmdb_id = ? AND id <> ? ORDER BY id LIMIT 1',
+    [tmdbId, excludePersonId],
+  );
+  return rows.length > 0 ? { id: rows[0].id, name: rows[0].name } : null;
+}
@@ -0,0 +1,228 @@
+import { ProfileSummary, WatchStatusContentType, WatchStatusRecord } from '../types/profileTransferTypes';
+import { EpisodeProgress, deriveSeasonStatus, deriveShowStatus } from '../utils/watchStatus';
+import { withTransaction } from './transaction';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+
+interface ProfileSummaryRow extends RowDataPacket {
+  profile_id: number;
+  account_id: number;
+  name: string;
+}
+
+interface WatchStatusRow extends RowDataPacket {
+  content_id: number;
+  show_id: number | null;
+  status: string;
+  updated_at: Date | null;
+}
+
+interface EpisodeProgressRow extends RowDataPacket {
+  show_id: number;
+  season_id: number;
+  aired: number;
+  watched: number;
+}
+
+interface ShowProductionRow extends RowDataPacket {
+  id: number;
+  in_production: number | null;
+}
+
+interface DefaultProfileRow extends RowDataPacket {
+  default_profile_id: number | null;
+}
+
+const WATCH_STATUS_TABLES: Record<WatchStatusContentType, { table: string; idColumn: string; showIdSql: string }> = {
+  show: { table: 'show_watch_status', idColumn: 'show_id', showIdSql: 'w.show_id' },
+  season: {
+    table: 'season_watch_status',
+    idColumn: 'season_id',
+    showIdSql: '(SELECT s.show_id FROM seasons s WHERE s.id = w.season_id)',
+  },
+  episode: {
+    table: 'episode_watch_status',
+    idColumn: 'episode_id',
+    showIdSql: '(SELECT e.show_id FROM episodes e WHERE e.id = w.episode_id)',
+  },
+  movie: { table: 'movie_watch_status', idColumn: 'movie_id', showIdSql: 'NULL' },
+};
+
+/**
+ * Get a profile that isn't in the trash
+ * @param profileId - Profile id
+ * @returns The profile, or null if it does not exist or is trashed
+ */
+export async function getActiveProfile(profileId: number): Promise<ProfileSummary | null> {
+  const [rows] = await getDbPool().execute<ProfileSummaryRow[]>(
+    'SELECT profile_id, account_id, name FROM profiles WHERE profile_id = ? AND deleted_at IS NULL',
+    [profileId],
+  );
+  return rows.length > 0 ? transformProfileSummaryRow(rows[0]) : null;
+}
+
+/**
+ * Move a profile to another account. If it was the old account's default profile, the old account's
+ * oldest remaining profile becomes its default (or none if it has no profiles left).
+ * @param profileId - Profile to move
+ * @param fromAccountId - Account the profile currently belongs to
+ * @param toAccountId - Account to move the profile to
+ * @returns The old account's default profile id after the move
+ */
+export async function moveProfile(
+  profileId: number,
+  fromAccountId: number,
+  toAccountId: number,
+): Promise<number | null> {
+  return withTransaction(async (connection) => {
+    await connection.execute('UPDATE profiles SET account_id = ? WHERE profile_id = ? AND account_id = ?', [
+      toAccountId,
+      profileId,
+      fromAccountId,
+    ]);
+
+    const [accounts] = await connection.execute<DefaultProfileRow[]>(
+      'SELECT default_profile_id FROM accounts WHERE account_id = ? FOR UPDATE',
+      [fromAccountId],
+    );
+    const defaultProfileId = accounts.length > 0 ? accounts[0].default_profile_id : null;
+    if (defaultProfileId !== profileId) {
+      return defaultProfileId;
+    }
+
+    const [profiles] = await connection.execute<ProfileSummaryRow[]>(
+      'SELECT profile_id, account_id, name FROM profiles WHERE account_id = ? AND deleted_at IS NULL ORDER BY profile_id LIMIT 1',
+      [fromAccountId],
+    );
+    const newDefaultProfileId = profiles.length > 0 ? profiles[0].profile_id : null;
+    await connection.execute('UPDATE accounts SET default_profile_id = ? WHERE account_id = ?', [
+      newDefaultProfileId,
+      fromAccountId,
+    ]);
+    return newDefaultProfileId;
+  });
+}
+
+/**
+ * Get every watch status a profile has for one type of content
+ * @param contentType - Show, season, episode or movie
+ * @param profileId - Profile id
+ */
+export async function getWatchStatuses(
+  contentType: WatchStatusContentType,
+  profileId: number,
+): Promise<WatchStatusRecord[]> {
+  const { table, idColumn, showIdSql } = WATCH_STATUS_TABLES[contentType];
+  const [rows] = await getDbPool().execute<WatchStatusRow[]>(
+    `SELECT w.${idColumn} AS content_id, ${showIdSql} AS show_id, w.status, w.updated_at
+     FROM ${table} w WHERE w.profile_id = ?`,
+    [profileId],
+  );
+  return rows.map(transformWatchStatusRow);
+}
+
+/**
+ * Write watch statuses to a profile in one transaction, replacing any status it already has for the same content.
+ * The season and show statuses of every show written to are then recomputed from the profile's episode statuses.
+ * @param profileId - Profile to write to
+ * @param statuses - Statuses to write, by content type
+ */
+export async function upsertWatchStatuses(
+  profileId: number,
+  statuses: Record<WatchStatusContentType, WatchStatusRecord[]>,
+): Promise<void> {
+  await withTransaction(async (connection) => {
+    const showIds = new Set<number>();
+    for (const [contentType, records] of Object.entries(statuses) as [WatchStatusContentType, WatchStatusRecord[]][]) {
+      for (const record of records) {
+        await writeWatchStatus(connection, contentType, profileId, record.contentId, record.status);
+        if (record.showId !== null) {
+          showIds.add(record.showId);
+        }
+      }
+    }
+
+    if (showIds.size > 0) {
+      await recomputeShowStatuses(connection, profileId, [...showIds]);
+    }
+  });
+}
+
+async function writeWatchStatus(
+  connection: PoolConnection,
+  contentType: WatchStatusContentType,
+  profileId: number,
+  contentId: number,
+  status: string,
+): Promise<void> {
+  const { table, idColumn } = WATCH_STATUS_TABLES[contentType];
+  await connection.execute(
+    `INSERT INTO ${table} (profile_id, ${idColumn}, status) VALUES (?, ?, ?)
+     ON DUPLICATE KEY UPDATE status = VALUES(status)`,
+    [profileId, contentId, status],
+  );
+}
+
+/**
+ * Recompute a profile's season and show statuses for a set of shows from its episode statuses.
+ * Episodes the profile has no status for count as not watched.
+ * @param connection - Connection of the transaction the episode statuses were written in
+ * @param profileId - Profile id
+ * @param showIds - Shows to recompute
+ */
+export async function recomputeShowStatuses(
+  connection: PoolConnection,
+  profileId: number,
+  showIds: number[],
+): Promise<void> {
+  const [episodes] = await connection.query<EpisodeProgressRow[]>(
+    `SELECT e.show_id, e.season_id, e.air_date IS NOT NULL AND e.air_date <= CURDATE() AS aired,
+       COALESCE(ews.status = 'WATCHED', 0) AS watched
+     FROM episodes e
+     LEFT JOIN episode_watch_status ews ON ews.episode_id = e.id AND ews.profile_id = ?
+     WHERE e.show_id IN (?)`,
+    [profileId, showIds],
+  );
+  const [shows] = await connection.query<ShowProductionRow[]>('SELECT id, in_production FROM shows WHERE id IN (?)', [
+    showIds,
+  ]);
+
+  const seasonsByShow = new Map<number, Map<number, EpisodeProgress[]>>();
+  for (const episode of episodes) {
+    const seasons = seasonsByShow.get(episode.show_id) ?? new Map<number, EpisodeProgress[]>();
+    seasons.set(episode.season_id, [
+      ...(seasons.get(episode.season_id) ?? []),
+      { aired: Boolean(episode.aired), watched: Boolean(episode.watched) },
+    ]);
+    seasonsByShow.set(episode.show_id, seasons);
+  }
+
+  for (const show of shows) {
+    const seasonStatuses: string[] = [];
+    for (const [seasonId, seasonEpisodes] of seasonsByShow.get(show.id) ?? []) {
+      const seasonStatus = deriveSeasonStatus(seasonEpisodes);
+      if (seasonStatus !== null) {
+        await writeWatchStatus(connection, 'season', profileId, seasonId, seasonStatus);
+        seasonStatuses.push(seasonStatus);
+      }
+    }
+
+    const showStatus = deriveShowStatus(seasonStatuses, Boolean(show.in_production));
+    if (showStatus !== null) {
+      await writeWatchStatus(connection, 'show', profileId, show.id, showStatus);
+    }
+  }
+}
+
+function transformProfileSummaryRow(row: ProfileSummaryRow): ProfileSummary {
+  return { profileId: row.profile_id, accountId: row.account_id, name: row.name };
+}
+
+function transformWatchStatusRow(row: WatchStatusRow): WatchStatusRecord {
+  return {
+    contentId: row.content_id,
+    showId: row.show_id,
+    status: row.status,
+    updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+  };
+}
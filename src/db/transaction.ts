@@ -0,0 +1,22 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { PoolConnection } from 'mysql2/promise';
+
+/**
+ * Run work inside a transaction on a dedicated connection, rolling back if it throws
+ * @param work - Queries to run with the transaction's connection
+ * @returns Whatever the work returns
+ */
+export async function withTransaction<T>(work: (connection: PoolConnection) => Promise<T>): Promise<T> {
+  const connection: PoolConnection = await getDbPool().getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await work(connection);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
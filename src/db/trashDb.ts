@@ -0,0 +1,296 @@
+import { AdminActor } from '../types/adminTypes';
+import { TrashEntityType, TrashEntry, TrashFilters, TrashStatus, TrashedAccountState } from '../types/trashTypes';
+import { withTransaction } from './transaction';
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+interface TrashRow extends RowDataPacket {
+  id: number;
+  entity_type: TrashEntityType;
+  entity_id: number;
+  account_id: number;
+  label: string;
+  status: TrashStatus;
+  deleted_by_uid: string;
+  deleted_by_email: string | null;
+  deleted_at: Date;
+  purge_after: Date;
+  restored_by_uid: string | null;
+  restored_at: Date | null;
+  purged_at: Date | null;
+  firebase_disabled: number;
+  email_preferences: string | Record<string, unknown> | null;
+}
+
+interface TrashTargetRow extends RowDataPacket {
+  account_id: number;
+  label: string;
+}
+
+interface AccountUidRow extends RowDataPacket {
+  uid: string;
+}
+
+interface ProfileIdRow extends RowDataPacket {
+  profile_id: number;
+}
+
+interface CountRow extends RowDataPacket {
+  total: number;
+}
+
+const ENTITY_TABLES: Record<TrashEntityType, { table: string; idColumn: string }> = {
+  account: { table: 'accounts', idColumn: 'account_id' },
+  profile: { table: 'profiles', idColumn: 'profile_id' },
+};
+
+/**
+ * Move an account or profile into the trash by marking it deleted and recording a trash entry
+ * @param entityType - 'account' or 'profile'
+ * @param entityId - Id of the account or profile
+ * @param admin - Admin performing the delete
+ * @param retentionDays - Days to keep the entry before it is purged
+ * @param accountState - What trashing an account switched off, restored with it
+ * @returns The new trash entry, or null if the entity does not exist or is already trashed
+ */
+export async function trashEntity(
+  entityType: TrashEntityType,
+  entityId: number,
+  admin: AdminActor,
+  retentionDays: number,
+  accountState: TrashedAccountState = { firebaseDisabled: false, emailPreferences: null },
+): Promise<TrashEntry | null> {
+  const targetQuery =
+    entityType === 'account'
+      ? `SELECT account_id, CONCAT(account_name, ' <', email, '>') AS label FROM accounts WHERE account_id = ? AND deleted_at IS NULL FOR UPDATE`
+      : `SELECT account_id, name AS label FROM profiles WHERE profile_id = ? AND deleted_at IS NULL FOR UPDATE`;
+
+  const insertId = await withTransaction(async (connection) => {
+    const [targets] = await connection.execute<TrashTargetRow[]>(targetQuery, [entityId]);
+    if (targets.length === 0) {
+      return null;
+    }
+
+    await setDeletedAt(connection, entityType, entityId, true);
+    const [result] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO admin_trash
+         (entity_type, entity_id, account_id, label, deleted_by_uid, deleted_by_email, purge_after,
+          firebase_disabled, email_preferences)
+       VALUES (?, ?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? DAY), ?, ?)`,
+      [
+        entityType,
+        entityId,
+        targets[0].account_id,
+        targets[0].label,
+        admin.uid,
+        admin.email,
+        retentionDays,
+        accountState.firebaseDisabled,
+        accountState.emailPreferences ? JSON.stringify(accountState.emailPreferences) : null,
+      ],
+    );
+    return result.insertId;
+  });
+
+  return insertId === null ? null : getTrashEntryById(insertId);
+}
+
+/**
+ * Restore a trashed account or profile
+ * @param entry - Trash entry to restore
+ * @param admin - Admin performing the restore
+ */
+export async function restoreEntity(entry: TrashEntry, admin: AdminActor): Promise<void> {
+  await withTransaction(async (connection) => {
+    await setDeletedAt(connection, entry.entityType, entry.entityId, false);
+    await connection.execute(
+      `UPDATE admin_trash SET status = 'restored', restored_by_uid = ?, restored_at = NOW() WHERE id = ?`,
+      [admin.uid, entry.id],
+    );
+  });
+}
+
+/**
+ * Get a page of trash entries, most recently deleted first
+ * @param filters - Trash filters
+ * @param limit - Page size
+ * @param offset - Number of entries to skip
+ */
+export async function getTrashEntries(filters: TrashFilters, limit: number, offset: number): Promise<TrashEntry[]> {
+  const { where, values } = buildWhereClause(filters);
+  const [rows] = await getDbPool().query<TrashRow[]>(
+    `SELECT * FROM admin_trash ${where} ORDER BY deleted_at DESC, id DESC LIMIT ? OFFSET ?`,
+    [...values, limit, offset],
+  );
+  return rows.map(transformTrashRow);
+}
+
+/**
+ * Count the trash entries matching the filters
+ * @param filters - Trash filters
+ */
+export async function getTrashEntryCount(filters: TrashFilters): Promise<number> {
+  const { where, values } = buildWhereClause(filters);
+  const [rows] = await getDbPool().query<CountRow[]>(`SELECT COUNT(*) AS total FROM admin_trash ${where}`, values);
+  return Number(rows[0]?.total ?? 0);
+}
+
+/**
+ * Get a single trash entry
+ * @param id - Trash entry id
+ */
+export async function getTrashEntryById(id: number): Promise<TrashEntry | null> {
+  const [rows] = await getDbPool().execute<TrashRow[]>('SELECT * FROM admin_trash WHERE id = ?', [id]);
+  return rows.length > 0 ? transformTrashRow(rows[0]) : null;
+}
+
+/**
+ * Get trashed entries whose retention window has passed
+ */
+export async function getExpiredTrashEntries(): Promise<TrashEntry[]> {
+  const [rows] = await getDbPool().execute<TrashRow[]>(
+    `SELECT * FROM admin_trash WHERE status = 'trashed' AND purge_after <= NOW() ORDER BY entity_type = 'account', id`,
+  );
+  return rows.map(transformTrashRow);
+}
+
+/**
+ * Check whether an account is currently in the trash
+ * @param accountId - Account id
+ */
+export async function isAccountTrashed(accountId: number): Promise<boolean> {
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(
+    'SELECT 1 FROM accounts WHERE account_id = ? AND deleted_at IS NOT NULL',
+    [accountId],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Check whether a profile is currently in the trash
+ * @param profileId - Profile id
+ */
+export async function isProfileTrashed(profileId: number): Promise<boolean> {
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(
+    'SELECT 1 FROM profiles WHERE profile_id = ? AND deleted_at IS NOT NULL',
+    [profileId],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Check whether the account with a Firebase uid is currently in the trash
+ * @param uid - Firebase uid of the account
+ */
+export async function isAccountUidTrashed(uid: string): Promise<boolean> {
+  const [rows] = await getDbPool().execute<RowDataPacket[]>(
+    'SELECT 1 FROM accounts WHERE uid = ? AND deleted_at IS NOT NULL',
+    [uid],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Get the Firebase uid of an account, whether or not it is in the trash
+ * @param accountId - Account id
+ * @returns The uid, or null if the account does not exist
+ */
+export async function getAccountUid(accountId: number): Promise<string | null> {
+  const [rows] = await getDbPool().execute<AccountUidRow[]>('SELECT uid FROM accounts WHERE account_id = ?', [
+    accountId,
+  ]);
+  return rows.length > 0 ? rows[0].uid : null;
+}
+
+/**
+ * Get the ids of an account's profiles that are in the trash
+ * @param accountId - Account id
+ */
+export async function getTrashedProfileIds(accountId: number): Promise<Set<number>> {
+  const [rows] = await getDbPool().execute<ProfileIdRow[]>(
+    'SELECT profile_id FROM profiles WHERE account_id = ? AND deleted_at IS NOT NULL',
+    [accountId],
+  );
+  return new Set(rows.map((row: ProfileIdRow) => row.profile_id));
+}
+
+/**
+ * Mark a trash entry as purged
+ * @param id - Trash entry id
+ */
+export async function markTrashEntryPurged(id: number): Promise<void> {
+  await getDbPool().execute(`UPDATE admin_trash SET status = 'purged', purged_at = NOW() WHERE id = ?`, [id]);
+}
+
+/**
+ * Mark every trashed profile of an account as purged, used when the account itself is purged
+ * @param accountId - Account id
+ */
+export async function markAccountProfilesPurged(accountId: number): Promise<void> {
+  await getDbPool().execute(
+    `UPDATE admin_trash SET status = 'purged', purged_at = NOW()
+     WHERE entity_type = 'profile' AND account_id = ? AND status = 'trashed'`,
+    [accountId],
+  );
+}
+
+async function setDeletedAt(
+  connection: PoolConnection,
+  entityType: TrashEntityType,
+  entityId: number,
+  deleted: boolean,
+): Promise<void> {
+  const { table, idColumn } = ENTITY_TABLES[entityType];
+  await connection.execute(`UPDATE ${table} SET deleted_at = ${deleted ? 'NOW()' : 'NULL'} WHERE ${idColumn} = ?`, [
+    entityId,
+  ]);
+}
+
+function buildWhereClause(filters: TrashFilters): { where: string; values: (string | number)[] } {
+  const conditions: string[] = [];
+  const values: (string | number)[] = [];
+
+  if (filters.entityType) {
+    conditions.push('entity_type = ?');
+    values.push(filters.entityType);
+  }
+  if (filters.status) {
+    conditions.push('status = ?');
+    values.push(filters.status);
+  }
+  if (filters.accountId) {
+    conditions.push('account_id = ?');
+    values.push(filters.accountId);
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', values };
+}
+
+function parseJsonColumn<T>(value: string | T | null): T | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? (JSON.parse(value) as T) : value;
+}
+
+function toIsoString(value: Date | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function transformTrashRow(row: TrashRow): TrashEntry {
+  return {
+    id: row.id,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    accountId: row.account_id,
+    label: row.label,
+    status: row.status,
+    deletedByUid: row.deleted_by_uid,
+    deletedByEmail: row.deleted_by_email,
+    deletedAt: new Date(row.deleted_at).toISOString(),
+    purgeAfter: new Date(row.purge_after).toISOString(),
+    restoredByUid: row.restored_by_uid,
+    restoredAt: toIsoString(row.restored_at),
+    purgedAt: toIsoString(row.purged_at),
+    firebaseDisabled: Boolean(row.firebase_disabled),
+    emailPreferences: parseJsonColumn<Record<string, unknown>>(row.email_preferences),
+  };
+}
@@ -0,0 +1,127 @@
+import { accountExportService } from '../services/AccountExportService';
+import { ACCOUNT_LIFECYCLE_JOB, accountLifecycleService } from '../services/AccountLifecycleService';
+import { adminJobsService } from '../services/AdminJobsService';
+import { contentHistoryService } from '../services/ContentHistoryService';
+import { contentOverrideService } from '../services/ContentOverrideService';
+import { dataQualityService } from '../services/DataQualityService';
+import { orphanCleanupService } from '../services/OrphanCleanupService';
+import { personDuplicateService } from '../services/PersonDuplicateService';
+import { sharedJobWatcher } from '../services/SharedJobWatcher';
+import { trashService } from '../services/TrashService';
+
+const CONTENT_OVERRIDES_REAPPLY_JOB = 'contentOverridesReapply';
+
+const DEFAULT_TRASH_PURGE_SCHEDULE = '0 3 * * *';
+const DEFAULT_EXPORT_CLEANUP_SCHEDULE = '15 * * * *';
+const DEFAULT_LIFECYCLE_SCHEDULE = '0 4 * * *';
+const DEFAULT_DATA_QUALITY_SCHEDULE = '30 5 * * *';
+const DEFAULT_CONTENT_OVERRIDES_SCHEDULE = '*/15 * * * *';
+const DEFAULT_CONTENT_CHANGE_CAPTURE_SCHEDULE = '40 * * * *';
+const DEFAULT_ORPHAN_CLEANUP_SCHEDULE = '0 6 * * 0';
+const DEFAULT_PERSON_DUPLICATE_SCAN_SCHEDULE = '0 7 * * *';
+
+/**
+ * Register and start the scheduled jobs owned by the admin server
+ */
+export function initAdminJobs(): void {
+  adminJobsService.registerJob(
+    {
+      name: 'trashPurge',
+      description: 'Permanently delete trashed accounts and profiles past their retention window',
+      defaultSchedule: DEFAULT_TRASH_PURGE_SCHEDULE,
+      handler: () => trashService.purgeExpired(),
+    },
+    process.env.TRASH_PURGE_SCHEDULE,
+  );
+
+  adminJobsService.registerJob(
+    {
+      name: 'accountExportCleanup',
+      description: 'Delete account data export bundles past their download window',
+      defaultSchedule: DEFAULT_EXPORT_CLEANUP_SCHEDULE,
+      handler: () => accountExportService.purgeExpiredExports(),
+    },
+    process.env.ACCOUNT_EXPORT_CLEANUP_SCHEDULE,
+  );
+
+  adminJobsService.registerJob(
+    {
+      name: ACCOUNT_LIFECYCLE_JOB,
+      description: 'Classify accounts by inactivity, send re-engagement emails and flag accounts for deletion review',
+      defaultSchedule: DEFAULT_LIFECYCLE_SCHEDULE,
+      handler: () => accountLifecycleService.runLifecycle(),
+    },
+    process.env.LIFECYCLE_SCHEDULE,
+  );
+
+  adminJobsService.registerJob(
+    {
+      name: 'contentDataQuality',
+      description: 'Scan shows, episodes and movies for broken or incomplete data',
+      defaultSchedule: DEFAULT_DATA_QUALITY_SCHEDULE,
+      handler: () => dataQualityService.runScan(),
+    },
+    process.env.DATA_QUALITY_SCHEDULE,
+  );
+
+  // The shared show and movie update jobs refresh content without going through the override service, so overrides
+  // are written back as soon as one finishes, queued behind a re-apply that is already running. The schedule is a
+  // backstop for runs the watcher misses.
+  adminJobsService.registerJob(
+    {
+      name: CONTENT_OVERRIDES_REAPPLY_JOB,
+      description: 'Write admin content overrides back to shows, movies and episodes changed by TMDB updates',
+      defaultSchedule: DEFAULT_CONTENT_OVERRIDES_SCHEDULE,
+      handler: () => contentOverrideService.reapplyAll(),
+    },
+    process.env.CONTENT_OVERRIDES_SCHEDULE,
+  );
+
+  adminJobsService.registerJob(
+    {
+      name: 'contentChangeCapture',
+      description: 'Record the change history of shows and movies updated by the scheduled TMDB updates',
+      defaultSchedule: DEFAULT_CONTENT_CHANGE_CAPTURE_SCHEDULE,
+      handler: () => contentHistoryService.captureScheduledChanges(),
+    },
+    process.env.CONTENT_CHANGE_CAPTURE_SCHEDULE,
+  );
+
+  adminJobsService.registerJob(
+    {
+      name: 'orphanCleanup',
+      description: 'Archive or remove content no profile watches and people without credits after a grace period',
+      defaultSchedule: DEFAULT_ORPHAN_CLEANUP_SCHEDULE,
+      handler: () => orphanCleanupService.runScheduledCleanup(),
+    },
+    process.env.ORPHAN_CLEANUP_SCHEDULE,
+  );
+
+  adminJobsService.registerJob(
+    {
+      name: 'personDuplicateScan',
+      description: 'Find people who are probably the same person and store them as duplicate suggestions',
+      defaultSchedule: DEFAULT_PERSON_DUPLICATE_SCAN_SCHEDULE,
+      handler: () => personDuplicateService.scanForDuplicates(),
+    },
+    process.env.PERSON_DUPLICATE_SCAN_SCHEDULE,
+  );
+
+  sharedJobWatcher.onFinished(['showsUpdate', 'moviesUpdate'], () =>
+    adminJobsService.requestRun(CONTENT_OVERRIDES_REAPPLY_JOB),
+  );
+
+  // Exports run in-process, so any still pending or running were cut off by the last shutdown
+  void accountExportService.failInterruptedExports();
+
+  adminJobsService.init();
+  sharedJobWatcher.init();
+}
+
+/**
+ * Stop the scheduled jobs owned by the admin server
+ */
+export function shutdownAdminJobs(): void {
+  sharedJobWatcher.shutdown();
+  adminJobsService.shutdown();
+}
@@ -0,0 +1,45 @@
+import { auditService } from '../services/AuditService';
+import { getAuditAction, getAuditTarget, summarizeBody } from '../utils/auditHelpers';
+import { NextFunction, Request, Response } from 'express';
+
+const UNAUDITED_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Record every mutating request in the admin audit trail once the response has been sent.
+ * Must run after authenticateAdmin so that `req.user` identifies the admin.
+ *
+ * Controllers can attach extra context (e.g. before/after values) by setting `res.locals.auditDetails`.
+ */
+export const auditMutations = (req: Request, res: Response, next: NextFunction): void => {
+  if (UNAUDITED_METHODS.includes(req.method) || !req.user) {
+    next();
+    return;
+  }
+
+  const start = Date.now();
+  const user = req.user;
+
+  res.on('finish', () => {
+    const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : req.path;
+    const params = { ...(req.params as Record<string, string>) };
+    const { entityType, entityId } = getAuditTarget(route, params, req.body);
+
+    void auditService.recordEntry({
+      adminUid: user.uid,
+      adminEmail: user.email ?? null,
+      adminRole: req.adminRole ?? null,
+      method: req.method,
+      route,
+      action: getAuditAction(req.method, route),
+      entityType,
+      entityId,
+      params,
+      bodySummary: summarizeBody(req.body),
+      details: res.locals.auditDetails ?? null,
+      statusCode: res.statusCode,
+      durationMs: Date.now() - start,
+    });
+  });
+
+  next();
+};
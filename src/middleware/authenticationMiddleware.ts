@@ -1,3 +1,4 @@
+import { resolveAdminRole } from '../utils/permissions';
 import { getAdminServiceName, getServiceName } from '@ajgifford/keepwatching-common-server/config';
 import { getFirebaseAdmin } from '@ajgifford/keepwatching-common-server/utils';
 import { NextFunction, Request, Response } from 'express';
@@ -21,6 +22,7 @@ export const authenticateAdmin = async (req: Request, res: Response, next: NextF
 
     const decodedToken = await firebaseApp.auth().verifyIdToken(idToken);
     req.user = decodedToken;
+    req.adminRole = resolveAdminRole(decodedToken);
     next();
   } catch {
     res.status(401).json({ error: 'Unauthorized' });
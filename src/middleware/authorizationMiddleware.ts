@@ -0,0 +1,23 @@
+import { Permission, hasPermission } from '../utils/permissions';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Require the authenticated admin's role to grant a permission.
+ * Must run after authenticateAdmin, which resolves `req.adminRole` from the token's custom claims.
+ * @param permission - Permission the route requires
+ */
+export const requirePermission = (permission: Permission) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user || !req.adminRole) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!hasPermission(req.adminRole, permission)) {
+      res.status(403).json({ error: 'Forbidden', role: req.adminRole, missingPermission: permission });
+      return;
+    }
+
+    next();
+  };
+};
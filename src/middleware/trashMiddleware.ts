@@ -0,0 +1,48 @@
+import * as trashDb from '../db/trashDb';
+import { NextFunction, Request, Response } from 'express';
+
+type ParamHandler = (req: Request, res: Response, next: NextFunction, value: string) => Promise<void>;
+
+/**
+ * Build a route param handler that answers 404 when the entity the param names is in the admin trash.
+ * Trashed accounts and profiles can only be reached through the trash endpoints until they are restored.
+ * @param label - Entity name used in the error message
+ * @param isTrashed - Check for the param value, which has not been validated yet
+ */
+const rejectTrashed = (label: string, isTrashed: (value: string) => Promise<boolean>): ParamHandler => {
+  return async (_req: Request, res: Response, next: NextFunction, value: string): Promise<void> => {
+    try {
+      if (await isTrashed(value)) {
+        res.status(404).json({ error: `${label} ${value} is in the trash` });
+        return;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// Malformed ids are left for the route's param schema to reject
+const isPositiveInteger = (value: string) => /^\d+$/.test(value);
+
+/**
+ * Route param handler for `:accountId`
+ */
+export const rejectTrashedAccount = rejectTrashed(
+  'Account',
+  async (value) => isPositiveInteger(value) && trashDb.isAccountTrashed(Number(value)),
+);
+
+/**
+ * Route param handler for `:accountUid`
+ */
+export const rejectTrashedAccountUid = rejectTrashed('Account', (value) => trashDb.isAccountUidTrashed(value));
+
+/**
+ * Route param handler for `:profileId`
+ */
+export const rejectTrashedProfile = rejectTrashed(
+  'Profile',
+  async (value) => isPositiveInteger(value) && trashDb.isProfileTrashed(Number(value)),
+);
@@ -1,15 +1,34 @@
 import {
+  bulkAccountAction,
   deleteAccount,
   deleteProfile,
+  disableFirebaseUser,
+  downloadAccountExport,
   editAccount,
   editProfile,
+  enableFirebaseUser,
+  generatePasswordResetLink,
+  getAccountDetails,
+  getAccountExport,
+  getAccountExports,
+  getAccountOverview,
   getAccountPreferences,
   getAccounts,
+  getImpersonationSessions,
   getProfileMoviesList,
   getProfileShowsList,
   getProfiles,
+  impersonateAccount,
+  mergeProfiles,
+  moveProfile,
+  requestAccountExport,
+  revokeFirebaseTokens,
+  revokeImpersonationSession,
+  updateAccountPreferences,
   verifyEmail,
 } from '../controllers/accountManagementController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
+import { rejectTrashedAccount, rejectTrashedAccountUid, rejectTrashedProfile } from '../middleware/trashMiddleware';
 import { validateRequest, validateSchema } from '@ajgifford/keepwatching-common-server';
 import { logRequestContext } from '@ajgifford/keepwatching-common-server/middleware';
 import {
@@ -23,9 +42,23 @@ import express from 'express';
 
 const router = express.Router();
 
-router.get('/api/v1/accounts', getAccounts);
+// Trashed accounts and profiles are only reachable through the trash endpoints
+router.param('accountId', rejectTrashedAccount);
+router.param('accountUid', rejectTrashedAccountUid);
+router.param('profileId', rejectTrashedProfile);
+
+router.get('/api/v1/accounts', requirePermission('accounts:read'), getAccounts);
+router.post('/api/v1/accounts/bulk', requirePermission('accounts:write'), logRequestContext, bulkAccountAction);
+router.get(
+  '/api/v1/accounts/:accountId',
+  requirePermission('accounts:read'),
+  logRequestContext,
+  validateSchema(accountIdParamSchema, 'params'),
+  getAccountDetails,
+);
 router.put(
   '/api/v1/accounts/:accountId',
+  requirePermission('accounts:write'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   validateRequest(updateAccountBodySchema),
@@ -33,18 +66,102 @@ router.put(
 );
 router.delete(
   '/api/v1/accounts/:accountId',
+  requirePermission('accounts:delete'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   deleteAccount,
 );
+router.post(
+  '/api/v1/accounts/:accountId/firebase/disable',
+  requirePermission('accounts:write'),
+  logRequestContext,
+  validateSchema(accountIdParamSchema, 'params'),
+  disableFirebaseUser,
+);
+router.post(
+  '/api/v1/accounts/:accountId/firebase/enable',
+  requirePermission('accounts:write'),
+  logRequestContext,
+  validateSchema(accountIdParamSchema, 'params'),
+  enableFirebaseUser,
+);
+router.post(
+  '/api/v1/accounts/:accountId/firebase/revoke-tokens',
+  requirePermission('accounts:write'),
+  logRequestContext,
+  validateSchema(accountIdParamSchema, 'params'),
+  revokeFirebaseTokens,
+);
+router.post(
+  '/api/v1/accounts/:accountId/firebase/password-reset-link',
+  requirePermission('accounts:write'),
+  logRequestContext,
+  validateSchema(accountIdParamSchema, 'params'),
+  generatePasswordResetLink,
+);
+router.post(
+  '/api/v1/accounts/:accountId/impersonate',
+  requirePermission('accounts:impersonate'),
+  logRequestContext,
+  validateSchema(accountIdParamSchema, 'params'),
+  impersonateAccount,
+);
+router.get(
+  '/api/v1/accounts/:accountId/impersonations',
+  requirePermission('accounts:read'),
+  logRequestContext,
+  validateSchema(accountIdParamSchema, 'params'),
+  getImpersonationSessions,
+);
+router.post(
+  '/api/v1/accounts/:accountId/impersonations/:sessionId/revoke',
+  requirePermission('accounts:impersonate'),
+  logRequestContext,
+  revokeImpersonationSession,
+);
+router.get(
+  '/api/v1/accounts/:accountId/overview',
+  requirePermission('accounts:read'),
+  logRequestContext,
+  validateSchema(accountIdParamSchema, 'params'),
+  getAccountOverview,
+);
+router.post(
+  '/api/v1/accounts/:accountId/export',
+  requirePermission('accounts:write'),
+  logRequestContext,
+  validateSchema(accountIdParamSchema, 'params'),
+  requestAccountExport,
+);
+router.get(
+  '/api/v1/accounts/:accountId/export',
+  requirePermission('accounts:read'),
+  logRequestContext,
+  validateSchema(accountIdParamSchema, 'params'),
+  getAccountExports,
+);
+router.get(
+  '/api/v1/accounts/:accountId/export/:exportId',
+  requirePermission('accounts:read'),
+  logRequestContext,
+  getAccountExport,
+);
+router.get(
+  '/api/v1/accounts/:accountId/export/:exportId/download',
+  requirePermission('accounts:read'),
+  logRequestContext,
+  downloadAccountExport,
+);
 router.get(
   '/api/v1/accounts/:accountId/profiles',
+  requirePermission('accounts:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getProfiles,
 );
 router.put(
   '/api/v1/accounts/:accountId/profiles/:profileId',
+  requirePermission('accounts:write'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   validateRequest(profileNameBodySchema),
@@ -52,28 +169,57 @@ router.put(
 );
 router.delete(
   '/api/v1/accounts/:accountId/profiles/:profileId',
+  requirePermission('accounts:delete'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   deleteProfile,
 );
+router.post(
+  '/api/v1/accounts/:accountId/profiles/:profileId/move',
+  requirePermission('accounts:write'),
+  logRequestContext,
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  moveProfile,
+);
+router.post(
+  '/api/v1/accounts/:accountId/profiles/:profileId/merge',
+  requirePermission('accounts:write'),
+  logRequestContext,
+  validateSchema(accountAndProfileIdsParamSchema, 'params'),
+  mergeProfiles,
+);
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/shows',
+  requirePermission('accounts:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getProfileShowsList,
 );
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/movies',
+  requirePermission('accounts:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getProfileMoviesList,
 );
-router.post('/api/v1/accounts/:accountUid/verify-email', validateSchema(accountUIDParamSchema, 'params'), verifyEmail);
+router.post(
+  '/api/v1/accounts/:accountUid/verify-email',
+  requirePermission('accounts:write'),
+  validateSchema(accountUIDParamSchema, 'params'),
+  verifyEmail,
+);
 router.get(
   '/api/v1/accounts/:accountId/preferences',
+  requirePermission('accounts:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountPreferences,
 );
+router.put(
+  '/api/v1/accounts/:accountId/preferences/:preferenceType',
+  requirePermission('accounts:write'),
+  logRequestContext,
+  updateAccountPreferences,
+);
 
 export default router;
@@ -1,11 +1,12 @@
 import { getServicesHealth, getSiteStatus, getSummaryCounts, restartService } from '../controllers/adminController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
 import express from 'express';
 
 const router = express.Router();
 
-router.get('/api/v1/admin/health', getServicesHealth);
-router.get('/api/v1/admin/site-status', getSiteStatus);
-router.get('/api/v1/admin/summary-counts', getSummaryCounts);
-router.post('/api/v1/admin/services/:service/restart', restartService);
+router.get('/api/v1/admin/health', requirePermission('system:read'), getServicesHealth);
+router.get('/api/v1/admin/site-status', requirePermission('system:read'), getSiteStatus);
+router.get('/api/v1/admin/summary-counts', requirePermission('system:read'), getSummaryCounts);
+router.post('/api/v1/admin/services/:service/restart', requirePermission('system:manage'), restartService);
 
 export default router;
@@ -0,0 +1,9 @@
+import { getAuditLog } from '../controllers/auditController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
+import express from 'express';
+
+const router = express.Router();
+
+router.get('/api/v1/admin/audit', requirePermission('audit:read'), getAuditLog);
+
+export default router;
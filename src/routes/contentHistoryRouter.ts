@@ -0,0 +1,11 @@
+import { getMovieHistory, getRecentContentChanges, getShowHistory } from '../controllers/contentHistoryController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
+import express from 'express';
+
+const router = express.Router();
+
+router.get('/api/v1/shows/:showId/history', requirePermission('content:read'), getShowHistory);
+router.get('/api/v1/movies/:movieId/history', requirePermission('content:read'), getMovieHistory);
+router.get('/api/v1/content/changes', requirePermission('content:read'), getRecentContentChanges);
+
+export default router;
@@ -1,4 +1,6 @@
 import {
+  acceptPersonDuplicate,
+  bulkResolvePersonFailures,
   deleteEpisode,
   deletePerson,
   getDuplicateEpisodes,
@@ -10,17 +12,32 @@ import {
   getPeople,
   getPersonByTmdbId,
   getPersonDetails,
-  mergeAndDeletePerson,
+  getPersonDuplicates,
   getPersonFailure,
+  getPersonFailureSummary,
   getPersonFailures,
   getShowDetails,
   getShowProfiles,
   getShowSeasons,
   getShowSeasonsAndEpisodes,
-  getShowsWithDuplicates,
   getShowWatchProgress,
   getShows,
+  getShowsWithDuplicates,
+  importMovie,
+  importShow,
+  mergeAndDeletePerson,
+  previewPersonTmdbId,
+  refreshMovies,
+  refreshShows,
+  rejectPersonDuplicate,
+  resolveAllDuplicateEpisodes,
+  resolveDuplicateEpisodes,
   resolvePersonFailure,
+  retryPersonFailures,
+  searchPeople,
+  setEpisodeOverrides,
+  setMovieOverrides,
+  setShowOverrides,
   updateAllMovies,
   updateAllShows,
   updateMovie,
@@ -28,38 +45,76 @@ import {
   updatePersonTmdbId,
   updateShow,
 } from '../controllers/contentController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
 import express from 'express';
 
 const router = express.Router();
 
-router.get('/api/v1/shows', getShows);
-router.get('/api/v1/shows/duplicates', getShowsWithDuplicates);
-router.get('/api/v1/shows/:showId', getFullShowDetails);
-router.get('/api/v1/shows/:showId/details', getShowDetails);
-router.get('/api/v1/shows/:showId/seasons', getShowSeasons);
-router.get('/api/v1/shows/:showId/seasonsEpisodes', getShowSeasonsAndEpisodes);
-router.get('/api/v1/shows/:showId/profiles', getShowProfiles);
-router.get('/api/v1/shows/:showId/watchProgress', getShowWatchProgress);
-router.get('/api/v1/shows/:showId/duplicateEpisodes', getDuplicateEpisodes);
-router.delete('/api/v1/shows/:showId/episodes/:episodeId', deleteEpisode);
-router.post('/api/v1/shows/update', updateShow);
-router.post('/api/v1/shows/updateAll', updateAllShows);
-router.get('/api/v1/movies', getMovies);
-router.get('/api/v1/movies/:movieId', getFullMovieDetails);
-router.get('/api/v1/movies/:movieId/details', getMovieDetails);
-router.get('/api/v1/movies/:movieId/profiles', getMovieProfiles);
-router.post('/api/v1/movies/update', updateMovie);
-router.post('/api/v1/movies/updateAll', updateAllMovies);
+router.get('/api/v1/shows', requirePermission('content:read'), getShows);
+router.post('/api/v1/shows', requirePermission('content:write'), importShow);
+router.get('/api/v1/shows/duplicates', requirePermission('content:read'), getShowsWithDuplicates);
+router.post('/api/v1/shows/duplicates/resolve', requirePermission('content:delete'), resolveAllDuplicateEpisodes);
+router.get('/api/v1/shows/:showId', requirePermission('content:read'), getFullShowDetails);
+router.get('/api/v1/shows/:showId/details', requirePermission('content:read'), getShowDetails);
+router.get('/api/v1/shows/:showId/seasons', requirePermission('content:read'), getShowSeasons);
+router.get('/api/v1/shows/:showId/seasonsEpisodes', requirePermission('content:read'), getShowSeasonsAndEpisodes);
+router.get('/api/v1/shows/:showId/profiles', requirePermission('content:read'), getShowProfiles);
+router.get('/api/v1/shows/:showId/watchProgress', requirePermission('content:read'), getShowWatchProgress);
+router.get('/api/v1/shows/:showId/duplicateEpisodes', requirePermission('content:read'), getDuplicateEpisodes);
+router.post(
+  '/api/v1/shows/:showId/duplicateEpisodes/resolve',
+  requirePermission('content:delete'),
+  resolveDuplicateEpisodes,
+);
+router.put('/api/v1/shows/:showId/overrides', requirePermission('content:write'), setShowOverrides);
+router.delete('/api/v1/shows/:showId/episodes/:episodeId', requirePermission('content:delete'), deleteEpisode);
+router.put(
+  '/api/v1/shows/:showId/episodes/:episodeId/overrides',
+  requirePermission('content:write'),
+  setEpisodeOverrides,
+);
+router.post('/api/v1/shows/update', requirePermission('content:write'), updateShow);
+router.post('/api/v1/shows/updateAll', requirePermission('content:write'), updateAllShows);
+router.post('/api/v1/shows/refresh', requirePermission('content:write'), refreshShows);
+router.get('/api/v1/movies', requirePermission('content:read'), getMovies);
+router.post('/api/v1/movies', requirePermission('content:write'), importMovie);
+router.get('/api/v1/movies/:movieId', requirePermission('content:read'), getFullMovieDetails);
+router.get('/api/v1/movies/:movieId/details', requirePermission('content:read'), getMovieDetails);
+router.get('/api/v1/movies/:movieId/profiles', requirePermission('content:read'), getMovieProfiles);
+router.put('/api/v1/movies/:movieId/overrides', requirePermission('content:write'), setMovieOverrides);
+router.post('/api/v1/movies/update', requirePermission('content:write'), updateMovie);
+router.post('/api/v1/movies/updateAll', requirePermission('content:write'), updateAllMovies);
+router.post('/api/v1/movies/refresh', requirePermission('content:write'), refreshMovies);
 // People — static sub-paths must come before /:personId to avoid route collision
-router.get('/api/v1/people', getPeople);
-router.get('/api/v1/people/failures', getPersonFailures);
-router.get('/api/v1/people/failures/:failureId', getPersonFailure);
-router.put('/api/v1/people/failures/:personId/resolve', resolvePersonFailure);
-router.post('/api/v1/people/update', updatePerson);
-router.get('/api/v1/people/by-tmdb/:tmdbId', getPersonByTmdbId);
-router.get('/api/v1/people/:personId', getPersonDetails);
-router.post('/api/v1/people/:personId/merge/:targetPersonId', mergeAndDeletePerson);
-router.delete('/api/v1/people/:personId', deletePerson);
-router.put('/api/v1/people/:personId/tmdb-id', updatePersonTmdbId);
+router.get('/api/v1/people', requirePermission('content:read'), getPeople);
+router.get('/api/v1/people/search', requirePermission('content:read'), searchPeople);
+router.get('/api/v1/people/duplicates', requirePermission('content:read'), getPersonDuplicates);
+router.post(
+  '/api/v1/people/duplicates/:personId/merge/:targetPersonId',
+  requirePermission('content:delete'),
+  acceptPersonDuplicate,
+);
+router.post(
+  '/api/v1/people/duplicates/:personId/reject/:otherPersonId',
+  requirePermission('content:write'),
+  rejectPersonDuplicate,
+);
+router.get('/api/v1/people/failures', requirePermission('content:read'), getPersonFailures);
+router.get('/api/v1/people/failures/summary', requirePermission('content:read'), getPersonFailureSummary);
+router.post('/api/v1/people/failures/retry', requirePermission('content:write'), retryPersonFailures);
+router.put('/api/v1/people/failures/bulk-resolve', requirePermission('content:write'), bulkResolvePersonFailures);
+router.get('/api/v1/people/failures/:failureId', requirePermission('content:read'), getPersonFailure);
+router.put('/api/v1/people/failures/:personId/resolve', requirePermission('content:write'), resolvePersonFailure);
+router.post('/api/v1/people/update', requirePermission('content:write'), updatePerson);
+router.get('/api/v1/people/by-tmdb/:tmdbId', requirePermission('content:read'), getPersonByTmdbId);
+router.get('/api/v1/people/:personId', requirePermission('content:read'), getPersonDetails);
+router.post(
+  '/api/v1/people/:personId/merge/:targetPersonId',
+  requirePermission('content:delete'),
+  mergeAndDeletePerson,
+);
+router.delete('/api/v1/people/:personId', requirePermission('content:delete'), deletePerson);
+router.get('/api/v1/people/:personId/tmdb-id/preview', requirePermission('content:read'), previewPersonTmdbId);
+router.put('/api/v1/people/:personId/tmdb-id', requirePermission('content:write'), updatePersonTmdbId);
 
 export default router;
@@ -0,0 +1,17 @@
+import {
+  cancelContentUpdateRun,
+  getContentUpdateRun,
+  getContentUpdateRuns,
+  streamContentUpdateRun,
+} from '../controllers/contentUpdateRunController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
+import express from 'express';
+
+const router = express.Router();
+
+router.get('/api/v1/content/update-runs', requirePermission('content:read'), getContentUpdateRuns);
+router.get('/api/v1/content/update-runs/:runId', requirePermission('content:read'), getContentUpdateRun);
+router.get('/api/v1/content/update-runs/:runId/stream', requirePermission('content:read'), streamContentUpdateRun);
+router.post('/api/v1/content/update-runs/:runId/cancel', requirePermission('content:write'), cancelContentUpdateRun);
+
+export default router;
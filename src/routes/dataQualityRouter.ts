@@ -0,0 +1,10 @@
+import { fixContentIssue, getContentIssues } from '../controllers/dataQualityController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
+import express from 'express';
+
+const router = express.Router();
+
+router.get('/api/v1/admin/content/issues', requirePermission('content:read'), getContentIssues);
+router.post('/api/v1/admin/content/issues/:issueId/fix', requirePermission('content:write'), fixContentIssue);
+
+export default router;
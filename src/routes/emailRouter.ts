@@ -12,21 +12,26 @@ import {
   sendWeeklyEmailToAll,
   updateEmailTemplate,
 } from '../controllers/emailController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
 import express from 'express';
 
 const router = express.Router();
 
-router.post('/api/v1/admin/email/digest/preview-account', previewWeeklyEmailByAccount);
-router.post('/api/v1/admin/email/digest/send-account', sendWeeklyDigestEmailByAccount);
-router.post('/api/v1/admin/email/discover/send-account', sendWeeklyDiscoverEmailByAccount);
-router.post('/api/v1/admin/email/weekly/send-account', sendWeeklyEmailByAccount);
-router.post('/api/v1/admin/email/weekly/send-all', sendWeeklyEmailToAll);
-router.get('/api/v1/admin/email/templates', getEmailTemplates);
-router.post('/api/v1/admin/email/templates', createEmailTemplate);
-router.put('/api/v1/admin/email/templates/:templateId', updateEmailTemplate);
-router.delete('/api/v1/admin/email/templates/:templateId', deleteEmailTemplate);
-router.get('/api/v1/admin/email/emails', getEmails);
-router.post('/api/v1/admin/email/emails', sendEmail);
-router.delete('/api/v1/admin/email/emails/:emailId', deleteEmail);
+router.post('/api/v1/admin/email/digest/preview-account', requirePermission('email:read'), previewWeeklyEmailByAccount);
+router.post('/api/v1/admin/email/digest/send-account', requirePermission('email:send'), sendWeeklyDigestEmailByAccount);
+router.post(
+  '/api/v1/admin/email/discover/send-account',
+  requirePermission('email:send'),
+  sendWeeklyDiscoverEmailByAccount,
+);
+router.post('/api/v1/admin/email/weekly/send-account', requirePermission('email:send'), sendWeeklyEmailByAccount);
+router.post('/api/v1/admin/email/weekly/send-all', requirePermission('email:send'), sendWeeklyEmailToAll);
+router.get('/api/v1/admin/email/templates', requirePermission('email:read'), getEmailTemplates);
+router.post('/api/v1/admin/email/templates', requirePermission('email:send'), createEmailTemplate);
+router.put('/api/v1/admin/email/templates/:templateId', requirePermission('email:send'), updateEmailTemplate);
+router.delete('/api/v1/admin/email/templates/:templateId', requirePermission('email:send'), deleteEmailTemplate);
+router.get('/api/v1/admin/email/emails', requirePermission('email:read'), getEmails);
+router.post('/api/v1/admin/email/emails', requirePermission('email:send'), sendEmail);
+router.delete('/api/v1/admin/email/emails/:emailId', requirePermission('email:send'), deleteEmail);
 
 export default router;
@@ -10,19 +10,28 @@ import {
   getMonthlyPerformanceSummary,
   getPerformanceOverview,
 } from '../controllers/healthController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
 import express from 'express';
 
 const router = express.Router();
 
-router.get('/api/v1/admin/health/db', getDBHealth);
-router.get('/api/v1/admin/health/db/query-stats', getDBQueryStats);
-router.get('/api/v1/admin/health/db/query-history', getDBQueryHistory);
-router.get('/api/v1/admin/health/db/performance-trends', getHistoricalPerformanceTrends);
-router.get('/api/v1/admin/health/db/slowest-queries', getHistoricalSlowestQueries);
-router.get('/api/v1/admin/health/db/archive-logs', getArchiveLogs);
-router.get('/api/v1/admin/health/db/archive-statistics', getArchiveStatistics);
-router.get('/api/v1/admin/health/db/performance-overview', getPerformanceOverview);
-router.get('/api/v1/admin/health/db/monthly-performance', getMonthlyPerformanceSummary);
-router.post('/api/v1/admin/health/db/archive-performance', archiveDailyPerformance);
+router.get('/api/v1/admin/health/db', requirePermission('system:read'), getDBHealth);
+router.get('/api/v1/admin/health/db/query-stats', requirePermission('system:read'), getDBQueryStats);
+router.get('/api/v1/admin/health/db/query-history', requirePermission('system:read'), getDBQueryHistory);
+router.get(
+  '/api/v1/admin/health/db/performance-trends',
+  requirePermission('system:read'),
+  getHistoricalPerformanceTrends,
+);
+router.get('/api/v1/admin/health/db/slowest-queries', requirePermission('system:read'), getHistoricalSlowestQueries);
+router.get('/api/v1/admin/health/db/archive-logs', requirePermission('system:read'), getArchiveLogs);
+router.get('/api/v1/admin/health/db/archive-statistics', requirePermission('system:read'), getArchiveStatistics);
+router.get('/api/v1/admin/health/db/performance-overview', requirePermission('system:read'), getPerformanceOverview);
+router.get(
+  '/api/v1/admin/health/db/monthly-performance',
+  requirePermission('system:read'),
+  getMonthlyPerformanceSummary,
+);
+router.post('/api/v1/admin/health/db/archive-performance', requirePermission('system:manage'), archiveDailyPerformance);
 
 export default router;
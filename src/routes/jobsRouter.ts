@@ -1,13 +1,14 @@
 import { executeJob, getSchedule, getStatus, pauseAll, resumeAll, updateSchedule } from '../controllers/jobsController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
 import express from 'express';
 
 const router = express.Router();
 
-router.get('/api/v1/admin/jobs/status', getStatus);
-router.post('/api/v1/admin/jobs/pause', pauseAll);
-router.post('/api/v1/admin/jobs/resume', resumeAll);
-router.post('/api/v1/admin/jobs/execute', executeJob);
-router.put('/api/v1/admin/jobs/update-schedule', updateSchedule);
-router.get('/api/v1/admin/jobs/schedule', getSchedule);
+router.get('/api/v1/admin/jobs/status', requirePermission('jobs:read'), getStatus);
+router.post('/api/v1/admin/jobs/pause', requirePermission('jobs:manage'), pauseAll);
+router.post('/api/v1/admin/jobs/resume', requirePermission('jobs:manage'), resumeAll);
+router.post('/api/v1/admin/jobs/execute', requirePermission('jobs:manage'), executeJob);
+router.put('/api/v1/admin/jobs/update-schedule', requirePermission('jobs:manage'), updateSchedule);
+router.get('/api/v1/admin/jobs/schedule', requirePermission('jobs:read'), getSchedule);
 
 export default router;
@@ -0,0 +1,9 @@
+import { getAccountLifecycle } from '../controllers/lifecycleController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
+import express from 'express';
+
+const router = express.Router();
+
+router.get('/api/v1/admin/accounts/lifecycle', requirePermission('accounts:read'), getAccountLifecycle);
+
+export default router;
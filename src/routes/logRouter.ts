@@ -1,9 +1,10 @@
 import { getLogs, streamLogs } from '../controllers/logsController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
 import express from 'express';
 
 const router = express.Router();
 
-router.get('/api/v1/logs', getLogs);
-router.get('/api/v1/logs/stream', streamLogs);
+router.get('/api/v1/logs', requirePermission('logs:read'), getLogs);
+router.get('/api/v1/logs/stream', requirePermission('logs:read'), streamLogs);
 
 export default router;
@@ -4,13 +4,14 @@ import {
   getAllNotifications,
   updateNotification,
 } from '../controllers/notificationController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
 import express from 'express';
 
 const router = express.Router();
 
-router.get('/api/v1/notifications', getAllNotifications);
-router.post('/api/v1/notifications', addNotification);
-router.put('/api/v1/notifications/:notificationId', updateNotification);
-router.delete('/api/v1/notifications/:notificationId', deleteNotification);
+router.get('/api/v1/notifications', requirePermission('notifications:read'), getAllNotifications);
+router.post('/api/v1/notifications', requirePermission('notifications:write'), addNotification);
+router.put('/api/v1/notifications/:notificationId', requirePermission('notifications:write'), updateNotification);
+router.delete('/api/v1/notifications/:notificationId', requirePermission('notifications:write'), deleteNotification);
 
 export default router;
@@ -0,0 +1,17 @@
+import {
+  getOrphanCleanupRun,
+  getOrphanCleanupRuns,
+  getOrphans,
+  runOrphanCleanup,
+} from '../controllers/orphanController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
+import express from 'express';
+
+const router = express.Router();
+
+router.get('/api/v1/admin/content/orphans', requirePermission('content:read'), getOrphans);
+router.post('/api/v1/admin/content/orphans/cleanup', requirePermission('content:delete'), runOrphanCleanup);
+router.get('/api/v1/admin/content/orphans/runs', requirePermission('content:read'), getOrphanCleanupRuns);
+router.get('/api/v1/admin/content/orphans/runs/:runId', requirePermission('content:read'), getOrphanCleanupRun);
+
+export default router;
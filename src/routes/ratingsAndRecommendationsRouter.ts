@@ -2,20 +2,21 @@ import {
   deleteRating,
   deleteRecommendation,
   getContentRatingSummary,
-  getRecommendationsWithAttribution,
   getRatings,
+  getRecommendationsWithAttribution,
   getTopRecommendedContent,
 } from '../controllers/ratingsAndRecommendationsController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
 import express from 'express';
 
 const router = express.Router();
 
-router.get('/api/v1/shows/:showId/ratings', getContentRatingSummary);
-router.get('/api/v1/movies/:movieId/ratings', getContentRatingSummary);
-router.get('/api/v1/ratings', getRatings);
-router.delete('/api/v1/ratings/:ratingId', deleteRating);
-router.get('/api/v1/recommendations/top', getTopRecommendedContent);
-router.get('/api/v1/recommendations', getRecommendationsWithAttribution);
-router.delete('/api/v1/recommendations/:id', deleteRecommendation);
+router.get('/api/v1/shows/:showId/ratings', requirePermission('content:read'), getContentRatingSummary);
+router.get('/api/v1/movies/:movieId/ratings', requirePermission('content:read'), getContentRatingSummary);
+router.get('/api/v1/ratings', requirePermission('content:read'), getRatings);
+router.delete('/api/v1/ratings/:ratingId', requirePermission('content:delete'), deleteRating);
+router.get('/api/v1/recommendations/top', requirePermission('content:read'), getTopRecommendedContent);
+router.get('/api/v1/recommendations', requirePermission('content:read'), getRecommendationsWithAttribution);
+router.delete('/api/v1/recommendations/:id', requirePermission('content:delete'), deleteRecommendation);
 
 export default router;
@@ -13,6 +13,8 @@ import {
   getAccountWatchingVelocity,
   getProfileComparison,
 } from '../../controllers/accountStatisticsController';
+import { requirePermission } from '../../middleware/authorizationMiddleware';
+import { rejectTrashedAccount } from '../../middleware/trashMiddleware';
 import { validateSchema } from '@ajgifford/keepwatching-common-server';
 import { logRequestContext } from '@ajgifford/keepwatching-common-server/middleware';
 import { accountIdParamSchema } from '@ajgifford/keepwatching-common-server/schema';
@@ -20,8 +22,12 @@ import express from 'express';
 
 const router = express.Router();
 
+// Trashed accounts are only reachable through the trash endpoints
+router.param('accountId', rejectTrashedAccount);
+
 router.get(
   '/api/v1/accounts/:accountId/statistics',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountStatistics,
@@ -29,6 +35,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/velocity',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountWatchingVelocity,
@@ -36,6 +43,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/activity/timeline',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountActivityTimeline,
@@ -43,6 +51,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/binge',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountBingeWatchingStats,
@@ -50,6 +59,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/streaks',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountWatchStreakStats,
@@ -57,6 +67,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/time-to-watch',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountTimeToWatchStats,
@@ -64,6 +75,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/seasonal',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountSeasonalViewingStats,
@@ -71,6 +83,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/milestones',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountMilestoneStats,
@@ -78,6 +91,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/content-depth',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountContentDepthStats,
@@ -85,6 +99,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/content-discovery',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountContentDiscoveryStats,
@@ -92,6 +107,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/abandonment-risk',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountAbandonmentRiskStats,
@@ -99,6 +115,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/unaired-content',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getAccountUnairedContentStats,
@@ -106,6 +123,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/statistics/profile-comparison',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountIdParamSchema, 'params'),
   getProfileComparison,
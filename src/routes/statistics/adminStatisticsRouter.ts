@@ -10,19 +10,36 @@ import {
   getPlatformTrends,
   getTrendingContent,
 } from '../../controllers/adminStatisticsController';
+import { requirePermission } from '../../middleware/authorizationMiddleware';
+import { rejectTrashedAccount } from '../../middleware/trashMiddleware';
 import express from 'express';
 
 const router = express.Router();
 
-router.get('/api/v1/admin/statistics/platform/overview', getPlatformOverview);
-router.get('/api/v1/admin/statistics/platform/trends', getPlatformTrends);
-router.get('/api/v1/admin/statistics/accounts/health', getAccountHealthMetrics);
-router.get('/api/v1/admin/statistics/accounts/:accountId/health', getAccountHealth);
-router.get('/api/v1/admin/statistics/accounts/rankings', getAccountRankings);
-router.get('/api/v1/admin/statistics/content/popular', getContentPopularity);
-router.get('/api/v1/admin/statistics/content/trending', getTrendingContent);
-router.get('/api/v1/admin/statistics/content/:contentId/engagement', getContentEngagement);
-router.get('/api/v1/admin/statistics/dashboard', getAdminDashboard);
-router.post('/api/v1/admin/statistics/achievements/backfill', backfillAchievements);
+// Trashed accounts are only reachable through the trash endpoints
+router.param('accountId', rejectTrashedAccount);
+
+router.get('/api/v1/admin/statistics/platform/overview', requirePermission('statistics:read'), getPlatformOverview);
+router.get('/api/v1/admin/statistics/platform/trends', requirePermission('statistics:read'), getPlatformTrends);
+router.get('/api/v1/admin/statistics/accounts/health', requirePermission('statistics:read'), getAccountHealthMetrics);
+router.get(
+  '/api/v1/admin/statistics/accounts/:accountId/health',
+  requirePermission('statistics:read'),
+  getAccountHealth,
+);
+router.get('/api/v1/admin/statistics/accounts/rankings', requirePermission('statistics:read'), getAccountRankings);
+router.get('/api/v1/admin/statistics/content/popular', requirePermission('statistics:read'), getContentPopularity);
+router.get('/api/v1/admin/statistics/content/trending', requirePermission('statistics:read'), getTrendingContent);
+router.get(
+  '/api/v1/admin/statistics/content/:contentId/engagement',
+  requirePermission('statistics:read'),
+  getContentEngagement,
+);
+router.get('/api/v1/admin/statistics/dashboard', requirePermission('statistics:read'), getAdminDashboard);
+router.post(
+  '/api/v1/admin/statistics/achievements/backfill',
+  requirePermission('statistics:write'),
+  backfillAchievements,
+);
 
 export default router;
@@ -15,6 +15,8 @@ import {
   getWatchingVelocity,
   getWeeklyActivity,
 } from '../../controllers/profileStatisticsController';
+import { requirePermission } from '../../middleware/authorizationMiddleware';
+import { rejectTrashedAccount, rejectTrashedProfile } from '../../middleware/trashMiddleware';
 import { validateSchema } from '@ajgifford/keepwatching-common-server';
 import { logRequestContext } from '@ajgifford/keepwatching-common-server/middleware';
 import { accountAndProfileIdsParamSchema } from '@ajgifford/keepwatching-common-server/schema';
@@ -22,8 +24,13 @@ import express from 'express';
 
 const router = express.Router();
 
+// Trashed accounts and profiles are only reachable through the trash endpoints
+router.param('accountId', rejectTrashedAccount);
+router.param('profileId', rejectTrashedProfile);
+
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getProfileStatistics,
@@ -31,6 +38,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/velocity',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getWatchingVelocity,
@@ -38,6 +46,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/activity/daily',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getDailyActivity,
@@ -45,6 +54,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/activity/weekly',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getWeeklyActivity,
@@ -52,6 +62,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/activity/monthly',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getMonthlyActivity,
@@ -59,6 +70,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/activity/timeline',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getActivityTimeline,
@@ -66,6 +78,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/binge',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getBingeWatchingStats,
@@ -73,6 +86,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/streaks',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getWatchStreakStats,
@@ -80,6 +94,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/time-to-watch',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getTimeToWatchStats,
@@ -87,6 +102,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/seasonal',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getSeasonalViewingStats,
@@ -94,6 +110,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/milestones',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getMilestoneStats,
@@ -101,6 +118,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/content-depth',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getContentDepthStats,
@@ -108,6 +126,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/content-discovery',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getContentDiscoveryStats,
@@ -115,6 +134,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/abandonment-risk',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getAbandonmentRiskStats,
@@ -122,6 +142,7 @@ router.get(
 
 router.get(
   '/api/v1/accounts/:accountId/profiles/:profileId/statistics/unaired-content',
+  requirePermission('statistics:read'),
   logRequestContext,
   validateSchema(accountAndProfileIdsParamSchema, 'params'),
   getUnairedContentStats,
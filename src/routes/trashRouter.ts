@@ -0,0 +1,10 @@
+import { getTrash, restoreTrashEntry } from '../controllers/trashController';
+import { requirePermission } from '../middleware/authorizationMiddleware';
+import express from 'express';
+
+const router = express.Router();
+
+router.get('/api/v1/admin/trash', requirePermission('accounts:read'), getTrash);
+router.post('/api/v1/admin/trash/:trashId/restore', requirePermission('accounts:write'), restoreTrashEntry);
+
+export default router;
@@ -1,16 +1,25 @@
 import 'dotenv/config';
 
+import { initAdminJobs, shutdownAdminJobs } from './jobs/adminJobs';
+import { auditMutations } from './middleware/auditMiddleware';
 import { authenticateAdmin } from './middleware/authenticationMiddleware';
 import accountRouter from './routes/accountManagementRouter';
 import adminRouter from './routes/adminRouter';
+import auditRouter from './routes/auditRouter';
+import contentHistoryRouter from './routes/contentHistoryRouter';
 import contentRouter from './routes/contentRouter';
-import ratingsAndRecommendationsRouter from './routes/ratingsAndRecommendationsRouter';
+import contentUpdateRunRouter from './routes/contentUpdateRunRouter';
+import dataQualityRouter from './routes/dataQualityRouter';
 import emailRouter from './routes/emailRouter';
 import healthRouter from './routes/healthRouter';
 import jobsRouter from './routes/jobsRouter';
+import lifecycleRouter from './routes/lifecycleRouter';
 import logRouter from './routes/logRouter';
 import notificationRouter from './routes/notificationsRouter';
+import orphanRouter from './routes/orphanRouter';
+import ratingsAndRecommendationsRouter from './routes/ratingsAndRecommendationsRouter';
 import statisticsRouter from './routes/statisticsRouter';
+import trashRouter from './routes/trashRouter';
 import { errorHandler } from '@ajgifford/keepwatching-common-server';
 import {
   getAdminServiceAccountPath,
@@ -102,16 +111,24 @@ const limiter = rateLimit({
 
 app.use('/api/', limiter);
 app.use(authenticateAdmin);
+app.use(auditMutations);
 app.use(accountRouter);
 app.use(adminRouter);
+app.use(auditRouter);
 app.use(ratingsAndRecommendationsRouter);
 app.use(contentRouter);
+app.use(contentHistoryRouter);
+app.use(contentUpdateRunRouter);
+app.use(dataQualityRouter);
 app.use(emailRouter);
 app.use(healthRouter);
 app.use(jobsRouter);
+app.use(lifecycleRouter);
 app.use(logRouter);
 app.use(notificationRouter);
+app.use(orphanRouter);
 app.use(statisticsRouter);
+app.use(trashRouter);
 
 const startServer = async () => {
   try {
@@ -165,6 +182,7 @@ const startServer = async () => {
     // Initialize scheduled jobs (they will publish to Redis when complete)
     cliLogger.info('Initializing scheduled jobs...');
     initScheduledJobs();
+    initAdminJobs();
     cliLogger.info('Scheduled jobs initialized');
 
     httpServer.listen(PORT, () => {
@@ -189,6 +207,7 @@ const gracefulShutdown = (signal: string) => {
     cliLogger.info('HTTP server closed');
 
     shutdownJobs();
+    shutdownAdminJobs();
 
     try {
       await redisPubSubService.disconnect();
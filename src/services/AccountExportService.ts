@@ -0,0 +1,229 @@
+import * as accountsDb from '../db/accountsDb';
+import * as exportDb from '../db/exportDb';
+import { AdminActor } from '../types/adminTypes';
+import { AccountExport } from '../types/exportTypes';
+import { toNdjsonLine } from '../utils/ndjson';
+import { trashService } from './TrashService';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import {
+  accountService,
+  adminCommunityRecommendationsService,
+  adminMovieService,
+  adminRatingsService,
+  adminShowService,
+  notificationsService,
+  preferencesService,
+  profileService,
+  profileStatisticsService,
+} from '@ajgifford/keepwatching-common-server/services';
+import { randomUUID } from 'crypto';
+import { ReadStream, createReadStream, createWriteStream } from 'fs';
+import { mkdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+
+const DEFAULT_RETENTION_HOURS = 72;
+const EXPORT_PAGE_SIZE = 500;
+
+type PagedLoader = (page: number, offset: number, limit: number) => Promise<{ items: unknown[]; hasNextPage: boolean }>;
+
+/**
+ * Service for building full account data exports (GDPR-style).
+ * Exports are generated in the background as NDJSON bundles, one JSON record per line
+ * tagged with its `type`, and stay downloadable for ACCOUNT_EXPORT_RETENTION_HOURS (default 72).
+ */
+export class AccountExportService {
+  /**
+   * Get the directory export bundles are written to, from ACCOUNT_EXPORT_DIRECTORY (default ./exports)
+   */
+  getExportDirectory(): string {
+    return process.env.ACCOUNT_EXPORT_DIRECTORY || path.join(process.cwd(), 'exports');
+  }
+
+  /**
+   * Get the number of hours a completed export stays available
+   */
+  getRetentionHours(): number {
+    const hours = parseInt(process.env.ACCOUNT_EXPORT_RETENTION_HOURS ?? '', 10);
+    return Number.isInteger(hours) && hours > 0 ? hours : DEFAULT_RETENTION_HOURS;
+  }
+
+  /**
+   * Start building an export for an account. The returned export is pending; poll it until completed.
+   * @param accountId - Account to export
+   * @param admin - Admin requesting the export
+   * @returns The pending export, or null if the account does not exist
+   */
+  async startExport(accountId: number, admin: AdminActor): Promise<AccountExport | null> {
+    const [account] = await accountsDb.getAccountsByIds([accountId]);
+    if (!account) {
+      return null;
+    }
+
+    const exportId = randomUUID();
+    await exportDb.createExport(exportId, accountId, admin);
+
+    // Runs in the background; failures are recorded on the export rather than thrown
+    void this.runExport(exportId, account);
+
+    return exportDb.getExportById(exportId);
+  }
+
+  /**
+   * Get every export for an account, newest first
+   * @param accountId - Account id
+   */
+  async getExports(accountId: number): Promise<AccountExport[]> {
+    return exportDb.getExportsByAccount(accountId);
+  }
+
+  /**
+   * Get one export belonging to an account
+   * @param accountId - Account id
+   * @param exportId - Export id
+   * @returns The export, or null if it does not exist or belongs to another account
+   */
+  async getExport(accountId: number, exportId: string): Promise<AccountExport | null> {
+    const accountExport = await exportDb.getExportById(exportId);
+    return accountExport && accountExport.accountId === accountId ? accountExport : null;
+  }
+
+  /**
+   * Open a completed export bundle for streaming
+   * @param filePath - Path of the bundle
+   */
+  openExportFile(filePath: string): ReadStream {
+    return createReadStream(filePath);
+  }
+
+  /**
+   * Fail exports that were still in progress when the server last stopped
+   */
+  async failInterruptedExports(): Promise<void> {
+    try {
+      const count = await exportDb.failInterruptedExports();
+      if (count > 0) {
+        cliLogger.warn(`Marked ${count} interrupted account exports as failed`);
+      }
+    } catch (error) {
+      cliLogger.error('Failed to mark interrupted account exports as failed:', error);
+    }
+  }
+
+  /**
+   * Delete the bundles of completed exports whose download window has passed
+   * @returns Number of exports expired
+   */
+  async purgeExpiredExports(): Promise<number> {
+    const expired = await exportDb.getExpiredExports();
+    let count = 0;
+
+    for (const accountExport of expired) {
+      try {
+        if (accountExport.filePath) {
+          await rm(accountExport.filePath, { force: true });
+        }
+        await exportDb.markExportExpired(accountExport.id);
+        count++;
+      } catch (error) {
+        cliLogger.error(`Failed to expire account export ${accountExport.id}:`, error);
+      }
+    }
+
+    cliLogger.info(`Account export cleanup complete: ${count} expired`);
+    return count;
+  }
+
+  private async runExport(exportId: string, account: accountsDb.AccountSummary): Promise<void> {
+    const directory = this.getExportDirectory();
+    const filePath = path.join(directory, `${exportId}.ndjson`);
+
+    try {
+      await exportDb.markExportRunning(exportId);
+      await mkdir(directory, { recursive: true });
+
+      // pipeline rejects on open and write errors (EACCES, ENOSPC, ...) as well as source failures
+      await pipeline(this.generateBundle(exportId, account), createWriteStream(filePath));
+
+      const { size } = await stat(filePath);
+      await exportDb.markExportCompleted(exportId, filePath, size, this.getRetentionHours());
+      cliLogger.info(`Account export ${exportId} for account ${account.accountId} completed (${size} bytes)`);
+    } catch (error) {
+      cliLogger.error(`Account export ${exportId} for account ${account.accountId} failed:`, error);
+      try {
+        try {
+          await rm(filePath, { force: true });
+        } finally {
+          await exportDb.markExportFailed(exportId, error instanceof Error ? error.message : String(error));
+        }
+      } catch (cleanupError) {
+        cliLogger.error(`Failed to record account export ${exportId} failure:`, cleanupError);
+      }
+    }
+  }
+
+  private async *generateBundle(exportId: string, account: accountsDb.AccountSummary): AsyncGenerator<string> {
+    const { accountId } = account;
+    const line = (type: string, data: unknown, extra: Record<string, unknown> = {}) =>
+      toNdjsonLine({ type, ...extra, data });
+
+    yield line('export', { exportId, accountId, generatedAt: new Date().toISOString() });
+    yield line('account', await accountService.getCombinedAccountByEmail(account.email));
+    yield line('preferences', await preferencesService.getAccountPreferences(accountId));
+
+    const profiles = await trashService.excludeTrashedProfiles(
+      accountId,
+      await profileService.getAdminProfilesByAccount(accountId),
+    );
+    for (const profile of profiles) {
+      const profileId: number = profile.id;
+      yield line('profile', profile);
+
+      yield* this.generatePages('show', { profileId }, async (page, offset, limit) => {
+        const result = await adminShowService.getAllShowsByProfile(profileId, page, offset, limit);
+        return { items: result.shows, hasNextPage: result.pagination.hasNextPage };
+      });
+      yield* this.generatePages('movie', { profileId }, async (page, offset, limit) => {
+        const result = await adminMovieService.getAllMoviesByProfile(profileId, page, offset, limit);
+        return { items: result.movies, hasNextPage: result.pagination.hasNextPage };
+      });
+
+      yield line('watchHistory', await profileStatisticsService.getActivityTimeline(profileId), { profileId });
+    }
+
+    for (const rating of await adminRatingsService.getAllRatings({ accountId })) {
+      yield line('rating', rating);
+    }
+    for (const recommendation of await adminCommunityRecommendationsService.getAllRecommendationsWithAttribution({
+      accountId,
+    })) {
+      yield line('recommendation', recommendation);
+    }
+    for (const notification of await notificationsService.getNotifications(accountId)) {
+      yield line('notification', notification);
+    }
+    for (const email of await exportDb.getEmailsSentToAccount(accountId)) {
+      yield line('email', email);
+    }
+  }
+
+  // Page through a profile list without the 100-row cap the list endpoints apply
+  private async *generatePages(
+    type: string,
+    extra: Record<string, unknown>,
+    loadPage: PagedLoader,
+  ): AsyncGenerator<string> {
+    for (let page = 1; ; page++) {
+      const { items, hasNextPage } = await loadPage(page, (page - 1) * EXPORT_PAGE_SIZE, EXPORT_PAGE_SIZE);
+      for (const item of items) {
+        yield toNdjsonLine({ type, ...extra, data: item });
+      }
+      if (!hasNextPage || items.length === 0) {
+        return;
+      }
+    }
+  }
+}
+
+// Export a singleton instance
+export const accountExportService = new AccountExportService();
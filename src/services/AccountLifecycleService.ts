@@ -0,0 +1,312 @@
+import * as accountsDb from '../db/accountsDb';
+import * as lifecycleDb from '../db/lifecycleDb';
+import {
+  AccountLifecycle,
+  AccountLifecycleEvaluation,
+  LIFECYCLE_STAGES,
+  LifecycleFilters,
+  LifecycleRunSummary,
+  LifecycleStage,
+  LifecycleThresholds,
+  ReengagementStage,
+} from '../types/lifecycleTypes';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { adminJobsService } from './AdminJobsService';
+import { isEmailEnabled } from '@ajgifford/keepwatching-common-server/config';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { accountService, accountStatisticsService, emailService } from '@ajgifford/keepwatching-common-server/services';
+import { CombinedAccount } from '@ajgifford/keepwatching-types';
+
+export const ACCOUNT_LIFECYCLE_JOB = 'accountLifecycle';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EVALUATION_CONCURRENCY = 5;
+const REENGAGEMENT_STAGES: ReengagementStage[] = ['dormant', 'at_risk', 'abandoned'];
+
+const DEFAULT_THRESHOLDS: LifecycleThresholds = {
+  dormantDays: 30,
+  atRiskDays: 60,
+  abandonedDays: 120,
+  atRiskAbandonmentRate: 50,
+  deletionReviewDays: 180,
+};
+
+// Used when no email template named lifecycle-<stage> exists
+const DEFAULT_REENGAGEMENT_EMAILS: Record<ReengagementStage, { subject: string; message: string }> = {
+  dormant: {
+    subject: 'We miss you at KeepWatching',
+    message: 'It has been a while since you last checked in. Your shows and movies are waiting for you.',
+  },
+  at_risk: {
+    subject: 'Your watchlist is waiting',
+    message: 'New episodes may have aired since your last visit. Sign in to catch up on what you are watching.',
+  },
+  abandoned: {
+    subject: 'Come back to KeepWatching',
+    message: 'We have not seen you in a long time. Sign in to pick up where you left off.',
+  },
+};
+
+/**
+ * Service for the account lifecycle workflow.
+ * Accounts are classified by how long they have been inactive, using the later of their last sign-in
+ * and their last watch status change:
+ * - active: inactive for less than LIFECYCLE_DORMANT_DAYS (default 30)
+ * - dormant: inactive for at least LIFECYCLE_DORMANT_DAYS
+ * - at_risk: inactive for at least LIFECYCLE_AT_RISK_DAYS (default 60), or dormant with an abandonment
+ *   rate of at least LIFECYCLE_AT_RISK_ABANDONMENT_RATE percent (default 50)
+ * - abandoned: inactive for at least LIFECYCLE_ABANDONED_DAYS (default 120)
+ * Re-engagement emails are opt-in: each stage listed in LIFECYCLE_REENGAGEMENT_STAGES (default none) emails the
+ * accounts that crossed into it since the previous run, once per inactive spell, using the email template named
+ * lifecycle-<stage> when one exists. An account's first evaluation only records a baseline, so turning emails on
+ * never emails the accounts that were already inactive. Unverified accounts
+ * inactive for LIFECYCLE_DELETION_REVIEW_DAYS (default 180) are flagged for deletion review; nothing is deleted.
+ */
+export class AccountLifecycleService {
+  /**
+   * Get the classification thresholds, from the LIFECYCLE_* environment variables
+   */
+  getThresholds(): LifecycleThresholds {
+    return {
+      dormantDays: readPositiveInt('LIFECYCLE_DORMANT_DAYS', DEFAULT_THRESHOLDS.dormantDays),
+      atRiskDays: readPositiveInt('LIFECYCLE_AT_RISK_DAYS', DEFAULT_THRESHOLDS.atRiskDays),
+      abandonedDays: readPositiveInt('LIFECYCLE_ABANDONED_DAYS', DEFAULT_THRESHOLDS.abandonedDays),
+      atRiskAbandonmentRate: readPositiveInt(
+        'LIFECYCLE_AT_RISK_ABANDONMENT_RATE',
+        DEFAULT_THRESHOLDS.atRiskAbandonmentRate,
+      ),
+      deletionReviewDays: readPositiveInt('LIFECYCLE_DELETION_REVIEW_DAYS', DEFAULT_THRESHOLDS.deletionReviewDays),
+    };
+  }
+
+  /**
+   * Get the stages that send a re-engagement email, from LIFECYCLE_REENGAGEMENT_STAGES (comma separated).
+   * Unset or empty turns re-engagement emails off.
+   */
+  getReengagementStages(): ReengagementStage[] {
+    const stages = (process.env.LIFECYCLE_REENGAGEMENT_STAGES ?? '').split(',').map((stage) => stage.trim());
+    return REENGAGEMENT_STAGES.filter((stage) => stages.includes(stage));
+  }
+
+  /**
+   * Classify an account from its inactivity and abandonment rate
+   * @param inactiveDays - Days since the account's last activity, null when it has never been active
+   * @param abandonmentRate - Percentage of started shows the account has abandoned, when known
+   * @param thresholds - Classification thresholds
+   */
+  classify(
+    inactiveDays: number | null,
+    abandonmentRate: number | null,
+    thresholds: LifecycleThresholds,
+  ): LifecycleStage {
+    const days = inactiveDays ?? Infinity;
+    if (days >= thresholds.abandonedDays) {
+      return 'abandoned';
+    }
+    if (days >= thresholds.atRiskDays) {
+      return 'at_risk';
+    }
+    if (days >= thresholds.dormantDays) {
+      return abandonmentRate !== null && abandonmentRate >= thresholds.atRiskAbandonmentRate ? 'at_risk' : 'dormant';
+    }
+    return 'active';
+  }
+
+  /**
+   * Classify every account, send due re-engagement emails and flag unverified accounts for deletion review
+   * @returns Summary of the run
+   */
+  async runLifecycle(): Promise<LifecycleRunSummary> {
+    const thresholds = this.getThresholds();
+    const [accounts, stats, lastWatchActivity, previous] = await Promise.all([
+      accountService.getAccounts(),
+      accountsDb.getAccountListStats(),
+      lifecycleDb.getLastWatchActivity(),
+      lifecycleDb.getLifecycleRecords(),
+    ]);
+
+    const listed = accounts.filter((account: CombinedAccount) => !stats.get(account.id)?.isDeleted);
+    const evaluations = await mapWithConcurrency(listed, EVALUATION_CONCURRENCY, (account: CombinedAccount) =>
+      this.evaluateAccount(account, lastWatchActivity.get(account.id) ?? null, thresholds),
+    );
+
+    const summary: LifecycleRunSummary = {
+      evaluated: evaluations.length,
+      stageCounts: { active: 0, dormant: 0, at_risk: 0, abandoned: 0 },
+      stageChanges: 0,
+      reengagementEmailsSent: { dormant: 0, at_risk: 0, abandoned: 0 },
+      flaggedForDeletionReview: 0,
+    };
+
+    for (const evaluation of evaluations) {
+      await lifecycleDb.saveEvaluation(evaluation);
+      summary.stageCounts[evaluation.stage]++;
+      if (previous.get(evaluation.accountId)?.stage !== evaluation.stage) {
+        summary.stageChanges++;
+      }
+      if (evaluation.flagForDeletionReview) {
+        summary.flaggedForDeletionReview++;
+      }
+    }
+
+    summary.reengagementEmailsSent = await this.sendReengagementEmails(evaluations, previous);
+    await lifecycleDb.removeStaleRecords(evaluations.map((evaluation) => evaluation.accountId));
+
+    cliLogger.info(
+      `Account lifecycle complete: ${summary.evaluated} evaluated, ${summary.stageChanges} stage changes, ` +
+        `${summary.flaggedForDeletionReview} flagged for deletion review`,
+    );
+    return summary;
+  }
+
+  /**
+   * Get the state of the lifecycle pipeline: stage counts, configuration, the last run of the
+   * lifecycle job and a page of account lifecycle records
+   * @param filters - Lifecycle filters
+   * @param page - Current page number
+   * @param offset - Number of records to skip
+   * @param limit - Page size
+   */
+  async getLifecycleState(filters: LifecycleFilters, page: number, offset: number, limit: number) {
+    const [stageCounts, accounts, totalCount] = await Promise.all([
+      lifecycleDb.getStageCounts(),
+      lifecycleDb.getLifecycleEntries(filters, limit, offset),
+      lifecycleDb.getLifecycleEntryCount(filters),
+    ]);
+
+    const stages = Object.fromEntries(LIFECYCLE_STAGES.map((stage) => [stage, 0])) as Record<LifecycleStage, number>;
+    let flaggedForDeletionReview = 0;
+    for (const count of stageCounts) {
+      stages[count.stage] = count.count;
+      flaggedForDeletionReview += count.flaggedForDeletionReview;
+    }
+
+    const totalPages = Math.ceil(totalCount / limit);
+    return {
+      summary: { stages, flaggedForDeletionReview },
+      thresholds: this.getThresholds(),
+      reengagementStages: this.getReengagementStages(),
+      lastRun: adminJobsService.getStatus().find((job) => job.name === ACCOUNT_LIFECYCLE_JOB) ?? null,
+      accounts,
+      pagination: {
+        totalCount,
+        totalPages,
+        currentPage: page,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  private async evaluateAccount(
+    account: CombinedAccount,
+    lastWatchActivity: Date | null,
+    thresholds: LifecycleThresholds,
+  ): Promise<AccountLifecycleEvaluation> {
+    const lastActivity = latestTime([
+      account.metadata?.lastSignInTime,
+      lastWatchActivity,
+      account.databaseCreatedAt ?? account.metadata?.creationTime,
+    ]);
+    const inactiveDays = lastActivity === null ? null : Math.max(0, Math.floor((Date.now() - lastActivity) / DAY_MS));
+
+    // The abandonment rate only decides between dormant and at risk, so skip the lookup for everyone else
+    let abandonmentRate: number | null = null;
+    if (inactiveDays !== null && inactiveDays >= thresholds.dormantDays && inactiveDays < thresholds.atRiskDays) {
+      abandonmentRate = await this.getAbandonmentRate(account.id);
+    }
+
+    return {
+      accountId: account.id,
+      stage: this.classify(inactiveDays, abandonmentRate, thresholds),
+      lastActivityAt: lastActivity === null ? null : new Date(lastActivity).toISOString(),
+      inactiveDays,
+      abandonmentRate,
+      flagForDeletionReview: !account.emailVerified && (inactiveDays ?? Infinity) >= thresholds.deletionReviewDays,
+    };
+  }
+
+  private async getAbandonmentRate(accountId: number): Promise<number | null> {
+    try {
+      const stats = await accountStatisticsService.getAccountAbandonmentRiskStats(accountId);
+      const rate = Number(stats?.abandonmentRate);
+      return isNaN(rate) ? null : rate;
+    } catch (error) {
+      cliLogger.error(`Failed to load abandonment risk stats for account ${accountId}:`, error);
+      return null;
+    }
+  }
+
+  private async sendReengagementEmails(
+    evaluations: AccountLifecycleEvaluation[],
+    previous: Map<number, AccountLifecycle>,
+  ): Promise<Record<ReengagementStage, number>> {
+    const sent: Record<ReengagementStage, number> = { dormant: 0, at_risk: 0, abandoned: 0 };
+    const stages = this.getReengagementStages();
+    if (stages.length === 0 || !isEmailEnabled()) {
+      return sent;
+    }
+
+    const templates: { name: string; subject: string; message: string }[] = await emailService.getEmailTemplates();
+
+    for (const stage of stages) {
+      const recipients = evaluations
+        .filter(
+          (evaluation) => evaluation.stage === stage && isReengagementDue(stage, previous.get(evaluation.accountId)),
+        )
+        .map((evaluation) => evaluation.accountId);
+      if (recipients.length === 0) {
+        continue;
+      }
+
+      const template = templates.find((candidate) => candidate.name === `lifecycle-${stage}`);
+      const { subject, message } = template ?? DEFAULT_REENGAGEMENT_EMAILS[stage];
+      try {
+        await emailService.sendScheduleOrSaveEmail({
+          subject,
+          message,
+          sendToAll: false,
+          recipients,
+          scheduledDate: null,
+          action: 'send',
+        });
+        await lifecycleDb.markReengagementSent(recipients, stage);
+        sent[stage] = recipients.length;
+      } catch (error) {
+        cliLogger.error(`Failed to send ${stage} re-engagement email to ${recipients.length} accounts:`, error);
+      }
+    }
+
+    return sent;
+  }
+}
+
+// Only accounts that crossed into the stage since the previous run are due, so an account evaluated for the first
+// time is a baseline and gets nothing. An account gets each stage's email once per inactive spell, and never an
+// earlier stage's email after a later one.
+function isReengagementDue(stage: ReengagementStage, previous: AccountLifecycle | undefined): boolean {
+  if (!previous || previous.stage === stage) {
+    return false;
+  }
+  if (previous.stage === 'active' || !previous.reengagementStage) {
+    return true;
+  }
+  return LIFECYCLE_STAGES.indexOf(stage) > LIFECYCLE_STAGES.indexOf(previous.reengagementStage);
+}
+
+function readPositiveInt(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isInteger(value) && value > 0 ? value : defaultValue;
+}
+
+function latestTime(values: (string | Date | null | undefined)[]): number | null {
+  const times = values
+    .filter((value): value is string | Date => Boolean(value))
+    .map((value) => new Date(value).getTime())
+    .filter((time) => !isNaN(time));
+  return times.length > 0 ? Math.max(...times) : null;
+}
+
+// Export a singleton instance
+export const accountLifecycleService = new AccountLifecycleService();
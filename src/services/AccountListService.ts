@@ -0,0 +1,141 @@
+import * as accountsDb from '../db/accountsDb';
+import { AccountListItem, AccountListQuery, AccountSortField, AccountSqlSortField } from '../types/accountListTypes';
+import { FirebaseUserDetails } from '../types/firebaseUserTypes';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { firebaseUserService } from './FirebaseUserService';
+import { accountService } from '@ajgifford/keepwatching-common-server/services';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Accounts on a page are combined with their Firebase users this many at a time
+const COMBINE_CONCURRENCY = 10;
+
+/**
+ * Service for searching, filtering, sorting and paging the combined account list. Accounts in the trash are excluded.
+ * The search, the profile filter, sorting and paging run in SQL, and only the accounts on the page are combined with
+ * their Firebase users. Email verification, last login and inactivity are only known to Firebase, so a query using
+ * them looks up the Firebase users of every account matching the SQL filters, in batches, and narrows, sorts and
+ * pages those here.
+ */
+export class AccountListService {
+  /**
+   * Get a page of accounts matching the query
+   * @param query - Search, filter and sort options
+   * @param page - Current page number
+   * @param offset - Number of accounts to skip
+   * @param limit - Page size
+   * @returns Accounts with their profile counts and pagination details
+   */
+  async getAccountList(query: AccountListQuery, page: number, offset: number, limit: number) {
+    const { sortBy } = query;
+    const { entries, totalCount } =
+      sortBy === 'lastLogin' || hasFirebaseFilters(query)
+        ? await this.getFirebaseFilteredPage(query, offset, limit)
+        : await this.getSqlPage(query, sortBy, offset, limit);
+
+    const totalPages = Math.ceil(totalCount / limit);
+    return {
+      accounts: await this.combineAccounts(entries),
+      pagination: {
+        totalCount,
+        totalPages,
+        currentPage: page,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  private async getSqlPage(query: AccountListQuery, sortBy: AccountSqlSortField, offset: number, limit: number) {
+    const [entries, totalCount] = await Promise.all([
+      accountsDb.getAccountListPage(query, sortBy, limit, offset),
+      accountsDb.countAccountList(query),
+    ]);
+    return { entries, totalCount };
+  }
+
+  private async getFirebaseFilteredPage(query: AccountListQuery, offset: number, limit: number) {
+    const candidates = await accountsDb.getAccountListEntries(query);
+    const firebaseUsers = await firebaseUserService.getUsers(candidates.map((entry) => entry.uid));
+    const inactiveSince = query.inactiveDays !== undefined ? Date.now() - query.inactiveDays * DAY_MS : null;
+
+    const matching = candidates.filter((entry) => {
+      const firebaseUser = firebaseUsers.get(entry.uid);
+      if (query.emailVerified !== undefined && firebaseUser?.emailVerified !== query.emailVerified) {
+        return false;
+      }
+      if (inactiveSince !== null) {
+        const lastLogin = parseTime(firebaseUser?.lastSignInTime);
+        if (lastLogin !== null && lastLogin > inactiveSince) {
+          return false;
+        }
+      }
+      return true;
+    });
+
+    const sorted = sortEntries(matching, firebaseUsers, query.sortBy, query.sortOrder);
+    return { entries: sorted.slice(offset, offset + limit), totalCount: sorted.length };
+  }
+
+  private async combineAccounts(entries: accountsDb.AccountListEntry[]): Promise<AccountListItem[]> {
+    const combined = await mapWithConcurrency(entries, COMBINE_CONCURRENCY, async (entry) => {
+      const account = await accountService.getCombinedAccountByEmail(entry.email);
+      return account ? { ...account, profileCount: entry.profileCount } : null;
+    });
+    return combined.filter((account): account is AccountListItem => account !== null);
+  }
+}
+
+function hasFirebaseFilters(query: AccountListQuery): boolean {
+  return query.emailVerified !== undefined || query.inactiveDays !== undefined;
+}
+
+function parseTime(value: string | Date | null | undefined): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+function sortEntries(
+  entries: accountsDb.AccountListEntry[],
+  firebaseUsers: Map<string, FirebaseUserDetails>,
+  sortBy: AccountSortField,
+  sortOrder: 'asc' | 'desc',
+): accountsDb.AccountListEntry[] {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  return [...entries].sort((a, b) => {
+    const left = getSortValue(a, firebaseUsers, sortBy);
+    const right = getSortValue(b, firebaseUsers, sortBy);
+
+    // Accounts without a value (e.g. never logged in) always sort last
+    if (left === null || right === null) {
+      return left === right ? a.accountId - b.accountId : left === null ? 1 : -1;
+    }
+    if (left === right) {
+      return a.accountId - b.accountId;
+    }
+    return (left < right ? -1 : 1) * direction;
+  });
+}
+
+function getSortValue(
+  entry: accountsDb.AccountListEntry,
+  firebaseUsers: Map<string, FirebaseUserDetails>,
+  sortBy: AccountSortField,
+): string | number | null {
+  switch (sortBy) {
+    case 'createdAt':
+      return parseTime(entry.createdAt);
+    case 'lastLogin':
+      return parseTime(firebaseUsers.get(entry.uid)?.lastSignInTime);
+    case 'profileCount':
+      return entry.profileCount;
+    case 'name':
+      return entry.name?.toLowerCase() ?? null;
+    case 'email':
+      return entry.email?.toLowerCase() ?? null;
+  }
+}
+
+// Export a singleton instance
+export const accountListService = new AccountListService();
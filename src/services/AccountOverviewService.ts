@@ -0,0 +1,79 @@
+import * as accountsDb from '../db/accountsDb';
+import {
+  ACCOUNT_OVERVIEW_SECTIONS,
+  AccountOverview,
+  AccountOverviewSectionName,
+  OverviewSection,
+} from '../types/accountOverviewTypes';
+import { trashService } from './TrashService';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import {
+  accountService,
+  accountStatisticsService,
+  adminCommunityRecommendationsService,
+  adminRatingsService,
+  adminStatisticsService,
+  notificationsService,
+  preferencesService,
+  profileService,
+} from '@ajgifford/keepwatching-common-server/services';
+
+/**
+ * Service that assembles everything support needs about an account into one document.
+ * Each section is loaded in parallel and fails independently, so one broken source
+ * still leaves the rest of the overview usable.
+ */
+export class AccountOverviewService {
+  /**
+   * Build the overview for an account
+   * @param accountId - Account id
+   * @returns The overview, or null if the account does not exist or is in the trash
+   */
+  async getAccountOverview(accountId: number): Promise<AccountOverview | null> {
+    const [account] = await accountsDb.getAccountsByIds([accountId]);
+    if (!account) {
+      return null;
+    }
+
+    const loaders: Record<AccountOverviewSectionName, () => Promise<unknown>> = {
+      account: () => accountService.getCombinedAccountByEmail(account.email),
+      profiles: async () =>
+        trashService.excludeTrashedProfiles(accountId, await profileService.getAdminProfilesByAccount(accountId)),
+      preferences: () => preferencesService.getAccountPreferences(accountId),
+      statistics: () => accountStatisticsService.getAccountStatistics(accountId),
+      health: () => adminStatisticsService.getAccountHealth(accountId),
+      ratings: () => adminRatingsService.getAllRatings({ accountId }),
+      recommendations: () => adminCommunityRecommendationsService.getAllRecommendationsWithAttribution({ accountId }),
+      notifications: () => notificationsService.getNotifications(accountId),
+    };
+
+    const sections = await Promise.all(
+      ACCOUNT_OVERVIEW_SECTIONS.map((name) => this.loadSection(accountId, name, loaders[name])),
+    );
+
+    return {
+      accountId,
+      generatedAt: new Date().toISOString(),
+      complete: sections.every((section) => section.status === 'ok'),
+      sections: Object.fromEntries(
+        ACCOUNT_OVERVIEW_SECTIONS.map((name, index) => [name, sections[index]]),
+      ) as AccountOverview['sections'],
+    };
+  }
+
+  private async loadSection(
+    accountId: number,
+    name: AccountOverviewSectionName,
+    loader: () => Promise<unknown>,
+  ): Promise<OverviewSection> {
+    try {
+      return { status: 'ok', data: await loader() };
+    } catch (error) {
+      cliLogger.error(`Failed to load ${name} for account ${accountId} overview:`, error);
+      return { status: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+// Export a singleton instance
+export const accountOverviewService = new AccountOverviewService();
@@ -0,0 +1,40 @@
+import * as accountsDb from '../db/accountsDb';
+import { PreferenceType, PreferenceUpdateResult } from '../types/preferenceTypes';
+import { preferencesService } from '@ajgifford/keepwatching-common-server/services';
+
+/**
+ * Service for admins editing an account's preferences on the user's behalf
+ */
+export class AccountPreferencesService {
+  /**
+   * Update one preference type for an account, capturing the values before and after the change
+   * @param accountId - Account id
+   * @param preferenceType - Preference type to update
+   * @param updates - Validated preference values to change
+   * @returns The before/after values, or null if the account does not exist or is in the trash
+   */
+  async updatePreferences(
+    accountId: number,
+    preferenceType: PreferenceType,
+    updates: Record<string, unknown>,
+  ): Promise<PreferenceUpdateResult | null> {
+    const [account] = await accountsDb.getAccountsByIds([accountId]);
+    if (!account) {
+      return null;
+    }
+
+    const before: Record<string, unknown> =
+      (await preferencesService.getPreferencesByType(accountId, preferenceType)) ?? {};
+    await preferencesService.updatePreferences(accountId, preferenceType, updates);
+    const after: Record<string, unknown> =
+      (await preferencesService.getPreferencesByType(accountId, preferenceType)) ?? {};
+
+    const changedFields = Object.keys(updates).filter(
+      (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]),
+    );
+    return { accountId, preferenceType, before, after, changedFields };
+  }
+}
+
+// Export a singleton instance
+export const accountPreferencesService = new AccountPreferencesService();
@@ -0,0 +1,244 @@
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import cron, { ScheduledTask } from 'node-cron';
+
+/**
+ * Definition of a scheduled job owned by the admin server
+ */
+export interface AdminJobDefinition {
+  name: string;
+  description: string;
+  defaultSchedule: string;
+  handler: () => Promise<unknown>;
+}
+
+export interface AdminJobStatus {
+  name: string;
+  description: string;
+  cronExpression: string;
+  isRunning: boolean;
+  isPaused: boolean;
+  lastRunTime: string | null;
+  lastRunStatus: 'never' | 'success' | 'failed';
+  lastError: string | null;
+  nextRunTime: string | null;
+}
+
+interface RegisteredJob {
+  definition: AdminJobDefinition;
+  cronExpression: string;
+  task: ScheduledTask | null;
+  isRunning: boolean;
+  rerunQueued: boolean;
+  lastRunTime: Date | null;
+  lastRunStatus: 'never' | 'success' | 'failed';
+  lastError: string | null;
+}
+
+/**
+ * Service for scheduling and running jobs owned by the admin server.
+ * These run alongside the shared jobs from keepwatching-common-server and are
+ * exposed through the same /api/v1/admin/jobs endpoints.
+ */
+export class AdminJobsService {
+  private jobs = new Map<string, RegisteredJob>();
+  private paused = false;
+  private started = false;
+
+  /**
+   * Register a job. Jobs registered after init() are scheduled immediately.
+   * @param definition - Job definition
+   * @param cronExpression - Schedule override, defaults to the definition's schedule
+   */
+  registerJob(definition: AdminJobDefinition, cronExpression: string = definition.defaultSchedule): void {
+    if (!cron.validate(cronExpression)) {
+      cliLogger.warn(`Invalid schedule '${cronExpression}' for job ${definition.name}, using default`);
+      cronExpression = definition.defaultSchedule;
+    }
+
+    const job: RegisteredJob = {
+      definition,
+      cronExpression,
+      task: null,
+      isRunning: false,
+      rerunQueued: false,
+      lastRunTime: null,
+      lastRunStatus: 'never',
+      lastError: null,
+    };
+    this.jobs.set(definition.name, job);
+
+    if (this.started) {
+      this.scheduleJob(job);
+    }
+  }
+
+  /**
+   * Start the schedules for all registered jobs
+   */
+  init(): void {
+    this.started = true;
+    this.jobs.forEach((job) => this.scheduleJob(job));
+  }
+
+  /**
+   * Stop and discard all job schedules
+   */
+  shutdown(): void {
+    this.jobs.forEach((job) => {
+      job.task?.destroy();
+      job.task = null;
+    });
+    this.started = false;
+  }
+
+  /**
+   * Check whether a job name belongs to the admin server
+   * @param name - Job name
+   */
+  hasJob(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  /**
+   * Get the names of all registered jobs
+   */
+  getJobNames(): string[] {
+    return [...this.jobs.keys()];
+  }
+
+  /**
+   * Run a job now, regardless of its schedule or the paused state
+   * @param name - Job name
+   * @returns Promise that resolves once the run has finished
+   */
+  async execute(name: string): Promise<void> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown admin job: ${name}`);
+    }
+    await this.runJob(job);
+  }
+
+  /**
+   * Run a job now or, if it is already running, once more as soon as the current run finishes. Requests made while a
+   * rerun is already queued share that rerun.
+   * @param name - Job name
+   * @returns Promise that resolves once the run has finished, or straight away when a rerun was queued
+   */
+  async requestRun(name: string): Promise<void> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown admin job: ${name}`);
+    }
+    if (job.isRunning) {
+      job.rerunQueued = true;
+      cliLogger.info(`Job ${name} is already running, queued another run`);
+      return;
+    }
+    await this.runJob(job);
+  }
+
+  /**
+   * Pause scheduled runs of all admin jobs
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  /**
+   * Resume scheduled runs of all admin jobs
+   */
+  resume(): void {
+    this.paused = false;
+  }
+
+  /**
+   * Change the schedule for a job
+   * @param name - Job name
+   * @param cronExpression - New cron expression
+   * @returns false if the job is unknown or the expression is invalid
+   */
+  updateSchedule(name: string, cronExpression: string): boolean {
+    const job = this.jobs.get(name);
+    if (!job || !cron.validate(cronExpression)) {
+      return false;
+    }
+
+    job.cronExpression = cronExpression;
+    if (this.started) {
+      job.task?.destroy();
+      this.scheduleJob(job);
+    }
+    return true;
+  }
+
+  /**
+   * Get the cron expression for a job
+   * @param name - Job name
+   */
+  getSchedule(name: string): string | null {
+    return this.jobs.get(name)?.cronExpression ?? null;
+  }
+
+  /**
+   * Get the status of every admin job
+   */
+  getStatus(): AdminJobStatus[] {
+    return [...this.jobs.values()].map((job) => ({
+      name: job.definition.name,
+      description: job.definition.description,
+      cronExpression: job.cronExpression,
+      isRunning: job.isRunning,
+      isPaused: this.paused,
+      lastRunTime: job.lastRunTime?.toISOString() ?? null,
+      lastRunStatus: job.lastRunStatus,
+      lastError: job.lastError,
+      nextRunTime: job.task?.getNextRun()?.toISOString() ?? null,
+    }));
+  }
+
+  private scheduleJob(job: RegisteredJob): void {
+    job.task = cron.schedule(
+      job.cronExpression,
+      async () => {
+        if (this.paused) {
+          cliLogger.info(`Skipping scheduled run of ${job.definition.name}, admin jobs are paused`);
+          return;
+        }
+        await this.runJob(job);
+      },
+      { name: job.definition.name, noOverlap: true },
+    );
+  }
+
+  private async runJob(job: RegisteredJob): Promise<void> {
+    if (job.isRunning) {
+      cliLogger.warn(`Job ${job.definition.name} is already running`);
+      return;
+    }
+
+    job.isRunning = true;
+    job.lastRunTime = new Date();
+    try {
+      cliLogger.info(`Starting job ${job.definition.name}`);
+      await job.definition.handler();
+      job.lastRunStatus = 'success';
+      job.lastError = null;
+      cliLogger.info(`Job ${job.definition.name} completed`);
+    } catch (error) {
+      job.lastRunStatus = 'failed';
+      job.lastError = error instanceof Error ? error.message : String(error);
+      cliLogger.error(`Job ${job.definition.name} failed:`, error);
+    } finally {
+      job.isRunning = false;
+    }
+
+    if (job.rerunQueued) {
+      job.rerunQueued = false;
+      await this.runJob(job);
+    }
+  }
+}
+
+// Export a singleton instance
+export const adminJobsService = new AdminJobsService();
@@ -0,0 +1,52 @@
+import * as auditDb from '../db/auditDb';
+import { AuditFilters, CreateAuditEntry } from '../types/auditTypes';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+
+/**
+ * Service for recording and querying the admin audit trail
+ */
+export class AuditService {
+  /**
+   * Record an audit entry. Failures are logged rather than thrown so that
+   * auditing never breaks the request being audited.
+   * @param entry - Audit entry to store
+   */
+  async recordEntry(entry: CreateAuditEntry): Promise<void> {
+    try {
+      await auditDb.createAuditEntry(entry);
+    } catch (error) {
+      cliLogger.error(`Failed to record audit entry for ${entry.method} ${entry.route}:`, error);
+    }
+  }
+
+  /**
+   * Get a page of audit entries matching the filters
+   * @param filters - Audit filters
+   * @param page - Current page number
+   * @param offset - Number of entries to skip
+   * @param limit - Page size
+   * @returns Audit entries and pagination details
+   */
+  async getAuditLog(filters: AuditFilters, page: number, offset: number, limit: number) {
+    const [entries, totalCount] = await Promise.all([
+      auditDb.getAuditEntries(filters, limit, offset),
+      auditDb.getAuditEntryCount(filters),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+    return {
+      entries,
+      pagination: {
+        totalCount,
+        totalPages,
+        currentPage: page,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+}
+
+// Export a singleton instance
+export const auditService = new AuditService();
@@ -0,0 +1,110 @@
+import * as accountsDb from '../db/accountsDb';
+import { AdminActor } from '../types/adminTypes';
+import { BulkAccountAction, BulkAccountReport, BulkAccountResult } from '../types/bulkAccountTypes';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { trashService } from './TrashService';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { accountService, emailService } from '@ajgifford/keepwatching-common-server/services';
+
+const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Service for running an action against many accounts at once
+ */
+export class BulkAccountService {
+  /**
+   * Get the number of accounts processed in parallel, from BULK_ACCOUNT_CONCURRENCY (default 5)
+   */
+  getConcurrency(): number {
+    const concurrency = parseInt(process.env.BULK_ACCOUNT_CONCURRENCY ?? '', 10);
+    return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_CONCURRENCY;
+  }
+
+  /**
+   * Run an action against each account. A failure for one account never stops the others.
+   * @param action - Action to run
+   * @param accountIds - Ids of the accounts to act on
+   * @param admin - Admin running the action
+   * @returns Per-account results in the order the ids were given
+   */
+  async runAction(action: BulkAccountAction, accountIds: number[], admin: AdminActor): Promise<BulkAccountReport> {
+    const uniqueIds = [...new Set(accountIds)];
+    const accounts = await accountsDb.getAccountsByIds(uniqueIds);
+    const accountsById = new Map(accounts.map((account) => [account.accountId, account]));
+
+    const results = await mapWithConcurrency<number, BulkAccountResult>(
+      uniqueIds,
+      this.getConcurrency(),
+      async (accountId) => {
+        const account = accountsById.get(accountId);
+        if (!account) {
+          return { accountId, success: false, error: 'Account not found' };
+        }
+
+        try {
+          const message = await this.runForAccount(action, account, admin);
+          return { accountId, success: true, message };
+        } catch (error) {
+          cliLogger.error(`Bulk ${action} failed for account ${accountId}:`, error);
+          return { accountId, success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+    );
+
+    const succeeded = results.filter((result) => result.success).length;
+    return { action, total: results.length, succeeded, failed: results.length - succeeded, results };
+  }
+
+  private async runForAccount(
+    action: BulkAccountAction,
+    account: accountsDb.AccountSummary,
+    admin: AdminActor,
+  ): Promise<string> {
+    switch (action) {
+      case 'verify-email':
+        await accountService.verifyEmail(account.uid);
+        return 'Email verified';
+      case 'send-weekly-email':
+        return this.sendWeeklyEmail(account);
+      case 'reset-default-profile':
+        return this.resetDefaultProfile(account);
+      case 'delete': {
+        const entry = await trashService.trashAccount(account.accountId, admin);
+        if (!entry) {
+          throw new Error('Account not found');
+        }
+        return 'Account moved to trash';
+      }
+    }
+  }
+
+  private async sendWeeklyEmail(account: accountsDb.AccountSummary): Promise<string> {
+    try {
+      await emailService.sendDigestEmailToAccount(account.email);
+      return 'Weekly digest email sent';
+    } catch (error) {
+      // Accounts with nothing coming up this week get the discovery email instead, matching the weekly job
+      if (error instanceof Error && error.message.includes('no upcoming content')) {
+        await emailService.sendDiscoveryEmailToAccount(account.email);
+        return 'Weekly discovery email sent';
+      }
+      throw error;
+    }
+  }
+
+  private async resetDefaultProfile(account: accountsDb.AccountSummary): Promise<string> {
+    const profileId = await accountsDb.getFirstProfileId(account.accountId);
+    if (profileId === null) {
+      throw new Error('Account has no profiles');
+    }
+    if (profileId === account.defaultProfileId) {
+      return `Default profile already ${profileId}`;
+    }
+
+    await accountService.editAccount(account.accountId, account.name, profileId);
+    return `Default profile reset to ${profileId}`;
+  }
+}
+
+// Export a singleton instance
+export const bulkAccountService = new BulkAccountService();
@@ -0,0 +1,176 @@
+import * as contentHistoryDb from '../db/contentHistoryDb';
+import {
+  ContentChange,
+  ContentChangeFilters,
+  ContentChangeSource,
+  ContentHistoryType,
+  ContentSnapshot,
+} from '../types/contentHistoryTypes';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+
+const CONTENT_HISTORY_TYPES: ContentHistoryType[] = ['show', 'movie'];
+
+/**
+ * Service for the change history of shows and movies. The tracked state of each show and movie (tracked fields such
+ * as status, seasons, episodes and their air dates) is snapshotted after every change check; the next check diffs the
+ * current state against it. Refreshes made by the admin server are checked straight away through trackRefresh, and
+ * content changed by the shared scheduled update jobs is checked by the contentChangeCapture job.
+ */
+export class ContentHistoryService {
+  /**
+   * Run a TMDB refresh of a show or movie and record what it changed. Changes made since the last check, e.g. by a
+   * scheduled update, are recorded first so they are not attributed to this refresh. Failing to record history is
+   * logged and never fails the refresh.
+   * @param contentType - Content type
+   * @param contentId - Content id
+   * @param refresh - The refresh to run
+   */
+  async trackRefresh(contentType: ContentHistoryType, contentId: number, refresh: () => Promise<void>): Promise<void> {
+    await this.safeCaptureChanges(contentType, contentId, 'scheduled');
+    await refresh();
+    await this.safeCaptureChanges(contentType, contentId, 'refresh');
+  }
+
+  /**
+   * Diff a show or movie against its stored snapshot, record any changes and store the new snapshot. Content
+   * without a snapshot only gets one stored.
+   * @param contentType - Content type
+   * @param contentId - Content id
+   * @param source - How the changes are being picked up
+   * @returns The changes found
+   */
+  async captureChanges(
+    contentType: ContentHistoryType,
+    contentId: number,
+    source: ContentChangeSource,
+  ): Promise<ContentChange[]> {
+    const current =
+      contentType === 'show'
+        ? await contentHistoryDb.getShowSnapshot(contentId)
+        : await contentHistoryDb.getMovieSnapshot(contentId);
+    if (!current) {
+      return [];
+    }
+
+    const stored = await contentHistoryDb.getStoredSnapshot(contentType, contentId);
+    const changes = stored ? diffSnapshots(stored, current) : [];
+    if (changes.length > 0) {
+      await contentHistoryDb.addContentChanges(contentType, contentId, String(current.fields.title), source, changes);
+    }
+    await contentHistoryDb.saveSnapshot(contentType, contentId, current);
+    return changes;
+  }
+
+  /**
+   * Check every show and movie updated since its last check for changes. Content that fails is logged and skipped.
+   * @returns The number of shows and movies checked and how many had changed
+   */
+  async captureScheduledChanges(): Promise<{ checked: number; changed: number }> {
+    let checked = 0;
+    let changed = 0;
+
+    for (const contentType of CONTENT_HISTORY_TYPES) {
+      for (const contentId of await contentHistoryDb.getContentIdsToCapture(contentType)) {
+        try {
+          const changes = await this.captureChanges(contentType, contentId, 'scheduled');
+          checked++;
+          if (changes.length > 0) {
+            changed++;
+          }
+        } catch (error) {
+          cliLogger.error(`Failed to capture changes for ${contentType} ${contentId}:`, error);
+        }
+      }
+    }
+
+    cliLogger.info(`Content change capture checked ${checked} items, ${changed} changed`);
+    return { checked, changed };
+  }
+
+  /**
+   * Get a page of a show or movie's changes, newest first
+   * @param contentType - Content type
+   * @param contentId - Content id
+   * @param page - Current page number
+   * @param offset - Number of entries to skip
+   * @param limit - Page size
+   */
+  async getHistory(contentType: ContentHistoryType, contentId: number, page: number, offset: number, limit: number) {
+    return this.getChanges({ contentType, contentId }, page, offset, limit);
+  }
+
+  /**
+   * Get a page of changes across all content, newest first
+   * @param filters - Change filters
+   * @param page - Current page number
+   * @param offset - Number of entries to skip
+   * @param limit - Page size
+   */
+  async getChanges(filters: ContentChangeFilters, page: number, offset: number, limit: number) {
+    const [changes, totalCount] = await Promise.all([
+      contentHistoryDb.getContentChanges(filters, limit, offset),
+      contentHistoryDb.getContentChangeCount(filters),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+    return {
+      changes,
+      pagination: {
+        totalCount,
+        totalPages,
+        currentPage: page,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  private async safeCaptureChanges(
+    contentType: ContentHistoryType,
+    contentId: number,
+    source: ContentChangeSource,
+  ): Promise<void> {
+    try {
+      await this.captureChanges(contentType, contentId, source);
+    } catch (error) {
+      cliLogger.error(`Failed to record change history for ${contentType} ${contentId}:`, error);
+    }
+  }
+}
+
+function diffSnapshots(before: ContentSnapshot, after: ContentSnapshot): ContentChange[] {
+  const changes: ContentChange[] = [];
+
+  for (const [field, value] of Object.entries(after.fields)) {
+    const previous = before.fields[field] ?? null;
+    if (previous !== value) {
+      changes.push({ type: 'field_changed', field, from: previous, to: value });
+    }
+  }
+
+  if ('seasons' in after) {
+    const previousSeasons = new Set('seasons' in before ? before.seasons : []);
+    after.seasons
+      .filter((seasonNumber) => !previousSeasons.has(seasonNumber))
+      .forEach((seasonNumber) => changes.push({ type: 'season_added', seasonNumber }));
+
+    const previousEpisodes = new Map(
+      ('episodes' in before ? before.episodes : []).map((episode) => [episode.id, episode]),
+    );
+    for (const episode of after.episodes) {
+      const previous = previousEpisodes.get(episode.id);
+      const slot = { episodeId: episode.id, seasonNumber: episode.seasonNumber, episodeNumber: episode.episodeNumber };
+      if (!previous) {
+        changes.push({ type: 'episode_added', ...slot, title: episode.title });
+      } else if (previous.airDate !== episode.airDate) {
+        changes.push({ type: 'air_date_changed', ...slot, from: previous.airDate, to: episode.airDate });
+      }
+    }
+  }
+
+  return changes;
+}
+
+// Export a singleton instance
+export const contentHistoryService = new ContentHistoryService();
@@ -0,0 +1,83 @@
+import * as contentImportDb from '../db/contentImportDb';
+import { ImportContentResult } from '../types/contentImportTypes';
+import { TMDBMovie, TMDBSeason, TMDBShow } from '../types/tmdbTypes';
+import { fetchFromTMDB } from '../utils/tmdbClient';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { adminMovieService, adminShowService } from '@ajgifford/keepwatching-common-server/services';
+
+/**
+ * Service for importing shows and movies straight from TMDB, so content can be seeded before any user adds it.
+ * Everything is fetched first, within the shared TMDB rate limit, and then saved in one transaction, so a failed
+ * import leaves nothing behind. The TMDB id is checked before fetching and again, with a lock, when saving, so
+ * concurrent imports of the same id save it once.
+ */
+export class ContentImportService {
+  /**
+   * Import a show with its genres, streaming services, seasons, episodes and cast
+   * @param tmdbId - TMDB id of the show
+   * @returns The saved show's details, duplicate with the existing show id, or not_found if TMDB has no such show
+   */
+  async importShow(tmdbId: number): Promise<ImportContentResult> {
+    const existingId = await contentImportDb.findContentIdByTmdbId('show', tmdbId);
+    if (existingId !== null) {
+      return { outcome: 'duplicate', id: existingId };
+    }
+
+    const show = await fetchFromTMDB<TMDBShow>(`/tv/${tmdbId}`, { append_to_response: 'credits,watch/providers' });
+    if (!show) {
+      return { outcome: 'not_found' };
+    }
+
+    const seasons: TMDBSeason[] = [];
+    for (const season of show.seasons) {
+      const details = await fetchFromTMDB<TMDBSeason>(`/tv/${tmdbId}/season/${season.season_number}`);
+      if (details) {
+        seasons.push(details);
+      }
+    }
+
+    const saved = await contentImportDb.saveImportedShow(show, seasons);
+    if (saved.duplicate) {
+      return { outcome: 'duplicate', id: saved.id };
+    }
+
+    const episodes = seasons.reduce((total, season) => total + season.episodes.length, 0);
+    cliLogger.info(
+      `Imported show ${show.name} (TMDB ${tmdbId}) as show ${saved.id} with ${show.seasons.length} seasons and ` +
+        `${episodes} episodes`,
+    );
+    const details = await adminShowService.getShowDetails(saved.id);
+    return { outcome: 'created', id: saved.id, title: show.name, details };
+  }
+
+  /**
+   * Import a movie with its genres, streaming services and cast
+   * @param tmdbId - TMDB id of the movie
+   * @returns The saved movie's details, duplicate with the existing movie id, or not_found if TMDB has no such movie
+   */
+  async importMovie(tmdbId: number): Promise<ImportContentResult> {
+    const existingId = await contentImportDb.findContentIdByTmdbId('movie', tmdbId);
+    if (existingId !== null) {
+      return { outcome: 'duplicate', id: existingId };
+    }
+
+    const movie = await fetchFromTMDB<TMDBMovie>(`/movie/${tmdbId}`, {
+      append_to_response: 'credits,release_dates,watch/providers',
+    });
+    if (!movie) {
+      return { outcome: 'not_found' };
+    }
+
+    const saved = await contentImportDb.saveImportedMovie(movie);
+    if (saved.duplicate) {
+      return { outcome: 'duplicate', id: saved.id };
+    }
+
+    cliLogger.info(`Imported movie ${movie.title} (TMDB ${tmdbId}) as movie ${saved.id}`);
+    const details = await adminMovieService.getMovieDetails(saved.id);
+    return { outcome: 'created', id: saved.id, title: movie.title, details };
+  }
+}
+
+// Export a singleton instance
+export const contentImportService = new ContentImportService();
@@ -0,0 +1,148 @@
+import * as contentOverridesDb from '../db/contentOverridesDb';
+import { AdminActor } from '../types/adminTypes';
+import {
+  ContentOverride,
+  ContentOverrideType,
+  ContentOverrideValues,
+  SetContentOverridesResult,
+} from '../types/contentOverrideTypes';
+import { contentHistoryService } from './ContentHistoryService';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { adminMovieService, adminShowService } from '@ajgifford/keepwatching-common-server/services';
+
+/**
+ * Service for admin overrides of show, movie and episode fields. A TMDB refresh rewrites every field, so each refresh
+ * made by the admin server goes through refreshShow/refreshMovie, which write the overridden fields back straight
+ * after. Updates run by the shared scheduled jobs are caught by the contentOverridesReapply job, which runs once the
+ * SharedJobWatcher sees one of them finish, or straight after the re-apply already running. Until then, content the
+ * shared job has already refreshed shows its TMDB values.
+ */
+export class ContentOverrideService {
+  /**
+   * Replace a show's overrides
+   * @param showId - Show id
+   * @param values - The complete set of override values; fields left out lose their override
+   * @param admin - Admin setting the overrides
+   */
+  async setShowOverrides(
+    showId: number,
+    values: ContentOverrideValues,
+    admin: AdminActor,
+  ): Promise<SetContentOverridesResult> {
+    if (!(await contentOverridesDb.contentExists('show', showId))) {
+      return { outcome: 'not_found' };
+    }
+    return this.setOverrides('show', showId, values, admin);
+  }
+
+  /**
+   * Replace a movie's overrides
+   * @param movieId - Movie id
+   * @param values - The complete set of override values; fields left out lose their override
+   * @param admin - Admin setting the overrides
+   */
+  async setMovieOverrides(
+    movieId: number,
+    values: ContentOverrideValues,
+    admin: AdminActor,
+  ): Promise<SetContentOverridesResult> {
+    if (!(await contentOverridesDb.contentExists('movie', movieId))) {
+      return { outcome: 'not_found' };
+    }
+    return this.setOverrides('movie', movieId, values, admin);
+  }
+
+  /**
+   * Replace an episode's overrides
+   * @param showId - Show the episode belongs to
+   * @param episodeId - Episode id
+   * @param values - The complete set of override values; fields left out lose their override
+   * @param admin - Admin setting the overrides
+   */
+  async setEpisodeOverrides(
+    showId: number,
+    episodeId: number,
+    values: ContentOverrideValues,
+    admin: AdminActor,
+  ): Promise<SetContentOverridesResult> {
+    if (!(await contentOverridesDb.episodeExists(showId, episodeId))) {
+      return { outcome: 'not_found' };
+    }
+    return this.setOverrides('episode', episodeId, values, admin);
+  }
+
+  /**
+   * Get the overrides of a show and its episodes
+   * @param showId - Show id
+   */
+  async getShowOverrides(showId: number): Promise<ContentOverride[]> {
+    return contentOverridesDb.getShowOverrides(showId);
+  }
+
+  /**
+   * Get the overrides of a movie
+   * @param movieId - Movie id
+   */
+  async getMovieOverrides(movieId: number): Promise<ContentOverride[]> {
+    return contentOverridesDb.getOverrides('movie', movieId);
+  }
+
+  /**
+   * Update a show from TMDB, then re-apply the overrides of the show and its episodes. The resulting changes are
+   * recorded in the show's history.
+   * @param showId - Show id
+   * @param tmdbId - TMDB id of the show
+   * @param updateMode - Whether to update every season or only the latest
+   */
+  async refreshShow(showId: number, tmdbId: number, updateMode: 'all' | 'latest'): Promise<void> {
+    await contentHistoryService.trackRefresh('show', showId, async () => {
+      await adminShowService.updateShowById(showId, tmdbId, updateMode);
+      for (const target of await contentOverridesDb.getShowOverrideTargets(showId)) {
+        await contentOverridesDb.applyOverrides(target);
+      }
+    });
+  }
+
+  /**
+   * Update a movie from TMDB, then re-apply its overrides. The resulting changes are recorded in the movie's history.
+   * @param movieId - Movie id
+   * @param tmdbId - TMDB id of the movie
+   */
+  async refreshMovie(movieId: number, tmdbId: number): Promise<void> {
+    await contentHistoryService.trackRefresh('movie', movieId, async () => {
+      await adminMovieService.updateMovieById(movieId, tmdbId);
+      await contentOverridesDb.applyOverrides({ contentType: 'movie', contentId: movieId });
+    });
+  }
+
+  /**
+   * Re-apply every override. Content whose overridden fields are intact is left alone. Content that fails is logged
+   * and skipped.
+   * @returns The number of fields re-applied
+   */
+  async reapplyAll(): Promise<number> {
+    let reapplied = 0;
+    for (const target of await contentOverridesDb.getAllOverrideTargets()) {
+      try {
+        reapplied += await contentOverridesDb.applyOverrides(target);
+      } catch (error) {
+        cliLogger.error(`Failed to re-apply overrides for ${target.contentType} ${target.contentId}:`, error);
+      }
+    }
+    cliLogger.info(`Re-applied ${reapplied} content override${reapplied === 1 ? '' : 's'}`);
+    return reapplied;
+  }
+
+  private async setOverrides(
+    contentType: ContentOverrideType,
+    contentId: number,
+    values: ContentOverrideValues,
+    admin: AdminActor,
+  ): Promise<SetContentOverridesResult> {
+    await contentOverridesDb.replaceOverrides(contentType, contentId, values, admin);
+    return { outcome: 'updated', overrides: await contentOverridesDb.getOverrides(contentType, contentId) };
+  }
+}
+
+// Export a singleton instance
+export const contentOverrideService = new ContentOverrideService();
@@ -0,0 +1,56 @@
+import * as contentSearchDb from '../db/contentSearchDb';
+import { MovieSearchQuery, ShowSearchQuery } from '../types/contentSearchTypes';
+
+/**
+ * Service for searching, filtering and sorting the show and movie catalogs.
+ * Both content types share one query layer: title search (prefix or fuzzy), TMDB id lookup, genre,
+ * release date range, whether any profile is watching, last updated and missing artwork or overview.
+ */
+export class ContentSearchService {
+  /**
+   * Get a page of shows matching the query
+   * @param query - Search, filter and sort options
+   * @param page - Current page number
+   * @param offset - Number of shows to skip
+   * @param limit - Page size
+   * @returns Shows with pagination details
+   */
+  async searchShows(query: ShowSearchQuery, page: number, offset: number, limit: number) {
+    const [shows, totalCount] = await Promise.all([
+      contentSearchDb.searchShows(query, limit, offset),
+      contentSearchDb.countShows(query),
+    ]);
+    return { shows, pagination: buildPagination(totalCount, page, limit) };
+  }
+
+  /**
+   * Get a page of movies matching the query
+   * @param query - Search, filter and sort options
+   * @param page - Current page number
+   * @param offset - Number of movies to skip
+   * @param limit - Page size
+   * @returns Movies with pagination details
+   */
+  async searchMovies(query: MovieSearchQuery, page: number, offset: number, limit: number) {
+    const [movies, totalCount] = await Promise.all([
+      contentSearchDb.searchMovies(query, limit, offset),
+      contentSearchDb.countMovies(query),
+    ]);
+    return { movies, pagination: buildPagination(totalCount, page, limit) };
+  }
+}
+
+function buildPagination(totalCount: number, page: number, limit: number) {
+  const totalPages = Math.ceil(totalCount / limit);
+  return {
+    totalCount,
+    totalPages,
+    currentPage: page,
+    limit,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+// Export a singleton instance
+export const contentSearchService = new ContentSearchService();
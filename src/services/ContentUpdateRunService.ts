@@ -0,0 +1,292 @@
+import * as contentSearchDb from '../db/contentSearchDb';
+import * as contentUpdateDb from '../db/contentUpdateDb';
+import { AdminActor } from '../types/adminTypes';
+import { MovieSearchQuery, ShowSearchQuery } from '../types/contentSearchTypes';
+import {
+  CancelContentUpdateResult,
+  ContentUpdateItem,
+  ContentUpdateRun,
+  ContentUpdateType,
+  StartContentUpdateResult,
+} from '../types/contentUpdateRunTypes';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { waitForTMDBRateLimit } from '../utils/tmdbClient';
+import { contentOverrideService } from './ContentOverrideService';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+
+const DEFAULT_CONCURRENCY = 2;
+// Finished runs kept in memory for status lookups; older ones are dropped
+const MAX_FINISHED_RUNS = 20;
+
+/**
+ * Service for bulk show and movie updates from TMDB, either everything due an update or the content matching a set
+ * of filters. Each update is a tracked run with progress counts, per-item errors and an ETA, which can be polled,
+ * streamed over Server-Sent Events or cancelled. Only one run per content type can be in progress at a time, and
+ * items start no faster than the TMDB rate limit, which all runs share with the imports and other TMDB requests made
+ * here. Runs are kept in memory, so their history does not survive a restart.
+ */
+export class ContentUpdateRunService {
+  private runs = new Map<string, ContentUpdateRun>();
+  private events = new EventEmitter();
+
+  constructor() {
+    // Every SSE client listens for its run's progress
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Get the number of items updated in parallel, from CONTENT_UPDATE_CONCURRENCY (default 2)
+   */
+  getConcurrency(): number {
+    const concurrency = parseInt(process.env.CONTENT_UPDATE_CONCURRENCY ?? '', 10);
+    return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_CONCURRENCY;
+  }
+
+  /**
+   * Start a run updating every show that is still airing
+   * @param admin - Admin starting the run
+   */
+  async startShowUpdate(admin: AdminActor): Promise<StartContentUpdateResult> {
+    const running = this.getRunningRun('show');
+    if (running) {
+      return { outcome: 'already_running', run: running };
+    }
+    return this.startRun('show', await contentUpdateDb.getShowsForUpdate(), admin);
+  }
+
+  /**
+   * Start a run updating every recent or upcoming movie
+   * @param admin - Admin starting the run
+   */
+  async startMovieUpdate(admin: AdminActor): Promise<StartContentUpdateResult> {
+    const running = this.getRunningRun('movie');
+    if (running) {
+      return { outcome: 'already_running', run: running };
+    }
+    return this.startRun('movie', await contentUpdateDb.getMoviesForUpdate(), admin);
+  }
+
+  /**
+   * Start a run updating the shows matching a set of filters
+   * @param filters - Show list filters
+   * @param admin - Admin starting the run
+   */
+  async startShowRefresh(filters: ShowSearchQuery, admin: AdminActor): Promise<StartContentUpdateResult> {
+    const running = this.getRunningRun('show');
+    if (running) {
+      return { outcome: 'already_running', run: running };
+    }
+    return this.startRun('show', await contentSearchDb.findShowsToRefresh(filters), admin, filters);
+  }
+
+  /**
+   * Start a run updating the movies matching a set of filters
+   * @param filters - Movie list filters
+   * @param admin - Admin starting the run
+   */
+  async startMovieRefresh(filters: MovieSearchQuery, admin: AdminActor): Promise<StartContentUpdateResult> {
+    const running = this.getRunningRun('movie');
+    if (running) {
+      return { outcome: 'already_running', run: running };
+    }
+    return this.startRun('movie', await contentSearchDb.findMoviesToRefresh(filters), admin, filters);
+  }
+
+  /**
+   * Start a run updating the given shows or movies. The run continues in the background.
+   * @param contentType - Whether the items are shows or movies
+   * @param items - Items to update
+   * @param admin - Admin starting the run
+   * @param filters - Filters the items were selected with, if any
+   * @returns The new run, the run of the same content type already in progress, or no_matches if there are no items
+   */
+  startRun(
+    contentType: ContentUpdateType,
+    items: ContentUpdateItem[],
+    admin: AdminActor,
+    filters: ShowSearchQuery | MovieSearchQuery | null = null,
+  ): StartContentUpdateResult {
+    const running = this.getRunningRun(contentType);
+    if (running) {
+      return { outcome: 'already_running', run: running };
+    }
+    if (items.length === 0) {
+      return { outcome: 'no_matches' };
+    }
+
+    const run: ContentUpdateRun = {
+      id: randomUUID(),
+      contentType,
+      filters,
+      status: 'running',
+      total: items.length,
+      processed: 0,
+      updated: 0,
+      failed: 0,
+      errors: [],
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      estimatedCompletionAt: null,
+      cancelRequestedAt: null,
+      startedBy: admin,
+    };
+    this.runs.set(run.id, run);
+    cliLogger.info(`Started ${contentType} update run ${run.id} for ${items.length} items`);
+
+    this.executeRun(run, items).catch((error) => {
+      cliLogger.error(`Content update run ${run.id} failed:`, error);
+    });
+    return { outcome: 'started', run: snapshot(run) };
+  }
+
+  /**
+   * Get a run
+   * @param runId - Run id
+   * @returns The run, or null if it does not exist or has been dropped from the history
+   */
+  getRun(runId: string): ContentUpdateRun | null {
+    const run = this.runs.get(runId);
+    return run ? snapshot(run) : null;
+  }
+
+  /**
+   * Get every run in the history, newest first
+   */
+  listRuns(): ContentUpdateRun[] {
+    return [...this.runs.values()].reverse().map(snapshot);
+  }
+
+  /**
+   * Ask a run to stop. Items already in flight finish; no new ones start.
+   * @param runId - Run id
+   */
+  cancelRun(runId: string): CancelContentUpdateResult {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return { outcome: 'not_found' };
+    }
+    if (run.status !== 'running') {
+      return { outcome: 'not_running', run: snapshot(run) };
+    }
+
+    run.cancelRequestedAt ??= new Date().toISOString();
+    this.publish(run);
+    return { outcome: 'cancelling', run: snapshot(run) };
+  }
+
+  /**
+   * Stream a run's progress via Server-Sent Events. The current state is sent straight away, then again after every
+   * item, and the stream ends once the run finishes.
+   * @param runId - Id of a run returned by getRun
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  streamRun(runId: string, req: Request, res: Response): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const send = (run: ContentUpdateRun) => res.write(`data: ${JSON.stringify(run)}\n\n`);
+    const run = this.runs.get(runId);
+    if (!run || run.status !== 'running') {
+      if (run) send(snapshot(run));
+      res.end();
+      return;
+    }
+
+    const listener = (update: ContentUpdateRun) => {
+      send(update);
+      if (update.status !== 'running') {
+        this.events.off(runId, listener);
+        res.end();
+      }
+    };
+    send(snapshot(run));
+    this.events.on(runId, listener);
+
+    // Cleanup on connection close
+    req.on('close', () => {
+      this.events.off(runId, listener);
+    });
+  }
+
+  private async executeRun(run: ContentUpdateRun, items: ContentUpdateItem[]): Promise<void> {
+    const startTime = Date.now();
+
+    await mapWithConcurrency(items, this.getConcurrency(), async (item) => {
+      // A cancelled run takes no more rate limit slots, so it stops without holding up other runs
+      if (run.cancelRequestedAt) {
+        return;
+      }
+      await waitForTMDBRateLimit();
+      if (run.cancelRequestedAt) {
+        return;
+      }
+
+      try {
+        await updateItem(run.contentType, item);
+        run.updated++;
+      } catch (error) {
+        run.failed++;
+        run.errors.push({
+          contentId: item.id,
+          tmdbId: item.tmdbId,
+          title: item.title,
+          error: error instanceof Error ? error.message : String(error),
+          failedAt: new Date().toISOString(),
+        });
+      }
+
+      run.processed++;
+      const msPerItem = (Date.now() - startTime) / run.processed;
+      run.estimatedCompletionAt = new Date(Date.now() + msPerItem * (run.total - run.processed)).toISOString();
+      this.publish(run);
+    });
+
+    run.status = run.cancelRequestedAt ? 'cancelled' : 'completed';
+    run.finishedAt = new Date().toISOString();
+    run.estimatedCompletionAt = null;
+    cliLogger.info(
+      `Content update run ${run.id} ${run.status}: ${run.updated} updated, ${run.failed} failed, ` +
+        `${run.total - run.processed} skipped`,
+    );
+    this.publish(run);
+    this.pruneFinishedRuns();
+  }
+
+  private getRunningRun(contentType: ContentUpdateType): ContentUpdateRun | null {
+    const run = [...this.runs.values()].find(
+      (candidate) => candidate.contentType === contentType && candidate.status === 'running',
+    );
+    return run ? snapshot(run) : null;
+  }
+
+  private publish(run: ContentUpdateRun): void {
+    this.events.emit(run.id, snapshot(run));
+  }
+
+  private pruneFinishedRuns(): void {
+    const finished = [...this.runs.values()].filter((run) => run.status !== 'running');
+    finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_RUNS)).forEach((run) => this.runs.delete(run.id));
+  }
+}
+
+async function updateItem(contentType: ContentUpdateType, item: ContentUpdateItem): Promise<void> {
+  if (contentType === 'show') {
+    await contentOverrideService.refreshShow(item.id, item.tmdbId, 'latest');
+  } else {
+    await contentOverrideService.refreshMovie(item.id, item.tmdbId);
+  }
+}
+
+function snapshot(run: ContentUpdateRun): ContentUpdateRun {
+  return { ...run, errors: [...run.errors] };
+}
+
+// Export a singleton instance
+export const contentUpdateRunService = new ContentUpdateRunService();
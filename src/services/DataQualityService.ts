@@ -0,0 +1,145 @@
+import * as dataQualityDb from '../db/dataQualityDb';
+import { AdminActor } from '../types/adminTypes';
+import {
+  ContentIssueFilters,
+  DataQualityRule,
+  DataQualityScanSummary,
+  FixIssueResult,
+  RuleIssueCounts,
+} from '../types/dataQualityTypes';
+import { defaultDataQualityRules } from './dataQualityRules';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+
+/**
+ * Service for the content data-quality scanner.
+ * Each registered rule detects one kind of broken content; a scan runs every rule, stores what it finds in
+ * admin_content_issues and resolves issues that are no longer detected. Rules with an automatic remedy can
+ * fix a single issue on demand.
+ */
+export class DataQualityService {
+  private rules = new Map<string, DataQualityRule>();
+
+  constructor(rules: DataQualityRule[] = []) {
+    rules.forEach((rule) => this.registerRule(rule));
+  }
+
+  /**
+   * Register a rule, replacing any rule with the same id
+   * @param rule - Rule definition
+   */
+  registerRule(rule: DataQualityRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Check whether a rule is registered
+   * @param ruleId - Rule id
+   */
+  hasRule(ruleId: string): boolean {
+    return this.rules.has(ruleId);
+  }
+
+  /**
+   * Run every rule and store its findings. A rule that fails is logged and skipped.
+   * @returns Findings per rule and the rules that failed
+   */
+  async runScan(): Promise<DataQualityScanSummary> {
+    const summary: DataQualityScanSummary = { rules: [], failedRules: [] };
+
+    for (const rule of this.rules.values()) {
+      try {
+        const issues = await rule.detect();
+        const { opened, resolved } = await dataQualityDb.saveRuleFindings(rule.id, issues);
+        summary.rules.push({ rule: rule.id, detected: issues.length, opened, resolved });
+      } catch (error) {
+        cliLogger.error(`Data-quality rule ${rule.id} failed:`, error);
+        summary.failedRules.push(rule.id);
+      }
+    }
+
+    const detected = summary.rules.reduce((total, rule) => total + rule.detected, 0);
+    cliLogger.info(
+      `Content data-quality scan complete: ${detected} issues across ${summary.rules.length} rules, ` +
+        `${summary.failedRules.length} rules failed`,
+    );
+    return summary;
+  }
+
+  /**
+   * Get the open and resolved issue counts of every registered rule
+   */
+  async getIssueCounts(): Promise<RuleIssueCounts[]> {
+    const counts = await dataQualityDb.getIssueCountsByRule();
+
+    return [...this.rules.values()].map((rule) => {
+      const countFor = (status: 'open' | 'resolved') =>
+        counts.find((count) => count.rule === rule.id && count.status === status)?.count ?? 0;
+      return {
+        rule: rule.id,
+        description: rule.description,
+        contentType: rule.contentType,
+        severity: rule.severity,
+        fixable: rule.fix !== undefined,
+        open: countFor('open'),
+        resolved: countFor('resolved'),
+      };
+    });
+  }
+
+  /**
+   * Get a page of issues
+   * @param filters - Issue filters
+   * @param page - Current page number
+   * @param offset - Number of issues to skip
+   * @param limit - Page size
+   */
+  async getIssues(filters: ContentIssueFilters, page: number, offset: number, limit: number) {
+    const [issues, totalCount] = await Promise.all([
+      dataQualityDb.getIssues(filters, limit, offset),
+      dataQualityDb.getIssueCount(filters),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+    return {
+      issues,
+      pagination: {
+        totalCount,
+        totalPages,
+        currentPage: page,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Run the automatic fix for an open issue and resolve it
+   * @param issueId - Issue id
+   * @param admin - Admin running the fix
+   * @returns The outcome of the fix
+   */
+  async fixIssue(issueId: number, admin: AdminActor): Promise<FixIssueResult> {
+    const issue = await dataQualityDb.getIssueById(issueId);
+    if (!issue) {
+      return { outcome: 'not_found' };
+    }
+    if (issue.status !== 'open') {
+      return { outcome: 'not_open', issue };
+    }
+
+    const fix = this.rules.get(issue.rule)?.fix;
+    if (!fix) {
+      return { outcome: 'not_fixable', issue };
+    }
+
+    await fix(issue);
+    await dataQualityDb.markIssueFixed(issue.id, admin);
+    cliLogger.info(`Fixed content issue ${issue.id} (${issue.rule}) for ${issue.contentType} ${issue.contentId}`);
+
+    return { outcome: 'fixed', issue: (await dataQualityDb.getIssueById(issue.id)) ?? issue };
+  }
+}
+
+// Export a singleton instance
+export const dataQualityService = new DataQualityService(defaultDataQualityRules);
@@ -0,0 +1,167 @@
+import * as duplicateEpisodesDb from '../db/duplicateEpisodesDb';
+import {
+  DuplicateEpisode,
+  DuplicateEpisodeGroupPlan,
+  EpisodeWatchStatus,
+  ResolveAllDuplicatesResult,
+  ResolveShowDuplicatesResult,
+  ShowDuplicateResolutionPlan,
+  WatchStatusMigration,
+} from '../types/duplicateEpisodeTypes';
+import { WATCH_STATUS_PROGRESS } from '../types/profileTransferTypes';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+
+/**
+ * Service for resolving duplicate episodes, i.e. episodes of a show sharing a season and episode number.
+ * Each set of duplicates keeps one canonical episode: one with a TMDB id, then the most recently updated,
+ * then the newest row. Profiles watching a duplicate keep their progress on the canonical episode, and their season
+ * and show statuses are recomputed once the duplicates are gone.
+ */
+export class DuplicateEpisodeService {
+  /**
+   * Plan, and unless it's a dry run apply, the resolution of a show's duplicate episodes
+   * @param showId - Show id
+   * @param dryRun - Only return the plan
+   * @returns The plan, or show_not_found
+   */
+  async resolveShowDuplicates(showId: number, dryRun: boolean): Promise<ResolveShowDuplicatesResult> {
+    if (!(await duplicateEpisodesDb.showExists(showId))) {
+      return { outcome: 'show_not_found' };
+    }
+
+    const plan = await this.planShow(showId);
+    if (!dryRun) {
+      await this.applyPlan(plan);
+    }
+    return { outcome: 'resolved', dryRun, plan };
+  }
+
+  /**
+   * Plan, and unless it's a dry run apply, the resolution of every show with duplicate episodes.
+   * A show that fails is logged and skipped.
+   * @param dryRun - Only return the plans
+   * @returns The plan of each show and the shows that failed
+   */
+  async resolveAllDuplicates(dryRun: boolean): Promise<ResolveAllDuplicatesResult> {
+    const showIds = await duplicateEpisodesDb.getShowIdsWithDuplicateEpisodes();
+    const plans: ShowDuplicateResolutionPlan[] = [];
+    const failedShowIds: number[] = [];
+
+    for (const showId of showIds) {
+      try {
+        const plan = await this.planShow(showId);
+        if (!dryRun) {
+          await this.applyPlan(plan);
+        }
+        plans.push(plan);
+      } catch (error) {
+        cliLogger.error(`Failed to resolve duplicate episodes for show ${showId}:`, error);
+        failedShowIds.push(showId);
+      }
+    }
+
+    return {
+      dryRun,
+      plans,
+      failedShowIds,
+      summary: {
+        shows: plans.length,
+        groups: sum(plans, (plan) => plan.summary.groups),
+        episodesRemoved: sum(plans, (plan) => plan.summary.episodesRemoved),
+        watchStatusesMigrated: sum(plans, (plan) => plan.summary.watchStatusesMigrated),
+      },
+    };
+  }
+
+  private async planShow(showId: number): Promise<ShowDuplicateResolutionPlan> {
+    const episodes = await duplicateEpisodesDb.getDuplicateEpisodes(showId);
+    const statuses = await duplicateEpisodesDb.getEpisodeWatchStatuses(episodes.map((episode) => episode.id));
+
+    const slots = new Map<string, DuplicateEpisode[]>();
+    for (const episode of episodes) {
+      const key = `${episode.seasonNumber}:${episode.episodeNumber}`;
+      slots.set(key, [...(slots.get(key) ?? []), episode]);
+    }
+
+    const groups = [...slots.values()].map((duplicates) => planGroup(duplicates, statuses));
+    return {
+      showId,
+      groups,
+      summary: {
+        groups: groups.length,
+        episodesRemoved: sum(groups, (group) => group.remove.length),
+        watchStatusesMigrated: sum(groups, (group) => group.migrations.length),
+      },
+    };
+  }
+
+  private async applyPlan(plan: ShowDuplicateResolutionPlan): Promise<void> {
+    if (plan.groups.length === 0) {
+      return;
+    }
+
+    const migrations = plan.groups.flatMap((group) =>
+      group.migrations.map((migration) => ({
+        profileId: migration.profileId,
+        episodeId: group.keep.id,
+        status: migration.status,
+      })),
+    );
+    const removedEpisodeIds = plan.groups.flatMap((group) => group.remove.map((episode) => episode.id));
+
+    await duplicateEpisodesDb.removeDuplicateEpisodes(plan.showId, migrations, removedEpisodeIds);
+    cliLogger.info(
+      `Resolved ${plan.summary.groups} duplicate episode groups for show ${plan.showId}: ` +
+        `removed ${plan.summary.episodesRemoved} episodes, migrated ${plan.summary.watchStatusesMigrated} watch statuses`,
+    );
+  }
+}
+
+function planGroup(duplicates: DuplicateEpisode[], statuses: EpisodeWatchStatus[]): DuplicateEpisodeGroupPlan {
+  const [keep, ...remove] = [...duplicates].sort(compareCanonical);
+  const removedIds = new Set(remove.map((episode) => episode.id));
+
+  // The furthest status each profile has on any duplicate
+  const bestByProfile = new Map<number, EpisodeWatchStatus>();
+  for (const status of statuses) {
+    if (!removedIds.has(status.episodeId)) continue;
+    const best = bestByProfile.get(status.profileId);
+    if (!best || progress(status.status) > progress(best.status)) {
+      bestByProfile.set(status.profileId, status);
+    }
+  }
+
+  const migrations: WatchStatusMigration[] = [];
+  for (const status of bestByProfile.values()) {
+    const existing = statuses.find((kept) => kept.episodeId === keep.id && kept.profileId === status.profileId);
+    if (!existing || progress(status.status) > progress(existing.status)) {
+      migrations.push({ profileId: status.profileId, fromEpisodeId: status.episodeId, status: status.status });
+    }
+  }
+
+  return { seasonNumber: keep.seasonNumber, episodeNumber: keep.episodeNumber, keep, remove, migrations };
+}
+
+// Sorts the canonical episode first: has a TMDB id, then most recently updated, then newest row
+function compareCanonical(a: DuplicateEpisode, b: DuplicateEpisode): number {
+  if ((a.tmdbId === null) !== (b.tmdbId === null)) {
+    return a.tmdbId === null ? 1 : -1;
+  }
+  const aTime = a.updatedAt ? Date.parse(a.updatedAt) : 0;
+  const bTime = b.updatedAt ? Date.parse(b.updatedAt) : 0;
+  if (aTime !== bTime) {
+    return bTime - aTime;
+  }
+  return b.id - a.id;
+}
+
+function progress(status: string): number {
+  return WATCH_STATUS_PROGRESS[status] ?? 0;
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
+// Export a singleton instance
+export const duplicateEpisodeService = new DuplicateEpisodeService();
@@ -0,0 +1,148 @@
+import { FirebaseUserDetails } from '../types/firebaseUserTypes';
+import { getServiceName } from '@ajgifford/keepwatching-common-server/config';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { getFirebaseAdmin } from '@ajgifford/keepwatching-common-server/utils';
+import { Auth, UserRecord } from 'firebase-admin/auth';
+
+// The most users Firebase looks up in one getUsers call
+const GET_USERS_BATCH_SIZE = 100;
+
+/**
+ * Service for managing the Firebase Auth users behind app accounts. Uses the app's Firebase project
+ * (keyed by getServiceName()), not the admin project used to authenticate admins. Setting
+ * FIREBASE_AUTH_EMULATOR_HOST points the SDK at the Firebase Auth emulator.
+ */
+export class FirebaseUserService {
+  /**
+   * Get a user's Firebase details
+   * @param uid - Firebase uid
+   * @returns The user's details, or null if Firebase has no such user
+   */
+  async getUser(uid: string): Promise<FirebaseUserDetails | null> {
+    try {
+      return transformUserRecord(await this.getAuth().getUser(uid));
+    } catch (error) {
+      if (isUserNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the Firebase details of many users, looked up in batches of 100
+   * @param uids - Firebase uids
+   * @returns The details of the users Firebase knows, keyed by uid
+   */
+  async getUsers(uids: string[]): Promise<Map<string, FirebaseUserDetails>> {
+    const auth = this.getAuth();
+    const users = new Map<string, FirebaseUserDetails>();
+    for (let start = 0; start < uids.length; start += GET_USERS_BATCH_SIZE) {
+      const batch = uids.slice(start, start + GET_USERS_BATCH_SIZE).map((uid) => ({ uid }));
+      const result = await auth.getUsers(batch);
+      result.users.forEach((user) => users.set(user.uid, transformUserRecord(user)));
+    }
+    return users;
+  }
+
+  /**
+   * Disable or re-enable a user. Disabled users can't sign in or refresh their tokens.
+   * @param uid - Firebase uid
+   * @param disabled - Whether the user should be disabled
+   * @returns The updated user, or null if Firebase has no such user
+   */
+  async setDisabled(uid: string, disabled: boolean): Promise<FirebaseUserDetails | null> {
+    try {
+      const user = await this.getAuth().updateUser(uid, { disabled });
+      cliLogger.info(`Firebase user ${uid} ${disabled ? 'disabled' : 'enabled'}`);
+      return transformUserRecord(user);
+    } catch (error) {
+      if (isUserNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a user's refresh tokens, signing them out everywhere once their current ID token expires
+   * @param uid - Firebase uid
+   * @returns The updated user, or null if Firebase has no such user
+   */
+  async revokeRefreshTokens(uid: string): Promise<FirebaseUserDetails | null> {
+    try {
+      const auth = this.getAuth();
+      await auth.revokeRefreshTokens(uid);
+      cliLogger.info(`Firebase refresh tokens revoked for user ${uid}`);
+      return transformUserRecord(await auth.getUser(uid));
+    } catch (error) {
+      if (isUserNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a password reset link for a user to be sent to them by support
+   * @param email - The user's email
+   * @returns The reset link, or null if Firebase has no user with that email
+   */
+  async generatePasswordResetLink(email: string): Promise<string | null> {
+    try {
+      return await this.getAuth().generatePasswordResetLink(email);
+    } catch (error) {
+      if (isUserNotFound(error) || isEmailNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Mint a custom token that signs in as a user with extra claims
+   * @param uid - Firebase uid
+   * @param claims - Custom claims added to the ID token the custom token is exchanged for
+   * @returns The custom token
+   */
+  async createCustomToken(uid: string, claims: object): Promise<string> {
+    return this.getAuth().createCustomToken(uid, claims);
+  }
+
+  private getAuth(): Auth {
+    const firebaseApp = getFirebaseAdmin(getServiceName());
+    if (!firebaseApp) {
+      throw new Error('Firebase service unavailable');
+    }
+    return firebaseApp.auth();
+  }
+}
+
+function getErrorCode(error: unknown): string | undefined {
+  return typeof error === 'object' && error !== null && 'code' in error ? String(error.code) : undefined;
+}
+
+function isUserNotFound(error: unknown): boolean {
+  return getErrorCode(error) === 'auth/user-not-found';
+}
+
+function isEmailNotFound(error: unknown): boolean {
+  return getErrorCode(error) === 'auth/email-not-found';
+}
+
+function transformUserRecord(user: UserRecord): FirebaseUserDetails {
+  return {
+    uid: user.uid,
+    email: user.email ?? null,
+    emailVerified: user.emailVerified,
+    disabled: user.disabled,
+    providers: user.providerData.map((provider) => provider.providerId),
+    creationTime: user.metadata.creationTime ?? null,
+    lastSignInTime: user.metadata.lastSignInTime ?? null,
+    lastRefreshTime: user.metadata.lastRefreshTime ?? null,
+    tokensValidAfterTime: user.tokensValidAfterTime ?? null,
+  };
+}
+
+// Export a singleton instance
+export const firebaseUserService = new FirebaseUserService();
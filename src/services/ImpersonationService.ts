@@ -0,0 +1,112 @@
+import * as accountsDb from '../db/accountsDb';
+import * as impersonationDb from '../db/impersonationDb';
+import { AdminActor } from '../types/adminTypes';
+import {
+  ImpersonationClaims,
+  ImpersonationSession,
+  RevokeImpersonationResult,
+  StartImpersonationResult,
+} from '../types/impersonationTypes';
+import { firebaseUserService } from './FirebaseUserService';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { randomUUID } from 'crypto';
+
+const DEFAULT_TTL_MINUTES = 15;
+// Firebase ID tokens last an hour, so a longer session could never be used in full
+const MAX_TTL_MINUTES = 60;
+
+/**
+ * Service for "view as user" impersonation. An admin gets a Firebase custom token for an account's user, tied to a
+ * session that lasts IMPERSONATION_TTL_MINUTES (default 15) and can be revoked early. The token is only read-only,
+ * expiring and revocable if the app API checks its claims against the session, so starting sessions stays off until
+ * IMPERSONATION_ENABLED is set to 'true'.
+ */
+export class ImpersonationService {
+  /**
+   * Check whether admins may start impersonation sessions
+   */
+  isEnabled(): boolean {
+    return process.env.IMPERSONATION_ENABLED === 'true';
+  }
+
+  /**
+   * Get how long impersonation sessions last, capped at 60 minutes
+   */
+  getTtlMinutes(): number {
+    const minutes = parseInt(process.env.IMPERSONATION_TTL_MINUTES ?? '', 10);
+    return Number.isInteger(minutes) && minutes > 0 ? Math.min(minutes, MAX_TTL_MINUTES) : DEFAULT_TTL_MINUTES;
+  }
+
+  /**
+   * Start an impersonation session for an account and mint its token
+   * @param accountId - Account to impersonate
+   * @param admin - Admin impersonating the user
+   * @param reason - Why the admin is impersonating the user
+   * @returns The session and custom token, or why none was started
+   */
+  async startSession(accountId: number, admin: AdminActor, reason: string | null): Promise<StartImpersonationResult> {
+    if (!this.isEnabled()) {
+      return { outcome: 'disabled' };
+    }
+
+    const [account] = await accountsDb.getAccountsByIds([accountId]);
+    if (!account) {
+      return { outcome: 'not_found' };
+    }
+
+    const sessionId = randomUUID();
+    const ttlMinutes = this.getTtlMinutes();
+    const claims: ImpersonationClaims = {
+      impersonatedBy: admin.uid,
+      impersonationSessionId: sessionId,
+      impersonationExpiresAt: Math.floor(Date.now() / 1000) + ttlMinutes * 60,
+      accountId,
+      readOnly: true,
+    };
+
+    // Mint first so a Firebase failure never leaves a session behind without a token
+    const token = await firebaseUserService.createCustomToken(account.uid, claims);
+    await impersonationDb.createSession(sessionId, accountId, account.uid, admin, reason, ttlMinutes);
+    cliLogger.info(`Admin ${admin.uid} started impersonating account ${accountId} (session ${sessionId})`);
+
+    const session = await impersonationDb.getSessionById(sessionId);
+    if (!session) {
+      throw new Error(`Impersonation session ${sessionId} was not recorded`);
+    }
+    return { outcome: 'started', session, token };
+  }
+
+  /**
+   * Get an account's impersonation sessions, newest first
+   * @param accountId - Account id
+   */
+  async getSessions(accountId: number): Promise<ImpersonationSession[]> {
+    return impersonationDb.getSessionsByAccount(accountId);
+  }
+
+  /**
+   * Revoke an active impersonation session before it expires
+   * @param accountId - Account the session belongs to
+   * @param sessionId - Session id
+   * @param admin - Admin revoking the session
+   * @returns The outcome of the revoke
+   */
+  async revokeSession(accountId: number, sessionId: string, admin: AdminActor): Promise<RevokeImpersonationResult> {
+    const session = await impersonationDb.getSessionById(sessionId);
+    if (!session || session.accountId !== accountId) {
+      return { outcome: 'not_found' };
+    }
+
+    const revoked = await impersonationDb.revokeSession(sessionId, admin);
+    const current = (await impersonationDb.getSessionById(sessionId)) ?? session;
+    if (!revoked) {
+      return { outcome: 'not_active', session: current };
+    }
+
+    cliLogger.info(`Admin ${admin.uid} revoked impersonation session ${sessionId}`);
+    return { outcome: 'revoked', session: current };
+  }
+}
+
+// Export a singleton instance
+export const impersonationService = new ImpersonationService();
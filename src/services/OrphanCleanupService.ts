@@ -0,0 +1,210 @@
+import * as orphansDb from '../db/orphansDb';
+import {
+  ORPHAN_CLEANUP_MODES,
+  ORPHAN_TYPES,
+  OrphanCleanupItem,
+  OrphanCleanupMode,
+  OrphanCleanupOptions,
+  OrphanCleanupRun,
+  OrphanCounts,
+  OrphanFilters,
+  OrphanedContent,
+} from '../types/orphanTypes';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_GRACE_DAYS = 30;
+const DEFAULT_MODE: OrphanCleanupMode = 'remove';
+
+/**
+ * Service for orphaned content: released shows and movies no profile watches (other than recent imports), seasons and
+ * episodes left behind by a deleted show or season, and people without credits. Each cleanup run records when it first
+ * saw every orphan; orphans older than ORPHAN_GRACE_DAYS (default 30) are removed or archived, per ORPHAN_CLEANUP_MODE.
+ * Removing (the default) deletes every kind of orphan, so no update job refreshes it again. Archiving only applies to
+ * shows and movies and only keeps them out of full update runs started from the admin server: the shared scheduled
+ * update jobs don't check archived_at and keep refreshing them. Archived content a profile watches again is unarchived
+ * by the next cleanup run that isn't a dry run. Every run, dry runs included, is recorded.
+ */
+export class OrphanCleanupService {
+  /**
+   * Get the number of days content must stay orphaned before it is cleaned up
+   */
+  getGraceDays(): number {
+    const days = parseInt(process.env.ORPHAN_GRACE_DAYS ?? '', 10);
+    return Number.isInteger(days) && days >= 0 ? days : DEFAULT_GRACE_DAYS;
+  }
+
+  /**
+   * Get what the cleanup does with orphans past the grace period
+   */
+  getMode(): OrphanCleanupMode {
+    const mode = process.env.ORPHAN_CLEANUP_MODE as OrphanCleanupMode;
+    return ORPHAN_CLEANUP_MODES.includes(mode) ? mode : DEFAULT_MODE;
+  }
+
+  /**
+   * Get a page of orphans and the number of each type
+   * @param filters - Orphan filters
+   * @param page - Current page number
+   * @param offset - Number of orphans to skip
+   * @param limit - Page size
+   */
+  async getOrphans(filters: OrphanFilters, page: number, offset: number, limit: number) {
+    const [orphans, counts] = await Promise.all([
+      orphansDb.getOrphans(filters, limit, offset),
+      orphansDb.getOrphanCounts(),
+    ]);
+
+    const totalCount = filters.contentType
+      ? counts[filters.contentType]
+      : Object.values(counts).reduce((total, count) => total + count, 0);
+    const totalPages = Math.ceil(totalCount / limit);
+    return {
+      counts,
+      orphans,
+      pagination: {
+        totalCount,
+        totalPages,
+        currentPage: page,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Find orphans and archive or remove those past the grace period. A dry run still records when orphans were first
+   * seen, but changes no content.
+   * @param options - Whether this is a dry run, the mode (defaults to ORPHAN_CLEANUP_MODE) and the admin running it
+   * @returns The recorded run
+   */
+  async runCleanup(options: OrphanCleanupOptions): Promise<OrphanCleanupRun> {
+    const startedAt = new Date();
+    const mode = options.mode ?? this.getMode();
+    const graceDays = this.getGraceDays();
+
+    const orphans = await orphansDb.trackOrphans(await orphansDb.findOrphans());
+    const cutoff = startedAt.getTime() - graceDays * DAY_MS;
+    const due = orphans.filter(
+      (orphan) => new Date(orphan.orphanedSince ?? startedAt).getTime() <= cutoff && isActionable(orphan, mode),
+    );
+
+    let items = due.map(toCleanupItem);
+    let unarchived = 0;
+    if (!options.dryRun) {
+      unarchived = await orphansDb.unarchiveWatchedContent();
+      items = await this.cleanUp(due, mode);
+    }
+
+    const run = {
+      mode,
+      dryRun: options.dryRun,
+      graceDays,
+      detected: countByType(orphans),
+      actioned: countByType(items),
+      items,
+      unarchived,
+      triggeredBy: options.admin ?? null,
+      startedAt: startedAt.toISOString(),
+    };
+    const id = await orphansDb.saveCleanupRun(run);
+
+    cliLogger.info(
+      `Orphan cleanup${options.dryRun ? ' (dry run)' : ''} found ${orphans.length} orphans, ` +
+        `${mode === 'archive' ? 'archived' : 'removed'} ${items.length}`,
+    );
+    return { id, ...run, finishedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Run the scheduled cleanup. ORPHAN_CLEANUP_DRY_RUN=true makes scheduled runs dry runs.
+   */
+  async runScheduledCleanup(): Promise<OrphanCleanupRun> {
+    return this.runCleanup({ dryRun: process.env.ORPHAN_CLEANUP_DRY_RUN === 'true' });
+  }
+
+  /**
+   * Get a page of cleanup runs, newest first
+   * @param page - Current page number
+   * @param offset - Number of runs to skip
+   * @param limit - Page size
+   */
+  async getRuns(page: number, offset: number, limit: number) {
+    const [runs, totalCount] = await Promise.all([
+      orphansDb.getCleanupRuns(limit, offset),
+      orphansDb.getCleanupRunCount(),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+    return {
+      runs,
+      pagination: {
+        totalCount,
+        totalPages,
+        currentPage: page,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Get a single cleanup run with its items
+   * @param runId - Run id
+   */
+  async getRun(runId: number): Promise<OrphanCleanupRun | null> {
+    return orphansDb.getCleanupRunById(runId);
+  }
+
+  // Content that stopped being orphaned since it was found is skipped by the db layer
+  private async cleanUp(due: OrphanedContent[], mode: OrphanCleanupMode): Promise<OrphanCleanupItem[]> {
+    const items: OrphanCleanupItem[] = [];
+
+    for (const contentType of ORPHAN_TYPES) {
+      const ofType = due.filter((orphan) => orphan.contentType === contentType);
+      if (ofType.length === 0) {
+        continue;
+      }
+
+      const ids = ofType.map((orphan) => orphan.contentId);
+      const cleaned = new Set(
+        mode === 'archive' && (contentType === 'show' || contentType === 'movie')
+          ? await orphansDb.archiveContent(contentType, ids)
+          : await orphansDb.removeContent(contentType, ids),
+      );
+      items.push(...ofType.filter((orphan) => cleaned.has(orphan.contentId)).map(toCleanupItem));
+    }
+
+    return items;
+  }
+}
+
+// Only shows and movies can be archived, and only once
+function isActionable(orphan: OrphanedContent, mode: OrphanCleanupMode): boolean {
+  if (mode === 'remove') {
+    return true;
+  }
+  return (orphan.contentType === 'show' || orphan.contentType === 'movie') && orphan.archivedAt === null;
+}
+
+function toCleanupItem(orphan: OrphanedContent): OrphanCleanupItem {
+  return {
+    contentType: orphan.contentType,
+    contentId: orphan.contentId,
+    title: orphan.title,
+    orphanedSince: orphan.orphanedSince ?? new Date().toISOString(),
+  };
+}
+
+function countByType(items: { contentType: OrphanedContent['contentType'] }[]): OrphanCounts {
+  const counts = Object.fromEntries(ORPHAN_TYPES.map((contentType) => [contentType, 0])) as OrphanCounts;
+  for (const item of items) {
+    counts[item.contentType]++;
+  }
+  return counts;
+}
+
+// Export a singleton instance
+export const orphanCleanupService = new OrphanCleanupService();
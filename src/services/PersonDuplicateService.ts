@@ -0,0 +1,245 @@
+import * as personDuplicatesDb from '../db/personDuplicatesDb';
+import { AdminActor } from '../types/adminTypes';
+import {
+  AcceptPersonDuplicateResult,
+  DuplicatePersonCandidate,
+  PersonDuplicateFilters,
+  PersonDuplicateReason,
+  PersonDuplicateSuggestion,
+  RejectPersonDuplicateResult,
+} from '../types/personDuplicateTypes';
+import { getNameSimilarity, normalizePersonName } from '../utils/personNames';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { personService } from '@ajgifford/keepwatching-common-server/services';
+
+const NAME_WEIGHT = 0.5;
+const BIRTHDAY_WEIGHT = 0.3;
+const DIFFERENT_BIRTHDAY_PENALTY = 0.3;
+const SHARED_CREDITS_WEIGHT = 0.2;
+const SIMILAR_NAME_THRESHOLD = 0.5;
+
+/**
+ * Service for finding people who are probably the same person, e.g. after TMDB gave a person a second id.
+ * Candidates are people whose names match once accents, case and punctuation are ignored, and people born on the same
+ * day who share a credit and part of their name. Each pair is scored from 0 to 1:
+ * - name: up to 0.5, by the share of name words they have in common
+ * - birthday: 0.3 when both are known and equal, minus 0.3 when both are known and differ
+ * - shared credits: 0.2 when they are credited in the same show or movie
+ * Scoring needs every person's name, so suggestions are found by the personDuplicateScan job and stored in
+ * admin_person_duplicate_suggestions; pages are read from there. Rejected pairs are never suggested again.
+ */
+export class PersonDuplicateService {
+  /**
+   * Find every duplicate suggestion and replace the stored ones
+   * @returns Number of suggestions found
+   */
+  async scanForDuplicates(): Promise<number> {
+    const suggestions = await this.findSuggestions();
+    await personDuplicatesDb.replaceSuggestions(suggestions);
+
+    cliLogger.info(`Person duplicate scan complete: ${suggestions.length} suggestions`);
+    return suggestions.length;
+  }
+
+  /**
+   * Get a page of the stored duplicate suggestions, most confident first
+   * @param filters - Suggestion filters
+   * @param page - Current page number
+   * @param offset - Number of suggestions to skip
+   * @param limit - Page size
+   */
+  async getSuggestions(filters: PersonDuplicateFilters, page: number, offset: number, limit: number) {
+    const [stored, totalCount] = await Promise.all([
+      personDuplicatesDb.getSuggestionPage(filters.minConfidence, limit, offset),
+      personDuplicatesDb.countSuggestions(filters.minConfidence),
+    ]);
+
+    const ids = [...new Set(stored.flatMap((suggestion) => [suggestion.sourcePersonId, suggestion.targetPersonId]))];
+    const candidates = ids.length > 0 ? await personDuplicatesDb.getCandidates(ids) : [];
+    const candidatesById = new Map(candidates.map((candidate) => [candidate.id, candidate]));
+
+    const suggestions: PersonDuplicateSuggestion[] = [];
+    for (const { sourcePersonId, targetPersonId, ...score } of stored) {
+      const source = candidatesById.get(sourcePersonId);
+      const target = candidatesById.get(targetPersonId);
+      if (source && target) {
+        suggestions.push({ ...score, source, target });
+      }
+    }
+
+    const totalPages = Math.ceil(totalCount / limit);
+    return {
+      suggestions,
+      pagination: {
+        totalCount,
+        totalPages,
+        currentPage: page,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Accept a suggestion by merging one person into the other and deleting them. Either person of the pair can be
+   * kept.
+   * @param personId - Person merged and deleted
+   * @param targetPersonId - Person kept
+   * @returns merged with the merge result, or not_suggested when the pair isn't a current suggestion
+   */
+  async acceptSuggestion(personId: number, targetPersonId: number): Promise<AcceptPersonDuplicateResult> {
+    if (!(await personDuplicatesDb.isCurrentSuggestion(personId, targetPersonId))) {
+      return { outcome: 'not_suggested' };
+    }
+
+    const merge = await personService.mergeAndDeletePerson(personId, targetPersonId);
+    await personDuplicatesDb.deleteRejections(personId);
+    await personDuplicatesDb.deleteSuggestions(personId);
+    return { outcome: 'merged', merge };
+  }
+
+  /**
+   * Reject a suggestion so the pair is not suggested again
+   * @param personId - One person of the pair
+   * @param otherPersonId - The other person
+   * @param notes - Why the pair was rejected
+   * @param admin - Admin rejecting the pair
+   * @returns rejected, or not_found with the first person that doesn't exist
+   */
+  async rejectSuggestion(
+    personId: number,
+    otherPersonId: number,
+    notes: string | null,
+    admin: AdminActor,
+  ): Promise<RejectPersonDuplicateResult> {
+    const existing = await personDuplicatesDb.getExistingPersonIds([personId, otherPersonId]);
+    const missing = [personId, otherPersonId].find((id) => !existing.includes(id));
+    if (missing !== undefined) {
+      return { outcome: 'not_found', personId: missing };
+    }
+
+    await personDuplicatesDb.saveRejection(personId, otherPersonId, notes, admin);
+    return { outcome: 'rejected' };
+  }
+
+  private async findSuggestions(): Promise<PersonDuplicateSuggestion[]> {
+    const [people, birthdayPairs, rejectedPairs] = await Promise.all([
+      personDuplicatesDb.getPersonNames(),
+      personDuplicatesDb.getSameBirthdayPairsWithSharedCredits(),
+      personDuplicatesDb.getRejectedPairs(),
+    ]);
+
+    const pairs = new Map<string, [number, number]>();
+    const addPair = (personId: number, otherPersonId: number) => {
+      const pair: [number, number] = [Math.min(personId, otherPersonId), Math.max(personId, otherPersonId)];
+      pairs.set(pairKey(pair), pair);
+    };
+
+    const byName = new Map<string, number[]>();
+    for (const person of people) {
+      const name = normalizePersonName(person.name);
+      if (name) {
+        byName.set(name, [...(byName.get(name) ?? []), person.id]);
+      }
+    }
+    for (const ids of byName.values()) {
+      for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) {
+          addPair(ids[i], ids[j]);
+        }
+      }
+    }
+    birthdayPairs.forEach(([personId, otherPersonId]) => addPair(personId, otherPersonId));
+    rejectedPairs.forEach((pair) => pairs.delete(pairKey(pair)));
+
+    if (pairs.size === 0) {
+      return [];
+    }
+
+    const ids = [...new Set([...pairs.values()].flat())];
+    const [candidates, credits] = await Promise.all([
+      personDuplicatesDb.getCandidates(ids),
+      personDuplicatesDb.getCredits(ids),
+    ]);
+    const candidatesById = new Map(candidates.map((candidate) => [candidate.id, candidate]));
+
+    const suggestions: PersonDuplicateSuggestion[] = [];
+    for (const [personId, otherPersonId] of pairs.values()) {
+      const person = candidatesById.get(personId);
+      const other = candidatesById.get(otherPersonId);
+      if (!person || !other) {
+        continue;
+      }
+
+      const suggestion = scorePair(person, other, credits);
+      if (suggestion) {
+        suggestions.push(suggestion);
+      }
+    }
+
+    return suggestions;
+  }
+}
+
+// Pairs without a word of their name in common are never duplicates
+function scorePair(
+  person: DuplicatePersonCandidate,
+  other: DuplicatePersonCandidate,
+  credits: Map<number, Set<string>>,
+): PersonDuplicateSuggestion | null {
+  const nameSimilarity = getNameSimilarity(person.name, other.name);
+  if (nameSimilarity === 0) {
+    return null;
+  }
+
+  const reasons: PersonDuplicateReason[] = [];
+  let confidence = NAME_WEIGHT * nameSimilarity;
+  if (nameSimilarity === 1) {
+    reasons.push('same_name');
+  } else if (nameSimilarity >= SIMILAR_NAME_THRESHOLD) {
+    reasons.push('similar_name');
+  }
+
+  if (person.birthday && other.birthday) {
+    if (person.birthday === other.birthday) {
+      confidence += BIRTHDAY_WEIGHT;
+      reasons.push('same_birthday');
+    } else {
+      confidence -= DIFFERENT_BIRTHDAY_PENALTY;
+      reasons.push('different_birthday');
+    }
+  }
+
+  const otherCredits = credits.get(other.id) ?? new Set<string>();
+  const sharedCredits = [...(credits.get(person.id) ?? [])].filter((credit) => otherCredits.has(credit)).length;
+  if (sharedCredits > 0) {
+    confidence += SHARED_CREDITS_WEIGHT;
+    reasons.push('shared_credits');
+  }
+
+  const [target, source] = [person, other].sort(compareMergeTargets);
+  return {
+    confidence: Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100,
+    reasons,
+    sharedCredits,
+    source,
+    target,
+  };
+}
+
+// The person kept is the one with the most credits, then the one with a profile image, then the oldest
+function compareMergeTargets(a: DuplicatePersonCandidate, b: DuplicatePersonCandidate): number {
+  return (
+    b.showCredits + b.movieCredits - (a.showCredits + a.movieCredits) ||
+    Number(Boolean(b.profileImage)) - Number(Boolean(a.profileImage)) ||
+    a.id - b.id
+  );
+}
+
+function pairKey([personId, otherPersonId]: [number, number]): string {
+  return `${personId}:${otherPersonId}`;
+}
+
+// Export a singleton instance
+export const personDuplicateService = new PersonDuplicateService();
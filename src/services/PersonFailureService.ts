@@ -0,0 +1,236 @@
+import {
+  PERSON_FAILURE_ERROR_TYPES,
+  PersonFailureAction,
+  PersonFailureErrorType,
+  PersonFailureResolveReport,
+  PersonFailureResolveResult,
+  PersonFailureRetryOutcome,
+  PersonFailureRetryReport,
+  PersonFailureRetryResult,
+  PersonFailureSummary,
+  PersonUpdateFailure,
+} from '../types/personFailureTypes';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { personService } from '@ajgifford/keepwatching-common-server/services';
+
+const DEFAULT_CONCURRENCY = 2;
+const PAGE_SIZE = 500;
+const SUMMARY_FAILURE_IDS = 100;
+const RETRY_RESOLUTION_NOTES = 'Resolved by retry';
+const NETWORK_ERROR_CODES = ['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'EAI_AGAIN', 'ENOTFOUND'];
+
+const SUGGESTED_ACTIONS: Record<PersonFailureErrorType, PersonFailureAction> = {
+  not_found: 'update_tmdb_id_or_delete',
+  rate_limited: 'retry_later',
+  server_error: 'retry_later',
+  network: 'retry_later',
+  other: 'investigate',
+};
+
+const RETRY_OUTCOMES: Record<PersonFailureAction, PersonFailureRetryOutcome> = {
+  update_tmdb_id_or_delete: 'not_found',
+  retry_later: 'retry_later',
+  investigate: 'failed',
+};
+
+/**
+ * Service for working through person update failures in bulk: retrying them, resolving them and summarizing them by
+ * error type. Errors are classified the same way whether they come from a retry or a stored failure, so a person TMDB
+ * no longer has is flagged for a TMDB id fix or deletion and a TMDB outage or rate limit for a later retry.
+ */
+export class PersonFailureService {
+  /**
+   * Get the number of failures retried or resolved in parallel, from PERSON_FAILURE_RETRY_CONCURRENCY (default 2)
+   */
+  getConcurrency(): number {
+    const concurrency = parseInt(process.env.PERSON_FAILURE_RETRY_CONCURRENCY ?? '', 10);
+    return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_CONCURRENCY;
+  }
+
+  /**
+   * Re-run the person update of each pending failure, resolving the ones that now succeed. Failures that aren't
+   * pending are skipped.
+   * @param failureIds - Failures to retry, or 'all' for every pending failure
+   * @returns Per-failure outcomes, in the order the ids were given
+   */
+  async retryFailures(failureIds: number[] | 'all'): Promise<PersonFailureRetryReport> {
+    const targets = failureIds === 'all' ? await this.getPendingFailures() : await this.getFailures(failureIds);
+
+    const results = await mapWithConcurrency<PersonUpdateFailure | number, PersonFailureRetryResult>(
+      targets,
+      this.getConcurrency(),
+      async (target) => {
+        if (typeof target === 'number') {
+          return { failureId: target, personId: null, outcome: 'skipped', error: 'Failure not found' };
+        }
+        if (target.status !== 'pending') {
+          return {
+            failureId: target.id,
+            personId: target.personId,
+            outcome: 'skipped',
+            error: `Failure is ${target.status}`,
+          };
+        }
+        return this.retryFailure(target);
+      },
+    );
+
+    const counts = { resolved: 0, not_found: 0, retry_later: 0, failed: 0, skipped: 0 };
+    results.forEach((result) => counts[result.outcome]++);
+    cliLogger.info(
+      `Retried ${results.length} person update failures: ${counts.resolved} resolved, ${counts.not_found} not found, ` +
+        `${counts.retry_later} to retry later, ${counts.failed} failed, ${counts.skipped} skipped`,
+    );
+    return { total: results.length, counts, results };
+  }
+
+  /**
+   * Resolve many pending failures with the same notes. A failure that isn't pending or fails to resolve never stops
+   * the others.
+   * @param failureIds - Failures to resolve
+   * @param notes - Resolution notes
+   * @returns Per-failure results, in the order the ids were given
+   */
+  async resolveFailures(failureIds: number[], notes: string): Promise<PersonFailureResolveReport> {
+    const targets = await this.getFailures(failureIds);
+
+    const results = await mapWithConcurrency<PersonUpdateFailure | number, PersonFailureResolveResult>(
+      targets,
+      this.getConcurrency(),
+      async (target) => {
+        if (typeof target === 'number') {
+          return { failureId: target, personId: null, success: false, error: 'Failure not found' };
+        }
+        if (target.status !== 'pending') {
+          return {
+            failureId: target.id,
+            personId: target.personId,
+            success: false,
+            error: `Failure is ${target.status}`,
+          };
+        }
+
+        try {
+          await personService.resolvePersonFailure(target.personId, notes);
+          return { failureId: target.id, personId: target.personId, success: true };
+        } catch (error) {
+          cliLogger.error(`Failed to resolve person failure ${target.id}:`, error);
+          return { failureId: target.id, personId: target.personId, success: false, error: getErrorMessage(error) };
+        }
+      },
+    );
+
+    const resolved = results.filter((result) => result.success).length;
+    return { total: results.length, resolved, failed: results.length - resolved, results };
+  }
+
+  /**
+   * Group the pending failures by error type. Each group lists its first 100 failure ids, enough for one retry or
+   * bulk resolve.
+   */
+  async getSummary(): Promise<PersonFailureSummary> {
+    const failures = await this.getPendingFailures();
+
+    const groups = PERSON_FAILURE_ERROR_TYPES.map((errorType) => {
+      const ofType = failures.filter((failure) => classifyFailure(failure) === errorType);
+      return {
+        errorType,
+        suggestedAction: SUGGESTED_ACTIONS[errorType],
+        count: ofType.length,
+        failureIds: ofType.slice(0, SUMMARY_FAILURE_IDS).map((failure) => failure.id),
+      };
+    })
+      .filter((group) => group.count > 0)
+      .sort((a, b) => b.count - a.count);
+
+    return { total: failures.length, groups };
+  }
+
+  private async retryFailure(failure: PersonUpdateFailure): Promise<PersonFailureRetryResult> {
+    const base = { failureId: failure.id, personId: failure.personId };
+    try {
+      await personService.updatePerson(failure.personId, failure.tmdbId);
+      await personService.resolvePersonFailure(failure.personId, RETRY_RESOLUTION_NOTES);
+      return { ...base, outcome: 'resolved' };
+    } catch (error) {
+      const errorType = classifyError(error);
+      const suggestedAction = SUGGESTED_ACTIONS[errorType];
+      return {
+        ...base,
+        outcome: RETRY_OUTCOMES[suggestedAction],
+        errorType,
+        suggestedAction,
+        error: getErrorMessage(error),
+      };
+    }
+  }
+
+  // Unknown ids are returned as-is so they can be reported
+  private async getFailures(failureIds: number[]): Promise<(PersonUpdateFailure | number)[]> {
+    const uniqueIds = [...new Set(failureIds)];
+    const failures: (PersonUpdateFailure | null)[] = await Promise.all(
+      uniqueIds.map((failureId) => personService.getPersonFailureById(failureId)),
+    );
+    return uniqueIds.map((failureId, index) => failures[index] ?? failureId);
+  }
+
+  private async getPendingFailures(): Promise<PersonUpdateFailure[]> {
+    const failures: PersonUpdateFailure[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page: PersonUpdateFailure[] = await personService.getPersonFailures('pending', PAGE_SIZE, offset);
+      failures.push(...page);
+      if (page.length < PAGE_SIZE) {
+        return failures;
+      }
+    }
+  }
+}
+
+function classifyError(error: unknown): PersonFailureErrorType {
+  const details = (error ?? {}) as {
+    status?: number;
+    statusCode?: number;
+    code?: string;
+    response?: { status?: number };
+  };
+  return classify(
+    details.statusCode ?? details.status ?? details.response?.status ?? details.code,
+    getErrorMessage(error),
+  );
+}
+
+function classifyFailure(failure: PersonUpdateFailure): PersonFailureErrorType {
+  return classify(failure.errorCode ?? undefined, failure.errorMessage ?? '');
+}
+
+// Status codes win over the message, which is the only hint stored failures and wrapped errors may have
+function classify(code: string | number | undefined, message: string): PersonFailureErrorType {
+  const status = Number(code);
+  if (status === 404 || /\b404\b|not found/i.test(message)) {
+    return 'not_found';
+  }
+  if (status === 429 || /\b429\b|rate limit|too many requests/i.test(message)) {
+    return 'rate_limited';
+  }
+  if (
+    status >= 500 ||
+    /\b5\d\d\b|internal server error|bad gateway|service unavailable|gateway timeout/i.test(message)
+  ) {
+    return 'server_error';
+  }
+  if (
+    (typeof code === 'string' && NETWORK_ERROR_CODES.includes(code)) ||
+    /timed? ?out|socket hang up|network|ECONN/i.test(message)
+  ) {
+    return 'network';
+  }
+  return 'other';
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Export a singleton instance
+export const personFailureService = new PersonFailureService();
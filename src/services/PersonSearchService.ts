@@ -0,0 +1,39 @@
+import * as personSearchDb from '../db/personSearchDb';
+import { PersonSearchQuery } from '../types/personSearchTypes';
+
+/**
+ * Service for searching, filtering and sorting people: full-text name search, first letter, known-for department,
+ * credits in a show or movie and missing profile images, sorted by relevance, name or number of credits
+ */
+export class PersonSearchService {
+  /**
+   * Get a page of people matching the query
+   * @param query - Search, filter and sort options
+   * @param page - Current page number
+   * @param offset - Number of people to skip
+   * @param limit - Page size
+   * @returns People with pagination details
+   */
+  async searchPeople(query: PersonSearchQuery, page: number, offset: number, limit: number) {
+    const [people, totalCount] = await Promise.all([
+      personSearchDb.searchPeople(query, limit, offset),
+      personSearchDb.countPeople(query),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+    return {
+      people,
+      pagination: {
+        totalCount,
+        totalPages,
+        currentPage: page,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+}
+
+// Export a singleton instance
+export const personSearchService = new PersonSearchService();
@@ -0,0 +1,121 @@
+import * as personTmdbIdDb from '../db/personTmdbIdDb';
+import {
+  PersonCredit,
+  PersonTmdbIdPreview,
+  PersonTmdbIdPreviewResult,
+  PersonTmdbIdWarning,
+  UpdatePersonTmdbIdResult,
+} from '../types/personTmdbIdTypes';
+import { TMDBPerson } from '../types/tmdbTypes';
+import { normalizePersonName } from '../utils/personNames';
+import { fetchFromTMDB } from '../utils/tmdbClient';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { personService } from '@ajgifford/keepwatching-common-server/services';
+
+/**
+ * Service for checking a person's new TMDB id before it is set. The TMDB person the id points at is compared with
+ * ours: their name (or one of the names TMDB also knows them by), their birthday and the shows and movies we have
+ * them credited in. An id that already belongs to another of our people is never set; those two people should be
+ * merged instead.
+ */
+export class PersonTmdbIdService {
+  /**
+   * Compare a person with the TMDB person a new TMDB id points at
+   * @param personId - Person whose TMDB id would change
+   * @param tmdbId - New TMDB person id
+   * @returns The comparison, or person_not_found / tmdb_not_found
+   */
+  async previewTmdbIdChange(personId: number, tmdbId: number): Promise<PersonTmdbIdPreviewResult> {
+    const person = await personTmdbIdDb.getPerson(personId);
+    if (!person) {
+      return { outcome: 'person_not_found' };
+    }
+
+    const candidate = await fetchFromTMDB<TMDBPerson>(`/person/${tmdbId}`, { append_to_response: 'combined_credits' });
+    if (!candidate) {
+      return { outcome: 'tmdb_not_found' };
+    }
+
+    const [credits, existingPerson] = await Promise.all([
+      personTmdbIdDb.getCredits(personId),
+      personTmdbIdDb.findOtherPersonByTmdbId(tmdbId, personId),
+    ]);
+
+    const candidateCredits = candidate.combined_credits?.cast ?? [];
+    const candidateCreditKeys = new Set(
+      candidateCredits.map((credit) => `${credit.media_type === 'tv' ? 'show' : 'movie'}:${credit.id}`),
+    );
+    const isShared = (credit: PersonCredit) => candidateCreditKeys.has(`${credit.contentType}:${credit.tmdbId}`);
+    const sharedCredits = credits.filter(isShared);
+    const unmatchedCredits = credits.filter((credit) => !isShared(credit));
+
+    const name = normalizePersonName(person.name);
+    const nameMatches = [candidate.name, ...(candidate.also_known_as ?? [])].some(
+      (candidateName) => normalizePersonName(candidateName) === name,
+    );
+    const birthdayMatches = person.birthday && candidate.birthday ? person.birthday === candidate.birthday : null;
+
+    const warnings: PersonTmdbIdWarning[] = [];
+    if (existingPerson) {
+      warnings.push('tmdb_id_in_use');
+    }
+    if (!nameMatches) {
+      warnings.push('name_mismatch');
+    }
+    if (birthdayMatches === false) {
+      warnings.push('birthday_mismatch');
+    }
+    if (credits.length > 0 && sharedCredits.length === 0) {
+      warnings.push('no_shared_credits');
+    }
+
+    const preview: PersonTmdbIdPreview = {
+      person,
+      candidate: {
+        tmdbId: candidate.id,
+        name: candidate.name,
+        birthday: candidate.birthday,
+        knownForDepartment: candidate.known_for_department,
+        profileImage: candidate.profile_path,
+        creditCount: candidateCreditKeys.size,
+      },
+      comparison: { nameMatches, birthdayMatches, sharedCredits, unmatchedCredits },
+      existingPerson,
+      warnings,
+    };
+    return { outcome: 'preview', preview };
+  }
+
+  /**
+   * Check a new TMDB id the same way as the preview and set it if nothing is wrong
+   * @param personId - Person whose TMDB id changes
+   * @param tmdbId - New TMDB person id
+   * @param force - Set the id despite a name, birthday or credit mismatch. Never overrides an id in use.
+   * @returns updated with the update result, conflict with the person who already has the id, needs_confirmation
+   * when the TMDB person doesn't match and the change isn't forced, or person_not_found / tmdb_not_found
+   */
+  async updateTmdbId(personId: number, tmdbId: number, force: boolean): Promise<UpdatePersonTmdbIdResult> {
+    const previewResult = await this.previewTmdbIdChange(personId, tmdbId);
+    if (previewResult.outcome !== 'preview') {
+      return previewResult;
+    }
+
+    const { preview } = previewResult;
+    if (preview.existingPerson) {
+      return { outcome: 'conflict', preview, existingPersonId: preview.existingPerson.id };
+    }
+    if (preview.warnings.length > 0 && !force) {
+      return { outcome: 'needs_confirmation', preview };
+    }
+
+    const result = await personService.updatePersonTmdbId(personId, tmdbId);
+    cliLogger.info(
+      `Changed the TMDB id of person ${personId} from ${preview.person.tmdbId} to ${tmdbId}` +
+        (preview.warnings.length > 0 ? ` despite ${preview.warnings.join(', ')}` : ''),
+    );
+    return { outcome: 'updated', preview, result };
+  }
+}
+
+// Export a singleton instance
+export const personTmdbIdService = new PersonTmdbIdService();
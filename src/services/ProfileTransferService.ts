@@ -0,0 +1,216 @@
+import * as accountsDb from '../db/accountsDb';
+import * as profileTransferDb from '../db/profileTransferDb';
+import { AdminActor } from '../types/adminTypes';
+import {
+  MergeConflictStrategy,
+  ProfileMergeChange,
+  ProfileMergeCounts,
+  ProfileMergeDiff,
+  ProfileMergeResult,
+  ProfileMoveResult,
+  WATCH_STATUS_CONTENT_TYPES,
+  WATCH_STATUS_PROGRESS,
+  WatchStatusContentType,
+  WatchStatusRecord,
+} from '../types/profileTransferTypes';
+import { trashService } from './TrashService';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+
+// Content types whose individual changes are listed in a merge diff; the rest are only counted
+const LISTED_CONTENT_TYPES: WatchStatusContentType[] = ['show', 'movie'];
+
+export interface ProfileMergeOptions {
+  strategy: MergeConflictStrategy;
+  dryRun: boolean;
+  trashSourceProfile: boolean;
+}
+
+/**
+ * Service for consolidating profiles across accounts, e.g. when a family has created two accounts
+ */
+export class ProfileTransferService {
+  /**
+   * Move a profile, with everything it has watched, to another account
+   * @param accountId - Account the profile currently belongs to
+   * @param profileId - Profile to move
+   * @param targetAccountId - Account to move the profile to
+   * @returns The outcome of the move
+   */
+  async moveProfile(accountId: number, profileId: number, targetAccountId: number): Promise<ProfileMoveResult> {
+    const profile = await profileTransferDb.getActiveProfile(profileId);
+    if (!profile || profile.accountId !== accountId) {
+      return { outcome: 'profile_not_found' };
+    }
+    if (targetAccountId === accountId) {
+      return { outcome: 'same_account' };
+    }
+
+    const [targetAccount] = await accountsDb.getAccountsByIds([targetAccountId]);
+    if (!targetAccount) {
+      return { outcome: 'account_not_found' };
+    }
+
+    const sourceDefaultProfileId = await profileTransferDb.moveProfile(profileId, accountId, targetAccountId);
+    cliLogger.info(`Moved profile ${profileId} from account ${accountId} to account ${targetAccountId}`);
+    return {
+      outcome: 'moved',
+      profile: { ...profile, accountId: targetAccountId },
+      fromAccountId: accountId,
+      sourceDefaultProfileId,
+    };
+  }
+
+  /**
+   * Merge one profile's watch statuses into another. Content only the source has is copied; shows and movies both
+   * have are resolved with the conflict strategy, and the seasons and episodes of a show both have go to the same
+   * profile as the show. Applying the merge recomputes the season and show statuses of every show it wrote to from
+   * the merged episodes. A dry run returns the diff without writing anything.
+   * @param accountId - Account the source profile belongs to
+   * @param profileId - Source profile
+   * @param targetProfileId - Profile to merge into, which may belong to any account
+   * @param options - Conflict strategy, dry run and whether to move the source profile to the trash afterwards
+   * @param admin - Admin performing the merge
+   * @returns The merge diff, or why the merge could not run
+   */
+  async mergeProfiles(
+    accountId: number,
+    profileId: number,
+    targetProfileId: number,
+    options: ProfileMergeOptions,
+    admin: AdminActor,
+  ): Promise<ProfileMergeResult> {
+    if (profileId === targetProfileId) {
+      return { outcome: 'same_profile' };
+    }
+
+    const [sourceProfile, targetProfile] = await Promise.all([
+      profileTransferDb.getActiveProfile(profileId),
+      profileTransferDb.getActiveProfile(targetProfileId),
+    ]);
+    if (!sourceProfile || sourceProfile.accountId !== accountId) {
+      return { outcome: 'profile_not_found', profileId };
+    }
+    if (!targetProfile) {
+      return { outcome: 'profile_not_found', profileId: targetProfileId };
+    }
+
+    const diff: ProfileMergeDiff = {
+      sourceProfile,
+      targetProfile,
+      strategy: options.strategy,
+      dryRun: options.dryRun,
+      summary: {} as ProfileMergeDiff['summary'],
+      changes: [],
+    };
+    const writes = {} as Record<WatchStatusContentType, WatchStatusRecord[]>;
+    // Whether the source won each show, filled in by the show pass before the season and episode passes
+    const showWinners = new Map<number, boolean>();
+
+    for (const contentType of WATCH_STATUS_CONTENT_TYPES) {
+      const [sourceStatuses, targetStatuses] = await Promise.all([
+        profileTransferDb.getWatchStatuses(contentType, profileId),
+        profileTransferDb.getWatchStatuses(contentType, targetProfileId),
+      ]);
+      const changes = this.diffStatuses(contentType, sourceStatuses, targetStatuses, options.strategy, showWinners);
+      const showIds = new Map(sourceStatuses.map((record) => [record.contentId, record.showId]));
+
+      diff.summary[contentType] = countChanges(changes, sourceStatuses.length);
+      if (LISTED_CONTENT_TYPES.includes(contentType)) {
+        diff.changes.push(...changes);
+      }
+      writes[contentType] = changes
+        .filter((change) => change.action !== 'keep')
+        .map((change) => ({
+          contentId: change.contentId,
+          showId: showIds.get(change.contentId) ?? null,
+          status: change.resultStatus,
+          updatedAt: null,
+        }));
+    }
+
+    if (options.dryRun) {
+      return { outcome: 'merged', diff, sourceTrashed: false };
+    }
+
+    await profileTransferDb.upsertWatchStatuses(targetProfileId, writes);
+    cliLogger.info(`Merged profile ${profileId} into profile ${targetProfileId} (${options.strategy} wins)`);
+
+    const sourceTrashed = options.trashSourceProfile && (await trashService.trashProfile(profileId, admin)) !== null;
+    return { outcome: 'merged', diff, sourceTrashed };
+  }
+
+  // Statuses that are identical on both profiles produce no change. Seasons and episodes follow the winner of their
+  // show, falling back to the strategy when the source has no status for the show.
+  private diffStatuses(
+    contentType: WatchStatusContentType,
+    sourceStatuses: WatchStatusRecord[],
+    targetStatuses: WatchStatusRecord[],
+    strategy: MergeConflictStrategy,
+    showWinners: Map<number, boolean>,
+  ): ProfileMergeChange[] {
+    const targetById = new Map(targetStatuses.map((record) => [record.contentId, record]));
+    const changes: ProfileMergeChange[] = [];
+
+    for (const source of sourceStatuses) {
+      const target = targetById.get(source.contentId);
+      if (!target) {
+        if (contentType === 'show') {
+          showWinners.set(source.contentId, true);
+        }
+        changes.push({
+          contentType,
+          contentId: source.contentId,
+          action: 'add',
+          sourceStatus: source.status,
+          targetStatus: null,
+          resultStatus: source.status,
+        });
+        continue;
+      }
+
+      const showWinner = contentType !== 'show' && source.showId !== null ? showWinners.get(source.showId) : undefined;
+      const sourceWins =
+        showWinner ?? (strategy === 'latest' ? isNewer(source, target) : hasMoreProgress(source, target));
+      if (contentType === 'show') {
+        showWinners.set(source.contentId, sourceWins);
+      }
+      if (target.status === source.status) {
+        continue;
+      }
+
+      changes.push({
+        contentType,
+        contentId: source.contentId,
+        action: sourceWins ? 'update' : 'keep',
+        sourceStatus: source.status,
+        targetStatus: target.status,
+        resultStatus: sourceWins ? source.status : target.status,
+      });
+    }
+
+    return changes;
+  }
+}
+
+// Ties go to the target so a merge never rewrites content for no reason
+function isNewer(source: WatchStatusRecord, target: WatchStatusRecord): boolean {
+  const sourceTime = source.updatedAt ? Date.parse(source.updatedAt) : 0;
+  const targetTime = target.updatedAt ? Date.parse(target.updatedAt) : 0;
+  return sourceTime > targetTime;
+}
+
+function hasMoreProgress(source: WatchStatusRecord, target: WatchStatusRecord): boolean {
+  return (WATCH_STATUS_PROGRESS[source.status] ?? 0) > (WATCH_STATUS_PROGRESS[target.status] ?? 0);
+}
+
+function countChanges(changes: ProfileMergeChange[], sourceCount: number): ProfileMergeCounts {
+  const counts: ProfileMergeCounts = { add: 0, update: 0, keep: 0, unchanged: 0 };
+  for (const change of changes) {
+    counts[change.action]++;
+  }
+  counts.unchanged = sourceCount - changes.length;
+  return counts;
+}
+
+// Export a singleton instance
+export const profileTransferService = new ProfileTransferService();
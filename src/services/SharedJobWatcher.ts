@@ -0,0 +1,106 @@
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { getJobsStatus } from '@ajgifford/keepwatching-common-server/services';
+import { JobName } from '@ajgifford/keepwatching-types';
+
+const DEFAULT_POLL_SECONDS = 30;
+
+type SharedJobListener = (jobName: JobName) => Promise<unknown>;
+
+interface WatchedJob {
+  listeners: SharedJobListener[];
+  // Start time of the last run seen finished, undefined until the first poll
+  lastFinishedRun?: string | null;
+}
+
+/**
+ * Watches the shared jobs from keepwatching-common-server, which don't report to the admin server when they finish,
+ * and calls the registered listeners once a run has completed. Runs are detected by polling the shared job statuses
+ * every SHARED_JOB_POLL_SECONDS (default 30), so listeners start up to that long after the run ends. Runs that
+ * finished before the first poll are not reported.
+ */
+export class SharedJobWatcher {
+  private jobs = new Map<JobName, WatchedJob>();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Get the number of seconds between polls of the shared job statuses
+   */
+  getPollSeconds(): number {
+    const seconds = parseInt(process.env.SHARED_JOB_POLL_SECONDS ?? '', 10);
+    return Number.isInteger(seconds) && seconds > 0 ? seconds : DEFAULT_POLL_SECONDS;
+  }
+
+  /**
+   * Call a listener every time one of the shared jobs finishes a run
+   * @param jobNames - Shared jobs to watch
+   * @param listener - Called with the name of the job that finished
+   */
+  onFinished(jobNames: JobName[], listener: SharedJobListener): void {
+    for (const jobName of jobNames) {
+      const job = this.jobs.get(jobName) ?? { listeners: [] };
+      job.listeners.push(listener);
+      this.jobs.set(jobName, job);
+    }
+  }
+
+  /**
+   * Start polling the shared job statuses
+   */
+  init(): void {
+    if (this.timer) {
+      return;
+    }
+    this.poll();
+    this.timer = setInterval(() => this.poll(), this.getPollSeconds() * 1000);
+  }
+
+  /**
+   * Stop polling and forget the watched jobs
+   */
+  shutdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.jobs.clear();
+  }
+
+  /**
+   * Check the shared job statuses once and notify the listeners of every watched job that finished a run since the
+   * last check
+   */
+  poll(): void {
+    try {
+      for (const status of getJobsStatus()) {
+        const job = this.jobs.get(status.name);
+        if (!job) {
+          continue;
+        }
+        if (status.isRunning) {
+          // A run already in progress at the first poll is still reported when it finishes
+          job.lastFinishedRun ??= null;
+          continue;
+        }
+
+        const lastRun = status.lastRunTime ? new Date(status.lastRunTime).toISOString() : null;
+        const isNewRun = job.lastFinishedRun !== undefined && lastRun !== null && lastRun !== job.lastFinishedRun;
+        job.lastFinishedRun = lastRun;
+        if (isNewRun) {
+          this.notify(status.name, job);
+        }
+      }
+    } catch (error) {
+      cliLogger.error('Failed to check the shared job statuses:', error);
+    }
+  }
+
+  private notify(jobName: JobName, job: WatchedJob): void {
+    cliLogger.info(`Shared job ${jobName} finished`);
+    for (const listener of job.listeners) {
+      listener(jobName).catch((error) => cliLogger.error(`Failed to handle the end of shared job ${jobName}:`, error));
+    }
+  }
+}
+
+// Export a singleton instance
+export const sharedJobWatcher = new SharedJobWatcher();
@@ -0,0 +1,222 @@
+import * as trashDb from '../db/trashDb';
+import { AdminActor } from '../types/adminTypes';
+import { RestoreResult, TrashEntry, TrashFilters, TrashedAccountState } from '../types/trashTypes';
+import { firebaseUserService } from './FirebaseUserService';
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { accountService, preferencesService, profileService } from '@ajgifford/keepwatching-common-server/services';
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// Email preferences switched off while an account is in the trash
+const TRASHED_EMAIL_PREFERENCES = ['weeklyDigest', 'marketingEmails'];
+
+export interface PurgeSummary {
+  purged: number;
+  failed: number;
+}
+
+/**
+ * Service for the admin trash. Deleted accounts and profiles are kept here for a
+ * retention window (TRASH_RETENTION_DAYS, default 30) before being permanently purged.
+ * The shared common server doesn't check the trash, so trashing an account also disables its
+ * Firebase user and turns off its digest and marketing emails; restoring it turns back on only
+ * what the trash turned off. A trashed profile is only hidden from the admin endpoints and stays
+ * usable in the app until it is purged.
+ */
+export class TrashService {
+  /**
+   * Get the number of days trashed entities are kept before being purged
+   */
+  getRetentionDays(): number {
+    const days = parseInt(process.env.TRASH_RETENTION_DAYS ?? '', 10);
+    return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+  }
+
+  /**
+   * Move an account, and with it all of its profiles, into the trash. Its Firebase user is disabled
+   * and its emails turned off first, so a failure leaves the account untouched and is thrown.
+   * @param accountId - Account id
+   * @param admin - Admin performing the delete
+   * @returns The trash entry, or null if the account does not exist or is already trashed
+   */
+  async trashAccount(accountId: number, admin: AdminActor): Promise<TrashEntry | null> {
+    const uid = await trashDb.getAccountUid(accountId);
+    if (!uid || (await trashDb.isAccountTrashed(accountId))) {
+      return null;
+    }
+
+    const state: TrashedAccountState = {
+      firebaseDisabled: await this.disableFirebaseUser(uid),
+      emailPreferences: null,
+    };
+    let entry: TrashEntry | null = null;
+    try {
+      state.emailPreferences = await this.disableEmails(accountId);
+      entry = await trashDb.trashEntity('account', accountId, admin, this.getRetentionDays(), state);
+    } finally {
+      if (!entry) {
+        await this.reenableAccount(accountId, state);
+      }
+    }
+    return entry;
+  }
+
+  /**
+   * Move a profile into the trash
+   * @param profileId - Profile id
+   * @param admin - Admin performing the delete
+   * @returns The trash entry, or null if the profile does not exist or is already trashed
+   */
+  async trashProfile(profileId: number, admin: AdminActor): Promise<TrashEntry | null> {
+    return trashDb.trashEntity('profile', profileId, admin, this.getRetentionDays());
+  }
+
+  /**
+   * Drop the trashed profiles from a list of an account's profiles
+   * @param accountId - Account id
+   * @param profiles - Profiles of the account
+   * @returns The profiles that aren't in the trash
+   */
+  async excludeTrashedProfiles<T extends { id: number }>(accountId: number, profiles: T[]): Promise<T[]> {
+    const trashedIds = await trashDb.getTrashedProfileIds(accountId);
+    return profiles.filter((profile) => !trashedIds.has(profile.id));
+  }
+
+  /**
+   * Get a page of trash entries matching the filters
+   * @param filters - Trash filters
+   * @param page - Current page number
+   * @param offset - Number of entries to skip
+   * @param limit - Page size
+   * @returns Trash entries and pagination details
+   */
+  async getTrash(filters: TrashFilters, page: number, offset: number, limit: number) {
+    const [entries, totalCount] = await Promise.all([
+      trashDb.getTrashEntries(filters, limit, offset),
+      trashDb.getTrashEntryCount(filters),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+    return {
+      entries,
+      pagination: {
+        totalCount,
+        totalPages,
+        currentPage: page,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Restore a trashed account or profile. A profile can't be restored while its account is in the trash.
+   * @param trashId - Trash entry id
+   * @param admin - Admin performing the restore
+   * @returns The outcome of the restore
+   */
+  async restore(trashId: number, admin: AdminActor): Promise<RestoreResult> {
+    const entry = await trashDb.getTrashEntryById(trashId);
+    if (!entry) {
+      return { outcome: 'not_found' };
+    }
+    if (entry.status !== 'trashed') {
+      return { outcome: 'not_trashed', entry };
+    }
+    if (entry.entityType === 'profile' && (await trashDb.isAccountTrashed(entry.accountId))) {
+      return { outcome: 'account_trashed', entry };
+    }
+
+    await trashDb.restoreEntity(entry, admin);
+    if (entry.entityType === 'account') {
+      await this.reenableAccount(entry.entityId, entry);
+    }
+    const restored = await trashDb.getTrashEntryById(trashId);
+    return { outcome: 'restored', entry: restored ?? entry };
+  }
+
+  /**
+   * Permanently delete every trashed entity whose retention window has passed.
+   * Failures are logged and left in the trash so the next run retries them.
+   * @returns Counts of purged and failed entries
+   */
+  async purgeExpired(): Promise<PurgeSummary> {
+    const entries = await trashDb.getExpiredTrashEntries();
+    const summary: PurgeSummary = { purged: 0, failed: 0 };
+
+    for (const entry of entries) {
+      try {
+        if (entry.entityType === 'account') {
+          await accountService.deleteAccount(entry.entityId);
+          await trashDb.markAccountProfilesPurged(entry.entityId);
+        } else {
+          await profileService.deleteProfile(entry.entityId);
+        }
+        await trashDb.markTrashEntryPurged(entry.id);
+        summary.purged++;
+      } catch (error) {
+        summary.failed++;
+        cliLogger.error(`Failed to purge trashed ${entry.entityType} ${entry.entityId}:`, error);
+      }
+    }
+
+    cliLogger.info(`Trash purge complete: ${summary.purged} purged, ${summary.failed} failed`);
+    return summary;
+  }
+
+  /**
+   * Disable the Firebase user of an account being trashed. Lookup and update failures are thrown.
+   * @returns Whether the user was disabled; users that don't exist or were already disabled are left alone
+   */
+  private async disableFirebaseUser(uid: string): Promise<boolean> {
+    const firebaseUser = await firebaseUserService.getUser(uid);
+    if (!firebaseUser || firebaseUser.disabled) {
+      return false;
+    }
+    return (await firebaseUserService.setDisabled(uid, true)) !== null;
+  }
+
+  /**
+   * Turn off the digest and marketing emails of an account being trashed
+   * @returns The email preferences the account had before
+   */
+  private async disableEmails(accountId: number): Promise<Record<string, unknown>> {
+    const current: Record<string, unknown> = (await preferencesService.getPreferencesByType(accountId, 'email')) ?? {};
+    const previous = Object.fromEntries(
+      TRASHED_EMAIL_PREFERENCES.filter((field) => field in current).map((field) => [field, current[field]]),
+    );
+    await preferencesService.updatePreferences(
+      accountId,
+      'email',
+      Object.fromEntries(TRASHED_EMAIL_PREFERENCES.map((field) => [field, false])),
+    );
+    return previous;
+  }
+
+  /**
+   * Turn back on what trashing an account turned off. Failures are logged so the restore still completes.
+   */
+  private async reenableAccount(accountId: number, state: TrashedAccountState): Promise<void> {
+    if (state.firebaseDisabled) {
+      try {
+        const uid = await trashDb.getAccountUid(accountId);
+        if (uid) {
+          await firebaseUserService.setDisabled(uid, false);
+        }
+      } catch (error) {
+        cliLogger.error(`Failed to enable the Firebase user of restored account ${accountId}:`, error);
+      }
+    }
+    if (state.emailPreferences) {
+      try {
+        await preferencesService.updatePreferences(accountId, 'email', state.emailPreferences);
+      } catch (error) {
+        cliLogger.error(`Failed to restore the email preferences of account ${accountId}:`, error);
+      }
+    }
+  }
+}
+
+// Export a singleton instance
+export const trashService = new TrashService();
@@ -0,0 +1,73 @@
+import * as dataQualityDb from '../db/dataQualityDb';
+import { ContentIssue, DataQualityRule } from '../types/dataQualityTypes';
+import { contentOverrideService } from './ContentOverrideService';
+import { duplicateEpisodeService } from './DuplicateEpisodeService';
+
+// Re-fetch the show from TMDB; episode issues carry their show in showId/showTmdbId
+async function refreshShow(issue: ContentIssue): Promise<void> {
+  const showId = issue.contentType === 'episode' ? Number(issue.details.showId) : issue.contentId;
+  const tmdbId = Number(issue.contentType === 'episode' ? issue.details.showTmdbId : issue.details.tmdbId);
+  await contentOverrideService.refreshShow(showId, tmdbId, 'all');
+}
+
+async function resolveDuplicateEpisodes(issue: ContentIssue): Promise<void> {
+  await duplicateEpisodeService.resolveShowDuplicates(issue.contentId, false);
+}
+
+async function refreshMovie(issue: ContentIssue): Promise<void> {
+  await contentOverrideService.refreshMovie(issue.contentId, Number(issue.details.tmdbId));
+}
+
+/**
+ * The data-quality rules run by the content scan. Add a rule here to include it in every scan.
+ */
+export const defaultDataQualityRules: DataQualityRule[] = [
+  {
+    id: 'show-without-seasons',
+    description: 'Show has no seasons',
+    contentType: 'show',
+    severity: 'error',
+    detect: () => dataQualityDb.findShowsWithoutSeasons(),
+    fix: refreshShow,
+  },
+  {
+    id: 'show-duplicate-episodes',
+    description: 'Show has more than one episode in the same season and episode slot',
+    contentType: 'show',
+    severity: 'error',
+    detect: () => dataQualityDb.findShowsWithDuplicateEpisodes(),
+    fix: resolveDuplicateEpisodes,
+  },
+  {
+    id: 'show-missing-poster',
+    description: 'Show has no poster image',
+    contentType: 'show',
+    severity: 'warning',
+    detect: () => dataQualityDb.findContentWithoutPoster('show'),
+    fix: refreshShow,
+  },
+  {
+    id: 'episode-missing-air-date',
+    description: 'Episode has no air date',
+    contentType: 'episode',
+    severity: 'warning',
+    detect: () => dataQualityDb.findEpisodesWithoutAirDate(),
+    fix: refreshShow,
+  },
+  {
+    id: 'movie-missing-runtime',
+    description: 'Movie has no runtime',
+    contentType: 'movie',
+    severity: 'warning',
+    detect: () => dataQualityDb.findMoviesWithoutRuntime(),
+    fix: refreshMovie,
+  },
+  {
+    id: 'movie-missing-poster',
+    description: 'Movie has no poster image',
+    contentType: 'movie',
+    severity: 'warning',
+    detect: () => dataQualityDb.findContentWithoutPoster('movie'),
+    fix: refreshMovie,
+  },
+];
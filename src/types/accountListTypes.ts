@@ -0,0 +1,17 @@
+import { CombinedAccount } from '@ajgifford/keepwatching-types';
+
+export const ACCOUNT_SORT_FIELDS = ['createdAt', 'lastLogin', 'profileCount', 'name', 'email'] as const;
+export type AccountSortField = (typeof ACCOUNT_SORT_FIELDS)[number];
+// Last login comes from Firebase, so it is the one field the database can't sort by
+export type AccountSqlSortField = Exclude<AccountSortField, 'lastLogin'>;
+
+export interface AccountListQuery {
+  search?: string;
+  sortBy: AccountSortField;
+  sortOrder: 'asc' | 'desc';
+  emailVerified?: boolean;
+  hasProfiles?: boolean;
+  inactiveDays?: number;
+}
+
+export type AccountListItem = CombinedAccount & { profileCount: number };
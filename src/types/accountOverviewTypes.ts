@@ -0,0 +1,20 @@
+export type OverviewSection<T = unknown> = { status: 'ok'; data: T } | { status: 'error'; error: string };
+
+export const ACCOUNT_OVERVIEW_SECTIONS = [
+  'account',
+  'profiles',
+  'preferences',
+  'statistics',
+  'health',
+  'ratings',
+  'recommendations',
+  'notifications',
+] as const;
+export type AccountOverviewSectionName = (typeof ACCOUNT_OVERVIEW_SECTIONS)[number];
+
+export interface AccountOverview {
+  accountId: number;
+  generatedAt: string;
+  complete: boolean;
+  sections: Record<AccountOverviewSectionName, OverviewSection>;
+}
@@ -0,0 +1,7 @@
+/**
+ * The admin performing an action, taken from the verified Firebase token
+ */
+export interface AdminActor {
+  uid: string;
+  email: string | null;
+}
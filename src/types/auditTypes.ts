@@ -0,0 +1,30 @@
+export type AuditAction = 'create' | 'update' | 'delete' | 'execute';
+
+export interface AuditEntry {
+  id: number;
+  adminUid: string;
+  adminEmail: string | null;
+  adminRole: string | null;
+  method: string;
+  route: string;
+  action: AuditAction;
+  entityType: string | null;
+  entityId: string | null;
+  params: Record<string, string>;
+  bodySummary: Record<string, unknown> | null;
+  details: Record<string, unknown> | null;
+  statusCode: number;
+  durationMs: number;
+  createdAt: string;
+}
+
+export type CreateAuditEntry = Omit<AuditEntry, 'id' | 'createdAt'>;
+
+export interface AuditFilters {
+  admin?: string;
+  entityType?: string;
+  entityId?: string;
+  action?: AuditAction;
+  startDate?: Date;
+  endDate?: Date;
+}
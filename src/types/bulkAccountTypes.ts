@@ -0,0 +1,17 @@
+export const BULK_ACCOUNT_ACTIONS = ['verify-email', 'send-weekly-email', 'reset-default-profile', 'delete'] as const;
+export type BulkAccountAction = (typeof BULK_ACCOUNT_ACTIONS)[number];
+
+export interface BulkAccountResult {
+  accountId: number;
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+export interface BulkAccountReport {
+  action: BulkAccountAction;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkAccountResult[];
+}
@@ -0,0 +1,67 @@
+export type ContentHistoryType = 'show' | 'movie';
+
+/**
+ * How a change was picked up: `refresh` for refreshes made by the admin server, `scheduled` for changes found after
+ * the shared scheduled update jobs
+ */
+export type ContentChangeSource = 'refresh' | 'scheduled';
+
+export type ContentFieldValue = string | number | null;
+
+export interface EpisodeSnapshot {
+  id: number;
+  seasonNumber: number;
+  episodeNumber: number;
+  title: string | null;
+  airDate: string | null;
+}
+
+/**
+ * The parts of a show tracked for changes
+ */
+export interface ShowSnapshot {
+  fields: Record<string, ContentFieldValue>;
+  seasons: number[];
+  episodes: EpisodeSnapshot[];
+}
+
+/**
+ * The parts of a movie tracked for changes
+ */
+export interface MovieSnapshot {
+  fields: Record<string, ContentFieldValue>;
+}
+
+export type ContentSnapshot = ShowSnapshot | MovieSnapshot;
+
+export type ContentChange =
+  | { type: 'field_changed'; field: string; from: ContentFieldValue; to: ContentFieldValue }
+  | { type: 'season_added'; seasonNumber: number }
+  | { type: 'episode_added'; episodeId: number; seasonNumber: number; episodeNumber: number; title: string | null }
+  | {
+      type: 'air_date_changed';
+      episodeId: number;
+      seasonNumber: number;
+      episodeNumber: number;
+      from: string | null;
+      to: string | null;
+    };
+
+/**
+ * Everything one refresh changed on a show or movie
+ */
+export interface ContentChangeEntry {
+  id: number;
+  contentType: ContentHistoryType;
+  contentId: number;
+  title: string;
+  source: ContentChangeSource;
+  changes: ContentChange[];
+  detectedAt: string;
+}
+
+export interface ContentChangeFilters {
+  contentType?: ContentHistoryType;
+  contentId?: number;
+  since?: string;
+}
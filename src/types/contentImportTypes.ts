@@ -0,0 +1,17 @@
+export type ContentImportType = 'show' | 'movie';
+
+/**
+ * Id of the show or movie an import saved, or of the one that already had its TMDB id
+ */
+export interface SavedContentImport {
+  id: number;
+  duplicate: boolean;
+}
+
+/**
+ * Result of an import. `details` is the saved show or movie as returned by the show and movie details endpoints.
+ */
+export type ImportContentResult =
+  | { outcome: 'created'; id: number; title: string; details: unknown }
+  | { outcome: 'duplicate'; id: number }
+  | { outcome: 'not_found' };
@@ -0,0 +1,41 @@
+import { AdminActor } from './adminTypes';
+
+export const CONTENT_OVERRIDE_TYPES = ['show', 'movie', 'episode'] as const;
+export type ContentOverrideType = (typeof CONTENT_OVERRIDE_TYPES)[number];
+
+/**
+ * Fields an admin can override, per content type
+ */
+export const CONTENT_OVERRIDE_FIELDS = {
+  show: ['title', 'description', 'posterImage', 'backdropImage', 'releaseDate', 'network', 'status', 'type'],
+  movie: ['title', 'description', 'posterImage', 'backdropImage', 'releaseDate', 'runtime', 'mpaRating'],
+  episode: ['title', 'overview', 'airDate', 'stillImage', 'runtime'],
+} as const;
+
+export type ContentOverrideValue = string | number;
+
+/**
+ * New override values keyed by field
+ */
+export type ContentOverrideValues = Record<string, ContentOverrideValue>;
+
+/**
+ * A field whose value is set by an admin instead of TMDB. `sourceValue` is the value TMDB last supplied for the field,
+ * which is restored when the override is removed.
+ */
+export interface ContentOverride {
+  contentType: ContentOverrideType;
+  contentId: number;
+  field: string;
+  value: ContentOverrideValue;
+  sourceValue: ContentOverrideValue | null;
+  updatedAt: string;
+  updatedBy: AdminActor;
+}
+
+export interface ContentOverrideTarget {
+  contentType: ContentOverrideType;
+  contentId: number;
+}
+
+export type SetContentOverridesResult = { outcome: 'updated'; overrides: ContentOverride[] } | { outcome: 'not_found' };
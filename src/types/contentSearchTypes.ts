@@ -0,0 +1,66 @@
+export const CONTENT_SORT_FIELDS = ['relevance', 'popularity', 'lastUpdated', 'title'] as const;
+export type ContentSortField = (typeof CONTENT_SORT_FIELDS)[number];
+
+export const CONTENT_SEARCH_MODES = ['prefix', 'fuzzy'] as const;
+export type ContentSearchMode = (typeof CONTENT_SEARCH_MODES)[number];
+
+export const CONTENT_MISSING_FIELDS = ['poster', 'overview'] as const;
+export type ContentMissingField = (typeof CONTENT_MISSING_FIELDS)[number];
+
+export type ContentType = 'show' | 'movie';
+
+/**
+ * Search, filter and sort options shared by shows and movies
+ */
+export interface ContentSearchQuery {
+  search?: string;
+  searchMode: ContentSearchMode;
+  ids?: number[];
+  tmdbId?: number;
+  genre?: string;
+  releasedFrom?: string;
+  releasedTo?: string;
+  unwatched?: boolean;
+  updatedBefore?: string;
+  missing?: ContentMissingField[];
+  streamingService?: string;
+  sortBy?: ContentSortField;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface ShowSearchQuery extends ContentSearchQuery {
+  type?: string;
+  status?: string;
+  network?: string;
+}
+
+export interface MovieSearchQuery extends ContentSearchQuery {
+  year?: number;
+}
+
+export interface ContentSearchResult {
+  id: number;
+  tmdbId: number;
+  title: string;
+  description: string | null;
+  releaseDate: string | null;
+  posterImage: string | null;
+  backdropImage: string | null;
+  genres: string[];
+  streamingServices: string[];
+  profileCount: number;
+  lastUpdated: string | null;
+}
+
+export interface ShowSearchResult extends ContentSearchResult {
+  network: string | null;
+  status: string | null;
+  type: string | null;
+  seasonCount: number | null;
+  episodeCount: number | null;
+}
+
+export interface MovieSearchResult extends ContentSearchResult {
+  runtime: number | null;
+  mpaRating: string | null;
+}
@@ -0,0 +1,54 @@
+import { AdminActor } from './adminTypes';
+import { MovieSearchQuery, ShowSearchQuery } from './contentSearchTypes';
+
+export type ContentUpdateType = 'show' | 'movie';
+export type ContentUpdateRunStatus = 'running' | 'completed' | 'cancelled';
+
+/**
+ * A show or movie to re-fetch from TMDB
+ */
+export interface ContentUpdateItem {
+  id: number;
+  tmdbId: number;
+  title: string;
+}
+
+export interface ContentUpdateError {
+  contentId: number;
+  tmdbId: number;
+  title: string;
+  error: string;
+  failedAt: string;
+}
+
+/**
+ * Progress of one bulk content update. `processed` counts every item attempted, split into `updated` and `failed`.
+ * `estimatedCompletionAt` is projected from the average time per item so far and is null until an item finishes.
+ * `filters` holds the filters of a targeted refresh and is null for a full update.
+ */
+export interface ContentUpdateRun {
+  id: string;
+  contentType: ContentUpdateType;
+  filters: ShowSearchQuery | MovieSearchQuery | null;
+  status: ContentUpdateRunStatus;
+  total: number;
+  processed: number;
+  updated: number;
+  failed: number;
+  errors: ContentUpdateError[];
+  startedAt: string;
+  finishedAt: string | null;
+  estimatedCompletionAt: string | null;
+  cancelRequestedAt: string | null;
+  startedBy: AdminActor;
+}
+
+export type StartContentUpdateResult =
+  | { outcome: 'started'; run: ContentUpdateRun }
+  | { outcome: 'already_running'; run: ContentUpdateRun }
+  | { outcome: 'no_matches' };
+
+export type CancelContentUpdateResult =
+  | { outcome: 'cancelling'; run: ContentUpdateRun }
+  | { outcome: 'not_found' }
+  | { outcome: 'not_running'; run: ContentUpdateRun };
@@ -0,0 +1,64 @@
+export type ContentIssueType = 'show' | 'movie' | 'episode';
+export type ContentIssueStatus = 'open' | 'resolved';
+export type ContentIssueSeverity = 'error' | 'warning';
+
+/**
+ * A problem found by a data-quality rule. `details` carries whatever the rule's fix needs
+ * (e.g. the TMDB id of the show to re-fetch) along with context for admins.
+ */
+export interface DetectedIssue {
+  contentType: ContentIssueType;
+  contentId: number;
+  title: string;
+  details: Record<string, unknown>;
+}
+
+export interface ContentIssue extends DetectedIssue {
+  id: number;
+  rule: string;
+  status: ContentIssueStatus;
+  firstDetectedAt: string;
+  lastDetectedAt: string;
+  resolvedAt: string | null;
+  fixedByUid: string | null;
+  fixedByEmail: string | null;
+}
+
+/**
+ * A pluggable data-quality check. Rules with a `fix` offer an automatic remedy for their issues.
+ */
+export interface DataQualityRule {
+  id: string;
+  description: string;
+  contentType: ContentIssueType;
+  severity: ContentIssueSeverity;
+  detect: () => Promise<DetectedIssue[]>;
+  fix?: (issue: ContentIssue) => Promise<void>;
+}
+
+export interface ContentIssueFilters {
+  rule?: string;
+  contentType?: ContentIssueType;
+  status?: ContentIssueStatus;
+}
+
+export interface RuleIssueCounts {
+  rule: string;
+  description: string;
+  contentType: ContentIssueType;
+  severity: ContentIssueSeverity;
+  fixable: boolean;
+  open: number;
+  resolved: number;
+}
+
+export interface DataQualityScanSummary {
+  rules: { rule: string; detected: number; opened: number; resolved: number }[];
+  failedRules: string[];
+}
+
+export type FixIssueResult =
+  | { outcome: 'fixed'; issue: ContentIssue }
+  | { outcome: 'not_found' }
+  | { outcome: 'not_open'; issue: ContentIssue }
+  | { outcome: 'not_fixable'; issue: ContentIssue };
@@ -0,0 +1,69 @@
+/**
+ * One of the episodes sharing a season and episode number within a show
+ */
+export interface DuplicateEpisode {
+  id: number;
+  tmdbId: number | null;
+  seasonId: number;
+  seasonNumber: number;
+  episodeNumber: number;
+  title: string | null;
+  updatedAt: string | null;
+}
+
+/**
+ * A profile's watch status for one episode
+ */
+export interface EpisodeWatchStatus {
+  profileId: number;
+  episodeId: number;
+  status: string;
+}
+
+/**
+ * A watch status written to the canonical episode when its duplicates are removed
+ */
+export interface WatchStatusMigration {
+  profileId: number;
+  fromEpisodeId: number;
+  status: string;
+}
+
+/**
+ * How one set of duplicate episodes is resolved: `keep` is the canonical episode, `remove` the duplicates deleted.
+ * Each profile watching a duplicate has its most progressed status moved to the canonical episode, unless it already
+ * has an equal or further status there.
+ */
+export interface DuplicateEpisodeGroupPlan {
+  seasonNumber: number;
+  episodeNumber: number;
+  keep: DuplicateEpisode;
+  remove: DuplicateEpisode[];
+  migrations: WatchStatusMigration[];
+}
+
+export interface ShowDuplicateResolutionPlan {
+  showId: number;
+  groups: DuplicateEpisodeGroupPlan[];
+  summary: {
+    groups: number;
+    episodesRemoved: number;
+    watchStatusesMigrated: number;
+  };
+}
+
+export type ResolveShowDuplicatesResult =
+  | { outcome: 'resolved'; dryRun: boolean; plan: ShowDuplicateResolutionPlan }
+  | { outcome: 'show_not_found' };
+
+export interface ResolveAllDuplicatesResult {
+  dryRun: boolean;
+  plans: ShowDuplicateResolutionPlan[];
+  failedShowIds: number[];
+  summary: {
+    shows: number;
+    groups: number;
+    episodesRemoved: number;
+    watchStatusesMigrated: number;
+  };
+}
@@ -0,0 +1,24 @@
+export type AccountExportStatus = 'pending' | 'running' | 'completed' | 'failed' | 'expired';
+
+export interface AccountExport {
+  id: string;
+  accountId: number;
+  status: AccountExportStatus;
+  requestedByUid: string;
+  requestedByEmail: string | null;
+  filePath: string | null;
+  sizeBytes: number | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+}
+
+export interface SentEmail {
+  emailId: number;
+  subject: string;
+  message: string;
+  sendToAll: boolean;
+  status: string;
+  sentAt: string | null;
+}
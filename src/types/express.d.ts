@@ -1,9 +1,11 @@
+import { AdminRole } from '../utils/permissions';
 import { DecodedIdToken } from 'firebase-admin/auth';
 
 declare global {
   namespace Express {
     interface Request {
       user?: DecodedIdToken;
+      adminRole?: AdminRole;
     }
   }
 }
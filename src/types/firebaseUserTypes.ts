@@ -0,0 +1,15 @@
+/**
+ * The Firebase Auth record behind an account
+ */
+export interface FirebaseUserDetails {
+  uid: string;
+  email: string | null;
+  emailVerified: boolean;
+  disabled: boolean;
+  providers: string[];
+  creationTime: string | null;
+  lastSignInTime: string | null;
+  lastRefreshTime: string | null;
+  // Refresh tokens issued before this time are revoked
+  tokensValidAfterTime: string | null;
+}
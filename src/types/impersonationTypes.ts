@@ -0,0 +1,41 @@
+export type ImpersonationSessionStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * A period during which an admin can view the app as an account's user
+ */
+export interface ImpersonationSession {
+  id: string;
+  accountId: number;
+  accountUid: string;
+  impersonatedByUid: string;
+  impersonatedByEmail: string | null;
+  reason: string | null;
+  status: ImpersonationSessionStatus;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  revokedByUid: string | null;
+}
+
+/**
+ * Custom claims carried by an impersonation token. Nothing in Firebase enforces them: the app API must treat requests
+ * with these claims as read-only and reject them once the session is expired or revoked. Refreshed ID tokens keep the
+ * claims, so checking the session on every request also covers the token's refresh token.
+ */
+export interface ImpersonationClaims {
+  impersonatedBy: string;
+  impersonationSessionId: string;
+  impersonationExpiresAt: number;
+  accountId: number;
+  readOnly: true;
+}
+
+export type StartImpersonationResult =
+  | { outcome: 'started'; session: ImpersonationSession; token: string }
+  | { outcome: 'not_found' }
+  | { outcome: 'disabled' };
+
+export type RevokeImpersonationResult =
+  | { outcome: 'revoked'; session: ImpersonationSession }
+  | { outcome: 'not_found' }
+  | { outcome: 'not_active'; session: ImpersonationSession };
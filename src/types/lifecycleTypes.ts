@@ -0,0 +1,46 @@
+export const LIFECYCLE_STAGES = ['active', 'dormant', 'at_risk', 'abandoned'] as const;
+export type LifecycleStage = (typeof LIFECYCLE_STAGES)[number];
+export type ReengagementStage = Exclude<LifecycleStage, 'active'>;
+
+export interface AccountLifecycle {
+  accountId: number;
+  stage: LifecycleStage;
+  lastActivityAt: string | null;
+  inactiveDays: number | null;
+  abandonmentRate: number | null;
+  stageChangedAt: string;
+  reengagementStage: ReengagementStage | null;
+  reengagementSentAt: string | null;
+  deletionReviewFlaggedAt: string | null;
+  evaluatedAt: string;
+}
+
+export interface AccountLifecycleEvaluation {
+  accountId: number;
+  stage: LifecycleStage;
+  lastActivityAt: string | null;
+  inactiveDays: number | null;
+  abandonmentRate: number | null;
+  flagForDeletionReview: boolean;
+}
+
+export interface LifecycleFilters {
+  stage?: LifecycleStage;
+  flaggedForDeletionReview?: boolean;
+}
+
+export interface LifecycleThresholds {
+  dormantDays: number;
+  atRiskDays: number;
+  abandonedDays: number;
+  atRiskAbandonmentRate: number;
+  deletionReviewDays: number;
+}
+
+export interface LifecycleRunSummary {
+  evaluated: number;
+  stageCounts: Record<LifecycleStage, number>;
+  stageChanges: number;
+  reengagementEmailsSent: Record<ReengagementStage, number>;
+  flaggedForDeletionReview: number;
+}
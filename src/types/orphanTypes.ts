@@ -0,0 +1,62 @@
+import { AdminActor } from './adminTypes';
+
+export const ORPHAN_TYPES = ['show', 'movie', 'season', 'episode', 'person'] as const;
+export type OrphanType = (typeof ORPHAN_TYPES)[number];
+
+export const ORPHAN_CLEANUP_MODES = ['archive', 'remove'] as const;
+export type OrphanCleanupMode = (typeof ORPHAN_CLEANUP_MODES)[number];
+
+export type OrphanCounts = Record<OrphanType, number>;
+
+/**
+ * Content nothing depends on: a released show or movie no profile watches that wasn't imported in the last 90 days, a
+ * season or episode whose show (or season) is gone, or a person without any show or movie credits. `orphanedSince` is
+ * when a cleanup run first saw it, null if no run has yet; `archivedAt` is set on archived shows and movies.
+ */
+export interface OrphanedContent {
+  contentType: OrphanType;
+  contentId: number;
+  title: string;
+  orphanedSince: string | null;
+  archivedAt: string | null;
+}
+
+export interface OrphanFilters {
+  contentType?: OrphanType;
+}
+
+/**
+ * An item a cleanup run archived or removed, or would have in a dry run
+ */
+export interface OrphanCleanupItem {
+  contentType: OrphanType;
+  contentId: number;
+  title: string;
+  orphanedSince: string;
+}
+
+/**
+ * One cleanup run. `detected` counts every orphan found, `actioned` the ones past the grace period that were archived
+ * or removed, and `unarchived` the archived shows and movies watched again.
+ */
+export interface OrphanCleanupRun {
+  id: number;
+  mode: OrphanCleanupMode;
+  dryRun: boolean;
+  graceDays: number;
+  detected: OrphanCounts;
+  actioned: OrphanCounts;
+  items: OrphanCleanupItem[];
+  unarchived: number;
+  triggeredBy: AdminActor | null;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export type CreateOrphanCleanupRun = Omit<OrphanCleanupRun, 'id' | 'finishedAt'>;
+
+export interface OrphanCleanupOptions {
+  dryRun: boolean;
+  mode?: OrphanCleanupMode;
+  admin?: AdminActor;
+}
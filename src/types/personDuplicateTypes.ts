@@ -0,0 +1,62 @@
+/**
+ * Why two people were suggested as duplicates. `different_birthday` lowers the confidence of a pair.
+ */
+export type PersonDuplicateReason =
+  | 'same_name'
+  | 'similar_name'
+  | 'same_birthday'
+  | 'different_birthday'
+  | 'shared_credits';
+
+/**
+ * A person as compared by duplicate detection
+ */
+export interface DuplicatePersonCandidate {
+  id: number;
+  tmdbId: number;
+  name: string;
+  birthday: string | null;
+  profileImage: string | null;
+  showCredits: number;
+  movieCredits: number;
+}
+
+/**
+ * Two people that look like the same person. Accepting the suggestion merges `source` into `target`, which has the
+ * most credits, and deletes `source`.
+ */
+export interface PersonDuplicateSuggestion {
+  confidence: number;
+  reasons: PersonDuplicateReason[];
+  sharedCredits: number;
+  source: DuplicatePersonCandidate;
+  target: DuplicatePersonCandidate;
+}
+
+/**
+ * Filters for duplicate person suggestions
+ */
+export interface PersonDuplicateFilters {
+  minConfidence: number;
+}
+
+/**
+ * Result of rejecting a suggestion
+ */
+export type RejectPersonDuplicateResult = { outcome: 'rejected' } | { outcome: 'not_found'; personId: number };
+
+/**
+ * Credits moved by merging one person into another
+ */
+export interface PersonMergeResult {
+  showsMerged: number;
+  moviesMerged: number;
+}
+
+/**
+ * Result of accepting a suggestion. `not_suggested` when the pair isn't a current suggestion, e.g. it was rejected,
+ * one of the people was already merged away or no scan has suggested it yet.
+ */
+export type AcceptPersonDuplicateResult =
+  | { outcome: 'merged'; merge: PersonMergeResult }
+  | { outcome: 'not_suggested' };
@@ -0,0 +1,66 @@
+export const PERSON_FAILURE_ERROR_TYPES = ['not_found', 'rate_limited', 'server_error', 'network', 'other'] as const;
+export type PersonFailureErrorType = (typeof PERSON_FAILURE_ERROR_TYPES)[number];
+
+/**
+ * What an admin should do about a failure: fix the person's TMDB id or delete them when TMDB no longer has them,
+ * retry later when TMDB was unavailable, or look into it otherwise
+ */
+export type PersonFailureAction = 'update_tmdb_id_or_delete' | 'retry_later' | 'investigate';
+
+/**
+ * The fields of a person update failure record used for triage
+ */
+export interface PersonUpdateFailure {
+  id: number;
+  personId: number;
+  tmdbId: number;
+  status: 'pending' | 'resolved' | 'removed';
+  errorCode?: string | number | null;
+  errorMessage?: string | null;
+}
+
+export type PersonFailureRetryOutcome = 'resolved' | 'not_found' | 'retry_later' | 'failed' | 'skipped';
+
+export interface PersonFailureRetryResult {
+  failureId: number;
+  personId: number | null;
+  outcome: PersonFailureRetryOutcome;
+  errorType?: PersonFailureErrorType;
+  suggestedAction?: PersonFailureAction;
+  error?: string;
+}
+
+export interface PersonFailureRetryReport {
+  total: number;
+  counts: Record<PersonFailureRetryOutcome, number>;
+  results: PersonFailureRetryResult[];
+}
+
+export interface PersonFailureResolveResult {
+  failureId: number;
+  personId: number | null;
+  success: boolean;
+  error?: string;
+}
+
+export interface PersonFailureResolveReport {
+  total: number;
+  resolved: number;
+  failed: number;
+  results: PersonFailureResolveResult[];
+}
+
+export interface PersonFailureSummaryGroup {
+  errorType: PersonFailureErrorType;
+  suggestedAction: PersonFailureAction;
+  count: number;
+  failureIds: number[];
+}
+
+/**
+ * Pending failures grouped by error type, largest group first
+ */
+export interface PersonFailureSummary {
+  total: number;
+  groups: PersonFailureSummaryGroup[];
+}
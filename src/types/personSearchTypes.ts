@@ -0,0 +1,27 @@
+export const PERSON_SORT_FIELDS = ['relevance', 'name', 'credits'] as const;
+export type PersonSortField = (typeof PERSON_SORT_FIELDS)[number];
+
+/**
+ * Search, filter and sort options for people
+ */
+export interface PersonSearchQuery {
+  search?: string;
+  firstLetter?: string;
+  department?: string;
+  showId?: number;
+  movieId?: number;
+  missingProfileImage?: boolean;
+  sortBy?: PersonSortField;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface PersonSearchResult {
+  id: number;
+  tmdbId: number;
+  name: string;
+  knownForDepartment: string | null;
+  profileImage: string | null;
+  showCredits: number;
+  movieCredits: number;
+  creditCount: number;
+}
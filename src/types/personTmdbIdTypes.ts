@@ -0,0 +1,61 @@
+/**
+ * Why a TMDB id change needs a second look. `tmdb_id_in_use` blocks the change: the two people should be merged
+ * instead. The others only block it unless the change is forced.
+ */
+export type PersonTmdbIdWarning = 'tmdb_id_in_use' | 'name_mismatch' | 'birthday_mismatch' | 'no_shared_credits';
+
+/**
+ * A show or movie a person is credited in
+ */
+export interface PersonCredit {
+  contentType: 'show' | 'movie';
+  id: number;
+  tmdbId: number;
+  title: string;
+}
+
+/**
+ * A person as compared with a TMDB person
+ */
+export interface PersonTmdbRecord {
+  id: number;
+  tmdbId: number;
+  name: string;
+  birthday: string | null;
+}
+
+/**
+ * Our person next to the TMDB person the new id points at. `sharedCredits` are our credits TMDB also lists for the
+ * candidate and `unmatchedCredits` the ones it doesn't, which would be wrong after the change.
+ */
+export interface PersonTmdbIdPreview {
+  person: PersonTmdbRecord;
+  candidate: {
+    tmdbId: number;
+    name: string;
+    birthday: string | null;
+    knownForDepartment: string | null;
+    profileImage: string | null;
+    creditCount: number;
+  };
+  comparison: {
+    nameMatches: boolean;
+    birthdayMatches: boolean | null;
+    sharedCredits: PersonCredit[];
+    unmatchedCredits: PersonCredit[];
+  };
+  existingPerson: { id: number; name: string } | null;
+  warnings: PersonTmdbIdWarning[];
+}
+
+export type PersonTmdbIdPreviewResult =
+  | { outcome: 'preview'; preview: PersonTmdbIdPreview }
+  | { outcome: 'person_not_found' }
+  | { outcome: 'tmdb_not_found' };
+
+export type UpdatePersonTmdbIdResult =
+  | { outcome: 'updated'; preview: PersonTmdbIdPreview; result: unknown }
+  | { outcome: 'conflict'; preview: PersonTmdbIdPreview; existingPersonId: number }
+  | { outcome: 'needs_confirmation'; preview: PersonTmdbIdPreview }
+  | { outcome: 'person_not_found' }
+  | { outcome: 'tmdb_not_found' };
@@ -0,0 +1,14 @@
+export const PREFERENCE_TYPES = ['email', 'notification', 'display', 'privacy'] as const;
+
+export type PreferenceType = (typeof PREFERENCE_TYPES)[number];
+
+/**
+ * One preference type's values before and after an admin edit
+ */
+export interface PreferenceUpdateResult {
+  accountId: number;
+  preferenceType: PreferenceType;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  changedFields: string[];
+}
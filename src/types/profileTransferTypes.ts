@@ -0,0 +1,73 @@
+export const MERGE_CONFLICT_STRATEGIES = ['latest', 'most-progress'] as const;
+
+export type MergeConflictStrategy = (typeof MERGE_CONFLICT_STRATEGIES)[number];
+
+export const WATCH_STATUS_CONTENT_TYPES = ['show', 'season', 'episode', 'movie'] as const;
+
+export type WatchStatusContentType = (typeof WATCH_STATUS_CONTENT_TYPES)[number];
+
+// How far along each watch status is, used to decide which of two statuses to keep
+export const WATCH_STATUS_PROGRESS: Record<string, number> = {
+  NOT_WATCHED: 0,
+  UNAIRED: 0,
+  WATCHING: 1,
+  UP_TO_DATE: 2,
+  WATCHED: 3,
+};
+
+export interface ProfileSummary {
+  profileId: number;
+  accountId: number;
+  name: string;
+}
+
+/**
+ * A profile's watch status for one piece of content
+ */
+export interface WatchStatusRecord {
+  contentId: number;
+  // Show a show, season or episode belongs to; null for movies
+  showId: number | null;
+  status: string;
+  updatedAt: string | null;
+}
+
+/**
+ * What merging does to one piece of content on the target profile:
+ * - add: only the source profile has a status, so it is copied
+ * - update: both have a status and the source's wins under the conflict strategy
+ * - keep: both have a status and the target's is kept
+ */
+export interface ProfileMergeChange {
+  contentType: WatchStatusContentType;
+  contentId: number;
+  action: 'add' | 'update' | 'keep';
+  sourceStatus: string;
+  targetStatus: string | null;
+  resultStatus: string;
+}
+
+export type ProfileMergeCounts = Record<'add' | 'update' | 'keep' | 'unchanged', number>;
+
+export interface ProfileMergeDiff {
+  sourceProfile: ProfileSummary;
+  targetProfile: ProfileSummary;
+  strategy: MergeConflictStrategy;
+  dryRun: boolean;
+  summary: Record<WatchStatusContentType, ProfileMergeCounts>;
+  // Season and episode changes are only counted in the summary; they follow their show and can number in the thousands.
+  // Applying the merge recomputes the show and season statuses from the merged episodes, so those can end up
+  // differing from resultStatus.
+  changes: ProfileMergeChange[];
+}
+
+export type ProfileMoveResult =
+  | { outcome: 'moved'; profile: ProfileSummary; fromAccountId: number; sourceDefaultProfileId: number | null }
+  | { outcome: 'profile_not_found' }
+  | { outcome: 'account_not_found' }
+  | { outcome: 'same_account' };
+
+export type ProfileMergeResult =
+  | { outcome: 'merged'; diff: ProfileMergeDiff; sourceTrashed: boolean }
+  | { outcome: 'profile_not_found'; profileId: number }
+  | { outcome: 'same_profile' };
@@ -0,0 +1,131 @@
+/**
+ * A cast credit from a TMDB show or movie `credits` response
+ */
+export interface TMDBCastMember {
+  id: number;
+  name: string;
+  gender: number | null;
+  profile_path: string | null;
+  character: string | null;
+  credit_id: string;
+  order: number;
+}
+
+/**
+ * A genre of a TMDB show or movie
+ */
+export interface TMDBGenre {
+  id: number;
+  name: string;
+}
+
+/**
+ * Where a TMDB show or movie can be watched, by country (`watch/providers` appended to a show or movie)
+ */
+export interface TMDBWatchProviders {
+  results: Record<string, { flatrate?: { provider_id: number; provider_name: string }[] }>;
+}
+
+/**
+ * A season as listed on a TMDB show
+ */
+export interface TMDBSeasonSummary {
+  id: number;
+  season_number: number;
+  name: string;
+  overview: string | null;
+  air_date: string | null;
+  poster_path: string | null;
+  episode_count: number;
+}
+
+/**
+ * A TMDB show (`/tv/:id` with `credits` and `watch/providers` appended)
+ */
+export interface TMDBShow {
+  id: number;
+  name: string;
+  overview: string | null;
+  first_air_date: string | null;
+  last_air_date: string | null;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  vote_average: number | null;
+  status: string | null;
+  type: string | null;
+  in_production: boolean;
+  number_of_seasons: number;
+  number_of_episodes: number;
+  networks: { name: string }[];
+  genres: TMDBGenre[];
+  seasons: TMDBSeasonSummary[];
+  credits?: { cast: TMDBCastMember[] };
+  'watch/providers'?: TMDBWatchProviders;
+}
+
+/**
+ * An episode of a TMDB season
+ */
+export interface TMDBEpisode {
+  id: number;
+  season_number: number;
+  episode_number: number;
+  episode_type: string | null;
+  name: string | null;
+  overview: string | null;
+  air_date: string | null;
+  runtime: number | null;
+  still_path: string | null;
+}
+
+/**
+ * A TMDB season with its episodes (`/tv/:id/season/:seasonNumber`)
+ */
+export interface TMDBSeason {
+  id: number;
+  season_number: number;
+  episodes: TMDBEpisode[];
+}
+
+/**
+ * A TMDB movie (`/movie/:id` with `credits`, `release_dates` and `watch/providers` appended)
+ */
+export interface TMDBMovie {
+  id: number;
+  title: string;
+  overview: string | null;
+  release_date: string | null;
+  runtime: number | null;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  vote_average: number | null;
+  genres: TMDBGenre[];
+  credits?: { cast: TMDBCastMember[] };
+  'watch/providers'?: TMDBWatchProviders;
+  release_dates?: { results: { iso_3166_1: string; release_dates: { certification: string }[] }[] };
+}
+
+/**
+ * A show or movie credit from a TMDB person `combined_credits` response. Shows have a `name`, movies a `title`.
+ */
+export interface TMDBPersonCredit {
+  id: number;
+  media_type: 'tv' | 'movie';
+  name?: string;
+  title?: string;
+  character: string | null;
+  credit_id: string;
+}
+
+/**
+ * A TMDB person (`/person/:id` with `combined_credits` appended)
+ */
+export interface TMDBPerson {
+  id: number;
+  name: string;
+  also_known_as?: string[];
+  birthday: string | null;
+  known_for_department: string | null;
+  profile_path: string | null;
+  combined_credits?: { cast: TMDBPersonCredit[] };
+}
@@ -0,0 +1,41 @@
+export type TrashEntityType = 'account' | 'profile';
+export type TrashStatus = 'trashed' | 'restored' | 'purged';
+
+export interface TrashEntry {
+  id: number;
+  entityType: TrashEntityType;
+  entityId: number;
+  accountId: number;
+  label: string;
+  status: TrashStatus;
+  deletedByUid: string;
+  deletedByEmail: string | null;
+  deletedAt: string;
+  purgeAfter: string;
+  restoredByUid: string | null;
+  restoredAt: string | null;
+  purgedAt: string | null;
+  firebaseDisabled: boolean;
+  /** Email preferences the account had before it was trashed; null when trashing didn't change them */
+  emailPreferences: Record<string, unknown> | null;
+}
+
+/**
+ * What trashing an account switched off, recorded so that restoring it only turns back on what the trash turned off
+ */
+export interface TrashedAccountState {
+  firebaseDisabled: boolean;
+  emailPreferences: Record<string, unknown> | null;
+}
+
+export interface TrashFilters {
+  entityType?: TrashEntityType;
+  status?: TrashStatus;
+  accountId?: number;
+}
+
+export type RestoreResult =
+  | { outcome: 'restored'; entry: TrashEntry }
+  | { outcome: 'not_found' }
+  | { outcome: 'not_trashed'; entry: TrashEntry }
+  | { outcome: 'account_trashed'; entry: TrashEntry };
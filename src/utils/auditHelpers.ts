@@ -0,0 +1,137 @@
+import { AuditAction } from '../types/auditTypes';
+
+const MAX_STRING_LENGTH = 200;
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 3;
+
+const REDACTED_KEY_PATTERN = /password|secret|token|authorization|credential/i;
+
+// POST routes ending in one of these segments trigger an operation rather than create a resource
+const EXECUTE_SEGMENT_PATTERN =
+  /\/(restart|execute|pause|resume|update|updateAll|refresh|merge|resolve|verify-email|backfill|archive-performance|send-account|send-all|restore|bulk|export|move|disable|enable|revoke-tokens|password-reset-link|impersonate|revoke|fix|cancel|cleanup|retry)(\/:[^/]+)?$/;
+
+// Route params ordered from most to least specific; the first one present identifies the audited entity
+const PARAM_ENTITY_TYPES: [string, string][] = [
+  ['episodeId', 'episode'],
+  ['profileId', 'profile'],
+  ['ratingId', 'rating'],
+  ['failureId', 'person_failure'],
+  ['trashId', 'trash_entry'],
+  ['exportId', 'account_export'],
+  ['sessionId', 'impersonation_session'],
+  ['issueId', 'content_issue'],
+  ['runId', 'content_update_run'],
+  ['templateId', 'email_template'],
+  ['emailId', 'email'],
+  ['notificationId', 'notification'],
+  ['personId', 'person'],
+  ['showId', 'show'],
+  ['movieId', 'movie'],
+  ['accountId', 'account'],
+  ['accountUid', 'account'],
+  ['service', 'service'],
+];
+
+// Body fields that identify the entity for routes without an id in the path (e.g. POST /api/v1/shows/update)
+const BODY_ENTITY_TYPES: [string, string][] = [
+  ['showId', 'show'],
+  ['movieId', 'movie'],
+  ['personId', 'person'],
+  ['accountId', 'account'],
+  ['profileId', 'profile'],
+];
+
+/**
+ * Map a request to an audit action
+ * @param method - HTTP method
+ * @param route - Matched route path
+ * @returns AuditAction for the request
+ */
+export function getAuditAction(method: string, route: string): AuditAction {
+  switch (method.toUpperCase()) {
+    case 'DELETE':
+      return 'delete';
+    case 'PUT':
+    case 'PATCH':
+      return 'update';
+    default:
+      return EXECUTE_SEGMENT_PATTERN.test(route) ? 'execute' : 'create';
+  }
+}
+
+/**
+ * Identify the entity a request acted on from its route, params and body
+ * @param route - Matched route path (e.g. '/api/v1/accounts/:accountId')
+ * @param params - Route params
+ * @param body - Request body
+ * @returns Entity type and id, either of which may be null
+ */
+export function getAuditTarget(
+  route: string,
+  params: Record<string, string>,
+  body?: unknown,
+): { entityType: string | null; entityId: string | null } {
+  for (const [param, entityType] of PARAM_ENTITY_TYPES) {
+    if (params[param] !== undefined) {
+      return { entityType, entityId: String(params[param]) };
+    }
+  }
+
+  if (body && typeof body === 'object') {
+    const record = body as Record<string, unknown>;
+    for (const [field, entityType] of BODY_ENTITY_TYPES) {
+      if (record[field] !== undefined && record[field] !== null) {
+        return { entityType, entityId: String(record[field]) };
+      }
+    }
+  }
+
+  const resource = route
+    .replace(/^\/api\/v\d+\//, '')
+    .split('/')
+    .find((segment) => segment && !segment.startsWith(':'));
+  const entityId = params.id !== undefined ? String(params.id) : null;
+  return { entityType: resource ? singularize(resource) : null, entityId };
+}
+
+/**
+ * Build a compact, redacted copy of a request body suitable for storing in the audit log.
+ * Sensitive keys are redacted, long strings truncated, and large arrays and deep objects trimmed.
+ * @param body - Request body
+ * @returns Summary object, or null when the body is empty
+ */
+export function summarizeBody(body: unknown): Record<string, unknown> | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body) || Object.keys(body).length === 0) {
+    return null;
+  }
+  return summarizeValue(body, 0) as Record<string, unknown>;
+}
+
+function summarizeValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? `[${value.length} items]` : '[object]';
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map((item) => summarizeValue(item, depth + 1));
+    return value.length > MAX_ARRAY_ITEMS ? [...items, `…${value.length - MAX_ARRAY_ITEMS} more`] : items;
+  }
+
+  const summary: Record<string, unknown> = {};
+  for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+    summary[key] = REDACTED_KEY_PATTERN.test(key) ? '[REDACTED]' : summarizeValue(nested, depth + 1);
+  }
+  return summary;
+}
+
+function singularize(resource: string): string {
+  if (resource === 'people') return 'person';
+  if (resource.endsWith('ies')) return `${resource.slice(0, -3)}y`;
+  if (resource.endsWith('s')) return resource.slice(0, -1);
+  return resource;
+}
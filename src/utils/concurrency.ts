@@ -0,0 +1,26 @@
+/**
+ * Run an async function over a list of items with at most `limit` calls in flight at once
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Function to run for each item
+ * @returns Results in the same order as the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,8 @@
+/**
+ * Serialize a value as one NDJSON line
+ * @param value - Value to serialize
+ * @returns The JSON of the value followed by a newline
+ */
+export function toNdjsonLine(value: unknown): string {
+  return `${JSON.stringify(value)}\n`;
+}
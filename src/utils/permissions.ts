@@ -0,0 +1,96 @@
+import { DecodedIdToken } from 'firebase-admin/auth';
+
+export const ADMIN_ROLES = ['viewer', 'support', 'content-editor', 'superadmin'] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export const PERMISSIONS = [
+  'accounts:read',
+  'accounts:write',
+  'accounts:delete',
+  'accounts:impersonate',
+  'content:read',
+  'content:write',
+  'content:delete',
+  'notifications:read',
+  'notifications:write',
+  'email:read',
+  'email:send',
+  'statistics:read',
+  'statistics:write',
+  'logs:read',
+  'jobs:read',
+  'jobs:manage',
+  'system:read',
+  'system:manage',
+  'audit:read',
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+const READ_ONLY_PERMISSIONS: Permission[] = [
+  'accounts:read',
+  'content:read',
+  'notifications:read',
+  'email:read',
+  'statistics:read',
+  'logs:read',
+  'jobs:read',
+  'system:read',
+];
+
+const ROLE_PERMISSIONS: Record<AdminRole, ReadonlySet<Permission>> = {
+  viewer: new Set(READ_ONLY_PERMISSIONS),
+  support: new Set<Permission>([
+    ...READ_ONLY_PERMISSIONS,
+    'accounts:write',
+    'accounts:impersonate',
+    'notifications:write',
+    'email:send',
+    'audit:read',
+  ]),
+  'content-editor': new Set<Permission>([...READ_ONLY_PERMISSIONS, 'content:write', 'content:delete']),
+  superadmin: new Set(PERMISSIONS),
+};
+
+/**
+ * Check whether a value is one of the known admin roles
+ * @param value - Value to check, typically a Firebase custom claim
+ * @returns true if the value is a valid AdminRole
+ */
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve the admin role for a verified Firebase ID token.
+ * The role is read from the `role` custom claim. Tokens without a valid claim fall back to
+ * the ADMIN_DEFAULT_ROLE environment variable, or 'viewer' when that is not set.
+ * @param token - Decoded Firebase ID token
+ * @returns The resolved AdminRole
+ */
+export function resolveAdminRole(token: DecodedIdToken): AdminRole {
+  if (isAdminRole(token.role)) {
+    return token.role;
+  }
+
+  const defaultRole = process.env.ADMIN_DEFAULT_ROLE;
+  return isAdminRole(defaultRole) ? defaultRole : 'viewer';
+}
+
+/**
+ * Check whether a role grants a permission
+ * @param role - Admin role
+ * @param permission - Permission to check
+ * @returns true if the role includes the permission
+ */
+export function hasPermission(role: AdminRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].has(permission);
+}
+
+/**
+ * Get every permission granted to a role
+ * @param role - Admin role
+ * @returns Array of permissions
+ */
+export function getRolePermissions(role: AdminRole): Permission[] {
+  return [...ROLE_PERMISSIONS[role]];
+}
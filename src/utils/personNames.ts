@@ -0,0 +1,27 @@
+/**
+ * Normalize a person's name for comparison: accents, case and punctuation are ignored
+ * @param name - Person name
+ * @returns The lower-case words of the name separated by single spaces
+ */
+export function normalizePersonName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Get how similar two person names are, as the share of the words of both names that appear in each
+ * @param name - Person name
+ * @param otherName - Other person name
+ * @returns 1 for names that match once normalized, down to 0 for names without a word in common
+ */
+export function getNameSimilarity(name: string, otherName: string): number {
+  const words = new Set(normalizePersonName(name).split(' ').filter(Boolean));
+  const otherWords = new Set(normalizePersonName(otherName).split(' ').filter(Boolean));
+  const shared = [...words].filter((word) => otherWords.has(word)).length;
+  const total = new Set([...words, ...otherWords]).size;
+  return total === 0 ? 0 : shared / total;
+}
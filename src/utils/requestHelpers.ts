@@ -0,0 +1,11 @@
+import { AdminActor } from '../types/adminTypes';
+import { Request } from 'express';
+
+/**
+ * Get the admin performing the request
+ * @param req - Authenticated request
+ * @returns AdminActor built from `req.user`
+ */
+export function getAdminActor(req: Request): AdminActor {
+  return { uid: req.user?.uid ?? 'unknown', email: req.user?.email ?? null };
+}
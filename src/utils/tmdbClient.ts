@@ -0,0 +1,64 @@
+const DEFAULT_TMDB_API_URL = 'https://api.themoviedb.org/3';
+const DEFAULT_RATE_LIMIT = 5;
+
+// Start of the next free slot under the rate limit, shared by every TMDB request and content update run item
+let nextSlotAt = 0;
+
+/**
+ * Get the TMDB API base URL. `TMDB_API_URL` points the admin server at another host, e.g. a local TMDB stub.
+ */
+export function getTMDBApiUrl(): string {
+  return (process.env.TMDB_API_URL || DEFAULT_TMDB_API_URL).replace(/\/+$/, '');
+}
+
+/**
+ * Get the most TMDB requests started per second, from CONTENT_UPDATE_RATE_LIMIT (default 5, 0 for no limit). Each
+ * content update run item counts as one request.
+ */
+export function getTMDBRateLimit(): number {
+  const rateLimit = parseInt(process.env.CONTENT_UPDATE_RATE_LIMIT ?? '', 10);
+  return Number.isInteger(rateLimit) && rateLimit >= 0 ? rateLimit : DEFAULT_RATE_LIMIT;
+}
+
+/**
+ * Reserve the next start slot under the TMDB rate limit and wait for it
+ */
+export async function waitForTMDBRateLimit(): Promise<void> {
+  const rateLimit = getTMDBRateLimit();
+  if (rateLimit === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const startAt = Math.max(now, nextSlotAt);
+  nextSlotAt = startAt + 1000 / rateLimit;
+  if (startAt > now) {
+    await new Promise((resolve) => setTimeout(resolve, startAt - now));
+  }
+}
+
+/**
+ * Fetch a TMDB API resource, authenticated with `TMDB_TOKEN`, once the TMDB rate limit allows
+ * @param path - Resource path, e.g. '/tv/1396'
+ * @param params - Query parameters
+ * @returns The parsed response, or null when TMDB has no such resource
+ * @throws Error for any other unsuccessful response
+ */
+export async function fetchFromTMDB<T>(path: string, params: Record<string, string> = {}): Promise<T | null> {
+  await waitForTMDBRateLimit();
+  const query = new URLSearchParams(params).toString();
+  const response = await fetch(`${getTMDBApiUrl()}${path}${query ? `?${query}` : ''}`, {
+    headers: {
+      Accept: 'application/json',
+      Authorization: `Bearer ${process.env.TMDB_TOKEN ?? ''}`,
+    },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`TMDB request ${path} failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
@@ -0,0 +1,56 @@
+/**
+ * An episode of a season as it stands for one profile
+ */
+export interface EpisodeProgress {
+  aired: boolean;
+  watched: boolean;
+}
+
+/**
+ * Get a season's watch status from its episodes
+ * @param episodes - Every episode of the season
+ * @returns UNAIRED before the first episode airs, WATCHED once every episode is watched, UP_TO_DATE when every aired
+ * episode is watched but more are coming, WATCHING part way through, otherwise NOT_WATCHED. Null for a season without
+ * episodes.
+ */
+export function deriveSeasonStatus(episodes: EpisodeProgress[]): string | null {
+  if (episodes.length === 0) {
+    return null;
+  }
+
+  const aired = episodes.filter((episode) => episode.aired);
+  if (aired.length === 0) {
+    return 'UNAIRED';
+  }
+
+  const watched = aired.filter((episode) => episode.watched).length;
+  if (watched === aired.length) {
+    return aired.length === episodes.length ? 'WATCHED' : 'UP_TO_DATE';
+  }
+  return watched > 0 ? 'WATCHING' : 'NOT_WATCHED';
+}
+
+/**
+ * Get a show's watch status from the statuses of its seasons
+ * @param seasonStatuses - Status of every season of the show that has episodes
+ * @param inProduction - Whether the show is still in production, so more seasons may come
+ * @returns UNAIRED before any season airs, WATCHED once every season is watched and the show has ended, UP_TO_DATE
+ * when everything aired is watched, WATCHING part way through, otherwise NOT_WATCHED. Null for a show without seasons.
+ */
+export function deriveShowStatus(seasonStatuses: string[], inProduction: boolean): string | null {
+  if (seasonStatuses.length === 0) {
+    return null;
+  }
+
+  const started = seasonStatuses.filter((status) => status !== 'UNAIRED');
+  if (started.length === 0) {
+    return 'UNAIRED';
+  }
+  if (started.every((status) => status === 'WATCHED')) {
+    return inProduction || started.length < seasonStatuses.length ? 'UP_TO_DATE' : 'WATCHED';
+  }
+  if (started.every((status) => status === 'WATCHED' || status === 'UP_TO_DATE')) {
+    return 'UP_TO_DATE';
+  }
+  return started.some((status) => status !== 'NOT_WATCHED') ? 'WATCHING' : 'NOT_WATCHED';
+}
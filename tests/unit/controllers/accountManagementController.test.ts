@@ -1,3 +1,5 @@
+import { BadRequestError } from '@ajgifford/keepwatching-common-server';
+import { isEmailEnabled } from '@ajgifford/keepwatching-common-server/config';
 import {
   accountService,
   adminMovieService,
@@ -6,21 +8,47 @@ import {
   profileService,
 } from '@ajgifford/keepwatching-common-server/services';
 import {
+  bulkAccountAction,
   deleteAccount,
   deleteProfile,
+  disableFirebaseUser,
+  downloadAccountExport,
   editAccount,
   editProfile,
+  enableFirebaseUser,
+  generatePasswordResetLink,
+  getAccountDetails,
+  getAccountExport,
+  getAccountExports,
+  getAccountOverview,
   getAccountPreferences,
   getAccounts,
+  getImpersonationSessions,
   getProfileMoviesList,
   getProfileShowsList,
   getProfiles,
+  impersonateAccount,
+  mergeProfiles,
+  moveProfile,
+  requestAccountExport,
+  revokeFirebaseTokens,
+  revokeImpersonationSession,
+  updateAccountPreferences,
   verifyEmail,
 } from '@controllers/accountManagementController';
+import * as accountsDb from '@db/accountsDb';
+import { accountExportService } from '@services/AccountExportService';
+import { accountListService } from '@services/AccountListService';
+import { accountOverviewService } from '@services/AccountOverviewService';
+import { accountPreferencesService } from '@services/AccountPreferencesService';
+import { bulkAccountService } from '@services/BulkAccountService';
+import { firebaseUserService } from '@services/FirebaseUserService';
+import { impersonationService } from '@services/ImpersonationService';
+import { profileTransferService } from '@services/ProfileTransferService';
+import { trashService } from '@services/TrashService';
 
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
   accountService: {
-    getAccounts: jest.fn(),
     editAccount: jest.fn(),
     deleteAccount: jest.fn(),
     getCombinedAccountByEmail: jest.fn(),
@@ -42,6 +70,81 @@ jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
   },
 }));
 
+jest.mock('@ajgifford/keepwatching-common-server', () => ({
+  BadRequestError: class BadRequestError extends Error {},
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/config', () => ({
+  isEmailEnabled: jest.fn(),
+}));
+
+jest.mock('@services/AccountExportService', () => ({
+  accountExportService: {
+    startExport: jest.fn(),
+    getExports: jest.fn(),
+    getExport: jest.fn(),
+    openExportFile: jest.fn(),
+  },
+}));
+
+jest.mock('@db/accountsDb');
+
+jest.mock('@services/FirebaseUserService', () => ({
+  firebaseUserService: {
+    getUser: jest.fn(),
+    setDisabled: jest.fn(),
+    revokeRefreshTokens: jest.fn(),
+    generatePasswordResetLink: jest.fn(),
+  },
+}));
+
+jest.mock('@services/ImpersonationService', () => ({
+  impersonationService: {
+    startSession: jest.fn(),
+    getSessions: jest.fn(),
+    revokeSession: jest.fn(),
+  },
+}));
+
+jest.mock('@services/AccountListService', () => ({
+  accountListService: {
+    getAccountList: jest.fn(),
+  },
+}));
+
+jest.mock('@services/AccountOverviewService', () => ({
+  accountOverviewService: {
+    getAccountOverview: jest.fn(),
+  },
+}));
+
+jest.mock('@services/AccountPreferencesService', () => ({
+  accountPreferencesService: {
+    updatePreferences: jest.fn(),
+  },
+}));
+
+jest.mock('@services/BulkAccountService', () => ({
+  bulkAccountService: {
+    runAction: jest.fn(),
+  },
+}));
+
+jest.mock('@services/ProfileTransferService', () => ({
+  profileTransferService: {
+    moveProfile: jest.fn(),
+    mergeProfiles: jest.fn(),
+  },
+}));
+
+jest.mock('@services/TrashService', () => ({
+  trashService: {
+    trashAccount: jest.fn(),
+    trashProfile: jest.fn(),
+    excludeTrashedProfiles: jest.fn(),
+  },
+}));
+
 describe('AccountManagementController', () => {
   let req: any, res: any, next: jest.Mock;
 
@@ -49,10 +152,12 @@ describe('AccountManagementController', () => {
     req = {
       params: { accountId: 1, profileId: 123 },
       body: {},
+      user: { uid: 'admin-uid', email: 'admin@example.com' },
     };
     res = {
       status: jest.fn().mockReturnThis(),
       json: jest.fn(),
+      locals: {},
     };
     next = jest.fn();
 
@@ -60,26 +165,89 @@ describe('AccountManagementController', () => {
   });
 
   describe('getAccounts', () => {
-    it('should return all accounts successfully', async () => {
+    const pagination = {
+      totalCount: 2,
+      totalPages: 1,
+      currentPage: 1,
+      limit: 50,
+      hasNextPage: false,
+      hasPrevPage: false,
+    };
+
+    it('should return the first page of accounts with default sorting', async () => {
       const mockAccounts = [
-        { id: 1, email: 'test1@example.com', name: 'Test User 1' },
-        { id: 2, email: 'test2@example.com', name: 'Test User 2' },
+        { id: 1, email: 'test1@example.com', name: 'Test User 1', profileCount: 2 },
+        { id: 2, email: 'test2@example.com', name: 'Test User 2', profileCount: 0 },
       ];
-
-      (accountService.getAccounts as jest.Mock).mockResolvedValue(mockAccounts);
+      (accountListService.getAccountList as jest.Mock).mockResolvedValue({ accounts: mockAccounts, pagination });
+      req.query = {};
 
       await getAccounts(req, res, next);
 
-      expect(accountService.getAccounts).toHaveBeenCalledTimes(1);
+      const filters = { sortBy: 'createdAt', sortOrder: 'desc' };
+      expect(accountListService.getAccountList).toHaveBeenCalledWith(filters, 1, 0, 50);
+      expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
-        message: 'Retrieved 2 accounts',
+        message: 'Retrieved page 1 of accounts',
+        pagination,
+        filters,
         results: mockAccounts,
       });
     });
 
+    it('should parse search, sort, filters and pagination', async () => {
+      (accountListService.getAccountList as jest.Mock).mockResolvedValue({ accounts: [], pagination });
+      req.query = {
+        search: ' jo ',
+        sortBy: 'lastLogin',
+        sortOrder: 'asc',
+        emailVerified: 'false',
+        hasProfiles: 'true',
+        inactiveDays: '90',
+        page: '3',
+        limit: '20',
+      };
+
+      await getAccounts(req, res, next);
+
+      expect(accountListService.getAccountList).toHaveBeenCalledWith(
+        {
+          search: 'jo',
+          sortBy: 'lastLogin',
+          sortOrder: 'asc',
+          emailVerified: false,
+          hasProfiles: true,
+          inactiveDays: 90,
+        },
+        3,
+        40,
+        20,
+      );
+    });
+
+    it('should reject an unknown sort field', async () => {
+      req.query = { sortBy: 'favouriteColour' };
+
+      await getAccounts(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(expect.any(BadRequestError));
+      expect(accountListService.getAccountList).not.toHaveBeenCalled();
+    });
+
+    it('should reject a non-numeric inactiveDays', async () => {
+      req.query = { inactiveDays: 'a while' };
+
+      await getAccounts(req, res, next);
+
+      expect(next.mock.calls[0][0].message).toBe(
+        'Invalid query parameters: inactiveDays must be a whole number of days',
+      );
+    });
+
     it('should handle errors via next middleware', async () => {
       const error = new Error('Database error');
-      (accountService.getAccounts as jest.Mock).mockRejectedValue(error);
+      (accountListService.getAccountList as jest.Mock).mockRejectedValue(error);
+      req.query = {};
 
       await getAccounts(req, res, next);
 
@@ -87,6 +255,366 @@ describe('AccountManagementController', () => {
     });
   });
 
+  describe('bulkAccountAction', () => {
+    const admin = { uid: 'admin-uid', email: 'admin@example.com' };
+    const report = {
+      action: 'verify-email',
+      total: 2,
+      succeeded: 1,
+      failed: 1,
+      results: [
+        { accountId: 1, success: true, message: 'Email verified' },
+        { accountId: 2, success: false, error: 'Account not found' },
+      ],
+    };
+
+    beforeEach(() => {
+      req.adminRole = 'support';
+      (isEmailEnabled as jest.Mock).mockReturnValue(true);
+    });
+
+    it('should run the action and return the per-account report', async () => {
+      (bulkAccountService.runAction as jest.Mock).mockResolvedValue(report);
+      req.body = { action: 'verify-email', accountIds: [1, 2] };
+
+      await bulkAccountAction(req, res, next);
+
+      expect(bulkAccountService.runAction).toHaveBeenCalledWith('verify-email', [1, 2], admin);
+      expect(res.locals.auditDetails).toEqual({ succeeded: 1, failed: 1, failedAccountIds: [2] });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Bulk verify-email completed: 1 succeeded, 1 failed',
+        ...report,
+      });
+    });
+
+    it('should reject an unknown action', async () => {
+      req.body = { action: 'explode', accountIds: [1] };
+
+      await bulkAccountAction(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(expect.any(BadRequestError));
+      expect(bulkAccountService.runAction).not.toHaveBeenCalled();
+    });
+
+    it('should reject an empty id list', async () => {
+      req.body = { action: 'verify-email', accountIds: [] };
+
+      await bulkAccountAction(req, res, next);
+
+      expect(next.mock.calls[0][0].message).toBe('At least one account ID is required');
+    });
+
+    it('should reject more than 100 ids', async () => {
+      req.body = { action: 'verify-email', accountIds: Array.from({ length: 101 }, (_, i) => i + 1) };
+
+      await bulkAccountAction(req, res, next);
+
+      expect(next.mock.calls[0][0].message).toBe('No more than 100 accounts can be processed at once');
+    });
+
+    it('should require accounts:delete for the delete action', async () => {
+      req.body = { action: 'delete', accountIds: [1] };
+
+      await bulkAccountAction(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Forbidden',
+        role: 'support',
+        missingPermission: 'accounts:delete',
+      });
+      expect(bulkAccountService.runAction).not.toHaveBeenCalled();
+    });
+
+    it('should allow the delete action for superadmins', async () => {
+      (bulkAccountService.runAction as jest.Mock).mockResolvedValue({ ...report, action: 'delete' });
+      req.adminRole = 'superadmin';
+      req.body = { action: 'delete', accountIds: [1] };
+
+      await bulkAccountAction(req, res, next);
+
+      expect(bulkAccountService.runAction).toHaveBeenCalledWith('delete', [1], admin);
+    });
+
+    it('should return 400 for the weekly email when email is disabled', async () => {
+      (isEmailEnabled as jest.Mock).mockReturnValue(false);
+      req.body = { action: 'send-weekly-email', accountIds: [1] };
+
+      await bulkAccountAction(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Email service is disabled' });
+    });
+
+    it('should call next on service errors', async () => {
+      const error = new Error('db down');
+      (bulkAccountService.runAction as jest.Mock).mockRejectedValue(error);
+      req.body = { action: 'verify-email', accountIds: [1] };
+
+      await bulkAccountAction(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('firebase user management', () => {
+    const account = { accountId: 1, name: 'Jo', email: 'jo@example.com', uid: 'uid-1', defaultProfileId: 100 };
+    const firebaseUser = {
+      uid: 'uid-1',
+      email: 'jo@example.com',
+      emailVerified: true,
+      disabled: false,
+      providers: ['password'],
+      creationTime: 'Sat, 01 Mar 2025 10:00:00 GMT',
+      lastSignInTime: 'Sun, 01 Jun 2025 10:00:00 GMT',
+      lastRefreshTime: null,
+      tokensValidAfterTime: 'Sat, 01 Mar 2025 10:00:00 GMT',
+    };
+
+    beforeEach(() => {
+      (accountsDb.getAccountsByIds as jest.Mock).mockResolvedValue([account]);
+      req.params = { accountId: 1 };
+    });
+
+    describe('getAccountDetails', () => {
+      it('should merge the Firebase record into the account', async () => {
+        (accountService.getCombinedAccountByEmail as jest.Mock).mockResolvedValue({ id: 1, name: 'Jo' });
+        (firebaseUserService.getUser as jest.Mock).mockResolvedValue(firebaseUser);
+
+        await getAccountDetails(req, res, next);
+
+        expect(accountService.getCombinedAccountByEmail).toHaveBeenCalledWith('jo@example.com');
+        expect(firebaseUserService.getUser).toHaveBeenCalledWith('uid-1');
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(res.json).toHaveBeenCalledWith({
+          message: 'Retrieved account 1',
+          result: { id: 1, name: 'Jo', firebase: firebaseUser },
+        });
+      });
+
+      it('should return 404 for an unknown account', async () => {
+        (accountsDb.getAccountsByIds as jest.Mock).mockResolvedValue([]);
+
+        await getAccountDetails(req, res, next);
+
+        expect(res.status).toHaveBeenCalledWith(404);
+        expect(firebaseUserService.getUser).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should disable the Firebase user', async () => {
+      (firebaseUserService.setDisabled as jest.Mock).mockResolvedValue({ ...firebaseUser, disabled: true });
+
+      await disableFirebaseUser(req, res, next);
+
+      expect(firebaseUserService.setDisabled).toHaveBeenCalledWith('uid-1', true);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Firebase user disabled for account 1',
+        result: { ...firebaseUser, disabled: true },
+      });
+    });
+
+    it('should enable the Firebase user', async () => {
+      (firebaseUserService.setDisabled as jest.Mock).mockResolvedValue(firebaseUser);
+
+      await enableFirebaseUser(req, res, next);
+
+      expect(firebaseUserService.setDisabled).toHaveBeenCalledWith('uid-1', false);
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 404 when the account has no Firebase user', async () => {
+      (firebaseUserService.setDisabled as jest.Mock).mockResolvedValue(null);
+
+      await disableFirebaseUser(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Firebase user for account 1 not found' });
+    });
+
+    it('should revoke refresh tokens and audit the cut-off time', async () => {
+      const revoked = { ...firebaseUser, tokensValidAfterTime: 'Mon, 02 Jun 2025 09:00:00 GMT' };
+      (firebaseUserService.revokeRefreshTokens as jest.Mock).mockResolvedValue(revoked);
+
+      await revokeFirebaseTokens(req, res, next);
+
+      expect(firebaseUserService.revokeRefreshTokens).toHaveBeenCalledWith('uid-1');
+      expect(res.locals.auditDetails).toEqual({ tokensValidAfterTime: 'Mon, 02 Jun 2025 09:00:00 GMT' });
+      expect(res.json).toHaveBeenCalledWith({ message: 'Refresh tokens revoked for account 1', result: revoked });
+    });
+
+    it('should generate a password reset link for the account email', async () => {
+      (firebaseUserService.generatePasswordResetLink as jest.Mock).mockResolvedValue('https://example.com/reset');
+
+      await generatePasswordResetLink(req, res, next);
+
+      expect(firebaseUserService.generatePasswordResetLink).toHaveBeenCalledWith('jo@example.com');
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Password reset link generated for account 1',
+        result: { email: 'jo@example.com', link: 'https://example.com/reset' },
+      });
+    });
+
+    it('should return 404 for a password reset link when the account is unknown', async () => {
+      (accountsDb.getAccountsByIds as jest.Mock).mockResolvedValue([]);
+
+      await generatePasswordResetLink(req, res, next);
+
+      expect(firebaseUserService.generatePasswordResetLink).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+
+    it('should call next on Firebase errors', async () => {
+      const error = new Error('Firebase service unavailable');
+      (firebaseUserService.revokeRefreshTokens as jest.Mock).mockRejectedValue(error);
+
+      await revokeFirebaseTokens(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('impersonation', () => {
+    const sessionId = '3f0c1c4e-8b2a-4d3e-9f1a-2b3c4d5e6f70';
+    const session = {
+      id: sessionId,
+      accountId: 1,
+      accountUid: 'uid-1',
+      impersonatedByUid: 'admin-uid',
+      impersonatedByEmail: 'admin@example.com',
+      reason: 'Home screen looks wrong',
+      status: 'active',
+      createdAt: '2025-06-01T10:00:00.000Z',
+      expiresAt: '2025-06-01T10:15:00.000Z',
+      revokedAt: null,
+      revokedByUid: null,
+    };
+
+    describe('impersonateAccount', () => {
+      it('should start a session, audit it and return the custom token', async () => {
+        (impersonationService.startSession as jest.Mock).mockResolvedValue({
+          outcome: 'started',
+          session,
+          token: 'custom-token',
+        });
+        req.params = { accountId: 1 };
+        req.body = { reason: 'Home screen looks wrong' };
+
+        await impersonateAccount(req, res, next);
+
+        expect(impersonationService.startSession).toHaveBeenCalledWith(
+          1,
+          { uid: 'admin-uid', email: 'admin@example.com' },
+          'Home screen looks wrong',
+        );
+        expect(res.locals.auditDetails).toEqual({
+          sessionId,
+          expiresAt: '2025-06-01T10:15:00.000Z',
+          reason: 'Home screen looks wrong',
+        });
+        expect(res.status).toHaveBeenCalledWith(201);
+        expect(res.json).toHaveBeenCalledWith({
+          message: 'Impersonation session started for account 1',
+          result: { session, customToken: 'custom-token' },
+        });
+      });
+
+      it('should return 404 for an unknown account', async () => {
+        (impersonationService.startSession as jest.Mock).mockResolvedValue({ outcome: 'not_found' });
+        req.params = { accountId: 99 };
+
+        await impersonateAccount(req, res, next);
+
+        expect(impersonationService.startSession).toHaveBeenCalledWith(99, expect.any(Object), null);
+        expect(res.status).toHaveBeenCalledWith(404);
+      });
+
+      it('should return 403 while impersonation is disabled', async () => {
+        (impersonationService.startSession as jest.Mock).mockResolvedValue({ outcome: 'disabled' });
+        req.params = { accountId: 1 };
+
+        await impersonateAccount(req, res, next);
+
+        expect(res.status).toHaveBeenCalledWith(403);
+        expect(res.json).toHaveBeenCalledWith({ error: 'Impersonation is disabled' });
+        expect(res.locals.auditDetails).toBeUndefined();
+      });
+
+      it('should reject an overly long reason', async () => {
+        req.body = { reason: 'x'.repeat(501) };
+
+        await impersonateAccount(req, res, next);
+
+        expect(impersonationService.startSession).not.toHaveBeenCalled();
+        expect(next).toHaveBeenCalledWith(expect.any(BadRequestError));
+      });
+    });
+
+    it('should list the account impersonation sessions', async () => {
+      (impersonationService.getSessions as jest.Mock).mockResolvedValue([session]);
+      req.params = { accountId: 1 };
+
+      await getImpersonationSessions(req, res, next);
+
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved impersonation sessions for account 1',
+        results: [session],
+      });
+    });
+
+    describe('revokeImpersonationSession', () => {
+      it('should revoke the session', async () => {
+        const revoked = { ...session, status: 'revoked' };
+        (impersonationService.revokeSession as jest.Mock).mockResolvedValue({ outcome: 'revoked', session: revoked });
+        req.params = { accountId: '1', sessionId };
+
+        await revokeImpersonationSession(req, res, next);
+
+        expect(impersonationService.revokeSession).toHaveBeenCalledWith(1, sessionId, {
+          uid: 'admin-uid',
+          email: 'admin@example.com',
+        });
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(res.json).toHaveBeenCalledWith({
+          message: `Impersonation session ${sessionId} revoked`,
+          result: revoked,
+        });
+      });
+
+      it('should return 409 for a session that already ended', async () => {
+        (impersonationService.revokeSession as jest.Mock).mockResolvedValue({
+          outcome: 'not_active',
+          session: { ...session, status: 'expired' },
+        });
+        req.params = { accountId: '1', sessionId };
+
+        await revokeImpersonationSession(req, res, next);
+
+        expect(res.status).toHaveBeenCalledWith(409);
+        expect(res.json).toHaveBeenCalledWith({ error: `Impersonation session ${sessionId} is already expired` });
+      });
+
+      it('should return 404 for an unknown session', async () => {
+        (impersonationService.revokeSession as jest.Mock).mockResolvedValue({ outcome: 'not_found' });
+        req.params = { accountId: '1', sessionId };
+
+        await revokeImpersonationSession(req, res, next);
+
+        expect(res.status).toHaveBeenCalledWith(404);
+      });
+
+      it('should reject an invalid session id', async () => {
+        req.params = { accountId: '1', sessionId: 'nope' };
+
+        await revokeImpersonationSession(req, res, next);
+
+        expect(impersonationService.revokeSession).not.toHaveBeenCalled();
+        expect(next).toHaveBeenCalledWith(expect.any(BadRequestError));
+      });
+    });
+  });
+
   describe('editAccount', () => {
     it('should edit account successfully and return updated account', async () => {
       const mockEditedAccount = { id: 1, email: 'test@example.com', name: 'Updated Name' };
@@ -137,20 +665,34 @@ describe('AccountManagementController', () => {
   });
 
   describe('deleteAccount', () => {
-    it('should delete account successfully', async () => {
-      (accountService.deleteAccount as jest.Mock).mockResolvedValue(undefined);
+    it('should move the account to the trash', async () => {
+      const mockEntry = { id: 7, entityType: 'account', entityId: 1, status: 'trashed' };
+      (trashService.trashAccount as jest.Mock).mockResolvedValue(mockEntry);
+
+      req.params = { accountId: '1' };
+
+      await deleteAccount(req, res, next);
+
+      expect(trashService.trashAccount).toHaveBeenCalledWith('1', { uid: 'admin-uid', email: 'admin@example.com' });
+      expect(accountService.deleteAccount).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Account moved to trash', result: mockEntry });
+    });
+
+    it('should return 404 when the account does not exist or is already trashed', async () => {
+      (trashService.trashAccount as jest.Mock).mockResolvedValue(null);
 
       req.params = { accountId: '1' };
 
       await deleteAccount(req, res, next);
 
-      expect(accountService.deleteAccount).toHaveBeenCalledWith('1');
-      expect(res.json).toHaveBeenCalledWith({ message: 'Account deleted successfully' });
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Account 1 not found' });
     });
 
     it('should handle deletion errors', async () => {
       const error = new Error('Delete failed');
-      (accountService.deleteAccount as jest.Mock).mockRejectedValue(error);
+      (trashService.trashAccount as jest.Mock).mockRejectedValue(error);
 
       req.params = { accountId: '1' };
 
@@ -160,6 +702,196 @@ describe('AccountManagementController', () => {
     });
   });
 
+  describe('getAccountOverview', () => {
+    it('should return the composed overview', async () => {
+      const overview = {
+        accountId: 1,
+        generatedAt: '2025-06-01T00:00:00.000Z',
+        complete: false,
+        sections: { profiles: { status: 'ok', data: [] }, health: { status: 'error', error: 'timeout' } },
+      };
+      (accountOverviewService.getAccountOverview as jest.Mock).mockResolvedValue(overview);
+      req.params = { accountId: 1 };
+
+      await getAccountOverview(req, res, next);
+
+      expect(accountOverviewService.getAccountOverview).toHaveBeenCalledWith(1);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Retrieved overview for account 1', result: overview });
+    });
+
+    it('should return 404 for an unknown account', async () => {
+      (accountOverviewService.getAccountOverview as jest.Mock).mockResolvedValue(null);
+      req.params = { accountId: 99 };
+
+      await getAccountOverview(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Account 99 not found' });
+    });
+
+    it('should call next on error', async () => {
+      const error = new Error('db down');
+      (accountOverviewService.getAccountOverview as jest.Mock).mockRejectedValue(error);
+
+      await getAccountOverview(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('account exports', () => {
+    const exportId = '3f0c1c4e-8b2a-4d3e-9f1a-2b3c4d5e6f70';
+    const pendingExport = {
+      id: exportId,
+      accountId: 1,
+      status: 'pending',
+      requestedByUid: 'admin-uid',
+      requestedByEmail: 'admin@example.com',
+      filePath: null,
+      sizeBytes: null,
+      error: null,
+      createdAt: '2025-06-01T00:00:00.000Z',
+      completedAt: null,
+      expiresAt: null,
+    };
+    const completedExport = {
+      ...pendingExport,
+      status: 'completed',
+      filePath: `/srv/exports/${exportId}.ndjson`,
+      sizeBytes: 2048,
+      completedAt: '2025-06-01T00:01:00.000Z',
+      expiresAt: '2025-06-04T00:01:00.000Z',
+    };
+    const { filePath: _filePath, ...pendingFields } = pendingExport;
+    const { filePath: _completedPath, ...completedFields } = completedExport;
+
+    describe('requestAccountExport', () => {
+      it('should start an export and return 202 with its status link', async () => {
+        (accountExportService.startExport as jest.Mock).mockResolvedValue(pendingExport);
+        req.params = { accountId: 1 };
+
+        await requestAccountExport(req, res, next);
+
+        expect(accountExportService.startExport).toHaveBeenCalledWith(1, {
+          uid: 'admin-uid',
+          email: 'admin@example.com',
+        });
+        expect(res.locals.auditDetails).toEqual({ exportId });
+        expect(res.status).toHaveBeenCalledWith(202);
+        expect(res.json).toHaveBeenCalledWith({
+          message: 'Export started for account 1',
+          result: {
+            ...pendingFields,
+            statusUrl: `/api/v1/accounts/1/export/${exportId}`,
+            downloadUrl: null,
+          },
+        });
+      });
+
+      it('should return 404 for an unknown account', async () => {
+        (accountExportService.startExport as jest.Mock).mockResolvedValue(null);
+        req.params = { accountId: 99 };
+
+        await requestAccountExport(req, res, next);
+
+        expect(res.status).toHaveBeenCalledWith(404);
+        expect(res.json).toHaveBeenCalledWith({ error: 'Account 99 not found' });
+      });
+    });
+
+    describe('getAccountExports', () => {
+      it('should list exports with download links for completed ones', async () => {
+        (accountExportService.getExports as jest.Mock).mockResolvedValue([completedExport]);
+        req.params = { accountId: 1 };
+
+        await getAccountExports(req, res, next);
+
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(res.json).toHaveBeenCalledWith({
+          message: 'Retrieved exports for account 1',
+          results: [
+            {
+              ...completedFields,
+              statusUrl: `/api/v1/accounts/1/export/${exportId}`,
+              downloadUrl: `/api/v1/accounts/1/export/${exportId}/download`,
+            },
+          ],
+        });
+      });
+    });
+
+    describe('getAccountExport', () => {
+      it('should return the export status', async () => {
+        (accountExportService.getExport as jest.Mock).mockResolvedValue(pendingExport);
+        req.params = { accountId: '1', exportId };
+
+        await getAccountExport(req, res, next);
+
+        expect(accountExportService.getExport).toHaveBeenCalledWith(1, exportId);
+        expect(res.status).toHaveBeenCalledWith(200);
+      });
+
+      it('should return 404 when the export does not belong to the account', async () => {
+        (accountExportService.getExport as jest.Mock).mockResolvedValue(null);
+        req.params = { accountId: '2', exportId };
+
+        await getAccountExport(req, res, next);
+
+        expect(res.status).toHaveBeenCalledWith(404);
+        expect(res.json).toHaveBeenCalledWith({ error: `Export ${exportId} not found for account 2` });
+      });
+
+      it('should reject an invalid export id', async () => {
+        req.params = { accountId: '1', exportId: 'not-a-uuid' };
+
+        await getAccountExport(req, res, next);
+
+        expect(accountExportService.getExport).not.toHaveBeenCalled();
+        expect(next).toHaveBeenCalledWith(expect.any(BadRequestError));
+      });
+    });
+
+    describe('downloadAccountExport', () => {
+      it('should stream a completed export as NDJSON', async () => {
+        const stream = { on: jest.fn().mockReturnThis(), pipe: jest.fn() };
+        (accountExportService.getExport as jest.Mock).mockResolvedValue(completedExport);
+        (accountExportService.openExportFile as jest.Mock).mockReturnValue(stream);
+        res.type = jest.fn();
+        res.attachment = jest.fn();
+        req.params = { accountId: '1', exportId };
+
+        await downloadAccountExport(req, res, next);
+
+        expect(accountExportService.openExportFile).toHaveBeenCalledWith(completedExport.filePath);
+        expect(res.type).toHaveBeenCalledWith('application/x-ndjson');
+        expect(res.attachment).toHaveBeenCalledWith(`account-1-export-${exportId}.ndjson`);
+        expect(stream.on).toHaveBeenCalledWith('error', next);
+        expect(stream.pipe).toHaveBeenCalledWith(res);
+      });
+
+      it('should return 409 while the export is not ready', async () => {
+        (accountExportService.getExport as jest.Mock).mockResolvedValue({ ...pendingExport, status: 'running' });
+        req.params = { accountId: '1', exportId };
+
+        await downloadAccountExport(req, res, next);
+
+        expect(accountExportService.openExportFile).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(409);
+        expect(res.json).toHaveBeenCalledWith({ error: `Export ${exportId} is running`, status: 'running' });
+      });
+
+      it('should return 404 for an unknown export', async () => {
+        (accountExportService.getExport as jest.Mock).mockResolvedValue(null);
+        req.params = { accountId: '1', exportId };
+
+        await downloadAccountExport(req, res, next);
+
+        expect(res.status).toHaveBeenCalledWith(404);
+      });
+    });
+  });
+
   describe('getProfiles', () => {
     it('should return all profiles for an account', async () => {
       const mockProfiles = [
@@ -168,15 +900,17 @@ describe('AccountManagementController', () => {
       ];
 
       (profileService.getAdminProfilesByAccount as jest.Mock).mockResolvedValue(mockProfiles);
+      (trashService.excludeTrashedProfiles as jest.Mock).mockResolvedValue([mockProfiles[0]]);
 
       req.params = { accountId: '1' };
 
       await getProfiles(req, res, next);
 
       expect(profileService.getAdminProfilesByAccount).toHaveBeenCalledWith('1');
+      expect(trashService.excludeTrashedProfiles).toHaveBeenCalledWith(1, mockProfiles);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Retrieved profiles',
-        results: mockProfiles,
+        results: [mockProfiles[0]],
       });
     });
   });
@@ -202,16 +936,173 @@ describe('AccountManagementController', () => {
   });
 
   describe('deleteProfile', () => {
-    it('should delete profile successfully', async () => {
-      (profileService.deleteProfile as jest.Mock).mockResolvedValue(undefined);
+    it('should move the profile to the trash', async () => {
+      const mockEntry = { id: 8, entityType: 'profile', entityId: 1, status: 'trashed' };
+      (trashService.trashProfile as jest.Mock).mockResolvedValue(mockEntry);
+
+      req.params = { profileId: '1' };
+
+      await deleteProfile(req, res, next);
+
+      expect(trashService.trashProfile).toHaveBeenCalledWith('1', { uid: 'admin-uid', email: 'admin@example.com' });
+      expect(profileService.deleteProfile).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Profile moved to trash', result: mockEntry });
+    });
+
+    it('should return 404 when the profile does not exist or is already trashed', async () => {
+      (trashService.trashProfile as jest.Mock).mockResolvedValue(null);
 
       req.params = { profileId: '1' };
 
       await deleteProfile(req, res, next);
 
-      expect(profileService.deleteProfile).toHaveBeenCalledWith('1');
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Profile 1 not found' });
+    });
+  });
+
+  describe('moveProfile', () => {
+    it('should move the profile and audit the accounts involved', async () => {
+      const result = {
+        outcome: 'moved',
+        profile: { profileId: 123, accountId: 2, name: 'Kids' },
+        fromAccountId: 1,
+        sourceDefaultProfileId: 100,
+      };
+      (profileTransferService.moveProfile as jest.Mock).mockResolvedValue(result);
+      req.body = { targetAccountId: 2 };
+
+      await moveProfile(req, res, next);
+
+      expect(profileTransferService.moveProfile).toHaveBeenCalledWith(1, 123, 2);
+      expect(res.locals.auditDetails).toEqual({ fromAccountId: 1, toAccountId: 2 });
       expect(res.status).toHaveBeenCalledWith(200);
-      expect(res.json).toHaveBeenCalledWith({ message: 'Profile deleted successfully' });
+      expect(res.json).toHaveBeenCalledWith({ message: 'Profile 123 moved to account 2', result });
+    });
+
+    it.each([
+      ['profile_not_found', 404, { error: 'Profile 123 not found in account 1' }],
+      ['account_not_found', 404, { error: 'Account 2 not found' }],
+      ['same_account', 400, { error: 'Profile 123 already belongs to account 1' }],
+    ])('should map %s to %i', async (outcome, status, body) => {
+      (profileTransferService.moveProfile as jest.Mock).mockResolvedValue({ outcome });
+      req.body = { targetAccountId: 2 };
+
+      await moveProfile(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(status);
+      expect(res.json).toHaveBeenCalledWith(body);
+    });
+
+    it('should reject a missing target account', async () => {
+      req.body = {};
+
+      await moveProfile(req, res, next);
+
+      expect(profileTransferService.moveProfile).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(expect.any(BadRequestError));
+    });
+  });
+
+  describe('mergeProfiles', () => {
+    const diff = {
+      sourceProfile: { profileId: 123, accountId: 1, name: 'Kids' },
+      targetProfile: { profileId: 456, accountId: 2, name: 'Kids' },
+      strategy: 'latest',
+      dryRun: true,
+      summary: { show: { add: 1, update: 0, keep: 0, unchanged: 0 } },
+      changes: [],
+    };
+
+    it('should default to a dry run', async () => {
+      (profileTransferService.mergeProfiles as jest.Mock).mockResolvedValue({
+        outcome: 'merged',
+        diff,
+        sourceTrashed: false,
+      });
+      req.body = { targetProfileId: 456, strategy: 'latest' };
+
+      await mergeProfiles(req, res, next);
+
+      expect(profileTransferService.mergeProfiles).toHaveBeenCalledWith(
+        1,
+        123,
+        456,
+        { targetProfileId: 456, strategy: 'latest', dryRun: true, trashSourceProfile: false },
+        { uid: 'admin-uid', email: 'admin@example.com' },
+      );
+      expect(res.locals.auditDetails).toEqual({
+        targetProfileId: 456,
+        strategy: 'latest',
+        dryRun: true,
+        summary: diff.summary,
+        sourceTrashed: false,
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Dry run: merge of profile 123 into profile 456 not applied',
+        result: { outcome: 'merged', diff, sourceTrashed: false },
+      });
+    });
+
+    it('should apply the merge when dryRun is false', async () => {
+      (profileTransferService.mergeProfiles as jest.Mock).mockResolvedValue({
+        outcome: 'merged',
+        diff: { ...diff, dryRun: false },
+        sourceTrashed: false,
+      });
+      req.body = { targetProfileId: 456, strategy: 'most-progress', dryRun: false };
+
+      await mergeProfiles(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json.mock.calls[0][0].message).toBe('Merged profile 123 into profile 456');
+    });
+
+    it('should require accounts:delete to trash the source profile', async () => {
+      req.adminRole = 'support';
+      req.body = { targetProfileId: 456, strategy: 'latest', dryRun: false, trashSourceProfile: true };
+
+      await mergeProfiles(req, res, next);
+
+      expect(profileTransferService.mergeProfiles).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Forbidden',
+        role: 'support',
+        missingPermission: 'accounts:delete',
+      });
+    });
+
+    it('should return 404 naming the missing profile', async () => {
+      (profileTransferService.mergeProfiles as jest.Mock).mockResolvedValue({
+        outcome: 'profile_not_found',
+        profileId: 456,
+      });
+      req.body = { targetProfileId: 456, strategy: 'latest' };
+
+      await mergeProfiles(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Profile 456 not found' });
+    });
+
+    it('should return 400 when merging a profile into itself', async () => {
+      (profileTransferService.mergeProfiles as jest.Mock).mockResolvedValue({ outcome: 'same_profile' });
+      req.body = { targetProfileId: 123, strategy: 'latest' };
+
+      await mergeProfiles(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should reject an unknown strategy', async () => {
+      req.body = { targetProfileId: 456, strategy: 'oldest' };
+
+      await mergeProfiles(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(expect.any(BadRequestError));
+      expect(next.mock.calls[0][0].message).toBe('Strategy must be one of: latest, most-progress');
     });
   });
 
@@ -329,6 +1220,88 @@ describe('AccountManagementController', () => {
     });
   });
 
+  describe('updateAccountPreferences', () => {
+    const updateResult = {
+      accountId: 1,
+      preferenceType: 'email',
+      before: { weeklyDigest: true, marketingEmails: true },
+      after: { weeklyDigest: false, marketingEmails: true },
+      changedFields: ['weeklyDigest'],
+    };
+
+    it('should update the preferences and audit the before/after values', async () => {
+      (accountPreferencesService.updatePreferences as jest.Mock).mockResolvedValue(updateResult);
+      req.params = { accountId: '1', preferenceType: 'email' };
+      req.body = { weeklyDigest: false };
+
+      await updateAccountPreferences(req, res, next);
+
+      expect(accountPreferencesService.updatePreferences).toHaveBeenCalledWith(1, 'email', { weeklyDigest: false });
+      expect(res.locals.auditDetails).toEqual({
+        preferenceType: 'email',
+        before: updateResult.before,
+        after: updateResult.after,
+        changedFields: ['weeklyDigest'],
+      });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Updated email preferences for account 1',
+        result: updateResult,
+      });
+    });
+
+    it('should return 404 for an unknown account', async () => {
+      (accountPreferencesService.updatePreferences as jest.Mock).mockResolvedValue(null);
+      req.params = { accountId: '99', preferenceType: 'display' };
+      req.body = { theme: 'dark' };
+
+      await updateAccountPreferences(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Account 99 not found' });
+    });
+
+    it('should reject an unknown preference type', async () => {
+      req.params = { accountId: '1', preferenceType: 'billing' };
+      req.body = { plan: 'free' };
+
+      await updateAccountPreferences(req, res, next);
+
+      expect(accountPreferencesService.updatePreferences).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(expect.any(BadRequestError));
+      expect(next.mock.calls[0][0].message).toContain('Invalid path parameters');
+    });
+
+    it('should reject values of the wrong type', async () => {
+      req.params = { accountId: '1', preferenceType: 'display' };
+      req.body = { theme: 'neon' };
+
+      await updateAccountPreferences(req, res, next);
+
+      expect(accountPreferencesService.updatePreferences).not.toHaveBeenCalled();
+      expect(next.mock.calls[0][0].message).toContain('Invalid display preferences');
+    });
+
+    it('should reject fields that belong to another preference type', async () => {
+      req.params = { accountId: '1', preferenceType: 'notification' };
+      req.body = { weeklyDigest: false };
+
+      await updateAccountPreferences(req, res, next);
+
+      expect(accountPreferencesService.updatePreferences).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(expect.any(BadRequestError));
+    });
+
+    it('should reject an empty update', async () => {
+      req.params = { accountId: '1', preferenceType: 'privacy' };
+      req.body = {};
+
+      await updateAccountPreferences(req, res, next);
+
+      expect(next.mock.calls[0][0].message).toBe('At least one privacy preference must be provided');
+    });
+  });
+
   describe('error handling', () => {
     it('should call next with error for getProfiles', async () => {
       const error = new Error('Service error');
@@ -353,7 +1326,7 @@ describe('AccountManagementController', () => {
 
     it('should call next with error for deleteProfile', async () => {
       const error = new Error('Service error');
-      (profileService.deleteProfile as jest.Mock).mockRejectedValue(error);
+      (trashService.trashProfile as jest.Mock).mockRejectedValue(error);
       req.params = { profileId: '1' };
 
       await deleteProfile(req, res, next);
@@ -0,0 +1,118 @@
+import { getAuditLog } from '@controllers/auditController';
+import { auditService } from '@services/AuditService';
+
+jest.mock('@services/AuditService', () => ({
+  auditService: {
+    getAuditLog: jest.fn(),
+  },
+}));
+
+describe('AuditController', () => {
+  let req: any, res: any, next: jest.Mock;
+
+  beforeEach(() => {
+    req = { query: {} };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('getAuditLog', () => {
+    const pagination = {
+      totalCount: 1,
+      totalPages: 1,
+      currentPage: 1,
+      limit: 50,
+      hasNextPage: false,
+      hasPrevPage: false,
+    };
+
+    it('should return audit entries with default pagination', async () => {
+      const entries = [{ id: 1, action: 'delete' }];
+      (auditService.getAuditLog as jest.Mock).mockResolvedValue({ entries, pagination });
+
+      await getAuditLog(req, res, next);
+
+      expect(auditService.getAuditLog).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved page 1 of audit entries',
+        pagination,
+        results: entries,
+      });
+    });
+
+    it('should pass all filters to the service', async () => {
+      (auditService.getAuditLog as jest.Mock).mockResolvedValue({ entries: [], pagination });
+      req.query = {
+        admin: 'admin@example.com',
+        entityType: 'account',
+        entityId: '12',
+        action: 'delete',
+        startDate: '2026-01-01',
+        endDate: '2026-02-01',
+        page: '2',
+        limit: '10',
+      };
+
+      await getAuditLog(req, res, next);
+
+      expect(auditService.getAuditLog).toHaveBeenCalledWith(
+        {
+          admin: 'admin@example.com',
+          entityType: 'account',
+          entityId: '12',
+          action: 'delete',
+          startDate: new Date('2026-01-01'),
+          endDate: new Date('2026-02-01'),
+        },
+        2,
+        10,
+        10,
+      );
+    });
+
+    it('should keep the page size between 1 and 100', async () => {
+      (auditService.getAuditLog as jest.Mock).mockResolvedValue({ entries: [], pagination });
+
+      req.query = { limit: '-5' };
+      await getAuditLog(req, res, next);
+      req.query = { limit: '500' };
+      await getAuditLog(req, res, next);
+
+      expect(auditService.getAuditLog).toHaveBeenNthCalledWith(1, {}, 1, 0, 1);
+      expect(auditService.getAuditLog).toHaveBeenNthCalledWith(2, {}, 1, 0, 100);
+    });
+
+    it('should return 400 for an invalid action', async () => {
+      req.query = { action: 'destroy' };
+
+      await getAuditLog(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(auditService.getAuditLog).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid date', async () => {
+      req.query = { startDate: 'not-a-date' };
+
+      await getAuditLog(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Invalid startDate format' });
+    });
+
+    it('should handle errors via next middleware', async () => {
+      const error = new Error('Database error');
+      (auditService.getAuditLog as jest.Mock).mockRejectedValue(error);
+
+      await getAuditLog(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+});
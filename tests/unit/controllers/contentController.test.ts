@@ -1,5 +1,7 @@
 import { adminMovieService, adminShowService, personService } from '@ajgifford/keepwatching-common-server/services';
 import {
+  acceptPersonDuplicate,
+  bulkResolvePersonFailures,
   deleteEpisode,
   deletePerson,
   getDuplicateEpisodes,
@@ -11,7 +13,9 @@ import {
   getPeople,
   getPersonByTmdbId,
   getPersonDetails,
+  getPersonDuplicates,
   getPersonFailure,
+  getPersonFailureSummary,
   getPersonFailures,
   getShowDetails,
   getShowProfiles,
@@ -20,8 +24,21 @@ import {
   getShowWatchProgress,
   getShows,
   getShowsWithDuplicates,
+  importMovie,
+  importShow,
   mergeAndDeletePerson,
+  previewPersonTmdbId,
+  refreshMovies,
+  refreshShows,
+  rejectPersonDuplicate,
+  resolveAllDuplicateEpisodes,
+  resolveDuplicateEpisodes,
   resolvePersonFailure,
+  retryPersonFailures,
+  searchPeople,
+  setEpisodeOverrides,
+  setMovieOverrides,
+  setShowOverrides,
   updateAllMovies,
   updateAllShows,
   updateMovie,
@@ -29,20 +46,100 @@ import {
   updatePersonTmdbId,
   updateShow,
 } from '@controllers/contentController';
+import { contentImportService } from '@services/ContentImportService';
+import { contentOverrideService } from '@services/ContentOverrideService';
+import { contentSearchService } from '@services/ContentSearchService';
+import { contentUpdateRunService } from '@services/ContentUpdateRunService';
+import { duplicateEpisodeService } from '@services/DuplicateEpisodeService';
+import { personDuplicateService } from '@services/PersonDuplicateService';
+import { personFailureService } from '@services/PersonFailureService';
+import { personSearchService } from '@services/PersonSearchService';
+import { personTmdbIdService } from '@services/PersonTmdbIdService';
+
+jest.mock('@ajgifford/keepwatching-common-server', () => ({
+  BadRequestError: class BadRequestError extends Error {},
+}));
+
+jest.mock('@services/ContentImportService', () => ({
+  contentImportService: {
+    importShow: jest.fn(),
+    importMovie: jest.fn(),
+  },
+}));
+
+jest.mock('@services/ContentOverrideService', () => ({
+  contentOverrideService: {
+    getShowOverrides: jest.fn(),
+    getMovieOverrides: jest.fn(),
+    setShowOverrides: jest.fn(),
+    setMovieOverrides: jest.fn(),
+    setEpisodeOverrides: jest.fn(),
+    refreshShow: jest.fn(),
+    refreshMovie: jest.fn(),
+  },
+}));
+
+jest.mock('@services/ContentSearchService', () => ({
+  contentSearchService: {
+    searchMovies: jest.fn(),
+    searchShows: jest.fn(),
+  },
+}));
+
+jest.mock('@services/ContentUpdateRunService', () => ({
+  contentUpdateRunService: {
+    startShowUpdate: jest.fn(),
+    startMovieUpdate: jest.fn(),
+    startShowRefresh: jest.fn(),
+    startMovieRefresh: jest.fn(),
+  },
+}));
+
+jest.mock('@services/DuplicateEpisodeService', () => ({
+  duplicateEpisodeService: {
+    resolveShowDuplicates: jest.fn(),
+    resolveAllDuplicates: jest.fn(),
+  },
+}));
+
+jest.mock('@services/PersonDuplicateService', () => ({
+  personDuplicateService: {
+    getSuggestions: jest.fn(),
+    acceptSuggestion: jest.fn(),
+    rejectSuggestion: jest.fn(),
+  },
+}));
+
+jest.mock('@services/PersonFailureService', () => ({
+  personFailureService: {
+    getSummary: jest.fn(),
+    retryFailures: jest.fn(),
+    resolveFailures: jest.fn(),
+  },
+}));
+
+jest.mock('@services/PersonSearchService', () => ({
+  personSearchService: {
+    searchPeople: jest.fn(),
+  },
+}));
+
+jest.mock('@services/PersonTmdbIdService', () => ({
+  personTmdbIdService: {
+    previewTmdbIdChange: jest.fn(),
+    updateTmdbId: jest.fn(),
+  },
+}));
 
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
   adminMovieService: {
     getAllMovies: jest.fn(),
-    getAllMoviesFiltered: jest.fn(),
     getCompleteMovieInfo: jest.fn(),
     getMovieDetails: jest.fn(),
     getMovieProfiles: jest.fn(),
-    updateMovieById: jest.fn(),
-    updateAllMovies: jest.fn(),
   },
   adminShowService: {
     getAllShows: jest.fn(),
-    getAllShowsFiltered: jest.fn(),
     getCompleteShowInfo: jest.fn(),
     getShowDetails: jest.fn(),
     getShowSeasons: jest.fn(),
@@ -52,8 +149,6 @@ jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
     getShowsWithDuplicates: jest.fn(),
     getDuplicateEpisodes: jest.fn(),
     deleteEpisode: jest.fn(),
-    updateShowById: jest.fn(),
-    updateAllShows: jest.fn(),
   },
   personService: {
     getPersons: jest.fn(),
@@ -66,7 +161,6 @@ jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
     resolvePersonFailure: jest.fn(),
     mergeAndDeletePerson: jest.fn(),
     deletePersonAndReferences: jest.fn(),
-    updatePersonTmdbId: jest.fn(),
   },
 }));
 
@@ -82,6 +176,7 @@ describe('ContentController', () => {
     res = {
       status: jest.fn().mockReturnThis(),
       json: jest.fn(),
+      locals: {},
     };
     next = jest.fn();
 
@@ -95,17 +190,18 @@ describe('ContentController', () => {
         pagination: { page: 1, limit: 50, total: 100, totalPages: 2 },
       };
 
-      (adminMovieService.getAllMoviesFiltered as jest.Mock).mockResolvedValue(mockMoviesResult);
+      (contentSearchService.searchMovies as jest.Mock).mockResolvedValue(mockMoviesResult);
 
       req.query = { page: '1', limit: '50' };
 
       await getMovies(req, res, next);
 
-      expect(adminMovieService.getAllMoviesFiltered).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(contentSearchService.searchMovies).toHaveBeenCalledWith({ searchMode: 'fuzzy' }, 1, 0, 50);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Retrieved page 1 of movies',
         pagination: mockMoviesResult.pagination,
+        filters: { searchMode: 'fuzzy' },
         results: mockMoviesResult.movies,
       });
     });
@@ -116,13 +212,13 @@ describe('ContentController', () => {
         pagination: { page: 1, limit: 50, total: 0, totalPages: 0 },
       };
 
-      (adminMovieService.getAllMoviesFiltered as jest.Mock).mockResolvedValue(mockMoviesResult);
+      (contentSearchService.searchMovies as jest.Mock).mockResolvedValue(mockMoviesResult);
 
       req.query = {};
 
       await getMovies(req, res, next);
 
-      expect(adminMovieService.getAllMoviesFiltered).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(contentSearchService.searchMovies).toHaveBeenCalledWith({ searchMode: 'fuzzy' }, 1, 0, 50);
     });
 
     it('should handle page 0 by defaulting to page 1', async () => {
@@ -131,13 +227,13 @@ describe('ContentController', () => {
         pagination: { page: 1, limit: 50, total: 0, totalPages: 0 },
       };
 
-      (adminMovieService.getAllMoviesFiltered as jest.Mock).mockResolvedValue(mockMoviesResult);
+      (contentSearchService.searchMovies as jest.Mock).mockResolvedValue(mockMoviesResult);
 
       req.query = { page: '0' };
 
       await getMovies(req, res, next);
 
-      expect(adminMovieService.getAllMoviesFiltered).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(contentSearchService.searchMovies).toHaveBeenCalledWith({ searchMode: 'fuzzy' }, 1, 0, 50);
     });
 
     it('should handle negative page by defaulting to page 1', async () => {
@@ -146,13 +242,13 @@ describe('ContentController', () => {
         pagination: { page: 1, limit: 50, total: 0, totalPages: 0 },
       };
 
-      (adminMovieService.getAllMoviesFiltered as jest.Mock).mockResolvedValue(mockMoviesResult);
+      (contentSearchService.searchMovies as jest.Mock).mockResolvedValue(mockMoviesResult);
 
       req.query = { page: '-5' };
 
       await getMovies(req, res, next);
 
-      expect(adminMovieService.getAllMoviesFiltered).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(contentSearchService.searchMovies).toHaveBeenCalledWith({ searchMode: 'fuzzy' }, 1, 0, 50);
     });
 
     it('should cap limit at 100', async () => {
@@ -161,13 +257,13 @@ describe('ContentController', () => {
         pagination: { page: 1, limit: 100, total: 0, totalPages: 0 },
       };
 
-      (adminMovieService.getAllMoviesFiltered as jest.Mock).mockResolvedValue(mockMoviesResult);
+      (contentSearchService.searchMovies as jest.Mock).mockResolvedValue(mockMoviesResult);
 
       req.query = { limit: '200' };
 
       await getMovies(req, res, next);
 
-      expect(adminMovieService.getAllMoviesFiltered).toHaveBeenCalledWith({}, 1, 0, 100);
+      expect(contentSearchService.searchMovies).toHaveBeenCalledWith({ searchMode: 'fuzzy' }, 1, 0, 100);
     });
 
     it('should handle invalid page string as page 1', async () => {
@@ -176,13 +272,13 @@ describe('ContentController', () => {
         pagination: { page: 1, limit: 50, total: 0, totalPages: 0 },
       };
 
-      (adminMovieService.getAllMoviesFiltered as jest.Mock).mockResolvedValue(mockMoviesResult);
+      (contentSearchService.searchMovies as jest.Mock).mockResolvedValue(mockMoviesResult);
 
       req.query = { page: 'invalid' };
 
       await getMovies(req, res, next);
 
-      expect(adminMovieService.getAllMoviesFiltered).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(contentSearchService.searchMovies).toHaveBeenCalledWith({ searchMode: 'fuzzy' }, 1, 0, 50);
     });
 
     it('should handle invalid limit string as default 50', async () => {
@@ -191,13 +287,13 @@ describe('ContentController', () => {
         pagination: { page: 1, limit: 50, total: 0, totalPages: 0 },
       };
 
-      (adminMovieService.getAllMoviesFiltered as jest.Mock).mockResolvedValue(mockMoviesResult);
+      (contentSearchService.searchMovies as jest.Mock).mockResolvedValue(mockMoviesResult);
 
       req.query = { limit: 'invalid' };
 
       await getMovies(req, res, next);
 
-      expect(adminMovieService.getAllMoviesFiltered).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(contentSearchService.searchMovies).toHaveBeenCalledWith({ searchMode: 'fuzzy' }, 1, 0, 50);
     });
 
     it('should calculate correct offset for page 3', async () => {
@@ -206,18 +302,18 @@ describe('ContentController', () => {
         pagination: { page: 3, limit: 25, total: 100, totalPages: 4 },
       };
 
-      (adminMovieService.getAllMoviesFiltered as jest.Mock).mockResolvedValue(mockMoviesResult);
+      (contentSearchService.searchMovies as jest.Mock).mockResolvedValue(mockMoviesResult);
 
       req.query = { page: '3', limit: '25' };
 
       await getMovies(req, res, next);
 
-      expect(adminMovieService.getAllMoviesFiltered).toHaveBeenCalledWith({}, 3, 50, 25);
+      expect(contentSearchService.searchMovies).toHaveBeenCalledWith({ searchMode: 'fuzzy' }, 3, 50, 25);
     });
 
     it('should call next with error when service throws', async () => {
       const error = new Error('Database connection failed');
-      (adminMovieService.getAllMoviesFiltered as jest.Mock).mockRejectedValue(error);
+      (contentSearchService.searchMovies as jest.Mock).mockRejectedValue(error);
 
       req.query = { page: '1', limit: '50' };
 
@@ -226,6 +322,50 @@ describe('ContentController', () => {
       expect(next).toHaveBeenCalledWith(error);
       expect(res.status).not.toHaveBeenCalled();
     });
+
+    it('should pass search, filter and sort options', async () => {
+      (contentSearchService.searchMovies as jest.Mock).mockResolvedValue({ movies: [], pagination: {} });
+
+      req.query = {
+        search: ' alien ',
+        searchMode: 'prefix',
+        genre: 'Horror',
+        year: '1979',
+        missing: 'poster,overview',
+        unwatched: 'true',
+        sortBy: 'popularity',
+        sortOrder: 'asc',
+      };
+
+      await getMovies(req, res, next);
+
+      expect(contentSearchService.searchMovies).toHaveBeenCalledWith(
+        {
+          search: 'alien',
+          searchMode: 'prefix',
+          genre: 'Horror',
+          year: 1979,
+          missing: ['poster', 'overview'],
+          unwatched: true,
+          sortBy: 'popularity',
+          sortOrder: 'asc',
+        },
+        1,
+        0,
+        50,
+      );
+    });
+
+    it('should reject an invalid missing field', async () => {
+      req.query = { missing: 'poster,trailer' };
+
+      await getMovies(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Invalid query parameters: missing must be one of: poster, overview' }),
+      );
+      expect(contentSearchService.searchMovies).not.toHaveBeenCalled();
+    });
   });
 
   describe('getShows', () => {
@@ -235,13 +375,13 @@ describe('ContentController', () => {
         pagination: { page: 1, limit: 50, total: 100, totalPages: 2 },
       };
 
-      (adminShowService.getAllShowsFiltered as jest.Mock).mockResolvedValue(mockShowsResult);
+      (contentSearchService.searchShows as jest.Mock).mockResolvedValue(mockShowsResult);
 
       req.query = { page: '1', limit: '50' };
 
       await getShows(req, res, next);
 
-      expect(adminShowService.getAllShowsFiltered).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(contentSearchService.searchShows).toHaveBeenCalledWith({ searchMode: 'fuzzy' }, 1, 0, 50);
       expect(res.status).toHaveBeenCalledWith(200);
     });
 
@@ -251,13 +391,13 @@ describe('ContentController', () => {
         pagination: { page: 1, limit: 50, total: 0, totalPages: 0 },
       };
 
-      (adminShowService.getAllShowsFiltered as jest.Mock).mockResolvedValue(mockShowsResult);
+      (contentSearchService.searchShows as jest.Mock).mockResolvedValue(mockShowsResult);
 
       req.query = {};
 
       await getShows(req, res, next);
 
-      expect(adminShowService.getAllShowsFiltered).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(contentSearchService.searchShows).toHaveBeenCalledWith({ searchMode: 'fuzzy' }, 1, 0, 50);
     });
 
     it('should cap limit at 100', async () => {
@@ -266,18 +406,18 @@ describe('ContentController', () => {
         pagination: { page: 1, limit: 100, total: 0, totalPages: 0 },
       };
 
-      (adminShowService.getAllShowsFiltered as jest.Mock).mockResolvedValue(mockShowsResult);
+      (contentSearchService.searchShows as jest.Mock).mockResolvedValue(mockShowsResult);
 
       req.query = { limit: '500' };
 
       await getShows(req, res, next);
 
-      expect(adminShowService.getAllShowsFiltered).toHaveBeenCalledWith({}, 1, 0, 100);
+      expect(contentSearchService.searchShows).toHaveBeenCalledWith({ searchMode: 'fuzzy' }, 1, 0, 100);
     });
 
     it('should call next with error when service throws', async () => {
       const error = new Error('Service error');
-      (adminShowService.getAllShowsFiltered as jest.Mock).mockRejectedValue(error);
+      (contentSearchService.searchShows as jest.Mock).mockRejectedValue(error);
 
       req.query = { page: '1', limit: '50' };
 
@@ -286,9 +426,155 @@ describe('ContentController', () => {
       expect(next).toHaveBeenCalledWith(error);
       expect(res.status).not.toHaveBeenCalled();
     });
+
+    it('should pass search, filter and sort options', async () => {
+      (contentSearchService.searchShows as jest.Mock).mockResolvedValue({ shows: [], pagination: {} });
+
+      req.query = {
+        search: 'Breaking',
+        tmdbId: '1396',
+        status: 'Ended',
+        releasedFrom: '2008-01-01',
+        releasedTo: '2008-12-31',
+        updatedBefore: '2025-01-01',
+        sortBy: 'lastUpdated',
+      };
+
+      await getShows(req, res, next);
+
+      expect(contentSearchService.searchShows).toHaveBeenCalledWith(
+        {
+          search: 'Breaking',
+          searchMode: 'fuzzy',
+          tmdbId: 1396,
+          status: 'Ended',
+          releasedFrom: '2008-01-01',
+          releasedTo: '2008-12-31',
+          updatedBefore: '2025-01-01',
+          sortBy: 'lastUpdated',
+        },
+        1,
+        0,
+        50,
+      );
+    });
+
+    it('should reject an invalid date', async () => {
+      req.query = { releasedFrom: 'last year' };
+
+      await getShows(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Invalid query parameters: releasedFrom must be a date (YYYY-MM-DD)' }),
+      );
+      expect(contentSearchService.searchShows).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown sort field', async () => {
+      req.query = { sortBy: 'rating' };
+
+      await getShows(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('Invalid query') }));
+    });
+  });
+
+  describe('importShow', () => {
+    it('should import the show and return the created record', async () => {
+      const show = { id: 42, title: 'Breaking Bad', seasons: [] };
+      (contentImportService.importShow as jest.Mock).mockResolvedValue({
+        outcome: 'created',
+        id: 42,
+        title: 'Breaking Bad',
+        details: show,
+      });
+      req.body = { tmdbId: 1396 };
+
+      await importShow(req, res, next);
+
+      expect(contentImportService.importShow).toHaveBeenCalledWith(1396);
+      expect(res.locals.auditDetails).toEqual({ tmdbId: 1396, showId: 42 });
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Imported show Breaking Bad', results: show });
+    });
+
+    it('should reject a show that was already imported', async () => {
+      (contentImportService.importShow as jest.Mock).mockResolvedValue({ outcome: 'duplicate', id: 7 });
+      req.body = { tmdbId: 1396 };
+
+      await importShow(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Show with TMDB Id 1396 already exists', showId: 7 });
+    });
+
+    it('should return 404 when TMDB has no such show', async () => {
+      (contentImportService.importShow as jest.Mock).mockResolvedValue({ outcome: 'not_found' });
+      req.body = { tmdbId: 999999 };
+
+      await importShow(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'No show with TMDB Id 999999 found on TMDB' });
+    });
+
+    it('should reject a missing or invalid TMDB id', async () => {
+      req.body = { tmdbId: 'abc' };
+
+      await importShow(req, res, next);
+
+      expect(contentImportService.importShow).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Invalid request body: tmdbId must be a number' }),
+      );
+    });
+  });
+
+  describe('importMovie', () => {
+    it('should import the movie and return the created record', async () => {
+      const movie = { id: 17, title: 'Alien' };
+      (contentImportService.importMovie as jest.Mock).mockResolvedValue({
+        outcome: 'created',
+        id: 17,
+        title: 'Alien',
+        details: movie,
+      });
+      req.body = { tmdbId: 348 };
+
+      await importMovie(req, res, next);
+
+      expect(contentImportService.importMovie).toHaveBeenCalledWith(348);
+      expect(res.locals.auditDetails).toEqual({ tmdbId: 348, movieId: 17 });
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Imported movie Alien', results: movie });
+    });
+
+    it('should reject a movie that was already imported', async () => {
+      (contentImportService.importMovie as jest.Mock).mockResolvedValue({ outcome: 'duplicate', id: 17 });
+      req.body = { tmdbId: 348 };
+
+      await importMovie(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Movie with TMDB Id 348 already exists', movieId: 17 });
+    });
+
+    it('should call next with error when the import fails', async () => {
+      const error = new Error('TMDB request /movie/348 failed with status 503');
+      (contentImportService.importMovie as jest.Mock).mockRejectedValue(error);
+      req.body = { tmdbId: 348 };
+
+      await importMovie(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
   });
 
   describe('getFullShowDetails', () => {
+    beforeEach(() => {
+      (contentOverrideService.getShowOverrides as jest.Mock).mockResolvedValue([]);
+    });
+
     it('should return complete show information', async () => {
       const mockShowDetails = { id: 1, title: 'Test Show', seasons: [] };
       (adminShowService.getCompleteShowInfo as jest.Mock).mockResolvedValue(mockShowDetails);
@@ -301,7 +587,26 @@ describe('ContentController', () => {
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Retrieved details for show',
-        results: mockShowDetails,
+        results: { ...mockShowDetails, overrides: [] },
+      });
+    });
+
+    it('should include the overrides of the show and its episodes', async () => {
+      const overrides = [
+        { contentType: 'show', contentId: 1, field: 'title', value: 'Fixed Title', sourceValue: 'Test Show' },
+        { contentType: 'episode', contentId: 7, field: 'airDate', value: '2024-03-01', sourceValue: null },
+      ];
+      (adminShowService.getCompleteShowInfo as jest.Mock).mockResolvedValue({ id: 1, title: 'Fixed Title' });
+      (contentOverrideService.getShowOverrides as jest.Mock).mockResolvedValue(overrides);
+
+      req.params = { showId: '1' };
+
+      await getFullShowDetails(req, res, next);
+
+      expect(contentOverrideService.getShowOverrides).toHaveBeenCalledWith(1);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved details for show',
+        results: { id: 1, title: 'Fixed Title', overrides },
       });
     });
 
@@ -486,13 +791,13 @@ describe('ContentController', () => {
 
   describe('updateShow', () => {
     it('should update a show successfully', async () => {
-      (adminShowService.updateShowById as jest.Mock).mockResolvedValue(undefined);
+      (contentOverrideService.refreshShow as jest.Mock).mockResolvedValue(undefined);
 
       req.body = { showId: 1, tmdbId: 12345 };
 
       await updateShow(req, res, next);
 
-      expect(adminShowService.updateShowById).toHaveBeenCalledWith(1, 12345, 'all');
+      expect(contentOverrideService.refreshShow).toHaveBeenCalledWith(1, 12345, 'all');
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Show with TMDB Id 12345 was updated',
@@ -500,18 +805,18 @@ describe('ContentController', () => {
     });
 
     it('should handle string IDs by converting to numbers', async () => {
-      (adminShowService.updateShowById as jest.Mock).mockResolvedValue(undefined);
+      (contentOverrideService.refreshShow as jest.Mock).mockResolvedValue(undefined);
 
       req.body = { showId: '42', tmdbId: '99999' };
 
       await updateShow(req, res, next);
 
-      expect(adminShowService.updateShowById).toHaveBeenCalledWith(42, 99999, 'all');
+      expect(contentOverrideService.refreshShow).toHaveBeenCalledWith(42, 99999, 'all');
     });
 
     it('should call next with error when service throws', async () => {
       const error = new Error('Update failed');
-      (adminShowService.updateShowById as jest.Mock).mockRejectedValue(error);
+      (contentOverrideService.refreshShow as jest.Mock).mockRejectedValue(error);
 
       req.body = { showId: 1, tmdbId: 12345 };
 
@@ -522,44 +827,140 @@ describe('ContentController', () => {
   });
 
   describe('updateAllShows', () => {
-    it('should trigger update for all shows', async () => {
-      (adminShowService.updateAllShows as jest.Mock).mockResolvedValue(undefined);
+    const run = { id: 'run-1', contentType: 'show', status: 'running', total: 120 };
+
+    it('should start a tracked update run for all shows', async () => {
+      (contentUpdateRunService.startShowUpdate as jest.Mock).mockResolvedValue({ outcome: 'started', run });
+      req.user = { uid: 'admin-1', email: 'admin@example.com' };
 
       await updateAllShows(req, res, next);
 
-      expect(adminShowService.updateAllShows).toHaveBeenCalled();
+      expect(contentUpdateRunService.startShowUpdate).toHaveBeenCalledWith({
+        uid: 'admin-1',
+        email: 'admin@example.com',
+      });
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Show update process started successfully',
+        run,
+      });
+      expect(res.locals.auditDetails).toEqual({ runId: 'run-1', total: 120 });
+    });
+
+    it('should return 409 when a show update is already running', async () => {
+      (contentUpdateRunService.startShowUpdate as jest.Mock).mockResolvedValue({ outcome: 'already_running', run });
+
+      await updateAllShows(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: 'A show update is already running', runId: 'run-1' });
+    });
+
+    it('should report when no shows need updating', async () => {
+      (contentUpdateRunService.startShowUpdate as jest.Mock).mockResolvedValue({ outcome: 'no_matches' });
+
+      await updateAllShows(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'No shows need updating', run: null });
+    });
+
+    it('should call next with error when service throws', async () => {
+      const error = new Error('Database error');
+      (contentUpdateRunService.startShowUpdate as jest.Mock).mockRejectedValue(error);
+
+      await updateAllShows(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('refreshShows', () => {
+    const run = { id: 'run-3', contentType: 'show', status: 'running', total: 12 };
+
+    it('should start a refresh of the shows matching the filters', async () => {
+      (contentUpdateRunService.startShowRefresh as jest.Mock).mockResolvedValue({ outcome: 'started', run });
+      req.query = { status: 'Returning Series', updatedBefore: '2025-06-01', ids: '4,5' };
+
+      await refreshShows(req, res, next);
+
+      const filters = {
+        searchMode: 'fuzzy',
+        status: 'Returning Series',
+        updatedBefore: '2025-06-01',
+        ids: [4, 5],
+      };
+      expect(contentUpdateRunService.startShowRefresh).toHaveBeenCalledWith(filters, { uid: 'unknown', email: null });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Refreshing 12 shows', filters, run });
+      expect(res.locals.auditDetails).toEqual({ runId: 'run-3', total: 12, filters });
+    });
+
+    it('should require at least one filter', async () => {
+      req.query = { sortBy: 'title' };
+
+      await refreshShows(req, res, next);
+
+      expect(contentUpdateRunService.startShowRefresh).not.toHaveBeenCalled();
+      expect(next.mock.calls[0][0].message).toBe('At least one filter is required to refresh content');
+    });
+
+    it('should reject invalid filters', async () => {
+      req.query = { ids: '4,abc' };
+
+      await refreshShows(req, res, next);
+
+      expect(next.mock.calls[0][0].message).toBe('Invalid query parameters: ids must be a comma separated list of ids');
+    });
+
+    it('should report when no shows match', async () => {
+      (contentUpdateRunService.startShowRefresh as jest.Mock).mockResolvedValue({ outcome: 'no_matches' });
+      req.query = { network: 'HBO' };
+
+      await refreshShows(req, res, next);
+
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'No shows match the refresh filters',
+        filters: { searchMode: 'fuzzy', network: 'HBO' },
+        run: null,
       });
     });
+
+    it('should return 409 when a show update is already running', async () => {
+      (contentUpdateRunService.startShowRefresh as jest.Mock).mockResolvedValue({ outcome: 'already_running', run });
+      req.query = { network: 'HBO' };
+
+      await refreshShows(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+    });
   });
 
   describe('updateMovie', () => {
     it('should update a movie successfully', async () => {
-      (adminMovieService.updateMovieById as jest.Mock).mockResolvedValue(undefined);
+      (contentOverrideService.refreshMovie as jest.Mock).mockResolvedValue(undefined);
 
       req.body = { movieId: 1, tmdbId: 67890 };
 
       await updateMovie(req, res, next);
 
-      expect(adminMovieService.updateMovieById).toHaveBeenCalledWith(1, 67890);
+      expect(contentOverrideService.refreshMovie).toHaveBeenCalledWith(1, 67890);
       expect(res.status).toHaveBeenCalledWith(200);
     });
 
     it('should handle string IDs by converting to numbers', async () => {
-      (adminMovieService.updateMovieById as jest.Mock).mockResolvedValue(undefined);
+      (contentOverrideService.refreshMovie as jest.Mock).mockResolvedValue(undefined);
 
       req.body = { movieId: '10', tmdbId: '555' };
 
       await updateMovie(req, res, next);
 
-      expect(adminMovieService.updateMovieById).toHaveBeenCalledWith(10, 555);
+      expect(contentOverrideService.refreshMovie).toHaveBeenCalledWith(10, 555);
     });
 
     it('should call next with error when service throws', async () => {
       const error = new Error('Movie update failed');
-      (adminMovieService.updateMovieById as jest.Mock).mockRejectedValue(error);
+      (contentOverrideService.refreshMovie as jest.Mock).mockRejectedValue(error);
 
       req.body = { movieId: 1, tmdbId: 67890 };
 
@@ -570,17 +971,54 @@ describe('ContentController', () => {
   });
 
   describe('updateAllMovies', () => {
-    it('should trigger update for all movies', async () => {
-      (adminMovieService.updateAllMovies as jest.Mock).mockResolvedValue(undefined);
+    const run = { id: 'run-2', contentType: 'movie', status: 'running', total: 40 };
+
+    it('should start a tracked update run for all movies', async () => {
+      (contentUpdateRunService.startMovieUpdate as jest.Mock).mockResolvedValue({ outcome: 'started', run });
 
       await updateAllMovies(req, res, next);
 
-      expect(adminMovieService.updateAllMovies).toHaveBeenCalled();
+      expect(contentUpdateRunService.startMovieUpdate).toHaveBeenCalledWith({ uid: 'unknown', email: null });
       expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Movie update process started successfully', run });
+    });
+
+    it('should return 409 when a movie update is already running', async () => {
+      (contentUpdateRunService.startMovieUpdate as jest.Mock).mockResolvedValue({ outcome: 'already_running', run });
+
+      await updateAllMovies(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: 'A movie update is already running', runId: 'run-2' });
+    });
+  });
+
+  describe('refreshMovies', () => {
+    it('should start a refresh of the movies matching the filters', async () => {
+      const run = { id: 'run-4', contentType: 'movie', status: 'running', total: 2 };
+      (contentUpdateRunService.startMovieRefresh as jest.Mock).mockResolvedValue({ outcome: 'started', run });
+      req.query = { year: '2024', streamingService: 'Netflix' };
+
+      await refreshMovies(req, res, next);
+
+      const filters = { searchMode: 'fuzzy', year: 2024, streamingService: 'Netflix' };
+      expect(contentUpdateRunService.startMovieRefresh).toHaveBeenCalledWith(filters, { uid: 'unknown', email: null });
+      expect(res.json).toHaveBeenCalledWith({ message: 'Refreshing 2 movies', filters, run });
+    });
+
+    it('should require at least one filter', async () => {
+      await refreshMovies(req, res, next);
+
+      expect(contentUpdateRunService.startMovieRefresh).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(expect.any(Error));
     });
   });
 
   describe('getFullMovieDetails', () => {
+    beforeEach(() => {
+      (contentOverrideService.getMovieOverrides as jest.Mock).mockResolvedValue([]);
+    });
+
     it('should return complete movie information', async () => {
       const mockMovieDetails = { id: 1, title: 'Test Movie', runtime: 120 };
       (adminMovieService.getCompleteMovieInfo as jest.Mock).mockResolvedValue(mockMovieDetails);
@@ -593,6 +1031,21 @@ describe('ContentController', () => {
       expect(res.status).toHaveBeenCalledWith(200);
     });
 
+    it('should include the movie overrides with their source values', async () => {
+      const overrides = [{ contentType: 'movie', contentId: 1, field: 'runtime', value: 118, sourceValue: 120 }];
+      (adminMovieService.getCompleteMovieInfo as jest.Mock).mockResolvedValue({ id: 1, runtime: 118 });
+      (contentOverrideService.getMovieOverrides as jest.Mock).mockResolvedValue(overrides);
+
+      req.params = { movieId: '1' };
+
+      await getFullMovieDetails(req, res, next);
+
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved details for movie',
+        results: { id: 1, runtime: 118, overrides },
+      });
+    });
+
     it('should call next with error when service throws', async () => {
       const error = new Error('Movie not found');
       (adminMovieService.getCompleteMovieInfo as jest.Mock).mockRejectedValue(error);
@@ -758,6 +1211,123 @@ describe('ContentController', () => {
     });
   });
 
+  describe('searchPeople', () => {
+    const mockPeopleResult = {
+      people: [{ id: 1, name: 'Test Person', creditCount: 3 }],
+      pagination: {
+        totalCount: 1,
+        totalPages: 1,
+        currentPage: 1,
+        limit: 50,
+        hasNextPage: false,
+        hasPrevPage: false,
+      },
+    };
+
+    beforeEach(() => {
+      (personSearchService.searchPeople as jest.Mock).mockResolvedValue(mockPeopleResult);
+    });
+
+    it('should return paginated people with first letter filter', async () => {
+      req.query = { firstLetter: 'A', page: '1', limit: '50' };
+
+      await searchPeople(req, res, next);
+
+      expect(personSearchService.searchPeople).toHaveBeenCalledWith({ firstLetter: 'A' }, 1, 0, 50);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved page 1 of people',
+        pagination: mockPeopleResult.pagination,
+        filters: { firstLetter: 'A' },
+        results: mockPeopleResult.people,
+      });
+    });
+
+    it('should handle default pagination when not provided', async () => {
+      req.query = {};
+
+      await searchPeople(req, res, next);
+
+      expect(personSearchService.searchPeople).toHaveBeenCalledWith({}, 1, 0, 50);
+    });
+
+    it('should cap limit at 100', async () => {
+      req.query = { firstLetter: 'B', limit: '1000' };
+
+      await searchPeople(req, res, next);
+
+      expect(personSearchService.searchPeople).toHaveBeenCalledWith({ firstLetter: 'B' }, 1, 0, 100);
+    });
+
+    it('should calculate correct offset for page 2', async () => {
+      req.query = { firstLetter: 'C', page: '2', limit: '20' };
+
+      await searchPeople(req, res, next);
+
+      expect(personSearchService.searchPeople).toHaveBeenCalledWith({ firstLetter: 'C' }, 2, 20, 20);
+    });
+
+    it('should parse search, filter and sort parameters', async () => {
+      req.query = {
+        search: '  tom hanks ',
+        department: 'Acting',
+        showId: '12',
+        movieId: '34',
+        missingProfileImage: 'true',
+        sortBy: 'credits',
+        sortOrder: 'asc',
+      };
+
+      await searchPeople(req, res, next);
+
+      expect(personSearchService.searchPeople).toHaveBeenCalledWith(
+        {
+          search: 'tom hanks',
+          department: 'Acting',
+          showId: 12,
+          movieId: 34,
+          missingProfileImage: true,
+          sortBy: 'credits',
+          sortOrder: 'asc',
+        },
+        1,
+        0,
+        50,
+      );
+    });
+
+    it('should reject an unknown sort field', async () => {
+      req.query = { sortBy: 'popularity' };
+
+      await searchPeople(req, res, next);
+
+      expect(personSearchService.searchPeople).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: expect.stringContaining('Invalid query parameters') }),
+      );
+    });
+
+    it('should reject a non-numeric show id', async () => {
+      req.query = { showId: 'abc' };
+
+      await searchPeople(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Invalid query parameters: showId must be numeric' }),
+      );
+    });
+
+    it('should pass service errors to next', async () => {
+      const error = new Error('Database error');
+      (personSearchService.searchPeople as jest.Mock).mockRejectedValue(error);
+      req.query = { search: 'tom' };
+
+      await searchPeople(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
   describe('getPersonDetails', () => {
     it('should return person details', async () => {
       const mockPerson = { id: 1, name: 'Test Person', biography: 'Bio' };
@@ -933,22 +1503,140 @@ describe('ContentController', () => {
     });
   });
 
-  describe('getPersonByTmdbId', () => {
-    it('should return the person when found', async () => {
-      const mockPerson = { id: 1, tmdbId: 12345, name: 'Test Person' };
-      (personService.getPersonByTmdbId as jest.Mock).mockResolvedValue(mockPerson);
+  describe('resolveDuplicateEpisodes', () => {
+    const plan = {
+      showId: 10,
+      groups: [],
+      summary: { groups: 1, episodesRemoved: 2, watchStatusesMigrated: 3 },
+    };
 
-      req.params = { tmdbId: '12345' };
+    it('should return the plan as a dry run by default', async () => {
+      (duplicateEpisodeService.resolveShowDuplicates as jest.Mock).mockResolvedValue({
+        outcome: 'resolved',
+        dryRun: true,
+        plan,
+      });
+      req.params = { showId: '10' };
 
-      await getPersonByTmdbId(req, res, next);
+      await resolveDuplicateEpisodes(req, res, next);
 
-      expect(personService.getPersonByTmdbId).toHaveBeenCalledWith(12345);
+      expect(duplicateEpisodeService.resolveShowDuplicates).toHaveBeenCalledWith(10, true);
       expect(res.status).toHaveBeenCalledWith(200);
-      expect(res.json).toHaveBeenCalledWith({ message: 'Person found', results: mockPerson });
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Dry run: duplicate episodes for show 10 not resolved',
+        result: { outcome: 'resolved', dryRun: true, plan },
+      });
+      expect(res.locals.auditDetails).toEqual({ dryRun: true, summary: plan.summary });
     });
 
-    it('should return "Person not found" message when result is null', async () => {
-      (personService.getPersonByTmdbId as jest.Mock).mockResolvedValue(null);
+    it('should resolve the duplicates when dryRun is false', async () => {
+      (duplicateEpisodeService.resolveShowDuplicates as jest.Mock).mockResolvedValue({
+        outcome: 'resolved',
+        dryRun: false,
+        plan,
+      });
+      req.params = { showId: '10' };
+      req.body = { dryRun: false };
+
+      await resolveDuplicateEpisodes(req, res, next);
+
+      expect(duplicateEpisodeService.resolveShowDuplicates).toHaveBeenCalledWith(10, false);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Resolved duplicate episodes for show 10' }),
+      );
+    });
+
+    it('should return 404 when the show does not exist', async () => {
+      (duplicateEpisodeService.resolveShowDuplicates as jest.Mock).mockResolvedValue({ outcome: 'show_not_found' });
+      req.params = { showId: '99' };
+
+      await resolveDuplicateEpisodes(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Show 99 not found' });
+    });
+
+    it('should reject a non-boolean dryRun', async () => {
+      req.params = { showId: '10' };
+      req.body = { dryRun: 'no' };
+
+      await resolveDuplicateEpisodes(req, res, next);
+
+      expect(duplicateEpisodeService.resolveShowDuplicates).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(expect.any(Error));
+      expect(next.mock.calls[0][0].message).toBe('Invalid request body: dryRun must be a boolean');
+    });
+
+    it('should call next with error when service throws', async () => {
+      const error = new Error('Resolve failed');
+      (duplicateEpisodeService.resolveShowDuplicates as jest.Mock).mockRejectedValue(error);
+      req.params = { showId: '10' };
+
+      await resolveDuplicateEpisodes(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveAllDuplicateEpisodes', () => {
+    const result = {
+      dryRun: false,
+      plans: [],
+      failedShowIds: [7],
+      summary: { shows: 2, groups: 3, episodesRemoved: 4, watchStatusesMigrated: 1 },
+    };
+
+    it('should resolve the duplicates of every show', async () => {
+      (duplicateEpisodeService.resolveAllDuplicates as jest.Mock).mockResolvedValue(result);
+      req.body = { dryRun: false };
+
+      await resolveAllDuplicateEpisodes(req, res, next);
+
+      expect(duplicateEpisodeService.resolveAllDuplicates).toHaveBeenCalledWith(false);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Resolved duplicate episodes for 2 shows', result });
+      expect(res.locals.auditDetails).toEqual({ dryRun: false, summary: result.summary, failedShowIds: [7] });
+    });
+
+    it('should default to a dry run', async () => {
+      (duplicateEpisodeService.resolveAllDuplicates as jest.Mock).mockResolvedValue({ ...result, dryRun: true });
+      req.body = undefined;
+
+      await resolveAllDuplicateEpisodes(req, res, next);
+
+      expect(duplicateEpisodeService.resolveAllDuplicates).toHaveBeenCalledWith(true);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Dry run: duplicate episodes for 2 shows not resolved' }),
+      );
+    });
+
+    it('should call next with error when service throws', async () => {
+      const error = new Error('Resolve failed');
+      (duplicateEpisodeService.resolveAllDuplicates as jest.Mock).mockRejectedValue(error);
+
+      await resolveAllDuplicateEpisodes(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('getPersonByTmdbId', () => {
+    it('should return the person when found', async () => {
+      const mockPerson = { id: 1, tmdbId: 12345, name: 'Test Person' };
+      (personService.getPersonByTmdbId as jest.Mock).mockResolvedValue(mockPerson);
+
+      req.params = { tmdbId: '12345' };
+
+      await getPersonByTmdbId(req, res, next);
+
+      expect(personService.getPersonByTmdbId).toHaveBeenCalledWith(12345);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Person found', results: mockPerson });
+    });
+
+    it('should return "Person not found" message when result is null', async () => {
+      (personService.getPersonByTmdbId as jest.Mock).mockResolvedValue(null);
 
       req.params = { tmdbId: '99999' };
 
@@ -1126,6 +1814,124 @@ describe('ContentController', () => {
     });
   });
 
+  describe('getPersonFailureSummary', () => {
+    it('should return the pending failures grouped by error type', async () => {
+      const summary = {
+        total: 3,
+        groups: [
+          { errorType: 'not_found', suggestedAction: 'update_tmdb_id_or_delete', count: 3, failureIds: [1, 2, 3] },
+        ],
+      };
+      (personFailureService.getSummary as jest.Mock).mockResolvedValue(summary);
+
+      await getPersonFailureSummary(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Retrieved person update failure summary', results: summary });
+    });
+  });
+
+  describe('retryPersonFailures', () => {
+    const report = {
+      total: 3,
+      counts: { resolved: 1, not_found: 1, retry_later: 1, failed: 0, skipped: 0 },
+      results: [
+        { failureId: 1, personId: 10, outcome: 'resolved' },
+        {
+          failureId: 2,
+          personId: 20,
+          outcome: 'not_found',
+          errorType: 'not_found',
+          suggestedAction: 'update_tmdb_id_or_delete',
+        },
+        {
+          failureId: 3,
+          personId: 30,
+          outcome: 'retry_later',
+          errorType: 'rate_limited',
+          suggestedAction: 'retry_later',
+        },
+      ],
+    };
+
+    it('should retry the selected failures and audit the ones still unresolved', async () => {
+      (personFailureService.retryFailures as jest.Mock).mockResolvedValue(report);
+      req.body = { failureIds: [1, 2, 3] };
+
+      await retryPersonFailures(req, res, next);
+
+      expect(personFailureService.retryFailures).toHaveBeenCalledWith([1, 2, 3]);
+      expect(res.locals.auditDetails).toEqual({ all: false, counts: report.counts, unresolvedFailureIds: [2, 3] });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Retried 3 person update failures: 1 resolved', ...report });
+    });
+
+    it('should retry every pending failure', async () => {
+      (personFailureService.retryFailures as jest.Mock).mockResolvedValue(report);
+      req.body = { all: true };
+
+      await retryPersonFailures(req, res, next);
+
+      expect(personFailureService.retryFailures).toHaveBeenCalledWith('all');
+    });
+
+    it('should require either failureIds or all', async () => {
+      req.body = { failureIds: [1], all: true };
+
+      await retryPersonFailures(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Invalid request body: Provide either failureIds or all' }),
+      );
+      expect(personFailureService.retryFailures).not.toHaveBeenCalled();
+    });
+
+    it('should limit the number of failures retried at once', async () => {
+      req.body = { failureIds: Array.from({ length: 101 }, (_, index) => index + 1) };
+
+      await retryPersonFailures(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Invalid request body: No more than 100 failures can be processed at once',
+        }),
+      );
+    });
+  });
+
+  describe('bulkResolvePersonFailures', () => {
+    it('should resolve the failures with the notes and audit the ones that failed', async () => {
+      const report = {
+        total: 2,
+        resolved: 1,
+        failed: 1,
+        results: [
+          { failureId: 1, personId: 10, success: true },
+          { failureId: 2, personId: 20, success: false, error: 'Failure is resolved' },
+        ],
+      };
+      (personFailureService.resolveFailures as jest.Mock).mockResolvedValue(report);
+      req.body = { failureIds: [1, 2], notes: '  Removed from TMDB  ' };
+
+      await bulkResolvePersonFailures(req, res, next);
+
+      expect(personFailureService.resolveFailures).toHaveBeenCalledWith([1, 2], 'Removed from TMDB');
+      expect(res.locals.auditDetails).toEqual({ resolved: 1, failed: 1, failedFailureIds: [2] });
+      expect(res.json).toHaveBeenCalledWith({ message: 'Resolved 1 person update failures, 1 failed', ...report });
+    });
+
+    it('should require notes', async () => {
+      req.body = { failureIds: [1, 2] };
+
+      await bulkResolvePersonFailures(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Invalid request body: notes must be a string' }),
+      );
+      expect(personFailureService.resolveFailures).not.toHaveBeenCalled();
+    });
+  });
+
   describe('mergeAndDeletePerson', () => {
     it('should merge source person into target and return counts', async () => {
       const mockResult = { showsMerged: 3, moviesMerged: 2 };
@@ -1171,6 +1977,166 @@ describe('ContentController', () => {
     });
   });
 
+  describe('getPersonDuplicates', () => {
+    const suggestion = {
+      confidence: 0.8,
+      reasons: ['same_name', 'same_birthday'],
+      sharedCredits: 0,
+      source: { id: 12, tmdbId: 5012, name: 'Jane Doe' },
+      target: { id: 4, tmdbId: 1004, name: 'Jane Doe' },
+    };
+    const pagination = {
+      totalCount: 1,
+      totalPages: 1,
+      currentPage: 1,
+      limit: 50,
+      hasNextPage: false,
+      hasPrevPage: false,
+    };
+
+    it('should return a page of suggestions with the default minimum confidence', async () => {
+      (personDuplicateService.getSuggestions as jest.Mock).mockResolvedValue({ suggestions: [suggestion], pagination });
+
+      await getPersonDuplicates(req, res, next);
+
+      expect(personDuplicateService.getSuggestions).toHaveBeenCalledWith({ minConfidence: 0.5 }, 1, 0, 50);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved page 1 of duplicate people',
+        pagination,
+        results: [suggestion],
+      });
+    });
+
+    it('should pass the minimum confidence and page', async () => {
+      (personDuplicateService.getSuggestions as jest.Mock).mockResolvedValue({ suggestions: [], pagination });
+      req.query = { minConfidence: '0.75', page: '2', limit: '10' };
+
+      await getPersonDuplicates(req, res, next);
+
+      expect(personDuplicateService.getSuggestions).toHaveBeenCalledWith({ minConfidence: 0.75 }, 2, 10, 10);
+    });
+
+    it('should reject a minimum confidence above 1', async () => {
+      req.query = { minConfidence: '5' };
+
+      await getPersonDuplicates(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Invalid query parameters: minConfidence must be between 0 and 1' }),
+      );
+      expect(personDuplicateService.getSuggestions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptPersonDuplicate', () => {
+    it('should merge the person into the target and audit the counts', async () => {
+      const mockResult = { showsMerged: 1, moviesMerged: 4 };
+      (personDuplicateService.acceptSuggestion as jest.Mock).mockResolvedValue({
+        outcome: 'merged',
+        merge: mockResult,
+      });
+      req.params = { personId: '12', targetPersonId: '4' };
+
+      await acceptPersonDuplicate(req, res, next);
+
+      expect(personDuplicateService.acceptSuggestion).toHaveBeenCalledWith(12, 4);
+      expect(res.locals.auditDetails).toEqual({ targetPersonId: 4, showsMerged: 1, moviesMerged: 4 });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Person 12 merged into 4 and deleted (shows: 1, movies: 4)',
+        results: mockResult,
+      });
+    });
+
+    it('should return 404 for a pair that is not a current suggestion', async () => {
+      (personDuplicateService.acceptSuggestion as jest.Mock).mockResolvedValue({ outcome: 'not_suggested' });
+      req.params = { personId: '12', targetPersonId: '4' };
+
+      await acceptPersonDuplicate(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'People 12 and 4 are not a current duplicate suggestion' });
+      expect(res.locals.auditDetails).toBeUndefined();
+    });
+
+    it('should not merge a person into themselves', async () => {
+      req.params = { personId: '12', targetPersonId: '12' };
+
+      await acceptPersonDuplicate(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'A person cannot be a duplicate of themselves' }),
+      );
+      expect(personDuplicateService.acceptSuggestion).not.toHaveBeenCalled();
+    });
+
+    it('should call next with error when service throws', async () => {
+      const error = new Error('Merge failed');
+      (personDuplicateService.acceptSuggestion as jest.Mock).mockRejectedValue(error);
+      req.params = { personId: '12', targetPersonId: '4' };
+
+      await acceptPersonDuplicate(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('rejectPersonDuplicate', () => {
+    beforeEach(() => {
+      req.user = { uid: 'admin-1', email: 'admin@example.com' };
+    });
+
+    it('should remember the rejection with its notes', async () => {
+      (personDuplicateService.rejectSuggestion as jest.Mock).mockResolvedValue({ outcome: 'rejected' });
+      req.params = { personId: '12', otherPersonId: '4' };
+      req.body = { notes: 'Father and son' };
+
+      await rejectPersonDuplicate(req, res, next);
+
+      expect(personDuplicateService.rejectSuggestion).toHaveBeenCalledWith(12, 4, 'Father and son', {
+        uid: 'admin-1',
+        email: 'admin@example.com',
+      });
+      expect(res.locals.auditDetails).toEqual({ otherPersonId: 4, notes: 'Father and son' });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'People 12 and 4 will not be suggested as duplicates again',
+      });
+    });
+
+    it('should return 404 when a person does not exist', async () => {
+      (personDuplicateService.rejectSuggestion as jest.Mock).mockResolvedValue({ outcome: 'not_found', personId: 4 });
+      req.params = { personId: '12', otherPersonId: '4' };
+
+      await rejectPersonDuplicate(req, res, next);
+
+      expect(personDuplicateService.rejectSuggestion).toHaveBeenCalledWith(12, 4, null, expect.any(Object));
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Person 4 not found' });
+    });
+
+    it('should reject invalid person ids', async () => {
+      req.params = { personId: 'abc', otherPersonId: '4' };
+
+      await rejectPersonDuplicate(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'Person ids must be positive integers' }));
+      expect(personDuplicateService.rejectSuggestion).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown body fields', async () => {
+      req.params = { personId: '12', otherPersonId: '4' };
+      req.body = { reason: 'Different people' };
+
+      await rejectPersonDuplicate(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: expect.stringContaining('Invalid request body') }),
+      );
+    });
+  });
+
   describe('deletePerson', () => {
     it('should delete a person and all references', async () => {
       (personService.deletePersonAndReferences as jest.Mock).mockResolvedValue(undefined);
@@ -1197,39 +2163,200 @@ describe('ContentController', () => {
     });
   });
 
+  describe('previewPersonTmdbId', () => {
+    const preview = {
+      person: { id: 1, tmdbId: 100, name: 'Tom Hanks', birthday: '1956-07-09' },
+      candidate: {
+        tmdbId: 31,
+        name: 'Tom Hanks',
+        birthday: '1956-07-09',
+        knownForDepartment: 'Acting',
+        profileImage: null,
+        creditCount: 80,
+      },
+      comparison: { nameMatches: true, birthdayMatches: true, sharedCredits: [], unmatchedCredits: [] },
+      existingPerson: null,
+      warnings: [],
+    };
+
+    it('should return the preview', async () => {
+      (personTmdbIdService.previewTmdbIdChange as jest.Mock).mockResolvedValue({ outcome: 'preview', preview });
+      req.params = { personId: '1' };
+      req.query = { tmdbId: '31' };
+
+      await previewPersonTmdbId(req, res, next);
+
+      expect(personTmdbIdService.previewTmdbIdChange).toHaveBeenCalledWith(1, 31);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Previewed TMDB Id 31 for person 1', results: preview });
+    });
+
+    it('should return 404 when the person does not exist', async () => {
+      (personTmdbIdService.previewTmdbIdChange as jest.Mock).mockResolvedValue({ outcome: 'person_not_found' });
+      req.params = { personId: '1' };
+      req.query = { tmdbId: '31' };
+
+      await previewPersonTmdbId(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Person 1 not found' });
+    });
+
+    it('should return 404 when TMDB has no such person', async () => {
+      (personTmdbIdService.previewTmdbIdChange as jest.Mock).mockResolvedValue({ outcome: 'tmdb_not_found' });
+      req.params = { personId: '1' };
+      req.query = { tmdbId: '31' };
+
+      await previewPersonTmdbId(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'No person with TMDB Id 31 found on TMDB' });
+    });
+
+    it('should reject a missing TMDB id', async () => {
+      req.params = { personId: '1' };
+      req.query = {};
+
+      await previewPersonTmdbId(req, res, next);
+
+      expect(personTmdbIdService.previewTmdbIdChange).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Invalid query parameters: tmdbId must be a number' }),
+      );
+    });
+
+    it('should reject an invalid person id', async () => {
+      req.params = { personId: 'abc' };
+      req.query = { tmdbId: '31' };
+
+      await previewPersonTmdbId(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'Person id must be a positive integer' }));
+    });
+  });
+
   describe('updatePersonTmdbId', () => {
-    it('should update a person TMDB ID and return the result', async () => {
-      const mockResult = { id: 1, tmdbId: 99999, name: 'Test Person' };
-      (personService.updatePersonTmdbId as jest.Mock).mockResolvedValue(mockResult);
+    const preview = {
+      person: { id: 1, tmdbId: 100, name: 'Tom Hanks', birthday: null },
+      candidate: {
+        tmdbId: 99999,
+        name: 'Tom Hanks',
+        birthday: null,
+        knownForDepartment: 'Acting',
+        profileImage: null,
+        creditCount: 0,
+      },
+      comparison: { nameMatches: true, birthdayMatches: null, sharedCredits: [], unmatchedCredits: [] },
+      existingPerson: null,
+      warnings: [] as string[],
+    };
+
+    it('should update person TMDB ID', async () => {
+      const mockResult = { id: 1, tmdbId: 99999 };
+      (personTmdbIdService.updateTmdbId as jest.Mock).mockResolvedValue({
+        outcome: 'updated',
+        preview,
+        result: mockResult,
+      });
 
       req.params = { personId: '1' };
       req.body = { newTmdbId: 99999 };
 
       await updatePersonTmdbId(req, res, next);
 
-      expect(personService.updatePersonTmdbId).toHaveBeenCalledWith(1, 99999);
+      expect(personTmdbIdService.updateTmdbId).toHaveBeenCalledWith(1, 99999, false);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         message: 'Person 1 TMDB ID updated to 99999',
+        warnings: [],
         results: mockResult,
       });
+      expect(res.locals.auditDetails).toEqual({ previousTmdbId: 100, newTmdbId: 99999, force: false, warnings: [] });
     });
 
     it('should handle string IDs by converting to numbers', async () => {
-      const mockResult = { id: 5, tmdbId: 11111 };
-      (personService.updatePersonTmdbId as jest.Mock).mockResolvedValue(mockResult);
+      (personTmdbIdService.updateTmdbId as jest.Mock).mockResolvedValue({ outcome: 'updated', preview, result: {} });
 
       req.params = { personId: '5' };
-      req.body = { newTmdbId: '11111' };
+      req.body = { newTmdbId: '11111', force: true };
+
+      await updatePersonTmdbId(req, res, next);
+
+      expect(personTmdbIdService.updateTmdbId).toHaveBeenCalledWith(5, 11111, true);
+    });
+
+    it('should return 409 with the merge to make when another person has the TMDB ID', async () => {
+      const conflictPreview = {
+        ...preview,
+        existingPerson: { id: 7, name: 'Tom Hanks' },
+        warnings: ['tmdb_id_in_use'],
+      };
+      (personTmdbIdService.updateTmdbId as jest.Mock).mockResolvedValue({
+        outcome: 'conflict',
+        preview: conflictPreview,
+        existingPersonId: 7,
+      });
+
+      req.params = { personId: '1' };
+      req.body = { newTmdbId: 99999, force: true };
+
+      await updatePersonTmdbId(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'TMDB Id 99999 already belongs to person 7; merge them instead',
+        merge: '/api/v1/people/1/merge/7',
+        preview: conflictPreview,
+      });
+    });
+
+    it('should return 409 when the TMDB person does not match and the change is not forced', async () => {
+      const mismatchPreview = { ...preview, warnings: ['name_mismatch', 'no_shared_credits'] };
+      (personTmdbIdService.updateTmdbId as jest.Mock).mockResolvedValue({
+        outcome: 'needs_confirmation',
+        preview: mismatchPreview,
+      });
+
+      req.params = { personId: '1' };
+      req.body = { newTmdbId: 99999 };
+
+      await updatePersonTmdbId(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({
+        error:
+          'TMDB person 99999 does not match person 1 (name_mismatch, no_shared_credits); send force to update anyway',
+        preview: mismatchPreview,
+      });
+    });
+
+    it('should return 404 when TMDB has no such person', async () => {
+      (personTmdbIdService.updateTmdbId as jest.Mock).mockResolvedValue({ outcome: 'tmdb_not_found' });
+
+      req.params = { personId: '1' };
+      req.body = { newTmdbId: 99999 };
 
       await updatePersonTmdbId(req, res, next);
 
-      expect(personService.updatePersonTmdbId).toHaveBeenCalledWith(5, 11111);
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'No person with TMDB Id 99999 found on TMDB' });
+    });
+
+    it('should reject an invalid body', async () => {
+      req.params = { personId: '1' };
+      req.body = { newTmdbId: -4 };
+
+      await updatePersonTmdbId(req, res, next);
+
+      expect(personTmdbIdService.updateTmdbId).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Invalid request body: newTmdbId must be positive' }),
+      );
     });
 
     it('should call next with error when service throws', async () => {
       const error = new Error('Update failed');
-      (personService.updatePersonTmdbId as jest.Mock).mockRejectedValue(error);
+      (personTmdbIdService.updateTmdbId as jest.Mock).mockRejectedValue(error);
 
       req.params = { personId: '1' };
       req.body = { newTmdbId: 99999 };
@@ -1240,4 +2367,158 @@ describe('ContentController', () => {
       expect(res.status).not.toHaveBeenCalled();
     });
   });
+
+  describe('setShowOverrides', () => {
+    const overrides = [
+      { contentType: 'show', contentId: 10, field: 'status', value: 'Ended', sourceValue: 'Canceled' },
+    ];
+
+    beforeEach(() => {
+      req.user = { uid: 'admin-1', email: 'admin@example.com' };
+    });
+
+    it('should replace the show overrides', async () => {
+      (contentOverrideService.setShowOverrides as jest.Mock).mockResolvedValue({ outcome: 'updated', overrides });
+      req.params = { showId: '10' };
+      req.body = { status: 'Ended', releaseDate: '2008-01-20' };
+
+      await setShowOverrides(req, res, next);
+
+      expect(contentOverrideService.setShowOverrides).toHaveBeenCalledWith(
+        10,
+        { status: 'Ended', releaseDate: '2008-01-20' },
+        { uid: 'admin-1', email: 'admin@example.com' },
+      );
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Updated overrides for show 10', results: overrides });
+      expect(res.locals.auditDetails).toEqual({ fields: ['releaseDate', 'status'] });
+    });
+
+    it('should clear every override for an empty body', async () => {
+      (contentOverrideService.setShowOverrides as jest.Mock).mockResolvedValue({ outcome: 'updated', overrides: [] });
+      req.params = { showId: '10' };
+      req.body = undefined;
+
+      await setShowOverrides(req, res, next);
+
+      expect(contentOverrideService.setShowOverrides).toHaveBeenCalledWith(10, {}, expect.anything());
+    });
+
+    it('should return 404 when the show does not exist', async () => {
+      (contentOverrideService.setShowOverrides as jest.Mock).mockResolvedValue({ outcome: 'not_found' });
+      req.params = { showId: '99' };
+      req.body = { title: 'Renamed' };
+
+      await setShowOverrides(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Show 99 not found' });
+    });
+
+    it('should reject fields that cannot be overridden', async () => {
+      req.params = { showId: '10' };
+      req.body = { runtime: 45 };
+
+      await setShowOverrides(req, res, next);
+
+      expect(contentOverrideService.setShowOverrides).not.toHaveBeenCalled();
+      expect(next.mock.calls[0][0].message).toContain('Invalid request body');
+    });
+
+    it('should reject an invalid release date', async () => {
+      req.params = { showId: '10' };
+      req.body = { releaseDate: 'January 2008' };
+
+      await setShowOverrides(req, res, next);
+
+      expect(next.mock.calls[0][0].message).toBe('Invalid request body: releaseDate must be a date (YYYY-MM-DD)');
+    });
+
+    it('should call next with error when service throws', async () => {
+      const error = new Error('Database error');
+      (contentOverrideService.setShowOverrides as jest.Mock).mockRejectedValue(error);
+      req.params = { showId: '10' };
+
+      await setShowOverrides(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('setMovieOverrides', () => {
+    it('should replace the movie overrides', async () => {
+      (contentOverrideService.setMovieOverrides as jest.Mock).mockResolvedValue({ outcome: 'updated', overrides: [] });
+      req.params = { movieId: '17' };
+      req.body = { runtime: 117, mpaRating: 'R' };
+
+      await setMovieOverrides(req, res, next);
+
+      expect(contentOverrideService.setMovieOverrides).toHaveBeenCalledWith(
+        17,
+        { runtime: 117, mpaRating: 'R' },
+        expect.anything(),
+      );
+      expect(res.json).toHaveBeenCalledWith({ message: 'Updated overrides for movie 17', results: [] });
+    });
+
+    it('should reject a runtime that is not a positive number', async () => {
+      req.params = { movieId: '17' };
+      req.body = { runtime: '117' };
+
+      await setMovieOverrides(req, res, next);
+
+      expect(contentOverrideService.setMovieOverrides).not.toHaveBeenCalled();
+      expect(next.mock.calls[0][0].message).toBe('Invalid request body: runtime must be a number');
+    });
+
+    it('should return 404 when the movie does not exist', async () => {
+      (contentOverrideService.setMovieOverrides as jest.Mock).mockResolvedValue({ outcome: 'not_found' });
+      req.params = { movieId: '99' };
+
+      await setMovieOverrides(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Movie 99 not found' });
+    });
+  });
+
+  describe('setEpisodeOverrides', () => {
+    it('should replace the episode overrides', async () => {
+      (contentOverrideService.setEpisodeOverrides as jest.Mock).mockResolvedValue({
+        outcome: 'updated',
+        overrides: [],
+      });
+      req.params = { showId: '10', episodeId: '101' };
+      req.body = { title: 'Pilot', airDate: '2008-01-20' };
+
+      await setEpisodeOverrides(req, res, next);
+
+      expect(contentOverrideService.setEpisodeOverrides).toHaveBeenCalledWith(
+        10,
+        101,
+        { title: 'Pilot', airDate: '2008-01-20' },
+        expect.anything(),
+      );
+      expect(res.json).toHaveBeenCalledWith({ message: 'Updated overrides for episode 101', results: [] });
+    });
+
+    it('should reject an empty title', async () => {
+      req.params = { showId: '10', episodeId: '101' };
+      req.body = { title: '  ' };
+
+      await setEpisodeOverrides(req, res, next);
+
+      expect(next.mock.calls[0][0].message).toBe('Invalid request body: title cannot be empty');
+    });
+
+    it('should return 404 when the episode is not part of the show', async () => {
+      (contentOverrideService.setEpisodeOverrides as jest.Mock).mockResolvedValue({ outcome: 'not_found' });
+      req.params = { showId: '10', episodeId: '999' };
+
+      await setEpisodeOverrides(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Episode 999 not found in show 10' });
+    });
+  });
 });
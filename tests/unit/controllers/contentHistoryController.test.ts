@@ -0,0 +1,136 @@
+import { getMovieHistory, getRecentContentChanges, getShowHistory } from '@controllers/contentHistoryController';
+import { contentHistoryService } from '@services/ContentHistoryService';
+
+jest.mock('@services/ContentHistoryService', () => ({
+  contentHistoryService: {
+    getHistory: jest.fn(),
+    getChanges: jest.fn(),
+  },
+}));
+
+describe('ContentHistoryController', () => {
+  let req: any, res: any, next: jest.Mock;
+
+  const change = {
+    id: 1,
+    contentType: 'show',
+    contentId: 10,
+    title: 'Severance',
+    source: 'refresh',
+    changes: [{ type: 'field_changed', field: 'status', from: 'Returning Series', to: 'Ended' }],
+    detectedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const pagination = {
+    totalCount: 1,
+    totalPages: 1,
+    currentPage: 1,
+    limit: 50,
+    hasNextPage: false,
+    hasPrevPage: false,
+  };
+
+  beforeEach(() => {
+    req = { query: {}, params: {} };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+      locals: {},
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+    (contentHistoryService.getHistory as jest.Mock).mockResolvedValue({ changes: [change], pagination });
+    (contentHistoryService.getChanges as jest.Mock).mockResolvedValue({ changes: [change], pagination });
+  });
+
+  describe('getShowHistory', () => {
+    it('should return a page of the show history', async () => {
+      req.params = { showId: '10' };
+
+      await getShowHistory(req, res, next);
+
+      expect(contentHistoryService.getHistory).toHaveBeenCalledWith('show', 10, 1, 0, 50);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved history for show 10',
+        pagination,
+        results: [change],
+      });
+    });
+
+    it('should page and cap the limit', async () => {
+      req.params = { showId: '10' };
+      req.query = { page: '3', limit: '500' };
+
+      await getShowHistory(req, res, next);
+
+      expect(contentHistoryService.getHistory).toHaveBeenCalledWith('show', 10, 3, 200, 100);
+    });
+
+    it('should call next with error when service throws', async () => {
+      const error = new Error('Database error');
+      (contentHistoryService.getHistory as jest.Mock).mockRejectedValue(error);
+      req.params = { showId: '10' };
+
+      await getShowHistory(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('getMovieHistory', () => {
+    it('should return a page of the movie history', async () => {
+      req.params = { movieId: '17' };
+
+      await getMovieHistory(req, res, next);
+
+      expect(contentHistoryService.getHistory).toHaveBeenCalledWith('movie', 17, 1, 0, 50);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'Retrieved history for movie 17' }));
+    });
+  });
+
+  describe('getRecentContentChanges', () => {
+    it('should return recent changes across all content', async () => {
+      await getRecentContentChanges(req, res, next);
+
+      expect(contentHistoryService.getChanges).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved page 1 of content changes',
+        pagination,
+        results: [change],
+      });
+    });
+
+    it('should filter by content type and date', async () => {
+      req.query = { contentType: 'movie', since: '2026-01-01' };
+
+      await getRecentContentChanges(req, res, next);
+
+      expect(contentHistoryService.getChanges).toHaveBeenCalledWith(
+        { contentType: 'movie', since: '2026-01-01' },
+        1,
+        0,
+        50,
+      );
+    });
+
+    it('should reject an invalid content type', async () => {
+      req.query = { contentType: 'episode' };
+
+      await getRecentContentChanges(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Invalid contentType. Must be one of: show, movie' });
+      expect(contentHistoryService.getChanges).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid date', async () => {
+      req.query = { since: 'last week' };
+
+      await getRecentContentChanges(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Invalid since. Must be a date (YYYY-MM-DD)' });
+    });
+  });
+});
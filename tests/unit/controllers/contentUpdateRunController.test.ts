@@ -0,0 +1,144 @@
+import {
+  cancelContentUpdateRun,
+  getContentUpdateRun,
+  getContentUpdateRuns,
+  streamContentUpdateRun,
+} from '@controllers/contentUpdateRunController';
+import { contentUpdateRunService } from '@services/ContentUpdateRunService';
+
+jest.mock('@services/ContentUpdateRunService', () => ({
+  contentUpdateRunService: {
+    listRuns: jest.fn(),
+    getRun: jest.fn(),
+    streamRun: jest.fn(),
+    cancelRun: jest.fn(),
+  },
+}));
+
+describe('ContentUpdateRunController', () => {
+  let req: any, res: any, next: jest.Mock;
+
+  const run = {
+    id: 'run-1',
+    contentType: 'show',
+    status: 'running',
+    total: 10,
+    processed: 4,
+    updated: 3,
+    failed: 1,
+    errors: [{ contentId: 7, tmdbId: 1399, title: 'Game of Thrones', error: 'TMDB timeout' }],
+  };
+
+  beforeEach(() => {
+    req = { query: {}, params: {}, user: { uid: 'admin-1', email: 'admin@example.com' } };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+      locals: {},
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('getContentUpdateRuns', () => {
+    it('should list the runs', async () => {
+      (contentUpdateRunService.listRuns as jest.Mock).mockReturnValue([run]);
+
+      await getContentUpdateRuns(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Retrieved content update runs', results: [run] });
+    });
+  });
+
+  describe('getContentUpdateRun', () => {
+    it('should return the run', async () => {
+      (contentUpdateRunService.getRun as jest.Mock).mockReturnValue(run);
+      req.params = { runId: 'run-1' };
+
+      await getContentUpdateRun(req, res, next);
+
+      expect(contentUpdateRunService.getRun).toHaveBeenCalledWith('run-1');
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Retrieved content update run', results: run });
+    });
+
+    it('should return 404 for an unknown run', async () => {
+      (contentUpdateRunService.getRun as jest.Mock).mockReturnValue(null);
+      req.params = { runId: 'missing' };
+
+      await getContentUpdateRun(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Content update run missing not found' });
+    });
+  });
+
+  describe('streamContentUpdateRun', () => {
+    it('should stream a known run', async () => {
+      (contentUpdateRunService.getRun as jest.Mock).mockReturnValue(run);
+      req.params = { runId: 'run-1' };
+
+      await streamContentUpdateRun(req, res, next);
+
+      expect(contentUpdateRunService.streamRun).toHaveBeenCalledWith('run-1', req, res);
+    });
+
+    it('should return 404 for an unknown run', async () => {
+      (contentUpdateRunService.getRun as jest.Mock).mockReturnValue(null);
+      req.params = { runId: 'missing' };
+
+      await streamContentUpdateRun(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(contentUpdateRunService.streamRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelContentUpdateRun', () => {
+    it('should cancel a running run', async () => {
+      (contentUpdateRunService.cancelRun as jest.Mock).mockReturnValue({ outcome: 'cancelling', run });
+      req.params = { runId: 'run-1' };
+
+      await cancelContentUpdateRun(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Cancelling content update run run-1', results: run });
+      expect(res.locals.auditDetails).toEqual({ contentType: 'show', processed: 4 });
+    });
+
+    it('should return 404 for an unknown run', async () => {
+      (contentUpdateRunService.cancelRun as jest.Mock).mockReturnValue({ outcome: 'not_found' });
+      req.params = { runId: 'missing' };
+
+      await cancelContentUpdateRun(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+
+    it('should return 409 for a finished run', async () => {
+      (contentUpdateRunService.cancelRun as jest.Mock).mockReturnValue({
+        outcome: 'not_running',
+        run: { ...run, status: 'completed' },
+      });
+      req.params = { runId: 'run-1' };
+
+      await cancelContentUpdateRun(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Content update run run-1 is already completed' });
+    });
+
+    it('should call next with error when service throws', async () => {
+      const error = new Error('boom');
+      (contentUpdateRunService.cancelRun as jest.Mock).mockImplementation(() => {
+        throw error;
+      });
+
+      await cancelContentUpdateRun(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { fixContentIssue, getContentIssues } from '@controllers/dataQualityController';
+import { dataQualityService } from '@services/DataQualityService';
+
+jest.mock('@services/DataQualityService', () => ({
+  dataQualityService: {
+    hasRule: jest.fn(),
+    getIssueCounts: jest.fn(),
+    getIssues: jest.fn(),
+    fixIssue: jest.fn(),
+  },
+}));
+
+describe('DataQualityController', () => {
+  let req: any, res: any, next: jest.Mock;
+
+  const issue = {
+    id: 4,
+    rule: 'movie-missing-runtime',
+    contentType: 'movie',
+    contentId: 17,
+    title: 'Alien',
+    details: { tmdbId: 348 },
+    status: 'open',
+  };
+
+  beforeEach(() => {
+    req = { query: {}, params: {}, user: { uid: 'admin-1', email: 'admin@example.com' } };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+      locals: {},
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('getContentIssues', () => {
+    const rules = [{ rule: 'movie-missing-runtime', open: 1, resolved: 0 }];
+    const pagination = {
+      totalCount: 1,
+      totalPages: 1,
+      currentPage: 1,
+      limit: 50,
+      hasNextPage: false,
+      hasPrevPage: false,
+    };
+
+    it('should return rule counts and open issues by default', async () => {
+      (dataQualityService.getIssueCounts as jest.Mock).mockResolvedValue(rules);
+      (dataQualityService.getIssues as jest.Mock).mockResolvedValue({ issues: [issue], pagination });
+
+      await getContentIssues(req, res, next);
+
+      expect(dataQualityService.getIssues).toHaveBeenCalledWith({ status: 'open' }, 1, 0, 50);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved page 1 of content issues',
+        rules,
+        pagination,
+        results: [issue],
+      });
+    });
+
+    it('should drill down by rule with filters and pagination', async () => {
+      (dataQualityService.hasRule as jest.Mock).mockReturnValue(true);
+      (dataQualityService.getIssueCounts as jest.Mock).mockResolvedValue(rules);
+      (dataQualityService.getIssues as jest.Mock).mockResolvedValue({ issues: [], pagination });
+      req.query = { rule: 'movie-missing-runtime', contentType: 'movie', status: 'resolved', page: '2', limit: '10' };
+
+      await getContentIssues(req, res, next);
+
+      expect(dataQualityService.getIssues).toHaveBeenCalledWith(
+        { rule: 'movie-missing-runtime', contentType: 'movie', status: 'resolved' },
+        2,
+        10,
+        10,
+      );
+    });
+
+    it('should return 400 for an unknown rule', async () => {
+      (dataQualityService.hasRule as jest.Mock).mockReturnValue(false);
+      req.query = { rule: 'nope' };
+
+      await getContentIssues(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: "Unknown data-quality rule 'nope'" });
+    });
+
+    it('should return 400 for an invalid contentType or status', async () => {
+      req.query = { contentType: 'person' };
+      await getContentIssues(req, res, next);
+
+      req.query = { status: 'ignored' };
+      await getContentIssues(req, res, next);
+
+      expect(res.status).toHaveBeenNthCalledWith(1, 400);
+      expect(res.status).toHaveBeenNthCalledWith(2, 400);
+      expect(dataQualityService.getIssues).not.toHaveBeenCalled();
+    });
+
+    it('should pass errors to next', async () => {
+      const error = new Error('db down');
+      (dataQualityService.getIssueCounts as jest.Mock).mockRejectedValue(error);
+      (dataQualityService.getIssues as jest.Mock).mockResolvedValue({ issues: [], pagination });
+
+      await getContentIssues(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('fixContentIssue', () => {
+    it('should fix the issue and record audit details', async () => {
+      const fixed = { ...issue, status: 'resolved' };
+      (dataQualityService.fixIssue as jest.Mock).mockResolvedValue({ outcome: 'fixed', issue: fixed });
+      req.params = { issueId: '4' };
+
+      await fixContentIssue(req, res, next);
+
+      expect(dataQualityService.fixIssue).toHaveBeenCalledWith(4, { uid: 'admin-1', email: 'admin@example.com' });
+      expect(res.locals.auditDetails).toEqual({ rule: 'movie-missing-runtime', contentType: 'movie', contentId: 17 });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Fixed content issue 4', result: fixed });
+    });
+
+    it('should return 400 for an invalid id', async () => {
+      req.params = { issueId: 'abc' };
+
+      await fixContentIssue(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(dataQualityService.fixIssue).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [{ outcome: 'not_found' }, 404, 'Content issue 4 not found'],
+      [{ outcome: 'not_open', issue }, 409, 'Content issue 4 is already resolved'],
+      [{ outcome: 'not_fixable', issue }, 409, "Rule 'movie-missing-runtime' has no automatic fix"],
+    ])('should map %p to %p', async (result, status, error) => {
+      (dataQualityService.fixIssue as jest.Mock).mockResolvedValue(result);
+      req.params = { issueId: '4' };
+
+      await fixContentIssue(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(status);
+      expect(res.json).toHaveBeenCalledWith({ error });
+      expect(res.locals.auditDetails).toBeUndefined();
+    });
+
+    it('should pass fix failures to next', async () => {
+      const error = new Error('TMDB unavailable');
+      (dataQualityService.fixIssue as jest.Mock).mockRejectedValue(error);
+      req.params = { issueId: '4' };
+
+      await fixContentIssue(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+});
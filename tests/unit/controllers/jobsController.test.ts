@@ -7,6 +7,7 @@ import {
   updateJobSchedule,
 } from '@ajgifford/keepwatching-common-server/services';
 import { executeJob, getSchedule, getStatus, pauseAll, resumeAll, updateSchedule } from '@controllers/jobsController';
+import { adminJobsService } from '@services/AdminJobsService';
 
 jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
   getJobsStatus: jest.fn(),
@@ -17,6 +18,18 @@ jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
   getJobSchedule: jest.fn(),
 }));
 
+jest.mock('@services/AdminJobsService', () => ({
+  adminJobsService: {
+    getStatus: jest.fn(),
+    pause: jest.fn(),
+    resume: jest.fn(),
+    hasJob: jest.fn(),
+    execute: jest.fn(),
+    updateSchedule: jest.fn(),
+    getSchedule: jest.fn(),
+  },
+}));
+
 describe('JobsController', () => {
   let req: any, res: any, next: jest.Mock<any, any>;
 
@@ -32,6 +45,8 @@ describe('JobsController', () => {
     next = jest.fn();
 
     jest.clearAllMocks();
+    (adminJobsService.getStatus as jest.Mock).mockReturnValue([]);
+    (adminJobsService.hasJob as jest.Mock).mockImplementation((name: string) => name === 'trashPurge');
   });
 
   describe('getStatus', () => {
@@ -50,6 +65,17 @@ describe('JobsController', () => {
       expect(res.json).toHaveBeenCalledWith(mockStatuses);
     });
 
+    it('should include admin job statuses after the shared job statuses', async () => {
+      const sharedStatuses = [{ name: 'showsUpdate', status: 'idle' }];
+      const adminStatuses = [{ name: 'trashPurge', isRunning: false }];
+      (getJobsStatus as jest.Mock).mockReturnValue(sharedStatuses);
+      (adminJobsService.getStatus as jest.Mock).mockReturnValue(adminStatuses);
+
+      await getStatus(req, res, next);
+
+      expect(res.json).toHaveBeenCalledWith([...sharedStatuses, ...adminStatuses]);
+    });
+
     it('should handle errors', async () => {
       const error = new Error('Failed to get job statuses');
       (getJobsStatus as jest.Mock).mockImplementation(() => {
@@ -69,6 +95,7 @@ describe('JobsController', () => {
       await pauseAll(req, res, next);
 
       expect(pauseJobs).toHaveBeenCalled();
+      expect(adminJobsService.pause).toHaveBeenCalled();
       expect(res.status).toHaveBeenCalledWith(200);
     });
 
@@ -91,6 +118,7 @@ describe('JobsController', () => {
       await resumeAll(req, res, next);
 
       expect(resumeJobs).toHaveBeenCalled();
+      expect(adminJobsService.resume).toHaveBeenCalled();
       expect(res.status).toHaveBeenCalledWith(200);
     });
 
@@ -162,6 +190,17 @@ describe('JobsController', () => {
       expect(res.json).toHaveBeenCalledWith({ message: 'Job performanceArchive started' });
     });
 
+    it('should execute an admin job', async () => {
+      req.query = { jobName: 'trashPurge' };
+
+      await executeJob(req, res, next);
+
+      expect(adminJobsService.execute).toHaveBeenCalledWith('trashPurge');
+      expect(manuallyExecuteJob).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(202);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Job trashPurge started' });
+    });
+
     it('should return 400 when jobName is missing', async () => {
       req.query = {};
 
@@ -228,6 +267,33 @@ describe('JobsController', () => {
       expect(res.status).toHaveBeenCalledWith(200);
     });
 
+    it('should update the schedule of an admin job', async () => {
+      req.query = { jobName: 'trashPurge' };
+      req.body = { cronExpression: '0 4 * * *' };
+      (adminJobsService.updateSchedule as jest.Mock).mockReturnValue(true);
+
+      await updateSchedule(req, res, next);
+
+      expect(adminJobsService.updateSchedule).toHaveBeenCalledWith('trashPurge', '0 4 * * *');
+      expect(updateJobSchedule).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Updated schedule for trashPurge',
+        cronExpression: '0 4 * * *',
+      });
+    });
+
+    it('should return 400 when an admin job cron expression is invalid', async () => {
+      req.query = { jobName: 'trashPurge' };
+      req.body = { cronExpression: 'not a cron' };
+      (adminJobsService.updateSchedule as jest.Mock).mockReturnValue(false);
+
+      await updateSchedule(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Invalid cron expression' });
+    });
+
     it('should return 400 when jobName is missing', async () => {
       req.query = {};
       req.body = { cronExpression: '0 2 * * *' };
@@ -348,6 +414,17 @@ describe('JobsController', () => {
       expect(res.status).toHaveBeenCalledWith(200);
     });
 
+    it('should return the schedule of an admin job', async () => {
+      req.query = { jobName: 'trashPurge' };
+      (adminJobsService.getSchedule as jest.Mock).mockReturnValue('0 3 * * *');
+
+      await getSchedule(req, res, next);
+
+      expect(getJobSchedule).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ jobName: 'trashPurge', cronExpression: '0 3 * * *' });
+    });
+
     it('should return 400 when jobName is missing', async () => {
       req.query = {};
 
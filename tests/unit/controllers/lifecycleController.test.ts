@@ -0,0 +1,103 @@
+import { getAccountLifecycle } from '@controllers/lifecycleController';
+import { accountLifecycleService } from '@services/AccountLifecycleService';
+
+jest.mock('@services/AccountLifecycleService', () => ({
+  accountLifecycleService: {
+    getLifecycleState: jest.fn(),
+  },
+}));
+
+describe('LifecycleController', () => {
+  let req: any, res: any, next: jest.Mock;
+
+  beforeEach(() => {
+    req = { query: {}, params: {}, user: { uid: 'admin-1', email: 'admin@example.com' } };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+      locals: {},
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('getAccountLifecycle', () => {
+    const lifecycle = {
+      summary: { stages: { active: 3, dormant: 1, at_risk: 0, abandoned: 1 }, flaggedForDeletionReview: 1 },
+      thresholds: {
+        dormantDays: 30,
+        atRiskDays: 60,
+        abandonedDays: 120,
+        atRiskAbandonmentRate: 50,
+        deletionReviewDays: 180,
+      },
+      reengagementStages: ['dormant', 'at_risk', 'abandoned'],
+      lastRun: null,
+      accounts: [{ accountId: 7, stage: 'abandoned' }],
+      pagination: { totalCount: 1, totalPages: 1, currentPage: 1, limit: 50, hasNextPage: false, hasPrevPage: false },
+    };
+
+    it('should return the pipeline state', async () => {
+      (accountLifecycleService.getLifecycleState as jest.Mock).mockResolvedValue(lifecycle);
+
+      await getAccountLifecycle(req, res, next);
+
+      expect(accountLifecycleService.getLifecycleState).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved page 1 of account lifecycle state',
+        summary: lifecycle.summary,
+        thresholds: lifecycle.thresholds,
+        reengagementStages: lifecycle.reengagementStages,
+        lastRun: null,
+        pagination: lifecycle.pagination,
+        results: lifecycle.accounts,
+      });
+    });
+
+    it('should pass filters and pagination', async () => {
+      (accountLifecycleService.getLifecycleState as jest.Mock).mockResolvedValue(lifecycle);
+      req.query = { stage: 'dormant', flagged: 'true', page: '3', limit: '20' };
+
+      await getAccountLifecycle(req, res, next);
+
+      expect(accountLifecycleService.getLifecycleState).toHaveBeenCalledWith(
+        { stage: 'dormant', flaggedForDeletionReview: true },
+        3,
+        40,
+        20,
+      );
+    });
+
+    it('should return 400 for an invalid stage', async () => {
+      req.query = { stage: 'sleeping' };
+
+      await getAccountLifecycle(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Invalid stage. Must be one of: active, dormant, at_risk, abandoned',
+      });
+      expect(accountLifecycleService.getLifecycleState).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid flagged value', async () => {
+      req.query = { flagged: 'yes' };
+
+      await getAccountLifecycle(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(accountLifecycleService.getLifecycleState).not.toHaveBeenCalled();
+    });
+
+    it('should pass errors to next', async () => {
+      const error = new Error('db down');
+      (accountLifecycleService.getLifecycleState as jest.Mock).mockRejectedValue(error);
+
+      await getAccountLifecycle(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+});
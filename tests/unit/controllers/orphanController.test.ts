@@ -0,0 +1,201 @@
+import { getOrphanCleanupRun, getOrphanCleanupRuns, getOrphans, runOrphanCleanup } from '@controllers/orphanController';
+import { orphanCleanupService } from '@services/OrphanCleanupService';
+
+jest.mock('@services/OrphanCleanupService', () => ({
+  orphanCleanupService: {
+    getOrphans: jest.fn(),
+    runCleanup: jest.fn(),
+    getRuns: jest.fn(),
+    getRun: jest.fn(),
+  },
+}));
+
+describe('OrphanController', () => {
+  let req: any, res: any, next: jest.Mock;
+
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+  const counts = { show: 1, movie: 0, season: 0, episode: 0, person: 0 };
+  const orphan = {
+    contentType: 'show',
+    contentId: 7,
+    title: 'Firefly',
+    orphanedSince: '2026-01-01T00:00:00.000Z',
+    archivedAt: null,
+  };
+  const run = {
+    id: 4,
+    mode: 'archive',
+    dryRun: true,
+    graceDays: 30,
+    detected: counts,
+    actioned: counts,
+    items: [],
+    unarchived: 0,
+    triggeredBy: admin,
+    startedAt: '2026-03-01T06:00:00.000Z',
+    finishedAt: '2026-03-01T06:00:02.000Z',
+  };
+  const pagination = {
+    totalCount: 1,
+    totalPages: 1,
+    currentPage: 1,
+    limit: 50,
+    hasNextPage: false,
+    hasPrevPage: false,
+  };
+
+  beforeEach(() => {
+    req = { query: {}, params: {}, body: {}, user: admin };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+      locals: {},
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+    (orphanCleanupService.getOrphans as jest.Mock).mockResolvedValue({ counts, orphans: [orphan], pagination });
+    (orphanCleanupService.runCleanup as jest.Mock).mockResolvedValue(run);
+    (orphanCleanupService.getRuns as jest.Mock).mockResolvedValue({ runs: [run], pagination });
+  });
+
+  describe('getOrphans', () => {
+    it('should return the counts and a page of orphans', async () => {
+      await getOrphans(req, res, next);
+
+      expect(orphanCleanupService.getOrphans).toHaveBeenCalledWith({}, 1, 0, 50);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved page 1 of orphaned content',
+        counts,
+        pagination,
+        results: [orphan],
+      });
+    });
+
+    it('should filter by content type and page', async () => {
+      req.query = { contentType: 'person', page: '2', limit: '20' };
+
+      await getOrphans(req, res, next);
+
+      expect(orphanCleanupService.getOrphans).toHaveBeenCalledWith({ contentType: 'person' }, 2, 20, 20);
+    });
+
+    it('should return 400 for an invalid content type', async () => {
+      req.query = { contentType: 'genre' };
+
+      await getOrphans(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Invalid contentType. Must be one of: show, movie, season, episode, person',
+      });
+      expect(orphanCleanupService.getOrphans).not.toHaveBeenCalled();
+    });
+
+    it('should call next with error when service throws', async () => {
+      const error = new Error('Database error');
+      (orphanCleanupService.getOrphans as jest.Mock).mockRejectedValue(error);
+
+      await getOrphans(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('runOrphanCleanup', () => {
+    it('should default to a dry run and audit it', async () => {
+      await runOrphanCleanup(req, res, next);
+
+      expect(orphanCleanupService.runCleanup).toHaveBeenCalledWith({ dryRun: true, admin });
+      expect(res.locals.auditDetails).toEqual({ runId: 4, mode: 'archive', dryRun: true, actioned: counts });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Orphan cleanup dry run completed', run });
+    });
+
+    it('should run a real cleanup in the requested mode', async () => {
+      req.body = { dryRun: false, mode: 'remove' };
+      (orphanCleanupService.runCleanup as jest.Mock).mockResolvedValue({ ...run, mode: 'remove', dryRun: false });
+
+      await runOrphanCleanup(req, res, next);
+
+      expect(orphanCleanupService.runCleanup).toHaveBeenCalledWith({ dryRun: false, mode: 'remove', admin });
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'Orphan cleanup completed' }));
+    });
+
+    it('should return 400 for an invalid mode', async () => {
+      req.body = { mode: 'purge' };
+
+      await runOrphanCleanup(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'mode must be one of: archive, remove' });
+      expect(orphanCleanupService.runCleanup).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for unknown fields', async () => {
+      req.body = { dryRun: false, force: true };
+
+      await runOrphanCleanup(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(orphanCleanupService.runCleanup).not.toHaveBeenCalled();
+    });
+
+    it('should call next with error when service throws', async () => {
+      const error = new Error('Database error');
+      (orphanCleanupService.runCleanup as jest.Mock).mockRejectedValue(error);
+
+      await runOrphanCleanup(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('getOrphanCleanupRuns', () => {
+    it('should return a page of runs', async () => {
+      req.query = { page: '2', limit: '10' };
+
+      await getOrphanCleanupRuns(req, res, next);
+
+      expect(orphanCleanupService.getRuns).toHaveBeenCalledWith(2, 10, 10);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved page 2 of orphan cleanup runs',
+        pagination,
+        results: [run],
+      });
+    });
+  });
+
+  describe('getOrphanCleanupRun', () => {
+    it('should return the run', async () => {
+      req.params = { runId: '4' };
+      (orphanCleanupService.getRun as jest.Mock).mockResolvedValue(run);
+
+      await getOrphanCleanupRun(req, res, next);
+
+      expect(orphanCleanupService.getRun).toHaveBeenCalledWith(4);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Retrieved orphan cleanup run 4', run });
+    });
+
+    it('should return 404 for an unknown run', async () => {
+      req.params = { runId: '99' };
+      (orphanCleanupService.getRun as jest.Mock).mockResolvedValue(null);
+
+      await getOrphanCleanupRun(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Orphan cleanup run 99 not found' });
+    });
+
+    it('should return 400 for an invalid run id', async () => {
+      req.params = { runId: 'abc' };
+
+      await getOrphanCleanupRun(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(orphanCleanupService.getRun).not.toHaveBeenCalled();
+    });
+  });
+});
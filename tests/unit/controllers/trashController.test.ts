@@ -0,0 +1,150 @@
+import { getTrash, restoreTrashEntry } from '@controllers/trashController';
+import { trashService } from '@services/TrashService';
+
+jest.mock('@services/TrashService', () => ({
+  trashService: {
+    getTrash: jest.fn(),
+    restore: jest.fn(),
+  },
+}));
+
+describe('TrashController', () => {
+  let req: any, res: any, next: jest.Mock;
+
+  beforeEach(() => {
+    req = { query: {}, params: {}, user: { uid: 'admin-1', email: 'admin@example.com' } };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+      locals: {},
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  describe('getTrash', () => {
+    const pagination = {
+      totalCount: 1,
+      totalPages: 1,
+      currentPage: 1,
+      limit: 50,
+      hasNextPage: false,
+      hasPrevPage: false,
+    };
+
+    it('should default to trashed entries', async () => {
+      const entries = [{ id: 1, entityType: 'profile' }];
+      (trashService.getTrash as jest.Mock).mockResolvedValue({ entries, pagination });
+
+      await getTrash(req, res, next);
+
+      expect(trashService.getTrash).toHaveBeenCalledWith({ status: 'trashed' }, 1, 0, 50);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Retrieved page 1 of trash entries',
+        pagination,
+        results: entries,
+      });
+    });
+
+    it('should pass filters and pagination', async () => {
+      (trashService.getTrash as jest.Mock).mockResolvedValue({ entries: [], pagination });
+      req.query = { entityType: 'account', status: 'purged', accountId: '4', page: '2', limit: '10' };
+
+      await getTrash(req, res, next);
+
+      expect(trashService.getTrash).toHaveBeenCalledWith(
+        { entityType: 'account', status: 'purged', accountId: 4 },
+        2,
+        10,
+        10,
+      );
+    });
+
+    it('should return 400 for an invalid entityType', async () => {
+      req.query = { entityType: 'show' };
+
+      await getTrash(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Invalid entityType. Must be one of: account, profile' });
+      expect(trashService.getTrash).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid status', async () => {
+      req.query = { status: 'gone' };
+
+      await getTrash(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Invalid status. Must be one of: trashed, restored, purged' });
+    });
+
+    it('should call next on error', async () => {
+      const error = new Error('db down');
+      (trashService.getTrash as jest.Mock).mockRejectedValue(error);
+
+      await getTrash(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('restoreTrashEntry', () => {
+    const entry = { id: 5, entityType: 'profile', entityId: 12, accountId: 3, status: 'restored' };
+
+    it('should restore the entry', async () => {
+      req.params = { trashId: '5' };
+      (trashService.restore as jest.Mock).mockResolvedValue({ outcome: 'restored', entry });
+
+      await restoreTrashEntry(req, res, next);
+
+      expect(trashService.restore).toHaveBeenCalledWith(5, { uid: 'admin-1', email: 'admin@example.com' });
+      expect(res.locals.auditDetails).toEqual({ restoredEntityType: 'profile', restoredEntityId: 12 });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Restored profile 12', result: entry });
+    });
+
+    it('should return 400 for a non-numeric id', async () => {
+      req.params = { trashId: 'abc' };
+
+      await restoreTrashEntry(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(trashService.restore).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the entry does not exist', async () => {
+      req.params = { trashId: '5' };
+      (trashService.restore as jest.Mock).mockResolvedValue({ outcome: 'not_found' });
+
+      await restoreTrashEntry(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Trash entry 5 not found' });
+    });
+
+    it('should return 409 when the entry is no longer in the trash', async () => {
+      req.params = { trashId: '5' };
+      (trashService.restore as jest.Mock).mockResolvedValue({ outcome: 'not_trashed', entry });
+
+      await restoreTrashEntry(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Trash entry 5 has already been restored' });
+    });
+
+    it('should return 409 when the profile account is still trashed', async () => {
+      req.params = { trashId: '5' };
+      (trashService.restore as jest.Mock).mockResolvedValue({ outcome: 'account_trashed', entry });
+
+      await restoreTrashEntry(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Account 3 is in the trash, restore the account before its profiles',
+      });
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import {
+  countAccountList,
+  getAccountListEntries,
+  getAccountListPage,
+  getAccountListStats,
+  getAccountsByIds,
+  getFirstProfileId,
+} from '@db/accountsDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('accountsDb', () => {
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+  });
+
+  describe('getAccountsByIds', () => {
+    it('should return active accounts for the ids', async () => {
+      mockPool.query.mockResolvedValue([
+        [{ account_id: 1, account_name: 'Jo', email: 'jo@example.com', uid: 'uid-1', default_profile_id: 10 }],
+      ]);
+
+      const accounts = await getAccountsByIds([1, 2]);
+
+      const [query, values] = mockPool.query.mock.calls[0];
+      expect(query).toContain('account_id IN (?) AND deleted_at IS NULL');
+      expect(values).toEqual([[1, 2]]);
+      expect(accounts).toEqual([
+        { accountId: 1, name: 'Jo', email: 'jo@example.com', uid: 'uid-1', defaultProfileId: 10 },
+      ]);
+    });
+
+    it('should not query for an empty list', async () => {
+      expect(await getAccountsByIds([])).toEqual([]);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getFirstProfileId', () => {
+    it('should return the oldest active profile', async () => {
+      mockPool.execute.mockResolvedValue([[{ profile_id: 10 }]]);
+
+      expect(await getFirstProfileId(1)).toBe(10);
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([1]);
+    });
+
+    it('should return null when the account has no profiles', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      expect(await getFirstProfileId(1)).toBeNull();
+    });
+  });
+
+  describe('getAccountListStats', () => {
+    it('should map profile counts and trash state by account id', async () => {
+      mockPool.execute.mockResolvedValue([
+        [
+          { account_id: 1, is_deleted: 0, profile_count: 2 },
+          { account_id: 2, is_deleted: 1, profile_count: '0' },
+        ],
+      ]);
+
+      const stats = await getAccountListStats();
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain('p.deleted_at IS NULL');
+      expect(stats.get(1)).toEqual({ profileCount: 2, isDeleted: false });
+      expect(stats.get(2)).toEqual({ profileCount: 0, isDeleted: true });
+    });
+  });
+
+  describe('getAccountListPage', () => {
+    const row = {
+      account_id: 3,
+      account_name: 'Carol',
+      email: 'carol@example.com',
+      uid: 'uid-3',
+      created_at: new Date('2024-02-01T00:00:00Z'),
+      profile_count: '5',
+    };
+
+    it('should search, filter, sort and page in SQL outside the trash', async () => {
+      mockPool.query.mockResolvedValue([[row]]);
+
+      const entries = await getAccountListPage(
+        { search: '50%_off', hasProfiles: true, sortBy: 'name', sortOrder: 'asc' },
+        'name',
+        25,
+        50,
+      );
+
+      const [query, values] = mockPool.query.mock.calls[0];
+      expect(query).toContain('a.deleted_at IS NULL');
+      expect(query).toContain('p.deleted_at IS NULL');
+      expect(query).toContain('(a.account_name LIKE ? OR a.email LIKE ? OR a.uid LIKE ?)');
+      expect(query).toContain('HAVING profile_count > 0');
+      expect(query).toContain('ORDER BY a.account_name IS NULL, a.account_name ASC, a.account_id');
+      expect(values).toEqual(['%50\\%\\_off%', '%50\\%\\_off%', '%50\\%\\_off%', 25, 50]);
+      expect(entries).toEqual([
+        {
+          accountId: 3,
+          name: 'Carol',
+          email: 'carol@example.com',
+          uid: 'uid-3',
+          createdAt: '2024-02-01T00:00:00.000Z',
+          profileCount: 5,
+        },
+      ]);
+    });
+
+    it('should sort by profile count and creation time', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await getAccountListPage(
+        { hasProfiles: false, sortBy: 'profileCount', sortOrder: 'desc' },
+        'profileCount',
+        50,
+        0,
+      );
+      await getAccountListPage({ sortBy: 'createdAt', sortOrder: 'desc' }, 'createdAt', 50, 0);
+
+      expect(mockPool.query.mock.calls[0][0]).toContain('HAVING profile_count = 0');
+      expect(mockPool.query.mock.calls[0][0]).toContain('ORDER BY profile_count IS NULL, profile_count DESC');
+      expect(mockPool.query.mock.calls[1][0]).not.toContain('HAVING');
+      expect(mockPool.query.mock.calls[1][0]).toContain('ORDER BY a.created_at IS NULL, a.created_at DESC');
+      expect(mockPool.query.mock.calls[1][1]).toEqual([50, 0]);
+    });
+  });
+
+  describe('getAccountListEntries', () => {
+    it('should return every matching account without paging', async () => {
+      mockPool.query.mockResolvedValue([[{ account_id: 1, account_name: 'Jo', created_at: null, profile_count: 0 }]]);
+
+      const entries = await getAccountListEntries({ search: 'jo', sortBy: 'lastLogin', sortOrder: 'desc' });
+
+      expect(mockPool.query.mock.calls[0][0]).not.toContain('LIMIT');
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['%jo%', '%jo%', '%jo%']);
+      expect(entries[0]).toMatchObject({ accountId: 1, createdAt: null, profileCount: 0 });
+    });
+  });
+
+  describe('countAccountList', () => {
+    it('should count the matching accounts', async () => {
+      mockPool.query.mockResolvedValue([[{ total: 12 }]]);
+
+      expect(await countAccountList({ hasProfiles: true, sortBy: 'name', sortOrder: 'asc' })).toBe(12);
+      expect(mockPool.query.mock.calls[0][0]).toMatch(/^SELECT COUNT\(\*\) AS total FROM \(SELECT/);
+      expect(mockPool.query.mock.calls[0][0]).toContain('HAVING profile_count > 0');
+    });
+  });
+});
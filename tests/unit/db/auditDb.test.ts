@@ -0,0 +1,122 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { createAuditEntry, getAuditEntries, getAuditEntryCount } from '@db/auditDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('auditDb', () => {
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+  });
+
+  describe('createAuditEntry', () => {
+    it('should insert the entry and return the new id', async () => {
+      mockPool.execute.mockResolvedValue([{ insertId: 42 }]);
+
+      const id = await createAuditEntry({
+        adminUid: 'admin-1',
+        adminEmail: null,
+        adminRole: 'support',
+        method: 'PUT',
+        route: '/api/v1/accounts/:accountId',
+        action: 'update',
+        entityType: 'account',
+        entityId: '12',
+        params: { accountId: '12' },
+        bodySummary: { name: 'New' },
+        details: null,
+        statusCode: 200,
+        durationMs: 8,
+      });
+
+      expect(id).toBe(42);
+      const [query, values] = mockPool.execute.mock.calls[0];
+      expect(query).toContain('INSERT INTO admin_audit_log');
+      expect(values).toEqual([
+        'admin-1',
+        null,
+        'support',
+        'PUT',
+        '/api/v1/accounts/:accountId',
+        'update',
+        'account',
+        '12',
+        '{"accountId":"12"}',
+        '{"name":"New"}',
+        null,
+        200,
+        8,
+      ]);
+    });
+  });
+
+  describe('getAuditEntries', () => {
+    it('should build filters and transform rows', async () => {
+      const createdAt = new Date('2026-03-01T10:00:00Z');
+      mockPool.query.mockResolvedValue([
+        [
+          {
+            id: 1,
+            admin_uid: 'admin-1',
+            admin_email: 'admin@example.com',
+            admin_role: 'superadmin',
+            method: 'DELETE',
+            route: '/api/v1/accounts/:accountId',
+            action: 'delete',
+            entity_type: 'account',
+            entity_id: '12',
+            params: '{"accountId":"12"}',
+            body_summary: null,
+            details: { note: 'spam' },
+            status_code: 200,
+            duration_ms: 20,
+            created_at: createdAt,
+          },
+        ],
+      ]);
+
+      const entries = await getAuditEntries({ admin: 'admin@example.com', action: 'delete' }, 50, 0);
+
+      const [query, values] = mockPool.query.mock.calls[0];
+      expect(query).toContain('WHERE (admin_uid = ? OR admin_email = ?) AND action = ?');
+      expect(values).toEqual(['admin@example.com', 'admin@example.com', 'delete', 50, 0]);
+      expect(entries).toEqual([
+        {
+          id: 1,
+          adminUid: 'admin-1',
+          adminEmail: 'admin@example.com',
+          adminRole: 'superadmin',
+          method: 'DELETE',
+          route: '/api/v1/accounts/:accountId',
+          action: 'delete',
+          entityType: 'account',
+          entityId: '12',
+          params: { accountId: '12' },
+          bodySummary: null,
+          details: { note: 'spam' },
+          statusCode: 200,
+          durationMs: 20,
+          createdAt: createdAt.toISOString(),
+        },
+      ]);
+    });
+  });
+
+  describe('getAuditEntryCount', () => {
+    it('should count all entries when no filters are given', async () => {
+      mockPool.query.mockResolvedValue([[{ total: 7 }]]);
+
+      const count = await getAuditEntryCount({});
+
+      expect(mockPool.query).toHaveBeenCalledWith('SELECT COUNT(*) AS total FROM admin_audit_log ', []);
+      expect(count).toBe(7);
+    });
+  });
+});
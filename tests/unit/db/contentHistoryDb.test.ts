@@ -0,0 +1,160 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import {
+  addContentChanges,
+  getContentChangeCount,
+  getContentChanges,
+  getContentIdsToCapture,
+  getMovieSnapshot,
+  getShowSnapshot,
+  getStoredSnapshot,
+  saveSnapshot,
+} from '@db/contentHistoryDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('contentHistoryDb', () => {
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+  });
+
+  describe('getShowSnapshot', () => {
+    it('should read the tracked fields, seasons and episodes', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[{ title: 'Severance', status: 'Ended', network: 'Apple TV+', type: 'Scripted' }]])
+        .mockResolvedValueOnce([[{ season_number: 1 }, { season_number: 2 }]])
+        .mockResolvedValueOnce([
+          [{ id: 101, season_number: 1, episode_number: 1, title: 'Good News About Hell', air_date: '2022-02-18' }],
+        ]);
+
+      const snapshot = await getShowSnapshot(10);
+
+      expect(mockPool.execute.mock.calls[2][0]).toContain('CAST(air_date AS CHAR)');
+      expect(snapshot).toEqual({
+        fields: { title: 'Severance', status: 'Ended', network: 'Apple TV+', type: 'Scripted' },
+        seasons: [1, 2],
+        episodes: [
+          { id: 101, seasonNumber: 1, episodeNumber: 1, title: 'Good News About Hell', airDate: '2022-02-18' },
+        ],
+      });
+    });
+
+    it('should return null for an unknown show', async () => {
+      mockPool.execute.mockResolvedValueOnce([[]]);
+
+      expect(await getShowSnapshot(99)).toBeNull();
+      expect(mockPool.execute).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getMovieSnapshot', () => {
+    it('should read the tracked fields', async () => {
+      mockPool.execute.mockResolvedValue([
+        [{ title: 'Alien', release_date: '1979-05-25', runtime: 117, mpa_rating: 'R' }],
+      ]);
+
+      expect(await getMovieSnapshot(17)).toEqual({
+        fields: { title: 'Alien', releaseDate: '1979-05-25', runtime: 117, mpaRating: 'R' },
+      });
+    });
+  });
+
+  describe('getStoredSnapshot / saveSnapshot', () => {
+    it('should parse stored snapshots', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[{ snapshot: '{"fields":{"title":"Alien"}}' }]])
+        .mockResolvedValueOnce([[]]);
+
+      expect(await getStoredSnapshot('movie', 17)).toEqual({ fields: { title: 'Alien' } });
+      expect(await getStoredSnapshot('movie', 18)).toBeNull();
+    });
+
+    it('should upsert the snapshot as JSON', async () => {
+      mockPool.execute.mockResolvedValue([{}]);
+
+      await saveSnapshot('movie', 17, { fields: { title: 'Alien' } });
+
+      const [sql, params] = mockPool.execute.mock.calls[0];
+      expect(sql).toContain('ON DUPLICATE KEY UPDATE');
+      expect(params).toEqual(['movie', 17, '{"fields":{"title":"Alien"}}']);
+    });
+  });
+
+  describe('getContentIdsToCapture', () => {
+    it('should find content updated since its snapshot', async () => {
+      mockPool.execute.mockResolvedValue([[{ id: 10 }, { id: 11 }]]);
+
+      expect(await getContentIdsToCapture('show')).toEqual([10, 11]);
+      const [sql, params] = mockPool.execute.mock.calls[0];
+      expect(sql).toContain('FROM shows c');
+      expect(sql).toContain('c.updated_at > s.captured_at');
+      expect(params).toEqual(['show']);
+    });
+  });
+
+  describe('addContentChanges', () => {
+    it('should store the changes as JSON', async () => {
+      mockPool.execute.mockResolvedValue([{}]);
+      const changes = [{ type: 'season_added' as const, seasonNumber: 2 }];
+
+      await addContentChanges('show', 10, 'Severance', 'scheduled', changes);
+
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([
+        'show',
+        10,
+        'Severance',
+        'scheduled',
+        JSON.stringify(changes),
+      ]);
+    });
+  });
+
+  describe('getContentChanges / getContentChangeCount', () => {
+    it('should filter, page and transform changes', async () => {
+      mockPool.query.mockResolvedValue([
+        [
+          {
+            id: 1,
+            content_type: 'show',
+            content_id: 10,
+            title: 'Severance',
+            source: 'refresh',
+            changes: '[{"type":"season_added","seasonNumber":2}]',
+            detected_at: new Date('2026-01-01T00:00:00Z'),
+          },
+        ],
+      ]);
+
+      const result = await getContentChanges({ contentType: 'show', contentId: 10, since: '2025-12-01' }, 50, 0);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('WHERE content_type = ? AND content_id = ? AND detected_at >= ?');
+      expect(params).toEqual(['show', 10, '2025-12-01', 50, 0]);
+      expect(result).toEqual([
+        {
+          id: 1,
+          contentType: 'show',
+          contentId: 10,
+          title: 'Severance',
+          source: 'refresh',
+          changes: [{ type: 'season_added', seasonNumber: 2 }],
+          detectedAt: '2026-01-01T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should count without filters', async () => {
+      mockPool.query.mockResolvedValue([[{ total: 7 }]]);
+
+      expect(await getContentChangeCount({})).toBe(7);
+      expect(mockPool.query).toHaveBeenCalledWith('SELECT COUNT(*) AS total FROM admin_content_changes ', []);
+    });
+  });
+});
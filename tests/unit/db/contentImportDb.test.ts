@@ -0,0 +1,288 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { findContentIdByTmdbId, saveImportedMovie, saveImportedShow } from '@db/contentImportDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('contentImportDb', () => {
+  const mockConnection = {
+    execute: jest.fn(),
+    beginTransaction: jest.fn(),
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    release: jest.fn(),
+  };
+  const mockPool = {
+    execute: jest.fn(),
+    getConnection: jest.fn(),
+  };
+
+  const castMember = {
+    id: 17419,
+    name: 'Bryan Cranston',
+    gender: 2,
+    profile_path: '/cranston.jpg',
+    character: 'Walter White',
+    credit_id: 'credit-1',
+    order: 0,
+  };
+
+  const movie = {
+    id: 348,
+    title: 'Alien',
+    overview: null,
+    release_date: null,
+    runtime: null,
+    poster_path: null,
+    backdrop_path: null,
+    vote_average: null,
+    genres: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+    mockPool.getConnection.mockResolvedValue(mockConnection);
+  });
+
+  describe('findContentIdByTmdbId', () => {
+    it('should return the id of the imported content', async () => {
+      mockPool.execute.mockResolvedValue([[{ id: 7 }]]);
+
+      expect(await findContentIdByTmdbId('movie', 348)).toBe(7);
+      expect(mockPool.execute).toHaveBeenCalledWith('SELECT id FROM movies WHERE tmdb_id = ? LIMIT 1', [348]);
+    });
+
+    it('should return null when the content has not been imported', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      expect(await findContentIdByTmdbId('show', 1396)).toBeNull();
+    });
+  });
+
+  describe('saveImportedShow', () => {
+    it('should save the show, its seasons, episodes and cast in one transaction', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[]])
+        .mockResolvedValueOnce([{ insertId: 42 }])
+        .mockResolvedValueOnce([{}])
+        .mockResolvedValueOnce([{}])
+        .mockResolvedValueOnce([{ insertId: 420 }])
+        .mockResolvedValueOnce([{ insertId: 4200 }])
+        .mockResolvedValueOnce([{ insertId: 5 }])
+        .mockResolvedValueOnce([{}]);
+
+      const saved = await saveImportedShow(
+        {
+          id: 1396,
+          name: 'Breaking Bad',
+          overview: 'A chemistry teacher',
+          first_air_date: '2008-01-20',
+          last_air_date: '',
+          poster_path: '/poster.jpg',
+          backdrop_path: null,
+          vote_average: 8.9,
+          status: 'Ended',
+          type: 'Scripted',
+          in_production: false,
+          number_of_seasons: 1,
+          number_of_episodes: 1,
+          networks: [{ name: 'AMC' }],
+          genres: [{ id: 18, name: 'Drama' }],
+          seasons: [
+            {
+              id: 3572,
+              season_number: 1,
+              name: 'Season 1',
+              overview: null,
+              air_date: '2008-01-20',
+              poster_path: null,
+              episode_count: 1,
+            },
+          ],
+          credits: { cast: [castMember] },
+          'watch/providers': {
+            results: {
+              US: { flatrate: [{ provider_id: 8, provider_name: 'Netflix' }] },
+              GB: { flatrate: [{ provider_id: 9, provider_name: 'Amazon Prime Video' }] },
+            },
+          },
+        },
+        [
+          {
+            id: 3572,
+            season_number: 1,
+            episodes: [
+              {
+                id: 62085,
+                season_number: 1,
+                episode_number: 1,
+                episode_type: 'standard',
+                name: 'Pilot',
+                overview: null,
+                air_date: '2008-01-20',
+                runtime: 58,
+                still_path: null,
+              },
+            ],
+          },
+        ],
+      );
+
+      expect(saved).toEqual({ id: 42, duplicate: false });
+      const calls = mockConnection.execute.mock.calls.slice(1);
+      expect(mockConnection.execute.mock.calls[0]).toEqual([
+        'SELECT id FROM shows WHERE tmdb_id = ? LIMIT 1 FOR UPDATE',
+        [1396],
+      ]);
+      expect(calls[0][0]).toContain('INSERT INTO shows');
+      expect(calls[0][0]).toContain('imported_at');
+      expect(calls[0][1]).toEqual([
+        1396,
+        'Breaking Bad',
+        'A chemistry teacher',
+        '2008-01-20',
+        '/poster.jpg',
+        null,
+        8.9,
+        'AMC',
+        1,
+        1,
+        'Ended',
+        'Scripted',
+        0,
+        null,
+      ]);
+      expect(calls[1]).toEqual([
+        'INSERT IGNORE INTO show_genres (show_id, genre_id) SELECT ?, id FROM genres WHERE id = ?',
+        [42, 18],
+      ]);
+      expect(calls[2][0]).toContain('INSERT IGNORE INTO show_services (show_id, streaming_service_id)');
+      expect(calls[2][0]).toContain('SELECT ?, id FROM streaming_services WHERE id = ?');
+      expect(calls[2][1]).toEqual([42, 8]);
+      expect(calls[3][0]).toContain('INSERT INTO seasons');
+      expect(calls[3][1]).toEqual([42, 3572, 'Season 1', '', 1, '2008-01-20', null, 1]);
+      expect(calls[4][0]).toContain('INSERT INTO episodes');
+      expect(calls[4][1]).toEqual([62085, 42, 420, 1, 1, 'standard', 'Pilot', '', '2008-01-20', 58, null]);
+      expect(calls[5][0]).toContain('ON DUPLICATE KEY UPDATE id = LAST_INSERT_ID(id)');
+      expect(calls[6][1]).toEqual([42, 5, 'credit-1', 'Walter White', 0]);
+      expect(calls).toHaveLength(7);
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+
+    it('should roll back when a write fails', async () => {
+      mockConnection.execute.mockRejectedValue(new Error('Duplicate entry'));
+
+      await expect(
+        saveImportedShow(
+          {
+            id: 1396,
+            name: 'Breaking Bad',
+            overview: null,
+            first_air_date: null,
+            last_air_date: null,
+            poster_path: null,
+            backdrop_path: null,
+            vote_average: null,
+            status: null,
+            type: null,
+            in_production: false,
+            number_of_seasons: 0,
+            number_of_episodes: 0,
+            networks: [],
+            genres: [],
+            seasons: [],
+          },
+          [],
+        ),
+      ).rejects.toThrow('Duplicate entry');
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('saveImportedMovie', () => {
+    it('should save the movie with its US certification and cast', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[]])
+        .mockResolvedValueOnce([{ insertId: 17 }])
+        .mockResolvedValueOnce([{}])
+        .mockResolvedValueOnce([{}])
+        .mockResolvedValueOnce([{ insertId: 5 }])
+        .mockResolvedValueOnce([{}]);
+
+      const saved = await saveImportedMovie({
+        id: 348,
+        title: 'Alien',
+        overview: 'In space no one can hear you scream',
+        release_date: '1979-05-25',
+        runtime: 117,
+        poster_path: '/alien.jpg',
+        backdrop_path: null,
+        vote_average: 8.1,
+        genres: [
+          { id: 27, name: 'Horror' },
+          { id: 878, name: 'Science Fiction' },
+        ],
+        credits: { cast: [castMember] },
+        release_dates: {
+          results: [
+            { iso_3166_1: 'GB', release_dates: [{ certification: '18' }] },
+            { iso_3166_1: 'US', release_dates: [{ certification: '' }, { certification: 'R' }] },
+          ],
+        },
+      });
+
+      expect(saved).toEqual({ id: 17, duplicate: false });
+      const calls = mockConnection.execute.mock.calls.slice(1);
+      expect(calls[0][1]).toEqual([
+        348,
+        'Alien',
+        'In space no one can hear you scream',
+        '1979-05-25',
+        117,
+        '/alien.jpg',
+        null,
+        8.1,
+        'R',
+      ]);
+      expect(calls[1][0]).toContain('INSERT IGNORE INTO movie_genres (movie_id, genre_id)');
+      expect(calls[1][1]).toEqual([17, 27]);
+      expect(calls[2][1]).toEqual([17, 878]);
+      expect(calls[4][0]).toContain('INSERT INTO movie_cast');
+      expect(calls[4][1]).toEqual([17, 5, 'credit-1', 'Walter White', 0]);
+      expect(calls).toHaveLength(5);
+    });
+
+    it('should not save a movie whose TMDB id already exists', async () => {
+      mockConnection.execute.mockResolvedValueOnce([[{ id: 9 }]]);
+
+      expect(await saveImportedMovie(movie)).toEqual({ id: 9, duplicate: true });
+      expect(mockConnection.execute).toHaveBeenCalledTimes(1);
+      expect(mockConnection.execute.mock.calls[0][0]).toBe(
+        'SELECT id FROM movies WHERE tmdb_id = ? LIMIT 1 FOR UPDATE',
+      );
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+
+    it('should report a duplicate when it loses a race with a concurrent import', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[]])
+        .mockRejectedValueOnce(Object.assign(new Error('Deadlock found'), { code: 'ER_LOCK_DEADLOCK' }));
+      mockPool.execute.mockResolvedValue([[{ id: 9 }]]);
+
+      expect(await saveImportedMovie(movie)).toEqual({ id: 9, duplicate: true });
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockPool.execute).toHaveBeenCalledWith('SELECT id FROM movies WHERE tmdb_id = ? LIMIT 1', [348]);
+    });
+
+    it('should rethrow a conflict when the movie still does not exist', async () => {
+      const error = Object.assign(new Error('Deadlock found'), { code: 'ER_LOCK_DEADLOCK' });
+      mockConnection.execute.mockResolvedValueOnce([[]]).mockRejectedValueOnce(error);
+      mockPool.execute.mockResolvedValue([[]]);
+
+      await expect(saveImportedMovie(movie)).rejects.toBe(error);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import {
+  applyOverrides,
+  contentExists,
+  episodeExists,
+  getAllOverrideTargets,
+  getOverrides,
+  getShowOverrideTargets,
+  getShowOverrides,
+  replaceOverrides,
+} from '@db/contentOverridesDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('contentOverridesDb', () => {
+  const mockConnection = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    beginTransaction: jest.fn(),
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    release: jest.fn(),
+  };
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    getConnection: jest.fn(),
+  };
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+
+  const overrideRow = (id: number, field: string, value: string, sourceValue: string | null) => ({
+    id,
+    content_type: 'movie',
+    content_id: 17,
+    field,
+    value,
+    source_value: sourceValue,
+    updated_at: new Date('2026-01-01T00:00:00Z'),
+    updated_by_uid: 'admin-1',
+    updated_by_email: 'admin@example.com',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+    mockPool.getConnection.mockResolvedValue(mockConnection);
+    mockConnection.query.mockResolvedValue([{}]);
+  });
+
+  describe('contentExists / episodeExists', () => {
+    it('should check the table of the content type', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ 1: 1 }]]).mockResolvedValueOnce([[]]);
+
+      expect(await contentExists('movie', 17)).toBe(true);
+      expect(await contentExists('show', 99)).toBe(false);
+      expect(mockPool.execute).toHaveBeenNthCalledWith(1, 'SELECT 1 FROM movies WHERE id = ?', [17]);
+      expect(mockPool.execute).toHaveBeenNthCalledWith(2, 'SELECT 1 FROM shows WHERE id = ?', [99]);
+    });
+
+    it('should only find episodes of the given show', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      expect(await episodeExists(10, 101)).toBe(false);
+      expect(mockPool.execute).toHaveBeenCalledWith('SELECT 1 FROM episodes WHERE id = ? AND show_id = ?', [101, 10]);
+    });
+  });
+
+  describe('getOverrides', () => {
+    it('should transform rows and return numeric fields as numbers', async () => {
+      mockPool.execute.mockResolvedValue([
+        [overrideRow(1, 'runtime', '118', '120'), overrideRow(2, 'title', 'Alien (Director’s Cut)', null)],
+      ]);
+
+      const result = await getOverrides('movie', 17);
+
+      expect(mockPool.execute.mock.calls[0][1]).toEqual(['movie', 17]);
+      expect(result).toEqual([
+        {
+          contentType: 'movie',
+          contentId: 17,
+          field: 'runtime',
+          value: 118,
+          sourceValue: 120,
+          updatedAt: '2026-01-01T00:00:00.000Z',
+          updatedBy: admin,
+        },
+        expect.objectContaining({ field: 'title', value: 'Alien (Director’s Cut)', sourceValue: null }),
+      ]);
+    });
+  });
+
+  describe('getShowOverrides / getShowOverrideTargets', () => {
+    it('should include the episodes of the show', async () => {
+      mockPool.execute.mockResolvedValueOnce([[]]).mockResolvedValueOnce([
+        [
+          { content_type: 'show', content_id: 10 },
+          { content_type: 'episode', content_id: 101 },
+        ],
+      ]);
+
+      await getShowOverrides(10);
+      const targets = await getShowOverrideTargets(10);
+
+      const [sql, params] = mockPool.execute.mock.calls[0];
+      expect(sql).toContain('SELECT id FROM episodes WHERE show_id = ?');
+      expect(params).toEqual([10, 10]);
+      expect(targets).toEqual([
+        { contentType: 'show', contentId: 10 },
+        { contentType: 'episode', contentId: 101 },
+      ]);
+    });
+  });
+
+  describe('getAllOverrideTargets', () => {
+    it('should return every overridden content item', async () => {
+      mockPool.execute.mockResolvedValue([[{ content_type: 'movie', content_id: 17 }]]);
+
+      expect(await getAllOverrideTargets()).toEqual([{ contentType: 'movie', contentId: 17 }]);
+    });
+  });
+
+  describe('replaceOverrides', () => {
+    it('should store new overrides with the current value as source and write them to the content', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[]])
+        .mockResolvedValueOnce([[{ title: 'Alien', runtime: '117', mpaRating: 'R' }]])
+        .mockResolvedValue([{}]);
+
+      await replaceOverrides('movie', 17, { runtime: 118 }, admin);
+
+      const insert = mockConnection.execute.mock.calls[2];
+      expect(insert[0]).toContain('INSERT INTO admin_content_overrides');
+      expect(insert[1]).toEqual(['movie', 17, 'runtime', '118', '117', 'admin-1', 'admin@example.com']);
+      expect(mockConnection.execute.mock.calls[3]).toEqual(['UPDATE movies SET runtime = ? WHERE id = ?', ['118', 17]]);
+      expect(mockConnection.query).not.toHaveBeenCalled();
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+
+    it('should delete overrides left out and restore their source value', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[overrideRow(1, 'runtime', '118', '117'), overrideRow(2, 'title', 'Alien!', 'Alien')]])
+        .mockResolvedValueOnce([[{ title: 'Alien!', runtime: '118' }]])
+        .mockResolvedValue([{}]);
+
+      await replaceOverrides('movie', 17, { title: 'Alien!' }, admin);
+
+      expect(mockConnection.query).toHaveBeenCalledWith('DELETE FROM admin_content_overrides WHERE id IN (?)', [[1]]);
+      expect(mockConnection.execute).toHaveBeenLastCalledWith('UPDATE movies SET runtime = ?, title = ? WHERE id = ?', [
+        '117',
+        'Alien!',
+        17,
+      ]);
+    });
+
+    it('should do nothing when the content no longer exists', async () => {
+      mockConnection.execute.mockResolvedValueOnce([[]]).mockResolvedValueOnce([[]]);
+
+      await replaceOverrides('movie', 17, { runtime: 118 }, admin);
+
+      expect(mockConnection.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should roll back when a write fails', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[]])
+        .mockResolvedValueOnce([[{ runtime: '117' }]])
+        .mockRejectedValueOnce(new Error('Deadlock'));
+
+      await expect(replaceOverrides('movie', 17, { runtime: 118 }, admin)).rejects.toThrow('Deadlock');
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('applyOverrides', () => {
+    it('should rewrite only the fields a refresh changed and record the new source value', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[overrideRow(1, 'runtime', '118', '117'), overrideRow(2, 'title', 'Alien!', 'Alien')]])
+        .mockResolvedValueOnce([[{ title: 'Alien!', runtime: '116' }]])
+        .mockResolvedValue([{}]);
+
+      const reapplied = await applyOverrides({ contentType: 'movie', contentId: 17 });
+
+      expect(reapplied).toBe(1);
+      expect(mockConnection.execute).toHaveBeenCalledWith(
+        'UPDATE admin_content_overrides SET source_value = ? WHERE id = ?',
+        ['116', 1],
+      );
+      expect(mockConnection.execute).toHaveBeenLastCalledWith('UPDATE movies SET runtime = ? WHERE id = ?', [
+        '118',
+        17,
+      ]);
+    });
+
+    it('should leave intact content alone', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[overrideRow(2, 'title', 'Alien!', 'Alien')]])
+        .mockResolvedValueOnce([[{ title: 'Alien!' }]]);
+
+      expect(await applyOverrides({ contentType: 'movie', contentId: 17 })).toBe(0);
+      expect(mockConnection.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip content without overrides', async () => {
+      mockConnection.execute.mockResolvedValueOnce([[]]);
+
+      expect(await applyOverrides({ contentType: 'episode', contentId: 101 })).toBe(0);
+      expect(mockConnection.execute).toHaveBeenCalledTimes(1);
+    });
+  });
+});
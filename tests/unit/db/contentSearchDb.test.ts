@@ -0,0 +1,210 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import {
+  countMovies,
+  countShows,
+  findMoviesToRefresh,
+  findShowsToRefresh,
+  searchMovies,
+  searchShows,
+} from '@db/contentSearchDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('contentSearchDb', () => {
+  const mockPool = {
+    query: jest.fn(),
+  };
+
+  const contentRow = {
+    id: 1,
+    tmdb_id: 1396,
+    title: 'Breaking Bad',
+    description: 'A chemistry teacher turns to crime.',
+    release_date: '2008-01-20',
+    poster_image: '/poster.jpg',
+    backdrop_image: null,
+    genres: 'Crime|Drama',
+    streaming_services: 'Netflix',
+    profile_count: '12',
+    updated_at: new Date('2025-06-01T10:00:00Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+  });
+
+  describe('searchShows', () => {
+    it('should order by title without a search', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await searchShows({ searchMode: 'fuzzy' }, 50, 0);
+
+      const [sql, values] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('FROM shows c');
+      expect(sql).toMatch(/FROM shows c\s+ORDER BY/);
+      expect(sql).toContain('ORDER BY c.title ASC, c.id');
+      expect(values).toEqual([50, 0]);
+    });
+
+    it('should fuzzy search and rank by relevance', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await searchShows({ search: 'bad_', searchMode: 'fuzzy' }, 10, 20);
+
+      const [sql, values] = mockPool.query.mock.calls[0];
+      expect(sql).toContain(`(c.title LIKE ? OR SOUNDEX(c.title) LIKE CONCAT(SOUNDEX(?), '%'))`);
+      expect(sql).toContain('CASE WHEN c.title = ? THEN 0');
+      expect(values).toEqual(['%bad\\_%', 'bad_', 'bad_', 'bad\\_%', '%bad\\_%', 10, 20]);
+    });
+
+    it('should apply prefix search and every show filter', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await searchShows(
+        {
+          search: 'Break',
+          searchMode: 'prefix',
+          tmdbId: 1396,
+          genre: 'Drama',
+          streamingService: 'Netflix',
+          releasedFrom: '2008-01-01',
+          releasedTo: '2008-12-31',
+          unwatched: true,
+          updatedBefore: '2025-01-01',
+          missing: ['poster', 'overview'],
+          status: 'Ended',
+          sortBy: 'popularity',
+        },
+        50,
+        0,
+      );
+
+      const [sql, values] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('c.title LIKE ?');
+      expect(sql).toContain('c.tmdb_id = ?');
+      expect(sql).toContain('g.genre = ?');
+      expect(sql).toContain('ss.name = ?');
+      expect(sql).toContain('c.release_date >= ?');
+      expect(sql).toContain('c.release_date <= ?');
+      expect(sql).toContain('NOT EXISTS (SELECT 1 FROM show_watch_status ws');
+      expect(sql).toContain('c.updated_at < ?');
+      expect(sql).toContain(`(c.poster_image IS NULL OR c.poster_image = '')`);
+      expect(sql).toContain(`(c.description IS NULL OR c.description = '')`);
+      expect(sql).toContain('c.status = ?');
+      expect(sql).toContain('ORDER BY profile_count DESC');
+      expect(values).toEqual([
+        'Break%',
+        1396,
+        'Drama',
+        'Netflix',
+        '2008-01-01',
+        '2008-12-31',
+        '2025-01-01',
+        'Ended',
+        50,
+        0,
+      ]);
+    });
+
+    it('should transform rows', async () => {
+      mockPool.query.mockResolvedValue([
+        [{ ...contentRow, network: 'AMC', status: 'Ended', type: 'Scripted', season_count: 5, episode_count: 62 }],
+      ]);
+
+      const result = await searchShows({ searchMode: 'fuzzy' }, 50, 0);
+
+      expect(result).toEqual([
+        {
+          id: 1,
+          tmdbId: 1396,
+          title: 'Breaking Bad',
+          description: 'A chemistry teacher turns to crime.',
+          releaseDate: '2008-01-20',
+          posterImage: '/poster.jpg',
+          backdropImage: null,
+          genres: ['Crime', 'Drama'],
+          streamingServices: ['Netflix'],
+          profileCount: 12,
+          lastUpdated: '2025-06-01T10:00:00.000Z',
+          network: 'AMC',
+          status: 'Ended',
+          type: 'Scripted',
+          seasonCount: 5,
+          episodeCount: 62,
+        },
+      ]);
+    });
+  });
+
+  describe('searchMovies', () => {
+    it('should filter watched movies by year and sort by last updated', async () => {
+      mockPool.query.mockResolvedValue([
+        [{ ...contentRow, genres: null, streaming_services: null, runtime: 117, mpa_rating: 'R' }],
+      ]);
+
+      const result = await searchMovies(
+        { searchMode: 'fuzzy', unwatched: false, year: 1979, sortBy: 'lastUpdated', sortOrder: 'asc' },
+        25,
+        0,
+      );
+
+      const [sql, values] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('FROM movies c');
+      expect(sql).toContain('WHERE EXISTS (SELECT 1 FROM movie_watch_status ws');
+      expect(sql).toContain('YEAR(c.release_date) = ?');
+      expect(sql).toContain('ORDER BY c.updated_at ASC');
+      expect(values).toEqual([1979, 25, 0]);
+      expect(result[0]).toEqual(
+        expect.objectContaining({ genres: [], streamingServices: [], runtime: 117, mpaRating: 'R' }),
+      );
+    });
+  });
+
+  describe('countShows / countMovies', () => {
+    it('should count with the same filters', async () => {
+      mockPool.query.mockResolvedValue([[{ total: 7 }]]);
+
+      const shows = await countShows({ searchMode: 'fuzzy', network: 'HBO' });
+      const movies = await countMovies({ searchMode: 'fuzzy' });
+
+      expect(mockPool.query).toHaveBeenNthCalledWith(1, 'SELECT COUNT(*) AS total FROM shows c WHERE c.network = ?', [
+        'HBO',
+      ]);
+      expect(mockPool.query).toHaveBeenNthCalledWith(2, 'SELECT COUNT(*) AS total FROM movies c ', []);
+      expect(shows).toBe(7);
+      expect(movies).toBe(7);
+    });
+  });
+
+  describe('findShowsToRefresh / findMoviesToRefresh', () => {
+    it('should select every matching show without paging', async () => {
+      mockPool.query.mockResolvedValue([[{ id: 1, tmdb_id: 1396, title: 'Breaking Bad' }]]);
+
+      const result = await findShowsToRefresh({
+        searchMode: 'fuzzy',
+        status: 'Returning Series',
+        updatedBefore: '2025-06-01',
+      });
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        'SELECT c.id, c.tmdb_id, c.title FROM shows c WHERE c.updated_at < ? AND c.status = ? ORDER BY c.id',
+        ['2025-06-01', 'Returning Series'],
+      );
+      expect(result).toEqual([{ id: 1, tmdbId: 1396, title: 'Breaking Bad' }]);
+    });
+
+    it('should select movies by id', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await findMoviesToRefresh({ searchMode: 'fuzzy', ids: [17, 18] });
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        'SELECT c.id, c.tmdb_id, c.title FROM movies c WHERE c.id IN (?) ORDER BY c.id',
+        [[17, 18]],
+      );
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { getMoviesForUpdate, getShowsForUpdate } from '@db/contentUpdateDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+const normalizeSql = (sql: string) => sql.replace(/\s+/g, ' ').trim();
+
+describe('contentUpdateDb', () => {
+  const mockPool = {
+    execute: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+  });
+
+  // A full update selects the same content as the shared showsUpdate and moviesUpdate jobs, less archived content
+  describe('getShowsForUpdate', () => {
+    it('should get every unarchived show that has not ended or been cancelled, in id order', async () => {
+      mockPool.execute.mockResolvedValue([[{ id: 3, tmdb_id: 1396, title: 'Breaking Bad' }]]);
+
+      const result = await getShowsForUpdate();
+
+      expect(normalizeSql(mockPool.execute.mock.calls[0][0])).toBe(
+        "SELECT id, tmdb_id, title FROM shows WHERE (status IS NULL OR status NOT IN ('Ended', 'Canceled')) " +
+          'AND archived_at IS NULL ORDER BY id',
+      );
+      expect(result).toEqual([{ id: 3, tmdbId: 1396, title: 'Breaking Bad' }]);
+    });
+  });
+
+  describe('getMoviesForUpdate', () => {
+    it('should get every unarchived movie released in the last six months or not yet released, in id order', async () => {
+      mockPool.execute.mockResolvedValue([[{ id: 17, tmdb_id: 348, title: 'Alien' }]]);
+
+      const result = await getMoviesForUpdate();
+
+      expect(normalizeSql(mockPool.execute.mock.calls[0][0])).toBe(
+        'SELECT id, tmdb_id, title FROM movies WHERE (release_date IS NULL OR release_date > ' +
+          'DATE_SUB(CURDATE(), INTERVAL 6 MONTH)) AND archived_at IS NULL ORDER BY id',
+      );
+      expect(result).toEqual([{ id: 17, tmdbId: 348, title: 'Alien' }]);
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import {
+  findContentWithoutPoster,
+  findEpisodesWithoutAirDate,
+  findMoviesWithoutRuntime,
+  findShowsWithDuplicateEpisodes,
+  findShowsWithoutSeasons,
+  getIssueById,
+  getIssueCount,
+  getIssueCountsByRule,
+  getIssues,
+  markIssueFixed,
+  saveRuleFindings,
+} from '@db/dataQualityDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('dataQualityDb', () => {
+  const mockConnection = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    beginTransaction: jest.fn(),
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    release: jest.fn(),
+  };
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    getConnection: jest.fn(),
+  };
+
+  const issueRow = {
+    id: 4,
+    rule: 'movie-missing-runtime',
+    content_type: 'movie',
+    content_id: 17,
+    title: 'Alien',
+    details: '{"tmdbId":348}',
+    status: 'open',
+    first_detected_at: new Date('2025-06-01T05:30:00Z'),
+    last_detected_at: new Date('2025-06-02T05:30:00Z'),
+    resolved_at: null,
+    fixed_by_uid: null,
+    fixed_by_email: null,
+  };
+  const issue = {
+    id: 4,
+    rule: 'movie-missing-runtime',
+    contentType: 'movie',
+    contentId: 17,
+    title: 'Alien',
+    details: { tmdbId: 348 },
+    status: 'open',
+    firstDetectedAt: '2025-06-01T05:30:00.000Z',
+    lastDetectedAt: '2025-06-02T05:30:00.000Z',
+    resolvedAt: null,
+    fixedByUid: null,
+    fixedByEmail: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+    mockPool.getConnection.mockResolvedValue(mockConnection);
+  });
+
+  describe('detection queries', () => {
+    it('should find shows without seasons', async () => {
+      mockPool.execute.mockResolvedValue([[{ id: 3, tmdb_id: 1396, title: 'Breaking Bad' }]]);
+
+      const result = await findShowsWithoutSeasons();
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain('NOT EXISTS (SELECT 1 FROM seasons');
+      expect(result).toEqual([{ contentType: 'show', contentId: 3, title: 'Breaking Bad', details: { tmdbId: 1396 } }]);
+    });
+
+    it('should find episodes without an air date with their show', async () => {
+      mockPool.execute.mockResolvedValue([
+        [
+          {
+            id: 90,
+            title: 'Pilot',
+            season_number: 1,
+            episode_number: 1,
+            show_id: 3,
+            show_tmdb_id: 1396,
+            show_title: 'Breaking Bad',
+          },
+        ],
+      ]);
+
+      const result = await findEpisodesWithoutAirDate();
+
+      expect(result).toEqual([
+        {
+          contentType: 'episode',
+          contentId: 90,
+          title: 'Breaking Bad S1E1',
+          details: { episodeTitle: 'Pilot', showId: 3, showTmdbId: 1396 },
+        },
+      ]);
+    });
+
+    it('should find movies without a runtime', async () => {
+      mockPool.execute.mockResolvedValue([[{ id: 17, tmdb_id: 348, title: 'Alien' }]]);
+
+      const result = await findMoviesWithoutRuntime();
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain('runtime IS NULL OR runtime = 0');
+      expect(result[0]).toEqual({ contentType: 'movie', contentId: 17, title: 'Alien', details: { tmdbId: 348 } });
+    });
+
+    it('should find content without a poster in the matching table', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      await findContentWithoutPoster('show');
+      await findContentWithoutPoster('movie');
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain('FROM shows');
+      expect(mockPool.execute.mock.calls[1][0]).toContain('FROM movies');
+    });
+
+    it('should find shows with duplicate episodes', async () => {
+      mockPool.execute.mockResolvedValue([[{ id: 3, tmdb_id: 1396, title: 'Breaking Bad', duplicate_groups: '2' }]]);
+
+      const result = await findShowsWithDuplicateEpisodes();
+
+      expect(result).toEqual([
+        { contentType: 'show', contentId: 3, title: 'Breaking Bad', details: { tmdbId: 1396, duplicateGroups: 2 } },
+      ]);
+    });
+  });
+
+  describe('saveRuleFindings', () => {
+    it('should upsert detected issues and resolve open issues no longer detected', async () => {
+      mockConnection.execute.mockResolvedValue([
+        [
+          { id: 1, content_type: 'movie', content_id: 17, status: 'open' },
+          { id: 2, content_type: 'movie', content_id: 18, status: 'open' },
+          { id: 3, content_type: 'movie', content_id: 19, status: 'resolved' },
+        ],
+      ]);
+      mockConnection.query.mockResolvedValue([{ affectedRows: 1 }]);
+
+      const result = await saveRuleFindings('movie-missing-runtime', [
+        { contentType: 'movie', contentId: 17, title: 'Alien', details: { tmdbId: 348 } },
+        { contentType: 'movie', contentId: 19, title: 'Aliens', details: { tmdbId: 679 } },
+      ]);
+
+      expect(result).toEqual({ opened: 1, resolved: 1 });
+      expect(mockConnection.query).toHaveBeenNthCalledWith(1, expect.stringContaining('ON DUPLICATE KEY UPDATE'), [
+        [
+          ['movie-missing-runtime', 'movie', 17, 'Alien', '{"tmdbId":348}'],
+          ['movie-missing-runtime', 'movie', 19, 'Aliens', '{"tmdbId":679}'],
+        ],
+      ]);
+      expect(mockConnection.query).toHaveBeenNthCalledWith(2, expect.stringContaining(`status = 'resolved'`), [[2]]);
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+
+    it('should skip writes when nothing was or is detected', async () => {
+      mockConnection.execute.mockResolvedValue([[]]);
+
+      const result = await saveRuleFindings('movie-missing-runtime', []);
+
+      expect(result).toEqual({ opened: 0, resolved: 0 });
+      expect(mockConnection.query).not.toHaveBeenCalled();
+    });
+
+    it('should roll back on failure', async () => {
+      mockConnection.execute.mockResolvedValue([[]]);
+      mockConnection.query.mockRejectedValue(new Error('deadlock'));
+
+      await expect(
+        saveRuleFindings('movie-missing-runtime', [
+          { contentType: 'movie', contentId: 17, title: 'Alien', details: {} },
+        ]),
+      ).rejects.toThrow('deadlock');
+      expect(mockConnection.rollback).toHaveBeenCalled();
+    });
+  });
+
+  describe('getIssues / getIssueCount', () => {
+    it('should filter and page issues', async () => {
+      mockPool.query.mockResolvedValue([[issueRow]]);
+
+      const result = await getIssues({ rule: 'movie-missing-runtime', contentType: 'movie', status: 'open' }, 10, 20);
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE rule = ? AND content_type = ? AND status = ?'),
+        ['movie-missing-runtime', 'movie', 'open', 10, 20],
+      );
+      expect(result).toEqual([issue]);
+    });
+
+    it('should count matching issues', async () => {
+      mockPool.query.mockResolvedValue([[{ total: 6 }]]);
+
+      const result = await getIssueCount({ status: 'resolved' });
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        'SELECT COUNT(*) AS total FROM admin_content_issues WHERE status = ?',
+        ['resolved'],
+      );
+      expect(result).toBe(6);
+    });
+  });
+
+  describe('getIssueCountsByRule', () => {
+    it('should count issues by rule and status', async () => {
+      mockPool.execute.mockResolvedValue([[{ rule: 'movie-missing-runtime', status: 'open', total: '3' }]]);
+
+      const result = await getIssueCountsByRule();
+
+      expect(result).toEqual([{ rule: 'movie-missing-runtime', status: 'open', count: 3 }]);
+    });
+  });
+
+  describe('getIssueById', () => {
+    it('should return the issue with parsed details', async () => {
+      mockPool.execute.mockResolvedValue([[{ ...issueRow, details: { tmdbId: 348 } }]]);
+
+      expect(await getIssueById(4)).toEqual(issue);
+    });
+
+    it('should return null when missing', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      expect(await getIssueById(4)).toBeNull();
+    });
+  });
+
+  describe('markIssueFixed', () => {
+    it('should resolve the issue and record the admin', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+      await markIssueFixed(4, { uid: 'admin-1', email: 'admin@example.com' });
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining(`status = 'resolved'`), [
+        'admin-1',
+        'admin@example.com',
+        4,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import {
+  getDuplicateEpisodes,
+  getEpisodeWatchStatuses,
+  getShowIdsWithDuplicateEpisodes,
+  removeDuplicateEpisodes,
+  showExists,
+} from '@db/duplicateEpisodesDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('duplicateEpisodesDb', () => {
+  const mockConnection = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    beginTransaction: jest.fn(),
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    release: jest.fn(),
+  };
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    getConnection: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+    mockPool.getConnection.mockResolvedValue(mockConnection);
+  });
+
+  describe('showExists', () => {
+    it('should report whether the show exists', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ 1: 1 }]]).mockResolvedValueOnce([[]]);
+
+      expect(await showExists(10)).toBe(true);
+      expect(await showExists(11)).toBe(false);
+      expect(mockPool.execute).toHaveBeenCalledWith('SELECT 1 FROM shows WHERE id = ?', [10]);
+    });
+  });
+
+  describe('getDuplicateEpisodes', () => {
+    it('should return episodes sharing a slot with another episode', async () => {
+      mockPool.execute.mockResolvedValue([
+        [
+          {
+            id: 101,
+            tmdb_id: 62085,
+            season_id: 5,
+            season_number: 1,
+            episode_number: 2,
+            title: 'Cat in the Bag',
+            updated_at: new Date('2025-06-01T10:00:00Z'),
+          },
+          {
+            id: 140,
+            tmdb_id: null,
+            season_id: 5,
+            season_number: 1,
+            episode_number: 2,
+            title: null,
+            updated_at: null,
+          },
+        ],
+      ]);
+
+      const result = await getDuplicateEpisodes(10);
+
+      const [sql, params] = mockPool.execute.mock.calls[0];
+      expect(sql).toContain('HAVING COUNT(*) > 1');
+      expect(params).toEqual([10, 10]);
+      expect(result).toEqual([
+        {
+          id: 101,
+          tmdbId: 62085,
+          seasonId: 5,
+          seasonNumber: 1,
+          episodeNumber: 2,
+          title: 'Cat in the Bag',
+          updatedAt: '2025-06-01T10:00:00.000Z',
+        },
+        {
+          id: 140,
+          tmdbId: null,
+          seasonId: 5,
+          seasonNumber: 1,
+          episodeNumber: 2,
+          title: null,
+          updatedAt: null,
+        },
+      ]);
+    });
+  });
+
+  describe('getShowIdsWithDuplicateEpisodes', () => {
+    it('should return the ids of shows with duplicates', async () => {
+      mockPool.execute.mockResolvedValue([[{ show_id: 3 }, { show_id: 10 }]]);
+
+      expect(await getShowIdsWithDuplicateEpisodes()).toEqual([3, 10]);
+    });
+  });
+
+  describe('getEpisodeWatchStatuses', () => {
+    it('should return the watch statuses of the episodes', async () => {
+      mockPool.query.mockResolvedValue([[{ profile_id: 7, episode_id: 140, status: 'WATCHED' }]]);
+
+      const result = await getEpisodeWatchStatuses([101, 140]);
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        'SELECT profile_id, episode_id, status FROM episode_watch_status WHERE episode_id IN (?)',
+        [[101, 140]],
+      );
+      expect(result).toEqual([{ profileId: 7, episodeId: 140, status: 'WATCHED' }]);
+    });
+
+    it('should not query without episodes', async () => {
+      expect(await getEpisodeWatchStatuses([])).toEqual([]);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeDuplicateEpisodes', () => {
+    it('should migrate statuses, delete the duplicates and recompute statuses in a transaction', async () => {
+      mockConnection.query
+        .mockResolvedValueOnce([{ affectedRows: 1 }])
+        .mockResolvedValueOnce([[{ profile_id: 7 }]])
+        .mockResolvedValueOnce([{ affectedRows: 1 }])
+        .mockResolvedValueOnce([{ affectedRows: 1 }])
+        .mockResolvedValueOnce([{ affectedRows: 1 }])
+        .mockResolvedValueOnce([
+          [
+            { show_id: 10, season_id: 20, aired: 1, watched: 1 },
+            { show_id: 10, season_id: 20, aired: 1, watched: 1 },
+          ],
+        ])
+        .mockResolvedValueOnce([[{ id: 10, in_production: 0 }]]);
+      mockConnection.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+      await removeDuplicateEpisodes(10, [{ profileId: 7, episodeId: 101, status: 'WATCHED' }], [140]);
+
+      expect(mockConnection.beginTransaction).toHaveBeenCalled();
+      expect(mockConnection.query.mock.calls[0][0]).toContain('INSERT INTO episode_watch_status');
+      expect(mockConnection.query.mock.calls[0][1]).toEqual([[[7, 101, 'WATCHED']]]);
+      expect(mockConnection.query.mock.calls[1][0]).toContain('SELECT profile_id FROM show_watch_status');
+      expect(mockConnection.query.mock.calls[1][1]).toEqual([10, 10]);
+      expect(mockConnection.query).toHaveBeenNthCalledWith(
+        3,
+        'DELETE FROM episode_watch_status WHERE episode_id IN (?)',
+        [[140]],
+      );
+      expect(mockConnection.query).toHaveBeenNthCalledWith(
+        4,
+        `DELETE FROM admin_content_overrides WHERE content_type = 'episode' AND content_id IN (?)`,
+        [[140]],
+      );
+      expect(mockConnection.query).toHaveBeenNthCalledWith(5, 'DELETE FROM episodes WHERE id IN (?)', [[140]]);
+      expect(mockConnection.query.mock.calls[5][1]).toEqual([7, [10]]);
+      const writes = mockConnection.execute.mock.calls.map(([sql, params]) => [
+        (sql as string).match(/INSERT INTO (\w+)/)?.[1],
+        params,
+      ]);
+      expect(writes).toEqual([
+        ['season_watch_status', [7, 20, 'WATCHED']],
+        ['show_watch_status', [7, 10, 'WATCHED']],
+      ]);
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+
+    it('should skip the status insert and recompute when nothing is migrated and nobody watches the show', async () => {
+      mockConnection.query.mockResolvedValueOnce([[]]).mockResolvedValue([{ affectedRows: 1 }]);
+
+      await removeDuplicateEpisodes(10, [], [140, 141]);
+
+      expect(mockConnection.query).toHaveBeenCalledTimes(4);
+      expect(mockConnection.query.mock.calls[1][0]).toContain('DELETE FROM episode_watch_status');
+      expect(mockConnection.execute).not.toHaveBeenCalled();
+    });
+
+    it('should roll back when a delete fails', async () => {
+      mockConnection.query.mockResolvedValueOnce([[]]).mockRejectedValueOnce(new Error('Lock wait timeout'));
+
+      await expect(removeDuplicateEpisodes(10, [], [140])).rejects.toThrow('Lock wait timeout');
+
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+    });
+
+    it('should do nothing without episodes to remove', async () => {
+      await removeDuplicateEpisodes(10, [], []);
+
+      expect(mockPool.getConnection).not.toHaveBeenCalled();
+    });
+  });
+});
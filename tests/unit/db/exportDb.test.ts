@@ -0,0 +1,155 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import {
+  createExport,
+  failInterruptedExports,
+  getEmailsSentToAccount,
+  getExpiredExports,
+  getExportById,
+  markExportCompleted,
+  markExportExpired,
+} from '@db/exportDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('exportDb', () => {
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+  };
+  const exportId = '3f0c1c4e-8b2a-4d3e-9f1a-2b3c4d5e6f70';
+
+  const exportRow = {
+    id: exportId,
+    account_id: 3,
+    status: 'completed',
+    requested_by_uid: 'admin-1',
+    requested_by_email: 'admin@example.com',
+    file_path: `/srv/exports/${exportId}.ndjson`,
+    size_bytes: '2048',
+    error: null,
+    created_at: new Date('2025-06-01T10:00:00Z'),
+    completed_at: new Date('2025-06-01T10:01:00Z'),
+    expires_at: new Date('2025-06-04T10:01:00Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+  });
+
+  describe('createExport', () => {
+    it('should insert a pending export for the admin', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+      await createExport(exportId, 3, { uid: 'admin-1', email: 'admin@example.com' });
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain('INSERT INTO admin_account_exports');
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([exportId, 3, 'admin-1', 'admin@example.com']);
+    });
+  });
+
+  describe('getExportById', () => {
+    it('should transform the row', async () => {
+      mockPool.execute.mockResolvedValue([[exportRow]]);
+
+      const result = await getExportById(exportId);
+
+      expect(result).toEqual({
+        id: exportId,
+        accountId: 3,
+        status: 'completed',
+        requestedByUid: 'admin-1',
+        requestedByEmail: 'admin@example.com',
+        filePath: `/srv/exports/${exportId}.ndjson`,
+        sizeBytes: 2048,
+        error: null,
+        createdAt: '2025-06-01T10:00:00.000Z',
+        completedAt: '2025-06-01T10:01:00.000Z',
+        expiresAt: '2025-06-04T10:01:00.000Z',
+      });
+    });
+
+    it('should return null when the export does not exist', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      expect(await getExportById(exportId)).toBeNull();
+    });
+  });
+
+  describe('markExportCompleted', () => {
+    it('should record the bundle and its expiry', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+      await markExportCompleted(exportId, '/srv/exports/x.ndjson', 2048, 72);
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain('INTERVAL ? HOUR');
+      expect(mockPool.execute.mock.calls[0][1]).toEqual(['/srv/exports/x.ndjson', 2048, 72, exportId]);
+    });
+  });
+
+  describe('failInterruptedExports', () => {
+    it('should fail pending and running exports and return the count', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 2 }]);
+
+      const count = await failInterruptedExports();
+
+      expect(count).toBe(2);
+      expect(mockPool.execute.mock.calls[0][0]).toContain(`status IN ('pending', 'running')`);
+    });
+  });
+
+  describe('getExpiredExports', () => {
+    it('should only select completed exports past their expiry', async () => {
+      mockPool.execute.mockResolvedValue([[exportRow]]);
+
+      const results = await getExpiredExports();
+
+      expect(results).toHaveLength(1);
+      expect(mockPool.execute.mock.calls[0][0]).toContain(`status = 'completed' AND expires_at <= NOW()`);
+    });
+  });
+
+  describe('markExportExpired', () => {
+    it('should expire the export and clear its file path', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+      await markExportExpired(exportId);
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain(`status = 'expired', file_path = NULL`);
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([exportId]);
+    });
+  });
+
+  describe('getEmailsSentToAccount', () => {
+    it('should return the emails sent to the account', async () => {
+      mockPool.execute.mockResolvedValue([
+        [
+          {
+            email_id: 8,
+            subject: 'Weekly digest',
+            message: 'Hello',
+            send_to_all: 1,
+            status: 'sent',
+            sent_at: new Date('2025-06-02T08:00:00Z'),
+          },
+        ],
+      ]);
+
+      const results = await getEmailsSentToAccount(3);
+
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([3]);
+      expect(results).toEqual([
+        {
+          emailId: 8,
+          subject: 'Weekly digest',
+          message: 'Hello',
+          sendToAll: true,
+          status: 'sent',
+          sentAt: '2025-06-02T08:00:00.000Z',
+        },
+      ]);
+    });
+  });
+});
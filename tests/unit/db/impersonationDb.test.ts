@@ -0,0 +1,115 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { createSession, getSessionById, getSessionsByAccount, revokeSession } from '@db/impersonationDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('impersonationDb', () => {
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+  };
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+  const sessionId = '3f0c1c4e-8b2a-4d3e-9f1a-2b3c4d5e6f70';
+
+  const sessionRow = {
+    id: sessionId,
+    account_id: 3,
+    account_uid: 'uid-3',
+    impersonated_by_uid: 'admin-1',
+    impersonated_by_email: 'admin@example.com',
+    reason: 'Home screen looks wrong',
+    created_at: new Date('2025-06-01T10:00:00Z'),
+    expires_at: new Date('2025-06-01T10:15:00Z'),
+    revoked_at: null,
+    revoked_by_uid: null,
+    is_expired: 0,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+  });
+
+  describe('createSession', () => {
+    it('should insert the session with its expiry', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+      await createSession(sessionId, 3, 'uid-3', admin, 'Home screen looks wrong', 15);
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain('DATE_ADD(NOW(), INTERVAL ? MINUTE)');
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([
+        sessionId,
+        3,
+        'uid-3',
+        'admin-1',
+        'admin@example.com',
+        'Home screen looks wrong',
+        15,
+      ]);
+    });
+  });
+
+  describe('getSessionById', () => {
+    it('should transform an active session', async () => {
+      mockPool.execute.mockResolvedValue([[sessionRow]]);
+
+      expect(await getSessionById(sessionId)).toEqual({
+        id: sessionId,
+        accountId: 3,
+        accountUid: 'uid-3',
+        impersonatedByUid: 'admin-1',
+        impersonatedByEmail: 'admin@example.com',
+        reason: 'Home screen looks wrong',
+        status: 'active',
+        createdAt: '2025-06-01T10:00:00.000Z',
+        expiresAt: '2025-06-01T10:15:00.000Z',
+        revokedAt: null,
+        revokedByUid: null,
+      });
+    });
+
+    it('should derive expired and revoked statuses', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[{ ...sessionRow, is_expired: 1 }]])
+        .mockResolvedValueOnce([
+          [{ ...sessionRow, is_expired: 1, revoked_at: new Date('2025-06-01T10:05:00Z'), revoked_by_uid: 'admin-2' }],
+        ]);
+
+      expect((await getSessionById(sessionId))?.status).toBe('expired');
+      expect(await getSessionById(sessionId)).toEqual(
+        expect.objectContaining({ status: 'revoked', revokedAt: '2025-06-01T10:05:00.000Z', revokedByUid: 'admin-2' }),
+      );
+    });
+
+    it('should return null for an unknown session', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      expect(await getSessionById(sessionId)).toBeNull();
+    });
+  });
+
+  describe('getSessionsByAccount', () => {
+    it('should return the account sessions newest first', async () => {
+      mockPool.execute.mockResolvedValue([[sessionRow]]);
+
+      const results = await getSessionsByAccount(3);
+
+      expect(results).toHaveLength(1);
+      expect(mockPool.execute.mock.calls[0][0]).toContain('ORDER BY created_at DESC');
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([3]);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should only revoke sessions that are still active', async () => {
+      mockPool.execute.mockResolvedValueOnce([{ affectedRows: 1 }]).mockResolvedValueOnce([{ affectedRows: 0 }]);
+
+      expect(await revokeSession(sessionId, admin)).toBe(true);
+      expect(await revokeSession(sessionId, admin)).toBe(false);
+      expect(mockPool.execute.mock.calls[0][0]).toContain('revoked_at IS NULL AND expires_at > NOW()');
+      expect(mockPool.execute.mock.calls[0][1]).toEqual(['admin-1', sessionId]);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import {
+  getLastWatchActivity,
+  getLifecycleEntries,
+  getLifecycleEntryCount,
+  getLifecycleRecords,
+  getStageCounts,
+  markReengagementSent,
+  removeStaleRecords,
+  saveEvaluation,
+} from '@db/lifecycleDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('lifecycleDb', () => {
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+  };
+
+  const lifecycleRow = {
+    account_id: 3,
+    stage: 'dormant',
+    last_activity_at: new Date('2025-05-01T10:00:00Z'),
+    inactive_days: 41,
+    abandonment_rate: '12.50',
+    stage_changed_at: new Date('2025-06-01T04:00:00Z'),
+    reengagement_stage: 'dormant',
+    reengagement_sent_at: new Date('2025-06-01T04:00:05Z'),
+    deletion_review_flagged_at: null,
+    evaluated_at: new Date('2025-06-11T04:00:00Z'),
+  };
+  const lifecycle = {
+    accountId: 3,
+    stage: 'dormant',
+    lastActivityAt: '2025-05-01T10:00:00.000Z',
+    inactiveDays: 41,
+    abandonmentRate: 12.5,
+    stageChangedAt: '2025-06-01T04:00:00.000Z',
+    reengagementStage: 'dormant',
+    reengagementSentAt: '2025-06-01T04:00:05.000Z',
+    deletionReviewFlaggedAt: null,
+    evaluatedAt: '2025-06-11T04:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+  });
+
+  describe('getLastWatchActivity', () => {
+    it('should key the latest watch activity by account', async () => {
+      mockPool.execute.mockResolvedValue([
+        [
+          { account_id: 1, last_activity_at: new Date('2025-06-01T00:00:00Z') },
+          { account_id: 2, last_activity_at: null },
+        ],
+      ]);
+
+      const result = await getLastWatchActivity();
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain('episode_watch_status');
+      expect(mockPool.execute.mock.calls[0][0]).toContain('movie_watch_status');
+      expect(result).toEqual(new Map([[1, new Date('2025-06-01T00:00:00Z')]]));
+    });
+  });
+
+  describe('getLifecycleRecords', () => {
+    it('should key the stored state by account', async () => {
+      mockPool.execute.mockResolvedValue([[lifecycleRow]]);
+
+      const result = await getLifecycleRecords();
+
+      expect(result).toEqual(new Map([[3, lifecycle]]));
+    });
+  });
+
+  describe('saveEvaluation', () => {
+    it('should upsert the evaluation', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+      await saveEvaluation({
+        accountId: 3,
+        stage: 'dormant',
+        lastActivityAt: '2025-05-01T10:00:00.000Z',
+        inactiveDays: 41,
+        abandonmentRate: 12.5,
+        flagForDeletionReview: false,
+      });
+
+      const [query, values] = mockPool.execute.mock.calls[0];
+      expect(query).toContain('INSERT INTO admin_account_lifecycle');
+      expect(query).toContain('ON DUPLICATE KEY UPDATE');
+      expect(query.indexOf('stage_changed_at =')).toBeLessThan(query.indexOf('stage = VALUES(stage),'));
+      expect(values).toEqual([3, 'dormant', new Date('2025-05-01T10:00:00.000Z'), 41, 12.5, false]);
+    });
+  });
+
+  describe('markReengagementSent', () => {
+    it('should record the stage emailed', async () => {
+      mockPool.query.mockResolvedValue([{ affectedRows: 2 }]);
+
+      await markReengagementSent([3, 4], 'at_risk');
+
+      expect(mockPool.query).toHaveBeenCalledWith(expect.stringContaining('reengagement_stage = ?'), [
+        'at_risk',
+        [3, 4],
+      ]);
+    });
+
+    it('should skip an empty list', async () => {
+      await markReengagementSent([], 'dormant');
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeStaleRecords', () => {
+    it('should delete records for accounts that were not evaluated', async () => {
+      mockPool.query.mockResolvedValue([{ affectedRows: 2 }]);
+
+      const result = await removeStaleRecords([1, 2]);
+
+      expect(result).toBe(2);
+      expect(mockPool.query).toHaveBeenCalledWith(expect.stringContaining('account_id NOT IN (?)'), [[1, 2]]);
+    });
+
+    it('should delete every record when no accounts were evaluated', async () => {
+      mockPool.query.mockResolvedValue([{ affectedRows: 5 }]);
+
+      await removeStaleRecords([]);
+
+      expect(mockPool.query).toHaveBeenCalledWith('DELETE FROM admin_account_lifecycle');
+    });
+  });
+
+  describe('getLifecycleEntries / getLifecycleEntryCount', () => {
+    it('should filter and page the records', async () => {
+      mockPool.query.mockResolvedValue([[lifecycleRow]]);
+
+      const result = await getLifecycleEntries({ stage: 'dormant', flaggedForDeletionReview: false }, 10, 20);
+
+      const [query, values] = mockPool.query.mock.calls[0];
+      expect(query).toContain('WHERE stage = ? AND deletion_review_flagged_at IS NULL');
+      expect(values).toEqual(['dormant', 10, 20]);
+      expect(result).toEqual([lifecycle]);
+    });
+
+    it('should count the matching records', async () => {
+      mockPool.query.mockResolvedValue([[{ total: 4 }]]);
+
+      const result = await getLifecycleEntryCount({ flaggedForDeletionReview: true });
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        'SELECT COUNT(*) AS total FROM admin_account_lifecycle WHERE deletion_review_flagged_at IS NOT NULL',
+        [],
+      );
+      expect(result).toBe(4);
+    });
+  });
+
+  describe('getStageCounts', () => {
+    it('should count accounts per stage', async () => {
+      mockPool.execute.mockResolvedValue([
+        [
+          { stage: 'active', total: 5, flagged: '0' },
+          { stage: 'abandoned', total: '2', flagged: '1' },
+        ],
+      ]);
+
+      const result = await getStageCounts();
+
+      expect(result).toEqual([
+        { stage: 'active', count: 5, flaggedForDeletionReview: 0 },
+        { stage: 'abandoned', count: 2, flaggedForDeletionReview: 1 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import {
+  archiveContent,
+  findOrphans,
+  getCleanupRunById,
+  getCleanupRunCount,
+  getCleanupRuns,
+  getOrphanCounts,
+  getOrphans,
+  removeContent,
+  saveCleanupRun,
+  trackOrphans,
+  unarchiveWatchedContent,
+} from '@db/orphansDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('orphansDb', () => {
+  const mockConnection = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    beginTransaction: jest.fn(),
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    release: jest.fn(),
+  };
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    getConnection: jest.fn(),
+  };
+
+  const orphan = (contentType: 'show' | 'movie' | 'person', contentId: number) => ({
+    contentType,
+    contentId,
+    title: `${contentType} ${contentId}`,
+    orphanedSince: null,
+    archivedAt: null,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+    mockPool.getConnection.mockResolvedValue(mockConnection);
+    mockConnection.query.mockResolvedValue([{}]);
+  });
+
+  describe('findOrphans / getOrphans', () => {
+    it('should transform rows, leaving never-seen orphans without a date', async () => {
+      mockPool.query.mockResolvedValue([
+        [
+          {
+            content_type: 'show',
+            content_id: 7,
+            title: 'Firefly',
+            archived_at: new Date('2026-02-01T00:00:00Z'),
+            first_detected_at: new Date('2026-01-01T00:00:00Z'),
+          },
+          { content_type: 'person', content_id: 3, title: 'Jane Doe', archived_at: null, first_detected_at: null },
+        ],
+      ]);
+
+      const result = await findOrphans();
+
+      expect(result).toEqual([
+        {
+          contentType: 'show',
+          contentId: 7,
+          title: 'Firefly',
+          orphanedSince: '2026-01-01T00:00:00.000Z',
+          archivedAt: '2026-02-01T00:00:00.000Z',
+        },
+        { contentType: 'person', contentId: 3, title: 'Jane Doe', orphanedSince: null, archivedAt: null },
+      ]);
+      const sql = mockPool.query.mock.calls[0][0];
+      expect(sql).toContain('show_watch_status');
+      expect(sql).toContain('movie_watch_status');
+      expect(sql).toContain('show_cast');
+      expect(sql).toContain('LEFT JOIN admin_content_orphans');
+    });
+
+    it('should only query the filtered type and page the results', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await getOrphans({ contentType: 'episode' }, 25, 50);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('FROM episodes c');
+      expect(sql).not.toContain('FROM shows c');
+      expect(sql).toContain('LIMIT ? OFFSET ?');
+      expect(params).toEqual([25, 50]);
+    });
+  });
+
+  describe('getOrphanCounts', () => {
+    it('should count every type, including types without orphans', async () => {
+      mockPool.query.mockResolvedValue([
+        [
+          { content_type: 'show', total: 2 },
+          { content_type: 'person', total: '14' },
+        ],
+      ]);
+
+      const result = await getOrphanCounts();
+
+      expect(result).toEqual({ show: 2, movie: 0, season: 0, episode: 0, person: 14 });
+    });
+  });
+
+  describe('trackOrphans', () => {
+    it('should keep first-seen dates, start new orphans now and forget content no longer orphaned', async () => {
+      mockConnection.execute.mockResolvedValue([
+        [
+          { content_type: 'show', content_id: 1, first_detected_at: new Date('2026-01-01T00:00:00Z') },
+          { content_type: 'movie', content_id: 9, first_detected_at: new Date('2026-01-02T00:00:00Z') },
+        ],
+      ]);
+
+      const result = await trackOrphans([orphan('show', 1), orphan('person', 4)]);
+
+      expect(result[0].orphanedSince).toBe('2026-01-01T00:00:00.000Z');
+      expect(result[1].orphanedSince).not.toBeNull();
+      expect(mockConnection.query).toHaveBeenCalledWith(
+        'INSERT INTO admin_content_orphans (content_type, content_id, title, first_detected_at) VALUES ?',
+        [[['person', 4, 'person 4', expect.any(Date)]]],
+      );
+      expect(mockConnection.query).toHaveBeenCalledWith(
+        'DELETE FROM admin_content_orphans WHERE content_type = ? AND content_id IN (?)',
+        ['movie', [9]],
+      );
+      expect(mockConnection.query).toHaveBeenCalledTimes(2);
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+  });
+
+  describe('archiveContent', () => {
+    it('should only archive content that is still orphaned and not yet archived', async () => {
+      mockConnection.query.mockResolvedValueOnce([[{ id: 1 }]]).mockResolvedValueOnce([{ affectedRows: 1 }]);
+
+      const result = await archiveContent('show', [1, 2]);
+
+      expect(result).toEqual([1]);
+      expect(mockConnection.query.mock.calls[0][0]).toContain('archived_at IS NULL');
+      expect(mockConnection.query.mock.calls[0][0]).toContain('FOR UPDATE');
+      expect(mockConnection.query.mock.calls[0][1]).toEqual([[1, 2]]);
+      expect(mockConnection.query).toHaveBeenCalledWith('UPDATE shows SET archived_at = NOW() WHERE id IN (?)', [[1]]);
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+
+    it('should skip the update when nothing is archivable', async () => {
+      mockConnection.query.mockResolvedValueOnce([[]]);
+
+      const result = await archiveContent('movie', [5]);
+
+      expect(result).toEqual([]);
+      expect(mockConnection.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('orphan conditions', () => {
+    it('should never count unreleased or recently imported shows and movies as orphans', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await getOrphans({ contentType: 'movie' }, 50, 0);
+
+      const sql = mockPool.query.mock.calls[0][0];
+      expect(sql).toContain('NOT EXISTS (SELECT 1 FROM movie_watch_status ws WHERE ws.movie_id = c.id)');
+      expect(sql).toContain('c.release_date <= CURDATE()');
+      expect(sql).toContain('c.imported_at IS NULL OR c.imported_at < NOW() - INTERVAL 90 DAY');
+    });
+  });
+
+  describe('removeContent', () => {
+    it('should delete dependent rows before the content, then its overrides and tracking', async () => {
+      mockConnection.query.mockResolvedValueOnce([[{ id: 8 }]]);
+
+      const result = await removeContent('movie', [8, 12]);
+
+      expect(result).toEqual([8]);
+      const statements = mockConnection.query.mock.calls.slice(1).map((call) => call[0]);
+      expect(statements.indexOf('DELETE FROM movie_cast WHERE movie_id IN (?)')).toBeLessThan(
+        statements.indexOf('DELETE FROM movies WHERE id IN (?)'),
+      );
+      expect(mockConnection.query).toHaveBeenCalledWith(
+        'DELETE FROM admin_content_overrides WHERE content_type = ? AND content_id IN (?)',
+        ['movie', [8]],
+      );
+      expect(mockConnection.query).toHaveBeenCalledWith(
+        'DELETE FROM admin_content_orphans WHERE content_type = ? AND content_id IN (?)',
+        ['movie', [8]],
+      );
+    });
+
+    it('should delete the overrides of a removed show and its episodes', async () => {
+      mockConnection.query.mockResolvedValueOnce([[{ id: 3 }]]);
+
+      await removeContent('show', [3]);
+
+      const statements = mockConnection.query.mock.calls.slice(1).map((call) => call[0].replace(/\s+/g, ' '));
+      const episodeOverrides = statements.indexOf(
+        "DELETE FROM admin_content_overrides WHERE content_type = 'episode' AND content_id IN " +
+          '(SELECT id FROM episodes WHERE show_id IN (?))',
+      );
+      expect(episodeOverrides).toBeGreaterThanOrEqual(0);
+      expect(episodeOverrides).toBeLessThan(statements.indexOf('DELETE FROM episodes WHERE show_id IN (?)'));
+      expect(mockConnection.query).toHaveBeenCalledWith(
+        'DELETE FROM admin_content_overrides WHERE content_type = ? AND content_id IN (?)',
+        ['show', [3]],
+      );
+    });
+
+    it('should roll back when a delete fails', async () => {
+      mockConnection.query.mockResolvedValueOnce([[{ id: 8 }]]).mockRejectedValueOnce(new Error('Lock wait timeout'));
+
+      await expect(removeContent('person', [8])).rejects.toThrow('Lock wait timeout');
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockConnection.commit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unarchiveWatchedContent', () => {
+    it('should unarchive watched shows and movies', async () => {
+      mockPool.execute.mockResolvedValueOnce([{ affectedRows: 2 }]).mockResolvedValueOnce([{ affectedRows: 1 }]);
+
+      const result = await unarchiveWatchedContent();
+
+      expect(result).toBe(3);
+      expect(mockPool.execute.mock.calls[0][0]).toContain('UPDATE shows c SET c.archived_at = NULL');
+      expect(mockPool.execute.mock.calls[1][0]).toContain('UPDATE movies c SET c.archived_at = NULL');
+    });
+  });
+
+  describe('cleanup runs', () => {
+    const runRow = {
+      id: 4,
+      mode: 'archive',
+      dry_run: 1,
+      grace_days: 30,
+      detected: '{"show":1,"movie":0,"season":0,"episode":0,"person":0}',
+      actioned: { show: 1, movie: 0, season: 0, episode: 0, person: 0 },
+      items: '[{"contentType":"show","contentId":7,"title":"Firefly","orphanedSince":"2026-01-01T00:00:00.000Z"}]',
+      unarchived: 0,
+      triggered_by_uid: 'admin-1',
+      triggered_by_email: 'admin@example.com',
+      started_at: new Date('2026-03-01T06:00:00Z'),
+      finished_at: new Date('2026-03-01T06:00:02Z'),
+    };
+
+    it('should save a run with its counts and items as JSON', async () => {
+      mockPool.execute.mockResolvedValue([{ insertId: 4 }]);
+
+      const id = await saveCleanupRun({
+        mode: 'remove',
+        dryRun: false,
+        graceDays: 30,
+        detected: { show: 0, movie: 0, season: 0, episode: 0, person: 1 },
+        actioned: { show: 0, movie: 0, season: 0, episode: 0, person: 1 },
+        items: [],
+        unarchived: 2,
+        triggeredBy: null,
+        startedAt: '2026-03-01T06:00:00.000Z',
+      });
+
+      expect(id).toBe(4);
+      const params = mockPool.execute.mock.calls[0][1];
+      expect(params[0]).toBe('remove');
+      expect(params[3]).toBe('{"show":0,"movie":0,"season":0,"episode":0,"person":1}');
+      expect(params[7]).toBeNull();
+    });
+
+    it('should transform run rows', async () => {
+      mockPool.execute.mockResolvedValue([[runRow]]);
+
+      const result = await getCleanupRunById(4);
+
+      expect(result).toEqual({
+        id: 4,
+        mode: 'archive',
+        dryRun: true,
+        graceDays: 30,
+        detected: { show: 1, movie: 0, season: 0, episode: 0, person: 0 },
+        actioned: { show: 1, movie: 0, season: 0, episode: 0, person: 0 },
+        items: [{ contentType: 'show', contentId: 7, title: 'Firefly', orphanedSince: '2026-01-01T00:00:00.000Z' }],
+        unarchived: 0,
+        triggeredBy: { uid: 'admin-1', email: 'admin@example.com' },
+        startedAt: '2026-03-01T06:00:00.000Z',
+        finishedAt: '2026-03-01T06:00:02.000Z',
+      });
+    });
+
+    it('should return null for an unknown run', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      expect(await getCleanupRunById(99)).toBeNull();
+    });
+
+    it('should page runs newest first and count them', async () => {
+      mockPool.query.mockResolvedValueOnce([[runRow]]).mockResolvedValueOnce([[{ total: 6 }]]);
+
+      const runs = await getCleanupRuns(10, 20);
+      const total = await getCleanupRunCount();
+
+      expect(runs).toHaveLength(1);
+      expect(mockPool.query.mock.calls[0][0]).toContain('ORDER BY started_at DESC');
+      expect(mockPool.query.mock.calls[0][1]).toEqual([10, 20]);
+      expect(total).toBe(6);
+    });
+  });
+});
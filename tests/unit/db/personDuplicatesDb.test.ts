@@ -0,0 +1,262 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import {
+  countSuggestions,
+  deleteRejections,
+  deleteSuggestions,
+  getCandidates,
+  getCredits,
+  getExistingPersonIds,
+  getPersonNames,
+  getRejectedPairs,
+  getSameBirthdayPairsWithSharedCredits,
+  getSuggestionPage,
+  isCurrentSuggestion,
+  replaceSuggestions,
+  saveRejection,
+} from '@db/personDuplicatesDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('personDuplicatesDb', () => {
+  const mockConnection = {
+    query: jest.fn(),
+    beginTransaction: jest.fn(),
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    release: jest.fn(),
+  };
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    getConnection: jest.fn(),
+  };
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+    mockPool.getConnection.mockResolvedValue(mockConnection);
+  });
+
+  describe('getPersonNames', () => {
+    it('should return the id and name of every person', async () => {
+      mockPool.query.mockResolvedValue([[{ id: 1, name: 'Jane Doe' }]]);
+
+      expect(await getPersonNames()).toEqual([{ id: 1, name: 'Jane Doe' }]);
+    });
+  });
+
+  describe('getSameBirthdayPairsWithSharedCredits', () => {
+    it('should pair people born the same day who share a show or movie', async () => {
+      mockPool.query.mockResolvedValue([[{ person_id: 1, other_person_id: 7 }]]);
+
+      const result = await getSameBirthdayPairsWithSharedCredits();
+
+      expect(result).toEqual([[1, 7]]);
+      const sql = mockPool.query.mock.calls[0][0];
+      expect(sql).toContain('b.birthdate = a.birthdate AND b.id > a.id');
+      expect(sql).toContain('show_cast');
+      expect(sql).toContain('movie_cast');
+    });
+  });
+
+  describe('getCandidates', () => {
+    it('should transform rows and count credits as numbers', async () => {
+      mockPool.query.mockResolvedValue([
+        [
+          {
+            id: 1,
+            tmdb_id: 5001,
+            name: 'Jane Doe',
+            birthday: '1980-04-02',
+            profile_image: null,
+            show_credits: '3',
+            movie_credits: 2,
+          },
+        ],
+      ]);
+
+      const result = await getCandidates([1]);
+
+      expect(result).toEqual([
+        {
+          id: 1,
+          tmdbId: 5001,
+          name: 'Jane Doe',
+          birthday: '1980-04-02',
+          profileImage: null,
+          showCredits: 3,
+          movieCredits: 2,
+        },
+      ]);
+      expect(mockPool.query.mock.calls[0][1]).toEqual([[1]]);
+    });
+
+    it('should query large id lists in batches', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+      const ids = Array.from({ length: 1200 }, (_, index) => index + 1);
+
+      await getCandidates(ids);
+
+      expect(mockPool.query).toHaveBeenCalledTimes(3);
+      expect(mockPool.query.mock.calls[2][1]).toEqual([ids.slice(1000)]);
+    });
+  });
+
+  describe('getCredits', () => {
+    it('should group show and movie credits by person', async () => {
+      mockPool.query.mockResolvedValue([
+        [
+          { person_id: 1, credit: 'show:10' },
+          { person_id: 1, credit: 'movie:3' },
+          { person_id: 2, credit: 'show:10' },
+        ],
+      ]);
+
+      const result = await getCredits([1, 2]);
+
+      expect(result.get(1)).toEqual(new Set(['show:10', 'movie:3']));
+      expect(result.get(2)).toEqual(new Set(['show:10']));
+      expect(mockPool.query.mock.calls[0][1]).toEqual([
+        [1, 2],
+        [1, 2],
+      ]);
+    });
+  });
+
+  describe('rejections', () => {
+    it('should return rejected pairs', async () => {
+      mockPool.query.mockResolvedValue([[{ person_id: 4, other_person_id: 12 }]]);
+
+      expect(await getRejectedPairs()).toEqual([[4, 12]]);
+    });
+
+    it('should save a rejection with the lower id first', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+      await saveRejection(12, 4, 'Father and son', admin);
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain('ON DUPLICATE KEY UPDATE');
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([4, 12, 'Father and son', 'admin-1', 'admin@example.com']);
+    });
+
+    it('should delete every rejection involving a person', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 2 }]);
+
+      await deleteRejections(12);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        'DELETE FROM admin_person_duplicate_rejections WHERE person_id = ? OR other_person_id = ?',
+        [12, 12],
+      );
+    });
+  });
+
+  describe('suggestions', () => {
+    const person = (id: number) => ({
+      id,
+      tmdbId: 5000 + id,
+      name: 'Jane Doe',
+      birthday: null,
+      profileImage: null,
+      showCredits: 0,
+      movieCredits: 0,
+    });
+
+    it('should replace the stored suggestions in one transaction, lower id first', async () => {
+      mockConnection.query.mockResolvedValue([{ affectedRows: 1 }]);
+
+      await replaceSuggestions([
+        { confidence: 0.8, reasons: ['same_name'], sharedCredits: 1, source: person(12), target: person(4) },
+      ]);
+
+      expect(mockConnection.beginTransaction).toHaveBeenCalled();
+      expect(mockConnection.query).toHaveBeenNthCalledWith(1, 'DELETE FROM admin_person_duplicate_suggestions');
+      expect(mockConnection.query.mock.calls[1][1]).toEqual([[[4, 12, 12, 4, 0.8, '["same_name"]', 1]]]);
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+
+    it('should only clear the table when nothing was found', async () => {
+      mockConnection.query.mockResolvedValue([{ affectedRows: 3 }]);
+
+      await replaceSuggestions([]);
+
+      expect(mockConnection.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should page current suggestions, leaving out rejected pairs and missing people', async () => {
+      mockPool.query.mockResolvedValue([
+        [
+          {
+            source_person_id: 12,
+            target_person_id: 4,
+            confidence: '0.80',
+            reasons: '["same_name","shared_credits"]',
+            shared_credits: 1,
+          },
+        ],
+      ]);
+
+      const result = await getSuggestionPage(0.5, 20, 40);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('JOIN people p ON p.id = s.person_id');
+      expect(sql).toContain('JOIN people o ON o.id = s.other_person_id');
+      expect(sql).toContain('NOT EXISTS (SELECT 1 FROM admin_person_duplicate_rejections r');
+      expect(sql).toContain('ORDER BY s.confidence DESC, s.target_person_id, s.source_person_id');
+      expect(params).toEqual([0.5, 20, 40]);
+      expect(result).toEqual([
+        {
+          sourcePersonId: 12,
+          targetPersonId: 4,
+          confidence: 0.8,
+          reasons: ['same_name', 'shared_credits'],
+          sharedCredits: 1,
+        },
+      ]);
+    });
+
+    it('should count current suggestions', async () => {
+      mockPool.query.mockResolvedValue([[{ total: '7' }]]);
+
+      expect(await countSuggestions(0.5)).toBe(7);
+      expect(mockPool.query.mock.calls[0][0]).toContain('NOT EXISTS');
+    });
+
+    it('should check a pair in either order', async () => {
+      mockPool.query.mockResolvedValue([[{ total: 1 }]]);
+
+      expect(await isCurrentSuggestion(12, 4)).toBe(true);
+      expect(mockPool.query.mock.calls[0][0]).toContain('NOT EXISTS');
+      expect(mockPool.query.mock.calls[0][1]).toEqual([4, 12]);
+    });
+
+    it('should report a pair that is not suggested', async () => {
+      mockPool.query.mockResolvedValue([[{ total: 0 }]]);
+
+      expect(await isCurrentSuggestion(4, 12)).toBe(false);
+    });
+
+    it('should delete every suggestion involving a person', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 2 }]);
+
+      await deleteSuggestions(12);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        'DELETE FROM admin_person_duplicate_suggestions WHERE person_id = ? OR other_person_id = ?',
+        [12, 12],
+      );
+    });
+  });
+
+  describe('getExistingPersonIds', () => {
+    it('should return the ids that exist', async () => {
+      mockPool.query.mockResolvedValue([[{ id: 12 }]]);
+
+      expect(await getExistingPersonIds([12, 4])).toEqual([12]);
+      expect(mockPool.query).toHaveBeenCalledWith('SELECT id FROM people WHERE id IN (?)', [[12, 4]]);
+    });
+  });
+});
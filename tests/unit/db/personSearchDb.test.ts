@@ -0,0 +1,143 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { countPeople, searchPeople } from '@db/personSearchDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('personSearchDb', () => {
+  const mockPool = {
+    query: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+  });
+
+  describe('searchPeople', () => {
+    it('should transform rows and count credits', async () => {
+      mockPool.query.mockResolvedValue([
+        [
+          {
+            id: 1,
+            tmdb_id: 31,
+            name: 'Tom Hanks',
+            known_for_department: 'Acting',
+            profile_image: '/tom.jpg',
+            show_credits: '2',
+            movie_credits: 5,
+          },
+        ],
+      ]);
+
+      const result = await searchPeople({}, 50, 0);
+
+      expect(result).toEqual([
+        {
+          id: 1,
+          tmdbId: 31,
+          name: 'Tom Hanks',
+          knownForDepartment: 'Acting',
+          profileImage: '/tom.jpg',
+          showCredits: 2,
+          movieCredits: 5,
+          creditCount: 7,
+        },
+      ]);
+      const [sql, values] = mockPool.query.mock.calls[0];
+      expect(sql).not.toMatch(/FROM people p\s+WHERE/);
+      expect(sql).toContain('ORDER BY p.name ASC, p.id');
+      expect(values).toEqual([50, 0]);
+    });
+
+    it('should search the full-text index by word prefix and rank exact names first', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await searchPeople({ search: 'tom  han' }, 20, 40);
+
+      const [sql, values] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('WHERE MATCH(p.name) AGAINST (? IN BOOLEAN MODE)');
+      expect(sql).toContain('ORDER BY p.name = ? DESC, MATCH(p.name) AGAINST (? IN BOOLEAN MODE) DESC');
+      expect(values).toEqual(['+tom* +han*', 'tom  han', '+tom* +han*', 20, 40]);
+    });
+
+    it('should treat boolean operators typed by the user as word separators', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await searchPeople({ search: 'Jean-Luc +"Picard"', sortBy: 'name' }, 50, 0);
+
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['+Jean* +Luc* +Picard*', 50, 0]);
+    });
+
+    it('should fall back to LIKE when the search has no words', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await searchPeople({ search: '"+-*"' }, 50, 0);
+
+      const [sql, values] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('WHERE p.name LIKE ?');
+      expect(sql).toContain('ORDER BY p.name ASC');
+      expect(values).toEqual(['%"+-*"%', 50, 0]);
+    });
+
+    it('should combine every filter', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await searchPeople(
+        { firstLetter: 'T', department: 'Acting', showId: 12, movieId: 34, missingProfileImage: true },
+        50,
+        0,
+      );
+
+      const [sql, values] = mockPool.query.mock.calls[0];
+      expect(sql).toContain(
+        "WHERE p.name LIKE ? AND p.known_for_department = ? AND EXISTS (SELECT 1 FROM show_cast sc WHERE sc.person_id = p.id AND sc.show_id = ?) AND EXISTS (SELECT 1 FROM movie_cast mc WHERE mc.person_id = p.id AND mc.movie_id = ?) AND (p.profile_image IS NULL OR p.profile_image = '')",
+      );
+      expect(values).toEqual(['T%', 'Acting', 12, 34, 50, 0]);
+    });
+
+    it('should filter people with a profile image', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await searchPeople({ missingProfileImage: false }, 50, 0);
+
+      expect(mockPool.query.mock.calls[0][0]).toContain("WHERE NOT (p.profile_image IS NULL OR p.profile_image = '')");
+    });
+
+    it('should sort by credits, most first by default', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await searchPeople({ sortBy: 'credits' }, 50, 0);
+      await searchPeople({ sortBy: 'credits', sortOrder: 'asc' }, 50, 0);
+      await searchPeople({ sortBy: 'name', sortOrder: 'desc' }, 50, 0);
+
+      expect(mockPool.query.mock.calls[0][0]).toContain('ORDER BY show_credits + movie_credits DESC, p.name, p.id');
+      expect(mockPool.query.mock.calls[1][0]).toContain('ORDER BY show_credits + movie_credits ASC, p.name, p.id');
+      expect(mockPool.query.mock.calls[2][0]).toContain('ORDER BY p.name DESC, p.id');
+    });
+
+    it('should sort by name when relevance is requested without a search', async () => {
+      mockPool.query.mockResolvedValue([[]]);
+
+      await searchPeople({ sortBy: 'relevance' }, 50, 0);
+
+      expect(mockPool.query.mock.calls[0][0]).toContain('ORDER BY p.name ASC, p.id');
+    });
+  });
+
+  describe('countPeople', () => {
+    it('should count with the same filters', async () => {
+      mockPool.query.mockResolvedValue([[{ total: 42 }]]);
+
+      const result = await countPeople({ search: 'tom', department: 'Acting' });
+
+      expect(result).toBe(42);
+      const [sql, values] = mockPool.query.mock.calls[0];
+      expect(sql).toContain(
+        'SELECT COUNT(*) AS total FROM people p WHERE MATCH(p.name) AGAINST (? IN BOOLEAN MODE) AND p.known_for_department = ?',
+      );
+      expect(values).toEqual(['+tom*', 'Acting']);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { findOtherPersonByTmdbId, getCredits, getPerson } from '@db/personTmdbIdDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('personTmdbIdDb', () => {
+  const mockPool = {
+    execute: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+  });
+
+  describe('getPerson', () => {
+    it('should return the person with their birthday as a date string', async () => {
+      mockPool.execute.mockResolvedValue([[{ id: 1, tmdb_id: 31, name: 'Tom Hanks', birthday: '1956-07-09' }]]);
+
+      const result = await getPerson(1);
+
+      expect(result).toEqual({ id: 1, tmdbId: 31, name: 'Tom Hanks', birthday: '1956-07-09' });
+      expect(mockPool.execute.mock.calls[0][0]).toContain('CAST(birthdate AS CHAR) AS birthday');
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([1]);
+    });
+
+    it('should return null for an unknown person', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      expect(await getPerson(99)).toBeNull();
+    });
+  });
+
+  describe('getCredits', () => {
+    it('should return show and movie credits with their TMDB ids', async () => {
+      mockPool.execute.mockResolvedValue([
+        [
+          { content_type: 'show', id: 4, tmdb_id: 1396, title: 'Breaking Bad' },
+          { content_type: 'movie', id: 9, tmdb_id: 13, title: 'Forrest Gump' },
+        ],
+      ]);
+
+      const result = await getCredits(1);
+
+      expect(result).toEqual([
+        { contentType: 'show', id: 4, tmdbId: 1396, title: 'Breaking Bad' },
+        { contentType: 'movie', id: 9, tmdbId: 13, title: 'Forrest Gump' },
+      ]);
+      const [sql, values] = mockPool.execute.mock.calls[0];
+      expect(sql).toContain('JOIN shows s ON s.id = sc.show_id');
+      expect(sql).toContain('JOIN movies m ON m.id = mc.movie_id');
+      expect(values).toEqual([1, 1]);
+    });
+  });
+
+  describe('findOtherPersonByTmdbId', () => {
+    it('should find another person with the TMDB id', async () => {
+      mockPool.execute.mockResolvedValue([[{ id: 7, name: 'Tom Hanks' }]]);
+
+      const result = await findOtherPersonByTmdbId(31, 1);
+
+      expect(result).toEqual({ id: 7, name: 'Tom Hanks' });
+      expect(mockPool.execute.mock.calls[0][0]).toContain('WHERE tmdb_id = ? AND id <> ?');
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([31, 1]);
+    });
+
+    it('should return null when nobody else has the TMDB id', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      expect(await findOtherPersonByTmdbId(31, 1)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import { getActiveProfile, getWatchStatuses, moveProfile, upsertWatchStatuses } from '@db/profileTransferDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('profileTransferDb', () => {
+  const mockConnection = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    beginTransaction: jest.fn(),
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    release: jest.fn(),
+  };
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    getConnection: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+    mockPool.getConnection.mockResolvedValue(mockConnection);
+  });
+
+  describe('getActiveProfile', () => {
+    it('should transform the profile row', async () => {
+      mockPool.execute.mockResolvedValue([[{ profile_id: 12, account_id: 3, name: 'Kids' }]]);
+
+      expect(await getActiveProfile(12)).toEqual({ profileId: 12, accountId: 3, name: 'Kids' });
+      expect(mockPool.execute.mock.calls[0][0]).toContain('deleted_at IS NULL');
+    });
+
+    it('should return null for a missing or trashed profile', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      expect(await getActiveProfile(12)).toBeNull();
+    });
+  });
+
+  describe('moveProfile', () => {
+    it('should move the profile and leave another default profile alone', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([{ affectedRows: 1 }])
+        .mockResolvedValueOnce([[{ default_profile_id: 10 }]]);
+
+      const defaultProfileId = await moveProfile(12, 3, 4);
+
+      expect(defaultProfileId).toBe(10);
+      expect(mockConnection.execute.mock.calls[0][1]).toEqual([4, 12, 3]);
+      expect(mockConnection.execute).toHaveBeenCalledTimes(2);
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+
+    it('should reassign the old account default when the moved profile was its default', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([{ affectedRows: 1 }])
+        .mockResolvedValueOnce([[{ default_profile_id: 12 }]])
+        .mockResolvedValueOnce([[{ profile_id: 15, account_id: 3, name: 'Other' }]])
+        .mockResolvedValueOnce([{ affectedRows: 1 }]);
+
+      const defaultProfileId = await moveProfile(12, 3, 4);
+
+      expect(defaultProfileId).toBe(15);
+      expect(mockConnection.execute.mock.calls[3][0]).toContain('UPDATE accounts SET default_profile_id = ?');
+      expect(mockConnection.execute.mock.calls[3][1]).toEqual([15, 3]);
+    });
+
+    it('should roll back on failure', async () => {
+      mockConnection.execute.mockRejectedValueOnce(new Error('lock timeout'));
+
+      await expect(moveProfile(12, 3, 4)).rejects.toThrow('lock timeout');
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('getWatchStatuses', () => {
+    it('should read from the table for the content type', async () => {
+      mockPool.execute.mockResolvedValue([
+        [{ content_id: 100, show_id: 7, status: 'WATCHED', updated_at: new Date('2025-06-01T10:00:00Z') }],
+      ]);
+
+      const results = await getWatchStatuses('episode', 12);
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain('SELECT w.episode_id AS content_id');
+      expect(mockPool.execute.mock.calls[0][0]).toContain(
+        '(SELECT e.show_id FROM episodes e WHERE e.id = w.episode_id)',
+      );
+      expect(mockPool.execute.mock.calls[0][0]).toContain('FROM episode_watch_status');
+      expect(results).toEqual([
+        { contentId: 100, showId: 7, status: 'WATCHED', updatedAt: '2025-06-01T10:00:00.000Z' },
+      ]);
+    });
+
+    it('should have no show for movies', async () => {
+      mockPool.execute.mockResolvedValue([[{ content_id: 9, show_id: null, status: 'WATCHED', updated_at: null }]]);
+
+      const results = await getWatchStatuses('movie', 12);
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain('NULL AS show_id');
+      expect(results).toEqual([{ contentId: 9, showId: null, status: 'WATCHED', updatedAt: null }]);
+    });
+  });
+
+  describe('upsertWatchStatuses', () => {
+    it('should upsert every status in one transaction', async () => {
+      mockConnection.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+      await upsertWatchStatuses(20, {
+        show: [],
+        season: [],
+        episode: [],
+        movie: [{ contentId: 9, showId: null, status: 'WATCHED', updatedAt: null }],
+      });
+
+      expect(mockConnection.execute).toHaveBeenCalledTimes(1);
+      expect(mockConnection.execute.mock.calls[0][0]).toContain('INSERT INTO movie_watch_status (profile_id, movie_id');
+      expect(mockConnection.execute.mock.calls[0][0]).toContain('ON DUPLICATE KEY UPDATE');
+      expect(mockConnection.execute.mock.calls[0][1]).toEqual([20, 9, 'WATCHED']);
+      expect(mockConnection.query).not.toHaveBeenCalled();
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+
+    it('should recompute the season and show statuses of every show written to', async () => {
+      mockConnection.execute.mockResolvedValue([{ affectedRows: 1 }]);
+      mockConnection.query
+        .mockResolvedValueOnce([
+          [
+            { show_id: 1, season_id: 10, aired: 1, watched: 1 },
+            { show_id: 1, season_id: 10, aired: 1, watched: 1 },
+            { show_id: 1, season_id: 11, aired: 1, watched: 1 },
+            { show_id: 1, season_id: 11, aired: 1, watched: 0 },
+          ],
+        ])
+        .mockResolvedValueOnce([[{ id: 1, in_production: 0 }]]);
+
+      await upsertWatchStatuses(20, {
+        show: [{ contentId: 1, showId: 1, status: 'WATCHED', updatedAt: null }],
+        season: [],
+        episode: [{ contentId: 100, showId: 1, status: 'WATCHED', updatedAt: null }],
+        movie: [],
+      });
+
+      expect(mockConnection.query.mock.calls[0][0]).toContain('LEFT JOIN episode_watch_status ews');
+      expect(mockConnection.query.mock.calls[0][1]).toEqual([20, [1]]);
+      const writes = mockConnection.execute.mock.calls.map(([sql, params]) => [
+        (sql as string).match(/INSERT INTO (\w+)/)?.[1],
+        params,
+      ]);
+      expect(writes).toEqual([
+        ['show_watch_status', [20, 1, 'WATCHED']],
+        ['episode_watch_status', [20, 100, 'WATCHED']],
+        ['season_watch_status', [20, 10, 'WATCHED']],
+        ['season_watch_status', [20, 11, 'WATCHING']],
+        ['show_watch_status', [20, 1, 'WATCHING']],
+      ]);
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+  });
+});
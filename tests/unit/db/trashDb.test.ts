@@ -0,0 +1,266 @@
+import { getDbPool } from '@ajgifford/keepwatching-common-server/utils';
+import {
+  getAccountUid,
+  getExpiredTrashEntries,
+  getTrashEntries,
+  getTrashEntryCount,
+  getTrashedProfileIds,
+  isAccountTrashed,
+  isAccountUidTrashed,
+  isProfileTrashed,
+  markAccountProfilesPurged,
+  restoreEntity,
+  trashEntity,
+} from '@db/trashDb';
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getDbPool: jest.fn(),
+}));
+
+describe('trashDb', () => {
+  const mockConnection = {
+    execute: jest.fn(),
+    beginTransaction: jest.fn(),
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    release: jest.fn(),
+  };
+  const mockPool = {
+    execute: jest.fn(),
+    query: jest.fn(),
+    getConnection: jest.fn(),
+  };
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+
+  const trashRow = {
+    id: 5,
+    entity_type: 'profile',
+    entity_id: 12,
+    account_id: 3,
+    label: 'Kids',
+    status: 'trashed',
+    deleted_by_uid: 'admin-1',
+    deleted_by_email: 'admin@example.com',
+    deleted_at: new Date('2025-06-01T10:00:00Z'),
+    purge_after: new Date('2025-07-01T10:00:00Z'),
+    restored_by_uid: null,
+    restored_at: null,
+    purged_at: null,
+    firebase_disabled: 0,
+    email_preferences: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDbPool as jest.Mock).mockReturnValue(mockPool);
+    mockPool.getConnection.mockResolvedValue(mockConnection);
+  });
+
+  describe('trashEntity', () => {
+    it('should mark the profile deleted and record a trash entry in one transaction', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[{ account_id: 3, label: 'Kids' }]])
+        .mockResolvedValueOnce([{ affectedRows: 1 }])
+        .mockResolvedValueOnce([{ insertId: 5 }]);
+      mockPool.execute.mockResolvedValue([[trashRow]]);
+
+      const entry = await trashEntity('profile', 12, admin, 30);
+
+      expect(mockConnection.beginTransaction).toHaveBeenCalled();
+      expect(mockConnection.execute.mock.calls[1][0]).toContain('UPDATE profiles SET deleted_at = NOW()');
+      expect(mockConnection.execute.mock.calls[2][1]).toEqual([
+        'profile',
+        12,
+        3,
+        'Kids',
+        'admin-1',
+        'admin@example.com',
+        30,
+        false,
+        null,
+      ]);
+      expect(mockConnection.commit).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+      expect(entry).toEqual({
+        id: 5,
+        entityType: 'profile',
+        entityId: 12,
+        accountId: 3,
+        label: 'Kids',
+        status: 'trashed',
+        deletedByUid: 'admin-1',
+        deletedByEmail: 'admin@example.com',
+        deletedAt: '2025-06-01T10:00:00.000Z',
+        purgeAfter: '2025-07-01T10:00:00.000Z',
+        restoredByUid: null,
+        restoredAt: null,
+        purgedAt: null,
+        firebaseDisabled: false,
+        emailPreferences: null,
+      });
+    });
+
+    it('should record what trashing an account switched off', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[{ account_id: 3, label: 'Jo <jo@x.com>' }]])
+        .mockResolvedValueOnce([{ affectedRows: 1 }])
+        .mockResolvedValueOnce([{ insertId: 6 }]);
+      mockPool.execute.mockResolvedValue([
+        [
+          {
+            ...trashRow,
+            id: 6,
+            entity_type: 'account',
+            firebase_disabled: 1,
+            email_preferences: '{"weeklyDigest":true}',
+          },
+        ],
+      ]);
+
+      const entry = await trashEntity('account', 3, admin, 30, {
+        firebaseDisabled: true,
+        emailPreferences: { weeklyDigest: true },
+      });
+
+      expect(mockConnection.execute.mock.calls[1][0]).toContain('UPDATE accounts SET deleted_at = NOW()');
+      expect(mockConnection.execute.mock.calls[2][1].slice(-2)).toEqual([true, '{"weeklyDigest":true}']);
+      expect(entry).toEqual(
+        expect.objectContaining({ firebaseDisabled: true, emailPreferences: { weeklyDigest: true } }),
+      );
+    });
+
+    it('should return null when the entity is missing or already trashed', async () => {
+      mockConnection.execute.mockResolvedValueOnce([[]]);
+
+      const entry = await trashEntity('account', 99, admin, 30);
+
+      expect(entry).toBeNull();
+      expect(mockConnection.execute).toHaveBeenCalledTimes(1);
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+
+    it('should roll back and rethrow on failure', async () => {
+      const error = new Error('insert failed');
+      mockConnection.execute.mockResolvedValueOnce([[{ account_id: 3, label: 'Kids' }]]).mockRejectedValueOnce(error);
+
+      await expect(trashEntity('profile', 12, admin, 30)).rejects.toThrow('insert failed');
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreEntity', () => {
+    it('should clear deleted_at and mark the entry restored', async () => {
+      mockConnection.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+      await restoreEntity({ id: 5, entityType: 'account', entityId: 3 } as any, admin);
+
+      expect(mockConnection.execute.mock.calls[0][0]).toContain('UPDATE accounts SET deleted_at = NULL');
+      expect(mockConnection.execute.mock.calls[0][1]).toEqual([3]);
+      expect(mockConnection.execute.mock.calls[1][1]).toEqual(['admin-1', 5]);
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+  });
+
+  describe('getTrashEntries', () => {
+    it('should apply filters and pagination', async () => {
+      mockPool.query.mockResolvedValue([[trashRow]]);
+
+      const entries = await getTrashEntries({ entityType: 'profile', status: 'trashed', accountId: 3 }, 50, 0);
+
+      const [query, values] = mockPool.query.mock.calls[0];
+      expect(query).toContain('WHERE entity_type = ? AND status = ? AND account_id = ?');
+      expect(values).toEqual(['profile', 'trashed', 3, 50, 0]);
+      expect(entries).toHaveLength(1);
+      expect(entries[0].label).toBe('Kids');
+    });
+  });
+
+  describe('getTrashEntryCount', () => {
+    it('should return the total', async () => {
+      mockPool.query.mockResolvedValue([[{ total: 4 }]]);
+
+      const count = await getTrashEntryCount({});
+
+      expect(mockPool.query.mock.calls[0][0]).toBe('SELECT COUNT(*) AS total FROM admin_trash ');
+      expect(count).toBe(4);
+    });
+  });
+
+  describe('getExpiredTrashEntries', () => {
+    it('should only select trashed entries past their purge date', async () => {
+      mockPool.execute.mockResolvedValue([[trashRow]]);
+
+      const entries = await getExpiredTrashEntries();
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain("status = 'trashed' AND purge_after <= NOW()");
+      expect(entries).toHaveLength(1);
+    });
+  });
+
+  describe('isAccountTrashed', () => {
+    it('should return true when the account has deleted_at set', async () => {
+      mockPool.execute.mockResolvedValue([[{ 1: 1 }]]);
+      expect(await isAccountTrashed(3)).toBe(true);
+    });
+
+    it('should return false otherwise', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+      expect(await isAccountTrashed(3)).toBe(false);
+    });
+  });
+
+  describe('isProfileTrashed / isAccountUidTrashed', () => {
+    it('should look up the profile by id', async () => {
+      mockPool.execute.mockResolvedValue([[{ 1: 1 }]]);
+
+      expect(await isProfileTrashed(12)).toBe(true);
+      expect(mockPool.execute.mock.calls[0][0]).toContain(
+        'FROM profiles WHERE profile_id = ? AND deleted_at IS NOT NULL',
+      );
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([12]);
+    });
+
+    it('should look up the account by uid', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+
+      expect(await isAccountUidTrashed('uid-3')).toBe(false);
+      expect(mockPool.execute.mock.calls[0][0]).toContain('FROM accounts WHERE uid = ? AND deleted_at IS NOT NULL');
+      expect(mockPool.execute.mock.calls[0][1]).toEqual(['uid-3']);
+    });
+  });
+
+  describe('getAccountUid', () => {
+    it('should return the uid of a trashed or active account', async () => {
+      mockPool.execute.mockResolvedValue([[{ uid: 'uid-3' }]]);
+
+      expect(await getAccountUid(3)).toBe('uid-3');
+      expect(mockPool.execute.mock.calls[0][0]).not.toContain('deleted_at');
+    });
+
+    it('should return null for an unknown account', async () => {
+      mockPool.execute.mockResolvedValue([[]]);
+      expect(await getAccountUid(99)).toBeNull();
+    });
+  });
+
+  describe('getTrashedProfileIds', () => {
+    it('should return the ids of the trashed profiles of the account', async () => {
+      mockPool.execute.mockResolvedValue([[{ profile_id: 12 }, { profile_id: 14 }]]);
+
+      expect(await getTrashedProfileIds(3)).toEqual(new Set([12, 14]));
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([3]);
+    });
+  });
+
+  describe('markAccountProfilesPurged', () => {
+    it('should purge the trashed profiles of the account', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 2 }]);
+
+      await markAccountProfilesPurged(3);
+
+      expect(mockPool.execute.mock.calls[0][0]).toContain("entity_type = 'profile' AND account_id = ?");
+      expect(mockPool.execute.mock.calls[0][1]).toEqual([3]);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { Server, createServer } from 'http';
+import { AddressInfo } from 'net';
+
+export interface TMDBStub {
+  url: string;
+  requests: { path: string; query: URLSearchParams; authorization: string | undefined }[];
+  resources: Record<string, unknown>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a local TMDB stub serving `resources` by path (e.g. '/tv/1396'). Unknown paths get a 404 like TMDB's,
+ * and a resource set to a number is answered with that status code instead.
+ */
+export const startTMDBStub = async (resources: Record<string, unknown> = {}): Promise<TMDBStub> => {
+  const stub: Omit<TMDBStub, 'url' | 'close'> = { requests: [], resources };
+
+  const server: Server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    stub.requests.push({ path: url.pathname, query: url.searchParams, authorization: req.headers.authorization });
+
+    const resource = stub.resources[url.pathname];
+    if (resource === undefined || typeof resource === 'number') {
+      res.writeHead(typeof resource === 'number' ? resource : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: false, status_message: 'The resource you requested could not be found.' }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(resource));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    ...stub,
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
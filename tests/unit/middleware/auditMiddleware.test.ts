@@ -0,0 +1,109 @@
+import { auditMutations } from '@middleware/auditMiddleware';
+import { auditService } from '@services/AuditService';
+import { EventEmitter } from 'events';
+
+jest.mock('@services/AuditService', () => ({
+  auditService: {
+    recordEntry: jest.fn(),
+  },
+}));
+
+describe('auditMiddleware', () => {
+  let req: any, res: any, next: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      method: 'DELETE',
+      baseUrl: '',
+      path: '/api/v1/accounts/12',
+      route: { path: '/api/v1/accounts/:accountId' },
+      params: { accountId: '12' },
+      body: {},
+      user: { uid: 'admin-1', email: 'admin@example.com' },
+      adminRole: 'superadmin',
+    };
+    res = Object.assign(new EventEmitter(), { statusCode: 200, locals: {} });
+    next = jest.fn();
+
+    jest.clearAllMocks();
+  });
+
+  it('should skip GET requests', () => {
+    req.method = 'GET';
+
+    auditMutations(req, res, next);
+    res.emit('finish');
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(auditService.recordEntry).not.toHaveBeenCalled();
+  });
+
+  it('should skip unauthenticated requests', () => {
+    delete req.user;
+
+    auditMutations(req, res, next);
+    res.emit('finish');
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(auditService.recordEntry).not.toHaveBeenCalled();
+  });
+
+  it('should record mutating requests once the response finishes', () => {
+    auditMutations(req, res, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(auditService.recordEntry).not.toHaveBeenCalled();
+
+    res.emit('finish');
+
+    expect(auditService.recordEntry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        adminUid: 'admin-1',
+        adminEmail: 'admin@example.com',
+        adminRole: 'superadmin',
+        method: 'DELETE',
+        route: '/api/v1/accounts/:accountId',
+        action: 'delete',
+        entityType: 'account',
+        entityId: '12',
+        params: { accountId: '12' },
+        bodySummary: null,
+        details: null,
+        statusCode: 200,
+      }),
+    );
+  });
+
+  it('should include controller supplied details and the failure status', () => {
+    req.method = 'PUT';
+    req.body = { name: 'New Name' };
+
+    auditMutations(req, res, next);
+    res.statusCode = 500;
+    res.locals.auditDetails = { before: { name: 'Old' } };
+    res.emit('finish');
+
+    expect(auditService.recordEntry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'update',
+        bodySummary: { name: 'New Name' },
+        details: { before: { name: 'Old' } },
+        statusCode: 500,
+      }),
+    );
+  });
+
+  it('should fall back to the request path for unmatched routes', () => {
+    delete req.route;
+    req.params = {};
+    req.method = 'POST';
+    req.path = '/api/v1/unknown';
+
+    auditMutations(req, res, next);
+    res.emit('finish');
+
+    expect(auditService.recordEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ route: '/api/v1/unknown', entityType: 'unknown', entityId: null }),
+    );
+  });
+});
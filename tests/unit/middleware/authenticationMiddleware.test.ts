@@ -0,0 +1,76 @@
+import { getFirebaseAdmin } from '@ajgifford/keepwatching-common-server/utils';
+import { authenticateAdmin } from '@middleware/authenticationMiddleware';
+
+jest.mock('@ajgifford/keepwatching-common-server/config', () => ({
+  getServiceName: jest.fn(() => 'keepwatching'),
+  getAdminServiceName: jest.fn(() => 'keepwatching-admin'),
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getFirebaseAdmin: jest.fn(),
+}));
+
+describe('authenticationMiddleware', () => {
+  let req: any, res: any, next: jest.Mock;
+  const verifyIdToken = jest.fn();
+
+  beforeEach(() => {
+    req = { headers: { authorization: 'Bearer valid-token' } };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    next = jest.fn();
+
+    jest.clearAllMocks();
+    delete process.env.ADMIN_DEFAULT_ROLE;
+    (getFirebaseAdmin as jest.Mock).mockReturnValue({ auth: () => ({ verifyIdToken }) });
+  });
+
+  it('should reject requests without a bearer token', async () => {
+    req.headers = {};
+
+    await authenticateAdmin(req, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should attach the decoded token and role claim', async () => {
+    verifyIdToken.mockResolvedValue({ uid: 'admin-1', role: 'support' });
+
+    await authenticateAdmin(req, res, next);
+
+    expect(getFirebaseAdmin).toHaveBeenCalledWith('keepwatching-admin');
+    expect(req.user).toEqual({ uid: 'admin-1', role: 'support' });
+    expect(req.adminRole).toBe('support');
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should default to the viewer role when no role claim is present', async () => {
+    verifyIdToken.mockResolvedValue({ uid: 'admin-1' });
+
+    await authenticateAdmin(req, res, next);
+
+    expect(req.adminRole).toBe('viewer');
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return 500 when the Firebase app is unavailable', async () => {
+    (getFirebaseAdmin as jest.Mock).mockReturnValue(undefined);
+
+    await authenticateAdmin(req, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 when the token cannot be verified', async () => {
+    verifyIdToken.mockRejectedValue(new Error('expired'));
+
+    await authenticateAdmin(req, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Unauthorized' });
+  });
+});
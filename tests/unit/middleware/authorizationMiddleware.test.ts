@@ -0,0 +1,43 @@
+import { requirePermission } from '@middleware/authorizationMiddleware';
+
+describe('authorizationMiddleware', () => {
+  let req: any, res: any, next: jest.Mock;
+
+  beforeEach(() => {
+    req = { user: { uid: 'admin-1' }, adminRole: 'viewer' };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    next = jest.fn();
+  });
+
+  it('should call next when the role grants the permission', () => {
+    requirePermission('statistics:read')(req, res, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 with the missing permission when the role does not grant it', () => {
+    requirePermission('accounts:delete')(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'Forbidden',
+      role: 'viewer',
+      missingPermission: 'accounts:delete',
+    });
+  });
+
+  it('should return 401 when the request was not authenticated', () => {
+    req = {};
+
+    requirePermission('statistics:read')(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Unauthorized' });
+  });
+});
@@ -0,0 +1,89 @@
+import * as trashDb from '@db/trashDb';
+import { rejectTrashedAccount, rejectTrashedAccountUid, rejectTrashedProfile } from '@middleware/trashMiddleware';
+
+jest.mock('@db/trashDb');
+
+const mockTrashDb = trashDb as jest.Mocked<typeof trashDb>;
+
+describe('trashMiddleware', () => {
+  let req: any, res: any, next: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    req = {};
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    next = jest.fn();
+  });
+
+  describe('rejectTrashedAccount', () => {
+    it('should call next for an account that is not trashed', async () => {
+      mockTrashDb.isAccountTrashed.mockResolvedValue(false);
+
+      await rejectTrashedAccount(req, res, next, '3');
+
+      expect(mockTrashDb.isAccountTrashed).toHaveBeenCalledWith(3);
+      expect(next).toHaveBeenCalledWith();
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a trashed account', async () => {
+      mockTrashDb.isAccountTrashed.mockResolvedValue(true);
+
+      await rejectTrashedAccount(req, res, next, '3');
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Account 3 is in the trash' });
+    });
+
+    it('should leave malformed ids to param validation', async () => {
+      await rejectTrashedAccount(req, res, next, 'abc');
+
+      expect(mockTrashDb.isAccountTrashed).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should pass lookup errors to next', async () => {
+      const error = new Error('db down');
+      mockTrashDb.isAccountTrashed.mockRejectedValue(error);
+
+      await rejectTrashedAccount(req, res, next, '3');
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('rejectTrashedAccountUid', () => {
+    it('should return 404 for a trashed account', async () => {
+      mockTrashDb.isAccountUidTrashed.mockResolvedValue(true);
+
+      await rejectTrashedAccountUid(req, res, next, 'uid-3');
+
+      expect(mockTrashDb.isAccountUidTrashed).toHaveBeenCalledWith('uid-3');
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('rejectTrashedProfile', () => {
+    it('should return 404 for a trashed profile', async () => {
+      mockTrashDb.isProfileTrashed.mockResolvedValue(true);
+
+      await rejectTrashedProfile(req, res, next, '12');
+
+      expect(mockTrashDb.isProfileTrashed).toHaveBeenCalledWith(12);
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Profile 12 is in the trash' });
+    });
+
+    it('should call next for a profile that is not trashed', async () => {
+      mockTrashDb.isProfileTrashed.mockResolvedValue(false);
+
+      await rejectTrashedProfile(req, res, next, '12');
+
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+});
@@ -1,18 +1,53 @@
+import {
+  getAccountExport,
+  getAccountExports,
+  getAccountOverview,
+  revokeFirebaseTokens,
+  revokeImpersonationSession,
+} from '@controllers/accountManagementController';
+import { rejectTrashedAccount, rejectTrashedAccountUid, rejectTrashedProfile } from '@middleware/trashMiddleware';
 import router from '@routes/accountManagementRouter';
 import express from 'express';
 import request from 'supertest';
 
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
+jest.mock('@middleware/trashMiddleware', () => ({
+  rejectTrashedAccount: jest.fn((_req: any, _res: any, next: () => any) => next()),
+  rejectTrashedAccountUid: jest.fn((_req: any, _res: any, next: () => any) => next()),
+  rejectTrashedProfile: jest.fn((_req: any, _res: any, next: () => any) => next()),
+}));
+
 jest.mock('@controllers/accountManagementController', () => ({
   getAccounts: jest.fn((_req, res) => res.status(200).send('retrieved account')),
+  bulkAccountAction: jest.fn((_req, res) => res.status(200).send('bulk action completed')),
+  getAccountDetails: jest.fn((_req, res) => res.status(200).send('retrieved account details')),
   editAccount: jest.fn((_req, res) => res.status(200).send('account edited')),
+  disableFirebaseUser: jest.fn((_req, res) => res.status(200).send('firebase user disabled')),
+  enableFirebaseUser: jest.fn((_req, res) => res.status(200).send('firebase user enabled')),
+  revokeFirebaseTokens: jest.fn((_req, res) => res.status(200).send('firebase tokens revoked')),
+  generatePasswordResetLink: jest.fn((_req, res) => res.status(200).send('password reset link generated')),
   deleteAccount: jest.fn((_req, res) => res.status(200).send('account deleted')),
+  impersonateAccount: jest.fn((_req, res) => res.status(201).send('impersonation started')),
+  getImpersonationSessions: jest.fn((_req, res) => res.status(200).send('retrieved impersonation sessions')),
+  revokeImpersonationSession: jest.fn((_req, res) => res.status(200).send('impersonation revoked')),
+  getAccountOverview: jest.fn((_req, res) => res.status(200).send('retrieved account overview')),
+  requestAccountExport: jest.fn((_req, res) => res.status(202).send('export started')),
+  getAccountExports: jest.fn((_req, res) => res.status(200).send('retrieved account exports')),
+  getAccountExport: jest.fn((_req, res) => res.status(200).send('retrieved account export')),
+  downloadAccountExport: jest.fn((_req, res) => res.status(200).send('downloaded account export')),
   getProfiles: jest.fn((_req, res) => res.status(200).send('retrieved profile')),
   editProfile: jest.fn((_req, res) => res.status(200).send('profile edited')),
   deleteProfile: jest.fn((_req, res) => res.status(200).send('profile deleted')),
+  moveProfile: jest.fn((_req, res) => res.status(200).send('profile moved')),
+  mergeProfiles: jest.fn((_req, res) => res.status(200).send('profiles merged')),
   getProfileShowsList: jest.fn((_req, res) => res.status(200).send('retrieved profile shows')),
   getProfileMoviesList: jest.fn((_req, res) => res.status(200).send('retrieved profile movies')),
   verifyEmail: jest.fn((_req, res) => res.status(200).send('email verified')),
   getAccountPreferences: jest.fn((_req, res) => res.status(200).send('retrieved account preferences')),
+  updateAccountPreferences: jest.fn((_req, res) => res.status(200).send('account preferences updated')),
 }));
 
 jest.mock('@ajgifford/keepwatching-common-server', () => ({
@@ -25,12 +60,24 @@ app.use(express.json());
 app.use(router);
 
 describe('AccountManagementRouter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
   it('GET /api/v1/accounts', async () => {
     const res = await request(app).get('/api/v1/accounts').send({});
     expect(res.status).toBe(200);
     expect(res.text).toBe('retrieved account');
   });
 
+  it('POST /api/v1/accounts/bulk', async () => {
+    const res = await request(app)
+      .post('/api/v1/accounts/bulk')
+      .send({ action: 'verify-email', accountIds: [1, 2] });
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('bulk action completed');
+  });
+
   it('PUT /api/v1/accounts/:accountId', async () => {
     const res = await request(app).put('/api/v1/accounts/123').send({});
     expect(res.status).toBe(200);
@@ -43,6 +90,39 @@ describe('AccountManagementRouter', () => {
     expect(res.text).toBe('account deleted');
   });
 
+  it('GET /api/v1/accounts/:accountId/overview', async () => {
+    const res = await request(app).get('/api/v1/accounts/123/overview').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved account overview');
+    expect(getAccountOverview).toHaveBeenCalled();
+    expect(getAccountExport).not.toHaveBeenCalled();
+    expect(getAccountExports).not.toHaveBeenCalled();
+  });
+
+  it('POST /api/v1/accounts/:accountId/export', async () => {
+    const res = await request(app).post('/api/v1/accounts/123/export').send({});
+    expect(res.status).toBe(202);
+    expect(res.text).toBe('export started');
+  });
+
+  it('GET /api/v1/accounts/:accountId/export', async () => {
+    const res = await request(app).get('/api/v1/accounts/123/export').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved account exports');
+  });
+
+  it('GET /api/v1/accounts/:accountId/export/:exportId', async () => {
+    const res = await request(app).get('/api/v1/accounts/123/export/abc').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved account export');
+  });
+
+  it('GET /api/v1/accounts/:accountId/export/:exportId/download', async () => {
+    const res = await request(app).get('/api/v1/accounts/123/export/abc/download').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('downloaded account export');
+  });
+
   it('GET /api/v1/accounts/:accountId/profiles', async () => {
     const res = await request(app).get('/api/v1/accounts/123/profiles').send({});
     expect(res.status).toBe(200);
@@ -84,4 +164,74 @@ describe('AccountManagementRouter', () => {
     expect(res.status).toBe(200);
     expect(res.text).toBe('retrieved account preferences');
   });
+
+  it('PUT /api/v1/accounts/:accountId/preferences/:preferenceType', async () => {
+    const res = await request(app).put('/api/v1/accounts/123/preferences/email').send({ weeklyDigest: false });
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('account preferences updated');
+  });
+
+  it('POST /api/v1/accounts/:accountId/profiles/:profileId/move', async () => {
+    const res = await request(app).post('/api/v1/accounts/123/profiles/1001/move').send({ targetAccountId: 456 });
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('profile moved');
+  });
+
+  it('POST /api/v1/accounts/:accountId/profiles/:profileId/merge', async () => {
+    const res = await request(app)
+      .post('/api/v1/accounts/123/profiles/1001/merge')
+      .send({ targetProfileId: 1002, strategy: 'latest' });
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('profiles merged');
+  });
+
+  it('GET /api/v1/accounts/:accountId', async () => {
+    const res = await request(app).get('/api/v1/accounts/123').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved account details');
+  });
+
+  it.each([
+    ['disable', 'firebase user disabled'],
+    ['enable', 'firebase user enabled'],
+    ['revoke-tokens', 'firebase tokens revoked'],
+    ['password-reset-link', 'password reset link generated'],
+  ])('POST /api/v1/accounts/:accountId/firebase/%s', async (action, text) => {
+    const res = await request(app).post(`/api/v1/accounts/123/firebase/${action}`).send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe(text);
+  });
+
+  it('POST /api/v1/accounts/:accountId/firebase/revoke-tokens does not revoke impersonation sessions', async () => {
+    await request(app).post('/api/v1/accounts/123/firebase/revoke-tokens').send({});
+    expect(revokeFirebaseTokens).toHaveBeenCalled();
+    expect(revokeImpersonationSession).not.toHaveBeenCalled();
+  });
+
+  it('POST /api/v1/accounts/:accountId/impersonate', async () => {
+    const res = await request(app).post('/api/v1/accounts/123/impersonate').send({ reason: 'Support ticket' });
+    expect(res.status).toBe(201);
+    expect(res.text).toBe('impersonation started');
+  });
+
+  it('GET /api/v1/accounts/:accountId/impersonations', async () => {
+    const res = await request(app).get('/api/v1/accounts/123/impersonations').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved impersonation sessions');
+  });
+
+  it('POST /api/v1/accounts/:accountId/impersonations/:sessionId/revoke', async () => {
+    const res = await request(app).post('/api/v1/accounts/123/impersonations/abc/revoke').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('impersonation revoked');
+  });
+
+  it('checks the trash for the account and profile params', async () => {
+    await request(app).get('/api/v1/accounts/123/profiles/45/shows');
+    await request(app).post('/api/v1/accounts/uid-123/verify-email');
+
+    expect((rejectTrashedAccount as jest.Mock).mock.calls[0][3]).toBe('123');
+    expect((rejectTrashedProfile as jest.Mock).mock.calls[0][3]).toBe('45');
+    expect((rejectTrashedAccountUid as jest.Mock).mock.calls[0][3]).toBe('uid-123');
+  });
 });
@@ -2,6 +2,10 @@ import router from '@routes/adminRouter';
 import express from 'express';
 import request from 'supertest';
 
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
 jest.mock('@controllers/adminController', () => ({
   getServicesHealth: jest.fn((_req, res) => res.status(200).send('retrieved admin health')),
   getSummaryCounts: jest.fn((_req, res) => res.status(200).send('retrieved summary counts')),
@@ -0,0 +1,23 @@
+import router from '@routes/auditRouter';
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
+jest.mock('@controllers/auditController', () => ({
+  getAuditLog: jest.fn((_req, res) => res.status(200).send('retrieved audit log')),
+}));
+
+const app = express();
+app.use(express.json());
+app.use(router);
+
+describe('AuditRouter', () => {
+  it('GET /api/v1/admin/audit', async () => {
+    const res = await request(app).get('/api/v1/admin/audit').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved audit log');
+  });
+});
@@ -0,0 +1,37 @@
+import router from '@routes/contentHistoryRouter';
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
+jest.mock('@controllers/contentHistoryController', () => ({
+  getShowHistory: jest.fn((_req, res) => res.status(200).send('retrieved show history')),
+  getMovieHistory: jest.fn((_req, res) => res.status(200).send('retrieved movie history')),
+  getRecentContentChanges: jest.fn((_req, res) => res.status(200).send('retrieved content changes')),
+}));
+
+const app = express();
+app.use(express.json());
+app.use(router);
+
+describe('ContentHistoryRouter', () => {
+  it('GET /api/v1/shows/:showId/history', async () => {
+    const res = await request(app).get('/api/v1/shows/10/history').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved show history');
+  });
+
+  it('GET /api/v1/movies/:movieId/history', async () => {
+    const res = await request(app).get('/api/v1/movies/17/history').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved movie history');
+  });
+
+  it('GET /api/v1/content/changes', async () => {
+    const res = await request(app).get('/api/v1/content/changes').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved content changes');
+  });
+});
@@ -2,8 +2,13 @@ import router from '@routes/contentRouter';
 import express from 'express';
 import request from 'supertest';
 
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
 jest.mock('@controllers/contentController', () => ({
   getShows: jest.fn((_req, res) => res.status(200).send('retrieved shows')),
+  importShow: jest.fn((_req, res) => res.status(201).send('show imported')),
   getShowsWithDuplicates: jest.fn((_req, res) => res.status(200).send('retrieved shows with duplicates')),
   getFullShowDetails: jest.fn((_req, res) => res.status(200).send('retrieved show details')),
   getShowDetails: jest.fn((_req, res) => res.status(200).send('retrieved show info')),
@@ -12,24 +17,40 @@ jest.mock('@controllers/contentController', () => ({
   getShowProfiles: jest.fn((_req, res) => res.status(200).send('retrieved show profiles')),
   getShowWatchProgress: jest.fn((_req, res) => res.status(200).send('retrieved watch progress')),
   getDuplicateEpisodes: jest.fn((_req, res) => res.status(200).send('retrieved duplicate episodes')),
+  resolveDuplicateEpisodes: jest.fn((_req, res) => res.status(200).send('resolved duplicate episodes')),
+  resolveAllDuplicateEpisodes: jest.fn((_req, res) => res.status(200).send('resolved all duplicate episodes')),
+  setShowOverrides: jest.fn((_req, res) => res.status(200).send('show overrides updated')),
+  setEpisodeOverrides: jest.fn((_req, res) => res.status(200).send('episode overrides updated')),
   deleteEpisode: jest.fn((_req, res) => res.status(200).send('episode deleted')),
   updateShow: jest.fn((_req, res) => res.status(200).send('show updated')),
   updateAllShows: jest.fn((_req, res) => res.status(200).send('all shows updated')),
+  refreshShows: jest.fn((_req, res) => res.status(200).send('shows refreshed')),
   getMovies: jest.fn((_req, res) => res.status(200).send('retrieved movies')),
+  importMovie: jest.fn((_req, res) => res.status(201).send('movie imported')),
   getFullMovieDetails: jest.fn((_req, res) => res.status(200).send('retrieved movie details')),
   getMovieDetails: jest.fn((_req, res) => res.status(200).send('retrieved movie info')),
   getMovieProfiles: jest.fn((_req, res) => res.status(200).send('retrieved movie profiles')),
+  setMovieOverrides: jest.fn((_req, res) => res.status(200).send('movie overrides updated')),
   updateMovie: jest.fn((_req, res) => res.status(200).send('movie updated')),
   updateAllMovies: jest.fn((_req, res) => res.status(200).send('all movies updated')),
+  refreshMovies: jest.fn((_req, res) => res.status(200).send('movies refreshed')),
   getPeople: jest.fn((_req, res) => res.status(200).send('retrieved people')),
+  searchPeople: jest.fn((_req, res) => res.status(200).send('searched people')),
   getPersonDetails: jest.fn((_req, res) => res.status(200).send('retrieved person details')),
   updatePerson: jest.fn((_req, res) => res.status(200).send('person updated')),
   getPersonByTmdbId: jest.fn((_req, res) => res.status(200).send('retrieved person by TMDB')),
+  getPersonDuplicates: jest.fn((_req, res) => res.status(200).send('retrieved person duplicates')),
+  acceptPersonDuplicate: jest.fn((_req, res) => res.status(200).send('person duplicate accepted')),
+  rejectPersonDuplicate: jest.fn((_req, res) => res.status(200).send('person duplicate rejected')),
   getPersonFailures: jest.fn((_req, res) => res.status(200).send('retrieved person failures')),
+  getPersonFailureSummary: jest.fn((_req, res) => res.status(200).send('retrieved person failure summary')),
+  retryPersonFailures: jest.fn((_req, res) => res.status(200).send('retried person failures')),
+  bulkResolvePersonFailures: jest.fn((_req, res) => res.status(200).send('bulk resolved person failures')),
   getPersonFailure: jest.fn((_req, res) => res.status(200).send('retrieved person failure')),
   resolvePersonFailure: jest.fn((_req, res) => res.status(200).send('resolved person failure')),
   mergeAndDeletePerson: jest.fn((_req, res) => res.status(200).send('person merged and deleted')),
   deletePerson: jest.fn((_req, res) => res.status(200).send('person deleted')),
+  previewPersonTmdbId: jest.fn((_req, res) => res.status(200).send('person TMDB id previewed')),
   updatePersonTmdbId: jest.fn((_req, res) => res.status(200).send('person TMDB id updated')),
 }));
 
@@ -45,6 +66,12 @@ describe('ContentRouter', () => {
       expect(res.text).toBe('retrieved shows');
     });
 
+    it('POST /api/v1/shows', async () => {
+      const res = await request(app).post('/api/v1/shows').send({ tmdbId: 1396 });
+      expect(res.status).toBe(201);
+      expect(res.text).toBe('show imported');
+    });
+
     it('GET /api/v1/shows/:showId', async () => {
       const res = await request(app).get('/api/v1/shows/123').send({});
       expect(res.status).toBe(200);
@@ -93,6 +120,30 @@ describe('ContentRouter', () => {
       expect(res.text).toBe('retrieved duplicate episodes');
     });
 
+    it('POST /api/v1/shows/:showId/duplicateEpisodes/resolve', async () => {
+      const res = await request(app).post('/api/v1/shows/123/duplicateEpisodes/resolve').send({ dryRun: true });
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('resolved duplicate episodes');
+    });
+
+    it('POST /api/v1/shows/duplicates/resolve', async () => {
+      const res = await request(app).post('/api/v1/shows/duplicates/resolve').send({ dryRun: true });
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('resolved all duplicate episodes');
+    });
+
+    it('PUT /api/v1/shows/:showId/overrides', async () => {
+      const res = await request(app).put('/api/v1/shows/123/overrides').send({ title: 'Renamed' });
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('show overrides updated');
+    });
+
+    it('PUT /api/v1/shows/:showId/episodes/:episodeId/overrides', async () => {
+      const res = await request(app).put('/api/v1/shows/123/episodes/456/overrides').send({ title: 'Pilot' });
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('episode overrides updated');
+    });
+
     it('DELETE /api/v1/shows/:showId/episodes/:episodeId', async () => {
       const res = await request(app).delete('/api/v1/shows/123/episodes/456').send({});
       expect(res.status).toBe(200);
@@ -110,6 +161,12 @@ describe('ContentRouter', () => {
       expect(res.status).toBe(200);
       expect(res.text).toBe('all shows updated');
     });
+
+    it('POST /api/v1/shows/refresh', async () => {
+      const res = await request(app).post('/api/v1/shows/refresh?status=Returning%20Series').send({});
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('shows refreshed');
+    });
   });
 
   describe('Movies Routes', () => {
@@ -119,6 +176,12 @@ describe('ContentRouter', () => {
       expect(res.text).toBe('retrieved movies');
     });
 
+    it('POST /api/v1/movies', async () => {
+      const res = await request(app).post('/api/v1/movies').send({ tmdbId: 348 });
+      expect(res.status).toBe(201);
+      expect(res.text).toBe('movie imported');
+    });
+
     it('GET /api/v1/movies/:movieId', async () => {
       const res = await request(app).get('/api/v1/movies/456').send({});
       expect(res.status).toBe(200);
@@ -137,6 +200,12 @@ describe('ContentRouter', () => {
       expect(res.text).toBe('retrieved movie profiles');
     });
 
+    it('PUT /api/v1/movies/:movieId/overrides', async () => {
+      const res = await request(app).put('/api/v1/movies/123/overrides').send({ runtime: 118 });
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('movie overrides updated');
+    });
+
     it('POST /api/v1/movies/update', async () => {
       const res = await request(app).post('/api/v1/movies/update').send({});
       expect(res.status).toBe(200);
@@ -148,6 +217,12 @@ describe('ContentRouter', () => {
       expect(res.status).toBe(200);
       expect(res.text).toBe('all movies updated');
     });
+
+    it('POST /api/v1/movies/refresh', async () => {
+      const res = await request(app).post('/api/v1/movies/refresh?ids=1,2').send({});
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('movies refreshed');
+    });
   });
 
   describe('People Routes', () => {
@@ -157,6 +232,12 @@ describe('ContentRouter', () => {
       expect(res.text).toBe('retrieved people');
     });
 
+    it('GET /api/v1/people/search', async () => {
+      const res = await request(app).get('/api/v1/people/search').send({});
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('searched people');
+    });
+
     it('GET /api/v1/people/:personId', async () => {
       const res = await request(app).get('/api/v1/people/789').send({});
       expect(res.status).toBe(200);
@@ -169,12 +250,50 @@ describe('ContentRouter', () => {
       expect(res.text).toBe('person updated');
     });
 
+    it('GET /api/v1/people/duplicates', async () => {
+      const res = await request(app).get('/api/v1/people/duplicates').send({});
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('retrieved person duplicates');
+    });
+
+    it('POST /api/v1/people/duplicates/:personId/merge/:targetPersonId', async () => {
+      const res = await request(app).post('/api/v1/people/duplicates/12/merge/4').send({});
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('person duplicate accepted');
+    });
+
+    it('POST /api/v1/people/duplicates/:personId/reject/:otherPersonId', async () => {
+      const res = await request(app).post('/api/v1/people/duplicates/12/reject/4').send({ notes: 'Different people' });
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('person duplicate rejected');
+    });
+
     it('GET /api/v1/people/failures', async () => {
       const res = await request(app).get('/api/v1/people/failures').send({});
       expect(res.status).toBe(200);
       expect(res.text).toBe('retrieved person failures');
     });
 
+    it('GET /api/v1/people/failures/summary', async () => {
+      const res = await request(app).get('/api/v1/people/failures/summary').send({});
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('retrieved person failure summary');
+    });
+
+    it('POST /api/v1/people/failures/retry', async () => {
+      const res = await request(app).post('/api/v1/people/failures/retry').send({ all: true });
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('retried person failures');
+    });
+
+    it('PUT /api/v1/people/failures/bulk-resolve', async () => {
+      const res = await request(app)
+        .put('/api/v1/people/failures/bulk-resolve')
+        .send({ failureIds: [1], notes: 'x' });
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('bulk resolved person failures');
+    });
+
     it('GET /api/v1/people/failures/:failureId', async () => {
       const res = await request(app).get('/api/v1/people/failures/123').send({});
       expect(res.status).toBe(200);
@@ -205,6 +324,12 @@ describe('ContentRouter', () => {
       expect(res.text).toBe('person deleted');
     });
 
+    it('GET /api/v1/people/:personId/tmdb-id/preview', async () => {
+      const res = await request(app).get('/api/v1/people/789/tmdb-id/preview?tmdbId=31').send({});
+      expect(res.status).toBe(200);
+      expect(res.text).toBe('person TMDB id previewed');
+    });
+
     it('PUT /api/v1/people/:personId/tmdb-id', async () => {
       const res = await request(app).put('/api/v1/people/789/tmdb-id').send({});
       expect(res.status).toBe(200);
@@ -0,0 +1,44 @@
+import router from '@routes/contentUpdateRunRouter';
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
+jest.mock('@controllers/contentUpdateRunController', () => ({
+  getContentUpdateRuns: jest.fn((_req, res) => res.status(200).send('retrieved update runs')),
+  getContentUpdateRun: jest.fn((_req, res) => res.status(200).send('retrieved update run')),
+  streamContentUpdateRun: jest.fn((_req, res) => res.status(200).send('streamed update run')),
+  cancelContentUpdateRun: jest.fn((_req, res) => res.status(200).send('cancelled update run')),
+}));
+
+const app = express();
+app.use(express.json());
+app.use(router);
+
+describe('ContentUpdateRunRouter', () => {
+  it('GET /api/v1/content/update-runs', async () => {
+    const res = await request(app).get('/api/v1/content/update-runs').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved update runs');
+  });
+
+  it('GET /api/v1/content/update-runs/:runId', async () => {
+    const res = await request(app).get('/api/v1/content/update-runs/run-1').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved update run');
+  });
+
+  it('GET /api/v1/content/update-runs/:runId/stream', async () => {
+    const res = await request(app).get('/api/v1/content/update-runs/run-1/stream').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('streamed update run');
+  });
+
+  it('POST /api/v1/content/update-runs/:runId/cancel', async () => {
+    const res = await request(app).post('/api/v1/content/update-runs/run-1/cancel').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('cancelled update run');
+  });
+});
@@ -0,0 +1,30 @@
+import router from '@routes/dataQualityRouter';
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
+jest.mock('@controllers/dataQualityController', () => ({
+  getContentIssues: jest.fn((_req, res) => res.status(200).send('retrieved content issues')),
+  fixContentIssue: jest.fn((_req, res) => res.status(200).send('fixed content issue')),
+}));
+
+const app = express();
+app.use(express.json());
+app.use(router);
+
+describe('DataQualityRouter', () => {
+  it('GET /api/v1/admin/content/issues', async () => {
+    const res = await request(app).get('/api/v1/admin/content/issues').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved content issues');
+  });
+
+  it('POST /api/v1/admin/content/issues/:issueId/fix', async () => {
+    const res = await request(app).post('/api/v1/admin/content/issues/4/fix').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('fixed content issue');
+  });
+});
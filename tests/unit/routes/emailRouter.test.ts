@@ -2,6 +2,10 @@ import router from '@routes/emailRouter';
 import express from 'express';
 import request from 'supertest';
 
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
 jest.mock('@controllers/emailController', () => ({
   previewWeeklyEmailByAccount: jest.fn((_req, res) => res.status(200).send('email preview generated')),
   sendWeeklyDigestEmailByAccount: jest.fn((_req, res) => res.status(200).send('digest email sent')),
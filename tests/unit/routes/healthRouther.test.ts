@@ -2,6 +2,10 @@ import router from '@routes/healthRouter';
 import express from 'express';
 import request from 'supertest';
 
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
 jest.mock('@controllers/healthController', () => ({
   archiveDailyPerformance: jest.fn((_req, res) => res.status(200).send('daily performance archived')),
   getArchiveLogs: jest.fn((_req, res) => res.status(200).send('retrieved archive logs')),
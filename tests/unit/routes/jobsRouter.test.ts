@@ -3,6 +3,11 @@ import express, { Express } from 'express';
 import jobsRouter from '@routes/jobsRouter';
 import * as jobsController from '@controllers/jobsController';
 
+// Bypass permission checks
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
 // Mock the controllers
 jest.mock('@controllers/jobsController');
 
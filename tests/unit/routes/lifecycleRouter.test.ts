@@ -0,0 +1,23 @@
+import router from '@routes/lifecycleRouter';
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
+jest.mock('@controllers/lifecycleController', () => ({
+  getAccountLifecycle: jest.fn((_req, res) => res.status(200).send('retrieved account lifecycle')),
+}));
+
+const app = express();
+app.use(express.json());
+app.use(router);
+
+describe('LifecycleRouter', () => {
+  it('GET /api/v1/admin/accounts/lifecycle', async () => {
+    const res = await request(app).get('/api/v1/admin/accounts/lifecycle').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved account lifecycle');
+  });
+});
@@ -2,6 +2,10 @@ import router from '@routes/logRouter';
 import express from 'express';
 import request from 'supertest';
 
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
 jest.mock('@controllers/logsController', () => ({
   getLogs: jest.fn((_req, res) => res.status(200).send('retrieved logs')),
   streamLogs: jest.fn((_req, res) => res.status(200).send('streaming logs')),
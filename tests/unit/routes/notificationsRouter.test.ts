@@ -2,6 +2,10 @@ import router from '@routes/notificationsRouter';
 import express from 'express';
 import request from 'supertest';
 
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
 jest.mock('@controllers/notificationController', () => ({
   getAllNotifications: jest.fn((_req, res) => res.status(200).send('retrieved notifications')),
   addNotification: jest.fn((_req, res) => res.status(200).send('notification added')),
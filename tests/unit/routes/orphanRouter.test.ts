@@ -0,0 +1,44 @@
+import router from '@routes/orphanRouter';
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
+jest.mock('@controllers/orphanController', () => ({
+  getOrphans: jest.fn((_req, res) => res.status(200).send('retrieved orphans')),
+  runOrphanCleanup: jest.fn((_req, res) => res.status(200).send('ran orphan cleanup')),
+  getOrphanCleanupRuns: jest.fn((_req, res) => res.status(200).send('retrieved orphan cleanup runs')),
+  getOrphanCleanupRun: jest.fn((_req, res) => res.status(200).send('retrieved orphan cleanup run')),
+}));
+
+const app = express();
+app.use(express.json());
+app.use(router);
+
+describe('OrphanRouter', () => {
+  it('GET /api/v1/admin/content/orphans', async () => {
+    const res = await request(app).get('/api/v1/admin/content/orphans').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved orphans');
+  });
+
+  it('POST /api/v1/admin/content/orphans/cleanup', async () => {
+    const res = await request(app).post('/api/v1/admin/content/orphans/cleanup').send({ dryRun: true });
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('ran orphan cleanup');
+  });
+
+  it('GET /api/v1/admin/content/orphans/runs', async () => {
+    const res = await request(app).get('/api/v1/admin/content/orphans/runs').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved orphan cleanup runs');
+  });
+
+  it('GET /api/v1/admin/content/orphans/runs/:runId', async () => {
+    const res = await request(app).get('/api/v1/admin/content/orphans/runs/4').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved orphan cleanup run');
+  });
+});
@@ -2,6 +2,10 @@ import router from '@routes/ratingsAndRecommendationsRouter';
 import express from 'express';
 import request from 'supertest';
 
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
 jest.mock('@controllers/ratingsAndRecommendationsController', () => ({
   getContentRatingSummary: jest.fn((_req, res) => res.status(200).send('rating summary')),
   getRatings: jest.fn((_req, res) => res.status(200).send('ratings')),
@@ -2,6 +2,14 @@ import router from '@routes/statistics/accountStatisticsRouter';
 import express from 'express';
 import request from 'supertest';
 
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
+jest.mock('@middleware/trashMiddleware', () => ({
+  rejectTrashedAccount: (_req: any, _res: any, next: () => any) => next(),
+}));
+
 jest.mock('@controllers/accountStatisticsController', () => ({
   getAccountStatistics: jest.fn((_req, res) => res.status(200).send('retrieved account statistics')),
   getAccountWatchingVelocity: jest.fn((_req, res) => res.status(200).send('retrieved velocity')),
@@ -2,6 +2,14 @@ import router from '@routes/statistics/adminStatisticsRouter';
 import express from 'express';
 import request from 'supertest';
 
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
+jest.mock('@middleware/trashMiddleware', () => ({
+  rejectTrashedAccount: (_req: any, _res: any, next: () => any) => next(),
+}));
+
 jest.mock('@controllers/adminStatisticsController', () => ({
   getPlatformOverview: jest.fn((_req, res) => res.status(200).send('retrieved platform overview')),
   getPlatformTrends: jest.fn((_req, res) => res.status(200).send('retrieved platform trends')),
@@ -2,6 +2,15 @@ import router from '@routes/statistics/profileStatisticsRouter';
 import express from 'express';
 import request from 'supertest';
 
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
+jest.mock('@middleware/trashMiddleware', () => ({
+  rejectTrashedAccount: (_req: any, _res: any, next: () => any) => next(),
+  rejectTrashedProfile: (_req: any, _res: any, next: () => any) => next(),
+}));
+
 jest.mock('@controllers/profileStatisticsController', () => ({
   getProfileStatistics: jest.fn((_req, res) => res.status(200).send('retrieved profile statistics')),
   getWatchingVelocity: jest.fn((_req, res) => res.status(200).send('retrieved velocity')),
@@ -0,0 +1,30 @@
+import router from '@routes/trashRouter';
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('@middleware/authorizationMiddleware', () => ({
+  requirePermission: () => (_req: any, _res: any, next: () => any) => next(),
+}));
+
+jest.mock('@controllers/trashController', () => ({
+  getTrash: jest.fn((_req, res) => res.status(200).send('retrieved trash')),
+  restoreTrashEntry: jest.fn((_req, res) => res.status(200).send('restored trash entry')),
+}));
+
+const app = express();
+app.use(express.json());
+app.use(router);
+
+describe('TrashRouter', () => {
+  it('GET /api/v1/admin/trash', async () => {
+    const res = await request(app).get('/api/v1/admin/trash').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('retrieved trash');
+  });
+
+  it('POST /api/v1/admin/trash/:trashId/restore', async () => {
+    const res = await request(app).post('/api/v1/admin/trash/5/restore').send({});
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('restored trash entry');
+  });
+});
@@ -0,0 +1,259 @@
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import {
+  accountService,
+  adminCommunityRecommendationsService,
+  adminMovieService,
+  adminRatingsService,
+  adminShowService,
+  notificationsService,
+  preferencesService,
+  profileService,
+  profileStatisticsService,
+} from '@ajgifford/keepwatching-common-server/services';
+import * as accountsDb from '@db/accountsDb';
+import * as exportDb from '@db/exportDb';
+import { AccountExportService } from '@services/AccountExportService';
+import { trashService } from '@services/TrashService';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('@db/accountsDb');
+jest.mock('@db/exportDb');
+jest.mock('@services/TrashService', () => ({
+  trashService: {
+    excludeTrashedProfiles: jest.fn((_accountId: number, profiles: unknown[]) => Promise.resolve(profiles)),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  accountService: { getCombinedAccountByEmail: jest.fn() },
+  preferencesService: { getAccountPreferences: jest.fn() },
+  profileService: { getAdminProfilesByAccount: jest.fn() },
+  adminShowService: { getAllShowsByProfile: jest.fn() },
+  adminMovieService: { getAllMoviesByProfile: jest.fn() },
+  profileStatisticsService: { getActivityTimeline: jest.fn() },
+  adminRatingsService: { getAllRatings: jest.fn() },
+  adminCommunityRecommendationsService: { getAllRecommendationsWithAttribution: jest.fn() },
+  notificationsService: { getNotifications: jest.fn() },
+}));
+
+const mockAccountsDb = accountsDb as jest.Mocked<typeof accountsDb>;
+const mockExportDb = exportDb as jest.Mocked<typeof exportDb>;
+
+// The export runs in the background, so wait for it to record its outcome
+async function waitForCall(mock: jest.Mock): Promise<void> {
+  for (let attempt = 0; attempt < 200 && mock.mock.calls.length === 0; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('AccountExportService', () => {
+  let service: AccountExportService;
+  let directory: string;
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+  const account = { accountId: 3, name: 'Jo', email: 'jo@example.com', uid: 'uid-3', defaultProfileId: 7 };
+  const pendingExport = { id: 'export-1', accountId: 3, status: 'pending' } as any;
+
+  function readRecords(exportId: string) {
+    return readFileSync(path.join(directory, `${exportId}.ndjson`), 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+  }
+
+  beforeEach(() => {
+    service = new AccountExportService();
+    jest.clearAllMocks();
+    directory = mkdtempSync(path.join(os.tmpdir(), 'account-export-'));
+    process.env.ACCOUNT_EXPORT_DIRECTORY = directory;
+    delete process.env.ACCOUNT_EXPORT_RETENTION_HOURS;
+
+    mockAccountsDb.getAccountsByIds.mockResolvedValue([account]);
+    mockExportDb.getExportById.mockResolvedValue(pendingExport);
+    mockExportDb.getEmailsSentToAccount.mockResolvedValue([]);
+    (accountService.getCombinedAccountByEmail as jest.Mock).mockResolvedValue({ id: 3, email: 'jo@example.com' });
+    (preferencesService.getAccountPreferences as jest.Mock).mockResolvedValue({ display: { theme: 'dark' } });
+    (profileService.getAdminProfilesByAccount as jest.Mock).mockResolvedValue([{ id: 7, name: 'Jo' }]);
+    (adminShowService.getAllShowsByProfile as jest.Mock).mockResolvedValue({
+      shows: [],
+      pagination: { hasNextPage: false },
+    });
+    (adminMovieService.getAllMoviesByProfile as jest.Mock).mockResolvedValue({
+      movies: [],
+      pagination: { hasNextPage: false },
+    });
+    (profileStatisticsService.getActivityTimeline as jest.Mock).mockResolvedValue({ timeline: [] });
+    (adminRatingsService.getAllRatings as jest.Mock).mockResolvedValue([]);
+    (adminCommunityRecommendationsService.getAllRecommendationsWithAttribution as jest.Mock).mockResolvedValue([]);
+    (notificationsService.getNotifications as jest.Mock).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    delete process.env.ACCOUNT_EXPORT_DIRECTORY;
+  });
+
+  describe('getRetentionHours', () => {
+    it('should default to 72 hours', () => {
+      expect(service.getRetentionHours()).toBe(72);
+    });
+
+    it('should read ACCOUNT_EXPORT_RETENTION_HOURS', () => {
+      process.env.ACCOUNT_EXPORT_RETENTION_HOURS = '24';
+      expect(service.getRetentionHours()).toBe(24);
+    });
+  });
+
+  describe('startExport', () => {
+    it('should return null without creating an export for an unknown account', async () => {
+      mockAccountsDb.getAccountsByIds.mockResolvedValue([]);
+
+      expect(await service.startExport(99, admin)).toBeNull();
+      expect(mockExportDb.createExport).not.toHaveBeenCalled();
+    });
+
+    it('should record a pending export and build the bundle in the background', async () => {
+      (adminShowService.getAllShowsByProfile as jest.Mock)
+        .mockResolvedValueOnce({ shows: [{ id: 1 }, { id: 2 }], pagination: { hasNextPage: true } })
+        .mockResolvedValueOnce({ shows: [{ id: 3 }], pagination: { hasNextPage: false } });
+      (adminRatingsService.getAllRatings as jest.Mock).mockResolvedValue([{ id: 11, rating: 5 }]);
+      mockExportDb.getEmailsSentToAccount.mockResolvedValue([{ emailId: 8 } as any]);
+
+      const result = await service.startExport(3, admin);
+      expect(result).toBe(pendingExport);
+
+      await waitForCall(mockExportDb.markExportCompleted as jest.Mock);
+
+      const exportId = mockExportDb.createExport.mock.calls[0][0];
+      expect(mockExportDb.createExport).toHaveBeenCalledWith(exportId, 3, admin);
+      expect(mockExportDb.markExportRunning).toHaveBeenCalledWith(exportId);
+      expect(mockExportDb.markExportCompleted).toHaveBeenCalledWith(
+        exportId,
+        path.join(directory, `${exportId}.ndjson`),
+        expect.any(Number),
+        72,
+      );
+
+      // Shows are paged past the 100-row cap of the list endpoint until the last page
+      expect(adminShowService.getAllShowsByProfile).toHaveBeenNthCalledWith(1, 7, 1, 0, 500);
+      expect(adminShowService.getAllShowsByProfile).toHaveBeenNthCalledWith(2, 7, 2, 500, 500);
+
+      const records = readRecords(exportId);
+      expect(records.map((record) => record.type)).toEqual([
+        'export',
+        'account',
+        'preferences',
+        'profile',
+        'show',
+        'show',
+        'show',
+        'watchHistory',
+        'rating',
+        'email',
+      ]);
+      expect(records[4]).toEqual({ type: 'show', profileId: 7, data: { id: 1 } });
+      expect(records[7]).toEqual({ type: 'watchHistory', profileId: 7, data: { timeline: [] } });
+    });
+
+    it('should leave trashed profiles out of the bundle', async () => {
+      (profileService.getAdminProfilesByAccount as jest.Mock).mockResolvedValue([
+        { id: 7, name: 'Jo' },
+        { id: 8, name: 'Kids' },
+      ]);
+      (trashService.excludeTrashedProfiles as jest.Mock).mockResolvedValueOnce([{ id: 7, name: 'Jo' }]);
+
+      await service.startExport(3, admin);
+      await waitForCall(mockExportDb.markExportCompleted as jest.Mock);
+
+      const exportId = mockExportDb.createExport.mock.calls[0][0];
+      const profiles = readRecords(exportId).filter((record) => record.type === 'profile');
+      expect(trashService.excludeTrashedProfiles).toHaveBeenCalledWith(3, expect.any(Array));
+      expect(profiles).toEqual([{ type: 'profile', data: { id: 7, name: 'Jo' } }]);
+      expect(adminShowService.getAllShowsByProfile).not.toHaveBeenCalledWith(8, 1, 0, 500);
+    });
+
+    it('should mark the export failed and remove the partial bundle when a source fails', async () => {
+      (adminMovieService.getAllMoviesByProfile as jest.Mock).mockRejectedValue(new Error('db down'));
+
+      await service.startExport(3, admin);
+      await waitForCall(mockExportDb.markExportFailed as jest.Mock);
+
+      const exportId = mockExportDb.createExport.mock.calls[0][0];
+      expect(mockExportDb.markExportFailed).toHaveBeenCalledWith(exportId, 'db down');
+      expect(mockExportDb.markExportCompleted).not.toHaveBeenCalled();
+      expect(existsSync(path.join(directory, `${exportId}.ndjson`))).toBe(false);
+      expect(cliLogger.error).toHaveBeenCalled();
+    });
+
+    it('should mark the export failed when the bundle cannot be written', async () => {
+      // A directory in the way of the bundle makes opening it fail with EISDIR
+      mockExportDb.markExportRunning.mockImplementationOnce(async (exportId) => {
+        mkdirSync(path.join(directory, `${exportId}.ndjson`));
+      });
+
+      await service.startExport(3, admin);
+      await waitForCall(mockExportDb.markExportFailed as jest.Mock);
+
+      const exportId = mockExportDb.createExport.mock.calls[0][0];
+      expect(mockExportDb.markExportFailed).toHaveBeenCalledWith(exportId, expect.stringContaining('EISDIR'));
+      expect(mockExportDb.markExportCompleted).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getExport', () => {
+    it('should not return an export belonging to another account', async () => {
+      expect(await service.getExport(4, 'export-1')).toBeNull();
+      expect(await service.getExport(3, 'export-1')).toBe(pendingExport);
+    });
+  });
+
+  describe('failInterruptedExports', () => {
+    it('should log when exports were interrupted', async () => {
+      mockExportDb.failInterruptedExports.mockResolvedValue(2);
+
+      await service.failInterruptedExports();
+
+      expect(cliLogger.warn).toHaveBeenCalledWith('Marked 2 interrupted account exports as failed');
+    });
+
+    it('should log instead of throwing when the update fails', async () => {
+      mockExportDb.failInterruptedExports.mockRejectedValue(new Error('db down'));
+
+      await expect(service.failInterruptedExports()).resolves.toBeUndefined();
+      expect(cliLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeExpiredExports', () => {
+    it('should delete expired bundles and mark them expired', async () => {
+      const filePath = path.join(directory, 'old.ndjson');
+      writeFileSync(filePath, '{}\n');
+      mockExportDb.getExpiredExports.mockResolvedValue([
+        { id: 'old', filePath } as any,
+        { id: 'missing-file', filePath: path.join(directory, 'gone.ndjson') } as any,
+      ]);
+
+      const count = await service.purgeExpiredExports();
+
+      expect(count).toBe(2);
+      expect(existsSync(filePath)).toBe(false);
+      expect(mockExportDb.markExportExpired).toHaveBeenCalledWith('old');
+      expect(mockExportDb.markExportExpired).toHaveBeenCalledWith('missing-file');
+    });
+
+    it('should keep going when one export fails to expire', async () => {
+      mockExportDb.getExpiredExports.mockResolvedValue([{ id: 'a', filePath: null } as any, { id: 'b' } as any]);
+      mockExportDb.markExportExpired.mockRejectedValueOnce(new Error('db down')).mockResolvedValueOnce();
+
+      expect(await service.purgeExpiredExports()).toBe(1);
+      expect(cliLogger.error).toHaveBeenCalledWith('Failed to expire account export a:', expect.any(Error));
+    });
+  });
+});
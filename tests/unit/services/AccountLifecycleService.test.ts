@@ -0,0 +1,353 @@
+import { isEmailEnabled } from '@ajgifford/keepwatching-common-server/config';
+import { accountService, accountStatisticsService, emailService } from '@ajgifford/keepwatching-common-server/services';
+import * as accountsDb from '@db/accountsDb';
+import * as lifecycleDb from '@db/lifecycleDb';
+import { AccountLifecycleService } from '@services/AccountLifecycleService';
+import { adminJobsService } from '@services/AdminJobsService';
+
+jest.mock('@db/accountsDb');
+jest.mock('@db/lifecycleDb');
+jest.mock('@services/AdminJobsService', () => ({
+  adminJobsService: {
+    getStatus: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/config', () => ({
+  isEmailEnabled: jest.fn(),
+}));
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  accountService: {
+    getAccounts: jest.fn(),
+  },
+  accountStatisticsService: {
+    getAccountAbandonmentRiskStats: jest.fn(),
+  },
+  emailService: {
+    getEmailTemplates: jest.fn(),
+    sendScheduleOrSaveEmail: jest.fn(),
+  },
+}));
+
+const mockAccountsDb = accountsDb as jest.Mocked<typeof accountsDb>;
+const mockLifecycleDb = lifecycleDb as jest.Mocked<typeof lifecycleDb>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS - 60 * 1000).toISOString();
+
+function account(id: number, inactiveDays: number, emailVerified = true) {
+  return {
+    id,
+    emailVerified,
+    databaseCreatedAt: daysAgo(400),
+    metadata: { creationTime: daysAgo(400), lastSignInTime: daysAgo(inactiveDays) },
+  };
+}
+
+function lifecycleRecord(accountId: number, overrides: Record<string, unknown> = {}) {
+  return {
+    accountId,
+    stage: 'active',
+    lastActivityAt: daysAgo(1),
+    inactiveDays: 1,
+    abandonmentRate: null,
+    stageChangedAt: daysAgo(10),
+    reengagementStage: null,
+    reengagementSentAt: null,
+    deletionReviewFlaggedAt: null,
+    evaluatedAt: daysAgo(1),
+    ...overrides,
+  } as any;
+}
+
+describe('AccountLifecycleService', () => {
+  let service: AccountLifecycleService;
+  const thresholds = {
+    dormantDays: 30,
+    atRiskDays: 60,
+    abandonedDays: 120,
+    atRiskAbandonmentRate: 50,
+    deletionReviewDays: 180,
+  };
+
+  beforeEach(() => {
+    service = new AccountLifecycleService();
+    jest.clearAllMocks();
+    [
+      'LIFECYCLE_DORMANT_DAYS',
+      'LIFECYCLE_AT_RISK_DAYS',
+      'LIFECYCLE_ABANDONED_DAYS',
+      'LIFECYCLE_AT_RISK_ABANDONMENT_RATE',
+      'LIFECYCLE_DELETION_REVIEW_DAYS',
+      'LIFECYCLE_REENGAGEMENT_STAGES',
+    ].forEach((name) => delete process.env[name]);
+
+    (isEmailEnabled as jest.Mock).mockReturnValue(true);
+    (emailService.getEmailTemplates as jest.Mock).mockResolvedValue([]);
+    (emailService.sendScheduleOrSaveEmail as jest.Mock).mockResolvedValue(undefined);
+    (accountStatisticsService.getAccountAbandonmentRiskStats as jest.Mock).mockResolvedValue({ abandonmentRate: 10 });
+    mockAccountsDb.getAccountListStats.mockResolvedValue(new Map());
+    mockLifecycleDb.getLastWatchActivity.mockResolvedValue(new Map());
+    mockLifecycleDb.getLifecycleRecords.mockResolvedValue(new Map());
+  });
+
+  describe('getThresholds', () => {
+    it('should use the defaults', () => {
+      expect(service.getThresholds()).toEqual(thresholds);
+    });
+
+    it('should read the LIFECYCLE_* variables and ignore invalid values', () => {
+      process.env.LIFECYCLE_DORMANT_DAYS = '14';
+      process.env.LIFECYCLE_ABANDONED_DAYS = 'soon';
+
+      expect(service.getThresholds()).toEqual({ ...thresholds, dormantDays: 14 });
+    });
+  });
+
+  describe('getReengagementStages', () => {
+    it('should default to no stages, so re-engagement emails are opt-in', () => {
+      expect(service.getReengagementStages()).toEqual([]);
+    });
+
+    it('should read LIFECYCLE_REENGAGEMENT_STAGES', () => {
+      process.env.LIFECYCLE_REENGAGEMENT_STAGES = 'abandoned, dormant, active';
+      expect(service.getReengagementStages()).toEqual(['dormant', 'abandoned']);
+    });
+
+    it('should turn emails off when empty', () => {
+      process.env.LIFECYCLE_REENGAGEMENT_STAGES = '';
+      expect(service.getReengagementStages()).toEqual([]);
+    });
+  });
+
+  describe('classify', () => {
+    it.each([
+      [5, null, 'active'],
+      [30, null, 'dormant'],
+      [45, 20, 'dormant'],
+      [45, 50, 'at_risk'],
+      [60, null, 'at_risk'],
+      [120, null, 'abandoned'],
+      [null, null, 'abandoned'],
+    ])('should classify %p inactive days with abandonment rate %p as %p', (days, rate, stage) => {
+      expect(service.classify(days, rate, thresholds)).toBe(stage);
+    });
+  });
+
+  describe('runLifecycle', () => {
+    beforeEach(() => {
+      process.env.LIFECYCLE_REENGAGEMENT_STAGES = 'dormant,at_risk,abandoned';
+    });
+
+    it('should classify, save and summarize every account outside the trash', async () => {
+      (accountService.getAccounts as jest.Mock).mockResolvedValue([
+        account(1, 2),
+        account(2, 40),
+        account(3, 200, false),
+        account(4, 5),
+      ]);
+      mockAccountsDb.getAccountListStats.mockResolvedValue(
+        new Map([[4, { profileCount: 1, isDeleted: true }]]) as Map<number, accountsDb.AccountListStats>,
+      );
+      mockLifecycleDb.getLifecycleRecords.mockResolvedValue(new Map([[1, lifecycleRecord(1)]]));
+
+      const summary = await service.runLifecycle();
+
+      expect(mockLifecycleDb.saveEvaluation).toHaveBeenCalledTimes(3);
+      expect(mockLifecycleDb.saveEvaluation).toHaveBeenCalledWith(
+        expect.objectContaining({ accountId: 2, stage: 'dormant', inactiveDays: 40, abandonmentRate: 10 }),
+      );
+      expect(mockLifecycleDb.saveEvaluation).toHaveBeenCalledWith(
+        expect.objectContaining({
+          accountId: 3,
+          stage: 'abandoned',
+          abandonmentRate: null,
+          flagForDeletionReview: true,
+        }),
+      );
+      expect(accountStatisticsService.getAccountAbandonmentRiskStats).toHaveBeenCalledTimes(1);
+      expect(accountStatisticsService.getAccountAbandonmentRiskStats).toHaveBeenCalledWith(2);
+      expect(mockLifecycleDb.removeStaleRecords).toHaveBeenCalledWith([1, 2, 3]);
+      expect(summary).toEqual({
+        evaluated: 3,
+        stageCounts: { active: 1, dormant: 1, at_risk: 0, abandoned: 1 },
+        stageChanges: 2,
+        // Accounts 2 and 3 are evaluated for the first time, which only records a baseline
+        reengagementEmailsSent: { dormant: 0, at_risk: 0, abandoned: 0 },
+        flaggedForDeletionReview: 1,
+      });
+    });
+
+    it('should use watch activity when it is more recent than the last sign-in', async () => {
+      (accountService.getAccounts as jest.Mock).mockResolvedValue([account(1, 90)]);
+      mockLifecycleDb.getLastWatchActivity.mockResolvedValue(new Map([[1, new Date(daysAgo(3))]]));
+
+      await service.runLifecycle();
+
+      expect(mockLifecycleDb.saveEvaluation).toHaveBeenCalledWith(
+        expect.objectContaining({ accountId: 1, stage: 'active', inactiveDays: 3 }),
+      );
+    });
+
+    it('should mark dormant accounts with a high abandonment rate as at risk', async () => {
+      (accountService.getAccounts as jest.Mock).mockResolvedValue([account(1, 40)]);
+      (accountStatisticsService.getAccountAbandonmentRiskStats as jest.Mock).mockResolvedValue({ abandonmentRate: 75 });
+
+      await service.runLifecycle();
+
+      expect(mockLifecycleDb.saveEvaluation).toHaveBeenCalledWith(
+        expect.objectContaining({ accountId: 1, stage: 'at_risk', abandonmentRate: 75 }),
+      );
+    });
+
+    it('should treat a failed abandonment lookup as unknown', async () => {
+      (accountService.getAccounts as jest.Mock).mockResolvedValue([account(1, 40)]);
+      (accountStatisticsService.getAccountAbandonmentRiskStats as jest.Mock).mockRejectedValue(new Error('boom'));
+
+      await service.runLifecycle();
+
+      expect(mockLifecycleDb.saveEvaluation).toHaveBeenCalledWith(
+        expect.objectContaining({ accountId: 1, stage: 'dormant', abandonmentRate: null }),
+      );
+    });
+
+    it('should send one re-engagement email per stage and record it', async () => {
+      (accountService.getAccounts as jest.Mock).mockResolvedValue([account(1, 35), account(2, 40), account(3, 130)]);
+      mockLifecycleDb.getLifecycleRecords.mockResolvedValue(
+        new Map([
+          [1, lifecycleRecord(1)],
+          [2, lifecycleRecord(2)],
+          [3, lifecycleRecord(3, { stage: 'at_risk' })],
+        ]),
+      );
+      (emailService.getEmailTemplates as jest.Mock).mockResolvedValue([
+        { id: 1, name: 'lifecycle-dormant', subject: 'Custom subject', message: 'Custom message' },
+      ]);
+
+      await service.runLifecycle();
+
+      expect(emailService.sendScheduleOrSaveEmail).toHaveBeenCalledTimes(2);
+      expect(emailService.sendScheduleOrSaveEmail).toHaveBeenCalledWith({
+        subject: 'Custom subject',
+        message: 'Custom message',
+        sendToAll: false,
+        recipients: [1, 2],
+        scheduledDate: null,
+        action: 'send',
+      });
+      expect(emailService.sendScheduleOrSaveEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ subject: 'Come back to KeepWatching', recipients: [3] }),
+      );
+      expect(mockLifecycleDb.markReengagementSent).toHaveBeenCalledWith([1, 2], 'dormant');
+      expect(mockLifecycleDb.markReengagementSent).toHaveBeenCalledWith([3], 'abandoned');
+    });
+
+    it('should not resend a stage email or send an earlier stage email', async () => {
+      (accountService.getAccounts as jest.Mock).mockResolvedValue([account(1, 40), account(2, 65), account(3, 70)]);
+      mockLifecycleDb.getLifecycleRecords.mockResolvedValue(
+        new Map([
+          [1, lifecycleRecord(1, { stage: 'dormant', reengagementStage: 'dormant' })],
+          [2, lifecycleRecord(2, { stage: 'dormant', reengagementStage: 'dormant' })],
+          [3, lifecycleRecord(3, { stage: 'abandoned', reengagementStage: 'abandoned' })],
+        ]),
+      );
+
+      await service.runLifecycle();
+
+      expect(emailService.sendScheduleOrSaveEmail).toHaveBeenCalledTimes(1);
+      expect(emailService.sendScheduleOrSaveEmail).toHaveBeenCalledWith(expect.objectContaining({ recipients: [2] }));
+      expect(mockLifecycleDb.markReengagementSent).toHaveBeenCalledWith([2], 'at_risk');
+    });
+
+    it('should not email accounts on their first evaluation', async () => {
+      (accountService.getAccounts as jest.Mock).mockResolvedValue([account(1, 40), account(2, 130)]);
+
+      const summary = await service.runLifecycle();
+
+      expect(emailService.sendScheduleOrSaveEmail).not.toHaveBeenCalled();
+      expect(summary.reengagementEmailsSent).toEqual({ dormant: 0, at_risk: 0, abandoned: 0 });
+    });
+
+    it('should skip emails for stages that are not configured', async () => {
+      process.env.LIFECYCLE_REENGAGEMENT_STAGES = 'abandoned';
+      (accountService.getAccounts as jest.Mock).mockResolvedValue([account(1, 40)]);
+      mockLifecycleDb.getLifecycleRecords.mockResolvedValue(new Map([[1, lifecycleRecord(1)]]));
+
+      await service.runLifecycle();
+
+      expect(emailService.sendScheduleOrSaveEmail).not.toHaveBeenCalled();
+    });
+
+    it('should send no emails when no stages are configured', async () => {
+      delete process.env.LIFECYCLE_REENGAGEMENT_STAGES;
+      (accountService.getAccounts as jest.Mock).mockResolvedValue([account(1, 40)]);
+      mockLifecycleDb.getLifecycleRecords.mockResolvedValue(new Map([[1, lifecycleRecord(1)]]));
+
+      await service.runLifecycle();
+
+      expect(emailService.getEmailTemplates).not.toHaveBeenCalled();
+      expect(emailService.sendScheduleOrSaveEmail).not.toHaveBeenCalled();
+    });
+
+    it('should skip emails when the email service is disabled', async () => {
+      (isEmailEnabled as jest.Mock).mockReturnValue(false);
+      (accountService.getAccounts as jest.Mock).mockResolvedValue([account(1, 40)]);
+      mockLifecycleDb.getLifecycleRecords.mockResolvedValue(new Map([[1, lifecycleRecord(1)]]));
+
+      const summary = await service.runLifecycle();
+
+      expect(emailService.getEmailTemplates).not.toHaveBeenCalled();
+      expect(emailService.sendScheduleOrSaveEmail).not.toHaveBeenCalled();
+      expect(summary.reengagementEmailsSent).toEqual({ dormant: 0, at_risk: 0, abandoned: 0 });
+    });
+
+    it('should not record emails that failed to send', async () => {
+      (accountService.getAccounts as jest.Mock).mockResolvedValue([account(1, 40)]);
+      mockLifecycleDb.getLifecycleRecords.mockResolvedValue(new Map([[1, lifecycleRecord(1)]]));
+      (emailService.sendScheduleOrSaveEmail as jest.Mock).mockRejectedValue(new Error('smtp down'));
+
+      const summary = await service.runLifecycle();
+
+      expect(mockLifecycleDb.markReengagementSent).not.toHaveBeenCalled();
+      expect(summary.reengagementEmailsSent.dormant).toBe(0);
+    });
+  });
+
+  describe('getLifecycleState', () => {
+    it('should combine stage counts, configuration, the last job run and a page of accounts', async () => {
+      const entries = [lifecycleRecord(7, { stage: 'dormant' })];
+      const jobStatus = { name: 'accountLifecycle', lastRunStatus: 'success' };
+      mockLifecycleDb.getStageCounts.mockResolvedValue([
+        { stage: 'active', count: 4, flaggedForDeletionReview: 0 },
+        { stage: 'abandoned', count: 2, flaggedForDeletionReview: 1 },
+      ]);
+      mockLifecycleDb.getLifecycleEntries.mockResolvedValue(entries);
+      mockLifecycleDb.getLifecycleEntryCount.mockResolvedValue(21);
+      (adminJobsService.getStatus as jest.Mock).mockReturnValue([{ name: 'trashPurge' }, jobStatus]);
+
+      const result = await service.getLifecycleState({ stage: 'dormant' }, 2, 10, 10);
+
+      expect(mockLifecycleDb.getLifecycleEntries).toHaveBeenCalledWith({ stage: 'dormant' }, 10, 10);
+      expect(result).toEqual({
+        summary: { stages: { active: 4, dormant: 0, at_risk: 0, abandoned: 2 }, flaggedForDeletionReview: 1 },
+        thresholds,
+        reengagementStages: [],
+        lastRun: jobStatus,
+        accounts: entries,
+        pagination: {
+          totalCount: 21,
+          totalPages: 3,
+          currentPage: 2,
+          limit: 10,
+          hasNextPage: true,
+          hasPrevPage: true,
+        },
+      });
+    });
+  });
+});
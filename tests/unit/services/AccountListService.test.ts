@@ -0,0 +1,172 @@
+import { accountService } from '@ajgifford/keepwatching-common-server/services';
+import * as accountsDb from '@db/accountsDb';
+import { AccountListService } from '@services/AccountListService';
+import { firebaseUserService } from '@services/FirebaseUserService';
+
+jest.mock('@db/accountsDb');
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  accountService: {
+    getCombinedAccountByEmail: jest.fn(),
+  },
+}));
+jest.mock('@services/FirebaseUserService', () => ({
+  firebaseUserService: {
+    getUsers: jest.fn(),
+  },
+}));
+
+const mockAccountsDb = accountsDb as jest.Mocked<typeof accountsDb>;
+const mockFirebaseUserService = firebaseUserService as jest.Mocked<typeof firebaseUserService>;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toUTCString();
+
+const entries: accountsDb.AccountListEntry[] = [
+  {
+    accountId: 1,
+    uid: 'uid-alpha',
+    name: 'Alice',
+    email: 'alice@example.com',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    profileCount: 2,
+  },
+  { accountId: 2, uid: 'uid-bravo', name: 'bob', email: 'bob@example.com', createdAt: null, profileCount: 0 },
+  {
+    accountId: 3,
+    uid: 'uid-charlie',
+    name: 'Carol',
+    email: 'carol@example.com',
+    createdAt: '2024-02-01T00:00:00.000Z',
+    profileCount: 5,
+  },
+];
+
+const firebaseUser = (uid: string, emailVerified: boolean, lastSignInTime: string | null) => ({
+  uid,
+  email: null,
+  emailVerified,
+  disabled: false,
+  providers: [],
+  creationTime: null,
+  lastSignInTime,
+  lastRefreshTime: null,
+  tokensValidAfterTime: null,
+});
+
+describe('AccountListService', () => {
+  let service: AccountListService;
+
+  beforeEach(() => {
+    service = new AccountListService();
+    jest.clearAllMocks();
+    (accountService.getCombinedAccountByEmail as jest.Mock).mockImplementation(async (email: string) => ({
+      id: entries.find((entry) => entry.email === email)?.accountId,
+      email,
+    }));
+    mockAccountsDb.getAccountListPage.mockResolvedValue(entries);
+    mockAccountsDb.countAccountList.mockResolvedValue(3);
+    mockAccountsDb.getAccountListEntries.mockResolvedValue(entries);
+    mockFirebaseUserService.getUsers.mockResolvedValue(
+      new Map([
+        ['uid-alpha', firebaseUser('uid-alpha', true, daysAgo(2))],
+        ['uid-bravo', firebaseUser('uid-bravo', false, daysAgo(120))],
+        ['uid-charlie', firebaseUser('uid-charlie', true, null)],
+      ]),
+    );
+  });
+
+  const ids = (result: { accounts: { id: number }[] }) => result.accounts.map((account) => account.id);
+
+  describe('database filters', () => {
+    it('should page, sort and count in SQL and only combine the accounts on the page', async () => {
+      mockAccountsDb.getAccountListPage.mockResolvedValue([entries[2]]);
+      mockAccountsDb.countAccountList.mockResolvedValue(3);
+      const query = { search: 'car', hasProfiles: true, sortBy: 'name' as const, sortOrder: 'asc' as const };
+
+      const result = await service.getAccountList(query, 2, 2, 2);
+
+      expect(mockAccountsDb.getAccountListPage).toHaveBeenCalledWith(query, 'name', 2, 2);
+      expect(mockAccountsDb.countAccountList).toHaveBeenCalledWith(query);
+      expect(mockAccountsDb.getAccountListEntries).not.toHaveBeenCalled();
+      expect(mockFirebaseUserService.getUsers).not.toHaveBeenCalled();
+      expect(accountService.getCombinedAccountByEmail).toHaveBeenCalledTimes(1);
+      expect(result.accounts).toEqual([{ id: 3, email: 'carol@example.com', profileCount: 5 }]);
+      expect(result.pagination).toEqual({
+        totalCount: 3,
+        totalPages: 2,
+        currentPage: 2,
+        limit: 2,
+        hasNextPage: false,
+        hasPrevPage: true,
+      });
+    });
+
+    it('should skip accounts that no longer exist by the time they are combined', async () => {
+      (accountService.getCombinedAccountByEmail as jest.Mock).mockResolvedValueOnce(null);
+
+      const result = await service.getAccountList({ sortBy: 'createdAt', sortOrder: 'desc' }, 1, 0, 50);
+
+      expect(ids(result)).toEqual([2, 3]);
+    });
+  });
+
+  describe('Firebase filters', () => {
+    it('should filter by email verification', async () => {
+      const query = { emailVerified: false, sortBy: 'name' as const, sortOrder: 'asc' as const };
+
+      const result = await service.getAccountList(query, 1, 0, 50);
+
+      expect(mockAccountsDb.getAccountListEntries).toHaveBeenCalledWith(query);
+      expect(mockFirebaseUserService.getUsers).toHaveBeenCalledWith(['uid-alpha', 'uid-bravo', 'uid-charlie']);
+      expect(mockAccountsDb.getAccountListPage).not.toHaveBeenCalled();
+      expect(ids(result)).toEqual([2]);
+      expect(result.pagination.totalCount).toBe(1);
+    });
+
+    it('should treat accounts that never logged in as inactive', async () => {
+      const result = await service.getAccountList({ inactiveDays: 30, sortBy: 'name', sortOrder: 'asc' }, 1, 0, 50);
+
+      expect(ids(result)).toEqual([2, 3]);
+    });
+
+    it('should sort by last login with missing values last', async () => {
+      const desc = await service.getAccountList({ sortBy: 'lastLogin', sortOrder: 'desc' }, 1, 0, 50);
+      const asc = await service.getAccountList({ sortBy: 'lastLogin', sortOrder: 'asc' }, 1, 0, 50);
+
+      expect(ids(desc)).toEqual([1, 2, 3]);
+      expect(ids(asc)).toEqual([2, 1, 3]);
+    });
+
+    it('should sort by database fields with missing values last', async () => {
+      const byCreated = await service.getAccountList(
+        { emailVerified: true, sortBy: 'createdAt', sortOrder: 'desc' },
+        1,
+        0,
+        50,
+      );
+      const byProfiles = await service.getAccountList(
+        { inactiveDays: 0, sortBy: 'profileCount', sortOrder: 'desc' },
+        1,
+        0,
+        50,
+      );
+
+      expect(ids(byCreated)).toEqual([3, 1]);
+      expect(ids(byProfiles)).toEqual([3, 1, 2]);
+    });
+
+    it('should page after filtering', async () => {
+      const result = await service.getAccountList({ sortBy: 'lastLogin', sortOrder: 'desc' }, 2, 2, 2);
+
+      expect(ids(result)).toEqual([3]);
+      expect(accountService.getCombinedAccountByEmail).toHaveBeenCalledTimes(1);
+      expect(result.pagination).toEqual({
+        totalCount: 3,
+        totalPages: 2,
+        currentPage: 2,
+        limit: 2,
+        hasNextPage: false,
+        hasPrevPage: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  accountService,
+  accountStatisticsService,
+  adminCommunityRecommendationsService,
+  adminRatingsService,
+  adminStatisticsService,
+  notificationsService,
+  preferencesService,
+  profileService,
+} from '@ajgifford/keepwatching-common-server/services';
+import * as accountsDb from '@db/accountsDb';
+import { AccountOverviewService } from '@services/AccountOverviewService';
+import { trashService } from '@services/TrashService';
+
+jest.mock('@db/accountsDb');
+jest.mock('@services/TrashService', () => ({
+  trashService: {
+    excludeTrashedProfiles: jest.fn((_accountId: number, profiles: unknown[]) => Promise.resolve(profiles)),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    error: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  accountService: { getCombinedAccountByEmail: jest.fn() },
+  profileService: { getAdminProfilesByAccount: jest.fn() },
+  preferencesService: { getAccountPreferences: jest.fn() },
+  accountStatisticsService: { getAccountStatistics: jest.fn() },
+  adminStatisticsService: { getAccountHealth: jest.fn() },
+  adminRatingsService: { getAllRatings: jest.fn() },
+  adminCommunityRecommendationsService: { getAllRecommendationsWithAttribution: jest.fn() },
+  notificationsService: { getNotifications: jest.fn() },
+}));
+
+const mockAccountsDb = accountsDb as jest.Mocked<typeof accountsDb>;
+
+describe('AccountOverviewService', () => {
+  let service: AccountOverviewService;
+  const account = { accountId: 1, name: 'Jo', email: 'jo@example.com', uid: 'uid-1', defaultProfileId: 10 };
+
+  beforeEach(() => {
+    service = new AccountOverviewService();
+    jest.clearAllMocks();
+    mockAccountsDb.getAccountsByIds.mockResolvedValue([account]);
+    (accountService.getCombinedAccountByEmail as jest.Mock).mockResolvedValue({ id: 1, email: 'jo@example.com' });
+    (profileService.getAdminProfilesByAccount as jest.Mock).mockResolvedValue([{ id: 10 }]);
+    (preferencesService.getAccountPreferences as jest.Mock).mockResolvedValue({ theme: 'dark' });
+    (accountStatisticsService.getAccountStatistics as jest.Mock).mockResolvedValue({ shows: 3 });
+    (adminStatisticsService.getAccountHealth as jest.Mock).mockResolvedValue({ score: 80 });
+    (adminRatingsService.getAllRatings as jest.Mock).mockResolvedValue([]);
+    (adminCommunityRecommendationsService.getAllRecommendationsWithAttribution as jest.Mock).mockResolvedValue([]);
+    (notificationsService.getNotifications as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should return null for an unknown account', async () => {
+    mockAccountsDb.getAccountsByIds.mockResolvedValue([]);
+
+    expect(await service.getAccountOverview(99)).toBeNull();
+    expect(profileService.getAdminProfilesByAccount).not.toHaveBeenCalled();
+  });
+
+  it('should compose every section', async () => {
+    const overview = await service.getAccountOverview(1);
+
+    expect(accountService.getCombinedAccountByEmail).toHaveBeenCalledWith('jo@example.com');
+    expect(adminRatingsService.getAllRatings).toHaveBeenCalledWith({ accountId: 1 });
+    expect(adminCommunityRecommendationsService.getAllRecommendationsWithAttribution).toHaveBeenCalledWith({
+      accountId: 1,
+    });
+    expect(notificationsService.getNotifications).toHaveBeenCalledWith(1);
+    expect(overview?.complete).toBe(true);
+    expect(Object.keys(overview!.sections)).toEqual([
+      'account',
+      'profiles',
+      'preferences',
+      'statistics',
+      'health',
+      'ratings',
+      'recommendations',
+      'notifications',
+    ]);
+    expect(overview?.sections.profiles).toEqual({ status: 'ok', data: [{ id: 10 }] });
+    expect(overview?.sections.health).toEqual({ status: 'ok', data: { score: 80 } });
+  });
+
+  it('should leave trashed profiles out of the profiles section', async () => {
+    (profileService.getAdminProfilesByAccount as jest.Mock).mockResolvedValue([{ id: 10 }, { id: 11 }]);
+    (trashService.excludeTrashedProfiles as jest.Mock).mockResolvedValueOnce([{ id: 10 }]);
+
+    const overview = await service.getAccountOverview(1);
+
+    expect(trashService.excludeTrashedProfiles).toHaveBeenCalledWith(1, [{ id: 10 }, { id: 11 }]);
+    expect(overview?.sections.profiles).toEqual({ status: 'ok', data: [{ id: 10 }] });
+  });
+
+  it('should mark failed sections and keep the rest', async () => {
+    (adminStatisticsService.getAccountHealth as jest.Mock).mockRejectedValue(new Error('Health query timed out'));
+
+    const overview = await service.getAccountOverview(1);
+
+    expect(overview?.complete).toBe(false);
+    expect(overview?.sections.health).toEqual({ status: 'error', error: 'Health query timed out' });
+    expect(overview?.sections.preferences).toEqual({ status: 'ok', data: { theme: 'dark' } });
+  });
+});
@@ -0,0 +1,63 @@
+import { preferencesService } from '@ajgifford/keepwatching-common-server/services';
+import * as accountsDb from '@db/accountsDb';
+import { AccountPreferencesService } from '@services/AccountPreferencesService';
+
+jest.mock('@db/accountsDb');
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  preferencesService: {
+    getPreferencesByType: jest.fn(),
+    updatePreferences: jest.fn(),
+  },
+}));
+
+const mockAccountsDb = accountsDb as jest.Mocked<typeof accountsDb>;
+
+describe('AccountPreferencesService', () => {
+  let service: AccountPreferencesService;
+  const account = { accountId: 3, name: 'Jo', email: 'jo@example.com', uid: 'uid-3', defaultProfileId: 7 };
+
+  beforeEach(() => {
+    service = new AccountPreferencesService();
+    jest.clearAllMocks();
+  });
+
+  it('should return null for an unknown or trashed account', async () => {
+    mockAccountsDb.getAccountsByIds.mockResolvedValue([]);
+
+    expect(await service.updatePreferences(99, 'email', { weeklyDigest: false })).toBeNull();
+    expect(preferencesService.updatePreferences).not.toHaveBeenCalled();
+  });
+
+  it('should update the preferences and report the before/after values', async () => {
+    mockAccountsDb.getAccountsByIds.mockResolvedValue([account]);
+    (preferencesService.getPreferencesByType as jest.Mock)
+      .mockResolvedValueOnce({ weeklyDigest: true, marketingEmails: false })
+      .mockResolvedValueOnce({ weeklyDigest: false, marketingEmails: false });
+
+    const result = await service.updatePreferences(3, 'email', { weeklyDigest: false, marketingEmails: false });
+
+    expect(preferencesService.updatePreferences).toHaveBeenCalledWith(3, 'email', {
+      weeklyDigest: false,
+      marketingEmails: false,
+    });
+    expect(result).toEqual({
+      accountId: 3,
+      preferenceType: 'email',
+      before: { weeklyDigest: true, marketingEmails: false },
+      after: { weeklyDigest: false, marketingEmails: false },
+      changedFields: ['weeklyDigest'],
+    });
+  });
+
+  it('should treat missing preferences as empty', async () => {
+    mockAccountsDb.getAccountsByIds.mockResolvedValue([account]);
+    (preferencesService.getPreferencesByType as jest.Mock)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ theme: 'dark' });
+
+    const result = await service.updatePreferences(3, 'display', { theme: 'dark' });
+
+    expect(result?.before).toEqual({});
+    expect(result?.changedFields).toEqual(['theme']);
+  });
+});
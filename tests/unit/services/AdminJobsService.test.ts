@@ -0,0 +1,173 @@
+import { AdminJobsService } from '@services/AdminJobsService';
+import cron from 'node-cron';
+
+jest.mock('node-cron', () => ({
+  __esModule: true,
+  default: {
+    validate: jest.fn(),
+    schedule: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe('AdminJobsService', () => {
+  let service: AdminJobsService;
+  let scheduledCallbacks: (() => Promise<void>)[];
+  const mockTask = { destroy: jest.fn(), getNextRun: jest.fn() };
+
+  const definition = {
+    name: 'trashPurge',
+    description: 'Purge the trash',
+    defaultSchedule: '0 3 * * *',
+    handler: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AdminJobsService();
+    scheduledCallbacks = [];
+    (cron.validate as jest.Mock).mockImplementation((expression: string) => expression !== 'invalid');
+    (cron.schedule as jest.Mock).mockImplementation((_expression: string, callback: () => Promise<void>) => {
+      scheduledCallbacks.push(callback);
+      return mockTask;
+    });
+    mockTask.getNextRun.mockReturnValue(new Date('2025-06-02T03:00:00Z'));
+    definition.handler.mockResolvedValue(undefined);
+  });
+
+  it('should schedule registered jobs on init', () => {
+    service.registerJob(definition);
+    expect(cron.schedule).not.toHaveBeenCalled();
+
+    service.init();
+
+    expect(cron.schedule).toHaveBeenCalledWith('0 3 * * *', expect.any(Function), {
+      name: 'trashPurge',
+      noOverlap: true,
+    });
+    expect(service.hasJob('trashPurge')).toBe(true);
+    expect(service.getJobNames()).toEqual(['trashPurge']);
+  });
+
+  it('should fall back to the default schedule for an invalid override', () => {
+    service.registerJob(definition, 'invalid');
+    expect(service.getSchedule('trashPurge')).toBe('0 3 * * *');
+  });
+
+  it('should record a successful run', async () => {
+    service.registerJob(definition);
+
+    await service.execute('trashPurge');
+
+    expect(definition.handler).toHaveBeenCalled();
+    const [status] = service.getStatus();
+    expect(status.lastRunStatus).toBe('success');
+    expect(status.lastRunTime).not.toBeNull();
+    expect(status.isRunning).toBe(false);
+  });
+
+  it('should record a failed run without throwing', async () => {
+    definition.handler.mockRejectedValue(new Error('purge failed'));
+    service.registerJob(definition);
+
+    await service.execute('trashPurge');
+
+    const [status] = service.getStatus();
+    expect(status.lastRunStatus).toBe('failed');
+    expect(status.lastError).toBe('purge failed');
+  });
+
+  it('should reject unknown jobs', async () => {
+    await expect(service.execute('nope')).rejects.toThrow('Unknown admin job: nope');
+  });
+
+  it('should skip a run requested through execute while the job is running', async () => {
+    let finish!: () => void;
+    definition.handler.mockReturnValueOnce(new Promise<void>((resolve) => (finish = resolve)));
+    service.registerJob(definition);
+
+    const running = service.execute('trashPurge');
+    await service.execute('trashPurge');
+    finish();
+    await running;
+
+    expect(definition.handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should queue one rerun for runs requested while the job is running', async () => {
+    let finish!: () => void;
+    definition.handler.mockReturnValueOnce(new Promise<void>((resolve) => (finish = resolve)));
+    service.registerJob(definition);
+
+    const running = service.requestRun('trashPurge');
+    await service.requestRun('trashPurge');
+    await service.requestRun('trashPurge');
+    expect(definition.handler).toHaveBeenCalledTimes(1);
+
+    finish();
+    await running;
+
+    expect(definition.handler).toHaveBeenCalledTimes(2);
+    expect(service.getStatus()[0].isRunning).toBe(false);
+  });
+
+  it('should run a requested job straight away when it is idle', async () => {
+    service.registerJob(definition);
+
+    await service.requestRun('trashPurge');
+
+    expect(definition.handler).toHaveBeenCalledTimes(1);
+    await expect(service.requestRun('nope')).rejects.toThrow('Unknown admin job: nope');
+  });
+
+  it('should skip scheduled runs while paused', async () => {
+    service.registerJob(definition);
+    service.init();
+
+    service.pause();
+    await scheduledCallbacks[0]();
+    expect(definition.handler).not.toHaveBeenCalled();
+    expect(service.getStatus()[0].isPaused).toBe(true);
+
+    service.resume();
+    await scheduledCallbacks[0]();
+    expect(definition.handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reschedule on a valid schedule update', () => {
+    service.registerJob(definition);
+    service.init();
+
+    expect(service.updateSchedule('trashPurge', '0 4 * * *')).toBe(true);
+
+    expect(mockTask.destroy).toHaveBeenCalled();
+    expect(cron.schedule).toHaveBeenLastCalledWith('0 4 * * *', expect.any(Function), expect.any(Object));
+    expect(service.getStatus()[0]).toMatchObject({
+      cronExpression: '0 4 * * *',
+      nextRunTime: '2025-06-02T03:00:00.000Z',
+    });
+  });
+
+  it('should reject an invalid schedule update', () => {
+    service.registerJob(definition);
+    expect(service.updateSchedule('trashPurge', 'invalid')).toBe(false);
+    expect(service.updateSchedule('nope', '0 4 * * *')).toBe(false);
+    expect(service.getSchedule('trashPurge')).toBe('0 3 * * *');
+  });
+
+  it('should destroy tasks on shutdown', () => {
+    service.registerJob(definition);
+    service.init();
+
+    service.shutdown();
+
+    expect(mockTask.destroy).toHaveBeenCalled();
+    expect(service.getStatus()[0].nextRunTime).toBeNull();
+  });
+});
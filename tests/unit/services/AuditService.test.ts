@@ -0,0 +1,79 @@
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import * as auditDb from '@db/auditDb';
+import { AuditService } from '@services/AuditService';
+
+jest.mock('@db/auditDb');
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockAuditDb = auditDb as jest.Mocked<typeof auditDb>;
+
+describe('AuditService', () => {
+  let service: AuditService;
+
+  const entry = {
+    adminUid: 'admin-1',
+    adminEmail: 'admin@example.com',
+    adminRole: 'superadmin',
+    method: 'DELETE',
+    route: '/api/v1/accounts/:accountId',
+    action: 'delete' as const,
+    entityType: 'account',
+    entityId: '12',
+    params: { accountId: '12' },
+    bodySummary: null,
+    details: null,
+    statusCode: 200,
+    durationMs: 15,
+  };
+
+  beforeEach(() => {
+    service = new AuditService();
+    jest.clearAllMocks();
+  });
+
+  describe('recordEntry', () => {
+    it('should store the entry', async () => {
+      mockAuditDb.createAuditEntry.mockResolvedValue(1);
+
+      await service.recordEntry(entry);
+
+      expect(mockAuditDb.createAuditEntry).toHaveBeenCalledWith(entry);
+    });
+
+    it('should log and swallow storage errors', async () => {
+      mockAuditDb.createAuditEntry.mockRejectedValue(new Error('DB down'));
+
+      await expect(service.recordEntry(entry)).resolves.toBeUndefined();
+      expect(cliLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('getAuditLog', () => {
+    it('should return entries with pagination', async () => {
+      const entries = [{ ...entry, id: 1, createdAt: '2026-01-01T00:00:00.000Z' }];
+      mockAuditDb.getAuditEntries.mockResolvedValue(entries);
+      mockAuditDb.getAuditEntryCount.mockResolvedValue(120);
+
+      const result = await service.getAuditLog({ entityType: 'account' }, 2, 50, 50);
+
+      expect(mockAuditDb.getAuditEntries).toHaveBeenCalledWith({ entityType: 'account' }, 50, 50);
+      expect(mockAuditDb.getAuditEntryCount).toHaveBeenCalledWith({ entityType: 'account' });
+      expect(result).toEqual({
+        entries,
+        pagination: {
+          totalCount: 120,
+          totalPages: 3,
+          currentPage: 2,
+          limit: 50,
+          hasNextPage: true,
+          hasPrevPage: true,
+        },
+      });
+    });
+  });
+});
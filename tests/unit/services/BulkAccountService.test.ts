@@ -0,0 +1,126 @@
+import { accountService, emailService } from '@ajgifford/keepwatching-common-server/services';
+import * as accountsDb from '@db/accountsDb';
+import { BulkAccountService } from '@services/BulkAccountService';
+import { trashService } from '@services/TrashService';
+
+jest.mock('@db/accountsDb');
+jest.mock('@services/TrashService', () => ({
+  trashService: {
+    trashAccount: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  accountService: {
+    verifyEmail: jest.fn(),
+    editAccount: jest.fn(),
+  },
+  emailService: {
+    sendDigestEmailToAccount: jest.fn(),
+    sendDiscoveryEmailToAccount: jest.fn(),
+  },
+}));
+
+const mockAccountsDb = accountsDb as jest.Mocked<typeof accountsDb>;
+
+describe('BulkAccountService', () => {
+  let service: BulkAccountService;
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+  const jo = { accountId: 1, name: 'Jo', email: 'jo@example.com', uid: 'uid-1', defaultProfileId: 11 };
+  const sam = { accountId: 2, name: 'Sam', email: 'sam@example.com', uid: 'uid-2', defaultProfileId: 20 };
+
+  beforeEach(() => {
+    service = new BulkAccountService();
+    jest.clearAllMocks();
+    delete process.env.BULK_ACCOUNT_CONCURRENCY;
+    mockAccountsDb.getAccountsByIds.mockResolvedValue([jo, sam]);
+  });
+
+  it('should default to a concurrency of 5', () => {
+    expect(service.getConcurrency()).toBe(5);
+    process.env.BULK_ACCOUNT_CONCURRENCY = '2';
+    expect(service.getConcurrency()).toBe(2);
+  });
+
+  it('should report missing accounts and de-duplicate ids', async () => {
+    const report = await service.runAction('verify-email', [1, 3, 1], admin);
+
+    expect(mockAccountsDb.getAccountsByIds).toHaveBeenCalledWith([1, 3]);
+    expect(accountService.verifyEmail).toHaveBeenCalledTimes(1);
+    expect(accountService.verifyEmail).toHaveBeenCalledWith('uid-1');
+    expect(report).toEqual({
+      action: 'verify-email',
+      total: 2,
+      succeeded: 1,
+      failed: 1,
+      results: [
+        { accountId: 1, success: true, message: 'Email verified' },
+        { accountId: 3, success: false, error: 'Account not found' },
+      ],
+    });
+  });
+
+  it('should keep going when one account fails', async () => {
+    (accountService.verifyEmail as jest.Mock).mockRejectedValueOnce(new Error('Firebase error'));
+
+    const report = await service.runAction('verify-email', [1, 2], admin);
+
+    expect(report.results).toEqual([
+      { accountId: 1, success: false, error: 'Firebase error' },
+      { accountId: 2, success: true, message: 'Email verified' },
+    ]);
+    expect(report.failed).toBe(1);
+  });
+
+  it('should fall back to the discovery email when there is no upcoming content', async () => {
+    (emailService.sendDigestEmailToAccount as jest.Mock)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Account has no upcoming content'));
+
+    const report = await service.runAction('send-weekly-email', [1, 2], admin);
+
+    expect(emailService.sendDiscoveryEmailToAccount).toHaveBeenCalledWith('sam@example.com');
+    expect(report.results.map((result) => result.message)).toEqual([
+      'Weekly digest email sent',
+      'Weekly discovery email sent',
+    ]);
+  });
+
+  it('should reset the default profile to the oldest profile', async () => {
+    mockAccountsDb.getFirstProfileId.mockResolvedValueOnce(10).mockResolvedValueOnce(20);
+
+    const report = await service.runAction('reset-default-profile', [1, 2], admin);
+
+    expect(accountService.editAccount).toHaveBeenCalledTimes(1);
+    expect(accountService.editAccount).toHaveBeenCalledWith(1, 'Jo', 10);
+    expect(report.results.map((result) => result.message)).toEqual([
+      'Default profile reset to 10',
+      'Default profile already 20',
+    ]);
+  });
+
+  it('should fail the reset for accounts without profiles', async () => {
+    mockAccountsDb.getFirstProfileId.mockResolvedValue(null);
+
+    const report = await service.runAction('reset-default-profile', [1], admin);
+
+    expect(report.results).toEqual([{ accountId: 1, success: false, error: 'Account has no profiles' }]);
+  });
+
+  it('should move deleted accounts to the trash', async () => {
+    (trashService.trashAccount as jest.Mock).mockResolvedValueOnce({ id: 1 }).mockResolvedValueOnce(null);
+
+    const report = await service.runAction('delete', [1, 2], admin);
+
+    expect(trashService.trashAccount).toHaveBeenCalledWith(1, admin);
+    expect(report.results).toEqual([
+      { accountId: 1, success: true, message: 'Account moved to trash' },
+      { accountId: 2, success: false, error: 'Account not found' },
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+import * as contentHistoryDb from '@db/contentHistoryDb';
+import { ContentHistoryService } from '@services/ContentHistoryService';
+
+jest.mock('@db/contentHistoryDb');
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockDb = contentHistoryDb as jest.Mocked<typeof contentHistoryDb>;
+
+describe('ContentHistoryService', () => {
+  const episode = (id: number, episodeNumber: number, airDate: string | null) => ({
+    id,
+    seasonNumber: 1,
+    episodeNumber,
+    title: `Episode ${episodeNumber}`,
+    airDate,
+  });
+  const show = (overrides: Record<string, unknown> = {}) => ({
+    fields: { title: 'Severance', status: 'Returning Series', network: 'Apple TV+', type: 'Scripted' },
+    seasons: [1],
+    episodes: [episode(101, 1, '2022-02-18'), episode(102, 2, '2022-02-18')],
+    ...overrides,
+  });
+
+  let service: ContentHistoryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ContentHistoryService();
+    mockDb.addContentChanges.mockResolvedValue(undefined);
+    mockDb.saveSnapshot.mockResolvedValue(undefined);
+  });
+
+  describe('captureChanges', () => {
+    it('should record status changes, new seasons, new episodes and air date shifts', async () => {
+      const current = show({
+        fields: { title: 'Severance', status: 'Ended', network: 'Apple TV+', type: 'Scripted' },
+        seasons: [1, 2],
+        episodes: [
+          episode(101, 1, '2022-02-18'),
+          episode(102, 2, '2022-02-25'),
+          { id: 201, seasonNumber: 2, episodeNumber: 1, title: 'Hello, Ms. Cobel', airDate: '2025-01-17' },
+        ],
+      });
+      mockDb.getShowSnapshot.mockResolvedValue(current);
+      mockDb.getStoredSnapshot.mockResolvedValue(show());
+
+      const changes = await service.captureChanges('show', 10, 'refresh');
+
+      expect(changes).toEqual([
+        { type: 'field_changed', field: 'status', from: 'Returning Series', to: 'Ended' },
+        { type: 'season_added', seasonNumber: 2 },
+        {
+          type: 'air_date_changed',
+          episodeId: 102,
+          seasonNumber: 1,
+          episodeNumber: 2,
+          from: '2022-02-18',
+          to: '2022-02-25',
+        },
+        { type: 'episode_added', episodeId: 201, seasonNumber: 2, episodeNumber: 1, title: 'Hello, Ms. Cobel' },
+      ]);
+      expect(mockDb.addContentChanges).toHaveBeenCalledWith('show', 10, 'Severance', 'refresh', changes);
+      expect(mockDb.saveSnapshot).toHaveBeenCalledWith('show', 10, current);
+    });
+
+    it('should record movie field changes', async () => {
+      mockDb.getMovieSnapshot.mockResolvedValue({
+        fields: { title: 'Alien', releaseDate: '1979-05-25', runtime: 117, mpaRating: 'R' },
+      });
+      mockDb.getStoredSnapshot.mockResolvedValue({
+        fields: { title: 'Alien', releaseDate: '1979-05-25', runtime: null, mpaRating: 'R' },
+      });
+
+      const changes = await service.captureChanges('movie', 17, 'scheduled');
+
+      expect(changes).toEqual([{ type: 'field_changed', field: 'runtime', from: null, to: 117 }]);
+      expect(mockDb.addContentChanges).toHaveBeenCalledWith('movie', 17, 'Alien', 'scheduled', changes);
+    });
+
+    it('should only store a snapshot for content without one', async () => {
+      mockDb.getShowSnapshot.mockResolvedValue(show());
+      mockDb.getStoredSnapshot.mockResolvedValue(null);
+
+      expect(await service.captureChanges('show', 10, 'refresh')).toEqual([]);
+      expect(mockDb.addContentChanges).not.toHaveBeenCalled();
+      expect(mockDb.saveSnapshot).toHaveBeenCalledWith('show', 10, show());
+    });
+
+    it('should not record anything when nothing changed', async () => {
+      mockDb.getShowSnapshot.mockResolvedValue(show());
+      mockDb.getStoredSnapshot.mockResolvedValue(show());
+
+      expect(await service.captureChanges('show', 10, 'refresh')).toEqual([]);
+      expect(mockDb.addContentChanges).not.toHaveBeenCalled();
+    });
+
+    it('should skip content that no longer exists', async () => {
+      mockDb.getShowSnapshot.mockResolvedValue(null);
+
+      expect(await service.captureChanges('show', 99, 'refresh')).toEqual([]);
+      expect(mockDb.saveSnapshot).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('trackRefresh', () => {
+    it('should attribute earlier changes to the scheduled updates and the rest to the refresh', async () => {
+      const updated = show({ fields: { ...show().fields, status: 'Ended' } });
+      mockDb.getShowSnapshot.mockResolvedValueOnce(show()).mockResolvedValueOnce(updated);
+      mockDb.getStoredSnapshot.mockResolvedValueOnce(show({ seasons: [] })).mockResolvedValueOnce(show());
+      const refresh = jest.fn().mockResolvedValue(undefined);
+
+      await service.trackRefresh('show', 10, refresh);
+
+      expect(refresh).toHaveBeenCalled();
+      expect(mockDb.addContentChanges).toHaveBeenNthCalledWith(1, 'show', 10, 'Severance', 'scheduled', [
+        { type: 'season_added', seasonNumber: 1 },
+      ]);
+      expect(mockDb.addContentChanges).toHaveBeenNthCalledWith(2, 'show', 10, 'Severance', 'refresh', [
+        { type: 'field_changed', field: 'status', from: 'Returning Series', to: 'Ended' },
+      ]);
+    });
+
+    it('should still refresh when history cannot be recorded', async () => {
+      mockDb.getShowSnapshot.mockRejectedValue(new Error('Connection lost'));
+      const refresh = jest.fn().mockResolvedValue(undefined);
+
+      await service.trackRefresh('show', 10, refresh);
+
+      expect(refresh).toHaveBeenCalled();
+    });
+
+    it('should pass on refresh failures', async () => {
+      mockDb.getShowSnapshot.mockResolvedValue(show());
+      mockDb.getStoredSnapshot.mockResolvedValue(show());
+
+      await expect(service.trackRefresh('show', 10, () => Promise.reject(new Error('TMDB timeout')))).rejects.toThrow(
+        'TMDB timeout',
+      );
+    });
+  });
+
+  describe('captureScheduledChanges', () => {
+    it('should check shows and movies updated since their last check', async () => {
+      mockDb.getContentIdsToCapture.mockResolvedValueOnce([10, 11]).mockResolvedValueOnce([17]);
+      mockDb.getShowSnapshot
+        .mockResolvedValueOnce(show({ fields: { ...show().fields, status: 'Ended' } }))
+        .mockRejectedValueOnce(new Error('Deadlock'));
+      mockDb.getMovieSnapshot.mockResolvedValue({ fields: { title: 'Alien' } });
+      mockDb.getStoredSnapshot.mockResolvedValueOnce(show()).mockResolvedValueOnce({ fields: { title: 'Alien' } });
+
+      expect(await service.captureScheduledChanges()).toEqual({ checked: 2, changed: 1 });
+      expect(mockDb.getContentIdsToCapture).toHaveBeenCalledWith('show');
+      expect(mockDb.getContentIdsToCapture).toHaveBeenCalledWith('movie');
+      expect(mockDb.addContentChanges).toHaveBeenCalledWith('show', 10, 'Severance', 'scheduled', expect.any(Array));
+    });
+  });
+
+  describe('getChanges', () => {
+    it('should return a page of changes with pagination', async () => {
+      mockDb.getContentChanges.mockResolvedValue([]);
+      mockDb.getContentChangeCount.mockResolvedValue(120);
+
+      const result = await service.getHistory('show', 10, 2, 50, 50);
+
+      expect(mockDb.getContentChanges).toHaveBeenCalledWith({ contentType: 'show', contentId: 10 }, 50, 50);
+      expect(result.pagination).toEqual({
+        totalCount: 120,
+        totalPages: 3,
+        currentPage: 2,
+        limit: 50,
+        hasNextPage: true,
+        hasPrevPage: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { TMDBStub, startTMDBStub } from '../helpers/tmdbStub';
+import { adminMovieService, adminShowService } from '@ajgifford/keepwatching-common-server/services';
+import * as contentImportDb from '@db/contentImportDb';
+import { ContentImportService } from '@services/ContentImportService';
+
+jest.mock('@db/contentImportDb');
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  adminShowService: {
+    getShowDetails: jest.fn(),
+  },
+  adminMovieService: {
+    getMovieDetails: jest.fn(),
+  },
+}));
+
+const mockDb = contentImportDb as jest.Mocked<typeof contentImportDb>;
+
+describe('ContentImportService', () => {
+  const castMember = (id: number, order: number) => ({
+    id,
+    name: `Actor ${id}`,
+    gender: 2,
+    profile_path: null,
+    character: `Character ${id}`,
+    credit_id: `credit-${id}`,
+    order,
+  });
+  const episode = (seasonNumber: number, episodeNumber: number) => ({
+    id: seasonNumber * 100 + episodeNumber,
+    season_number: seasonNumber,
+    episode_number: episodeNumber,
+    episode_type: 'standard',
+    name: `Episode ${episodeNumber}`,
+    overview: '',
+    air_date: '2026-11-01',
+    runtime: 50,
+    still_path: null,
+  });
+  const season = (seasonNumber: number, episodeCount: number) => ({
+    id: 9000 + seasonNumber,
+    season_number: seasonNumber,
+    name: `Season ${seasonNumber}`,
+    overview: '',
+    air_date: '2026-11-01',
+    poster_path: null,
+    episode_count: episodeCount,
+  });
+  const show = {
+    id: 1396,
+    name: 'Upcoming Show',
+    overview: 'An upcoming show',
+    first_air_date: '2026-11-01',
+    last_air_date: null,
+    poster_path: '/poster.jpg',
+    backdrop_path: null,
+    vote_average: 0,
+    status: 'In Production',
+    type: 'Scripted',
+    in_production: true,
+    number_of_seasons: 2,
+    number_of_episodes: 3,
+    networks: [{ name: 'HBO' }],
+    seasons: [season(1, 2), season(2, 1)],
+    credits: { cast: [castMember(1, 0), castMember(2, 1)] },
+  };
+  const movie = {
+    id: 348,
+    title: 'Upcoming Movie',
+    overview: '',
+    release_date: '2026-12-18',
+    runtime: null,
+    poster_path: null,
+    backdrop_path: null,
+    vote_average: 0,
+    credits: { cast: [castMember(3, 0)] },
+  };
+
+  const originalApiUrl = process.env.TMDB_API_URL;
+  const originalRateLimit = process.env.CONTENT_UPDATE_RATE_LIMIT;
+  let stub: TMDBStub;
+  let service: ContentImportService;
+
+  beforeAll(async () => {
+    stub = await startTMDBStub({
+      '/tv/1396': show,
+      '/tv/1396/season/1': { id: 9001, season_number: 1, episodes: [episode(1, 1), episode(1, 2)] },
+      '/tv/1396/season/2': { id: 9002, season_number: 2, episodes: [episode(2, 1)] },
+      '/movie/348': movie,
+      '/movie/500': 500,
+    });
+    process.env.TMDB_API_URL = stub.url;
+    process.env.CONTENT_UPDATE_RATE_LIMIT = '0';
+  });
+
+  afterAll(async () => {
+    process.env.TMDB_API_URL = originalApiUrl;
+    process.env.CONTENT_UPDATE_RATE_LIMIT = originalRateLimit;
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stub.requests.length = 0;
+    service = new ContentImportService();
+    mockDb.findContentIdByTmdbId.mockResolvedValue(null);
+    mockDb.saveImportedShow.mockResolvedValue({ id: 42, duplicate: false });
+    mockDb.saveImportedMovie.mockResolvedValue({ id: 17, duplicate: false });
+    (adminShowService.getShowDetails as jest.Mock).mockResolvedValue({ id: 42, title: 'Upcoming Show' });
+    (adminMovieService.getMovieDetails as jest.Mock).mockResolvedValue({ id: 17, title: 'Upcoming Movie' });
+  });
+
+  describe('importShow', () => {
+    it('should fetch the show and every season from TMDB and save them', async () => {
+      const result = await service.importShow(1396);
+
+      expect(stub.requests.map((request) => request.path)).toEqual([
+        '/tv/1396',
+        '/tv/1396/season/1',
+        '/tv/1396/season/2',
+      ]);
+      expect(stub.requests[0].query.get('append_to_response')).toBe('credits,watch/providers');
+      expect(mockDb.saveImportedShow).toHaveBeenCalledWith(show, [
+        expect.objectContaining({ season_number: 1 }),
+        expect.objectContaining({ season_number: 2 }),
+      ]);
+      expect(adminShowService.getShowDetails).toHaveBeenCalledWith(42);
+      expect(result).toEqual({
+        outcome: 'created',
+        id: 42,
+        title: 'Upcoming Show',
+        details: { id: 42, title: 'Upcoming Show' },
+      });
+    });
+
+    it('should reject a show that was already imported without calling TMDB', async () => {
+      mockDb.findContentIdByTmdbId.mockResolvedValue(7);
+
+      expect(await service.importShow(1396)).toEqual({ outcome: 'duplicate', id: 7 });
+      expect(mockDb.findContentIdByTmdbId).toHaveBeenCalledWith('show', 1396);
+      expect(stub.requests).toHaveLength(0);
+      expect(mockDb.saveImportedShow).not.toHaveBeenCalled();
+    });
+
+    it('should report a duplicate when a concurrent import saved the show first', async () => {
+      mockDb.saveImportedShow.mockResolvedValue({ id: 7, duplicate: true });
+
+      expect(await service.importShow(1396)).toEqual({ outcome: 'duplicate', id: 7 });
+      expect(adminShowService.getShowDetails).not.toHaveBeenCalled();
+    });
+
+    it('should return not_found when TMDB has no such show', async () => {
+      expect(await service.importShow(999)).toEqual({ outcome: 'not_found' });
+      expect(mockDb.saveImportedShow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importMovie', () => {
+    it('should fetch the movie with its credits and release dates and save it', async () => {
+      const result = await service.importMovie(348);
+
+      expect(stub.requests[0].query.get('append_to_response')).toBe('credits,release_dates,watch/providers');
+      expect(mockDb.saveImportedMovie).toHaveBeenCalledWith(movie);
+      expect(adminMovieService.getMovieDetails).toHaveBeenCalledWith(17);
+      expect(result).toEqual({
+        outcome: 'created',
+        id: 17,
+        title: 'Upcoming Movie',
+        details: { id: 17, title: 'Upcoming Movie' },
+      });
+    });
+
+    it('should report a duplicate when a concurrent import saved the movie first', async () => {
+      mockDb.saveImportedMovie.mockResolvedValue({ id: 9, duplicate: true });
+
+      expect(await service.importMovie(348)).toEqual({ outcome: 'duplicate', id: 9 });
+      expect(adminMovieService.getMovieDetails).not.toHaveBeenCalled();
+    });
+
+    it('should not save anything when TMDB fails', async () => {
+      await expect(service.importMovie(500)).rejects.toThrow('TMDB request /movie/500 failed with status 500');
+      expect(mockDb.saveImportedMovie).not.toHaveBeenCalled();
+    });
+  });
+});
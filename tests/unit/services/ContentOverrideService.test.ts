@@ -0,0 +1,149 @@
+import { adminMovieService, adminShowService } from '@ajgifford/keepwatching-common-server/services';
+import * as contentOverridesDb from '@db/contentOverridesDb';
+import { contentHistoryService } from '@services/ContentHistoryService';
+import { ContentOverrideService } from '@services/ContentOverrideService';
+
+jest.mock('@db/contentOverridesDb');
+jest.mock('@services/ContentHistoryService', () => ({
+  contentHistoryService: {
+    trackRefresh: jest.fn((_contentType: string, _contentId: number, refresh: () => Promise<void>) => refresh()),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  adminShowService: {
+    updateShowById: jest.fn(),
+  },
+  adminMovieService: {
+    updateMovieById: jest.fn(),
+  },
+}));
+
+const mockDb = contentOverridesDb as jest.Mocked<typeof contentOverridesDb>;
+
+describe('ContentOverrideService', () => {
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+  const override = {
+    contentType: 'show' as const,
+    contentId: 10,
+    field: 'status',
+    value: 'Ended',
+    sourceValue: 'Canceled',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    updatedBy: admin,
+  };
+
+  let service: ContentOverrideService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ContentOverrideService();
+    mockDb.contentExists.mockResolvedValue(true);
+    mockDb.episodeExists.mockResolvedValue(true);
+    mockDb.replaceOverrides.mockResolvedValue(undefined);
+    mockDb.getOverrides.mockResolvedValue([override]);
+    mockDb.applyOverrides.mockResolvedValue(0);
+  });
+
+  describe('setShowOverrides', () => {
+    it('should replace the overrides and return the stored ones', async () => {
+      const result = await service.setShowOverrides(10, { status: 'Ended' }, admin);
+
+      expect(mockDb.contentExists).toHaveBeenCalledWith('show', 10);
+      expect(mockDb.replaceOverrides).toHaveBeenCalledWith('show', 10, { status: 'Ended' }, admin);
+      expect(mockDb.getOverrides).toHaveBeenCalledWith('show', 10);
+      expect(result).toEqual({ outcome: 'updated', overrides: [override] });
+    });
+
+    it('should return not_found for an unknown show', async () => {
+      mockDb.contentExists.mockResolvedValue(false);
+
+      expect(await service.setShowOverrides(99, { status: 'Ended' }, admin)).toEqual({ outcome: 'not_found' });
+      expect(mockDb.replaceOverrides).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setMovieOverrides', () => {
+    it('should replace the movie overrides', async () => {
+      await service.setMovieOverrides(17, { runtime: 118 }, admin);
+
+      expect(mockDb.contentExists).toHaveBeenCalledWith('movie', 17);
+      expect(mockDb.replaceOverrides).toHaveBeenCalledWith('movie', 17, { runtime: 118 }, admin);
+    });
+  });
+
+  describe('setEpisodeOverrides', () => {
+    it('should replace the overrides of an episode of the show', async () => {
+      await service.setEpisodeOverrides(10, 101, { title: 'Pilot' }, admin);
+
+      expect(mockDb.episodeExists).toHaveBeenCalledWith(10, 101);
+      expect(mockDb.replaceOverrides).toHaveBeenCalledWith('episode', 101, { title: 'Pilot' }, admin);
+    });
+
+    it('should return not_found when the episode is not part of the show', async () => {
+      mockDb.episodeExists.mockResolvedValue(false);
+
+      expect(await service.setEpisodeOverrides(10, 999, { title: 'Pilot' }, admin)).toEqual({
+        outcome: 'not_found',
+      });
+    });
+  });
+
+  describe('refreshShow', () => {
+    it('should re-apply the show and episode overrides after the TMDB update', async () => {
+      const calls: string[] = [];
+      (adminShowService.updateShowById as jest.Mock).mockImplementation(async () => calls.push('update'));
+      mockDb.getShowOverrideTargets.mockResolvedValue([
+        { contentType: 'show', contentId: 10 },
+        { contentType: 'episode', contentId: 101 },
+      ]);
+      mockDb.applyOverrides.mockImplementation(async (target) => calls.push(`apply ${target.contentId}`));
+
+      await service.refreshShow(10, 1396, 'all');
+
+      expect(adminShowService.updateShowById).toHaveBeenCalledWith(10, 1396, 'all');
+      expect(mockDb.getShowOverrideTargets).toHaveBeenCalledWith(10);
+      expect(calls).toEqual(['update', 'apply 10', 'apply 101']);
+      expect(contentHistoryService.trackRefresh).toHaveBeenCalledWith('show', 10, expect.any(Function));
+    });
+
+    it('should not re-apply overrides when the update fails', async () => {
+      (adminShowService.updateShowById as jest.Mock).mockRejectedValue(new Error('TMDB timeout'));
+
+      await expect(service.refreshShow(10, 1396, 'latest')).rejects.toThrow('TMDB timeout');
+      expect(mockDb.applyOverrides).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshMovie', () => {
+    it('should re-apply the movie overrides after the TMDB update', async () => {
+      await service.refreshMovie(17, 348);
+
+      expect(adminMovieService.updateMovieById).toHaveBeenCalledWith(17, 348);
+      expect(mockDb.applyOverrides).toHaveBeenCalledWith({ contentType: 'movie', contentId: 17 });
+      expect(contentHistoryService.trackRefresh).toHaveBeenCalledWith('movie', 17, expect.any(Function));
+    });
+  });
+
+  describe('reapplyAll', () => {
+    it('should re-apply every override and skip content that fails', async () => {
+      mockDb.getAllOverrideTargets.mockResolvedValue([
+        { contentType: 'movie', contentId: 17 },
+        { contentType: 'show', contentId: 10 },
+        { contentType: 'episode', contentId: 101 },
+      ]);
+      mockDb.applyOverrides
+        .mockResolvedValueOnce(2)
+        .mockRejectedValueOnce(new Error('Lock wait timeout'))
+        .mockResolvedValueOnce(1);
+
+      expect(await service.reapplyAll()).toBe(3);
+      expect(mockDb.applyOverrides).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import * as contentSearchDb from '@db/contentSearchDb';
+import { ContentSearchService } from '@services/ContentSearchService';
+
+jest.mock('@db/contentSearchDb');
+
+const mockContentSearchDb = contentSearchDb as jest.Mocked<typeof contentSearchDb>;
+
+describe('ContentSearchService', () => {
+  let service: ContentSearchService;
+
+  beforeEach(() => {
+    service = new ContentSearchService();
+    jest.clearAllMocks();
+  });
+
+  describe('searchShows', () => {
+    it('should return a page of shows with pagination', async () => {
+      const shows = [{ id: 1, title: 'Severance' }] as any;
+      const query = { search: 'sev', searchMode: 'prefix' as const };
+      mockContentSearchDb.searchShows.mockResolvedValue(shows);
+      mockContentSearchDb.countShows.mockResolvedValue(45);
+
+      const result = await service.searchShows(query, 2, 20, 20);
+
+      expect(mockContentSearchDb.searchShows).toHaveBeenCalledWith(query, 20, 20);
+      expect(mockContentSearchDb.countShows).toHaveBeenCalledWith(query);
+      expect(result).toEqual({
+        shows,
+        pagination: { totalCount: 45, totalPages: 3, currentPage: 2, limit: 20, hasNextPage: true, hasPrevPage: true },
+      });
+    });
+  });
+
+  describe('searchMovies', () => {
+    it('should return a page of movies with pagination', async () => {
+      const query = { searchMode: 'fuzzy' as const, unwatched: true };
+      mockContentSearchDb.searchMovies.mockResolvedValue([]);
+      mockContentSearchDb.countMovies.mockResolvedValue(0);
+
+      const result = await service.searchMovies(query, 1, 0, 50);
+
+      expect(mockContentSearchDb.searchMovies).toHaveBeenCalledWith(query, 50, 0);
+      expect(result).toEqual({
+        movies: [],
+        pagination: { totalCount: 0, totalPages: 0, currentPage: 1, limit: 50, hasNextPage: false, hasPrevPage: false },
+      });
+    });
+  });
+});
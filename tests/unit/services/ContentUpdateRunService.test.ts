@@ -0,0 +1,304 @@
+import * as contentSearchDb from '@db/contentSearchDb';
+import * as contentUpdateDb from '@db/contentUpdateDb';
+import { contentOverrideService } from '@services/ContentOverrideService';
+import { ContentUpdateRunService } from '@services/ContentUpdateRunService';
+import { waitForTMDBRateLimit } from '@utils/tmdbClient';
+import { EventEmitter } from 'events';
+
+jest.mock('@db/contentSearchDb');
+jest.mock('@db/contentUpdateDb');
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+jest.mock('@utils/tmdbClient', () => ({
+  waitForTMDBRateLimit: jest.fn(),
+}));
+jest.mock('@services/ContentOverrideService', () => ({
+  contentOverrideService: {
+    refreshShow: jest.fn(),
+    refreshMovie: jest.fn(),
+  },
+}));
+
+const mockContentSearchDb = contentSearchDb as jest.Mocked<typeof contentSearchDb>;
+const mockContentUpdateDb = contentUpdateDb as jest.Mocked<typeof contentUpdateDb>;
+
+function runOf(result: Awaited<ReturnType<ContentUpdateRunService['startShowUpdate']>>) {
+  if (result.outcome === 'no_matches') throw new Error('expected a run');
+  return result.run;
+}
+
+async function waitForRun(service: ContentUpdateRunService, runId: string) {
+  for (let i = 0; i < 100 && service.getRun(runId)?.status === 'running'; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  return service.getRun(runId)!;
+}
+
+describe('ContentUpdateRunService', () => {
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+  const shows = [
+    { id: 1, tmdbId: 1396, title: 'Breaking Bad' },
+    { id: 2, tmdbId: 1399, title: 'Game of Thrones' },
+    { id: 3, tmdbId: 60059, title: 'Better Call Saul' },
+  ];
+
+  let service: ContentUpdateRunService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.CONTENT_UPDATE_CONCURRENCY;
+    (waitForTMDBRateLimit as jest.Mock).mockResolvedValue(undefined);
+    service = new ContentUpdateRunService();
+    mockContentUpdateDb.getShowsForUpdate.mockResolvedValue(shows);
+    (contentOverrideService.refreshShow as jest.Mock).mockResolvedValue(true);
+    (contentOverrideService.refreshMovie as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('getConcurrency', () => {
+    it('should default to 2', () => {
+      expect(service.getConcurrency()).toBe(2);
+    });
+
+    it('should read CONTENT_UPDATE_CONCURRENCY', () => {
+      process.env.CONTENT_UPDATE_CONCURRENCY = '4';
+      expect(service.getConcurrency()).toBe(4);
+    });
+  });
+
+  describe('startShowUpdate', () => {
+    it('should update every show and track progress', async () => {
+      const result = await service.startShowUpdate(admin);
+
+      expect(result.outcome).toBe('started');
+      expect(runOf(result)).toEqual(
+        expect.objectContaining({
+          contentType: 'show',
+          filters: null,
+          status: 'running',
+          total: 3,
+          processed: 0,
+          startedBy: admin,
+        }),
+      );
+
+      const run = await waitForRun(service, runOf(result).id);
+      expect(run).toEqual(
+        expect.objectContaining({
+          status: 'completed',
+          processed: 3,
+          updated: 3,
+          failed: 0,
+          errors: [],
+          estimatedCompletionAt: null,
+        }),
+      );
+      expect(run.finishedAt).not.toBeNull();
+      expect(contentOverrideService.refreshShow).toHaveBeenCalledWith(2, 1399, 'latest');
+    });
+
+    it('should record per-item errors without stopping the run', async () => {
+      (contentOverrideService.refreshShow as jest.Mock)
+        .mockResolvedValueOnce(true)
+        .mockRejectedValueOnce(new Error('TMDB timeout'))
+        .mockResolvedValueOnce(true);
+
+      const started = runOf(await service.startShowUpdate(admin));
+      const run = await waitForRun(service, started.id);
+
+      expect(run.updated).toBe(2);
+      expect(run.failed).toBe(1);
+      expect(run.errors).toEqual([
+        expect.objectContaining({ contentId: 2, tmdbId: 1399, title: 'Game of Thrones', error: 'TMDB timeout' }),
+      ]);
+    });
+
+    it('should refuse to start while a show update is running', async () => {
+      (contentOverrideService.refreshShow as jest.Mock).mockReturnValue(new Promise(() => {}));
+
+      const first = await service.startShowUpdate(admin);
+      const second = await service.startShowUpdate(admin);
+
+      expect(second).toEqual({ outcome: 'already_running', run: expect.objectContaining({ id: runOf(first).id }) });
+      expect(mockContentUpdateDb.getShowsForUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not start a run when nothing needs updating', async () => {
+      mockContentUpdateDb.getShowsForUpdate.mockResolvedValue([]);
+
+      expect(await service.startShowUpdate(admin)).toEqual({ outcome: 'no_matches' });
+      expect(service.listRuns()).toEqual([]);
+    });
+
+    it('should wait for a TMDB rate limit slot before each item', async () => {
+      const started = runOf(await service.startShowUpdate(admin));
+      await waitForRun(service, started.id);
+
+      expect(waitForTMDBRateLimit).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('startShowRefresh / startMovieRefresh', () => {
+    it('should update the shows matching the filters', async () => {
+      const filters = { searchMode: 'fuzzy' as const, status: 'Returning Series' };
+      mockContentSearchDb.findShowsToRefresh.mockResolvedValue([shows[2]]);
+
+      const result = await service.startShowRefresh(filters, admin);
+      const run = await waitForRun(service, runOf(result).id);
+
+      expect(mockContentSearchDb.findShowsToRefresh).toHaveBeenCalledWith(filters);
+      expect(run).toEqual(expect.objectContaining({ filters, total: 1, updated: 1, status: 'completed' }));
+      expect(contentOverrideService.refreshShow).toHaveBeenCalledWith(3, 60059, 'latest');
+    });
+
+    it('should update the movies matching the filters', async () => {
+      const filters = { searchMode: 'fuzzy' as const, ids: [17] };
+      mockContentSearchDb.findMoviesToRefresh.mockResolvedValue([{ id: 17, tmdbId: 348, title: 'Alien' }]);
+
+      const result = await service.startMovieRefresh(filters, admin);
+      await waitForRun(service, runOf(result).id);
+
+      expect(contentOverrideService.refreshMovie).toHaveBeenCalledWith(17, 348);
+    });
+
+    it('should report when nothing matches', async () => {
+      mockContentSearchDb.findShowsToRefresh.mockResolvedValue([]);
+
+      expect(await service.startShowRefresh({ searchMode: 'fuzzy', network: 'HBO' }, admin)).toEqual({
+        outcome: 'no_matches',
+      });
+    });
+
+    it('should refuse to start while a show update is running', async () => {
+      (contentOverrideService.refreshShow as jest.Mock).mockReturnValue(new Promise(() => {}));
+      await service.startShowUpdate(admin);
+
+      const result = await service.startShowRefresh({ searchMode: 'fuzzy', network: 'HBO' }, admin);
+
+      expect(result.outcome).toBe('already_running');
+      expect(mockContentSearchDb.findShowsToRefresh).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startMovieUpdate', () => {
+    it('should update every movie', async () => {
+      mockContentUpdateDb.getMoviesForUpdate.mockResolvedValue([{ id: 17, tmdbId: 348, title: 'Alien' }]);
+
+      const started = runOf(await service.startMovieUpdate(admin));
+      const run = await waitForRun(service, started.id);
+
+      expect(run.status).toBe('completed');
+      expect(contentOverrideService.refreshMovie).toHaveBeenCalledWith(17, 348);
+    });
+  });
+
+  describe('cancelRun', () => {
+    it('should stop starting new items once cancelled', async () => {
+      process.env.CONTENT_UPDATE_CONCURRENCY = '1';
+      let finishFirst: () => void = () => {};
+      (contentOverrideService.refreshShow as jest.Mock).mockReturnValueOnce(
+        new Promise<void>((resolve) => (finishFirst = resolve)),
+      );
+
+      const started = runOf(await service.startShowUpdate(admin));
+      const result = service.cancelRun(started.id);
+      finishFirst();
+      const run = await waitForRun(service, started.id);
+
+      expect(result.outcome).toBe('cancelling');
+      expect(run).toEqual(expect.objectContaining({ status: 'cancelled', processed: 1, updated: 1 }));
+      expect(run.cancelRequestedAt).not.toBeNull();
+      expect(contentOverrideService.refreshShow).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not wait for rate limit slots once cancelled', async () => {
+      process.env.CONTENT_UPDATE_CONCURRENCY = '1';
+      let grantSecondSlot: () => void = () => {};
+      (waitForTMDBRateLimit as jest.Mock)
+        .mockResolvedValueOnce(undefined)
+        .mockReturnValueOnce(new Promise<void>((resolve) => (grantSecondSlot = resolve)));
+
+      const started = runOf(await service.startShowUpdate(admin));
+      for (let i = 0; i < 10 && (waitForTMDBRateLimit as jest.Mock).mock.calls.length < 2; i++) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      service.cancelRun(started.id);
+      grantSecondSlot();
+      const run = await waitForRun(service, started.id);
+
+      // The second item already held a slot; the third never takes one
+      expect(run).toEqual(expect.objectContaining({ status: 'cancelled', processed: 1 }));
+      expect(waitForTMDBRateLimit).toHaveBeenCalledTimes(2);
+      expect(contentOverrideService.refreshShow).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report unknown and finished runs', async () => {
+      expect(service.cancelRun('missing')).toEqual({ outcome: 'not_found' });
+
+      const started = runOf(await service.startShowUpdate(admin));
+      await waitForRun(service, started.id);
+
+      expect(service.cancelRun(started.id)).toEqual({
+        outcome: 'not_running',
+        run: expect.objectContaining({ status: 'completed' }),
+      });
+    });
+  });
+
+  describe('listRuns', () => {
+    it('should list runs newest first', async () => {
+      const first = runOf(await service.startShowUpdate(admin));
+      await waitForRun(service, first.id);
+      const second = runOf(await service.startShowUpdate(admin));
+      await waitForRun(service, second.id);
+
+      expect(service.listRuns().map((run) => run.id)).toEqual([second.id, first.id]);
+    });
+  });
+
+  describe('streamRun', () => {
+    const createResponse = () => ({ writeHead: jest.fn(), write: jest.fn(), end: jest.fn() });
+
+    it('should send progress after each item and end when the run finishes', async () => {
+      const started = runOf(await service.startShowUpdate(admin));
+      const req = new EventEmitter();
+      const res = createResponse();
+
+      service.streamRun(started.id, req as any, res as any);
+      await waitForRun(service, started.id);
+
+      expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({ 'Content-Type': 'text/event-stream' }));
+      const events = res.write.mock.calls.map(([data]) => JSON.parse(data.replace(/^data: /, '')));
+      expect(events.map((event) => event.processed)).toEqual([0, 1, 2, 3, 3]);
+      expect(events[events.length - 1].status).toBe('completed');
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should send the final state of a finished run and end', async () => {
+      const started = runOf(await service.startShowUpdate(admin));
+      await waitForRun(service, started.id);
+      const res = createResponse();
+
+      service.streamRun(started.id, new EventEmitter() as any, res as any);
+
+      expect(res.write).toHaveBeenCalledTimes(1);
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should stop sending when the client disconnects', async () => {
+      (contentOverrideService.refreshShow as jest.Mock).mockReturnValue(new Promise(() => {}));
+      const started = runOf(await service.startShowUpdate(admin));
+      const req = new EventEmitter();
+      const res = createResponse();
+
+      service.streamRun(started.id, req as any, res as any);
+      req.emit('close');
+      service.cancelRun(started.id);
+
+      expect(res.write).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import * as dataQualityDb from '@db/dataQualityDb';
+import { DataQualityService } from '@services/DataQualityService';
+
+jest.mock('@db/dataQualityDb');
+jest.mock('@services/dataQualityRules', () => ({ defaultDataQualityRules: [] }));
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockDataQualityDb = dataQualityDb as jest.Mocked<typeof dataQualityDb>;
+
+describe('DataQualityService', () => {
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+  const detected = [{ contentType: 'movie' as const, contentId: 17, title: 'Alien', details: { tmdbId: 348 } }];
+  const issue = {
+    ...detected[0],
+    id: 4,
+    rule: 'movie-missing-runtime',
+    status: 'open' as const,
+    firstDetectedAt: '2025-06-01T05:30:00.000Z',
+    lastDetectedAt: '2025-06-02T05:30:00.000Z',
+    resolvedAt: null,
+    fixedByUid: null,
+    fixedByEmail: null,
+  };
+
+  let fixableRule: any;
+  let reportOnlyRule: any;
+  let service: DataQualityService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fixableRule = {
+      id: 'movie-missing-runtime',
+      description: 'Movie has no runtime',
+      contentType: 'movie' as const,
+      severity: 'warning' as const,
+      detect: jest.fn().mockResolvedValue(detected),
+      fix: jest.fn().mockResolvedValue(undefined),
+    };
+    reportOnlyRule = {
+      id: 'show-duplicate-episodes',
+      description: 'Show has duplicate episodes',
+      contentType: 'show' as const,
+      severity: 'error' as const,
+      detect: jest.fn().mockResolvedValue([]),
+    };
+    service = new DataQualityService([fixableRule, reportOnlyRule]);
+  });
+
+  describe('registerRule / hasRule', () => {
+    it('should register rules by id', () => {
+      expect(service.hasRule('movie-missing-runtime')).toBe(true);
+      expect(service.hasRule('other')).toBe(false);
+
+      service.registerRule({ ...reportOnlyRule, id: 'other' });
+
+      expect(service.hasRule('other')).toBe(true);
+    });
+  });
+
+  describe('runScan', () => {
+    it('should run every rule and store its findings', async () => {
+      mockDataQualityDb.saveRuleFindings
+        .mockResolvedValueOnce({ opened: 1, resolved: 0 })
+        .mockResolvedValueOnce({ opened: 0, resolved: 2 });
+
+      const summary = await service.runScan();
+
+      expect(mockDataQualityDb.saveRuleFindings).toHaveBeenCalledWith('movie-missing-runtime', detected);
+      expect(mockDataQualityDb.saveRuleFindings).toHaveBeenCalledWith('show-duplicate-episodes', []);
+      expect(summary).toEqual({
+        rules: [
+          { rule: 'movie-missing-runtime', detected: 1, opened: 1, resolved: 0 },
+          { rule: 'show-duplicate-episodes', detected: 0, opened: 0, resolved: 2 },
+        ],
+        failedRules: [],
+      });
+    });
+
+    it('should skip a rule that fails and keep scanning', async () => {
+      (fixableRule.detect as jest.Mock).mockRejectedValue(new Error('bad query'));
+      mockDataQualityDb.saveRuleFindings.mockResolvedValue({ opened: 0, resolved: 0 });
+
+      const summary = await service.runScan();
+
+      expect(mockDataQualityDb.saveRuleFindings).toHaveBeenCalledTimes(1);
+      expect(summary.failedRules).toEqual(['movie-missing-runtime']);
+      expect(summary.rules).toHaveLength(1);
+    });
+  });
+
+  describe('getIssueCounts', () => {
+    it('should report every rule, including rules without issues', async () => {
+      mockDataQualityDb.getIssueCountsByRule.mockResolvedValue([
+        { rule: 'movie-missing-runtime', status: 'open', count: 3 },
+        { rule: 'movie-missing-runtime', status: 'resolved', count: 5 },
+      ]);
+
+      const result = await service.getIssueCounts();
+
+      expect(result).toEqual([
+        {
+          rule: 'movie-missing-runtime',
+          description: 'Movie has no runtime',
+          contentType: 'movie',
+          severity: 'warning',
+          fixable: true,
+          open: 3,
+          resolved: 5,
+        },
+        {
+          rule: 'show-duplicate-episodes',
+          description: 'Show has duplicate episodes',
+          contentType: 'show',
+          severity: 'error',
+          fixable: false,
+          open: 0,
+          resolved: 0,
+        },
+      ]);
+    });
+  });
+
+  describe('getIssues', () => {
+    it('should return a page of issues with pagination', async () => {
+      mockDataQualityDb.getIssues.mockResolvedValue([issue]);
+      mockDataQualityDb.getIssueCount.mockResolvedValue(11);
+
+      const result = await service.getIssues({ status: 'open' }, 2, 5, 5);
+
+      expect(mockDataQualityDb.getIssues).toHaveBeenCalledWith({ status: 'open' }, 5, 5);
+      expect(result.pagination).toEqual({
+        totalCount: 11,
+        totalPages: 3,
+        currentPage: 2,
+        limit: 5,
+        hasNextPage: true,
+        hasPrevPage: true,
+      });
+    });
+  });
+
+  describe('fixIssue', () => {
+    it('should run the rule fix and resolve the issue', async () => {
+      const fixed = { ...issue, status: 'resolved' as const };
+      mockDataQualityDb.getIssueById.mockResolvedValueOnce(issue).mockResolvedValueOnce(fixed);
+
+      const result = await service.fixIssue(4, admin);
+
+      expect(fixableRule.fix).toHaveBeenCalledWith(issue);
+      expect(mockDataQualityDb.markIssueFixed).toHaveBeenCalledWith(4, admin);
+      expect(result).toEqual({ outcome: 'fixed', issue: fixed });
+    });
+
+    it('should report missing, resolved and unfixable issues', async () => {
+      mockDataQualityDb.getIssueById.mockResolvedValueOnce(null);
+      expect(await service.fixIssue(4, admin)).toEqual({ outcome: 'not_found' });
+
+      mockDataQualityDb.getIssueById.mockResolvedValueOnce({ ...issue, status: 'resolved' });
+      expect((await service.fixIssue(4, admin)).outcome).toBe('not_open');
+
+      mockDataQualityDb.getIssueById.mockResolvedValueOnce({ ...issue, rule: 'show-duplicate-episodes' });
+      expect((await service.fixIssue(4, admin)).outcome).toBe('not_fixable');
+
+      expect(mockDataQualityDb.markIssueFixed).not.toHaveBeenCalled();
+    });
+
+    it('should leave the issue open when the fix fails', async () => {
+      mockDataQualityDb.getIssueById.mockResolvedValue(issue);
+      (fixableRule.fix as jest.Mock).mockRejectedValue(new Error('TMDB unavailable'));
+
+      await expect(service.fixIssue(4, admin)).rejects.toThrow('TMDB unavailable');
+      expect(mockDataQualityDb.markIssueFixed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import * as duplicateEpisodesDb from '@db/duplicateEpisodesDb';
+import { DuplicateEpisodeService } from '@services/DuplicateEpisodeService';
+
+jest.mock('@db/duplicateEpisodesDb');
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockDb = duplicateEpisodesDb as jest.Mocked<typeof duplicateEpisodesDb>;
+
+describe('DuplicateEpisodeService', () => {
+  const episode = (id: number, overrides: Record<string, unknown> = {}) => ({
+    id,
+    tmdbId: 62085,
+    seasonId: 5,
+    seasonNumber: 1,
+    episodeNumber: 2,
+    title: 'Cat in the Bag',
+    updatedAt: '2025-06-01T10:00:00.000Z',
+    ...overrides,
+  });
+
+  let service: DuplicateEpisodeService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new DuplicateEpisodeService();
+    mockDb.showExists.mockResolvedValue(true);
+    mockDb.getEpisodeWatchStatuses.mockResolvedValue([]);
+    mockDb.removeDuplicateEpisodes.mockResolvedValue(undefined);
+  });
+
+  describe('resolveShowDuplicates', () => {
+    it('should return show_not_found for an unknown show', async () => {
+      mockDb.showExists.mockResolvedValue(false);
+
+      const result = await service.resolveShowDuplicates(99, true);
+
+      expect(result).toEqual({ outcome: 'show_not_found' });
+      expect(mockDb.getDuplicateEpisodes).not.toHaveBeenCalled();
+    });
+
+    it('should keep the episode with a TMDB id over a newer one without', async () => {
+      mockDb.getDuplicateEpisodes.mockResolvedValue([
+        episode(101),
+        episode(140, { tmdbId: null, updatedAt: '2025-07-01T10:00:00.000Z' }),
+      ]);
+
+      const result = await service.resolveShowDuplicates(10, true);
+
+      expect(result.outcome).toBe('resolved');
+      if (result.outcome !== 'resolved') return;
+      expect(result.plan.groups[0].keep.id).toBe(101);
+      expect(result.plan.groups[0].remove.map((e) => e.id)).toEqual([140]);
+    });
+
+    it('should keep the most recently updated episode, then the newest row', async () => {
+      mockDb.getDuplicateEpisodes.mockResolvedValue([
+        episode(101, { updatedAt: '2025-05-01T10:00:00.000Z' }),
+        episode(140),
+        episode(150, { seasonNumber: 2, episodeNumber: 1 }),
+        episode(151, { seasonNumber: 2, episodeNumber: 1 }),
+      ]);
+
+      const result = await service.resolveShowDuplicates(10, true);
+
+      if (result.outcome !== 'resolved') throw new Error('expected resolved');
+      expect(result.plan.groups.map((group) => group.keep.id)).toEqual([140, 151]);
+      expect(result.plan.summary).toEqual({ groups: 2, episodesRemoved: 2, watchStatusesMigrated: 0 });
+    });
+
+    it("should migrate each profile's furthest status unless the canonical episode is already further", async () => {
+      mockDb.getDuplicateEpisodes.mockResolvedValue([
+        episode(101),
+        episode(140, { updatedAt: null }),
+        episode(141, { updatedAt: null }),
+      ]);
+      mockDb.getEpisodeWatchStatuses.mockResolvedValue([
+        { profileId: 1, episodeId: 140, status: 'WATCHING' },
+        { profileId: 1, episodeId: 141, status: 'WATCHED' },
+        { profileId: 2, episodeId: 101, status: 'WATCHED' },
+        { profileId: 2, episodeId: 140, status: 'WATCHING' },
+        { profileId: 3, episodeId: 101, status: 'NOT_WATCHED' },
+        { profileId: 3, episodeId: 141, status: 'WATCHED' },
+      ]);
+
+      const result = await service.resolveShowDuplicates(10, true);
+
+      if (result.outcome !== 'resolved') throw new Error('expected resolved');
+      expect(result.plan.groups[0].migrations).toEqual([
+        { profileId: 1, fromEpisodeId: 141, status: 'WATCHED' },
+        { profileId: 3, fromEpisodeId: 141, status: 'WATCHED' },
+      ]);
+      expect(mockDb.getEpisodeWatchStatuses).toHaveBeenCalledWith([101, 140, 141]);
+    });
+
+    it('should not change anything on a dry run', async () => {
+      mockDb.getDuplicateEpisodes.mockResolvedValue([episode(101), episode(140, { tmdbId: null })]);
+
+      const result = await service.resolveShowDuplicates(10, true);
+
+      expect(result).toEqual(expect.objectContaining({ outcome: 'resolved', dryRun: true }));
+      expect(mockDb.removeDuplicateEpisodes).not.toHaveBeenCalled();
+    });
+
+    it('should apply the plan when not a dry run', async () => {
+      mockDb.getDuplicateEpisodes.mockResolvedValue([episode(101), episode(140, { tmdbId: null })]);
+      mockDb.getEpisodeWatchStatuses.mockResolvedValue([{ profileId: 1, episodeId: 140, status: 'WATCHED' }]);
+
+      await service.resolveShowDuplicates(10, false);
+
+      expect(mockDb.removeDuplicateEpisodes).toHaveBeenCalledWith(
+        10,
+        [{ profileId: 1, episodeId: 101, status: 'WATCHED' }],
+        [140],
+      );
+    });
+
+    it('should not write when the show has no duplicates', async () => {
+      mockDb.getDuplicateEpisodes.mockResolvedValue([]);
+
+      const result = await service.resolveShowDuplicates(10, false);
+
+      if (result.outcome !== 'resolved') throw new Error('expected resolved');
+      expect(result.plan.groups).toEqual([]);
+      expect(mockDb.removeDuplicateEpisodes).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveAllDuplicates', () => {
+    it('should resolve every show with duplicates and skip shows that fail', async () => {
+      mockDb.getShowIdsWithDuplicateEpisodes.mockResolvedValue([3, 10]);
+      mockDb.getDuplicateEpisodes
+        .mockRejectedValueOnce(new Error('Lost connection'))
+        .mockResolvedValueOnce([episode(101), episode(140, { tmdbId: null })]);
+
+      const result = await service.resolveAllDuplicates(false);
+
+      expect(result.dryRun).toBe(false);
+      expect(result.failedShowIds).toEqual([3]);
+      expect(result.plans.map((plan) => plan.showId)).toEqual([10]);
+      expect(result.summary).toEqual({ shows: 1, groups: 1, episodesRemoved: 1, watchStatusesMigrated: 0 });
+      expect(mockDb.removeDuplicateEpisodes).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only plan on a dry run', async () => {
+      mockDb.getShowIdsWithDuplicateEpisodes.mockResolvedValue([10]);
+      mockDb.getDuplicateEpisodes.mockResolvedValue([episode(101), episode(140, { tmdbId: null })]);
+
+      const result = await service.resolveAllDuplicates(true);
+
+      expect(result.summary.shows).toBe(1);
+      expect(mockDb.removeDuplicateEpisodes).not.toHaveBeenCalled();
+    });
+  });
+});
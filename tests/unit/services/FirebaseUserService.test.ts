@@ -0,0 +1,170 @@
+import { getServiceName } from '@ajgifford/keepwatching-common-server/config';
+import { getFirebaseAdmin } from '@ajgifford/keepwatching-common-server/utils';
+import { FirebaseUserService } from '@services/FirebaseUserService';
+
+jest.mock('@ajgifford/keepwatching-common-server/config', () => ({
+  getServiceName: jest.fn(),
+}));
+jest.mock('@ajgifford/keepwatching-common-server/utils', () => ({
+  getFirebaseAdmin: jest.fn(),
+}));
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+  },
+}));
+
+describe('FirebaseUserService', () => {
+  let service: FirebaseUserService;
+  const mockAuth = {
+    getUser: jest.fn(),
+    getUsers: jest.fn(),
+    updateUser: jest.fn(),
+    revokeRefreshTokens: jest.fn(),
+    generatePasswordResetLink: jest.fn(),
+    createCustomToken: jest.fn(),
+  };
+  const notFound = Object.assign(new Error('There is no user record'), { code: 'auth/user-not-found' });
+
+  const userRecord = {
+    uid: 'uid-3',
+    email: 'jo@example.com',
+    emailVerified: true,
+    disabled: false,
+    providerData: [{ providerId: 'password' }, { providerId: 'google.com' }],
+    metadata: {
+      creationTime: 'Sat, 01 Mar 2025 10:00:00 GMT',
+      lastSignInTime: 'Sun, 01 Jun 2025 10:00:00 GMT',
+      lastRefreshTime: null,
+    },
+    tokensValidAfterTime: 'Sat, 01 Mar 2025 10:00:00 GMT',
+  };
+
+  beforeEach(() => {
+    service = new FirebaseUserService();
+    jest.clearAllMocks();
+    (getServiceName as jest.Mock).mockReturnValue('keepwatching');
+    (getFirebaseAdmin as jest.Mock).mockReturnValue({ auth: () => mockAuth });
+  });
+
+  describe('getUser', () => {
+    it('should use the app Firebase project and return the user details', async () => {
+      mockAuth.getUser.mockResolvedValue(userRecord);
+
+      const result = await service.getUser('uid-3');
+
+      expect(getFirebaseAdmin).toHaveBeenCalledWith('keepwatching');
+      expect(result).toEqual({
+        uid: 'uid-3',
+        email: 'jo@example.com',
+        emailVerified: true,
+        disabled: false,
+        providers: ['password', 'google.com'],
+        creationTime: 'Sat, 01 Mar 2025 10:00:00 GMT',
+        lastSignInTime: 'Sun, 01 Jun 2025 10:00:00 GMT',
+        lastRefreshTime: null,
+        tokensValidAfterTime: 'Sat, 01 Mar 2025 10:00:00 GMT',
+      });
+    });
+
+    it('should return null when Firebase has no such user', async () => {
+      mockAuth.getUser.mockRejectedValue(notFound);
+
+      expect(await service.getUser('missing')).toBeNull();
+    });
+
+    it('should rethrow other Firebase errors', async () => {
+      mockAuth.getUser.mockRejectedValue(Object.assign(new Error('quota'), { code: 'auth/quota-exceeded' }));
+
+      await expect(service.getUser('uid-3')).rejects.toThrow('quota');
+    });
+
+    it('should throw when the Firebase app is not initialized', async () => {
+      (getFirebaseAdmin as jest.Mock).mockReturnValue(undefined);
+
+      await expect(service.getUser('uid-3')).rejects.toThrow('Firebase service unavailable');
+    });
+  });
+
+  describe('getUsers', () => {
+    it('should look users up in batches of 100 and key them by uid', async () => {
+      const uids = Array.from({ length: 150 }, (_, index) => `uid-${index}`);
+      mockAuth.getUsers
+        .mockResolvedValueOnce({ users: [userRecord], notFound: [] })
+        .mockResolvedValueOnce({ users: [{ ...userRecord, uid: 'uid-120' }], notFound: [] });
+
+      const users = await service.getUsers(uids);
+
+      expect(mockAuth.getUsers).toHaveBeenCalledTimes(2);
+      expect(mockAuth.getUsers.mock.calls[0][0]).toHaveLength(100);
+      expect(mockAuth.getUsers.mock.calls[1][0]).toEqual(uids.slice(100).map((uid) => ({ uid })));
+      expect([...users.keys()]).toEqual(['uid-3', 'uid-120']);
+      expect(users.get('uid-3')?.lastSignInTime).toBe('Sun, 01 Jun 2025 10:00:00 GMT');
+    });
+
+    it('should not call Firebase for an empty list', async () => {
+      expect(await service.getUsers([])).toEqual(new Map());
+      expect(mockAuth.getUsers).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setDisabled', () => {
+    it('should update the disabled flag', async () => {
+      mockAuth.updateUser.mockResolvedValue({ ...userRecord, disabled: true });
+
+      const result = await service.setDisabled('uid-3', true);
+
+      expect(mockAuth.updateUser).toHaveBeenCalledWith('uid-3', { disabled: true });
+      expect(result?.disabled).toBe(true);
+    });
+
+    it('should return null when Firebase has no such user', async () => {
+      mockAuth.updateUser.mockRejectedValue(notFound);
+
+      expect(await service.setDisabled('missing', false)).toBeNull();
+    });
+  });
+
+  describe('revokeRefreshTokens', () => {
+    it('should revoke the tokens and return the refreshed user', async () => {
+      mockAuth.revokeRefreshTokens.mockResolvedValue(undefined);
+      mockAuth.getUser.mockResolvedValue({ ...userRecord, tokensValidAfterTime: 'Mon, 02 Jun 2025 09:00:00 GMT' });
+
+      const result = await service.revokeRefreshTokens('uid-3');
+
+      expect(mockAuth.revokeRefreshTokens).toHaveBeenCalledWith('uid-3');
+      expect(result?.tokensValidAfterTime).toBe('Mon, 02 Jun 2025 09:00:00 GMT');
+    });
+
+    it('should return null when Firebase has no such user', async () => {
+      mockAuth.revokeRefreshTokens.mockRejectedValue(notFound);
+
+      expect(await service.revokeRefreshTokens('missing')).toBeNull();
+    });
+  });
+
+  describe('generatePasswordResetLink', () => {
+    it('should return the reset link', async () => {
+      mockAuth.generatePasswordResetLink.mockResolvedValue('https://example.com/reset?oobCode=abc');
+
+      expect(await service.generatePasswordResetLink('jo@example.com')).toBe('https://example.com/reset?oobCode=abc');
+    });
+
+    it('should return null when no user has the email', async () => {
+      mockAuth.generatePasswordResetLink.mockRejectedValue(
+        Object.assign(new Error('no user'), { code: 'auth/email-not-found' }),
+      );
+
+      expect(await service.generatePasswordResetLink('nobody@example.com')).toBeNull();
+    });
+  });
+
+  describe('createCustomToken', () => {
+    it('should mint a custom token with the claims', async () => {
+      mockAuth.createCustomToken.mockResolvedValue('custom-token');
+
+      expect(await service.createCustomToken('uid-3', { readOnly: true })).toBe('custom-token');
+      expect(mockAuth.createCustomToken).toHaveBeenCalledWith('uid-3', { readOnly: true });
+    });
+  });
+});
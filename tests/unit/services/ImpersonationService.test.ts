@@ -0,0 +1,149 @@
+import * as accountsDb from '@db/accountsDb';
+import * as impersonationDb from '@db/impersonationDb';
+import { firebaseUserService } from '@services/FirebaseUserService';
+import { ImpersonationService } from '@services/ImpersonationService';
+
+jest.mock('@db/accountsDb');
+jest.mock('@db/impersonationDb');
+jest.mock('@services/FirebaseUserService', () => ({
+  firebaseUserService: {
+    createCustomToken: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+  },
+}));
+
+const mockAccountsDb = accountsDb as jest.Mocked<typeof accountsDb>;
+const mockImpersonationDb = impersonationDb as jest.Mocked<typeof impersonationDb>;
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService;
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+  const account = { accountId: 3, name: 'Jo', email: 'jo@example.com', uid: 'uid-3', defaultProfileId: 7 };
+  const session = {
+    id: 'session-1',
+    accountId: 3,
+    accountUid: 'uid-3',
+    impersonatedByUid: 'admin-1',
+    impersonatedByEmail: 'admin@example.com',
+    reason: null,
+    status: 'active' as const,
+    createdAt: '2025-06-01T10:00:00.000Z',
+    expiresAt: '2025-06-01T10:15:00.000Z',
+    revokedAt: null,
+    revokedByUid: null,
+  };
+
+  beforeEach(() => {
+    service = new ImpersonationService();
+    jest.clearAllMocks();
+    delete process.env.IMPERSONATION_TTL_MINUTES;
+    process.env.IMPERSONATION_ENABLED = 'true';
+  });
+
+  afterAll(() => {
+    delete process.env.IMPERSONATION_ENABLED;
+  });
+
+  describe('getTtlMinutes', () => {
+    it('should default to 15 minutes', () => {
+      expect(service.getTtlMinutes()).toBe(15);
+    });
+
+    it('should read IMPERSONATION_TTL_MINUTES and cap it at an hour', () => {
+      process.env.IMPERSONATION_TTL_MINUTES = '30';
+      expect(service.getTtlMinutes()).toBe(30);
+
+      process.env.IMPERSONATION_TTL_MINUTES = '240';
+      expect(service.getTtlMinutes()).toBe(60);
+    });
+  });
+
+  describe('startSession', () => {
+    it('should mint a read-only token scoped to the account and record the session', async () => {
+      mockAccountsDb.getAccountsByIds.mockResolvedValue([account]);
+      (firebaseUserService.createCustomToken as jest.Mock).mockResolvedValue('custom-token');
+      mockImpersonationDb.getSessionById.mockResolvedValue(session);
+
+      const result = await service.startSession(3, admin, 'Home screen looks wrong');
+
+      const [uid, claims] = (firebaseUserService.createCustomToken as jest.Mock).mock.calls[0];
+      expect(uid).toBe('uid-3');
+      expect(claims).toEqual({
+        impersonatedBy: 'admin-1',
+        impersonationSessionId: expect.any(String),
+        impersonationExpiresAt: expect.any(Number),
+        accountId: 3,
+        readOnly: true,
+      });
+      expect(mockImpersonationDb.createSession).toHaveBeenCalledWith(
+        claims.impersonationSessionId,
+        3,
+        'uid-3',
+        admin,
+        'Home screen looks wrong',
+        15,
+      );
+      expect(result).toEqual({ outcome: 'started', session, token: 'custom-token' });
+    });
+
+    it('should not record a session when minting the token fails', async () => {
+      mockAccountsDb.getAccountsByIds.mockResolvedValue([account]);
+      (firebaseUserService.createCustomToken as jest.Mock).mockRejectedValue(new Error('Firebase service unavailable'));
+
+      await expect(service.startSession(3, admin, null)).rejects.toThrow('Firebase service unavailable');
+      expect(mockImpersonationDb.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should not start a session for an unknown account', async () => {
+      mockAccountsDb.getAccountsByIds.mockResolvedValue([]);
+
+      expect(await service.startSession(99, admin, null)).toEqual({ outcome: 'not_found' });
+      expect(firebaseUserService.createCustomToken).not.toHaveBeenCalled();
+    });
+
+    it('should not mint tokens unless impersonation is enabled', async () => {
+      delete process.env.IMPERSONATION_ENABLED;
+
+      expect(await service.startSession(3, admin, null)).toEqual({ outcome: 'disabled' });
+      expect(mockAccountsDb.getAccountsByIds).not.toHaveBeenCalled();
+      expect(firebaseUserService.createCustomToken).not.toHaveBeenCalled();
+      expect(mockImpersonationDb.createSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke an active session', async () => {
+      const revokedSession = { ...session, status: 'revoked' as const, revokedByUid: 'admin-1' };
+      mockImpersonationDb.getSessionById.mockResolvedValueOnce(session).mockResolvedValueOnce(revokedSession);
+      mockImpersonationDb.revokeSession.mockResolvedValue(true);
+
+      expect(await service.revokeSession(3, 'session-1', admin)).toEqual({
+        outcome: 'revoked',
+        session: revokedSession,
+      });
+      expect(mockImpersonationDb.revokeSession).toHaveBeenCalledWith('session-1', admin);
+    });
+
+    it('should report a session that is no longer active', async () => {
+      const expiredSession = { ...session, status: 'expired' as const };
+      mockImpersonationDb.getSessionById.mockResolvedValue(expiredSession);
+      mockImpersonationDb.revokeSession.mockResolvedValue(false);
+
+      expect(await service.revokeSession(3, 'session-1', admin)).toEqual({
+        outcome: 'not_active',
+        session: expiredSession,
+      });
+    });
+
+    it('should not revoke a session belonging to another account', async () => {
+      mockImpersonationDb.getSessionById.mockResolvedValue(session);
+
+      expect(await service.revokeSession(4, 'session-1', admin)).toEqual({ outcome: 'not_found' });
+      expect(mockImpersonationDb.revokeSession).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import * as orphansDb from '@db/orphansDb';
+import { OrphanCleanupService } from '@services/OrphanCleanupService';
+
+jest.mock('@db/orphansDb');
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockDb = orphansDb as jest.Mocked<typeof orphansDb>;
+
+describe('OrphanCleanupService', () => {
+  let service: OrphanCleanupService;
+  const originalEnv = process.env;
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const orphan = (
+    contentType: 'show' | 'movie' | 'season' | 'episode' | 'person',
+    contentId: number,
+    orphanedDaysAgo: number,
+    archivedAt: string | null = null,
+  ) => ({
+    contentType,
+    contentId,
+    title: `${contentType} ${contentId}`,
+    orphanedSince: daysAgo(orphanedDaysAgo),
+    archivedAt,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env.ORPHAN_GRACE_DAYS;
+    delete process.env.ORPHAN_CLEANUP_MODE;
+    delete process.env.ORPHAN_CLEANUP_DRY_RUN;
+    service = new OrphanCleanupService();
+
+    mockDb.findOrphans.mockResolvedValue([]);
+    mockDb.unarchiveWatchedContent.mockResolvedValue(0);
+    mockDb.saveCleanupRun.mockResolvedValue(12);
+    mockDb.archiveContent.mockImplementation(async (_contentType, ids) => ids);
+    mockDb.removeContent.mockImplementation(async (_contentType, ids) => ids);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('configuration', () => {
+    it('should default to a 30 day grace period in remove mode', () => {
+      expect(service.getGraceDays()).toBe(30);
+      expect(service.getMode()).toBe('remove');
+    });
+
+    it('should read the grace period and mode from the environment', () => {
+      process.env.ORPHAN_GRACE_DAYS = '0';
+      process.env.ORPHAN_CLEANUP_MODE = 'archive';
+
+      expect(service.getGraceDays()).toBe(0);
+      expect(service.getMode()).toBe('archive');
+    });
+
+    it('should ignore invalid values', () => {
+      process.env.ORPHAN_GRACE_DAYS = '-4';
+      process.env.ORPHAN_CLEANUP_MODE = 'purge';
+
+      expect(service.getGraceDays()).toBe(30);
+      expect(service.getMode()).toBe('remove');
+    });
+  });
+
+  describe('getOrphans', () => {
+    it('should page by the count of the filtered type', async () => {
+      mockDb.getOrphans.mockResolvedValue([orphan('movie', 3, 2)]);
+      mockDb.getOrphanCounts.mockResolvedValue({ show: 4, movie: 51, season: 0, episode: 2, person: 10 });
+
+      const result = await service.getOrphans({ contentType: 'movie' }, 2, 50, 50);
+
+      expect(mockDb.getOrphans).toHaveBeenCalledWith({ contentType: 'movie' }, 50, 50);
+      expect(result.pagination).toEqual({
+        totalCount: 51,
+        totalPages: 2,
+        currentPage: 2,
+        limit: 50,
+        hasNextPage: false,
+        hasPrevPage: true,
+      });
+    });
+
+    it('should page by the total across types without a filter', async () => {
+      mockDb.getOrphans.mockResolvedValue([]);
+      mockDb.getOrphanCounts.mockResolvedValue({ show: 4, movie: 1, season: 0, episode: 2, person: 10 });
+
+      const result = await service.getOrphans({}, 1, 0, 10);
+
+      expect(result.pagination.totalCount).toBe(17);
+      expect(result.pagination.hasNextPage).toBe(true);
+    });
+  });
+
+  describe('runCleanup', () => {
+    it('should archive shows and movies past the grace period in archive mode', async () => {
+      const orphans = [
+        orphan('show', 1, 45),
+        orphan('show', 2, 5),
+        orphan('movie', 3, 31, daysAgo(1)),
+        orphan('movie', 4, 60),
+        orphan('person', 5, 90),
+      ];
+      mockDb.trackOrphans.mockResolvedValue(orphans);
+
+      const run = await service.runCleanup({ dryRun: false, mode: 'archive' });
+
+      expect(mockDb.archiveContent).toHaveBeenCalledWith('show', [1]);
+      expect(mockDb.archiveContent).toHaveBeenCalledWith('movie', [4]);
+      expect(mockDb.removeContent).not.toHaveBeenCalled();
+      expect(run).toMatchObject({
+        id: 12,
+        mode: 'archive',
+        dryRun: false,
+        graceDays: 30,
+        detected: { show: 2, movie: 2, season: 0, episode: 0, person: 1 },
+        actioned: { show: 1, movie: 1, season: 0, episode: 0, person: 0 },
+        triggeredBy: null,
+      });
+      expect(run.items.map((item) => item.contentId)).toEqual([1, 4]);
+    });
+
+    it('should remove every type of orphan past the grace period in remove mode', async () => {
+      mockDb.trackOrphans.mockResolvedValue([
+        orphan('show', 1, 45, daysAgo(10)),
+        orphan('episode', 6, 40),
+        orphan('person', 5, 90),
+        orphan('person', 8, 1),
+      ]);
+
+      const run = await service.runCleanup({ dryRun: false, mode: 'remove' });
+
+      expect(mockDb.removeContent).toHaveBeenCalledWith('show', [1]);
+      expect(mockDb.removeContent).toHaveBeenCalledWith('episode', [6]);
+      expect(mockDb.removeContent).toHaveBeenCalledWith('person', [5]);
+      expect(mockDb.archiveContent).not.toHaveBeenCalled();
+      expect(run.actioned).toEqual({ show: 1, movie: 0, season: 0, episode: 1, person: 1 });
+    });
+
+    it('should only report content the db layer actually cleaned up', async () => {
+      mockDb.trackOrphans.mockResolvedValue([orphan('show', 1, 45), orphan('show', 2, 45)]);
+      mockDb.removeContent.mockResolvedValue([2]);
+
+      const run = await service.runCleanup({ dryRun: false });
+
+      expect(run.items.map((item) => item.contentId)).toEqual([2]);
+      expect(run.actioned.show).toBe(1);
+    });
+
+    it('should unarchive watched content before cleaning up', async () => {
+      mockDb.trackOrphans.mockResolvedValue([]);
+      mockDb.unarchiveWatchedContent.mockResolvedValue(3);
+
+      const run = await service.runCleanup({ dryRun: false });
+
+      expect(run.unarchived).toBe(3);
+    });
+
+    it('should change nothing in a dry run but still track and record it', async () => {
+      mockDb.trackOrphans.mockResolvedValue([orphan('show', 1, 45)]);
+      const admin = { uid: 'admin-1', email: 'admin@example.com' };
+
+      const run = await service.runCleanup({ dryRun: true, admin });
+
+      expect(mockDb.trackOrphans).toHaveBeenCalled();
+      expect(mockDb.unarchiveWatchedContent).not.toHaveBeenCalled();
+      expect(mockDb.removeContent).not.toHaveBeenCalled();
+      expect(run.items.map((item) => item.contentId)).toEqual([1]);
+      expect(mockDb.saveCleanupRun).toHaveBeenCalledWith(
+        expect.objectContaining({ dryRun: true, triggeredBy: admin, unarchived: 0 }),
+      );
+    });
+
+    it('should clean up new orphans straight away with no grace period', async () => {
+      process.env.ORPHAN_GRACE_DAYS = '0';
+      mockDb.trackOrphans.mockResolvedValue([orphan('movie', 4, 0)]);
+
+      const run = await service.runCleanup({ dryRun: false });
+
+      expect(mockDb.removeContent).toHaveBeenCalledWith('movie', [4]);
+      expect(run.graceDays).toBe(0);
+    });
+  });
+
+  describe('runScheduledCleanup', () => {
+    it('should use ORPHAN_CLEANUP_MODE and ORPHAN_CLEANUP_DRY_RUN', async () => {
+      process.env.ORPHAN_CLEANUP_MODE = 'archive';
+      process.env.ORPHAN_CLEANUP_DRY_RUN = 'true';
+      mockDb.trackOrphans.mockResolvedValue([orphan('show', 5, 90)]);
+
+      const run = await service.runScheduledCleanup();
+
+      expect(run.mode).toBe('archive');
+      expect(run.dryRun).toBe(true);
+      expect(mockDb.archiveContent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRuns / getRun', () => {
+    it('should page runs', async () => {
+      mockDb.getCleanupRuns.mockResolvedValue([]);
+      mockDb.getCleanupRunCount.mockResolvedValue(3);
+
+      const result = await service.getRuns(1, 0, 2);
+
+      expect(mockDb.getCleanupRuns).toHaveBeenCalledWith(2, 0);
+      expect(result.pagination).toMatchObject({ totalCount: 3, totalPages: 2, hasNextPage: true });
+    });
+
+    it('should return null for an unknown run', async () => {
+      mockDb.getCleanupRunById.mockResolvedValue(null);
+
+      expect(await service.getRun(99)).toBeNull();
+    });
+  });
+});
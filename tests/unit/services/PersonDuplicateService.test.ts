@@ -0,0 +1,263 @@
+import { personService } from '@ajgifford/keepwatching-common-server/services';
+import * as personDuplicatesDb from '@db/personDuplicatesDb';
+import { PersonDuplicateService } from '@services/PersonDuplicateService';
+
+jest.mock('@db/personDuplicatesDb');
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  personService: {
+    mergeAndDeletePerson: jest.fn(),
+  },
+}));
+
+const mockDb = personDuplicatesDb as jest.Mocked<typeof personDuplicatesDb>;
+
+describe('PersonDuplicateService', () => {
+  let service: PersonDuplicateService;
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+
+  const candidate = (
+    id: number,
+    name: string,
+    birthday: string | null = null,
+    showCredits = 0,
+    movieCredits = 0,
+    profileImage: string | null = null,
+  ) => ({ id, tmdbId: 5000 + id, name, birthday, profileImage, showCredits, movieCredits });
+
+  const givenPeople = (
+    people: ReturnType<typeof candidate>[],
+    credits: Record<number, string[]> = {},
+    birthdayPairs: [number, number][] = [],
+  ) => {
+    mockDb.getPersonNames.mockResolvedValue(people.map(({ id, name }) => ({ id, name })));
+    mockDb.getSameBirthdayPairsWithSharedCredits.mockResolvedValue(birthdayPairs);
+    mockDb.getCandidates.mockImplementation(async (ids) => people.filter((person) => ids.includes(person.id)));
+    mockDb.getCredits.mockResolvedValue(
+      new Map(Object.entries(credits).map(([id, personCredits]) => [Number(id), new Set(personCredits)])),
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new PersonDuplicateService();
+    mockDb.getRejectedPairs.mockResolvedValue([]);
+  });
+
+  const scan = async () => {
+    await service.scanForDuplicates();
+    return mockDb.replaceSuggestions.mock.calls[0][0];
+  };
+
+  describe('scanForDuplicates', () => {
+    it('should match names ignoring accents, case and punctuation', async () => {
+      givenPeople([candidate(1, 'Zoë Saldaña'), candidate(2, 'zoe saldana'), candidate(3, 'Zoe Kazan')]);
+
+      const suggestions = await scan();
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toMatchObject({ confidence: 0.5, reasons: ['same_name'], sharedCredits: 0 });
+      expect(mockDb.getCandidates).toHaveBeenCalledWith([1, 2]);
+    });
+
+    it('should score birthdays and shared credits', async () => {
+      givenPeople(
+        [
+          candidate(1, 'Jane Doe', '1980-04-02'),
+          candidate(2, 'Jane Doe', '1980-04-02'),
+          candidate(3, 'John Roe', '1975-01-01'),
+          candidate(4, 'John Roe', '1990-06-30'),
+        ],
+        { 1: ['show:10', 'movie:3'], 2: ['show:10'] },
+      );
+
+      const suggestions = await scan();
+
+      expect(suggestions.map((suggestion) => [suggestion.confidence, suggestion.reasons])).toEqual([
+        [1, ['same_name', 'same_birthday', 'shared_credits']],
+        [0.2, ['same_name', 'different_birthday']],
+      ]);
+      expect(suggestions[0].sharedCredits).toBe(1);
+    });
+
+    it('should suggest people born the same day with shared credits and similar names', async () => {
+      givenPeople(
+        [candidate(1, 'Jon Smith', '1970-02-02'), candidate(2, 'Jonathan Smith', '1970-02-02')],
+        { 1: ['show:10'], 2: ['show:10'] },
+        [[1, 2]],
+      );
+
+      const suggestions = await scan();
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toMatchObject({ confidence: 0.67, reasons: ['same_birthday', 'shared_credits'] });
+    });
+
+    it('should never suggest people without a word of their name in common', async () => {
+      givenPeople(
+        [candidate(1, 'Jane Doe', '1970-02-02'), candidate(2, 'Mary Major', '1970-02-02')],
+        { 1: ['show:10'], 2: ['show:10'] },
+        [[1, 2]],
+      );
+
+      const suggestions = await scan();
+
+      expect(suggestions).toEqual([]);
+    });
+
+    it('should merge into the person with the most credits, then a profile image, then the lowest id', async () => {
+      givenPeople([
+        candidate(1, 'Jane Doe', null, 1, 0),
+        candidate(2, 'Jane Doe', null, 3, 2),
+        candidate(5, 'Ann Lee', null, 0, 0),
+        candidate(6, 'Ann Lee', null, 0, 0, '/ann.jpg'),
+        candidate(7, 'Bo Park'),
+        candidate(8, 'Bo Park'),
+      ]);
+
+      const suggestions = await scan();
+
+      expect(suggestions.map((suggestion) => [suggestion.source.id, suggestion.target.id])).toEqual([
+        [1, 2],
+        [5, 6],
+        [8, 7],
+      ]);
+    });
+
+    it('should leave out rejected pairs', async () => {
+      givenPeople([candidate(1, 'Jane Doe'), candidate(2, 'Jane Doe')]);
+      mockDb.getRejectedPairs.mockResolvedValue([[1, 2]]);
+
+      const suggestions = await scan();
+
+      expect(suggestions).toEqual([]);
+      expect(mockDb.getCandidates).not.toHaveBeenCalled();
+    });
+
+    it('should return the number of suggestions stored', async () => {
+      givenPeople([candidate(1, 'Jane Doe'), candidate(2, 'Jane Doe')]);
+
+      expect(await service.scanForDuplicates()).toBe(1);
+      expect(mockDb.replaceSuggestions).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getSuggestions', () => {
+    const stored = (sourcePersonId: number, targetPersonId: number, confidence: number) => ({
+      sourcePersonId,
+      targetPersonId,
+      confidence,
+      reasons: ['same_name' as const],
+      sharedCredits: 0,
+    });
+
+    it('should page the stored suggestions and load only the people on the page', async () => {
+      mockDb.getSuggestionPage.mockResolvedValue([stored(1, 2, 0.8), stored(8, 7, 0.5)]);
+      mockDb.countSuggestions.mockResolvedValue(3);
+      givenPeople([
+        candidate(1, 'Jane Doe'),
+        candidate(2, 'Jane Doe'),
+        candidate(7, 'Bo Park'),
+        candidate(8, 'Bo Park'),
+      ]);
+
+      const result = await service.getSuggestions({ minConfidence: 0.5 }, 2, 2, 2);
+
+      expect(mockDb.getSuggestionPage).toHaveBeenCalledWith(0.5, 2, 2);
+      expect(mockDb.countSuggestions).toHaveBeenCalledWith(0.5);
+      expect(mockDb.getCandidates).toHaveBeenCalledWith([1, 2, 8, 7]);
+      expect(mockDb.getPersonNames).not.toHaveBeenCalled();
+      expect(result.suggestions).toEqual([
+        {
+          confidence: 0.8,
+          reasons: ['same_name'],
+          sharedCredits: 0,
+          source: candidate(1, 'Jane Doe'),
+          target: candidate(2, 'Jane Doe'),
+        },
+        {
+          confidence: 0.5,
+          reasons: ['same_name'],
+          sharedCredits: 0,
+          source: candidate(8, 'Bo Park'),
+          target: candidate(7, 'Bo Park'),
+        },
+      ]);
+      expect(result.pagination).toEqual({
+        totalCount: 3,
+        totalPages: 2,
+        currentPage: 2,
+        limit: 2,
+        hasNextPage: false,
+        hasPrevPage: true,
+      });
+    });
+
+    it('should not look up people for an empty page', async () => {
+      mockDb.getSuggestionPage.mockResolvedValue([]);
+      mockDb.countSuggestions.mockResolvedValue(0);
+
+      const result = await service.getSuggestions({ minConfidence: 0.5 }, 1, 0, 50);
+
+      expect(result.suggestions).toEqual([]);
+      expect(mockDb.getCandidates).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptSuggestion', () => {
+    it('should merge a current suggestion and forget the merged person', async () => {
+      mockDb.isCurrentSuggestion.mockResolvedValue(true);
+      (personService.mergeAndDeletePerson as jest.Mock).mockResolvedValue({ showsMerged: 2, moviesMerged: 1 });
+
+      const result = await service.acceptSuggestion(12, 4);
+
+      expect(mockDb.isCurrentSuggestion).toHaveBeenCalledWith(12, 4);
+      expect(personService.mergeAndDeletePerson).toHaveBeenCalledWith(12, 4);
+      expect(mockDb.deleteRejections).toHaveBeenCalledWith(12);
+      expect(mockDb.deleteSuggestions).toHaveBeenCalledWith(12);
+      expect(result).toEqual({ outcome: 'merged', merge: { showsMerged: 2, moviesMerged: 1 } });
+    });
+
+    it('should not merge a pair that is not a current suggestion', async () => {
+      mockDb.isCurrentSuggestion.mockResolvedValue(false);
+
+      const result = await service.acceptSuggestion(12, 4);
+
+      expect(result).toEqual({ outcome: 'not_suggested' });
+      expect(personService.mergeAndDeletePerson).not.toHaveBeenCalled();
+    });
+
+    it('should keep rejections when the merge fails', async () => {
+      mockDb.isCurrentSuggestion.mockResolvedValue(true);
+      (personService.mergeAndDeletePerson as jest.Mock).mockRejectedValue(new Error('Merge failed'));
+
+      await expect(service.acceptSuggestion(12, 4)).rejects.toThrow('Merge failed');
+      expect(mockDb.deleteRejections).not.toHaveBeenCalled();
+      expect(mockDb.deleteSuggestions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectSuggestion', () => {
+    it('should save the rejection', async () => {
+      mockDb.getExistingPersonIds.mockResolvedValue([4, 12]);
+
+      const result = await service.rejectSuggestion(12, 4, 'Father and son', admin);
+
+      expect(result).toEqual({ outcome: 'rejected' });
+      expect(mockDb.saveRejection).toHaveBeenCalledWith(12, 4, 'Father and son', admin);
+    });
+
+    it('should return not_found for a missing person', async () => {
+      mockDb.getExistingPersonIds.mockResolvedValue([12]);
+
+      const result = await service.rejectSuggestion(12, 4, null, admin);
+
+      expect(result).toEqual({ outcome: 'not_found', personId: 4 });
+      expect(mockDb.saveRejection).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { personService } from '@ajgifford/keepwatching-common-server/services';
+import { PersonFailureService } from '@services/PersonFailureService';
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  personService: {
+    getPersonFailures: jest.fn(),
+    getPersonFailureById: jest.fn(),
+    resolvePersonFailure: jest.fn(),
+    updatePerson: jest.fn(),
+  },
+}));
+
+describe('PersonFailureService', () => {
+  let service: PersonFailureService;
+  const originalEnv = process.env;
+
+  const failure = (
+    id: number,
+    status = 'pending',
+    errorMessage: string | null = null,
+    errorCode: number | null = null,
+  ) => ({
+    id,
+    personId: id * 10,
+    tmdbId: id * 100,
+    status,
+    errorMessage,
+    errorCode,
+  });
+  const httpError = (message: string, status: number) => Object.assign(new Error(message), { response: { status } });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env.PERSON_FAILURE_RETRY_CONCURRENCY;
+    service = new PersonFailureService();
+    (personService.resolvePersonFailure as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getConcurrency', () => {
+    it('should default to 2 and read PERSON_FAILURE_RETRY_CONCURRENCY', () => {
+      expect(service.getConcurrency()).toBe(2);
+
+      process.env.PERSON_FAILURE_RETRY_CONCURRENCY = '6';
+      expect(service.getConcurrency()).toBe(6);
+
+      process.env.PERSON_FAILURE_RETRY_CONCURRENCY = '0';
+      expect(service.getConcurrency()).toBe(2);
+    });
+  });
+
+  describe('retryFailures', () => {
+    it('should resolve failures whose update now succeeds and classify the rest', async () => {
+      const failures = [failure(1), failure(2), failure(3), failure(4), failure(5)];
+      (personService.getPersonFailureById as jest.Mock).mockImplementation(async (id: number) => failures[id - 1]);
+      (personService.updatePerson as jest.Mock).mockImplementation(async (personId: number) => {
+        switch (personId) {
+          case 20:
+            throw httpError('Request failed with status code 404', 404);
+          case 30:
+            throw Object.assign(new Error('Too many requests'), { statusCode: 429 });
+          case 40:
+            throw Object.assign(new Error('connect ETIMEDOUT'), { code: 'ETIMEDOUT' });
+          case 50:
+            throw new Error('Duplicate entry for key people.tmdb_id');
+        }
+      });
+
+      const report = await service.retryFailures([1, 2, 3, 4, 5]);
+
+      expect(personService.updatePerson).toHaveBeenCalledWith(10, 100);
+      expect(personService.resolvePersonFailure).toHaveBeenCalledTimes(1);
+      expect(personService.resolvePersonFailure).toHaveBeenCalledWith(10, 'Resolved by retry');
+      expect(report.counts).toEqual({ resolved: 1, not_found: 1, retry_later: 2, failed: 1, skipped: 0 });
+      expect(report.results).toEqual([
+        { failureId: 1, personId: 10, outcome: 'resolved' },
+        {
+          failureId: 2,
+          personId: 20,
+          outcome: 'not_found',
+          errorType: 'not_found',
+          suggestedAction: 'update_tmdb_id_or_delete',
+          error: 'Request failed with status code 404',
+        },
+        {
+          failureId: 3,
+          personId: 30,
+          outcome: 'retry_later',
+          errorType: 'rate_limited',
+          suggestedAction: 'retry_later',
+          error: 'Too many requests',
+        },
+        {
+          failureId: 4,
+          personId: 40,
+          outcome: 'retry_later',
+          errorType: 'network',
+          suggestedAction: 'retry_later',
+          error: 'connect ETIMEDOUT',
+        },
+        {
+          failureId: 5,
+          personId: 50,
+          outcome: 'failed',
+          errorType: 'other',
+          suggestedAction: 'investigate',
+          error: 'Duplicate entry for key people.tmdb_id',
+        },
+      ]);
+    });
+
+    it('should skip unknown failures and failures that are not pending', async () => {
+      (personService.getPersonFailureById as jest.Mock).mockImplementation(async (id: number) =>
+        id === 2 ? failure(2, 'resolved') : null,
+      );
+
+      const report = await service.retryFailures([1, 2, 1]);
+
+      expect(personService.updatePerson).not.toHaveBeenCalled();
+      expect(report.results).toEqual([
+        { failureId: 1, personId: null, outcome: 'skipped', error: 'Failure not found' },
+        { failureId: 2, personId: 20, outcome: 'skipped', error: 'Failure is resolved' },
+      ]);
+    });
+
+    it('should page through every pending failure', async () => {
+      const firstPage = Array.from({ length: 500 }, (_, index) => failure(index + 1));
+      (personService.getPersonFailures as jest.Mock)
+        .mockResolvedValueOnce(firstPage)
+        .mockResolvedValueOnce([failure(501)]);
+      (personService.updatePerson as jest.Mock).mockResolvedValue(undefined);
+
+      const report = await service.retryFailures('all');
+
+      expect(personService.getPersonFailures).toHaveBeenNthCalledWith(1, 'pending', 500, 0);
+      expect(personService.getPersonFailures).toHaveBeenNthCalledWith(2, 'pending', 500, 500);
+      expect(report.total).toBe(501);
+      expect(report.counts.resolved).toBe(501);
+    });
+  });
+
+  describe('resolveFailures', () => {
+    it('should resolve pending failures with the notes and report the rest', async () => {
+      (personService.getPersonFailureById as jest.Mock).mockImplementation(async (id: number) =>
+        id === 3 ? null : failure(id, id === 2 ? 'removed' : 'pending'),
+      );
+
+      const report = await service.resolveFailures([1, 2, 3], 'Removed from TMDB');
+
+      expect(personService.resolvePersonFailure).toHaveBeenCalledTimes(1);
+      expect(personService.resolvePersonFailure).toHaveBeenCalledWith(10, 'Removed from TMDB');
+      expect(report).toEqual({
+        total: 3,
+        resolved: 1,
+        failed: 2,
+        results: [
+          { failureId: 1, personId: 10, success: true },
+          { failureId: 2, personId: 20, success: false, error: 'Failure is removed' },
+          { failureId: 3, personId: null, success: false, error: 'Failure not found' },
+        ],
+      });
+    });
+
+    it('should keep going when one failure cannot be resolved', async () => {
+      (personService.getPersonFailureById as jest.Mock).mockImplementation(async (id: number) => failure(id));
+      (personService.resolvePersonFailure as jest.Mock)
+        .mockRejectedValueOnce(new Error('Deadlock'))
+        .mockResolvedValueOnce(undefined);
+
+      const report = await service.resolveFailures([1, 2], 'Fixed');
+
+      expect(report.resolved).toBe(1);
+      expect(report.results[0]).toEqual({ failureId: 1, personId: 10, success: false, error: 'Deadlock' });
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should group pending failures by error type, largest group first', async () => {
+      (personService.getPersonFailures as jest.Mock).mockResolvedValue([
+        failure(1, 'pending', 'Request failed with status code 404'),
+        failure(2, 'pending', null, 404),
+        failure(3, 'pending', 'Service Unavailable', 503),
+        failure(4, 'pending', 'socket hang up'),
+        failure(5, 'pending', 'Person not found on TMDB'),
+        failure(6, 'pending', 'Unexpected token < in JSON'),
+      ]);
+
+      const summary = await service.getSummary();
+
+      expect(summary.total).toBe(6);
+      expect(summary.groups).toEqual([
+        { errorType: 'not_found', suggestedAction: 'update_tmdb_id_or_delete', count: 3, failureIds: [1, 2, 5] },
+        { errorType: 'server_error', suggestedAction: 'retry_later', count: 1, failureIds: [3] },
+        { errorType: 'network', suggestedAction: 'retry_later', count: 1, failureIds: [4] },
+        { errorType: 'other', suggestedAction: 'investigate', count: 1, failureIds: [6] },
+      ]);
+    });
+
+    it('should return no groups without pending failures', async () => {
+      (personService.getPersonFailures as jest.Mock).mockResolvedValue([]);
+
+      expect(await service.getSummary()).toEqual({ total: 0, groups: [] });
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import * as personSearchDb from '@db/personSearchDb';
+import { PersonSearchService } from '@services/PersonSearchService';
+
+jest.mock('@db/personSearchDb');
+
+const mockDb = personSearchDb as jest.Mocked<typeof personSearchDb>;
+
+describe('PersonSearchService', () => {
+  let service: PersonSearchService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new PersonSearchService();
+  });
+
+  describe('searchPeople', () => {
+    it('should return a page of people with pagination', async () => {
+      const people = [
+        {
+          id: 1,
+          tmdbId: 31,
+          name: 'Tom Hanks',
+          knownForDepartment: 'Acting',
+          profileImage: '/tom.jpg',
+          showCredits: 2,
+          movieCredits: 5,
+          creditCount: 7,
+        },
+      ];
+      mockDb.searchPeople.mockResolvedValue(people);
+      mockDb.countPeople.mockResolvedValue(45);
+      const query = { search: 'tom', sortBy: 'credits' as const };
+
+      const result = await service.searchPeople(query, 2, 20, 20);
+
+      expect(mockDb.searchPeople).toHaveBeenCalledWith(query, 20, 20);
+      expect(mockDb.countPeople).toHaveBeenCalledWith(query);
+      expect(result).toEqual({
+        people,
+        pagination: {
+          totalCount: 45,
+          totalPages: 3,
+          currentPage: 2,
+          limit: 20,
+          hasNextPage: true,
+          hasPrevPage: true,
+        },
+      });
+    });
+
+    it('should report no pages when nothing matches', async () => {
+      mockDb.searchPeople.mockResolvedValue([]);
+      mockDb.countPeople.mockResolvedValue(0);
+
+      const result = await service.searchPeople({ department: 'Sound' }, 1, 0, 50);
+
+      expect(result.pagination).toMatchObject({ totalCount: 0, totalPages: 0, hasNextPage: false, hasPrevPage: false });
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { TMDBStub, startTMDBStub } from '../helpers/tmdbStub';
+import { personService } from '@ajgifford/keepwatching-common-server/services';
+import * as personTmdbIdDb from '@db/personTmdbIdDb';
+import { PersonTmdbIdService } from '@services/PersonTmdbIdService';
+
+jest.mock('@db/personTmdbIdDb');
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  personService: {
+    updatePersonTmdbId: jest.fn(),
+  },
+}));
+
+const mockDb = personTmdbIdDb as jest.Mocked<typeof personTmdbIdDb>;
+
+describe('PersonTmdbIdService', () => {
+  const tomHanks = {
+    id: 31,
+    name: 'Tom Hanks',
+    also_known_as: ['Thomas Jeffrey Hanks'],
+    birthday: '1956-07-09',
+    known_for_department: 'Acting',
+    profile_path: '/tom.jpg',
+    combined_credits: {
+      cast: [
+        { id: 13, media_type: 'movie', title: 'Forrest Gump', character: 'Forrest', credit_id: 'c1' },
+        { id: 862, media_type: 'movie', title: 'Toy Story', character: 'Woody', credit_id: 'c2' },
+        { id: 4613, media_type: 'tv', name: 'Band of Brothers', character: null, credit_id: 'c3' },
+        { id: 4613, media_type: 'tv', name: 'Band of Brothers', character: 'Narrator', credit_id: 'c4' },
+      ],
+    },
+  };
+  const someoneElse = {
+    id: 500,
+    name: 'Tom Cruise',
+    birthday: '1962-07-03',
+    known_for_department: 'Acting',
+    profile_path: null,
+    combined_credits: { cast: [{ id: 954, media_type: 'movie', title: 'Mission: Impossible', credit_id: 'c5' }] },
+  };
+  const person = { id: 1, tmdbId: 100, name: 'Tom Hanks', birthday: '1956-07-09' };
+  const forrestGump = { contentType: 'movie' as const, id: 9, tmdbId: 13, title: 'Forrest Gump' };
+  const bandOfBrothers = { contentType: 'show' as const, id: 4, tmdbId: 4613, title: 'Band of Brothers' };
+  // Same TMDB id as Toy Story, but a show
+  const otherShow = { contentType: 'show' as const, id: 5, tmdbId: 862, title: 'Other Show' };
+
+  const originalApiUrl = process.env.TMDB_API_URL;
+  const originalRateLimit = process.env.CONTENT_UPDATE_RATE_LIMIT;
+  let stub: TMDBStub;
+  let service: PersonTmdbIdService;
+
+  beforeAll(async () => {
+    stub = await startTMDBStub({ '/person/31': tomHanks, '/person/500': someoneElse, '/person/503': 503 });
+    process.env.TMDB_API_URL = stub.url;
+    process.env.CONTENT_UPDATE_RATE_LIMIT = '0';
+  });
+
+  afterAll(async () => {
+    process.env.TMDB_API_URL = originalApiUrl;
+    process.env.CONTENT_UPDATE_RATE_LIMIT = originalRateLimit;
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stub.requests.length = 0;
+    service = new PersonTmdbIdService();
+    mockDb.getPerson.mockResolvedValue(person);
+    mockDb.getCredits.mockResolvedValue([forrestGump, bandOfBrothers, otherShow]);
+    mockDb.findOtherPersonByTmdbId.mockResolvedValue(null);
+    (personService.updatePersonTmdbId as jest.Mock).mockResolvedValue({ id: 1, tmdbId: 31 });
+  });
+
+  describe('previewTmdbIdChange', () => {
+    it('should compare the person with the TMDB person and their credits', async () => {
+      const result = await service.previewTmdbIdChange(1, 31);
+
+      expect(stub.requests.map((request) => request.path)).toEqual(['/person/31']);
+      expect(stub.requests[0].query.get('append_to_response')).toBe('combined_credits');
+      expect(mockDb.findOtherPersonByTmdbId).toHaveBeenCalledWith(31, 1);
+      expect(result).toEqual({
+        outcome: 'preview',
+        preview: {
+          person,
+          candidate: {
+            tmdbId: 31,
+            name: 'Tom Hanks',
+            birthday: '1956-07-09',
+            knownForDepartment: 'Acting',
+            profileImage: '/tom.jpg',
+            creditCount: 3,
+          },
+          comparison: {
+            nameMatches: true,
+            birthdayMatches: true,
+            sharedCredits: [forrestGump, bandOfBrothers],
+            unmatchedCredits: [otherShow],
+          },
+          existingPerson: null,
+          warnings: [],
+        },
+      });
+    });
+
+    it('should match a name TMDB also knows the person by, ignoring accents and case', async () => {
+      mockDb.getPerson.mockResolvedValue({ ...person, name: 'thomas jeffrey hanks' });
+
+      const result = await service.previewTmdbIdChange(1, 31);
+
+      expect(result.outcome === 'preview' && result.preview.comparison.nameMatches).toBe(true);
+    });
+
+    it('should warn when the name, birthday and credits all differ', async () => {
+      const result = await service.previewTmdbIdChange(1, 500);
+
+      expect(result).toMatchObject({
+        outcome: 'preview',
+        preview: {
+          comparison: { nameMatches: false, birthdayMatches: false, sharedCredits: [] },
+          warnings: ['name_mismatch', 'birthday_mismatch', 'no_shared_credits'],
+        },
+      });
+    });
+
+    it('should not compare birthdays or credits the person does not have', async () => {
+      mockDb.getPerson.mockResolvedValue({ ...person, birthday: null });
+      mockDb.getCredits.mockResolvedValue([]);
+
+      const result = await service.previewTmdbIdChange(1, 31);
+
+      expect(result).toMatchObject({
+        outcome: 'preview',
+        preview: { comparison: { birthdayMatches: null }, warnings: [] },
+      });
+    });
+
+    it('should warn when another person already has the TMDB id', async () => {
+      mockDb.findOtherPersonByTmdbId.mockResolvedValue({ id: 7, name: 'Tom Hanks' });
+
+      const result = await service.previewTmdbIdChange(1, 31);
+
+      expect(result).toMatchObject({
+        outcome: 'preview',
+        preview: { existingPerson: { id: 7, name: 'Tom Hanks' }, warnings: ['tmdb_id_in_use'] },
+      });
+    });
+
+    it('should return person_not_found without calling TMDB', async () => {
+      mockDb.getPerson.mockResolvedValue(null);
+
+      expect(await service.previewTmdbIdChange(99, 31)).toEqual({ outcome: 'person_not_found' });
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('should return tmdb_not_found when TMDB has no such person', async () => {
+      expect(await service.previewTmdbIdChange(1, 404)).toEqual({ outcome: 'tmdb_not_found' });
+      expect(mockDb.getCredits).not.toHaveBeenCalled();
+    });
+
+    it('should throw when TMDB fails', async () => {
+      await expect(service.previewTmdbIdChange(1, 503)).rejects.toThrow(
+        'TMDB request /person/503 failed with status 503',
+      );
+    });
+  });
+
+  describe('updateTmdbId', () => {
+    it('should set the TMDB id when the TMDB person matches', async () => {
+      const result = await service.updateTmdbId(1, 31, false);
+
+      expect(personService.updatePersonTmdbId).toHaveBeenCalledWith(1, 31);
+      expect(result).toMatchObject({ outcome: 'updated', result: { id: 1, tmdbId: 31 }, preview: { warnings: [] } });
+    });
+
+    it('should not set a TMDB id that does not match unless forced', async () => {
+      const result = await service.updateTmdbId(1, 500, false);
+
+      expect(result).toMatchObject({ outcome: 'needs_confirmation' });
+      expect(personService.updatePersonTmdbId).not.toHaveBeenCalled();
+
+      const forced = await service.updateTmdbId(1, 500, true);
+
+      expect(forced).toMatchObject({ outcome: 'updated' });
+      expect(personService.updatePersonTmdbId).toHaveBeenCalledWith(1, 500);
+    });
+
+    it('should never set a TMDB id another person has, even when forced', async () => {
+      mockDb.findOtherPersonByTmdbId.mockResolvedValue({ id: 7, name: 'Tom Hanks' });
+
+      const result = await service.updateTmdbId(1, 31, true);
+
+      expect(result).toMatchObject({ outcome: 'conflict', existingPersonId: 7 });
+      expect(personService.updatePersonTmdbId).not.toHaveBeenCalled();
+    });
+
+    it('should pass through person_not_found and tmdb_not_found', async () => {
+      expect(await service.updateTmdbId(1, 404, true)).toEqual({ outcome: 'tmdb_not_found' });
+
+      mockDb.getPerson.mockResolvedValue(null);
+      expect(await service.updateTmdbId(99, 31, true)).toEqual({ outcome: 'person_not_found' });
+      expect(personService.updatePersonTmdbId).not.toHaveBeenCalled();
+    });
+  });
+});
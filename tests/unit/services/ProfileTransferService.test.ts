@@ -0,0 +1,260 @@
+import * as accountsDb from '@db/accountsDb';
+import * as profileTransferDb from '@db/profileTransferDb';
+import { ProfileTransferService } from '@services/ProfileTransferService';
+import { trashService } from '@services/TrashService';
+
+jest.mock('@db/accountsDb');
+jest.mock('@db/profileTransferDb');
+jest.mock('@services/TrashService', () => ({
+  trashService: {
+    trashProfile: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+  },
+}));
+
+const mockAccountsDb = accountsDb as jest.Mocked<typeof accountsDb>;
+const mockProfileTransferDb = profileTransferDb as jest.Mocked<typeof profileTransferDb>;
+
+describe('ProfileTransferService', () => {
+  let service: ProfileTransferService;
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+  const sourceProfile = { profileId: 12, accountId: 3, name: 'Kids' };
+  const targetProfile = { profileId: 20, accountId: 4, name: 'Kids' };
+
+  beforeEach(() => {
+    service = new ProfileTransferService();
+    jest.clearAllMocks();
+  });
+
+  describe('moveProfile', () => {
+    it('should move the profile to the target account', async () => {
+      mockProfileTransferDb.getActiveProfile.mockResolvedValue(sourceProfile);
+      mockAccountsDb.getAccountsByIds.mockResolvedValue([
+        { accountId: 4, name: 'Sam', email: 'sam@example.com', uid: 'uid-4', defaultProfileId: 20 },
+      ]);
+      mockProfileTransferDb.moveProfile.mockResolvedValue(15);
+
+      const result = await service.moveProfile(3, 12, 4);
+
+      expect(mockProfileTransferDb.moveProfile).toHaveBeenCalledWith(12, 3, 4);
+      expect(result).toEqual({
+        outcome: 'moved',
+        profile: { profileId: 12, accountId: 4, name: 'Kids' },
+        fromAccountId: 3,
+        sourceDefaultProfileId: 15,
+      });
+    });
+
+    it('should not move a profile that belongs to another account', async () => {
+      mockProfileTransferDb.getActiveProfile.mockResolvedValue(sourceProfile);
+
+      expect(await service.moveProfile(5, 12, 4)).toEqual({ outcome: 'profile_not_found' });
+      expect(mockProfileTransferDb.moveProfile).not.toHaveBeenCalled();
+    });
+
+    it('should reject moving to the same account', async () => {
+      mockProfileTransferDb.getActiveProfile.mockResolvedValue(sourceProfile);
+
+      expect(await service.moveProfile(3, 12, 3)).toEqual({ outcome: 'same_account' });
+    });
+
+    it('should report a missing or trashed target account', async () => {
+      mockProfileTransferDb.getActiveProfile.mockResolvedValue(sourceProfile);
+      mockAccountsDb.getAccountsByIds.mockResolvedValue([]);
+
+      expect(await service.moveProfile(3, 12, 99)).toEqual({ outcome: 'account_not_found' });
+      expect(mockProfileTransferDb.moveProfile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeProfiles', () => {
+    const older = '2025-05-01T00:00:00.000Z';
+    const newer = '2025-06-01T00:00:00.000Z';
+
+    beforeEach(() => {
+      mockProfileTransferDb.getActiveProfile.mockImplementation(async (profileId) =>
+        profileId === 12 ? sourceProfile : profileId === 20 ? targetProfile : null,
+      );
+      mockProfileTransferDb.getWatchStatuses.mockImplementation(async (contentType, profileId) => {
+        if (contentType === 'show') {
+          return profileId === 12
+            ? [
+                { contentId: 1, showId: 1, status: 'WATCHING', updatedAt: newer },
+                { contentId: 2, showId: 2, status: 'WATCHED', updatedAt: older },
+                { contentId: 3, showId: 3, status: 'UP_TO_DATE', updatedAt: older },
+                { contentId: 4, showId: 4, status: 'WATCHED', updatedAt: older },
+              ]
+            : [
+                { contentId: 2, showId: 2, status: 'WATCHING', updatedAt: newer },
+                { contentId: 3, showId: 3, status: 'UP_TO_DATE', updatedAt: newer },
+                { contentId: 4, showId: 4, status: 'NOT_WATCHED', updatedAt: older },
+              ];
+        }
+        if (contentType === 'episode' && profileId === 12) {
+          return [{ contentId: 100, showId: 1, status: 'WATCHED', updatedAt: older }];
+        }
+        return [];
+      });
+    });
+
+    it('should return the diff without writing on a dry run', async () => {
+      const result = await service.mergeProfiles(
+        3,
+        12,
+        20,
+        { strategy: 'latest', dryRun: true, trashSourceProfile: true },
+        admin,
+      );
+
+      expect(mockProfileTransferDb.upsertWatchStatuses).not.toHaveBeenCalled();
+      expect(trashService.trashProfile).not.toHaveBeenCalled();
+      expect(result.outcome).toBe('merged');
+      if (result.outcome !== 'merged') return;
+
+      expect(result.sourceTrashed).toBe(false);
+      expect(result.diff.summary.show).toEqual({ add: 1, update: 0, keep: 2, unchanged: 1 });
+      expect(result.diff.summary.episode).toEqual({ add: 1, update: 0, keep: 0, unchanged: 0 });
+      expect(result.diff.changes).toEqual([
+        {
+          contentType: 'show',
+          contentId: 1,
+          action: 'add',
+          sourceStatus: 'WATCHING',
+          targetStatus: null,
+          resultStatus: 'WATCHING',
+        },
+        {
+          contentType: 'show',
+          contentId: 2,
+          action: 'keep',
+          sourceStatus: 'WATCHED',
+          targetStatus: 'WATCHING',
+          resultStatus: 'WATCHING',
+        },
+        {
+          contentType: 'show',
+          contentId: 4,
+          action: 'keep',
+          sourceStatus: 'WATCHED',
+          targetStatus: 'NOT_WATCHED',
+          resultStatus: 'NOT_WATCHED',
+        },
+      ]);
+    });
+
+    it('should prefer the furthest along status with the most-progress strategy', async () => {
+      const result = await service.mergeProfiles(
+        3,
+        12,
+        20,
+        { strategy: 'most-progress', dryRun: true, trashSourceProfile: false },
+        admin,
+      );
+
+      if (result.outcome !== 'merged') throw new Error('expected merge');
+      expect(result.diff.summary.show).toEqual({ add: 1, update: 2, keep: 0, unchanged: 1 });
+    });
+
+    it('should write the winning statuses and trash the source profile when committing', async () => {
+      (trashService.trashProfile as jest.Mock).mockResolvedValue({ id: 8 });
+
+      const result = await service.mergeProfiles(
+        3,
+        12,
+        20,
+        { strategy: 'most-progress', dryRun: false, trashSourceProfile: true },
+        admin,
+      );
+
+      expect(mockProfileTransferDb.upsertWatchStatuses).toHaveBeenCalledWith(20, {
+        show: [
+          { contentId: 1, showId: 1, status: 'WATCHING', updatedAt: null },
+          { contentId: 2, showId: 2, status: 'WATCHED', updatedAt: null },
+          { contentId: 4, showId: 4, status: 'WATCHED', updatedAt: null },
+        ],
+        season: [],
+        episode: [{ contentId: 100, showId: 1, status: 'WATCHED', updatedAt: null }],
+        movie: [],
+      });
+      expect(trashService.trashProfile).toHaveBeenCalledWith(12, admin);
+      expect(result).toEqual(expect.objectContaining({ outcome: 'merged', sourceTrashed: true }));
+    });
+
+    it('should resolve seasons and episodes from the profile that won their show', async () => {
+      mockProfileTransferDb.getWatchStatuses.mockImplementation(async (contentType, profileId) => {
+        const isSource = profileId === 12;
+        switch (contentType) {
+          case 'show':
+            // The target's status for show 2 is newer, so the target wins the show
+            return [
+              {
+                contentId: 2,
+                showId: 2,
+                status: isSource ? 'WATCHED' : 'WATCHING',
+                updatedAt: isSource ? older : newer,
+              },
+            ];
+          case 'season':
+            return [
+              {
+                contentId: 20,
+                showId: 2,
+                status: isSource ? 'WATCHED' : 'WATCHING',
+                updatedAt: isSource ? newer : older,
+              },
+            ];
+          case 'episode':
+            return isSource
+              ? [
+                  { contentId: 200, showId: 2, status: 'WATCHED', updatedAt: newer },
+                  { contentId: 201, showId: 2, status: 'WATCHED', updatedAt: newer },
+                ]
+              : [{ contentId: 200, showId: 2, status: 'NOT_WATCHED', updatedAt: older }];
+          default:
+            return [];
+        }
+      });
+
+      const result = await service.mergeProfiles(
+        3,
+        12,
+        20,
+        { strategy: 'latest', dryRun: false, trashSourceProfile: false },
+        admin,
+      );
+
+      if (result.outcome !== 'merged') throw new Error('expected merge');
+      expect(result.diff.summary.season).toEqual({ add: 0, update: 0, keep: 1, unchanged: 0 });
+      expect(result.diff.summary.episode).toEqual({ add: 1, update: 0, keep: 1, unchanged: 0 });
+      expect(mockProfileTransferDb.upsertWatchStatuses).toHaveBeenCalledWith(20, {
+        show: [],
+        season: [],
+        episode: [{ contentId: 201, showId: 2, status: 'WATCHED', updatedAt: null }],
+        movie: [],
+      });
+    });
+
+    it('should reject merging a profile into itself', async () => {
+      expect(
+        await service.mergeProfiles(3, 12, 12, { strategy: 'latest', dryRun: true, trashSourceProfile: false }, admin),
+      ).toEqual({ outcome: 'same_profile' });
+    });
+
+    it('should report which profile is missing', async () => {
+      const options = { strategy: 'latest' as const, dryRun: true, trashSourceProfile: false };
+
+      expect(await service.mergeProfiles(5, 12, 20, options, admin)).toEqual({
+        outcome: 'profile_not_found',
+        profileId: 12,
+      });
+      expect(await service.mergeProfiles(3, 12, 99, options, admin)).toEqual({
+        outcome: 'profile_not_found',
+        profileId: 99,
+      });
+    });
+  });
+});
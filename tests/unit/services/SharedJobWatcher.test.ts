@@ -0,0 +1,154 @@
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { getJobsStatus } from '@ajgifford/keepwatching-common-server/services';
+import { SharedJobWatcher } from '@services/SharedJobWatcher';
+
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  getJobsStatus: jest.fn(),
+}));
+
+const mockGetJobsStatus = getJobsStatus as jest.Mock;
+
+describe('SharedJobWatcher', () => {
+  let watcher: SharedJobWatcher;
+  let listener: jest.Mock;
+
+  const status = (name: string, isRunning: boolean, lastRunTime: string | null) => ({ name, isRunning, lastRunTime });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.SHARED_JOB_POLL_SECONDS;
+    watcher = new SharedJobWatcher();
+    listener = jest.fn().mockResolvedValue(undefined);
+    watcher.onFinished(['showsUpdate', 'moviesUpdate'], listener);
+  });
+
+  afterEach(() => {
+    watcher.shutdown();
+  });
+
+  describe('getPollSeconds', () => {
+    it('should default to 30 seconds', () => {
+      expect(watcher.getPollSeconds()).toBe(30);
+    });
+
+    it('should read SHARED_JOB_POLL_SECONDS and ignore invalid values', () => {
+      process.env.SHARED_JOB_POLL_SECONDS = '10';
+      expect(watcher.getPollSeconds()).toBe(10);
+
+      process.env.SHARED_JOB_POLL_SECONDS = '0';
+      expect(watcher.getPollSeconds()).toBe(30);
+    });
+  });
+
+  describe('poll', () => {
+    it('should not report runs that finished before the first poll', () => {
+      mockGetJobsStatus.mockReturnValue([status('showsUpdate', false, '2025-06-01T10:00:00.000Z')]);
+
+      watcher.poll();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should report a run once it has finished', () => {
+      mockGetJobsStatus
+        .mockReturnValueOnce([status('showsUpdate', false, '2025-06-01T10:00:00.000Z')])
+        .mockReturnValueOnce([status('showsUpdate', true, '2025-06-02T10:00:00.000Z')])
+        .mockReturnValueOnce([status('showsUpdate', false, '2025-06-02T10:00:00.000Z')])
+        .mockReturnValueOnce([status('showsUpdate', false, '2025-06-02T10:00:00.000Z')]);
+
+      watcher.poll();
+      watcher.poll();
+      expect(listener).not.toHaveBeenCalled();
+
+      watcher.poll();
+      watcher.poll();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith('showsUpdate');
+    });
+
+    it('should report a run that started and finished between polls', () => {
+      mockGetJobsStatus
+        .mockReturnValueOnce([status('moviesUpdate', false, null)])
+        .mockReturnValueOnce([status('moviesUpdate', false, '2025-06-02T10:00:00.000Z')]);
+
+      watcher.poll();
+      watcher.poll();
+
+      expect(listener).toHaveBeenCalledWith('moviesUpdate');
+    });
+
+    it('should report a run that was already in progress at the first poll', () => {
+      mockGetJobsStatus
+        .mockReturnValueOnce([status('showsUpdate', true, '2025-06-02T10:00:00.000Z')])
+        .mockReturnValueOnce([status('showsUpdate', false, '2025-06-02T10:00:00.000Z')]);
+
+      watcher.poll();
+      watcher.poll();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore jobs that are not watched', () => {
+      mockGetJobsStatus
+        .mockReturnValueOnce([status('peopleUpdate', false, '2025-06-01T10:00:00.000Z')])
+        .mockReturnValueOnce([status('peopleUpdate', false, '2025-06-02T10:00:00.000Z')]);
+
+      watcher.poll();
+      watcher.poll();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should log listener failures', async () => {
+      listener.mockRejectedValue(new Error('boom'));
+      mockGetJobsStatus
+        .mockReturnValueOnce([status('showsUpdate', false, null)])
+        .mockReturnValueOnce([status('showsUpdate', false, '2025-06-02T10:00:00.000Z')]);
+
+      watcher.poll();
+      watcher.poll();
+      await Promise.resolve();
+
+      expect(cliLogger.error).toHaveBeenCalledWith(
+        'Failed to handle the end of shared job showsUpdate:',
+        expect.any(Error),
+      );
+    });
+
+    it('should log status lookup failures', () => {
+      mockGetJobsStatus.mockImplementation(() => {
+        throw new Error('not initialized');
+      });
+
+      expect(() => watcher.poll()).not.toThrow();
+      expect(cliLogger.error).toHaveBeenCalledWith('Failed to check the shared job statuses:', expect.any(Error));
+    });
+  });
+
+  describe('init / shutdown', () => {
+    it('should poll on an interval until shut down', () => {
+      jest.useFakeTimers();
+      try {
+        mockGetJobsStatus.mockReturnValue([]);
+
+        watcher.init();
+        expect(mockGetJobsStatus).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(30_000);
+        expect(mockGetJobsStatus).toHaveBeenCalledTimes(2);
+
+        watcher.shutdown();
+        jest.advanceTimersByTime(60_000);
+        expect(mockGetJobsStatus).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { cliLogger } from '@ajgifford/keepwatching-common-server/logger';
+import { accountService, preferencesService, profileService } from '@ajgifford/keepwatching-common-server/services';
+import * as trashDb from '@db/trashDb';
+import { firebaseUserService } from '@services/FirebaseUserService';
+import { TrashService } from '@services/TrashService';
+
+jest.mock('@db/trashDb');
+jest.mock('@services/FirebaseUserService', () => ({
+  firebaseUserService: {
+    getUser: jest.fn(),
+    setDisabled: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/logger', () => ({
+  cliLogger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+jest.mock('@ajgifford/keepwatching-common-server/services', () => ({
+  accountService: {
+    deleteAccount: jest.fn(),
+  },
+  preferencesService: {
+    getPreferencesByType: jest.fn(),
+    updatePreferences: jest.fn(),
+  },
+  profileService: {
+    deleteProfile: jest.fn(),
+  },
+}));
+
+const mockTrashDb = trashDb as jest.Mocked<typeof trashDb>;
+const mockFirebaseUserService = firebaseUserService as jest.Mocked<typeof firebaseUserService>;
+const mockPreferencesService = preferencesService as jest.Mocked<typeof preferencesService>;
+
+describe('TrashService', () => {
+  let service: TrashService;
+  const admin = { uid: 'admin-1', email: 'admin@example.com' };
+
+  const profileEntry = {
+    id: 5,
+    entityType: 'profile' as const,
+    entityId: 12,
+    accountId: 3,
+    label: 'Kids',
+    status: 'trashed' as const,
+    deletedByUid: 'admin-1',
+    deletedByEmail: 'admin@example.com',
+    deletedAt: '2025-06-01T10:00:00.000Z',
+    purgeAfter: '2025-07-01T10:00:00.000Z',
+    restoredByUid: null,
+    restoredAt: null,
+    purgedAt: null,
+    firebaseDisabled: false,
+    emailPreferences: null,
+  };
+  const accountEntry = { ...profileEntry, id: 6, entityType: 'account' as const, entityId: 3, label: 'Jo <jo@x.com>' };
+
+  beforeEach(() => {
+    service = new TrashService();
+    jest.clearAllMocks();
+    delete process.env.TRASH_RETENTION_DAYS;
+  });
+
+  describe('getRetentionDays', () => {
+    it('should default to 30 days', () => {
+      expect(service.getRetentionDays()).toBe(30);
+    });
+
+    it('should read TRASH_RETENTION_DAYS', () => {
+      process.env.TRASH_RETENTION_DAYS = '7';
+      expect(service.getRetentionDays()).toBe(7);
+    });
+
+    it('should ignore invalid values', () => {
+      process.env.TRASH_RETENTION_DAYS = '-3';
+      expect(service.getRetentionDays()).toBe(30);
+    });
+  });
+
+  describe('trashAccount / trashProfile', () => {
+    const firebaseUser = { uid: 'uid-3', email: 'jo@x.com', emailVerified: true, disabled: false, providers: [] };
+
+    beforeEach(() => {
+      mockTrashDb.getAccountUid.mockResolvedValue('uid-3');
+      mockTrashDb.isAccountTrashed.mockResolvedValue(false);
+      mockFirebaseUserService.getUser.mockResolvedValue(firebaseUser);
+      mockFirebaseUserService.setDisabled.mockResolvedValue({ ...firebaseUser, disabled: true });
+      mockPreferencesService.getPreferencesByType.mockResolvedValue({
+        weeklyDigest: true,
+        marketingEmails: false,
+        newsletter: true,
+      });
+    });
+
+    it('should trash with the configured retention', async () => {
+      process.env.TRASH_RETENTION_DAYS = '14';
+      mockTrashDb.trashEntity.mockResolvedValueOnce(accountEntry).mockResolvedValueOnce(profileEntry);
+
+      const result = await service.trashAccount(3, admin);
+      await service.trashProfile(12, admin);
+
+      expect(result).toBe(accountEntry);
+      expect(mockTrashDb.trashEntity).toHaveBeenNthCalledWith(1, 'account', 3, admin, 14, expect.any(Object));
+      expect(mockTrashDb.trashEntity).toHaveBeenNthCalledWith(2, 'profile', 12, admin, 14);
+    });
+
+    it('should disable the Firebase user and emails before trashing the account', async () => {
+      mockTrashDb.trashEntity.mockResolvedValue(accountEntry);
+
+      await service.trashAccount(3, admin);
+
+      expect(mockFirebaseUserService.setDisabled).toHaveBeenCalledWith('uid-3', true);
+      expect(mockPreferencesService.updatePreferences).toHaveBeenCalledWith(3, 'email', {
+        weeklyDigest: false,
+        marketingEmails: false,
+      });
+      expect(mockTrashDb.trashEntity).toHaveBeenCalledWith('account', 3, admin, 30, {
+        firebaseDisabled: true,
+        emailPreferences: { weeklyDigest: true, marketingEmails: false },
+      });
+    });
+
+    it('should not take over a Firebase user that was already disabled', async () => {
+      mockTrashDb.trashEntity.mockResolvedValue(accountEntry);
+      mockFirebaseUserService.getUser.mockResolvedValue({ ...firebaseUser, disabled: true });
+
+      await service.trashAccount(3, admin);
+
+      expect(mockFirebaseUserService.setDisabled).not.toHaveBeenCalled();
+      expect(mockTrashDb.trashEntity).toHaveBeenCalledWith(
+        'account',
+        3,
+        admin,
+        30,
+        expect.objectContaining({ firebaseDisabled: false }),
+      );
+    });
+
+    it('should leave the account untouched when Firebase fails', async () => {
+      mockFirebaseUserService.setDisabled.mockRejectedValueOnce(new Error('firebase down'));
+
+      await expect(service.trashAccount(3, admin)).rejects.toThrow('firebase down');
+      expect(mockPreferencesService.updatePreferences).not.toHaveBeenCalled();
+      expect(mockTrashDb.trashEntity).not.toHaveBeenCalled();
+    });
+
+    it('should enable the Firebase user again when the emails can not be turned off', async () => {
+      mockPreferencesService.updatePreferences.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(service.trashAccount(3, admin)).rejects.toThrow('db down');
+      expect(mockFirebaseUserService.setDisabled).toHaveBeenLastCalledWith('uid-3', false);
+      expect(mockTrashDb.trashEntity).not.toHaveBeenCalled();
+    });
+
+    it('should undo the Firebase and email changes when the account was trashed meanwhile', async () => {
+      mockTrashDb.trashEntity.mockResolvedValue(null);
+
+      expect(await service.trashAccount(3, admin)).toBeNull();
+      expect(mockFirebaseUserService.setDisabled).toHaveBeenLastCalledWith('uid-3', false);
+      expect(mockPreferencesService.updatePreferences).toHaveBeenLastCalledWith(3, 'email', {
+        weeklyDigest: true,
+        marketingEmails: false,
+      });
+    });
+
+    it('should return null without touching Firebase when the account is missing or already trashed', async () => {
+      mockTrashDb.getAccountUid.mockResolvedValueOnce(null);
+      expect(await service.trashAccount(3, admin)).toBeNull();
+
+      mockTrashDb.isAccountTrashed.mockResolvedValueOnce(true);
+      expect(await service.trashAccount(3, admin)).toBeNull();
+
+      expect(mockFirebaseUserService.getUser).not.toHaveBeenCalled();
+      expect(mockTrashDb.trashEntity).not.toHaveBeenCalled();
+    });
+
+    it('should not touch Firebase or emails when trashing a profile', async () => {
+      mockTrashDb.trashEntity.mockResolvedValue(profileEntry);
+
+      await service.trashProfile(12, admin);
+
+      expect(mockTrashDb.getAccountUid).not.toHaveBeenCalled();
+      expect(mockFirebaseUserService.setDisabled).not.toHaveBeenCalled();
+      expect(mockPreferencesService.updatePreferences).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('excludeTrashedProfiles', () => {
+    it('should drop the trashed profiles of the account', async () => {
+      mockTrashDb.getTrashedProfileIds.mockResolvedValue(new Set([12]));
+
+      const result = await service.excludeTrashedProfiles(3, [{ id: 11 }, { id: 12 }]);
+
+      expect(mockTrashDb.getTrashedProfileIds).toHaveBeenCalledWith(3);
+      expect(result).toEqual([{ id: 11 }]);
+    });
+  });
+
+  describe('getTrash', () => {
+    it('should return entries with pagination', async () => {
+      mockTrashDb.getTrashEntries.mockResolvedValue([profileEntry]);
+      mockTrashDb.getTrashEntryCount.mockResolvedValue(51);
+
+      const result = await service.getTrash({ status: 'trashed' }, 1, 0, 50);
+
+      expect(mockTrashDb.getTrashEntries).toHaveBeenCalledWith({ status: 'trashed' }, 50, 0);
+      expect(result.entries).toEqual([profileEntry]);
+      expect(result.pagination).toEqual({
+        totalCount: 51,
+        totalPages: 2,
+        currentPage: 1,
+        limit: 50,
+        hasNextPage: true,
+        hasPrevPage: false,
+      });
+    });
+  });
+
+  describe('restore', () => {
+    it('should return not_found for an unknown entry', async () => {
+      mockTrashDb.getTrashEntryById.mockResolvedValue(null);
+
+      expect(await service.restore(1, admin)).toEqual({ outcome: 'not_found' });
+    });
+
+    it('should return not_trashed for an entry that was already restored or purged', async () => {
+      const restored = { ...profileEntry, status: 'restored' as const };
+      mockTrashDb.getTrashEntryById.mockResolvedValue(restored);
+
+      expect(await service.restore(5, admin)).toEqual({ outcome: 'not_trashed', entry: restored });
+      expect(mockTrashDb.restoreEntity).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to restore a profile while its account is trashed', async () => {
+      mockTrashDb.getTrashEntryById.mockResolvedValue(profileEntry);
+      mockTrashDb.isAccountTrashed.mockResolvedValue(true);
+
+      expect(await service.restore(5, admin)).toEqual({ outcome: 'account_trashed', entry: profileEntry });
+      expect(mockTrashDb.isAccountTrashed).toHaveBeenCalledWith(3);
+      expect(mockTrashDb.restoreEntity).not.toHaveBeenCalled();
+    });
+
+    it('should restore the entity and return the updated entry', async () => {
+      const restored = { ...profileEntry, status: 'restored' as const, restoredByUid: 'admin-1' };
+      mockTrashDb.getTrashEntryById.mockResolvedValueOnce(profileEntry).mockResolvedValueOnce(restored);
+      mockTrashDb.isAccountTrashed.mockResolvedValue(false);
+
+      const result = await service.restore(5, admin);
+
+      expect(mockTrashDb.restoreEntity).toHaveBeenCalledWith(profileEntry, admin);
+      expect(result).toEqual({ outcome: 'restored', entry: restored });
+    });
+
+    it('should enable the Firebase user the trash disabled when restoring an account', async () => {
+      const trashed = { ...accountEntry, firebaseDisabled: true };
+      mockTrashDb.getTrashEntryById.mockResolvedValue(trashed);
+      mockTrashDb.getAccountUid.mockResolvedValue('uid-3');
+
+      await service.restore(6, admin);
+
+      expect(mockTrashDb.restoreEntity).toHaveBeenCalledWith(trashed, admin);
+      expect(mockFirebaseUserService.setDisabled).toHaveBeenCalledWith('uid-3', false);
+    });
+
+    it('should leave the Firebase user and emails alone when the trash did not change them', async () => {
+      mockTrashDb.getTrashEntryById.mockResolvedValue(accountEntry);
+
+      await service.restore(6, admin);
+
+      expect(mockTrashDb.restoreEntity).toHaveBeenCalledWith(accountEntry, admin);
+      expect(mockFirebaseUserService.setDisabled).not.toHaveBeenCalled();
+      expect(mockPreferencesService.updatePreferences).not.toHaveBeenCalled();
+    });
+
+    it('should write back the email preferences the trash turned off', async () => {
+      const trashed = { ...accountEntry, emailPreferences: { weeklyDigest: true, marketingEmails: false } };
+      mockTrashDb.getTrashEntryById.mockResolvedValue(trashed);
+
+      await service.restore(6, admin);
+
+      expect(mockPreferencesService.updatePreferences).toHaveBeenCalledWith(3, 'email', {
+        weeklyDigest: true,
+        marketingEmails: false,
+      });
+    });
+
+    it('should still restore the account when Firebase fails', async () => {
+      const trashed = { ...accountEntry, firebaseDisabled: true };
+      mockTrashDb.getTrashEntryById.mockResolvedValue(trashed);
+      mockTrashDb.getAccountUid.mockResolvedValue('uid-3');
+      mockFirebaseUserService.setDisabled.mockRejectedValueOnce(new Error('firebase down'));
+
+      const result = await service.restore(6, admin);
+
+      expect(result.outcome).toBe('restored');
+      expect(cliLogger.error).toHaveBeenCalledWith(
+        'Failed to enable the Firebase user of restored account 3:',
+        expect.any(Error),
+      );
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('should hard delete expired entries and mark them purged', async () => {
+      mockTrashDb.getExpiredTrashEntries.mockResolvedValue([profileEntry, accountEntry]);
+
+      const summary = await service.purgeExpired();
+
+      expect(profileService.deleteProfile).toHaveBeenCalledWith(12);
+      expect(accountService.deleteAccount).toHaveBeenCalledWith(3);
+      expect(mockTrashDb.markAccountProfilesPurged).toHaveBeenCalledWith(3);
+      expect(mockTrashDb.markTrashEntryPurged).toHaveBeenCalledWith(5);
+      expect(mockTrashDb.markTrashEntryPurged).toHaveBeenCalledWith(6);
+      expect(summary).toEqual({ purged: 2, failed: 0 });
+    });
+
+    it('should keep going when an entry fails to purge', async () => {
+      mockTrashDb.getExpiredTrashEntries.mockResolvedValue([profileEntry, accountEntry]);
+      (profileService.deleteProfile as jest.Mock).mockRejectedValue(new Error('boom'));
+
+      const summary = await service.purgeExpired();
+
+      expect(mockTrashDb.markTrashEntryPurged).not.toHaveBeenCalledWith(5);
+      expect(mockTrashDb.markTrashEntryPurged).toHaveBeenCalledWith(6);
+      expect(cliLogger.error).toHaveBeenCalledWith('Failed to purge trashed profile 12:', expect.any(Error));
+      expect(summary).toEqual({ purged: 1, failed: 1 });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import * as dataQualityDb from '@db/dataQualityDb';
+import { contentOverrideService } from '@services/ContentOverrideService';
+import { duplicateEpisodeService } from '@services/DuplicateEpisodeService';
+import { defaultDataQualityRules } from '@services/dataQualityRules';
+
+jest.mock('@db/dataQualityDb');
+jest.mock('@services/DuplicateEpisodeService', () => ({
+  duplicateEpisodeService: {
+    resolveShowDuplicates: jest.fn(),
+  },
+}));
+jest.mock('@services/ContentOverrideService', () => ({
+  contentOverrideService: {
+    refreshMovie: jest.fn(),
+    refreshShow: jest.fn(),
+  },
+}));
+
+const mockDataQualityDb = dataQualityDb as jest.Mocked<typeof dataQualityDb>;
+
+function getRule(id: string) {
+  const rule = defaultDataQualityRules.find((candidate) => candidate.id === id);
+  if (!rule) throw new Error(`Missing rule ${id}`);
+  return rule;
+}
+
+function issueFor(rule: string, contentType: 'show' | 'movie' | 'episode', details: Record<string, unknown>) {
+  return {
+    id: 1,
+    rule,
+    contentType,
+    contentId: 40,
+    title: 'Title',
+    details,
+    status: 'open' as const,
+    firstDetectedAt: '2025-06-01T05:30:00.000Z',
+    lastDetectedAt: '2025-06-01T05:30:00.000Z',
+    resolvedAt: null,
+    fixedByUid: null,
+    fixedByEmail: null,
+  };
+}
+
+describe('defaultDataQualityRules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should have unique rule ids', () => {
+    const ids = defaultDataQualityRules.map((rule) => rule.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should detect with the matching queries', async () => {
+    mockDataQualityDb.findContentWithoutPoster.mockResolvedValue([]);
+
+    await getRule('show-without-seasons').detect();
+    await getRule('show-duplicate-episodes').detect();
+    await getRule('episode-missing-air-date').detect();
+    await getRule('movie-missing-runtime').detect();
+    await getRule('show-missing-poster').detect();
+    await getRule('movie-missing-poster').detect();
+
+    expect(mockDataQualityDb.findShowsWithoutSeasons).toHaveBeenCalled();
+    expect(mockDataQualityDb.findShowsWithDuplicateEpisodes).toHaveBeenCalled();
+    expect(mockDataQualityDb.findEpisodesWithoutAirDate).toHaveBeenCalled();
+    expect(mockDataQualityDb.findMoviesWithoutRuntime).toHaveBeenCalled();
+    expect(mockDataQualityDb.findContentWithoutPoster).toHaveBeenCalledWith('show');
+    expect(mockDataQualityDb.findContentWithoutPoster).toHaveBeenCalledWith('movie');
+  });
+
+  it('should resolve the duplicate episodes of the show', async () => {
+    await getRule('show-duplicate-episodes').fix!(issueFor('show-duplicate-episodes', 'show', { duplicateGroups: 2 }));
+
+    expect(duplicateEpisodeService.resolveShowDuplicates).toHaveBeenCalledWith(40, false);
+  });
+
+  it('should re-fetch the show for show issues', async () => {
+    await getRule('show-without-seasons').fix!(issueFor('show-without-seasons', 'show', { tmdbId: 1396 }));
+
+    expect(contentOverrideService.refreshShow).toHaveBeenCalledWith(40, 1396, 'all');
+  });
+
+  it('should re-fetch the parent show for episode issues', async () => {
+    await getRule('episode-missing-air-date').fix!(
+      issueFor('episode-missing-air-date', 'episode', { showId: 9, showTmdbId: 1399 }),
+    );
+
+    expect(contentOverrideService.refreshShow).toHaveBeenCalledWith(9, 1399, 'all');
+  });
+
+  it('should re-fetch the movie for movie issues', async () => {
+    await getRule('movie-missing-runtime').fix!(issueFor('movie-missing-runtime', 'movie', { tmdbId: 348 }));
+
+    expect(contentOverrideService.refreshMovie).toHaveBeenCalledWith(40, 348);
+  });
+});
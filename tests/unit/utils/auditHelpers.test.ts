@@ -0,0 +1,112 @@
+import { getAuditAction, getAuditTarget, summarizeBody } from '@utils/auditHelpers';
+
+describe('auditHelpers', () => {
+  describe('getAuditAction', () => {
+    it('should map DELETE to delete', () => {
+      expect(getAuditAction('DELETE', '/api/v1/accounts/:accountId')).toBe('delete');
+    });
+
+    it('should map PUT and PATCH to update', () => {
+      expect(getAuditAction('PUT', '/api/v1/accounts/:accountId')).toBe('update');
+      expect(getAuditAction('patch', '/api/v1/accounts/:accountId')).toBe('update');
+    });
+
+    it('should map POST to create for resource collections', () => {
+      expect(getAuditAction('POST', '/api/v1/notifications')).toBe('create');
+    });
+
+    it('should map POST to execute for operation endpoints', () => {
+      expect(getAuditAction('POST', '/api/v1/admin/services/:service/restart')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/shows/updateAll')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/movies/refresh')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/people/:personId/merge/:targetPersonId')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/admin/trash/:trashId/restore')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/accounts/:accountId/export')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/accounts/:accountId/profiles/:profileId/move')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/accounts/:accountId/firebase/revoke-tokens')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/accounts/:accountId/impersonate')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/accounts/bulk')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/admin/content/issues/:issueId/fix')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/content/update-runs/:runId/cancel')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/admin/content/orphans/cleanup')).toBe('execute');
+      expect(getAuditAction('POST', '/api/v1/people/failures/retry')).toBe('execute');
+    });
+  });
+
+  describe('getAuditTarget', () => {
+    it('should prefer the most specific route param', () => {
+      expect(
+        getAuditTarget('/api/v1/accounts/:accountId/profiles/:profileId', { accountId: '1', profileId: '7' }),
+      ).toEqual({ entityType: 'profile', entityId: '7' });
+    });
+
+    it('should identify accounts from the account id', () => {
+      expect(getAuditTarget('/api/v1/accounts/:accountId', { accountId: '12' })).toEqual({
+        entityType: 'account',
+        entityId: '12',
+      });
+    });
+
+    it('should identify content issues from the issue id', () => {
+      expect(getAuditTarget('/api/v1/admin/content/issues/:issueId/fix', { issueId: '8' })).toEqual({
+        entityType: 'content_issue',
+        entityId: '8',
+      });
+    });
+
+    it('should identify content update runs from the run id', () => {
+      expect(getAuditTarget('/api/v1/content/update-runs/:runId/cancel', { runId: 'run-1' })).toEqual({
+        entityType: 'content_update_run',
+        entityId: 'run-1',
+      });
+    });
+
+    it('should use the source person for merges', () => {
+      expect(
+        getAuditTarget('/api/v1/people/:personId/merge/:targetPersonId', { personId: '3', targetPersonId: '4' }),
+      ).toEqual({ entityType: 'person', entityId: '3' });
+    });
+
+    it('should fall back to body identifiers', () => {
+      expect(getAuditTarget('/api/v1/shows/update', {}, { showId: 55, tmdbId: 1399 })).toEqual({
+        entityType: 'show',
+        entityId: '55',
+      });
+    });
+
+    it('should fall back to the resource segment and generic id param', () => {
+      expect(getAuditTarget('/api/v1/recommendations/:id', { id: '9' })).toEqual({
+        entityType: 'recommendation',
+        entityId: '9',
+      });
+      expect(getAuditTarget('/api/v1/people/update', {})).toEqual({ entityType: 'person', entityId: null });
+    });
+  });
+
+  describe('summarizeBody', () => {
+    it('should return null for empty bodies', () => {
+      expect(summarizeBody(undefined)).toBeNull();
+      expect(summarizeBody({})).toBeNull();
+    });
+
+    it('should redact sensitive keys', () => {
+      expect(summarizeBody({ email: 'a@b.com', password: 'hunter2', apiToken: 'abc' })).toEqual({
+        email: 'a@b.com',
+        password: '[REDACTED]',
+        apiToken: '[REDACTED]',
+      });
+    });
+
+    it('should truncate long strings and large arrays', () => {
+      const summary = summarizeBody({ message: 'x'.repeat(500), recipients: Array.from({ length: 25 }, (_, i) => i) });
+
+      expect((summary!.message as string).length).toBe(201);
+      expect(summary!.recipients).toHaveLength(21);
+      expect((summary!.recipients as unknown[])[20]).toBe('…5 more');
+    });
+
+    it('should collapse deeply nested values', () => {
+      expect(summarizeBody({ a: { b: { c: { d: 1 } } } })).toEqual({ a: { b: { c: '[object]' } } });
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { mapWithConcurrency } from '@utils/concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('should return results in input order', async () => {
+    const delays = [30, 5, 15, 0];
+
+    const results = await mapWithConcurrency(delays, 2, async (delay, index) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return index * 10;
+    });
+
+    expect(results).toEqual([0, 10, 20, 30]);
+  });
+
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency(
+      Array.from({ length: 10 }, (_, i) => i),
+      3,
+      async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+      },
+    );
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should handle an empty list', async () => {
+    const fn = jest.fn();
+    expect(await mapWithConcurrency([], 5, fn)).toEqual([]);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should reject when the function rejects', async () => {
+    await expect(
+      mapWithConcurrency([1, 2], 2, async (item) => {
+        if (item === 2) throw new Error('boom');
+        return item;
+      }),
+    ).rejects.toThrow('boom');
+  });
+});
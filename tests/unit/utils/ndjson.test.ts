@@ -0,0 +1,16 @@
+import { toNdjsonLine } from '@utils/ndjson';
+
+describe('toNdjsonLine', () => {
+  it('should serialize one JSON value per line', () => {
+    const lines = [
+      toNdjsonLine({ type: 'account', data: { id: 1 } }),
+      toNdjsonLine({ type: 'profile', data: { id: 2 } }),
+    ];
+
+    expect(lines.join('')).toBe('{"type":"account","data":{"id":1}}\n{"type":"profile","data":{"id":2}}\n');
+  });
+
+  it('should escape newlines inside values', () => {
+    expect(toNdjsonLine({ notes: 'one\ntwo' })).toBe('{"notes":"one\\ntwo"}\n');
+  });
+});
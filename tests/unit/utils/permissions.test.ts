@@ -0,0 +1,88 @@
+import { getRolePermissions, hasPermission, isAdminRole, resolveAdminRole } from '@utils/permissions';
+
+describe('permissions', () => {
+  describe('isAdminRole', () => {
+    it('should accept known roles', () => {
+      expect(isAdminRole('viewer')).toBe(true);
+      expect(isAdminRole('support')).toBe(true);
+      expect(isAdminRole('content-editor')).toBe(true);
+      expect(isAdminRole('superadmin')).toBe(true);
+    });
+
+    it('should reject unknown values', () => {
+      expect(isAdminRole('owner')).toBe(false);
+      expect(isAdminRole(undefined)).toBe(false);
+      expect(isAdminRole(42)).toBe(false);
+    });
+  });
+
+  describe('resolveAdminRole', () => {
+    const originalDefault = process.env.ADMIN_DEFAULT_ROLE;
+
+    afterEach(() => {
+      if (originalDefault === undefined) {
+        delete process.env.ADMIN_DEFAULT_ROLE;
+      } else {
+        process.env.ADMIN_DEFAULT_ROLE = originalDefault;
+      }
+    });
+
+    it('should use the role custom claim when present', () => {
+      expect(resolveAdminRole({ uid: 'u1', role: 'support' } as any)).toBe('support');
+    });
+
+    it('should fall back to viewer when the claim is missing', () => {
+      delete process.env.ADMIN_DEFAULT_ROLE;
+      expect(resolveAdminRole({ uid: 'u1' } as any)).toBe('viewer');
+    });
+
+    it('should fall back to ADMIN_DEFAULT_ROLE when configured', () => {
+      process.env.ADMIN_DEFAULT_ROLE = 'superadmin';
+      expect(resolveAdminRole({ uid: 'u1' } as any)).toBe('superadmin');
+    });
+
+    it('should ignore an invalid claim and an invalid default', () => {
+      process.env.ADMIN_DEFAULT_ROLE = 'root';
+      expect(resolveAdminRole({ uid: 'u1', role: 'root' } as any)).toBe('viewer');
+    });
+  });
+
+  describe('hasPermission', () => {
+    it('should only grant read permissions to viewers', () => {
+      expect(hasPermission('viewer', 'statistics:read')).toBe(true);
+      expect(hasPermission('viewer', 'logs:read')).toBe(true);
+      expect(hasPermission('viewer', 'accounts:write')).toBe(false);
+      expect(hasPermission('viewer', 'accounts:delete')).toBe(false);
+      expect(hasPermission('viewer', 'accounts:impersonate')).toBe(false);
+      expect(hasPermission('viewer', 'system:manage')).toBe(false);
+    });
+
+    it('should grant account and messaging writes to support', () => {
+      expect(hasPermission('support', 'accounts:write')).toBe(true);
+      expect(hasPermission('support', 'email:send')).toBe(true);
+      expect(hasPermission('support', 'accounts:impersonate')).toBe(true);
+      expect(hasPermission('support', 'accounts:delete')).toBe(false);
+      expect(hasPermission('support', 'content:write')).toBe(false);
+    });
+
+    it('should grant content writes to content editors', () => {
+      expect(hasPermission('content-editor', 'content:write')).toBe(true);
+      expect(hasPermission('content-editor', 'content:delete')).toBe(true);
+      expect(hasPermission('content-editor', 'accounts:write')).toBe(false);
+    });
+
+    it('should grant everything to superadmins', () => {
+      expect(hasPermission('superadmin', 'accounts:delete')).toBe(true);
+      expect(hasPermission('superadmin', 'system:manage')).toBe(true);
+      expect(hasPermission('superadmin', 'jobs:manage')).toBe(true);
+    });
+  });
+
+  describe('getRolePermissions', () => {
+    it('should return the permissions for a role', () => {
+      const permissions = getRolePermissions('viewer');
+      expect(permissions).toContain('accounts:read');
+      expect(permissions).not.toContain('accounts:write');
+    });
+  });
+});
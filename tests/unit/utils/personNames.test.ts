@@ -0,0 +1,25 @@
+import { getNameSimilarity, normalizePersonName } from '@utils/personNames';
+
+describe('personNames', () => {
+  describe('normalizePersonName', () => {
+    it('should ignore accents, case and punctuation', () => {
+      expect(normalizePersonName('  Zoë Saldaña-Perego ')).toBe('zoe saldana perego');
+      expect(normalizePersonName('Robert Downey Jr.')).toBe('robert downey jr');
+    });
+  });
+
+  describe('getNameSimilarity', () => {
+    it('should be 1 for names that match once normalized', () => {
+      expect(getNameSimilarity('Penélope Cruz', 'penelope cruz')).toBe(1);
+    });
+
+    it('should be the share of words in common', () => {
+      expect(getNameSimilarity('Samuel L. Jackson', 'Samuel Jackson')).toBeCloseTo(2 / 3);
+    });
+
+    it('should be 0 without a word in common or without words', () => {
+      expect(getNameSimilarity('Tom Hanks', 'Meryl Streep')).toBe(0);
+      expect(getNameSimilarity('...', '')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { TMDBStub, startTMDBStub } from '../helpers/tmdbStub';
+import { fetchFromTMDB, getTMDBApiUrl, getTMDBRateLimit, waitForTMDBRateLimit } from '@utils/tmdbClient';
+
+describe('tmdbClient', () => {
+  const originalEnv = { ...process.env };
+  let stub: TMDBStub;
+
+  beforeAll(async () => {
+    stub = await startTMDBStub({ '/movie/348': { id: 348, title: 'Alien' }, '/movie/500': 503 });
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+    process.env.TMDB_API_URL = stub.url;
+    process.env.TMDB_TOKEN = 'test-token';
+    process.env.CONTENT_UPDATE_RATE_LIMIT = '0';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('getTMDBApiUrl', () => {
+    it('should default to the TMDB API', () => {
+      delete process.env.TMDB_API_URL;
+      expect(getTMDBApiUrl()).toBe('https://api.themoviedb.org/3');
+    });
+
+    it('should use TMDB_API_URL without a trailing slash', () => {
+      process.env.TMDB_API_URL = 'http://localhost:4010/3/';
+      expect(getTMDBApiUrl()).toBe('http://localhost:4010/3');
+    });
+  });
+
+  describe('getTMDBRateLimit', () => {
+    it('should default to 5 requests per second', () => {
+      delete process.env.CONTENT_UPDATE_RATE_LIMIT;
+      expect(getTMDBRateLimit()).toBe(5);
+    });
+
+    it('should allow 0 to turn the limit off', () => {
+      expect(getTMDBRateLimit()).toBe(0);
+    });
+  });
+
+  describe('waitForTMDBRateLimit', () => {
+    it('should start requests no faster than the rate limit', async () => {
+      jest.useFakeTimers();
+      try {
+        process.env.CONTENT_UPDATE_RATE_LIMIT = '10';
+        const started: number[] = [];
+
+        for (let i = 0; i < 3; i++) {
+          waitForTMDBRateLimit().then(() => started.push(i));
+        }
+        await jest.advanceTimersByTimeAsync(0);
+        expect(started).toEqual([0]);
+
+        await jest.advanceTimersByTimeAsync(100);
+        expect(started).toEqual([0, 1]);
+
+        await jest.advanceTimersByTimeAsync(100);
+        expect(started).toEqual([0, 1, 2]);
+
+        // Leave the limiter idle for the tests that follow
+        await jest.advanceTimersByTimeAsync(100);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('fetchFromTMDB', () => {
+    it('should fetch a resource with the token and query parameters', async () => {
+      const movie = await fetchFromTMDB('/movie/348', { append_to_response: 'credits' });
+
+      expect(movie).toEqual({ id: 348, title: 'Alien' });
+      expect(stub.requests[0].authorization).toBe('Bearer test-token');
+      expect(stub.requests[0].query.get('append_to_response')).toBe('credits');
+    });
+
+    it('should return null for a resource TMDB does not have', async () => {
+      expect(await fetchFromTMDB('/movie/999')).toBeNull();
+    });
+
+    it('should wait for the rate limit before each request', async () => {
+      process.env.CONTENT_UPDATE_RATE_LIMIT = '10';
+
+      await fetchFromTMDB('/movie/348');
+      const firstDone = Date.now();
+      await fetchFromTMDB('/movie/348');
+
+      expect(Date.now() - firstDone).toBeGreaterThanOrEqual(50);
+      expect(stub.requests).toHaveLength(2);
+    });
+
+    it('should throw for other failed responses', async () => {
+      await expect(fetchFromTMDB('/movie/500')).rejects.toThrow('TMDB request /movie/500 failed with status 503');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { deriveSeasonStatus, deriveShowStatus } from '@utils/watchStatus';
+
+describe('watchStatus', () => {
+  const watched = { aired: true, watched: true };
+  const notWatched = { aired: true, watched: false };
+  const unaired = { aired: false, watched: false };
+
+  describe('deriveSeasonStatus', () => {
+    it('should have no status for a season without episodes', () => {
+      expect(deriveSeasonStatus([])).toBeNull();
+    });
+
+    it('should be unaired before the first episode airs', () => {
+      expect(deriveSeasonStatus([unaired, unaired])).toBe('UNAIRED');
+    });
+
+    it('should be watched once every episode is watched', () => {
+      expect(deriveSeasonStatus([watched, watched])).toBe('WATCHED');
+    });
+
+    it('should be up to date when every aired episode is watched but more are coming', () => {
+      expect(deriveSeasonStatus([watched, unaired])).toBe('UP_TO_DATE');
+    });
+
+    it('should be watching part way through', () => {
+      expect(deriveSeasonStatus([watched, notWatched, unaired])).toBe('WATCHING');
+    });
+
+    it('should be not watched when no aired episode is watched', () => {
+      expect(deriveSeasonStatus([notWatched, unaired])).toBe('NOT_WATCHED');
+    });
+  });
+
+  describe('deriveShowStatus', () => {
+    it('should have no status for a show without seasons', () => {
+      expect(deriveShowStatus([], false)).toBeNull();
+    });
+
+    it('should be unaired before any season airs', () => {
+      expect(deriveShowStatus(['UNAIRED'], true)).toBe('UNAIRED');
+    });
+
+    it('should be watched once every season is watched and the show has ended', () => {
+      expect(deriveShowStatus(['WATCHED', 'WATCHED'], false)).toBe('WATCHED');
+    });
+
+    it('should be up to date when everything aired is watched and more may come', () => {
+      expect(deriveShowStatus(['WATCHED', 'WATCHED'], true)).toBe('UP_TO_DATE');
+      expect(deriveShowStatus(['WATCHED', 'UNAIRED'], false)).toBe('UP_TO_DATE');
+      expect(deriveShowStatus(['WATCHED', 'UP_TO_DATE'], false)).toBe('UP_TO_DATE');
+    });
+
+    it('should be watching part way through', () => {
+      expect(deriveShowStatus(['WATCHED', 'NOT_WATCHED'], false)).toBe('WATCHING');
+      expect(deriveShowStatus(['WATCHING', 'UNAIRED'], true)).toBe('WATCHING');
+    });
+
+    it('should be not watched when no season is started', () => {
+      expect(deriveShowStatus(['NOT_WATCHED', 'UNAIRED'], true)).toBe('NOT_WATCHED');
+    });
+  });
+});